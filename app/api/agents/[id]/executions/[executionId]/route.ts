@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server"
+import { agentExecutionService } from "@/lib/agent-execution-service"
+import { withAuth } from "@/lib/api-auth-service"
+import {
+  withErrorHandling,
+  createSuccessResponse,
+  createErrorResponse,
+  throwNotFound,
+  ErrorCode
+} from "@/lib/api-error-handler"
+
+/**
+ * AI Agent API - Agent Execution Detail
+ *
+ * GET /api/agents/{id}/executions/{executionId} - One run with its Cadence
+ * code, arguments, events, error and every retry attempt of it
+ */
+
+async function handleGET(
+  request: Request,
+  { params }: { params: Promise<{ id: string; executionId: string }> }
+): Promise<NextResponse> {
+  // Authenticate request
+  const authResult = await withAuth('agents', 'read')(request)
+  if (!authResult.success) {
+    return createErrorResponse(
+      authResult.error || 'Authentication failed',
+      authResult.status,
+      authResult.status === 401 ? ErrorCode.UNAUTHORIZED : ErrorCode.FORBIDDEN
+    )
+  }
+
+  const { id: agentId, executionId } = await params
+
+  const execution = await agentExecutionService.getExecutionDetail(agentId, executionId)
+  if (!execution) {
+    throwNotFound('Execution', executionId)
+  }
+
+  return createSuccessResponse(null, { execution })
+}
+
+export const GET = withErrorHandling(handleGET, 'Agent Execution Detail')
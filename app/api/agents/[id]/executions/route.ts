@@ -0,0 +1,84 @@
+import { NextResponse } from "next/server"
+import { agentManagementService } from "@/lib/agent-management-service"
+import { agentExecutionService, type ExecutionRecord } from "@/lib/agent-execution-service"
+import { withAuth } from "@/lib/api-auth-service"
+import {
+  withErrorHandling,
+  createSuccessResponse,
+  createErrorResponse,
+  throwNotFound,
+  throwValidationError,
+  ErrorCode
+} from "@/lib/api-error-handler"
+
+/**
+ * AI Agent API - Agent Run History
+ *
+ * GET /api/agents/{id}/executions - Page through an agent's runs, most
+ * recent first, filtered by status and start time, with its metrics
+ */
+
+const MAX_LIMIT = 100
+
+async function handleGET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  // Authenticate request
+  const authResult = await withAuth('agents', 'read')(request)
+  if (!authResult.success) {
+    return createErrorResponse(
+      authResult.error || 'Authentication failed',
+      authResult.status,
+      authResult.status === 401 ? ErrorCode.UNAUTHORIZED : ErrorCode.FORBIDDEN
+    )
+  }
+
+  const { id: agentId } = await params
+  const { searchParams } = new URL(request.url)
+
+  const status = searchParams.get('status') as ExecutionRecord['status'] | null
+  if (status && !['success', 'failed', 'awaiting-approval'].includes(status)) {
+    throwValidationError('Invalid status value', 'Status must be one of: success, failed, awaiting-approval')
+  }
+
+  const from = searchParams.get('from') ? new Date(searchParams.get('from')!) : undefined
+  const to = searchParams.get('to') ? new Date(searchParams.get('to')!) : undefined
+  if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+    throwValidationError('Invalid time range', 'from and to must be ISO dates')
+  }
+
+  const limit = Number(searchParams.get('limit') ?? 20)
+  const offset = Number(searchParams.get('offset') ?? 0)
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    throwValidationError('Invalid limit', `limit must be an integer from 1 to ${MAX_LIMIT}`)
+  }
+  if (!Number.isInteger(offset) || offset < 0) {
+    throwValidationError('Invalid offset', 'offset must be a non-negative integer')
+  }
+
+  await agentManagementService.initialize()
+  if (!(await agentManagementService.getAgentStatus(agentId))) {
+    throwNotFound('Agent', agentId)
+  }
+
+  const page = await agentExecutionService.queryExecutions(agentId, {
+    status: status || undefined,
+    from,
+    to,
+    offset,
+    limit
+  })
+
+  return createSuccessResponse(null, {
+    ...page,
+    metrics: agentExecutionService.getExecutionMetrics(agentId),
+    filters: {
+      status,
+      from: from?.toISOString(),
+      to: to?.toISOString()
+    }
+  })
+}
+
+export const GET = withErrorHandling(handleGET, 'Agent Executions')
@@ -0,0 +1,136 @@
+import { NextResponse } from "next/server"
+import { agentManagementService } from "@/lib/agent-management-service"
+import { withAuth } from "@/lib/api-auth-service"
+import { Agent, AgentConfiguration, AgentStatus } from "@/lib/types"
+import {
+  AgentBacktestError,
+  BacktestReading,
+  DEFAULT_BACKTEST_MAX_EXECUTIONS,
+  MAX_BACKTEST_EXECUTIONS,
+  getDefaultAgentBacktestService
+} from "@/lib/agent-backtest"
+import {
+  withErrorHandling,
+  createSuccessResponse,
+  createErrorResponse,
+  validateRequiredFields,
+  throwNotFound,
+  throwValidationError,
+  APIErrorClass,
+  ErrorCode
+} from "@/lib/api-error-handler"
+
+/**
+ * AI Agent API - Agent Backtest Endpoint
+ *
+ * POST /api/agents/backtest - Replay an agent's schedule and triggers over a
+ * past window and simulate each would-be run on the Flow emulator. Accepts a
+ * saved agent (agentId) or a draft (workflowId and config) before it is
+ * created.
+ */
+
+interface BacktestRequest {
+  agentId?: string
+  workflowId?: string
+  config?: AgentConfiguration
+  from: string
+  to: string
+  readings?: Record<number, BacktestReading[]>
+  maxExecutions?: number
+}
+
+const MAX_WINDOW_MS = 90 * 24 * 60 * 60 * 1000
+
+async function handlePOST(request: Request): Promise<NextResponse> {
+  // Authenticate request
+  const authResult = await withAuth('agents', 'read')(request)
+  if (!authResult.success) {
+    return createErrorResponse(
+      authResult.error || 'Authentication failed',
+      authResult.status,
+      authResult.status === 401 ? ErrorCode.UNAUTHORIZED : ErrorCode.FORBIDDEN
+    )
+  }
+
+  let body: BacktestRequest
+  try {
+    body = await request.json()
+  } catch (error) {
+    throwValidationError('Invalid JSON in request body', error instanceof Error ? error.message : 'Unknown JSON parsing error')
+  }
+
+  validateRequiredFields(body, ['from', 'to'])
+
+  const from = new Date(body.from)
+  const to = new Date(body.to)
+  if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+    throwValidationError('Invalid backtest window', 'from and to must be ISO dates')
+  }
+  if (!(from < to) || to.getTime() - from.getTime() > MAX_WINDOW_MS) {
+    throwValidationError('Invalid backtest window', 'The window must end after it starts and span at most 90 days')
+  }
+
+  const maxExecutions = body.maxExecutions ?? DEFAULT_BACKTEST_MAX_EXECUTIONS
+  if (!Number.isInteger(maxExecutions) || maxExecutions < 1 || maxExecutions > MAX_BACKTEST_EXECUTIONS) {
+    throwValidationError('Invalid maxExecutions', `maxExecutions must be an integer from 1 to ${MAX_BACKTEST_EXECUTIONS}`)
+  }
+
+  let agent: Agent
+  if (body.agentId) {
+    const saved = await agentManagementService.getAgentStatus(body.agentId)
+    if (!saved) {
+      throwNotFound('Agent', body.agentId)
+    }
+    agent = saved
+  } else if (body.workflowId && body.config) {
+    try {
+      agentManagementService.validateAgentConfiguration(body.config)
+    } catch (error) {
+      throwValidationError('Invalid agent configuration', error instanceof Error ? error.message : 'Unknown configuration error')
+    }
+    const now = new Date().toISOString()
+    agent = {
+      id: 'backtest',
+      name: 'Backtest',
+      description: 'Draft agent under backtest',
+      workflowId: body.workflowId,
+      schedule: body.config.schedule,
+      triggers: body.config.eventTriggers,
+      status: AgentStatus.PAUSED,
+      createdAt: now,
+      updatedAt: now,
+      owner: authResult.apiKey?.userId || 'anonymous',
+      policy: body.config.policy
+    }
+  } else {
+    throwValidationError('Missing agent', 'Either agentId, or workflowId and config, must be provided')
+  }
+
+  console.log(`Backtesting agent ${agent.id} from ${from.toISOString()} to ${to.toISOString()}`)
+
+  try {
+    const report = await getDefaultAgentBacktestService().backtest(agent, {
+      from,
+      to,
+      readings: body.readings,
+      maxExecutions
+    })
+    return createSuccessResponse(null, { report })
+  } catch (error) {
+    if (error instanceof AgentBacktestError && error.code === 'NOT_FOUND') {
+      throw new APIErrorClass('Workflow not found', ErrorCode.RESOURCE_NOT_FOUND, 404, error.message)
+    }
+    if (error instanceof AgentBacktestError && error.code === 'BUSY') {
+      throw new APIErrorClass('Too many backtests', ErrorCode.RATE_LIMIT_EXCEEDED, 429, error.message)
+    }
+    if (error instanceof AgentBacktestError && error.code === 'SIMULATOR_UNAVAILABLE') {
+      throw new APIErrorClass('Flow emulator unavailable', ErrorCode.SERVICE_UNAVAILABLE, 503, error.message)
+    }
+    if (error instanceof AgentBacktestError) {
+      throwValidationError('Backtest failed', error.message)
+    }
+    throw error
+  }
+}
+
+export const POST = withErrorHandling(handlePOST, 'Agent Backtest')
@@ -44,7 +44,7 @@ export async function POST(request: Request) {
         }, { status: 400 })
     }
 
-    const updatedAgent = agentManagementService.getAgentStatus(agentId)
+    const updatedAgent = await agentManagementService.getAgentStatus(agentId)
     
     return NextResponse.json({
       success: true,
@@ -10,6 +10,7 @@ import { agentManagementService } from "@/lib/agent-management-service"
 export async function GET(request: Request) {
   try {
     const { searchParams } = new URL(request.url)
+    await agentManagementService.initialize()
     const agentId = searchParams.get('id')
     const userId = searchParams.get('userId') || searchParams.get('owner')
     
@@ -17,7 +18,7 @@ export async function GET(request: Request) {
     if (agentId) {
       console.log(`Fetching health for Agent: ${agentId}`)
       
-      const agent = agentManagementService.getAgentStatus(agentId)
+      const agent = await agentManagementService.getAgentStatus(agentId)
       if (!agent) {
         return NextResponse.json({
           success: false,
@@ -37,8 +38,8 @@ export async function GET(request: Request) {
 
     // Get health for all Agents (or user's Agents)
     let agents = userId 
-      ? agentManagementService.getUserAgents(userId)
-      : agentManagementService.getAllAgents()
+      ? await agentManagementService.getUserAgents(userId)
+      : await agentManagementService.getAllAgents()
 
     const healthData = agents.map(agent => ({
       agentId: agent.id,
@@ -68,6 +68,7 @@ async function handleGET(request: Request): Promise<NextResponse> {
   }
 
   const { searchParams } = new URL(request.url)
+  await agentManagementService.initialize()
   
   const agentId = searchParams.get('id')
   const userId = searchParams.get('userId') || searchParams.get('owner')
@@ -95,7 +96,7 @@ async function handleGET(request: Request): Promise<NextResponse> {
     
     let agent: Agent | null
     try {
-      agent = agentManagementService.getAgentStatus(agentId)
+      agent = await agentManagementService.getAgentStatus(agentId)
     } catch (error) {
       throwValidationError('Failed to fetch agent', error instanceof Error ? error.message : 'Unknown agent fetch error')
     }
@@ -125,10 +126,10 @@ async function handleGET(request: Request): Promise<NextResponse> {
   try {
     if (userId) {
       console.log(`Fetching Agents for user: ${userId}`)
-      agents = agentManagementService.getUserAgents(userId)
+      agents = await agentManagementService.getUserAgents(userId)
     } else {
       console.log('Fetching all Agents...')
-      agents = agentManagementService.getAllAgents()
+      agents = await agentManagementService.getAllAgents()
     }
   } catch (error) {
     throwValidationError('Failed to fetch agents', error instanceof Error ? error.message : 'Unknown agents fetch error')
@@ -271,7 +272,7 @@ async function handlePOST(request: Request): Promise<NextResponse> {
 
   let agent: Agent | null
   try {
-    agent = agentManagementService.getAgentStatus(agentId)
+    agent = await agentManagementService.getAgentStatus(agentId)
   } catch (error) {
     throwValidationError('Failed to fetch created agent', error instanceof Error ? error.message : 'Unknown agent fetch error')
   }
@@ -342,7 +343,7 @@ async function handlePUT(request: Request): Promise<NextResponse> {
   
   let updatedAgent: Agent | null
   try {
-    updatedAgent = agentManagementService.getAgentStatus(body.agentId)
+    updatedAgent = await agentManagementService.getAgentStatus(body.agentId)
   } catch (error) {
     throwValidationError('Failed to fetch updated agent', error instanceof Error ? error.message : 'Unknown agent fetch error')
   }
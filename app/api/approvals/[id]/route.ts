@@ -0,0 +1,102 @@
+import { NextResponse } from "next/server"
+import { withAuth } from "@/lib/api-auth-service"
+import { ApprovalError, getDefaultApprovalService } from "@/lib/approval-service"
+import {
+  withErrorHandling,
+  createSuccessResponse,
+  createErrorResponse,
+  validateRequiredFields,
+  throwNotFound,
+  throwValidationError,
+  APIErrorClass,
+  ErrorCode
+} from "@/lib/api-error-handler"
+
+/**
+ * Approvals API - Approval Request
+ *
+ * GET /api/approvals/{id} - One request with its Cadence code, decisions and
+ * audit trail
+ * POST /api/approvals/{id} - Approve or reject it as the calling API key's
+ * user, who must be one of its approvers
+ */
+
+interface DecisionRequest {
+  decision: 'approve' | 'reject'
+  comment?: string
+}
+
+async function handleGET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  // Authenticate request
+  const authResult = await withAuth('approvals', 'read')(request)
+  if (!authResult.success) {
+    return createErrorResponse(
+      authResult.error || 'Authentication failed',
+      authResult.status,
+      authResult.status === 401 ? ErrorCode.UNAUTHORIZED : ErrorCode.FORBIDDEN
+    )
+  }
+
+  const { id } = await params
+
+  const approval = await getDefaultApprovalService().get(id)
+  if (!approval) {
+    throwNotFound('Approval', id)
+  }
+
+  return createSuccessResponse(null, { approval })
+}
+
+async function handlePOST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  // Authenticate request
+  const authResult = await withAuth('approvals', 'write')(request)
+  if (!authResult.success) {
+    return createErrorResponse(
+      authResult.error || 'Authentication failed',
+      authResult.status,
+      authResult.status === 401 ? ErrorCode.UNAUTHORIZED : ErrorCode.FORBIDDEN
+    )
+  }
+
+  const { id } = await params
+
+  let body: DecisionRequest
+  try {
+    body = await request.json()
+  } catch (error) {
+    throwValidationError('Invalid JSON in request body', error instanceof Error ? error.message : 'Unknown JSON parsing error')
+  }
+
+  validateRequiredFields(body, ['decision'])
+  if (body.decision !== 'approve' && body.decision !== 'reject') {
+    throwValidationError('Invalid decision', 'decision must be approve or reject')
+  }
+  if (body.comment !== undefined && (typeof body.comment !== 'string' || body.comment.length > 1000)) {
+    throwValidationError('Invalid comment', 'comment must be a string of at most 1000 characters')
+  }
+
+  try {
+    const approval = await getDefaultApprovalService().decide(id, authResult.apiKey!.userId, body.decision, body.comment)
+    return createSuccessResponse(null, { approval })
+  } catch (error) {
+    if (error instanceof ApprovalError && error.code === 'NOT_FOUND') {
+      throwNotFound('Approval', id)
+    }
+    if (error instanceof ApprovalError && error.code === 'FORBIDDEN') {
+      throw new APIErrorClass('Not an approver', ErrorCode.FORBIDDEN, 403, error.message)
+    }
+    if (error instanceof ApprovalError) {
+      throw new APIErrorClass('Approval already decided', ErrorCode.CONFLICT, 409, error.message)
+    }
+    throw error
+  }
+}
+
+export const GET = withErrorHandling(handleGET, 'Approval')
+export const POST = withErrorHandling(handlePOST, 'Approval Decision')
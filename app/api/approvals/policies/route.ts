@@ -0,0 +1,97 @@
+import { NextResponse } from "next/server"
+import { isAdminKey, withAuth } from "@/lib/api-auth-service"
+import { ApprovalError, ApprovalPolicy, getDefaultApprovalService } from "@/lib/approval-service"
+import {
+  withErrorHandling,
+  createSuccessResponse,
+  createErrorResponse,
+  validateRequiredFields,
+  throwValidationError,
+  APIErrorClass,
+  ErrorCode
+} from "@/lib/api-error-handler"
+
+/**
+ * Approvals API - Approval Policies
+ *
+ * GET /api/approvals/policies?workflowId= - The M-of-N policy that applies
+ * to a workflow: its own, or the APPROVAL_* default
+ * PUT /api/approvals/policies - Set a workflow's policy, or clear it with
+ * policy: null. Only the workflow's owner or an admin key may.
+ */
+
+interface PolicyRequest {
+  workflowId: string
+  policy: ApprovalPolicy | null
+}
+
+async function handleGET(request: Request): Promise<NextResponse> {
+  // Authenticate request
+  const authResult = await withAuth('approvals', 'read')(request)
+  if (!authResult.success) {
+    return createErrorResponse(
+      authResult.error || 'Authentication failed',
+      authResult.status,
+      authResult.status === 401 ? ErrorCode.UNAUTHORIZED : ErrorCode.FORBIDDEN
+    )
+  }
+
+  const { searchParams } = new URL(request.url)
+  const workflowId = searchParams.get('workflowId') || undefined
+
+  const service = getDefaultApprovalService()
+  const own = workflowId ? await service.getWorkflowPolicy(workflowId) : null
+  const policy = own || await service.getPolicy()
+
+  return createSuccessResponse(null, {
+    workflowId,
+    policy,
+    source: own ? 'workflow' : policy ? 'default' : null
+  })
+}
+
+async function handlePUT(request: Request): Promise<NextResponse> {
+  // Authenticate request
+  const authResult = await withAuth('approvals', 'write')(request)
+  if (!authResult.success) {
+    return createErrorResponse(
+      authResult.error || 'Authentication failed',
+      authResult.status,
+      authResult.status === 401 ? ErrorCode.UNAUTHORIZED : ErrorCode.FORBIDDEN
+    )
+  }
+
+  let body: PolicyRequest
+  try {
+    body = await request.json()
+  } catch (error) {
+    throwValidationError('Invalid JSON in request body', error instanceof Error ? error.message : 'Unknown JSON parsing error')
+  }
+
+  validateRequiredFields(body, ['workflowId'])
+  if (body.policy === undefined) {
+    throwValidationError('Missing policy', 'policy must be an approval policy, or null to use the default')
+  }
+
+  try {
+    await getDefaultApprovalService().setPolicy(body.workflowId, body.policy, {
+      userId: authResult.apiKey?.userId || 'anonymous',
+      admin: isAdminKey(authResult.apiKey)
+    })
+  } catch (error) {
+    if (error instanceof ApprovalError && error.code === 'FORBIDDEN') {
+      throw new APIErrorClass('Not allowed to change this policy', ErrorCode.FORBIDDEN, 403, error.message)
+    }
+    throwValidationError('Invalid approval policy', error instanceof Error ? error.message : 'Unknown policy error')
+  }
+
+  console.log(`Approval policy for workflow ${body.workflowId} ${body.policy ? 'set' : 'cleared'} by ${authResult.apiKey?.userId}`)
+
+  return createSuccessResponse(null, {
+    workflowId: body.workflowId,
+    policy: await getDefaultApprovalService().getPolicy(body.workflowId)
+  })
+}
+
+export const GET = withErrorHandling(handleGET, 'Approval Policies')
+export const PUT = withErrorHandling(handlePUT, 'Approval Policies')
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server"
+import { withAuth } from "@/lib/api-auth-service"
+import { ApprovalStatus, getDefaultApprovalService } from "@/lib/approval-service"
+import {
+  withErrorHandling,
+  createSuccessResponse,
+  createErrorResponse,
+  throwValidationError,
+  ErrorCode
+} from "@/lib/api-error-handler"
+
+/**
+ * Approvals API - Approval Queue
+ *
+ * GET /api/approvals - Approval requests for risky agent runs and submitted
+ * workflows, newest first. Filter by status, workflowId or agentId;
+ * mine=true lists only requests the caller may decide.
+ */
+
+const STATUSES: ApprovalStatus[] = ['pending', 'approved', 'rejected', 'expired', 'executed']
+
+async function handleGET(request: Request): Promise<NextResponse> {
+  // Authenticate request
+  const authResult = await withAuth('approvals', 'read')(request)
+  if (!authResult.success) {
+    return createErrorResponse(
+      authResult.error || 'Authentication failed',
+      authResult.status,
+      authResult.status === 401 ? ErrorCode.UNAUTHORIZED : ErrorCode.FORBIDDEN
+    )
+  }
+
+  const { searchParams } = new URL(request.url)
+
+  const status = searchParams.get('status') as ApprovalStatus | null
+  if (status && !STATUSES.includes(status)) {
+    throwValidationError('Invalid status value', `Status must be one of: ${STATUSES.join(', ')}`)
+  }
+
+  const approvals = await getDefaultApprovalService().list({
+    statuses: status ? [status] : undefined,
+    workflowId: searchParams.get('workflowId') || undefined,
+    agentId: searchParams.get('agentId') || undefined,
+    approver: searchParams.get('mine') === 'true' ? authResult.apiKey?.userId : undefined
+  })
+
+  return createSuccessResponse(null, {
+    approvals,
+    total: approvals.length
+  })
+}
+
+export const GET = withErrorHandling(handleGET, 'Approvals')
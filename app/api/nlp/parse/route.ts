@@ -99,7 +99,9 @@ export async function GET() {
         steps: { type: 'array', description: 'Parsed workflow steps' },
         ambiguities: { type: 'array', description: 'Detected ambiguities' },
         suggestions: { type: 'array', description: 'Improvement suggestions' },
-        processingTime: { type: 'number', description: 'Processing time in milliseconds' }
+        processingTime: { type: 'number', description: 'Processing time in milliseconds' },
+        parser: { type: 'string', description: 'llm when the configured LLM provider parsed the steps, heuristic otherwise' },
+        language: { type: 'string', description: 'Detected input language: en, es, pt or zh' }
       }
     },
     examples: [
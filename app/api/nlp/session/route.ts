@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { NLPError } from '@/lib/nlp-service'
+import { NLPSessionError, getDefaultNLPSessionService, type NLPSessionAnswer } from '@/lib/nlp-session-service'
+
+const MAX_MESSAGE_LENGTH = 1000
+
+function sessionErrorResponse(error: unknown) {
+  console.error('NLP session error:', error)
+
+  if (error instanceof NLPSessionError) {
+    return NextResponse.json(
+      { success: false, error: error.message, code: error.code },
+      { status: error.code === 'NOT_FOUND' ? 404 : 400 }
+    )
+  }
+
+  if (error instanceof NLPError) {
+    return NextResponse.json(
+      { success: false, error: error.message, code: error.code, details: error.details },
+      { status: 400 }
+    )
+  }
+
+  return NextResponse.json(
+    { success: false, error: 'Internal server error during NLP processing' },
+    { status: 500 }
+  )
+}
+
+/**
+ * POST /api/nlp/session
+ * Start a conversation, or take the next turn of one, refining a workflow.
+ * Each turn returns the updated steps, a diff and clarifying questions.
+ * Sessions are kept in this server process's memory: they are not shared
+ * between workers or instances and are lost on restart, so turns must reach
+ * the process that created the session. Idle and least recently used
+ * sessions are dropped.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { sessionId, message, answers } = await request.json()
+
+    if (message !== undefined && typeof message !== 'string') {
+      return NextResponse.json({ error: 'Message must be a string' }, { status: 400 })
+    }
+
+    if (message && message.length > MAX_MESSAGE_LENGTH) {
+      return NextResponse.json(
+        { error: `Message is too long (max ${MAX_MESSAGE_LENGTH} characters)` },
+        { status: 400 }
+      )
+    }
+
+    if (answers !== undefined && (!Array.isArray(answers) || answers.some((answer: NLPSessionAnswer) =>
+      typeof answer?.questionId !== 'string' || typeof answer?.value !== 'string'))) {
+      return NextResponse.json(
+        { error: 'Answers must be a list of { questionId, value } strings' },
+        { status: 400 }
+      )
+    }
+
+    const sessions = getDefaultNLPSessionService()
+    const result = sessionId
+      ? await sessions.reply(sessionId, { message, answers })
+      : await sessions.create({ message, answers })
+
+    return NextResponse.json({
+      success: true,
+      data: result
+    })
+
+  } catch (error) {
+    return sessionErrorResponse(error)
+  }
+}
+
+/**
+ * GET /api/nlp/session?sessionId=...
+ * Get a conversation with its current steps and open questions
+ */
+export async function GET(request: NextRequest) {
+  const sessionId = request.nextUrl.searchParams.get('sessionId')
+  if (!sessionId) {
+    return NextResponse.json({ error: 'sessionId is required' }, { status: 400 })
+  }
+
+  const session = getDefaultNLPSessionService().get(sessionId)
+  if (!session) {
+    return sessionErrorResponse(new NLPSessionError(`NLP session ${sessionId} not found`, 'NOT_FOUND'))
+  }
+
+  return NextResponse.json({ success: true, data: { session } })
+}
+
+/**
+ * DELETE /api/nlp/session?sessionId=...
+ * End a conversation
+ */
+export async function DELETE(request: NextRequest) {
+  const sessionId = request.nextUrl.searchParams.get('sessionId')
+  if (!sessionId) {
+    return NextResponse.json({ error: 'sessionId is required' }, { status: 400 })
+  }
+
+  getDefaultNLPSessionService().delete(sessionId)
+  return NextResponse.json({ success: true })
+}
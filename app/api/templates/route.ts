@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from "next/server"
+import {
+  TEMPLATE_CATEGORIES,
+  TemplateError,
+  getWorkflowTemplate,
+  getWorkflowTemplates,
+  instantiateTemplate,
+  summarizeTemplate,
+  type TemplateCategory
+} from "@/lib/workflow-templates"
+import { parseImportedWorkflow } from "@/lib/workflow-file-format"
+import { WorkflowValidator } from "@/lib/workflow-validator"
+import { getRealFlowActions } from "@/lib/real-flow-actions"
+import type { ActionMetadata } from "@/lib/types"
+import {
+  withErrorHandling,
+  createSuccessResponse,
+  validateRequiredFields,
+  throwNotFound,
+  throwValidationError
+} from "@/lib/api-error-handler"
+
+/**
+ * Workflow Templates API
+ *
+ * GET /api/templates - List templates with their variables (?category= to filter)
+ * POST /api/templates - Instantiate a template from variable values into
+ *   canvas state, parameter values and agent schedule, validated with WorkflowValidator
+ */
+
+async function handleGET(request: NextRequest): Promise<NextResponse> {
+  const category = request.nextUrl.searchParams.get("category") || undefined
+  if (category && !Object.hasOwn(TEMPLATE_CATEGORIES, category)) {
+    throwValidationError("Invalid category", `Category must be one of: ${Object.keys(TEMPLATE_CATEGORIES).join(", ")}`)
+  }
+
+  return createSuccessResponse(null, {
+    templates: getWorkflowTemplates(category as TemplateCategory | undefined).map(summarizeTemplate),
+    categories: TEMPLATE_CATEGORIES
+  })
+}
+
+async function handlePOST(request: NextRequest): Promise<NextResponse> {
+  let body: any
+  try {
+    body = await request.json()
+  } catch (error) {
+    throwValidationError("Invalid JSON in request body", "Request body must be valid JSON")
+  }
+
+  if (!body || typeof body !== "object") {
+    throwValidationError("Invalid request body", "Request body must be a JSON object")
+  }
+
+  validateRequiredFields(body, ["templateId"])
+
+  const template = getWorkflowTemplate(body.templateId)
+  if (!template) {
+    throwNotFound("Template", body.templateId)
+  }
+
+  let imported
+  try {
+    imported = instantiateTemplate(template, body.variables || {})
+  } catch (error) {
+    if (error instanceof TemplateError) {
+      throwValidationError(error.message, error.errors.join("; ") || undefined)
+    }
+    throw error
+  }
+
+  const actionMetadata: Record<string, ActionMetadata> = {}
+  getRealFlowActions().forEach(action => {
+    actionMetadata[action.id] = action
+  })
+
+  const parsedWorkflow = parseImportedWorkflow(imported)
+  const validation = new WorkflowValidator().validateWorkflow(parsedWorkflow, actionMetadata, imported.parameterValues)
+
+  return createSuccessResponse(null, {
+    workflow: imported.workflow,
+    parameterValues: imported.parameterValues,
+    agentConfig: imported.agentConfig,
+    name: imported.name,
+    parsedWorkflow,
+    validation: {
+      isValid: validation.isValid,
+      errors: validation.globalErrors,
+      warnings: validation.warnings
+    }
+  })
+}
+
+export const GET = withErrorHandling(handleGET, "Workflow Templates")
+export const POST = withErrorHandling(handlePOST, "Workflow Template Instantiation")
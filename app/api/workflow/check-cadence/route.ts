@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server"
+import { checkCadenceCode } from "@/lib/cadence-language-server"
+import {
+  withErrorHandling,
+  createSuccessResponse,
+  validateRequiredFields,
+  throwValidationError
+} from "@/lib/api-error-handler"
+
+/**
+ * Cadence Check API
+ *
+ * POST /api/workflow/check-cadence - Parse and type check Cadence code with the
+ * Cadence language server and return its diagnostics (1-based line/column)
+ */
+
+async function handlePOST(request: Request): Promise<NextResponse> {
+  let body: any
+  try {
+    body = await request.json()
+  } catch (error) {
+    throwValidationError('Invalid JSON in request body', 'Request body must be valid JSON')
+  }
+
+  if (!body || typeof body !== 'object') {
+    throwValidationError('Invalid request body', 'Request body must be a JSON object')
+  }
+
+  validateRequiredFields(body, ['code'])
+
+  if (typeof body.code !== 'string') {
+    throwValidationError('Invalid code', 'code must be a string of Cadence source')
+  }
+
+  const result = await checkCadenceCode(body.code)
+
+  return createSuccessResponse(null, {
+    checked: result.checked,
+    diagnostics: result.diagnostics,
+    unavailableReason: result.unavailableReason
+  })
+}
+
+export const POST = withErrorHandling(handlePOST, 'Cadence Check')
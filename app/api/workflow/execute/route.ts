@@ -4,6 +4,8 @@ import { CadenceGenerator } from "@/lib/cadence-generator"
 import { WorkflowParser } from "@/lib/workflow-parser"
 import { ExecutionValidator } from "@/lib/execution-validator"
 import { FlowTransactionManager, TransactionBuildOptions } from "@/lib/transaction-manager"
+import { ApprovalError, ApprovalRequiredError, getDefaultApprovalService, hashCadence } from "@/lib/approval-service"
+import { getDefaultWorkflowStorageService } from "@/lib/workflow-storage"
 import {
   withErrorHandling,
   createSuccessResponse,
@@ -11,9 +13,21 @@ import {
   validateRequiredFields,
   validateParameters,
   throwValidationError,
+  APIErrorClass,
   ErrorCode
 } from "@/lib/api-error-handler"
 
+/**
+ * Workflow Execution Endpoint
+ *
+ * POST /api/workflow/execute - Validate a workflow and run it on chain (or
+ * simulate it in development). A risky transaction is not submitted: the
+ * response is 202 with a pending approval request, and the workflow is
+ * submitted again with its approvalId once the request is approved. The
+ * saved workflow's approval policy applies only when the submitted workflow
+ * generates the same Cadence as its latest saved version.
+ */
+
 async function handlePOST(request: Request): Promise<NextResponse> {
   let body: any
   try {
@@ -26,10 +40,12 @@ async function handlePOST(request: Request): Promise<NextResponse> {
     throwValidationError('Invalid request body', 'Request body must be a JSON object')
   }
 
-  const { workflow, actionMetadata, parameterValues } = body as { 
+  const { workflow, actionMetadata, parameterValues, workflowId, approvalId } = body as {
     workflow: ParsedWorkflow
     actionMetadata?: Record<string, ActionMetadata>
     parameterValues?: Record<string, Record<string, any>>
+    workflowId?: string // The saved workflow this submits; selects its approval policy
+    approvalId?: string
   }
 
   // Validate required fields
@@ -69,6 +85,9 @@ async function handlePOST(request: Request): Promise<NextResponse> {
     throwValidationError('Invalid parameter values format', 'Parameter values must be an object')
   }
 
+  // The approval policy is chosen from what was saved, not from the request
+  const policyWorkflowId = workflowId ? await resolvePolicyWorkflowId(workflowId, workflow) : undefined
+
   // Initialize execution validator
   const executionValidator = new ExecutionValidator()
 
@@ -176,6 +195,17 @@ async function handlePOST(request: Request): Promise<NextResponse> {
       
       // Build and execute transaction
       const transaction = await transactionManager.buildTransaction(workflow, buildOptions)
+      // Throws ApprovalRequiredError while a risky transaction waits for approval
+      await getDefaultApprovalService().check({
+        kind: 'workflow',
+        workflowId: policyWorkflowId,
+        subject: workflow.metadata?.name || policyWorkflowId || 'Submitted workflow',
+        transaction,
+        workflow,
+        estimatedGas: buildOptions.gasLimit,
+        requestedBy: 'api',
+        approvalId
+      })
       const transactionResult = await transactionManager.executeTransaction(transaction)
       
       executionResult = {
@@ -191,6 +221,24 @@ async function handlePOST(request: Request): Promise<NextResponse> {
       }
     }
   } catch (error) {
+    if (error instanceof ApprovalRequiredError) {
+      return NextResponse.json({
+        success: false,
+        pendingApproval: true,
+        approvalId: error.approval.id,
+        approval: error.approval,
+        error: 'Awaiting approval',
+        details: [error.message],
+        timestamp: new Date().toISOString()
+      }, { status: 202 })
+    }
+    if (error instanceof ApprovalError && error.code === 'UNCONFIGURED') {
+      throw new APIErrorClass('Approval required', ErrorCode.FORBIDDEN, 403, error.message)
+    }
+    if (error instanceof ApprovalError) {
+      const status = error.code === 'NOT_FOUND' ? 404 : 409
+      throw new APIErrorClass('Approval cannot be used', status === 404 ? ErrorCode.RESOURCE_NOT_FOUND : ErrorCode.CONFLICT, status, error.message)
+    }
     throwValidationError('Workflow execution failed', error instanceof Error ? error.message : 'Unknown execution error')
   }
 
@@ -207,6 +255,36 @@ async function handlePOST(request: Request): Promise<NextResponse> {
 
 export const POST = withErrorHandling(handlePOST, 'Workflow Execution')
 
+/**
+ * Check that the submitted workflow is the saved one it names, so a request
+ * cannot pick another workflow's approval policy
+ */
+async function resolvePolicyWorkflowId(workflowId: string, workflow: ParsedWorkflow): Promise<string> {
+  if (typeof workflowId !== 'string') {
+    throwValidationError('Invalid workflowId', 'workflowId must be a string')
+  }
+
+  const stored = await getDefaultWorkflowStorageService().get(workflowId)
+  if (!stored) {
+    throw new APIErrorClass('Workflow not found', ErrorCode.RESOURCE_NOT_FOUND, 404, `Workflow ${workflowId} was not found`)
+  }
+
+  let matches: boolean
+  try {
+    const [submitted, saved] = await Promise.all([
+      CadenceGenerator.generateTransaction(workflow),
+      CadenceGenerator.generateTransaction(stored.workflow)
+    ])
+    matches = hashCadence(submitted) === hashCadence(saved)
+  } catch (error) {
+    throwValidationError('Workflow does not match workflowId', error instanceof Error ? error.message : 'Cadence generation failed')
+  }
+  if (!matches) {
+    throwValidationError('Workflow does not match workflowId', `The submitted workflow differs from the latest version of ${workflowId}`)
+  }
+  return workflowId
+}
+
 /**
  * Get default action metadata for validation
  * In production, this would come from the action registry
@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server"
+import {
+  LOOM_WORKFLOW_SCHEMA,
+  LOOM_FORMAT_VERSION,
+  LoomFormatError,
+  importWorkflow,
+  exportWorkflow,
+  parseImportedWorkflow
+} from "@/lib/workflow-file-format"
+import {
+  withErrorHandling,
+  createSuccessResponse,
+  validateRequiredFields,
+  throwValidationError
+} from "@/lib/api-error-handler"
+
+/**
+ * Portable Workflow Format API
+ *
+ * GET /api/workflow/loom - JSON Schema for the current .loom.json format version
+ * POST /api/workflow/loom - Migrate, validate and parse a .loom.json document
+ */
+
+async function handleGET(): Promise<NextResponse> {
+  return createSuccessResponse(null, {
+    formatVersion: LOOM_FORMAT_VERSION,
+    schema: LOOM_WORKFLOW_SCHEMA
+  })
+}
+
+async function handlePOST(request: Request): Promise<NextResponse> {
+  let body: any
+  try {
+    body = await request.json()
+  } catch (error) {
+    throwValidationError('Invalid JSON in request body', 'Request body must be valid JSON')
+  }
+
+  if (!body || typeof body !== 'object') {
+    throwValidationError('Invalid request body', 'Request body must be a JSON object')
+  }
+
+  validateRequiredFields(body, ['file'])
+
+  let imported
+  try {
+    imported = importWorkflow(body.file)
+  } catch (error) {
+    if (error instanceof LoomFormatError) {
+      throwValidationError(error.message, error.errors.join('; ') || undefined)
+    }
+    throw error
+  }
+
+  // Round-trip: the parsed workflow is what execution and storage consume,
+  // the canonical file is the same document re-exported at the current version
+  const parsedWorkflow = parseImportedWorkflow(imported)
+  const file = exportWorkflow(imported.workflow, imported.parameterValues, {
+    name: imported.name,
+    description: imported.description,
+    tags: imported.tags,
+    agentConfig: imported.agentConfig
+  })
+
+  return createSuccessResponse(null, {
+    parsedWorkflow,
+    file,
+    migratedFrom: imported.migratedFrom
+  })
+}
+
+export const GET = withErrorHandling(handleGET, 'Workflow Format Schema')
+export const POST = withErrorHandling(handlePOST, 'Workflow Format Import')
@@ -1,18 +1,41 @@
 import { NextResponse } from "next/server"
 import type { ParsedWorkflow } from "@/lib/types"
+import { getDefaultWorkflowStorageService } from "@/lib/workflow-storage"
+import { withAuth } from "@/lib/api-auth-service"
+import { rethrowStorageError, validateWorkflowId } from "@/lib/workflow-storage-api"
 import {
   withErrorHandling,
   createSuccessResponse,
   validateRequiredFields,
   validateParameters,
+  createErrorResponse,
   throwNotFound,
-  throwValidationError
+  throwValidationError,
+  ErrorCode
 } from "@/lib/api-error-handler"
 
-// In-memory storage (in production, use a database)
-const workflowStore = new Map<string, ParsedWorkflow>()
+/**
+ * Workflow Storage API
+ *
+ * POST /api/workflow/save - Save a new workflow (version 1). With an API
+ * key, its user becomes the workflow's owner, who may set its approval
+ * policy
+ * PUT /api/workflow/save - Save a new version of an existing workflow
+ * GET /api/workflow/save - List workflows, or get one by ?id= (optionally &version=)
+ * DELETE /api/workflow/save?id= - Delete a workflow and its version history
+ */
+
+interface SaveWorkflowRequest {
+  workflow: ParsedWorkflow
+  name?: string
+  comment?: string
+}
 
-async function handlePOST(request: Request): Promise<NextResponse> {
+interface UpdateWorkflowRequest extends SaveWorkflowRequest {
+  workflowId: string
+}
+
+async function parseJsonBody(request: Request): Promise<any> {
   let body: any
   try {
     body = await request.json()
@@ -24,7 +47,11 @@ async function handlePOST(request: Request): Promise<NextResponse> {
     throwValidationError('Invalid request body', 'Request body must be a JSON object')
   }
 
-  const { workflow, name } = body as { workflow: ParsedWorkflow; name?: string }
+  return body
+}
+
+function validateWorkflowBody(body: any): void {
+  const { workflow, name } = body as SaveWorkflowRequest
 
   // Validate required fields
   validateRequiredFields(body, ['workflow'])
@@ -34,14 +61,16 @@ async function handlePOST(request: Request): Promise<NextResponse> {
     throwValidationError('Invalid workflow format', 'Workflow must be an object')
   }
 
-  validateRequiredFields(workflow, ['actions', 'connections', 'metadata'])
+  validateRequiredFields(workflow, ['actions', 'metadata'])
 
   // Validate workflow arrays
   if (!Array.isArray(workflow.actions)) {
     throwValidationError('Invalid workflow actions', 'Workflow actions must be an array')
   }
 
-  if (!Array.isArray(workflow.connections)) {
+  // Connections are optional (ParsedWorkflow encodes edges as nextActions)
+  const connections = (workflow as any).connections
+  if (connections !== undefined && !Array.isArray(connections)) {
     throwValidationError('Invalid workflow connections', 'Workflow connections must be an array')
   }
 
@@ -59,66 +88,140 @@ async function handlePOST(request: Request): Promise<NextResponse> {
       name: (value) => typeof value === 'string' && value.length > 0 && value.length <= 100 || 'Workflow name must be 1-100 characters'
     })
   }
+}
 
-  // Generate workflow ID
-  const workflowId = `wf_${Date.now()}_${Math.random().toString(36).substring(7)}`
+async function handlePOST(request: Request): Promise<NextResponse> {
+  // Optional: an authenticated save records the owner
+  let owner: string | undefined
+  if (request.headers.has('Authorization')) {
+    const authResult = await withAuth('compose', 'write')(request)
+    if (!authResult.success) {
+      return createErrorResponse(
+        authResult.error || 'Authentication failed',
+        authResult.status,
+        authResult.status === 401 ? ErrorCode.UNAUTHORIZED : ErrorCode.FORBIDDEN
+      )
+    }
+    owner = authResult.apiKey?.userId
+  }
 
-  // Store workflow
+  const body = await parseJsonBody(request)
+  validateWorkflowBody(body)
+
+  const { workflow, name, comment } = body as SaveWorkflowRequest
+
+  let saved
   try {
-    workflowStore.set(workflowId, {
-      ...workflow,
-      metadata: {
-        ...workflow.metadata,
-        name: name || `Workflow ${workflowId}`,
-        savedAt: new Date().toISOString(),
-      },
-    })
+    saved = await getDefaultWorkflowStorageService().save(workflow, { name, comment, owner })
   } catch (error) {
-    throwValidationError('Failed to save workflow', error instanceof Error ? error.message : 'Unknown storage error')
+    rethrowStorageError(error)
   }
 
   return createSuccessResponse(null, {
-    workflowId,
+    workflowId: saved.workflowId,
+    version: saved.version,
     message: "Workflow saved successfully"
   })
 }
 
+async function handlePUT(request: Request): Promise<NextResponse> {
+  const body = await parseJsonBody(request)
+  validateRequiredFields(body, ['workflowId'])
+  validateWorkflowId(body.workflowId)
+  validateWorkflowBody(body)
+
+  const { workflowId, workflow, name, comment } = body as UpdateWorkflowRequest
+
+  let saved
+  try {
+    saved = await getDefaultWorkflowStorageService().update(workflowId, workflow, { name, comment })
+  } catch (error) {
+    rethrowStorageError(error, workflowId)
+  }
+
+  return createSuccessResponse(null, {
+    workflowId,
+    version: saved.version,
+    message: "Workflow updated successfully"
+  })
+}
+
 async function handleGET(request: Request): Promise<NextResponse> {
   const { searchParams } = new URL(request.url)
   const workflowId = searchParams.get("id")
+  const versionParam = searchParams.get("version")
+  const storage = getDefaultWorkflowStorageService()
 
   if (workflowId) {
-    // Validate workflow ID format
-    if (!/^wf_\d+_[a-zA-Z0-9]+$/.test(workflowId)) {
-      throwValidationError('Invalid workflow ID format', 'Workflow ID must be in format: wf_timestamp_randomstring')
+    validateWorkflowId(workflowId)
+
+    let version: number | undefined
+    if (versionParam !== null) {
+      version = parseInt(versionParam, 10)
+      if (isNaN(version) || version < 1) {
+        throwValidationError('Invalid version parameter', 'Version must be a positive integer')
+      }
     }
 
-    const workflow = workflowStore.get(workflowId)
-    if (!workflow) {
-      throwNotFound('Workflow', workflowId)
+    let stored
+    try {
+      stored = await storage.get(workflowId, version)
+    } catch (error) {
+      rethrowStorageError(error, workflowId)
     }
 
-    return createSuccessResponse(null, { workflow })
+    if (!stored) {
+      throwNotFound(version ? `Workflow version ${version}` : 'Workflow', workflowId)
+    }
+
+    return createSuccessResponse(null, {
+      workflow: stored.workflow,
+      version: stored.version,
+      savedAt: stored.savedAt
+    })
   }
 
   // Return all workflows
+  let workflows
   try {
-    const workflows = Array.from(workflowStore.entries()).map(([id, workflow]) => ({
-      id,
-      name: workflow.metadata.name || id,
-      totalActions: workflow.metadata.totalActions,
-      createdAt: workflow.metadata.createdAt,
-      savedAt: workflow.metadata.savedAt
-    }))
+    workflows = await storage.list()
+  } catch (error) {
+    rethrowStorageError(error)
+  }
 
-    return createSuccessResponse(null, {
-      workflows,
-      total: workflows.length
-    })
+  return createSuccessResponse(null, {
+    workflows,
+    total: workflows.length
+  })
+}
+
+async function handleDELETE(request: Request): Promise<NextResponse> {
+  const { searchParams } = new URL(request.url)
+  const workflowId = searchParams.get("id")
+
+  if (!workflowId) {
+    throwValidationError('Missing workflow ID', 'Query parameter "id" is required')
+  }
+  validateWorkflowId(workflowId)
+
+  let deleted
+  try {
+    deleted = await getDefaultWorkflowStorageService().delete(workflowId)
   } catch (error) {
-    throwValidationError('Failed to fetch workflows', error instanceof Error ? error.message : 'Unknown fetch error')
+    rethrowStorageError(error, workflowId)
   }
+
+  if (!deleted) {
+    throwNotFound('Workflow', workflowId)
+  }
+
+  return createSuccessResponse(null, {
+    workflowId,
+    message: "Workflow deleted successfully"
+  })
 }
 
 export const POST = withErrorHandling(handlePOST, 'Workflow Save')
+export const PUT = withErrorHandling(handlePUT, 'Workflow Update')
 export const GET = withErrorHandling(handleGET, 'Workflow Fetch')
+export const DELETE = withErrorHandling(handleDELETE, 'Workflow Delete')
@@ -1,6 +1,13 @@
 import { NextResponse } from "next/server"
 import type { ParsedWorkflow, ActionMetadata } from "@/lib/types"
 import { ExecutionValidator } from "@/lib/execution-validator"
+import { CadenceGenerator } from "@/lib/cadence-generator"
+import {
+  checkCadenceCode,
+  formatCadenceDiagnostic,
+  isCadenceProjectConfigured,
+  type CadenceCheckResult
+} from "@/lib/cadence-language-server"
 
 export async function POST(request: Request) {
   try {
@@ -29,11 +36,23 @@ export async function POST(request: Request) {
       parameters
     )
 
+    // Parse and type check the transaction the workflow compiles to
+    const cadenceCheck = await checkGeneratedCadence(workflow)
+    const cadenceErrors = cadenceCheck.diagnostics
+      .filter(diagnostic => diagnostic.severity === 'error')
+      .map(diagnostic => ({
+        type: 'CADENCE_CHECK_ERROR',
+        message: formatCadenceDiagnostic(diagnostic),
+        line: diagnostic.line,
+        column: diagnostic.column,
+        severity: 'error' as const
+      }))
+
     return NextResponse.json({
       success: true,
-      canExecute: validationResult.canExecute,
+      canExecute: validationResult.canExecute && cadenceErrors.length === 0,
       executionReadiness: validationResult.executionReadiness,
-      blockingErrors: validationResult.blockingErrors,
+      blockingErrors: [...validationResult.blockingErrors, ...cadenceErrors],
       warnings: validationResult.warnings,
       estimatedGasCost: validationResult.estimatedGasCost,
       estimatedExecutionTime: validationResult.estimatedExecutionTime,
@@ -42,8 +61,11 @@ export async function POST(request: Request) {
         dataFlowValid: validationResult.executionReadiness.dataFlowValid,
         noCircularDependencies: validationResult.executionReadiness.noCircularDependencies,
         allActionsValid: validationResult.executionReadiness.allActionsValid,
-        readinessScore: validationResult.executionReadiness.readinessScore
-      }
+        readinessScore: validationResult.executionReadiness.readinessScore,
+        cadenceTypeChecked: cadenceCheck.checked
+      },
+      diagnostics: cadenceCheck.diagnostics,
+      ...(cadenceCheck.unavailableReason && { cadenceCheckUnavailable: cadenceCheck.unavailableReason })
     })
   } catch (error) {
     console.error("[ExecutionValidator] Validation error:", error)
@@ -57,6 +79,34 @@ export async function POST(request: Request) {
   }
 }
 
+/**
+ * Generate the workflow transaction and check it with the Cadence language server
+ */
+async function checkGeneratedCadence(workflow: ParsedWorkflow): Promise<CadenceCheckResult> {
+  if (workflow.actions.length === 0) {
+    return { checked: false, diagnostics: [], unavailableReason: "Workflow has no actions" }
+  }
+
+  if (!isCadenceProjectConfigured()) {
+    return {
+      checked: false,
+      diagnostics: [],
+      unavailableReason: "Set CADENCE_PROJECT_DIR to a Flow project whose flow.json resolves the transaction's contract imports"
+    }
+  }
+
+  const generation = await CadenceGenerator.generateTransactionWithDetails(workflow, { enableFallbacks: false })
+  if (!generation.success) {
+    return {
+      checked: false,
+      diagnostics: [],
+      unavailableReason: `Cadence generation failed: ${generation.errors.join(", ")}`
+    }
+  }
+
+  return checkCadenceCode(generation.code)
+}
+
 /**
  * Get default action metadata for validation
  * In production, this would come from the action registry
@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server"
+import { getDefaultWorkflowStorageService } from "@/lib/workflow-storage"
+import { rethrowStorageError, validateWorkflowId } from "@/lib/workflow-storage-api"
+import {
+  withErrorHandling,
+  createSuccessResponse,
+  throwValidationError
+} from "@/lib/api-error-handler"
+
+/**
+ * Workflow Version History API
+ *
+ * GET /api/workflow/versions?id= - List the immutable version history of a workflow
+ * GET /api/workflow/versions?id=&from=&to= - Diff two versions of a workflow
+ */
+
+function parseVersion(value: string | null, name: string): number | undefined {
+  if (value === null) return undefined
+
+  const version = parseInt(value, 10)
+  if (isNaN(version) || version < 1) {
+    throwValidationError(`Invalid ${name} parameter`, `${name} must be a positive integer`)
+  }
+  return version
+}
+
+async function handleGET(request: Request): Promise<NextResponse> {
+  const { searchParams } = new URL(request.url)
+  const workflowId = searchParams.get("id")
+
+  if (!workflowId) {
+    throwValidationError('Missing workflow ID', 'Query parameter "id" is required')
+  }
+
+  validateWorkflowId(workflowId)
+
+  const from = parseVersion(searchParams.get("from"), 'from')
+  const to = parseVersion(searchParams.get("to"), 'to')
+
+  if ((from === undefined) !== (to === undefined)) {
+    throwValidationError('Incomplete diff request', 'Both "from" and "to" are required to diff versions')
+  }
+
+  const storage = getDefaultWorkflowStorageService()
+
+  try {
+    if (from !== undefined && to !== undefined) {
+      const diff = await storage.diff(workflowId, from, to)
+      return createSuccessResponse(null, { diff })
+    }
+
+    const versions = await storage.listVersions(workflowId)
+    return createSuccessResponse(null, {
+      workflowId,
+      versions: versions.map(v => ({
+        version: v.version,
+        savedAt: v.savedAt,
+        comment: v.comment,
+        name: v.workflow.metadata?.name,
+        totalActions: v.workflow.actions.length
+      })),
+      total: versions.length
+    })
+  } catch (error) {
+    rethrowStorageError(error, workflowId)
+  }
+}
+
+export const GET = withErrorHandling(handleGET, 'Workflow Versions')
@@ -3,9 +3,10 @@
 import type React from "react"
 
 import { useState, useEffect, useMemo } from "react"
-import { Search, Info, RefreshCw, AlertCircle, Zap, Shield, Clock } from "lucide-react"
+import { Search, Info, RefreshCw, AlertCircle, Zap, Shield, Clock, GitBranch, Repeat } from "lucide-react"
 import { useActions } from "@/hooks/use-actions"
 import { ActionMetadata, SecurityLevel } from "@/lib/types"
+import { CONDITION_ACTION_TYPE, LOOP_ACTION_TYPE } from "@/lib/workflow-control-flow"
 
 // Category icons mapping
 const categoryIcons: Record<string, string> = {
@@ -18,6 +19,22 @@ const categoryIcons: Record<string, string> = {
   default: "M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
 }
 
+// Built-in control-flow nodes, available regardless of action discovery
+const controlFlowItems = [
+  {
+    id: CONDITION_ACTION_TYPE,
+    name: "If / Else",
+    description: "Branch on a comparison of upstream outputs",
+    icon: GitBranch
+  },
+  {
+    id: LOOP_ACTION_TYPE,
+    name: "For Each",
+    description: "Repeat the connected actions for every item in a list",
+    icon: Repeat
+  }
+]
+
 // Security level colors
 const securityLevelColors: Record<SecurityLevel, string> = {
   [SecurityLevel.LOW]: "text-green-500",
@@ -107,6 +124,17 @@ export function ActionLibrary() {
     event.dataTransfer.effectAllowed = "move"
   }
 
+  const onControlFlowDragStart = (
+    event: React.DragEvent,
+    item: typeof controlFlowItems[number]
+  ) => {
+    event.dataTransfer.setData("application/reactflow", item.id)
+    event.dataTransfer.setData("actionName", item.name)
+    event.dataTransfer.setData("actionCategory", "control")
+    event.dataTransfer.setData("actionType", item.id)
+    event.dataTransfer.effectAllowed = "move"
+  }
+
   const formatGasEstimate = (gasEstimate: number): string => {
     if (gasEstimate < 1000) return gasEstimate.toString()
     if (gasEstimate < 1000000) return `${(gasEstimate / 1000).toFixed(1)}K`
@@ -201,6 +229,36 @@ export function ActionLibrary() {
       </div>
 
       <div className="flex-1 overflow-y-auto p-4">
+        <div className="mb-6">
+          <div className="mb-3 flex items-center gap-2 px-1">
+            <div className="flex h-7 w-7 items-center justify-center rounded-lg bg-primary/10">
+              <GitBranch className="h-4 w-4 text-primary" />
+            </div>
+            <h3 className="text-sm font-bold text-foreground">Control Flow</h3>
+            <div className="ml-auto text-xs text-muted-foreground">
+              {controlFlowItems.length}
+            </div>
+          </div>
+          <div className="space-y-2">
+            {controlFlowItems.map((item) => (
+              <div
+                key={item.id}
+                draggable
+                onDragStart={(e) => onControlFlowDragStart(e, item)}
+                className="group cursor-grab rounded-lg border border-border bg-card p-3 transition-all hover:border-primary hover:bg-primary/5 hover:shadow-lg hover:glow-secondary active:cursor-grabbing"
+              >
+                <div className="flex items-start gap-2">
+                  <item.icon className="h-4 w-4 text-primary flex-shrink-0 mt-0.5" />
+                  <div className="flex-1">
+                    <div className="text-sm font-semibold text-foreground mb-1">{item.name}</div>
+                    <div className="text-xs text-muted-foreground leading-relaxed">{item.description}</div>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
         {Object.entries(actionsByCategory).length === 0 ? (
           <div className="text-center py-8">
             <Search className="h-8 w-8 text-muted-foreground mx-auto mb-2" />
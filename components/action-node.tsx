@@ -40,6 +40,7 @@ interface ActionNodeData {
   category: string
   metadata?: ActionMetadata | null
   hasValidationErrors?: boolean
+  lockedBy?: { name: string; color: string }  // Collaborator configuring this node
   onConfigureParameters?: (id: string, metadata: ActionMetadata) => void
 }
 
@@ -274,6 +275,15 @@ const ActionNodeComponent = ({ data, id }: NodeProps & { data: ActionNodeData })
           </>
         )}
 
+        {data.lockedBy && (
+          <div
+            className="absolute -top-3 left-3 z-10 rounded-full px-2 py-0.5 text-[10px] font-medium text-white shadow-md"
+            style={{ backgroundColor: data.lockedBy.color }}
+          >
+            {data.lockedBy.name} is editing
+          </div>
+        )}
+
         <Handle
           type="target"
           position={Position.Top}
@@ -454,6 +464,7 @@ export const ActionNode = memo(ActionNodeComponent, (prevProps, nextProps) => {
     prevProps.data.type === nextProps.data.type &&
     prevProps.data.category === nextProps.data.category &&
     prevProps.data.hasValidationErrors === nextProps.data.hasValidationErrors &&
+    prevProps.data.lockedBy === nextProps.data.lockedBy &&
     prevProps.data.metadata === nextProps.data.metadata &&
     prevProps.data.onConfigureParameters === nextProps.data.onConfigureParameters
   )
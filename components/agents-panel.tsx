@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useMemo } from "react"
 import {
   Bot,
   Play,
@@ -14,10 +14,15 @@ import {
   CheckCircle,
   TrendingUp,
   Calendar,
-  Activity
+  Activity,
+  History
 } from "lucide-react"
 import type { Agent, AgentConfiguration, Schedule } from "@/lib/types"
+import type { BacktestExecution, BacktestReport } from "@/lib/agent-backtest"
+import type { ExecutionDetail, ExecutionHistoryPage, ExecutionRecord } from "@/lib/agent-execution-service"
 import { AgentStatus } from "@/lib/types"
+import { getNextCronRun, getNextCronRuns, getSystemTimeZone, isValidTimeZone } from "@/lib/cron-expression"
+import { ApprovalQueue } from "@/components/approval-queue"
 
 interface AgentInfo extends Agent {
   executionCount: number
@@ -32,11 +37,85 @@ interface AgentsPanel {
   onCreateAgent?: (config: AgentConfiguration) => void
 }
 
+const PREVIEW_RUNS = 5
+const HISTORY_PAGE_SIZE = 10
+const INTERVAL_SECONDS = { hours: 3600, days: 86400, weeks: 604800 }
+
+const TIME_ZONES: string[] = typeof Intl.supportedValuesOf === 'function'
+  ? Intl.supportedValuesOf('timeZone')
+  : []
+
+// Show run times on the agent's own clock
+const formatRun = (date: Date, timeZone?: string) =>
+  date.toLocaleString(undefined, { timeZone, dateStyle: 'medium', timeStyle: 'short' })
+
+const BACKTEST_STATUS_STYLES: Record<BacktestExecution['status'], string> = {
+  simulated: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400',
+  failed: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400',
+  blocked: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400'
+}
+
+const RUN_STATUS_STYLES: Record<ExecutionRecord['status'], string> = {
+  success: 'text-green-600',
+  failed: 'text-red-600',
+  'awaiting-approval': 'text-yellow-600'
+}
+
+// <input type="datetime-local"> value for a date, in local time
+const toLocalInput = (date: Date) =>
+  new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16)
+
+function previewCron(cronExpression: string, timeZone: string): { runs: Date[]; error?: string } {
+  if (!isValidTimeZone(timeZone)) {
+    return { runs: [], error: `Unknown time zone "${timeZone}"` }
+  }
+  try {
+    return { runs: getNextCronRuns(cronExpression, PREVIEW_RUNS, new Date(), timeZone) }
+  } catch (error) {
+    return { runs: [], error: error instanceof Error ? error.message : 'Invalid cron expression' }
+  }
+}
+
 export function AgentsPanel({ onCreateAgent }: AgentsPanel) {
   const [agents, setAgents] = useState<AgentInfo[]>([])
   const [selectedAgent, setSelectedAgent] = useState<AgentInfo | null>(null)
   const [showCreateWizard, setShowCreateWizard] = useState(false)
   const [loading, setLoading] = useState(true)
+  const [scheduleType, setScheduleType] = useState<Schedule['type']>('recurring')
+  const [recurrence, setRecurrence] = useState<'interval' | 'cron'>('interval')
+  const [intervalValue, setIntervalValue] = useState('1')
+  const [intervalUnit, setIntervalUnit] = useState<keyof typeof INTERVAL_SECONDS>('hours')
+  const [cronExpression, setCronExpression] = useState('0 9 * * MON-FRI')
+  const [timeZone, setTimeZone] = useState(() => getSystemTimeZone())
+  const [backtestFrom, setBacktestFrom] = useState(() => toLocalInput(new Date(Date.now() - 7 * 86400000)))
+  const [backtestTo, setBacktestTo] = useState(() => toLocalInput(new Date()))
+  const [backtest, setBacktest] = useState<BacktestReport | null>(null)
+  const [backtestError, setBacktestError] = useState<string | null>(null)
+  const [backtesting, setBacktesting] = useState(false)
+  const [history, setHistory] = useState<ExecutionHistoryPage | null>(null)
+  const [historyStatus, setHistoryStatus] = useState<ExecutionRecord['status'] | ''>('')
+  const [historyError, setHistoryError] = useState<string | null>(null)
+  const [execution, setExecution] = useState<ExecutionDetail | null>(null)
+
+  const cronPreview = useMemo(
+    () => previewCron(cronExpression, timeZone),
+    [cronExpression, timeZone]
+  )
+
+  const selectedAgentRuns = useMemo(() => {
+    const schedule = selectedAgent?.schedule
+    if (!schedule?.cronExpression) return null
+    return previewCron(schedule.cronExpression, schedule.timezone || getSystemTimeZone())
+  }, [selectedAgent])
+
+  // A report only describes the agent it was run for
+  useEffect(() => {
+    setBacktest(null)
+    setBacktestError(null)
+    setHistory(null)
+    setHistoryError(null)
+    setExecution(null)
+  }, [selectedAgent?.id])
 
   // Mock data - in real implementation, this would fetch from API
   useEffect(() => {
@@ -113,6 +192,28 @@ export function AgentsPanel({ onCreateAgent }: AgentsPanel) {
         lastExecution: new Date(Date.now() - 172800000), // 2 days ago
         gasUsed: 15000,
         errors: 1
+      },
+      {
+        id: "agent-4",
+        name: "Weekly Treasury Report",
+        description: "Summarizes treasury balances every Monday morning in New York",
+        workflowId: "workflow-4",
+        schedule: {
+          type: 'recurring',
+          cronExpression: '0 9 * * MON',
+          timezone: 'America/New_York'
+        },
+        triggers: [],
+        status: AgentStatus.ACTIVE,
+        createdAt: "2024-01-08T09:00:00Z",
+        updatedAt: "2024-01-08T09:00:00Z",
+        owner: "user-1",
+        executionCount: 2,
+        successRate: 100,
+        lastExecution: new Date(Date.now() - 604800000), // 1 week ago
+        nextExecution: getNextCronRun('0 9 * * MON', new Date(), 'America/New_York'),
+        gasUsed: 8000,
+        errors: 0
       }
     ]
 
@@ -160,7 +261,72 @@ export function AgentsPanel({ onCreateAgent }: AgentsPanel) {
     ))
   }
 
+  const runBacktest = async (agent: AgentInfo) => {
+    setBacktesting(true)
+    setBacktestError(null)
+    try {
+      const response = await fetch('/api/agents/backtest', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          agentId: agent.id,
+          from: new Date(backtestFrom).toISOString(),
+          to: new Date(backtestTo).toISOString()
+        })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setBacktest(null)
+        setBacktestError(data.details || data.error || 'Backtest failed')
+        return
+      }
+      setBacktest(data.report)
+    } catch (err) {
+      setBacktestError('Backtest failed')
+    } finally {
+      setBacktesting(false)
+    }
+  }
+
+  const loadHistory = async (agentId: string, offset: number, status: ExecutionRecord['status'] | '') => {
+    setHistoryError(null)
+    try {
+      const query = new URLSearchParams({ limit: String(HISTORY_PAGE_SIZE), offset: String(offset) })
+      if (status) query.set('status', status)
+      const response = await fetch(`/api/agents/${agentId}/executions?${query}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        setHistoryError(data.details || data.error || 'Run history could not be loaded')
+        return
+      }
+      setHistory({ executions: data.executions, total: data.total, offset: data.offset, limit: data.limit })
+    } catch (err) {
+      setHistoryError('Run history could not be loaded')
+    }
+  }
+
+  const loadExecution = async (agentId: string, executionId: string) => {
+    setHistoryError(null)
+    try {
+      const response = await fetch(`/api/agents/${agentId}/executions/${executionId}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        setHistoryError(data.details || data.error || 'Run could not be loaded')
+        return
+      }
+      setExecution(data.execution)
+    } catch (err) {
+      setHistoryError('Run could not be loaded')
+    }
+  }
+
   const formatSchedule = (schedule: Schedule) => {
+    if (schedule.type === 'recurring' && schedule.cronExpression) {
+      return `Cron ${schedule.cronExpression}`
+    }
     if (schedule.type === 'recurring') {
       const hours = Math.floor((schedule.interval || 0) / 3600)
       const minutes = Math.floor(((schedule.interval || 0) % 3600) / 60)
@@ -245,6 +411,11 @@ export function AgentsPanel({ onCreateAgent }: AgentsPanel) {
         </button>
       </div>
 
+      {/* Approvals */}
+      <div className="border-b border-border p-4">
+        <ApprovalQueue />
+      </div>
+
       {/* Agent List */}
       <div className="flex-1 overflow-y-auto p-4 space-y-3">
         {agents.map((agent) => (
@@ -306,6 +477,10 @@ export function AgentsPanel({ onCreateAgent }: AgentsPanel) {
                 {agent.status.toUpperCase()}
               </div>
 
+              {agent.statusReason && (
+                <p className="text-xs text-muted-foreground">{agent.statusReason}</p>
+              )}
+
               <div className="grid grid-cols-2 gap-2 text-xs">
                 <div className="flex items-center gap-1 text-muted-foreground">
                   <Clock className="h-3 w-3" />
@@ -378,10 +553,236 @@ export function AgentsPanel({ onCreateAgent }: AgentsPanel) {
                 <span className="ml-2 text-red-600">{selectedAgent.errors}</span>
               </div>
             )}
+            {selectedAgentRuns && (
+              <div>
+                <div className="flex items-center gap-1 text-muted-foreground mb-1">
+                  <Calendar className="h-3 w-3" />
+                  <span>Upcoming runs ({selectedAgent.schedule.timezone || getSystemTimeZone()}):</span>
+                </div>
+                {selectedAgentRuns.error ? (
+                  <span className="text-red-600">{selectedAgentRuns.error}</span>
+                ) : (
+                  <ul className="ml-4 space-y-0.5 font-mono">
+                    {selectedAgentRuns.runs.map(run => (
+                      <li key={run.getTime()}>{formatRun(run, selectedAgent.schedule.timezone)}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
           </div>
 
+          {/* Backtest */}
+          <div className="mt-4 space-y-2 text-xs">
+            <div className="flex items-center gap-1 font-medium">
+              <History className="h-3 w-3" />
+              <span>Backtest</span>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <label className="space-y-1">
+                <span className="text-muted-foreground">From</span>
+                <input
+                  type="datetime-local"
+                  value={backtestFrom}
+                  onChange={(e) => setBacktestFrom(e.target.value)}
+                  className="w-full rounded-md border border-border bg-background px-2 py-1"
+                />
+              </label>
+              <label className="space-y-1">
+                <span className="text-muted-foreground">To</span>
+                <input
+                  type="datetime-local"
+                  value={backtestTo}
+                  onChange={(e) => setBacktestTo(e.target.value)}
+                  className="w-full rounded-md border border-border bg-background px-2 py-1"
+                />
+              </label>
+            </div>
+            <button
+              onClick={() => runBacktest(selectedAgent)}
+              disabled={backtesting || !backtestFrom || !backtestTo}
+              className="w-full rounded-md border border-border bg-background px-3 py-1.5 font-medium transition-colors hover:bg-muted disabled:opacity-50"
+            >
+              {backtesting ? 'Simulating...' : 'Run Backtest'}
+            </button>
+            {backtestError && <p className="text-red-600">{backtestError}</p>}
+            {backtest && (
+              <div className="space-y-2">
+                <div className="flex justify-between text-muted-foreground">
+                  <span>{backtest.executions.length} run{backtest.executions.length === 1 ? '' : 's'}{backtest.truncated ? ' (truncated)' : ''}</span>
+                  <span>Total gas: {backtest.totalGas.toLocaleString()}</span>
+                </div>
+                {backtest.warnings.map(warning => (
+                  <p key={warning} className="text-yellow-600">{warning}</p>
+                ))}
+                <ol className="relative ml-2 border-l border-border">
+                  {backtest.executions.map(execution => (
+                    <li key={execution.index} className="mb-3 ml-3">
+                      <span className="absolute -left-1 mt-1 h-2 w-2 rounded-full bg-primary" />
+                      <div className="flex items-center justify-between">
+                        <span className="font-mono">{formatRun(new Date(execution.at), selectedAgent.schedule.timezone)}</span>
+                        <span className={`rounded-full px-2 py-0.5 ${BACKTEST_STATUS_STYLES[execution.status]}`}>
+                          {execution.status}
+                        </span>
+                      </div>
+                      <div className="text-muted-foreground">
+                        {execution.trigger
+                          ? `${execution.trigger.type} trigger at ${execution.trigger.value}`
+                          : 'Scheduled run'}
+                        {' · '}gas {execution.gasUsed.toLocaleString()} (total {execution.cumulativeGas.toLocaleString()})
+                      </div>
+                      {backtest.balanceTrajectory
+                        .filter(point => point.executionIndex === execution.index)
+                        .map(point => (
+                          <div key={`${point.address}:${point.token}`} className="font-mono">
+                            {point.address}: {point.balance} {point.token} ({point.change >= 0 ? '+' : ''}{point.change})
+                          </div>
+                        ))}
+                      {execution.errors.map(error => (
+                        <p key={error} className="text-red-600">{error}</p>
+                      ))}
+                    </li>
+                  ))}
+                </ol>
+                {backtest.pausedAt && (
+                  <p className="text-yellow-600">
+                    Would have paused at {formatRun(new Date(backtest.pausedAt), selectedAgent.schedule.timezone)}: {backtest.pauseReason}
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* Run History */}
+          {(history || historyError) && (
+            <div className="mt-4 space-y-2 text-xs">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-1 font-medium">
+                  <Activity className="h-3 w-3" />
+                  <span>Run History{history ? ` (${history.total})` : ''}</span>
+                </div>
+                <select
+                  value={historyStatus}
+                  onChange={(e) => {
+                    const status = e.target.value as ExecutionRecord['status'] | ''
+                    setHistoryStatus(status)
+                    loadHistory(selectedAgent.id, 0, status)
+                  }}
+                  className="rounded-md border border-border bg-background px-1 py-0.5"
+                >
+                  <option value="">All</option>
+                  <option value="success">Succeeded</option>
+                  <option value="failed">Failed</option>
+                  <option value="awaiting-approval">Awaiting approval</option>
+                </select>
+              </div>
+              {historyError && <p className="text-red-600">{historyError}</p>}
+              {history && (
+                <table className="w-full">
+                  <thead className="text-muted-foreground">
+                    <tr>
+                      <th className="text-left font-normal">Started</th>
+                      <th className="text-left font-normal">Status</th>
+                      <th className="text-right font-normal">Gas</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {history.executions.map(run => (
+                      <tr
+                        key={run.id}
+                        onClick={() => loadExecution(selectedAgent.id, run.id)}
+                        className={`cursor-pointer hover:bg-muted ${execution?.id === run.id ? 'bg-muted' : ''}`}
+                      >
+                        <td>{formatRun(new Date(run.startTime), selectedAgent.schedule.timezone)}</td>
+                        <td className={RUN_STATUS_STYLES[run.status]}>
+                          {run.status}{run.retryCount > 0 ? ` (retry ${run.retryCount})` : ''}
+                        </td>
+                        <td className="text-right">{run.gasUsed?.toLocaleString() ?? '-'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+              {history && history.total > HISTORY_PAGE_SIZE && (
+                <div className="flex justify-between">
+                  <button
+                    disabled={history.offset === 0}
+                    onClick={() => loadHistory(selectedAgent.id, Math.max(history.offset - HISTORY_PAGE_SIZE, 0), historyStatus)}
+                    className="disabled:opacity-50"
+                  >
+                    Newer
+                  </button>
+                  <button
+                    disabled={history.offset + HISTORY_PAGE_SIZE >= history.total}
+                    onClick={() => loadHistory(selectedAgent.id, history.offset + HISTORY_PAGE_SIZE, historyStatus)}
+                    className="disabled:opacity-50"
+                  >
+                    Older
+                  </button>
+                </div>
+              )}
+              {execution && (
+                <div className="space-y-2 rounded-md border border-border bg-background p-2">
+                  <div className="flex items-center justify-between">
+                    <span className="font-mono">{execution.id}</span>
+                    <button onClick={() => setExecution(null)} className="text-muted-foreground hover:text-foreground">
+                      ×
+                    </button>
+                  </div>
+                  {execution.result?.transactionId && (
+                    <div className="font-mono break-all">Tx {execution.result.transactionId}</div>
+                  )}
+                  {execution.error && <p className={RUN_STATUS_STYLES[execution.status]}>{execution.error.message}</p>}
+                  {execution.result?.arguments && execution.result.arguments.length > 0 && (
+                    <div>
+                      <div className="text-muted-foreground">Arguments</div>
+                      {execution.result.arguments.map(argument => (
+                        <div key={`${argument.actionId}.${argument.name}`} className="font-mono">
+                          {argument.actionId}.{argument.name}: {argument.expression || String(argument.value)}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {execution.result?.events && execution.result.events.length > 0 && (
+                    <div>
+                      <div className="text-muted-foreground">Events</div>
+                      {execution.result.events.map((event, index) => (
+                        <div key={index} className="font-mono break-all">{event.type}</div>
+                      ))}
+                    </div>
+                  )}
+                  {execution.retryChain.length > 1 && (
+                    <div>
+                      <div className="text-muted-foreground">Attempts</div>
+                      {execution.retryChain.map(attempt => (
+                        <button
+                          key={attempt.id}
+                          onClick={() => loadExecution(selectedAgent.id, attempt.id)}
+                          className="block hover:underline"
+                        >
+                          #{attempt.retryCount + 1} {attempt.status} at {formatRun(new Date(attempt.startTime), selectedAgent.schedule.timezone)}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  {execution.nextRetry && (
+                    <p className="text-muted-foreground">
+                      Retry #{execution.nextRetry.retryCount + 1} queued for {formatRun(new Date(execution.nextRetry.runAt), selectedAgent.schedule.timezone)}
+                    </p>
+                  )}
+                  {execution.result?.cadenceCode && (
+                    <pre className="max-h-48 overflow-auto rounded bg-muted p-2 font-mono">{execution.result.cadenceCode}</pre>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
           <div className="flex gap-2 mt-4">
-            <button className="flex-1 rounded-md bg-primary px-3 py-1.5 text-xs font-medium text-primary-foreground transition-colors hover:bg-primary/90">
+            <button
+              onClick={() => loadHistory(selectedAgent.id, 0, historyStatus)}
+              className="flex-1 rounded-md bg-primary px-3 py-1.5 text-xs font-medium text-primary-foreground transition-colors hover:bg-primary/90"
+            >
               View History
             </button>
             <button className="flex-1 rounded-md border border-border bg-background px-3 py-1.5 text-xs font-medium transition-colors hover:bg-muted">
@@ -426,28 +827,110 @@ export function AgentsPanel({ onCreateAgent }: AgentsPanel) {
 
               <div>
                 <label className="text-sm font-medium mb-2 block">Schedule Type</label>
-                <select className="w-full rounded-lg border border-border bg-background px-3 py-2 text-sm">
+                <select
+                  value={scheduleType}
+                  onChange={(e) => setScheduleType(e.target.value as Schedule['type'])}
+                  className="w-full rounded-lg border border-border bg-background px-3 py-2 text-sm"
+                >
                   <option value="recurring">Recurring</option>
                   <option value="event-driven">Event Driven</option>
                   <option value="one-time">One Time</option>
                 </select>
               </div>
 
-              <div>
-                <label className="text-sm font-medium mb-2 block">Interval</label>
+              {scheduleType === 'recurring' && (
                 <div className="flex gap-2">
-                  <input
-                    type="number"
-                    placeholder="1"
-                    className="flex-1 rounded-lg border border-border bg-background px-3 py-2 text-sm"
-                  />
-                  <select className="rounded-lg border border-border bg-background px-3 py-2 text-sm">
-                    <option value="hours">Hours</option>
-                    <option value="days">Days</option>
-                    <option value="weeks">Weeks</option>
-                  </select>
+                  {(['interval', 'cron'] as const).map(mode => (
+                    <button
+                      key={mode}
+                      onClick={() => setRecurrence(mode)}
+                      className={`flex-1 rounded-lg border px-3 py-1.5 text-xs font-medium transition-colors ${recurrence === mode
+                          ? 'border-primary bg-primary/10 text-primary'
+                          : 'border-border bg-background hover:bg-muted'
+                        }`}
+                    >
+                      {mode === 'interval' ? 'Interval' : 'Cron Expression'}
+                    </button>
+                  ))}
                 </div>
-              </div>
+              )}
+
+              {scheduleType === 'recurring' && recurrence === 'interval' && (
+                <div>
+                  <label className="text-sm font-medium mb-2 block">Interval</label>
+                  <div className="flex gap-2">
+                    <input
+                      type="number"
+                      min={1}
+                      value={intervalValue}
+                      onChange={(e) => setIntervalValue(e.target.value)}
+                      className="flex-1 rounded-lg border border-border bg-background px-3 py-2 text-sm"
+                    />
+                    <select
+                      value={intervalUnit}
+                      onChange={(e) => setIntervalUnit(e.target.value as keyof typeof INTERVAL_SECONDS)}
+                      className="rounded-lg border border-border bg-background px-3 py-2 text-sm"
+                    >
+                      <option value="hours">Hours</option>
+                      <option value="days">Days</option>
+                      <option value="weeks">Weeks</option>
+                    </select>
+                  </div>
+                </div>
+              )}
+
+              {scheduleType === 'recurring' && recurrence === 'cron' && (
+                <>
+                  <div>
+                    <label className="text-sm font-medium mb-2 block">Cron Expression</label>
+                    <input
+                      type="text"
+                      value={cronExpression}
+                      onChange={(e) => setCronExpression(e.target.value)}
+                      placeholder="0 9 * * MON-FRI"
+                      className="w-full rounded-lg border border-border bg-background px-3 py-2 text-sm font-mono"
+                    />
+                    <p className="mt-1 text-xs text-muted-foreground">
+                      minute hour day month weekday, with an optional leading seconds field
+                    </p>
+                  </div>
+
+                  <div>
+                    <label className="text-sm font-medium mb-2 block">Time Zone</label>
+                    <input
+                      type="text"
+                      list="agent-time-zones"
+                      value={timeZone}
+                      onChange={(e) => setTimeZone(e.target.value)}
+                      className="w-full rounded-lg border border-border bg-background px-3 py-2 text-sm"
+                    />
+                    <datalist id="agent-time-zones">
+                      {TIME_ZONES.map(zone => <option key={zone} value={zone} />)}
+                    </datalist>
+                  </div>
+
+                  <div className="rounded-lg border border-border bg-muted/30 p-3 text-xs">
+                    {cronPreview.error ? (
+                      <div className="flex items-start gap-2 text-red-600">
+                        <AlertCircle className="h-3 w-3 mt-0.5 shrink-0" />
+                        <span>{cronPreview.error}</span>
+                      </div>
+                    ) : (
+                      <>
+                        <div className="flex items-center gap-1 font-medium mb-1">
+                          <Calendar className="h-3 w-3" />
+                          Next {PREVIEW_RUNS} runs
+                        </div>
+                        <ul className="space-y-0.5 font-mono text-muted-foreground">
+                          {cronPreview.runs.map(run => (
+                            <li key={run.getTime()}>{formatRun(run, timeZone)}</li>
+                          ))}
+                        </ul>
+                      </>
+                    )}
+                  </div>
+                </>
+              )}
 
               <div className="flex gap-3 pt-4">
                 <button
@@ -457,14 +940,17 @@ export function AgentsPanel({ onCreateAgent }: AgentsPanel) {
                   Cancel
                 </button>
                 <button
+                  disabled={scheduleType === 'recurring' && recurrence === 'cron' && !!cronPreview.error}
                   onClick={() => {
                     // Handle agent creation
                     if (onCreateAgent) {
+                      const schedule: Schedule = scheduleType !== 'recurring'
+                        ? { type: scheduleType }
+                        : recurrence === 'cron'
+                          ? { type: 'recurring', cronExpression: cronExpression.trim(), timezone: timeZone }
+                          : { type: 'recurring', interval: (Number(intervalValue) || 1) * INTERVAL_SECONDS[intervalUnit] }
                       const mockConfig: AgentConfiguration = {
-                        schedule: {
-                          type: 'recurring',
-                          interval: 3600,
-                        },
+                        schedule,
                         eventTriggers: [],
                         retryPolicy: {
                           maxRetries: 3,
@@ -482,7 +968,7 @@ export function AgentsPanel({ onCreateAgent }: AgentsPanel) {
                     }
                     setShowCreateWizard(false)
                   }}
-                  className="flex-1 rounded-lg bg-primary px-4 py-2 text-sm font-medium text-primary-foreground transition-colors hover:bg-primary/90"
+                  className="flex-1 rounded-lg bg-primary px-4 py-2 text-sm font-medium text-primary-foreground transition-colors hover:bg-primary/90 disabled:opacity-50"
                 >
                   Create Agent
                 </button>
@@ -0,0 +1,174 @@
+"use client"
+
+import { useState } from "react"
+import { ShieldCheck, Check, X } from "lucide-react"
+import type { ApprovalRequest } from "@/lib/approval-service"
+
+const APPROVAL_STATUS_STYLES: Record<ApprovalRequest['status'], string> = {
+  pending: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400',
+  approved: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400',
+  executed: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400',
+  rejected: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400',
+  expired: 'bg-muted text-muted-foreground'
+}
+
+/**
+ * Approval Queue
+ *
+ * Lists the pending approval requests an approver can decide, with the
+ * risk behind each one, and approves or rejects them. Decisions are made as
+ * the owner of the API key entered here.
+ */
+export function ApprovalQueue() {
+  const [apiKey, setApiKey] = useState('')
+  const [approvals, setApprovals] = useState<ApprovalRequest[] | null>(null)
+  const [selected, setSelected] = useState<ApprovalRequest | null>(null)
+  const [comment, setComment] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [deciding, setDeciding] = useState(false)
+
+  const headers = () => ({ 'Content-Type': 'application/json', Authorization: `Bearer ${apiKey}` })
+
+  const loadApprovals = async () => {
+    setError(null)
+    try {
+      const response = await fetch('/api/approvals?status=pending&mine=true', { headers: headers() })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.details || data.error || 'Approvals could not be loaded')
+        return
+      }
+      setApprovals(data.approvals)
+    } catch (err) {
+      setError('Approvals could not be loaded')
+    }
+  }
+
+  const decide = async (approval: ApprovalRequest, decision: 'approve' | 'reject') => {
+    setDeciding(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/approvals/${approval.id}`, {
+        method: 'POST',
+        headers: headers(),
+        body: JSON.stringify({ decision, ...(comment && { comment }) })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.details || data.error || 'Decision could not be saved')
+        return
+      }
+      setSelected(data.approval)
+      setComment('')
+      await loadApprovals()
+    } catch (err) {
+      setError('Decision could not be saved')
+    } finally {
+      setDeciding(false)
+    }
+  }
+
+  return (
+    <div className="space-y-2 text-xs">
+      <div className="flex items-center gap-1 font-medium">
+        <ShieldCheck className="h-3 w-3" />
+        <span>Approvals</span>
+        {approvals && approvals.length > 0 && (
+          <span className={`rounded-full px-2 py-0.5 ${APPROVAL_STATUS_STYLES.pending}`}>{approvals.length}</span>
+        )}
+      </div>
+      <div className="flex gap-2">
+        <input
+          type="password"
+          value={apiKey}
+          onChange={(e) => setApiKey(e.target.value)}
+          placeholder="Approver API key"
+          className="flex-1 rounded-md border border-border bg-background px-2 py-1"
+        />
+        <button
+          onClick={loadApprovals}
+          disabled={!apiKey}
+          className="rounded-md border border-border bg-background px-3 py-1 font-medium transition-colors hover:bg-muted disabled:opacity-50"
+        >
+          Load
+        </button>
+      </div>
+      {error && <p className="text-red-600">{error}</p>}
+      {approvals && approvals.length === 0 && <p className="text-muted-foreground">Nothing waiting for you</p>}
+      {approvals?.map(approval => (
+        <button
+          key={approval.id}
+          onClick={() => setSelected(approval)}
+          className={`block w-full rounded-md border border-border p-2 text-left hover:bg-muted ${selected?.id === approval.id ? 'bg-muted' : 'bg-background'}`}
+        >
+          <div className="flex items-center justify-between">
+            <span className="font-medium truncate">{approval.subject}</span>
+            <span className="text-muted-foreground">
+              {approval.decisions.filter(decision => decision.decision === 'approve').length}/{approval.requiredApprovals}
+            </span>
+          </div>
+          <div className="text-muted-foreground">
+            {approval.kind} · expires {new Date(approval.expiresAt).toLocaleString()}
+          </div>
+        </button>
+      ))}
+      {selected && (
+        <div className="space-y-2 rounded-md border border-border bg-background p-2">
+          <div className="flex items-center justify-between">
+            <span className="font-mono truncate">{selected.id}</span>
+            <span className={`rounded-full px-2 py-0.5 ${APPROVAL_STATUS_STYLES[selected.status]}`}>{selected.status}</span>
+          </div>
+          <div className="text-muted-foreground">
+            Requested by {selected.requestedBy}
+            {selected.risk.value && ` · ${selected.risk.value} FLOW`}
+            {` · ${selected.risk.authorizers} authorizer${selected.risk.authorizers === 1 ? '' : 's'}`}
+            {` · gas limit ${selected.risk.gasLimit.toLocaleString()}`}
+          </div>
+          {selected.explanation && (
+            <p className="max-h-40 overflow-auto whitespace-pre-wrap rounded border border-border p-2">{selected.explanation}</p>
+          )}
+          <pre className="max-h-40 overflow-auto rounded bg-muted p-2 font-mono">{selected.cadenceCode}</pre>
+          <div>
+            <div className="text-muted-foreground">Audit trail</div>
+            {selected.audit.map((entry, index) => (
+              <div key={index}>
+                {new Date(entry.at).toLocaleString()} · {entry.actor} {entry.action}
+                {entry.comment && `: ${entry.comment}`}
+              </div>
+            ))}
+          </div>
+          {selected.status === 'pending' && (
+            <>
+              <input
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                placeholder="Comment (optional)"
+                className="w-full rounded-md border border-border bg-background px-2 py-1"
+              />
+              <div className="flex gap-2">
+                <button
+                  onClick={() => decide(selected, 'approve')}
+                  disabled={deciding}
+                  className="flex flex-1 items-center justify-center gap-1 rounded-md bg-primary px-3 py-1.5 font-medium text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+                >
+                  <Check className="h-3 w-3" />
+                  Approve
+                </button>
+                <button
+                  onClick={() => decide(selected, 'reject')}
+                  disabled={deciding}
+                  className="flex flex-1 items-center justify-center gap-1 rounded-md border border-border px-3 py-1.5 font-medium hover:bg-muted disabled:opacity-50"
+                >
+                  <X className="h-3 w-3" />
+                  Reject
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -3,6 +3,7 @@
 import { useState, useEffect, useCallback } from "react"
 import { CadenceGenerator, CadenceGenerationResult } from "@/lib/cadence-generator"
 import type { Workflow, ParsedWorkflow } from "@/lib/types"
+import type { CadenceCheckResult } from "@/lib/cadence-language-server"
 import { gracefulErrorHandler, ActionDiscoveryError } from "@/lib/graceful-error-handler"
 import { ErrorBoundary } from "@/components/ui/error-boundary"
 import { Code2, Copy, ChevronRight, FileJson, FileCode, ListTree, AlertTriangle, Loader2, CheckCircle, RefreshCw, WifiOff, Clock } from "lucide-react"
@@ -34,6 +35,7 @@ function CodePreviewContent({ workflow, parsedWorkflow }: CodePreviewProps) {
   const [copied, setCopied] = useState(false)
   const [generationResult, setGenerationResult] = useState<CadenceGenerationResult | null>(null)
   const [summaryContent, setSummaryContent] = useState<string>("// Loading summary...")
+  const [cadenceCheck, setCadenceCheck] = useState<CadenceCheckResult | null>(null)
   const [loadingState, setLoadingState] = useState<LoadingState>({
     isGenerating: false,
     isRetrying: false,
@@ -57,6 +59,39 @@ function CodePreviewContent({ workflow, parsedWorkflow }: CodePreviewProps) {
     }
   }, [parsedWorkflow, workflow.nodes])
 
+  // Type check generated code on the server, where the Cadence language server runs
+  useEffect(() => {
+    setCadenceCheck(null)
+    if (!generationResult?.success) {
+      return
+    }
+
+    const controller = new AbortController()
+    fetch("/api/workflow/check-cadence", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ code: generationResult.code }),
+      signal: controller.signal
+    })
+      .then(response => response.ok ? response.json() : null)
+      .then(data => {
+        if (data) {
+          setCadenceCheck({
+            checked: data.checked,
+            diagnostics: data.diagnostics || [],
+            unavailableReason: data.unavailableReason
+          })
+        }
+      })
+      .catch(() => {
+        // Diagnostics are optional; the preview works without them
+      })
+
+    return () => controller.abort()
+  }, [generationResult])
+
+  const cadenceErrorCount = cadenceCheck?.diagnostics.filter(d => d.severity === 'error').length ?? 0
+
   const clearError = useCallback(() => {
     setErrorState({
       hasError: false,
@@ -249,7 +284,9 @@ function CodePreviewContent({ workflow, parsedWorkflow }: CodePreviewProps) {
     }
 
     if (generationResult) {
-      if (generationResult.success && !generationResult.fallbackUsed) {
+      if (cadenceErrorCount > 0) {
+        return <AlertTriangle className="h-4 w-4 text-red-500" />
+      } else if (generationResult.success && !generationResult.fallbackUsed) {
         return <CheckCircle className="h-4 w-4 text-green-500" />
       } else if (generationResult.success && generationResult.fallbackUsed) {
         return <AlertTriangle className="h-4 w-4 text-yellow-500" />
@@ -282,7 +319,9 @@ function CodePreviewContent({ workflow, parsedWorkflow }: CodePreviewProps) {
     }
 
     if (generationResult) {
-      if (generationResult.success && !generationResult.fallbackUsed) {
+      if (cadenceErrorCount > 0) {
+        return `Generated with ${cadenceErrorCount} Cadence error${cadenceErrorCount === 1 ? '' : 's'}`
+      } else if (generationResult.success && !generationResult.fallbackUsed) {
         return "Generated Successfully"
       } else if (generationResult.success && generationResult.fallbackUsed) {
         return "Generated (Fallback Mode)"
@@ -345,6 +384,25 @@ function CodePreviewContent({ workflow, parsedWorkflow }: CodePreviewProps) {
           </div>
         )}
 
+        {/* Cadence Diagnostics */}
+        {cadenceCheck && cadenceCheck.diagnostics.length > 0 && (
+          <div className="mb-3 space-y-1" aria-label="Cadence diagnostics">
+            {cadenceCheck.diagnostics.map((diagnostic, index) => (
+              <div
+                key={`diagnostic-${index}`}
+                className={`flex items-start gap-2 text-xs px-2 py-1 rounded ${diagnostic.severity === 'error'
+                    ? "text-red-600 bg-red-50 dark:bg-red-950"
+                    : "text-yellow-600 bg-yellow-50 dark:bg-yellow-950"
+                  }`}
+              >
+                <AlertTriangle className="h-3 w-3 flex-shrink-0 mt-0.5" />
+                <span className="font-mono flex-shrink-0">{diagnostic.line}:{diagnostic.column}</span>
+                <span>{diagnostic.message}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Error State Display */}
         {errorState.hasError && (
           <div className="mb-3 space-y-2">
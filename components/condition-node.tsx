@@ -0,0 +1,121 @@
+"use client"
+
+import { memo, useCallback } from "react"
+import { Handle, Position, type NodeProps } from "@xyflow/react"
+import { GitBranch, AlertCircle } from "lucide-react"
+import type { ConditionOperator, ConditionPredicate } from "@/lib/types"
+import { CONDITION_OPERATORS, DEFAULT_CONDITION_TYPE } from "@/lib/workflow-control-flow"
+
+interface ConditionNodeData {
+  label: string
+  condition?: ConditionPredicate
+  hasValidationErrors?: boolean
+  onConditionChange?: (id: string, condition: ConditionPredicate) => void
+}
+
+const EMPTY_CONDITION: ConditionPredicate = { left: "", operator: "gt", right: "", type: DEFAULT_CONDITION_TYPE }
+
+const inputClassName =
+  "nodrag w-full rounded-md border border-border bg-background px-2 py-1 text-xs focus:border-primary focus:outline-none focus:ring-2 focus:ring-primary/20"
+
+const ConditionNodeComponent = ({ data, id }: NodeProps & { data: ConditionNodeData }) => {
+  const condition = data.condition || EMPTY_CONDITION
+  const onConditionChange = data.onConditionChange
+  const isIncomplete = !condition.left || !condition.right
+
+  const updateCondition = useCallback((changes: Partial<ConditionPredicate>) => {
+    onConditionChange?.(id, { ...condition, ...changes })
+  }, [id, condition, onConditionChange])
+
+  return (
+    <div className="group relative">
+      <div className="absolute inset-0 rounded-xl bg-gradient-to-br from-chart-4 via-chart-4/80 to-chart-4/60 opacity-20 blur-xl transition-opacity group-hover:opacity-40" />
+
+      <div
+        className={`relative rounded-xl border-2 bg-card px-5 py-4 shadow-2xl transition-all duration-200 min-w-[240px] ${
+          data.hasValidationErrors || isIncomplete
+            ? 'border-dashed border-orange-500 shadow-orange-500/20'
+            : 'border-border group-hover:border-primary hover:shadow-primary/40'
+        }`}
+      >
+        <Handle
+          type="target"
+          position={Position.Top}
+          className="!h-3 !w-3 !rounded-full !border-2 !border-secondary !bg-secondary glow-secondary"
+        />
+
+        <div className="flex items-center gap-3 mb-3">
+          <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-gradient-to-br from-chart-4 via-chart-4/80 to-chart-4/60 shadow-lg flex-shrink-0">
+            <GitBranch className="h-5 w-5 text-white" />
+          </div>
+          <div className="flex-1 min-w-0">
+            <div className="text-sm font-semibold truncate">{data.label}</div>
+            <div className="text-xs text-muted-foreground">Control flow</div>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <input
+            type="text"
+            value={condition.left}
+            onChange={(e) => updateCondition({ left: e.target.value })}
+            placeholder="actionId.output"
+            className={inputClassName}
+            aria-label="Left operand"
+          />
+          <select
+            value={condition.operator}
+            onChange={(e) => updateCondition({ operator: e.target.value as ConditionOperator })}
+            className={inputClassName}
+            aria-label="Operator"
+          >
+            {Object.entries(CONDITION_OPERATORS).map(([operator, { symbol, label }]) => (
+              <option key={operator} value={operator}>
+                {symbol} {label}
+              </option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={condition.right}
+            onChange={(e) => updateCondition({ right: e.target.value })}
+            placeholder="Value or actionId.output"
+            className={inputClassName}
+            aria-label="Right operand"
+          />
+        </div>
+
+        {isIncomplete && (
+          <div className="flex items-center gap-1 mt-2 text-xs text-orange-500">
+            <AlertCircle className="h-3 w-3" />
+            <span>Predicate incomplete</span>
+          </div>
+        )}
+
+        <div className="flex justify-between mt-3 text-xs font-semibold">
+          <span className="text-green-500">True</span>
+          <span className="text-red-500">False</span>
+        </div>
+
+        <Handle
+          id="true"
+          type="source"
+          position={Position.Bottom}
+          style={{ left: "25%" }}
+          className="!h-3 !w-3 !rounded-full !border-2 !border-green-500 !bg-green-500"
+        />
+        <Handle
+          id="false"
+          type="source"
+          position={Position.Bottom}
+          style={{ left: "75%" }}
+          className="!h-3 !w-3 !rounded-full !border-2 !border-red-500 !bg-red-500"
+        />
+      </div>
+    </div>
+  )
+}
+
+export const ConditionNode = memo(ConditionNodeComponent)
+
+ConditionNode.displayName = "ConditionNode"
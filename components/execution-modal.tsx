@@ -1,14 +1,24 @@
 "use client"
 
 import type { ExecutionResult } from "@/lib/types"
+import type { WorkflowExplanation } from "@/lib/workflow-explainer"
 
 interface ExecutionModalProps {
   isExecuting: boolean
   result: ExecutionResult | null
+  explanation?: WorkflowExplanation | null
+  onConfirm?: () => void // Shows the explanation for review before signing
   onClose: () => void
 }
 
-export function ExecutionModal({ isExecuting, result, onClose }: ExecutionModalProps) {
+const RISK_BADGE: Record<string, string> = {
+  low: "bg-green-500/10 text-green-500",
+  medium: "bg-yellow-500/10 text-yellow-600",
+  high: "bg-orange-500/10 text-orange-500",
+  critical: "bg-destructive/10 text-destructive"
+}
+
+export function ExecutionModal({ isExecuting, result, explanation, onConfirm, onClose }: ExecutionModalProps) {
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm">
       <div className="w-full max-w-lg rounded-lg border border-border bg-card p-6 shadow-xl">
@@ -28,9 +38,96 @@ export function ExecutionModal({ isExecuting, result, onClose }: ExecutionModalP
             <div className="h-12 w-12 animate-spin rounded-full border-4 border-border border-t-primary" />
             <p className="text-sm text-muted-foreground">Executing workflow on Flow blockchain...</p>
           </div>
+        ) : !result && onConfirm ? (
+          <div className="space-y-4">
+            {explanation ? (
+              <>
+                <div className="flex items-start justify-between gap-3">
+                  <p className="text-sm">{explanation.summary}</p>
+                  <span className={`shrink-0 rounded-full px-2 py-0.5 text-xs font-medium capitalize ${RISK_BADGE[explanation.risk.level] || ""}`}>
+                    {explanation.risk.level} risk
+                  </span>
+                </div>
+
+                <div className="max-h-80 space-y-3 overflow-y-auto rounded-md border border-border bg-background p-4 text-sm">
+                  <ol className="space-y-1">
+                    {explanation.steps.map((step, i) => (
+                      <li key={i} style={{ paddingLeft: `${step.depth * 1.25}rem` }}>
+                        {step.depth === 0 && !step.text.startsWith("Otherwise") && (
+                          <span className="mr-1 text-muted-foreground">{step.number}.</span>
+                        )}
+                        {step.text}
+                      </li>
+                    ))}
+                  </ol>
+
+                  {explanation.dependencies.length > 0 && (
+                    <div>
+                      <p className="mb-1 font-medium">Data between steps:</p>
+                      <ul className="list-inside list-disc space-y-1 text-muted-foreground">
+                        {explanation.dependencies.map((line, i) => <li key={i}>{line}</li>)}
+                      </ul>
+                    </div>
+                  )}
+
+                  {explanation.risk.notes.length > 0 && (
+                    <div>
+                      <p className="mb-1 font-medium">Risk notes:</p>
+                      <ul className="list-inside list-disc space-y-1 text-muted-foreground">
+                        {explanation.risk.notes.map((note, i) => <li key={i}>{note}</li>)}
+                      </ul>
+                    </div>
+                  )}
+                </div>
+              </>
+            ) : (
+              <p className="py-4 text-center text-sm text-muted-foreground">Preparing a summary of this workflow...</p>
+            )}
+
+            <div className="flex gap-2">
+              <button
+                onClick={onClose}
+                className="flex-1 rounded-md border border-border px-4 py-2 text-sm font-medium transition-colors hover:bg-accent"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={onConfirm}
+                className="flex-1 rounded-md bg-primary px-4 py-2 text-sm font-medium text-primary-foreground transition-colors hover:bg-primary/90"
+              >
+                Sign &amp; Execute
+              </button>
+            </div>
+          </div>
         ) : result ? (
           <div className="space-y-4">
-            {result.success ? (
+            {result.approvalId ? (
+              <>
+                <div className="flex items-center gap-2 rounded-md bg-yellow-500/10 p-3 text-yellow-600">
+                  <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                  </svg>
+                  <span className="font-medium">Awaiting Approval</span>
+                </div>
+
+                <div className="space-y-2 rounded-md border border-border bg-background p-4 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Approval ID:</span>
+                    <span className="font-mono">{result.approvalId}</span>
+                  </div>
+                  <p className="text-muted-foreground">
+                    This transaction needs approval before it is submitted. Execute the workflow again once it is approved.
+                  </p>
+                </div>
+
+                <button
+                  onClick={onClose}
+                  className="w-full rounded-md border border-border px-4 py-2 text-sm font-medium transition-colors hover:bg-accent"
+                >
+                  Close
+                </button>
+              </>
+            ) : result.success ? (
               <>
                 <div className="flex items-center gap-2 rounded-md bg-green-500/10 p-3 text-green-500">
                   <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
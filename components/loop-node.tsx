@@ -0,0 +1,123 @@
+"use client"
+
+import { memo, useCallback } from "react"
+import { Handle, Position, type NodeProps } from "@xyflow/react"
+import { Repeat, AlertCircle } from "lucide-react"
+import type { LoopConfiguration } from "@/lib/types"
+import { MAX_LOOP_ITERATIONS } from "@/lib/workflow-control-flow"
+
+interface LoopNodeData {
+  label: string
+  loop?: LoopConfiguration
+  hasValidationErrors?: boolean
+  onLoopChange?: (id: string, loop: LoopConfiguration) => void
+}
+
+const EMPTY_LOOP: LoopConfiguration = { items: "", maxIterations: 10 }
+
+const inputClassName =
+  "nodrag w-full rounded-md border border-border bg-background px-2 py-1 text-xs focus:border-primary focus:outline-none focus:ring-2 focus:ring-primary/20"
+
+const LoopNodeComponent = ({ data, id }: NodeProps & { data: LoopNodeData }) => {
+  const loop = data.loop || EMPTY_LOOP
+  const onLoopChange = data.onLoopChange
+  const isIncomplete = !loop.items.trim()
+
+  const updateLoop = useCallback((changes: Partial<LoopConfiguration>) => {
+    onLoopChange?.(id, { ...loop, ...changes })
+  }, [id, loop, onLoopChange])
+
+  return (
+    <div className="group relative">
+      <div className="absolute inset-0 rounded-xl bg-gradient-to-br from-chart-5 via-chart-5/80 to-chart-5/60 opacity-20 blur-xl transition-opacity group-hover:opacity-40" />
+
+      <div
+        className={`relative rounded-xl border-2 bg-card px-5 py-4 shadow-2xl transition-all duration-200 min-w-[240px] ${
+          data.hasValidationErrors || isIncomplete
+            ? 'border-dashed border-orange-500 shadow-orange-500/20'
+            : 'border-border group-hover:border-primary hover:shadow-primary/40'
+        }`}
+      >
+        <Handle
+          type="target"
+          position={Position.Top}
+          className="!h-3 !w-3 !rounded-full !border-2 !border-secondary !bg-secondary glow-secondary"
+        />
+
+        <div className="flex items-center gap-3 mb-3">
+          <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-gradient-to-br from-chart-5 via-chart-5/80 to-chart-5/60 shadow-lg flex-shrink-0">
+            <Repeat className="h-5 w-5 text-white" />
+          </div>
+          <div className="flex-1 min-w-0">
+            <div className="text-sm font-semibold truncate">{data.label}</div>
+            <div className="text-xs text-muted-foreground">Control flow</div>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <input
+            type="text"
+            value={loop.items}
+            onChange={(e) => updateLoop({ items: e.target.value })}
+            placeholder="actionId.output, [1, 2] or a count"
+            className={inputClassName}
+            aria-label="Items"
+          />
+          <div className="flex gap-2">
+            <input
+              type="number"
+              min={1}
+              max={MAX_LOOP_ITERATIONS}
+              value={loop.maxIterations ?? ""}
+              onChange={(e) => updateLoop({
+                maxIterations: e.target.value === "" ? undefined : Number(e.target.value)
+              })}
+              placeholder="Max"
+              className={inputClassName}
+              aria-label="Maximum iterations"
+            />
+            <input
+              type="text"
+              value={loop.itemType ?? ""}
+              onChange={(e) => updateLoop({ itemType: e.target.value || undefined })}
+              placeholder="Item type"
+              className={inputClassName}
+              aria-label="Item type"
+            />
+          </div>
+        </div>
+
+        {isIncomplete && (
+          <div className="flex items-center gap-1 mt-2 text-xs text-orange-500">
+            <AlertCircle className="h-3 w-3" />
+            <span>Items not set</span>
+          </div>
+        )}
+
+        <div className="flex justify-between mt-3 text-xs font-semibold">
+          <span className="text-primary">Each item</span>
+          <span className="text-muted-foreground">Done</span>
+        </div>
+
+        <Handle
+          id="body"
+          type="source"
+          position={Position.Bottom}
+          style={{ left: "25%" }}
+          className="!h-3 !w-3 !rounded-full !border-2 !border-primary !bg-primary"
+        />
+        <Handle
+          id="done"
+          type="source"
+          position={Position.Bottom}
+          style={{ left: "75%" }}
+          className="!h-3 !w-3 !rounded-full !border-2 !border-secondary !bg-secondary"
+        />
+      </div>
+    </div>
+  )
+}
+
+export const LoopNode = memo(LoopNodeComponent)
+
+LoopNode.displayName = "LoopNode"
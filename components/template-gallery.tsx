@@ -0,0 +1,217 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import type { ImportedWorkflow } from '@/lib/workflow-file-format'
+import type { TemplateCategory, TemplateVariable, WorkflowTemplateSummary } from '@/lib/workflow-templates'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { ArrowLeft, LayoutTemplate, Loader2 } from 'lucide-react'
+
+interface TemplateGalleryProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onTemplateLoaded: (imported: ImportedWorkflow) => void
+}
+
+const initialValues = (template: WorkflowTemplateSummary): Record<string, string> =>
+  Object.fromEntries(template.variables.map(variable => [variable.name, variable.defaultValue ?? '']))
+
+export function TemplateGallery({ open, onOpenChange, onTemplateLoaded }: TemplateGalleryProps) {
+  const [templates, setTemplates] = useState<WorkflowTemplateSummary[]>([])
+  const [categories, setCategories] = useState<Record<string, string>>({})
+  const [category, setCategory] = useState<TemplateCategory | null>(null)
+  const [selected, setSelected] = useState<WorkflowTemplateSummary | null>(null)
+  const [values, setValues] = useState<Record<string, string>>({})
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!open || templates.length > 0) return
+
+    setIsLoading(true)
+    fetch('/api/templates')
+      .then(response => response.json())
+      .then(data => {
+        setTemplates(data.templates || [])
+        setCategories(data.categories || {})
+      })
+      .catch(() => setError('Failed to load templates'))
+      .finally(() => setIsLoading(false))
+  }, [open, templates.length])
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setSelected(null)
+      setError(null)
+    }
+    onOpenChange(nextOpen)
+  }
+
+  const selectTemplate = (template: WorkflowTemplateSummary) => {
+    setSelected(template)
+    setValues(initialValues(template))
+    setError(null)
+  }
+
+  const handleUseTemplate = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!selected) return
+
+    setIsLoading(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/templates', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ templateId: selected.id, variables: values })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.details || data.error || 'Template could not be created')
+        return
+      }
+
+      onTemplateLoaded({
+        workflow: data.workflow,
+        parameterValues: data.parameterValues,
+        agentConfig: data.agentConfig,
+        name: data.name
+      })
+      handleOpenChange(false)
+    } catch (err) {
+      setError('Template could not be created')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const visibleTemplates = category ? templates.filter(template => template.category === category) : templates
+
+  const renderVariableInput = (variable: TemplateVariable) => {
+    const id = `template-variable-${variable.name}`
+    const value = values[variable.name] ?? ''
+    const onChange = (next: string) => setValues(prev => ({ ...prev, [variable.name]: next }))
+
+    return (
+      <div key={variable.name} className="space-y-1.5">
+        <Label htmlFor={id}>
+          {variable.label}
+          {variable.required && <span className="text-red-500"> *</span>}
+        </Label>
+        {variable.options ? (
+          <select
+            id={id}
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            className="w-full rounded-md border border-border bg-background px-3 py-2 text-sm"
+          >
+            {variable.options.map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        ) : (
+          <Input
+            id={id}
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder={variable.type}
+          />
+        )}
+        <p className="text-xs text-muted-foreground">{variable.description}</p>
+      </div>
+    )
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle>{selected ? selected.name : 'Workflow Templates'}</DialogTitle>
+          <DialogDescription>
+            {selected
+              ? selected.description
+              : 'Start from a ready-made workflow and fill in its details.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <div className="rounded-md bg-red-50 p-3 border border-red-200 text-sm text-red-800">
+            {error}
+          </div>
+        )}
+
+        {selected ? (
+          <form onSubmit={handleUseTemplate} className="space-y-4">
+            {selected.variables.map(renderVariableInput)}
+            <div className="flex justify-between pt-2">
+              <Button type="button" variant="ghost" onClick={() => setSelected(null)}>
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back
+              </Button>
+              <Button type="submit" disabled={isLoading}>
+                {isLoading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Use Template
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              <Button size="sm" variant={category === null ? 'default' : 'outline'} onClick={() => setCategory(null)}>
+                All
+              </Button>
+              {Object.entries(categories).map(([id, label]) => (
+                <Button
+                  key={id}
+                  size="sm"
+                  variant={category === id ? 'default' : 'outline'}
+                  onClick={() => setCategory(id as TemplateCategory)}
+                >
+                  {label}
+                </Button>
+              ))}
+            </div>
+
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : (
+              <div className="grid gap-3 sm:grid-cols-2">
+                {visibleTemplates.map(template => (
+                  <button
+                    key={template.id}
+                    onClick={() => selectTemplate(template)}
+                    className="rounded-lg border border-border bg-background p-4 text-left transition-all hover:border-primary hover:bg-primary/5"
+                  >
+                    <div className="flex items-center gap-2 mb-1">
+                      <LayoutTemplate className="h-4 w-4 text-primary" />
+                      <span className="text-sm font-semibold">{template.name}</span>
+                    </div>
+                    <p className="text-xs text-muted-foreground mb-3">{template.description}</p>
+                    <div className="flex flex-wrap gap-1">
+                      <Badge variant="secondary">{categories[template.category] || template.category}</Badge>
+                      {template.tags.map(tag => (
+                        <Badge key={tag} variant="outline">{tag}</Badge>
+                      ))}
+                    </div>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
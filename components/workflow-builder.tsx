@@ -1,5 +1,6 @@
 "use client"
 
+import type React from "react"
 import { useState, useCallback, useEffect, useMemo, useRef } from "react"
 import { WorkflowCanvas } from "./workflow-canvas"
 import { ActionLibrary } from "./action-library"
@@ -8,10 +9,31 @@ import { ExecutionModal } from "./execution-modal"
 import { NLPInput } from "./nlp-input"
 import { ParameterConfigPanel } from "./parameter-config-panel"
 import { ExecutionReadinessIndicator, ExecutionReadinessData } from "./execution-readiness-indicator"
+import { TemplateGallery } from "./template-gallery"
 import { ErrorBoundary } from "./ui/error-boundary"
 import { WorkflowParser } from "@/lib/workflow-parser"
 import { ParameterValidator } from "@/lib/parameter-validator"
 import { parameterStateDebugger } from "@/lib/parameter-state-debugger"
+import {
+  exportWorkflow,
+  importWorkflow,
+  serializeLoomFile,
+  getLoomFileName,
+  LoomFormatError,
+  LOOM_FILE_EXTENSION,
+  type ImportedWorkflow
+} from "@/lib/workflow-file-format"
+import {
+  WorkflowHistory,
+  addNodesCommand,
+  editParameterCommand,
+  replaceStateCommand,
+  type EditorState,
+  type WorkflowCommand,
+} from "@/lib/workflow-history"
+import { copyNodes, parseClipboard, pasteNodes, serializeClipboard } from "@/lib/workflow-clipboard"
+import { explainWorkflow, type WorkflowExplanation } from "@/lib/workflow-explainer"
+import { useWorkflowCollaboration, type CollaborationPeer } from "@/hooks/use-workflow-collaboration"
 
 import type {
   Workflow,
@@ -24,7 +46,7 @@ import type {
   ValidationError
 } from "@/lib/types"
 import { ValidationErrorType } from "@/lib/types"
-import { Sparkles, Play, Save, Zap, MessageSquare, Grid3X3 } from "lucide-react"
+import { Sparkles, Play, Save, Zap, MessageSquare, Grid3X3, Download, Upload, LayoutTemplate, Undo2, Redo2 } from "lucide-react"
 
 export function WorkflowBuilder() {
   const [workflow, setWorkflow] = useState<Workflow>({
@@ -34,10 +56,17 @@ export function WorkflowBuilder() {
   const [parsedWorkflow, setParsedWorkflow] = useState<ParsedWorkflow | null>(null)
   const [isExecuting, setIsExecuting] = useState(false)
   const [executionResult, setExecutionResult] = useState<ExecutionResult | null>(null)
+  // Sent with the next execution, which runs once the request is approved
+  const [pendingApprovalId, setPendingApprovalId] = useState<string | null>(null)
   const [showExecutionModal, setShowExecutionModal] = useState(false)
+  const [explanation, setExplanation] = useState<WorkflowExplanation | null>(null)
   const [showNLPInput, setShowNLPInput] = useState(false)
   const [inputMode, setInputMode] = useState<'visual' | 'nlp'>('visual')
   const [simulationResult, setSimulationResult] = useState<SimulationResult | null>(null)
+  const [savedWorkflowId, setSavedWorkflowId] = useState<string | null>(null)
+  const [agentConfig, setAgentConfig] = useState<AgentConfiguration | null>(null)
+  const importInputRef = useRef<HTMLInputElement>(null)
+  const [showTemplateGallery, setShowTemplateGallery] = useState(false)
 
   // Validation state
   const [selectedActionForConfig, setSelectedActionForConfig] = useState<{
@@ -58,6 +87,14 @@ export function WorkflowBuilder() {
   const parameterValuesRef = useRef(parameterValues)
   parameterValuesRef.current = parameterValues
 
+  // Edit history. The ref also holds edits made since the last render, so
+  // commands issued in quick succession build on each other.
+  const historyRef = useRef(new WorkflowHistory())
+  const [, setHistoryVersion] = useState(0)
+  const editorStateRef = useRef<EditorState>({ workflow, parameterValues })
+  editorStateRef.current = { workflow, parameterValues }
+  const selectedNodeIdsRef = useRef<string[]>([])
+
   // Validators - use useMemo to prevent recreation on every render
   const parameterValidator = useMemo(() => new ParameterValidator(), [])
 
@@ -123,6 +160,130 @@ export function WorkflowBuilder() {
     }
   }, [workflow.nodes])
 
+  const applyEditorState = useCallback((next: EditorState) => {
+    const previous = editorStateRef.current
+    editorStateRef.current = next
+
+    // Parameter edits leave the workflow untouched; skip re-parsing it
+    if (next.workflow !== previous.workflow) {
+      handleWorkflowChange(next.workflow)
+    }
+    setParameterValues(next.parameterValues)
+    parameterStateDebugger.takeSnapshot(next.parameterValues)
+
+    // Keep an open parameter panel in step with undo/redo, closing it if its node is gone
+    setSelectedActionForConfig(prev => {
+      if (!prev) return prev
+      if (!next.workflow.nodes.some(node => node.id === prev.nodeId)) return null
+      return { ...prev, currentValues: next.parameterValues[prev.nodeId] || {} }
+    })
+    setHistoryVersion(version => version + 1)
+  }, [handleWorkflowChange])
+
+  const executeCommand = useCallback((command: WorkflowCommand) => {
+    applyEditorState(historyRef.current.execute(editorStateRef.current, command))
+  }, [applyEditorState])
+
+  const handleUndo = useCallback(() => {
+    const previous = historyRef.current.undo(editorStateRef.current)
+    if (previous) applyEditorState(previous)
+  }, [applyEditorState])
+
+  const handleRedo = useCallback(() => {
+    const next = historyRef.current.redo(editorStateRef.current)
+    if (next) applyEditorState(next)
+  }, [applyEditorState])
+
+  // Keyboard shortcuts and node copy/paste; text fields keep their native behavior
+  useEffect(() => {
+    const isEditingText = () => {
+      const element = document.activeElement as HTMLElement | null
+      return !!element && (
+        element instanceof HTMLInputElement ||
+        element instanceof HTMLTextAreaElement ||
+        element instanceof HTMLSelectElement ||
+        element.isContentEditable
+      )
+    }
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.metaKey || event.ctrlKey) || isEditingText()) return
+
+      const key = event.key.toLowerCase()
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault()
+        handleUndo()
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault()
+        handleRedo()
+      }
+    }
+
+    // The system clipboard carries copied nodes to other workflows and tabs
+    const handleCopy = (event: ClipboardEvent) => {
+      if (isEditingText() || !event.clipboardData) return
+
+      const clipboard = copyNodes(editorStateRef.current, selectedNodeIdsRef.current)
+      if (!clipboard) return
+
+      event.clipboardData.setData('text/plain', serializeClipboard(clipboard))
+      event.preventDefault()
+    }
+
+    const handlePaste = (event: ClipboardEvent) => {
+      if (isEditingText()) return
+
+      const clipboard = parseClipboard(event.clipboardData?.getData('text/plain') || '')
+      if (!clipboard) return
+
+      event.preventDefault()
+      const pasted = pasteNodes(clipboard, editorStateRef.current)
+      executeCommand(addNodesCommand(
+        pasted.nodes,
+        pasted.edges,
+        pasted.parameterValues,
+        pasted.nodes.length === 1 ? 'Paste node' : `Paste ${pasted.nodes.length} nodes`
+      ))
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    document.addEventListener('copy', handleCopy)
+    document.addEventListener('paste', handlePaste)
+
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown)
+      document.removeEventListener('copy', handleCopy)
+      document.removeEventListener('paste', handlePaste)
+    }
+  }, [handleUndo, handleRedo, executeCommand])
+
+  const handleSelectionChange = useCallback((nodeIds: string[]) => {
+    selectedNodeIdsRef.current = nodeIds
+  }, [])
+
+  // Live collaboration on saved workflows. Remote edits are applied directly
+  // and do not enter the local undo history.
+  const collaboration = useWorkflowCollaboration({
+    workflowId: savedWorkflowId,
+    state: { workflow, parameterValues },
+    onRemoteState: applyEditorState,
+    onLockDenied: (_nodeId, holder) => {
+      setSelectedActionForConfig(null)
+      alert(`${holder?.name || 'Another collaborator'} is already editing this action`)
+    }
+  })
+  const lockedNodesRef = useRef<Record<string, CollaborationPeer>>({})
+  lockedNodesRef.current = collaboration.lockedNodes
+
+  // Lock the node whose parameters are open so nobody else edits them meanwhile
+  const configNodeId = selectedActionForConfig?.nodeId
+  const { isConnected: isCollaborating, lockNode, unlockNode } = collaboration
+  useEffect(() => {
+    if (!configNodeId || !isCollaborating) return
+    lockNode(configNodeId)
+    return () => unlockNode(configNodeId)
+  }, [configNodeId, isCollaborating, lockNode, unlockNode])
+
   // Listen for actionAdded events to initialize parameter values
   useEffect(() => {
     const handleActionAdded = (event: CustomEvent) => {
@@ -272,11 +433,18 @@ export function WorkflowBuilder() {
 
   const handleAgentConfiguration = (agentConfig: AgentConfiguration) => {
     console.log('Agent configuration:', agentConfig)
+    setAgentConfig(agentConfig)
     // In real implementation, this would create the agent
     alert('Agent configuration saved! (Mock implementation)')
   }
 
   const handleActionNodeSelect = useCallback((nodeId: string, actionMetadata: ActionMetadata) => {
+    const holder = lockedNodesRef.current[nodeId]
+    if (holder) {
+      alert(`${holder.name} is editing this action`)
+      return
+    }
+
     setSelectedActionForConfig({
       nodeId,
       action: actionMetadata,
@@ -286,26 +454,11 @@ export function WorkflowBuilder() {
 
   const handleParameterChange = useCallback((nodeId: string, parameterName: string, value: any) => {
     // Debug logging for parameter changes
-    const oldValue = parameterValuesRef.current[nodeId]?.[parameterName]
+    const oldValue = editorStateRef.current.parameterValues[nodeId]?.[parameterName]
     parameterStateDebugger.logParameterChange(nodeId, parameterName, oldValue, value, 'user_input')
 
-    setParameterValues(prev => {
-      const newState = {
-        ...prev,
-        [nodeId]: {
-          ...prev[nodeId],
-          [parameterName]: value
-        }
-      }
-      
-      // Take snapshot after state change for debugging
-      setTimeout(() => {
-        parameterStateDebugger.takeSnapshot(newState)
-      }, 0)
-      
-      return newState
-    })
-  }, [])
+    executeCommand(editParameterCommand(nodeId, parameterName, oldValue, value))
+  }, [executeCommand])
 
   const handleParameterValidationChange = useCallback((nodeId: string, isValid: boolean, errors: ValidationError[]) => {
     setValidationErrors(prev => ({
@@ -324,14 +477,20 @@ export function WorkflowBuilder() {
   }, [])
 
   const handleNLPWorkflowGenerated = (nlpWorkflow: Workflow) => {
-    // Smooth transition from NLP to visual mode
-    setInputMode('visual')
-    setShowNLPInput(false)
-
-    // Apply the generated workflow with a slight delay for smooth transition
-    setTimeout(() => {
-      handleWorkflowChange(nlpWorkflow)
-    }, 100)
+    // Each conversation turn replaces the workflow as one undoable step,
+    // keeping where nodes that are still there were moved to
+    const current = editorStateRef.current
+    const positions = new Map(current.workflow.nodes.map(node => [node.id, node.position]))
+    const nodeIds = new Set(nlpWorkflow.nodes.map(node => node.id))
+    executeCommand(replaceStateCommand(current, {
+      workflow: {
+        ...nlpWorkflow,
+        nodes: nlpWorkflow.nodes.map(node => ({ ...node, position: positions.get(node.id) || node.position }))
+      },
+      parameterValues: Object.fromEntries(
+        Object.entries(current.parameterValues).filter(([nodeId]) => nodeIds.has(nodeId))
+      )
+    }, 'Refine workflow'))
   }
 
   const toggleInputMode = () => {
@@ -351,15 +510,21 @@ export function WorkflowBuilder() {
     }
 
     try {
+      // Saving an already-stored workflow appends a new version instead of creating a copy
       const response = await fetch("/api/workflow/save", {
-        method: "POST",
+        method: savedWorkflowId ? "PUT" : "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ workflow: parsedWorkflow }),
+        body: JSON.stringify(
+          savedWorkflowId
+            ? { workflowId: savedWorkflowId, workflow: parsedWorkflow }
+            : { workflow: parsedWorkflow }
+        ),
       })
 
       const data = await response.json()
 
       if (data.success) {
+        setSavedWorkflowId(data.workflowId)
         alert(`Workflow saved! ID: ${data.workflowId}`)
       } else {
         alert(`Save failed: ${data.error}`)
@@ -370,6 +535,62 @@ export function WorkflowBuilder() {
     }
   }
 
+  const handleExport = () => {
+    if (workflow.nodes.length === 0) {
+      alert("No workflow to export")
+      return
+    }
+
+    const name = parsedWorkflow?.metadata.name
+    const file = exportWorkflow(workflow, parameterValues, {
+      name,
+      agentConfig: agentConfig || undefined
+    })
+
+    const blob = new Blob([serializeLoomFile(file)], { type: "application/json" })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement("a")
+    link.href = url
+    link.download = getLoomFileName(name)
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  // Replace the canvas with an imported file or an instantiated template
+  const loadImportedWorkflow = (imported: ImportedWorkflow) => {
+    executeCommand(replaceStateCommand(
+      editorStateRef.current,
+      { workflow: imported.workflow, parameterValues: imported.parameterValues },
+      imported.name ? `Load ${imported.name}` : 'Load workflow'
+    ))
+    setAgentConfig(imported.agentConfig || null)
+    setSavedWorkflowId(null)
+  }
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    // Reset so selecting the same file again still triggers a change
+    event.target.value = ""
+    if (!file) return
+
+    try {
+      const imported = importWorkflow(await file.text())
+
+      loadImportedWorkflow(imported)
+
+      if (imported.migratedFrom !== undefined) {
+        console.log(`Imported workflow migrated from format version ${imported.migratedFrom}`)
+      }
+    } catch (error) {
+      console.error("Import error:", error)
+      if (error instanceof LoomFormatError) {
+        alert(`Import failed: ${error.message}\n${error.errors.join("\n")}`)
+      } else {
+        alert("Failed to import workflow")
+      }
+    }
+  }
+
   const handleExecutionReadinessUpdate = useCallback((data: ExecutionReadinessData | null) => {
     setExecutionReadinessData(data)
 
@@ -410,8 +631,30 @@ export function WorkflowBuilder() {
       return
     }
 
-    setIsExecuting(true)
+    // Explain the workflow for review before it is signed
+    setExplanation(null)
     setShowExecutionModal(true)
+    explainWorkflow(getWorkflowWithParameters(parsedWorkflow))
+      .then(setExplanation)
+      .catch(error => console.warn("Workflow explanation failed:", error))
+  }
+
+  // Include parameter values in the workflow that is explained and executed
+  const getWorkflowWithParameters = (parsed: ParsedWorkflow): ParsedWorkflow => ({
+    ...parsed,
+    actions: parsed.actions.map(action => ({
+      ...action,
+      parameters: action.parameters.map(param => ({
+        ...param,
+        value: parameterValues[action.id]?.[param.name] || param.value
+      }))
+    }))
+  })
+
+  const confirmExecution = async () => {
+    if (!parsedWorkflow) return
+
+    setIsExecuting(true)
 
     try {
       // Get action metadata for execution
@@ -423,17 +666,7 @@ export function WorkflowBuilder() {
         }
       })
 
-      // Include parameter values and metadata in the execution request
-      const workflowWithParameters = {
-        ...parsedWorkflow,
-        actions: parsedWorkflow.actions.map(action => ({
-          ...action,
-          parameters: action.parameters.map(param => ({
-            ...param,
-            value: parameterValues[action.id]?.[param.name] || param.value
-          }))
-        }))
-      }
+      const workflowWithParameters = getWorkflowWithParameters(parsedWorkflow)
 
       const response = await fetch("/api/workflow/execute", {
         method: "POST",
@@ -441,11 +674,14 @@ export function WorkflowBuilder() {
         body: JSON.stringify({
           workflow: workflowWithParameters,
           actionMetadata,
-          parameterValues
+          parameterValues,
+          ...(savedWorkflowId && { workflowId: savedWorkflowId }),
+          ...(pendingApprovalId && { approvalId: pendingApprovalId })
         }),
       })
 
       const data = await response.json()
+      setPendingApprovalId(data.approvalId || null)
       setExecutionResult(data)
     } catch (error) {
       console.error("[v0] Execution error:", error)
@@ -568,6 +804,76 @@ export function WorkflowBuilder() {
           </div>
 
           <div className="flex items-center gap-3">
+            <input
+              ref={importInputRef}
+              type="file"
+              accept={`${LOOM_FILE_EXTENSION},application/json`}
+              onChange={handleImport}
+              className="hidden"
+              data-testid="workflow-import-input"
+            />
+            {isCollaborating && (
+              <div
+                className="flex items-center gap-2 rounded-lg bg-chart-2/10 px-3 py-1.5"
+                title={collaboration.peers.map(peer => peer.name).join(', ') || 'No one else is here'}
+              >
+                <div className="h-2 w-2 rounded-full bg-chart-2 animate-pulse" />
+                <span className="text-sm font-medium">Live</span>
+                <div className="flex -space-x-2">
+                  {collaboration.peers.map(peer => (
+                    <div
+                      key={peer.clientId}
+                      className="flex h-6 w-6 items-center justify-center rounded-full border-2 border-card text-[10px] font-semibold text-white"
+                      style={{ backgroundColor: peer.color }}
+                    >
+                      {peer.name.charAt(0).toUpperCase()}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+            <div className="flex items-center rounded-lg border border-border bg-background p-1">
+              <button
+                onClick={handleUndo}
+                disabled={!historyRef.current.canUndo()}
+                className="rounded-md p-1.5 text-muted-foreground transition-all hover:text-foreground disabled:opacity-50 disabled:cursor-not-allowed"
+                title={historyRef.current.canUndo() ? `Undo ${historyRef.current.getUndoLabel()} (Ctrl+Z)` : 'Nothing to undo'}
+                aria-label="Undo"
+              >
+                <Undo2 className="h-4 w-4" />
+              </button>
+              <button
+                onClick={handleRedo}
+                disabled={!historyRef.current.canRedo()}
+                className="rounded-md p-1.5 text-muted-foreground transition-all hover:text-foreground disabled:opacity-50 disabled:cursor-not-allowed"
+                title={historyRef.current.canRedo() ? `Redo ${historyRef.current.getRedoLabel()} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+                aria-label="Redo"
+              >
+                <Redo2 className="h-4 w-4" />
+              </button>
+            </div>
+            <button
+              onClick={() => setShowTemplateGallery(true)}
+              className="flex items-center gap-2 rounded-lg border border-border bg-background px-4 py-2 text-sm font-medium transition-all hover:border-primary hover:bg-primary/5"
+            >
+              <LayoutTemplate className="h-4 w-4" />
+              Templates
+            </button>
+            <button
+              onClick={() => importInputRef.current?.click()}
+              className="flex items-center gap-2 rounded-lg border border-border bg-background px-4 py-2 text-sm font-medium transition-all hover:border-primary hover:bg-primary/5"
+            >
+              <Upload className="h-4 w-4" />
+              Import
+            </button>
+            <button
+              onClick={handleExport}
+              disabled={workflow.nodes.length === 0}
+              className="flex items-center gap-2 rounded-lg border border-border bg-background px-4 py-2 text-sm font-medium transition-all hover:border-primary hover:bg-primary/5 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Download className="h-4 w-4" />
+              Export
+            </button>
             <button
               onClick={handleSave}
               disabled={!parsedWorkflow}
@@ -594,10 +900,17 @@ export function WorkflowBuilder() {
           </div>
         </header>
 
+        <TemplateGallery
+          open={showTemplateGallery}
+          onOpenChange={setShowTemplateGallery}
+          onTemplateLoaded={loadImportedWorkflow}
+        />
+
         <div className="flex flex-1 flex-col overflow-hidden">
-          {/* NLP Input Interface */}
-          {showNLPInput && (
-            <div className="transition-all duration-300 ease-in-out">
+          {/* Main Content Area */}
+          <div className="flex flex-1 overflow-hidden">
+            {/* NLP chat panel next to the canvas */}
+            {showNLPInput && (
               <NLPInput
                 onWorkflowGenerated={handleNLPWorkflowGenerated}
                 onClose={() => {
@@ -605,11 +918,7 @@ export function WorkflowBuilder() {
                   setInputMode('visual')
                 }}
               />
-            </div>
-          )}
-
-          {/* Main Content Area */}
-          <div className="flex flex-1 overflow-hidden">
+            )}
             <ErrorBoundary
               fallback={
                 <div className="flex-1 flex items-center justify-center bg-background">
@@ -637,6 +946,12 @@ export function WorkflowBuilder() {
                 onActionNodeSelect={handleActionNodeSelect}
                 validationErrors={validationErrors}
                 parameterValues={parameterValues}
+                onCommand={executeCommand}
+                onSelectionChange={handleSelectionChange}
+                peers={collaboration.peers}
+                cursors={collaboration.cursors}
+                lockedNodes={collaboration.lockedNodes}
+                onCursorMove={isCollaborating ? collaboration.updateCursor : undefined}
               />
             </ErrorBoundary>
             <CodePreview workflow={workflow} parsedWorkflow={parsedWorkflow} />
@@ -648,9 +963,12 @@ export function WorkflowBuilder() {
         <ExecutionModal
           isExecuting={isExecuting}
           result={executionResult}
+          explanation={explanation}
+          onConfirm={confirmExecution}
           onClose={() => {
             setShowExecutionModal(false)
             setExecutionResult(null)
+            setExplanation(null)
           }}
         />
       )}
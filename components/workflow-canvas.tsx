@@ -2,26 +2,43 @@
 
 import type React from "react"
 
-import { useCallback, useState, useEffect, useMemo } from "react"
+import { useCallback, useState, useEffect, useMemo, useRef } from "react"
 import {
   ReactFlow,
   Background,
   Controls,
   MiniMap,
+  ViewportPortal,
   addEdge,
   useNodesState,
   useEdgesState,
   type Connection,
   type Node,
   type Edge,
+  type OnSelectionChangeParams,
+  type ReactFlowInstance,
 } from "@xyflow/react"
 import "@xyflow/react/dist/style.css"
-import type { Workflow, SimulationResult, AgentConfiguration, ActionMetadata, ValidationError } from "@/lib/types"
+import type { Workflow, SimulationResult, AgentConfiguration, ActionMetadata, ValidationError, ConditionPredicate, LoopConfiguration } from "@/lib/types"
+import { CONDITION_ACTION_TYPE, DEFAULT_CONDITION_TYPE, LOOP_ACTION_TYPE } from "@/lib/workflow-control-flow"
+import {
+  addEdgeCommand,
+  addNodesCommand,
+  moveNodesCommand,
+  removeElementsCommand,
+  updateNodeDataCommand,
+  type WorkflowCommand,
+} from "@/lib/workflow-history"
+import type { CollaborationCursor, CollaborationPeer } from "@/hooks/use-workflow-collaboration"
 import { ActionNode } from "./action-node"
-import { MousePointerClick, WorkflowIcon, AlertTriangle, CheckCircle, Zap, Settings, Clock } from "lucide-react"
+import { ConditionNode } from "./condition-node"
+import { LoopNode } from "./loop-node"
+import { MousePointer2, MousePointerClick, WorkflowIcon, AlertTriangle, CheckCircle, Zap, Settings, Clock } from "lucide-react"
 
 const nodeTypes = {
   action: ActionNode,
+  [CONDITION_ACTION_TYPE]: ConditionNode,
+  [LOOP_ACTION_TYPE]: LoopNode,
 }
 
 interface ActionNodeData extends Record<string, unknown> {
@@ -30,8 +47,13 @@ interface ActionNodeData extends Record<string, unknown> {
   category: string
   type: string
   metadata?: ActionMetadata
+  condition?: ConditionPredicate
+  loop?: LoopConfiguration
   hasValidationErrors?: boolean
+  lockedBy?: { name: string; color: string }
   onConfigureParameters?: (nodeId: string, actionMetadata: ActionMetadata) => void
+  onConditionChange?: (nodeId: string, condition: ConditionPredicate) => void
+  onLoopChange?: (nodeId: string, loop: LoopConfiguration) => void
 }
 
 interface WorkflowCanvasProps {
@@ -42,6 +64,12 @@ interface WorkflowCanvasProps {
   onActionNodeSelect?: (nodeId: string, actionMetadata: ActionMetadata) => void
   validationErrors?: Record<string, ValidationError[]>
   parameterValues?: Record<string, Record<string, any>>
+  onCommand?: (command: WorkflowCommand) => void  // Receives edits as undoable commands instead of setWorkflow
+  onSelectionChange?: (nodeIds: string[]) => void
+  peers?: CollaborationPeer[]
+  cursors?: Record<string, CollaborationCursor>
+  lockedNodes?: Record<string, CollaborationPeer>
+  onCursorMove?: (cursor: CollaborationCursor | null) => void
 }
 
 export function WorkflowCanvas({
@@ -51,13 +79,42 @@ export function WorkflowCanvas({
   onConfigureAgent,
   onActionNodeSelect,
   validationErrors,
-  parameterValues
+  parameterValues,
+  onCommand,
+  onSelectionChange,
+  peers,
+  cursors,
+  lockedNodes,
+  onCursorMove
 }: WorkflowCanvasProps) {
   const [nodes, setNodes, onNodesChange] = useNodesState<Node<ActionNodeData>>([])
   const [edges, setEdges, onEdgesChange] = useEdgesState(workflow.edges)
   const [showSimulationPanel, setShowSimulationPanel] = useState(false)
   const [showAgentConfig, setShowAgentConfig] = useState(false)
   const [compatibilityErrors, setCompatibilityErrors] = useState<string[]>([])
+  const dragStartPositions = useRef<Map<string, { x: number; y: number }>>(new Map())
+  const flowInstance = useRef<ReactFlowInstance<Node<ActionNodeData>> | null>(null)
+
+  // Send edits to the builder's history, or apply them directly when there is none
+  const commit = useCallback((command: WorkflowCommand) => {
+    if (onCommand) {
+      onCommand(command)
+      return
+    }
+    setWorkflow(command.apply({ workflow, parameterValues: parameterValues || {} }).workflow)
+  }, [onCommand, setWorkflow, workflow, parameterValues])
+
+  // Write predicate edits from condition nodes back into the workflow
+  const handleConditionChange = useCallback((nodeId: string, condition: ConditionPredicate) => {
+    const before = workflow.nodes.find(node => node.id === nodeId)?.data?.condition
+    commit(updateNodeDataCommand(nodeId, { condition: before }, { condition }, 'Edit condition'))
+  }, [workflow.nodes, commit])
+
+  // Write item and bound edits from for-each nodes back into the workflow
+  const handleLoopChange = useCallback((nodeId: string, loop: LoopConfiguration) => {
+    const before = workflow.nodes.find(node => node.id === nodeId)?.data?.loop
+    commit(updateNodeDataCommand(nodeId, { loop: before }, { loop }, 'Edit loop'))
+  }, [workflow.nodes, commit])
 
   // Update nodes only when workflow nodes or validation errors change
   useEffect(() => {
@@ -66,11 +123,21 @@ export function WorkflowCanvas({
       data: {
         ...(node.data || {}), // Safely handle undefined node.data
         hasValidationErrors: (validationErrors?.[node.id]?.length ?? 0) > 0,
-        onConfigureParameters: onActionNodeSelect
+        lockedBy: lockedNodes?.[node.id]
+          ? { name: lockedNodes[node.id].name, color: lockedNodes[node.id].color }
+          : undefined,
+        onConfigureParameters: onActionNodeSelect,
+        onConditionChange: handleConditionChange,
+        onLoopChange: handleLoopChange
       } as ActionNodeData
     }))
     setNodes(updatedNodes)
-  }, [workflow.nodes, validationErrors])
+  }, [workflow.nodes, validationErrors, lockedNodes])
+
+  // Keep edges in step with the workflow, e.g. after undo or paste
+  useEffect(() => {
+    setEdges(workflow.edges)
+  }, [workflow.edges])
 
   // Check compatibility when nodes or edges change
   useEffect(() => {
@@ -111,7 +178,9 @@ export function WorkflowCanvas({
       // Enhanced edge with compatibility checking
       const newEdge: Edge = {
         ...params,
-        id: `${params.source}-${params.target}`,
+        id: params.sourceHandle
+          ? `${params.source}-${params.sourceHandle}-${params.target}`
+          : `${params.source}-${params.target}`,
         animated: true,
         style: {
           stroke: "oklch(0.65 0.25 290)",
@@ -138,13 +207,49 @@ export function WorkflowCanvas({
         }
       }
 
-      const newEdges = [...edges, newEdge]
-      setEdges(newEdges)
-      setWorkflow({ nodes, edges: newEdges })
+      setEdges([...edges, newEdge])
+      commit(addEdgeCommand(newEdge))
     },
-    [edges, nodes, setEdges, setWorkflow],
+    [edges, nodes, setEdges, commit],
   )
 
+  // One deletion (nodes with their connections) is one undoable step
+  const onDelete = useCallback(({ nodes: deletedNodes, edges: deletedEdges }: { nodes: Node[]; edges: Edge[] }) => {
+    commit(removeElementsCommand(
+      { workflow, parameterValues: parameterValues || {} },
+      deletedNodes.map(node => node.id),
+      deletedEdges.map(edge => edge.id)
+    ))
+  }, [workflow, parameterValues, commit])
+
+  const onNodeDragStart = useCallback((_event: React.MouseEvent, _node: Node, dragged: Node[]) => {
+    dragStartPositions.current = new Map(dragged.map(node => [node.id, { ...node.position }]))
+  }, [])
+
+  const onNodeDragStop = useCallback((_event: React.MouseEvent, _node: Node, dragged: Node[]) => {
+    const moves = dragged
+      .filter(node => dragStartPositions.current.has(node.id))
+      .map(node => ({ id: node.id, from: dragStartPositions.current.get(node.id)!, to: { ...node.position } }))
+      .filter(move => move.from.x !== move.to.x || move.from.y !== move.to.y)
+    dragStartPositions.current = new Map()
+
+    if (moves.length > 0) {
+      commit(moveNodesCommand(moves))
+    }
+  }, [commit])
+
+  // Share the pointer in flow coordinates so it lands on the same spot for every peer
+  const handleMouseMove = useCallback((event: React.MouseEvent) => {
+    if (!onCursorMove || !flowInstance.current) return
+    onCursorMove(flowInstance.current.screenToFlowPosition({ x: event.clientX, y: event.clientY }))
+  }, [onCursorMove])
+
+  const remoteCursors = (peers || []).filter(peer => cursors?.[peer.clientId])
+
+  const handleSelectionChange = useCallback(({ nodes: selected }: OnSelectionChangeParams) => {
+    onSelectionChange?.(selected.map(node => node.id))
+  }, [onSelectionChange])
+
   const onDragOver = useCallback((event: React.DragEvent) => {
     event.preventDefault()
     event.dataTransfer.dropEffect = "move"
@@ -179,9 +284,11 @@ export function WorkflowCanvas({
       }
 
       const nodeId = `${actionId}-${Date.now()}`
+      const isCondition = actionId === CONDITION_ACTION_TYPE
+      const isLoop = actionId === LOOP_ACTION_TYPE
       const newNode: Node<ActionNodeData> = {
         id: nodeId,
-        type: "action",
+        type: isCondition || isLoop ? actionId : "action",
         position,
         data: {
           label: actionName,
@@ -189,15 +296,23 @@ export function WorkflowCanvas({
           category: actionCategory,
           type: actionType,
           metadata: actionMetadata, // Include full action metadata
+          ...(isCondition && {
+            condition: { left: "", operator: "gt", right: "", type: DEFAULT_CONDITION_TYPE },
+            onConditionChange: handleConditionChange
+          }),
+          ...(isLoop && {
+            loop: { items: "", maxIterations: 10 },
+            onLoopChange: handleLoopChange
+          }),
         },
       }
 
-      const newNodes = [...nodes, newNode]
-      setNodes(newNodes)
-      setWorkflow({ nodes: newNodes, edges })
+      setNodes([...nodes, newNode])
 
       // Initialize parameter values with defaults to prevent "missing required parameter" errors
-      if (actionMetadata?.parameters) {
+      if (!actionMetadata?.parameters) {
+        commit(addNodesCommand([newNode]))
+      } else {
         const initialParameterValues: Record<string, any> = {}
         let hasRequiredParameters = false
 
@@ -240,9 +355,12 @@ export function WorkflowCanvas({
           }
         })
 
+        // With a history the values travel with the node, so undo removes both
+        commit(addNodesCommand([newNode], [], { [nodeId]: initialParameterValues }))
+
         // Notify parent component about the new parameter values
         // We need to pass this up to the WorkflowBuilder
-        if (window.dispatchEvent) {
+        if (!onCommand && window.dispatchEvent) {
           window.dispatchEvent(new CustomEvent('actionAdded', {
             detail: { nodeId, parameterValues: initialParameterValues }
           }))
@@ -257,11 +375,15 @@ export function WorkflowCanvas({
         }
       }
     },
-    [nodes, edges, setNodes, setWorkflow, onActionNodeSelect],
+    [nodes, setNodes, commit, onCommand, onActionNodeSelect, handleConditionChange, handleLoopChange],
   )
 
   return (
-    <div className="relative flex-1 bg-background">
+    <div
+      className="relative flex-1 bg-background"
+      onMouseMove={handleMouseMove}
+      onMouseLeave={() => onCursorMove?.(null)}
+    >
       <div className="pointer-events-none absolute inset-0 gradient-mesh" />
 
       {/* Compatibility Errors Panel */}
@@ -530,6 +652,11 @@ export function WorkflowCanvas({
         onNodesChange={onNodesChange}
         onEdgesChange={onEdgesChange}
         onConnect={onConnect}
+        onInit={(instance) => { flowInstance.current = instance }}
+        onDelete={onDelete}
+        onNodeDragStart={onNodeDragStart}
+        onNodeDragStop={onNodeDragStop}
+        onSelectionChange={handleSelectionChange}
         onDrop={onDrop}
         onDragOver={onDragOver}
         nodeTypes={nodeTypes}
@@ -544,6 +671,25 @@ export function WorkflowCanvas({
         }}
       >
         <Background className="opacity-30" color="oklch(0.2 0 0)" gap={40} size={1} />
+        {remoteCursors.length > 0 && (
+          <ViewportPortal>
+            {remoteCursors.map(peer => (
+              <div
+                key={peer.clientId}
+                className="pointer-events-none absolute"
+                style={{ transform: `translate(${cursors![peer.clientId].x}px, ${cursors![peer.clientId].y}px)` }}
+              >
+                <MousePointer2 className="h-4 w-4" style={{ color: peer.color, fill: peer.color }} />
+                <span
+                  className="ml-3 rounded px-1.5 py-0.5 text-[10px] font-medium text-white whitespace-nowrap"
+                  style={{ backgroundColor: peer.color }}
+                >
+                  {peer.name}
+                </span>
+              </div>
+            ))}
+          </ViewportPortal>
+        )}
         <Controls className="rounded-lg border border-border bg-card/95 backdrop-blur-sm shadow-xl [&>button]:border-border [&>button]:bg-background [&>button]:text-foreground [&>button]:transition-all [&>button:hover]:bg-primary/10 [&>button:hover]:border-primary [&>button:hover]:text-primary" />
         <MiniMap
           className="rounded-lg border border-border bg-card/95 backdrop-blur-sm shadow-xl"
@@ -0,0 +1,228 @@
+import { useEffect, useRef, useState, useCallback, useMemo } from 'react'
+import { WorkflowCrdtDocument, type CrdtOperation } from '@/lib/workflow-crdt'
+import type { EditorState } from '@/lib/workflow-history'
+
+export interface CollaborationCursor {
+  x: number  // Flow coordinates, independent of each peer's zoom and pan
+  y: number
+}
+
+export interface CollaborationPeer {
+  clientId: string
+  name: string
+  color: string
+}
+
+interface CollaborationMessage {
+  type: string
+  payload: any
+}
+
+interface UseWorkflowCollaborationOptions {
+  workflowId: string | null  // Collaboration is off until the workflow is saved
+  state: EditorState
+  onRemoteState: (state: EditorState) => void
+  onLockDenied?: (nodeId: string, holder: CollaborationPeer | undefined) => void
+  userName?: string
+  url?: string
+}
+
+const PRESENCE_INTERVAL = 50
+
+function createClientId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`
+}
+
+export function useWorkflowCollaboration({
+  workflowId,
+  state,
+  onRemoteState,
+  onLockDenied,
+  userName,
+  url = 'ws://localhost:8080'
+}: UseWorkflowCollaborationOptions) {
+  const ws = useRef<WebSocket | null>(null)
+  const clientId = useRef(createClientId())
+  const documentRef = useRef<WorkflowCrdtDocument | null>(null)
+  const stateRef = useRef(state)
+  const callbacksRef = useRef({ onRemoteState, onLockDenied })
+  const lastPresence = useRef(0)
+  const [isConnected, setIsConnected] = useState(false)
+  const [peers, setPeers] = useState<CollaborationPeer[]>([])
+  const [locks, setLocks] = useState<Record<string, string>>({})
+  const [cursors, setCursors] = useState<Record<string, CollaborationCursor>>({})
+  const peersRef = useRef(peers)
+
+  stateRef.current = state
+  peersRef.current = peers
+  callbacksRef.current = { onRemoteState, onLockDenied }
+
+  const send = useCallback((message: CollaborationMessage) => {
+    if (ws.current?.readyState === WebSocket.OPEN) {
+      ws.current.send(JSON.stringify(message))
+    }
+  }, [])
+
+  const applyRemote = useCallback((operations: CrdtOperation[]) => {
+    const document = documentRef.current
+    if (document && document.merge(operations)) {
+      callbacksRef.current.onRemoteState(document.getState())
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!workflowId) return
+
+    const socket = new WebSocket(url)
+    ws.current = socket
+    documentRef.current = null
+
+    socket.onopen = () => {
+      setIsConnected(true)
+      socket.send(JSON.stringify({
+        type: 'collab_join',
+        payload: { workflowId, clientId: clientId.current, name: userName }
+      }))
+    }
+
+    socket.onmessage = (event) => {
+      let message: CollaborationMessage
+      try {
+        message = JSON.parse(event.data)
+      } catch (error) {
+        console.error('Failed to parse collaboration message:', error)
+        return
+      }
+      if (message.payload?.workflowId !== undefined && message.payload.workflowId !== workflowId) return
+
+      switch (message.type) {
+        case 'collab_snapshot': {
+          const document = new WorkflowCrdtDocument(clientId.current)
+          documentRef.current = document
+          setPeers(message.payload.peers || [])
+          setLocks(message.payload.locks || {})
+          setCursors(Object.fromEntries(
+            (message.payload.peers || [])
+              .filter((peer: any) => peer.cursor)
+              .map((peer: any) => [peer.clientId, peer.cursor])
+          ))
+
+          // An empty room is seeded with our copy; otherwise the room's document wins
+          if ((message.payload.operations || []).length === 0) {
+            const operations = document.update(stateRef.current)
+            socket.send(JSON.stringify({ type: 'collab_operations', payload: { operations } }))
+          } else {
+            document.merge(message.payload.operations)
+            callbacksRef.current.onRemoteState(document.getState())
+          }
+          break
+        }
+
+        case 'collab_operations':
+          applyRemote(message.payload.operations || [])
+          break
+
+        case 'collab_peers':
+          setPeers(message.payload.peers || [])
+          break
+
+        case 'collab_presence':
+          setCursors(prev => {
+            const next = { ...prev }
+            if (message.payload.cursor) {
+              next[message.payload.clientId] = message.payload.cursor
+            } else {
+              delete next[message.payload.clientId]
+            }
+            return next
+          })
+          break
+
+        case 'collab_locks':
+          setLocks(message.payload.locks || {})
+          break
+
+        case 'collab_lock_denied':
+          callbacksRef.current.onLockDenied?.(
+            message.payload.nodeId,
+            peersRef.current.find(peer => peer.clientId === message.payload.holder)
+          )
+          break
+
+        case 'collab_error':
+          console.warn('Collaboration error:', message.payload.message)
+          break
+      }
+    }
+
+    socket.onclose = () => {
+      setIsConnected(false)
+      setPeers([])
+      setLocks({})
+      setCursors({})
+    }
+
+    socket.onerror = (error) => {
+      console.error('Collaboration WebSocket error:', error)
+    }
+
+    return () => {
+      socket.close()
+      ws.current = null
+      documentRef.current = null
+    }
+  }, [workflowId, url, userName, applyRemote])
+
+  // Broadcast local edits. Remote states round-trip here too but produce no operations.
+  useEffect(() => {
+    const document = documentRef.current
+    if (!document) return
+
+    const operations = document.update(state)
+    if (operations.length > 0) {
+      send({ type: 'collab_operations', payload: { operations } })
+    }
+  }, [state.workflow, state.parameterValues, send])
+
+  const updateCursor = useCallback((cursor: CollaborationCursor | null) => {
+    const now = Date.now()
+    if (cursor && now - lastPresence.current < PRESENCE_INTERVAL) return
+    lastPresence.current = now
+    send({ type: 'collab_presence', payload: { cursor } })
+  }, [send])
+
+  const lockNode = useCallback((nodeId: string) => {
+    send({ type: 'collab_lock', payload: { nodeId } })
+  }, [send])
+
+  const unlockNode = useCallback((nodeId: string) => {
+    send({ type: 'collab_unlock', payload: { nodeId } })
+  }, [send])
+
+  const otherPeers = useMemo(
+    () => peers.filter(peer => peer.clientId !== clientId.current),
+    [peers]
+  )
+
+  // Nodes locked by someone else, with the peer holding each lock
+  const lockedNodes = useMemo(() => {
+    const result: Record<string, CollaborationPeer> = {}
+    Object.entries(locks).forEach(([nodeId, holder]) => {
+      const peer = otherPeers.find(p => p.clientId === holder)
+      if (peer) result[nodeId] = peer
+    })
+    return result
+  }, [locks, otherPeers])
+
+  return {
+    isConnected,
+    peers: otherPeers,
+    cursors,
+    lockedNodes,
+    updateCursor,
+    lockNode,
+    unlockNode
+  }
+}
@@ -0,0 +1,290 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import {
+  AgentBacktestError,
+  AgentBacktestService,
+  BacktestSimulator,
+  MAX_BACKTEST_EXECUTIONS,
+  MAX_QUEUED_BACKTESTS,
+  getScheduledRunTimes
+} from '../agent-backtest'
+import { AgentJobStore, InMemoryAgentJobStoreAdapter } from '../agent-job-store'
+import { InMemoryWorkflowStorageAdapter, WorkflowStorageService } from '../workflow-storage'
+import { createOracleAdapter } from '../oracle-adapter'
+import { Agent, AgentStatus, EventTrigger, ParsedWorkflow, Schedule, SimulationResult } from '../types'
+
+const RECIPIENT = '0xf8d6e0586b0a20c7'
+const FROM = new Date('2024-03-01T00:00:00.000Z')
+const TO = new Date('2024-03-01T12:00:00.000Z')
+
+const createWorkflow = (amount = '10.0'): ParsedWorkflow => ({
+  actions: [{
+    id: 'transfer-1',
+    actionType: 'transfer-tokens',
+    name: 'Transfer',
+    parameters: [
+      { name: 'recipient', type: 'Address', value: RECIPIENT, required: true },
+      { name: 'amount', type: 'UFix64', value: amount, required: true }
+    ],
+    nextActions: [],
+    position: { x: 0, y: 0 }
+  }],
+  executionOrder: ['transfer-1'],
+  rootActions: ['transfer-1'],
+  metadata: { totalActions: 1, totalConnections: 0, createdAt: '2024-01-01T00:00:00.000Z' }
+})
+
+const createAgent = (workflowId: string, overrides: Partial<Agent> = {}): Agent => ({
+  id: 'agent-1',
+  name: 'Test Agent',
+  description: 'Transfers tokens',
+  workflowId,
+  schedule: { type: 'recurring', interval: 3 * 3600 },
+  triggers: [],
+  status: AgentStatus.ACTIVE,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  owner: 'test-user',
+  ...overrides
+})
+
+const priceTrigger = (trigger: Partial<EventTrigger> = {}): EventTrigger => ({
+  type: 'price',
+  condition: { operator: 'lt', value: 1, hysteresis: 0.1 },
+  parameters: {},
+  ...trigger
+})
+
+const successfulRun = (gasUsed = 100): SimulationResult => ({
+  success: true,
+  gasUsed,
+  balanceChanges: [{ address: RECIPIENT, token: 'FLOW', before: '50.0', after: '60.0', amount: 10 }],
+  events: [{ type: 'flow.AccountCreated', data: {} } as any],
+  errors: [],
+  warnings: [],
+  executionTime: 5
+})
+
+const at = (time: string) => `2024-03-01T${time}:00.000Z`
+
+describe('AgentBacktestService', () => {
+  let storage: WorkflowStorageService
+  let store: AgentJobStore
+  let simulator: BacktestSimulator & { simulateWorkflow: ReturnType<typeof vi.fn>; stopEmulator: ReturnType<typeof vi.fn> }
+  let service: AgentBacktestService
+  let workflowId: string
+
+  beforeEach(async () => {
+    storage = new WorkflowStorageService(new InMemoryWorkflowStorageAdapter())
+    store = new AgentJobStore(new InMemoryAgentJobStoreAdapter())
+    simulator = {
+      simulateWorkflow: vi.fn(async () => successfulRun()),
+      stopEmulator: vi.fn(async () => {})
+    }
+    service = new AgentBacktestService({ storage, store, createSimulator: () => simulator, actionMetadata: [] })
+    workflowId = (await storage.save(createWorkflow())).workflowId
+  })
+
+  describe('getScheduledRunTimes', () => {
+    it('should run intervals from one interval after the window starts', () => {
+      const runs = getScheduledRunTimes({ type: 'recurring', interval: 3 * 3600 }, FROM, TO, 10)
+
+      expect(runs.map(run => run.toISOString())).toEqual([at('03:00'), at('06:00'), at('09:00'), at('12:00')])
+    })
+
+    it('should follow cron expressions in the schedule\'s time zone', () => {
+      const schedule: Schedule = { type: 'recurring', cronExpression: '0 9 * * *', timezone: 'America/New_York' }
+
+      const runs = getScheduledRunTimes(schedule, FROM, new Date('2024-03-03T00:00:00.000Z'), 10)
+
+      expect(runs.map(run => run.toISOString())).toEqual(['2024-03-01T14:00:00.000Z', '2024-03-02T14:00:00.000Z'])
+    })
+
+    it('should include one-time runs only inside the window', () => {
+      expect(getScheduledRunTimes({ type: 'one-time', startTime: new Date(at('05:00')) }, FROM, TO, 10)).toHaveLength(1)
+      expect(getScheduledRunTimes({ type: 'one-time', startTime: new Date('2024-03-02T05:00:00.000Z') }, FROM, TO, 10)).toEqual([])
+    })
+  })
+
+  it('should simulate each scheduled run and accumulate gas and balances', async () => {
+    const report = await service.backtest(createAgent(workflowId), { from: FROM, to: TO })
+
+    expect(report.executions.map(execution => execution.at)).toEqual([at('03:00'), at('06:00'), at('09:00'), at('12:00')])
+    expect(report.executions.map(execution => execution.cumulativeGas)).toEqual([100, 200, 300, 400])
+    expect(report.totalGas).toBe(400)
+    expect(report.balanceTrajectory.map(point => point.balance)).toEqual([60, 70, 80, 90])
+    expect(report.workflowVersion).toBe(1)
+    expect(simulator.simulateWorkflow).toHaveBeenCalledWith(expect.anything(), [], { dryRun: true })
+    expect(simulator.stopEmulator).toHaveBeenCalledTimes(1)
+  })
+
+  it('should fire triggers on supplied readings with the live hysteresis rules', async () => {
+    const agent = createAgent(workflowId, {
+      schedule: { type: 'event-driven' },
+      triggers: [priceTrigger()]
+    })
+
+    const report = await service.backtest(agent, {
+      from: FROM,
+      to: TO,
+      readings: {
+        0: [
+          { value: 1.2, timestamp: at('01:00') },
+          { value: 0.9, timestamp: at('02:00') },
+          { value: 1.05, timestamp: at('03:00') }, // Not past the hysteresis margin
+          { value: 0.95, timestamp: at('04:00') },
+          { value: 1.2, timestamp: at('05:00') },
+          { value: 0.8, timestamp: at('06:00') }
+        ]
+      }
+    })
+
+    expect(report.executions.map(execution => execution.at)).toEqual([at('02:00'), at('06:00')])
+    expect(report.executions[0]).toMatchObject({ source: 'trigger', trigger: { index: 0, type: 'price', value: 0.9 } })
+  })
+
+  it('should spread untimed fixture readings across the window', async () => {
+    const agent = createAgent(workflowId, {
+      schedule: { type: 'event-driven' },
+      triggers: [priceTrigger({ oracle: { type: 'fixture', readings: [1.5, 0.5, 1.5] } })]
+    })
+
+    const report = await service.backtest(agent, { from: FROM, to: TO })
+
+    expect(report.executions.map(execution => execution.at)).toEqual([at('06:00')])
+  })
+
+  it('should replay readings the scheduler recorded from the trigger\'s oracle', async () => {
+    const oracle = { type: 'http-json' as const, url: 'https://prices.example.com', valuePath: 'flow.usd' }
+    const source = createOracleAdapter(oracle).id
+    const hoursAgo = (hours: number) => new Date(Date.now() - hours * 3600000)
+    await store.recordOracleReading(source, { value: 1.2, timestamp: hoursAgo(3).toISOString(), source })
+    await store.recordOracleReading(source, { value: 0.7, timestamp: hoursAgo(2).toISOString(), source })
+    const agent = createAgent(workflowId, { schedule: { type: 'event-driven' }, triggers: [priceTrigger({ oracle })] })
+
+    const report = await service.backtest(agent, { from: hoursAgo(4), to: new Date() })
+
+    expect(report.executions.map(execution => execution.trigger?.value)).toEqual([0.7])
+    expect(report.warnings).toEqual([])
+  })
+
+  it('should stop at the first run the policy would block', async () => {
+    const agent = createAgent(workflowId, { policy: { maxAmountPerDay: 25 } })
+
+    const report = await service.backtest(agent, { from: FROM, to: TO })
+
+    expect(report.executions.map(execution => execution.status)).toEqual(['simulated', 'simulated', 'blocked'])
+    expect(report.pausedAt).toBe(at('09:00'))
+    expect(report.pauseReason).toContain('25')
+    expect(simulator.simulateWorkflow).toHaveBeenCalledTimes(2)
+  })
+
+  it('should report failed runs without counting their balances', async () => {
+    simulator.simulateWorkflow.mockResolvedValueOnce({
+      ...successfulRun(40),
+      success: false,
+      errors: [{ type: 'execution', message: 'Insufficient balance' }]
+    })
+
+    const report = await service.backtest(createAgent(workflowId), { from: FROM, to: TO })
+
+    expect(report.executions[0]).toMatchObject({ status: 'failed', gasUsed: 40, errors: ['Insufficient balance'] })
+    expect(report.balanceTrajectory.map(point => point.executionIndex)).toEqual([1, 2, 3])
+    expect(report.totalGas).toBe(340)
+  })
+
+  it('should cap the number of simulated runs', async () => {
+    const report = await service.backtest(createAgent(workflowId), { from: FROM, to: TO, maxExecutions: 2 })
+
+    expect(report.executions).toHaveLength(2)
+    expect(report.truncated).toBe(true)
+  })
+
+  it('should never simulate more than the hard cap', async () => {
+    const agent = createAgent(workflowId, { schedule: { type: 'recurring', interval: 60 } })
+
+    const report = await service.backtest(agent, { from: FROM, to: TO, maxExecutions: 5000 })
+
+    expect(report.executions).toHaveLength(MAX_BACKTEST_EXECUTIONS)
+    expect(report.truncated).toBe(true)
+  })
+
+  it('should run one simulation at a time and turn away backtests past the queue limit', async () => {
+    let active = 0
+    let maxActive = 0
+    simulator.simulateWorkflow.mockImplementation(async () => {
+      active++
+      maxActive = Math.max(maxActive, active)
+      await new Promise(resolve => setTimeout(resolve, 1))
+      active--
+      return successfulRun()
+    })
+    simulator.stopEmulator.mockImplementation(async () => {
+      expect(active).toBe(0)
+    })
+
+    const runs = Array.from({ length: MAX_QUEUED_BACKTESTS }, () =>
+      service.backtest(createAgent(workflowId), { from: FROM, to: TO })
+    )
+    await expect(service.backtest(createAgent(workflowId), { from: FROM, to: TO }))
+      .rejects.toMatchObject({ code: 'BUSY' })
+
+    const reports = await Promise.all(runs)
+    expect(reports.every(report => report.executions.length === 4)).toBe(true)
+    expect(maxActive).toBe(1)
+    expect(simulator.stopEmulator).toHaveBeenCalledTimes(MAX_QUEUED_BACKTESTS)
+
+    await expect(service.backtest(createAgent(workflowId), { from: FROM, to: TO })).resolves.toBeDefined()
+  })
+
+  it('should warn about triggers it cannot replay', async () => {
+    const agent = createAgent(workflowId, {
+      triggers: [
+        { type: 'flow-event', parameters: {}, flowEvent: { eventType: 'A.0x1.Token.Deposited' } },
+        priceTrigger()
+      ]
+    })
+
+    const report = await service.backtest(agent, { from: FROM, to: TO })
+
+    expect(report.warnings).toEqual([
+      'Trigger 0 (flow-event) is not replayed in backtests',
+      'Trigger 1 (price) has no readings in the window'
+    ])
+    expect(report.executions).toHaveLength(4)
+  })
+
+  it('should not leak why a fixture file could not be read', async () => {
+    vi.stubEnv('ORACLE_FIXTURES_DIR', '/nonexistent/fixtures')
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const agent = createAgent(workflowId, {
+      triggers: [
+        priceTrigger({ oracle: { type: 'fixture', file: 'prices.json' } }),
+        priceTrigger({ oracle: { type: 'fixture', file: '/etc/passwd' } })
+      ]
+    })
+
+    try {
+      const report = await service.backtest(agent, { from: FROM, to: TO })
+
+      expect(report.warnings).toEqual([
+        'Trigger 0 (price) readings could not be loaded: Fixture prices.json could not be loaded',
+        'Trigger 1 (price) readings could not be loaded: Fixture /etc/passwd is outside the fixtures directory'
+      ])
+    } finally {
+      vi.unstubAllEnvs()
+      consoleError.mockRestore()
+    }
+  })
+
+  it('should reject bad windows, unknown workflows and unavailable emulators', async () => {
+    await expect(service.backtest(createAgent(workflowId), { from: TO, to: FROM }))
+      .rejects.toMatchObject({ code: 'INVALID_WINDOW' })
+    await expect(service.backtest(createAgent('wf-missing'), { from: FROM, to: TO }))
+      .rejects.toMatchObject({ code: 'NOT_FOUND' })
+
+    simulator.simulateWorkflow.mockRejectedValueOnce(new Error('Failed to start Flow emulator'))
+    await expect(service.backtest(createAgent(workflowId), { from: FROM, to: TO }))
+      .rejects.toThrow(AgentBacktestError)
+    expect(simulator.stopEmulator).toHaveBeenCalled()
+  })
+})
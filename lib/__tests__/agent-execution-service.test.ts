@@ -3,6 +3,7 @@ import {
   AgentExecutionService, 
   ExecutionRecord, 
   ActiveExecution,
+  ExecutionInProgressError,
   ExecutionMetrics
 } from '../agent-execution-service'
 import { 
@@ -10,14 +11,38 @@ import {
   AgentStatus, 
   RetryPolicy 
 } from '../types'
+import { AgentExecutionError, type AgentWorkflowRunner } from '../agent-workflow-runner'
+import { AgentJobStore, createAgentJobStore, InMemoryAgentJobStoreAdapter } from '../agent-job-store'
+import type { AgentNotificationService, NotificationDelivery } from '../agent-notification-service'
+import { AgentPolicyViolationError } from '../agent-policy'
+import { ApprovalRequest, ApprovalRequiredError } from '../approval-service'
+
+// Stands in for the Flow runner; agent-workflow-runner.test.ts covers the real one
+const createRunner = (): AgentWorkflowRunner => ({
+  run: vi.fn(async () => {
+    await new Promise(resolve => setTimeout(resolve, 5))
+    return {
+      success: true,
+      transactionId: 'a1b2c3d4e5f6a1b2c3d4e5f6a1b2c3d4e5f6a1b2c3d4e5f6a1b2c3d4e5f6a1b2',
+      status: 'SEALED',
+      executionTime: 5,
+      gasUsed: 42,
+      events: [{ type: 'A.0ae53cb6e3f42a79.FlowToken.TokensWithdrawn', data: { amount: '1.0' } }]
+    }
+  })
+})
 
 describe('AgentExecutionService', () => {
   let service: AgentExecutionService
   let mockConsoleLog: any
   let mockConsoleError: any
+  let runner: AgentWorkflowRunner
+  let store: AgentJobStore
 
   beforeEach(() => {
-    service = new AgentExecutionService()
+    runner = createRunner()
+    store = createAgentJobStore(new InMemoryAgentJobStoreAdapter())
+    service = new AgentExecutionService({ runner, store })
     mockConsoleLog = vi.spyOn(console, 'log').mockImplementation(() => {})
     mockConsoleError = vi.spyOn(console, 'error').mockImplementation(() => {})
   })
@@ -106,6 +131,31 @@ describe('AgentExecutionService', () => {
       
       const history = service.getExecutionHistory(agent.id)
       expect(history[0].trigger).toEqual(trigger)
+      expect(runner.run).toHaveBeenCalledWith(agent, { executionId: history[0].id, trigger })
+    })
+
+    it('should record the transaction ID and events from the runner', async () => {
+      const agent = createTestAgent()
+
+      await service.executeAgent(agent)
+
+      const [record] = service.getExecutionHistory(agent.id)
+      expect(record.result?.transactionId).toMatch(/^[0-9a-f]{64}$/)
+      expect(record.result?.events).toEqual([
+        { type: 'A.0ae53cb6e3f42a79.FlowToken.TokensWithdrawn', data: { amount: '1.0' } }
+      ])
+    })
+
+    it('should keep the result of a reverted transaction on the failed record', async () => {
+      const agent = createTestAgent()
+      const reverted = { success: false, transactionId: 'f'.repeat(64), status: 'SEALED', error: 'pre-condition failed', events: [] }
+      vi.mocked(runner.run).mockRejectedValueOnce(new AgentExecutionError('Transaction failed', reverted))
+
+      await service.executeAgent(agent)
+
+      const [record] = service.getExecutionHistory(agent.id)
+      expect(record.status).toBe('failed')
+      expect(record.result).toEqual(reverted)
     })
   })
 
@@ -337,6 +387,56 @@ describe('AgentExecutionService', () => {
       expect(metrics.failedExecutions).toBe(0)
       expect(metrics.successRate).toBe(100)
     })
+
+    it('should page and filter the persisted history', async () => {
+      const agent = createTestAgent()
+      for (let i = 0; i < 5; i++) {
+        await (service as any).recordExecution(agent.id, {
+          id: `exec_${i}`,
+          agentId: agent.id,
+          startTime: `2024-01-0${i + 1}T10:00:00.000Z`,
+          endTime: `2024-01-0${i + 1}T10:00:01.000Z`,
+          duration: 1000,
+          status: i % 2 === 0 ? 'success' : 'failed',
+          result: { success: i % 2 === 0, cadenceCode: 'transaction() {}' },
+          retryCount: 0,
+          error: i % 2 === 0 ? null : { message: 'Reverted', type: 'Error' }
+        })
+      }
+
+      const page = await service.queryExecutions(agent.id, { offset: 1, limit: 2 })
+      expect(page).toMatchObject({ total: 5, offset: 1, limit: 2 })
+      expect(page.executions.map(execution => execution.id)).toEqual(['exec_3', 'exec_2'])
+      expect(page.executions[0]).not.toHaveProperty('result')
+
+      const failed = await service.queryExecutions(agent.id, { status: 'failed', from: new Date('2024-01-03T00:00:00.000Z') })
+      expect(failed.executions.map(execution => ({ id: execution.id, error: execution.error }))).toEqual([
+        { id: 'exec_3', error: 'Reverted' }
+      ])
+
+      // Another instance sharing the store sees the same history
+      const restarted = new AgentExecutionService({ runner, store })
+      expect((await restarted.queryExecutions(agent.id)).total).toBe(5)
+      restarted.destroy()
+    })
+
+    it('should return a run with its retry chain and queued retry', async () => {
+      const agent = createTestAgent()
+      vi.mocked(runner.run)
+        .mockRejectedValueOnce(new Error('Access node unavailable'))
+        .mockRejectedValueOnce(new Error('Access node unavailable'))
+
+      await service.executeAgent(agent, undefined, { idempotencyKey: 'schedule:test-agent-metrics:1' })
+      await service.executeAgent(agent, undefined, { idempotencyKey: 'schedule:test-agent-metrics:1:retry-1', retryCount: 1 })
+      const [latest, first] = (await service.queryExecutions(agent.id)).executions
+
+      const detail = await service.getExecutionDetail(agent.id, first.id)
+
+      expect(detail).toMatchObject({ id: first.id, status: 'failed', error: { message: 'Access node unavailable' } })
+      expect(detail!.retryChain.map(attempt => attempt.id)).toEqual([first.id, latest.id])
+      expect(detail!.nextRetry).toMatchObject({ retryCount: 2 })
+      expect(await service.getExecutionDetail(agent.id, 'exec_missing')).toBeNull()
+    })
   })
 
   describe('Active Execution Tracking', () => {
@@ -403,19 +503,37 @@ describe('AgentExecutionService', () => {
       owner: 'test-user'
     })
 
+    const delivery: NotificationDelivery = {
+      id: 'msg-1',
+      channel: 'email',
+      target: 'ops@example.com',
+      status: 'delivered',
+      attempts: [{ at: '2024-01-01T00:00:00.000Z', success: true, statusCode: 250 }]
+    }
+
+    // agent-notification-service.test.ts covers delivery over real channels
+    const createNotifiedService = () => {
+      const notifier = { notify: vi.fn().mockResolvedValue([delivery]) }
+      service.destroy()
+      service = new AgentExecutionService({ runner, store, notifier: notifier as unknown as AgentNotificationService })
+      return notifier
+    }
+
     it('should send success notification', async () => {
+      const notifier = createNotifiedService()
       const agent = createTestAgent()
       
       await service.executeAgent(agent)
       
-      // Check that success notification was logged
-      expect(mockConsoleLog).toHaveBeenCalledWith(
-        expect.stringContaining('📧 Email notification sent'),
-        expect.stringContaining('executed successfully')
-      )
+      expect(notifier.notify).toHaveBeenCalledWith(agent, 'success', expect.objectContaining({
+        transactionId: expect.any(String),
+        gasUsed: 42
+      }))
+      expect(service.getExecutionHistory(agent.id)[0].notifications).toEqual([delivery])
     })
 
     it('should send failure notification after max retries', async () => {
+      const notifier = createNotifiedService()
       const agent = createTestAgent()
       
       // Mock executeWorkflow to always fail
@@ -431,11 +549,251 @@ describe('AgentExecutionService', () => {
       
       await service.executeAgent(agent)
       
-      // Check that failure notification was logged
-      expect(mockConsoleLog).toHaveBeenCalledWith(
-        expect.stringContaining('📧 Email notification sent'),
-        expect.stringContaining('execution failed')
-      )
+      expect(notifier.notify).toHaveBeenCalledWith(agent, 'failure', expect.objectContaining({
+        error: 'Test failure',
+        retryCount: 0
+      }))
+      expect(service.getExecutionHistory(agent.id)[0]).toMatchObject({ status: 'failed', notifications: [delivery] })
+    })
+
+    it('should not fail the execution when notifying fails', async () => {
+      const notifier = createNotifiedService()
+      notifier.notify.mockRejectedValue(new Error('store unavailable'))
+      
+      const result = await service.executeAgent(createTestAgent())
+      
+      expect(result.success).toBe(true)
+      expect(service.getExecutionHistory('test-agent-notifications')[0].notifications).toEqual([])
+    })
+  })
+
+  describe('Durable Retries and Idempotency', () => {
+    const createTestAgent = (): Agent => ({
+      id: 'test-agent-durable',
+      name: 'Test Agent',
+      description: 'Test agent for durable retries',
+      workflowId: 'test-workflow',
+      schedule: { type: 'one-time' },
+      triggers: [],
+      status: AgentStatus.ACTIVE,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+      owner: 'test-user'
+    })
+
+    it('should not run an idempotency key twice once it succeeded', async () => {
+      const agent = createTestAgent()
+
+      const first = await service.executeAgent(agent, undefined, { idempotencyKey: 'schedule:test-agent-durable:1' })
+      const second = await service.executeAgent(agent, undefined, { idempotencyKey: 'schedule:test-agent-durable:1' })
+
+      expect(runner.run).toHaveBeenCalledTimes(1)
+      expect(second).toEqual(first)
+      expect((await store.getExecution('schedule:test-agent-durable:1'))?.status).toBe('success')
+    })
+
+    it('should fail rather than skip a key another execution still holds', async () => {
+      const agent = createTestAgent()
+      await store.claimExecution('schedule:test-agent-durable:held', { executionId: 'exec-held', agentId: agent.id })
+
+      await expect(service.executeAgent(agent, undefined, { idempotencyKey: 'schedule:test-agent-durable:held' }))
+        .rejects.toBeInstanceOf(ExecutionInProgressError)
+      expect(runner.run).not.toHaveBeenCalled()
+    })
+
+    it('should run a key again once the execution that crashed on it lost its claim', async () => {
+      const agent = createTestAgent()
+      const mockConsoleWarn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+      // A worker that crashed mid-run left a claim that has since expired
+      await store.claimExecution('schedule:test-agent-durable:crashed', { executionId: 'exec-crashed', agentId: agent.id }, -1)
+
+      const result = await service.executeAgent(agent, undefined, { idempotencyKey: 'schedule:test-agent-durable:crashed' })
+
+      expect(runner.run).toHaveBeenCalledTimes(1)
+      expect(result.success).toBe(true)
+      expect(await store.getExecution('schedule:test-agent-durable:crashed')).toMatchObject({ status: 'success' })
+      mockConsoleWarn.mockRestore()
+    })
+
+    it('should persist retries so another service instance runs them', async () => {
+      const agent = createTestAgent()
+      vi.mocked(runner.run).mockRejectedValueOnce(new Error('Access node unavailable'))
+
+      await service.executeAgent(agent, undefined, { idempotencyKey: 'schedule:test-agent-durable:2' })
+      service.destroy()
+
+      const [retry] = await store.listJobs({ kinds: ['retry'], statuses: ['pending'] })
+      expect(retry).toMatchObject({
+        agentId: agent.id,
+        idempotencyKey: 'schedule:test-agent-durable:2:retry-1',
+        retryCount: 1
+      })
+
+      // A restarted process picks the retry up once it is due
+      const restarted = new AgentExecutionService({ runner, store })
+      await (restarted as any).processRetryQueues()
+      expect(runner.run).toHaveBeenCalledTimes(1)
+
+      vi.useFakeTimers({ toFake: ['Date'] })
+      vi.setSystemTime(new Date(retry.runAt))
+      try {
+        await (restarted as any).processRetryQueues()
+      } finally {
+        vi.useRealTimers()
+      }
+
+      expect(runner.run).toHaveBeenCalledTimes(2)
+      expect((await store.getJob(retry.id))?.status).toBe('completed')
+      expect(restarted.getExecutionHistory(agent.id)[0]).toMatchObject({ status: 'success', retryCount: 1 })
+      restarted.destroy()
+    })
+
+    it('should retry an event-triggered run with the same parameters', async () => {
+      const agent = createTestAgent()
+      vi.mocked(runner.run).mockRejectedValueOnce(new Error('Access node unavailable'))
+      const trigger = {
+        type: 'flow-event',
+        data: { parameters: { 'transfer-1': { amount: '2.5' } }, approvalId: 'approval-1' }
+      }
+
+      await service.executeAgent(agent, trigger, { idempotencyKey: 'flow-event:test-agent-durable:0:tx:0' })
+      const [retry] = await store.listJobs({ kinds: ['retry'], statuses: ['pending'] })
+
+      vi.useFakeTimers({ toFake: ['Date'] })
+      vi.setSystemTime(new Date(retry.runAt))
+      try {
+        await (service as any).processRetryQueues()
+      } finally {
+        vi.useRealTimers()
+      }
+
+      expect(runner.run).toHaveBeenCalledTimes(2)
+      const [, context] = vi.mocked(runner.run).mock.calls[1]
+      expect(context.trigger).toMatchObject({
+        type: 'retry',
+        data: {
+          parameters: { 'transfer-1': { amount: '2.5' } },
+          approvalId: 'approval-1',
+          originalTrigger: 'flow-event',
+          retryCount: 1
+        }
+      })
+    })
+
+    it('should stop retrying after the retry policy is exhausted', async () => {
+      const agent = createTestAgent()
+      ;(service as any).executeWorkflow = vi.fn().mockRejectedValue(new Error('Test failure'))
+
+      const result = await service.executeAgent(agent, undefined, { idempotencyKey: 'schedule:test-agent-durable:3', retryCount: 3 })
+
+      expect(result.error).toContain('after 3 retries')
+      expect(await store.listJobs({ kinds: ['retry'] })).toEqual([])
+    })
+  })
+
+  describe('Policy Guardrails', () => {
+    const createTestAgent = (): Agent => ({
+      id: 'test-agent-policy',
+      name: 'Test Agent',
+      description: 'Test agent with a spending policy',
+      workflowId: 'test-workflow',
+      schedule: { type: 'recurring', interval: 3600 },
+      triggers: [],
+      status: AgentStatus.ACTIVE,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+      owner: 'test-user',
+      policy: { maxAmountPerRun: 5 }
+    })
+
+    it('should pause the agent and notify instead of retrying a policy violation', async () => {
+      const notifier = { notify: vi.fn().mockResolvedValue([]) }
+      service.destroy()
+      service = new AgentExecutionService({ runner, store, notifier: notifier as unknown as AgentNotificationService })
+      const agent = createTestAgent()
+      await store.saveAgent(agent)
+      vi.mocked(runner.run).mockRejectedValueOnce(new AgentPolicyViolationError([
+        { rule: 'max-amount-per-run', message: 'Run would move 10 FLOW, over the 5 per-run limit' }
+      ]))
+
+      const result = await service.executeAgent(agent, undefined, { idempotencyKey: 'schedule:test-agent-policy:1' })
+
+      expect(result.success).toBe(false)
+      expect(result.error).toContain('Agent paused')
+      expect(await store.listJobs({ kinds: ['retry'] })).toEqual([])
+      expect(await store.getAgent(agent.id)).toMatchObject({
+        status: AgentStatus.PAUSED,
+        statusReason: 'Agent policy violated: Run would move 10 FLOW, over the 5 per-run limit'
+      })
+      expect(notifier.notify).toHaveBeenCalledWith(agent, 'paused', expect.objectContaining({
+        error: expect.stringContaining('per-run limit')
+      }))
+      expect(service.getExecutionHistory(agent.id)[0]).toMatchObject({
+        status: 'failed',
+        error: { type: 'AgentPolicyViolationError' }
+      })
+    })
+
+    it('should not execute agents that are paused in the store', async () => {
+      const agent = createTestAgent()
+      await store.saveAgent({ ...agent, status: AgentStatus.PAUSED })
+
+      const result = await service.executeAgent(agent, undefined, { idempotencyKey: 'schedule:test-agent-policy:2' })
+
+      expect(result).toMatchObject({ success: false, error: 'Agent test-agent-policy is paused' })
+      expect(runner.run).not.toHaveBeenCalled()
+      expect(await store.getExecution('schedule:test-agent-policy:2')).toBeNull()
+    })
+  })
+
+  describe('Approvals', () => {
+    const agent: Agent = {
+      id: 'test-agent-approval',
+      name: 'Test Agent',
+      description: 'Test agent with a risky transfer',
+      workflowId: 'test-workflow',
+      schedule: { type: 'recurring', interval: 3600 },
+      triggers: [],
+      status: AgentStatus.ACTIVE,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+      owner: 'test-user'
+    }
+
+    const approval: ApprovalRequest = {
+      id: 'approval_1',
+      kind: 'agent',
+      agentId: agent.id,
+      workflowId: agent.workflowId,
+      subject: agent.name,
+      sourceKey: 'schedule:test-agent-approval:1',
+      codeHash: 'hash',
+      cadenceCode: 'transaction {}',
+      risk: { value: '100.00000000', authorizers: 1, gasLimit: 9999 },
+      requestedBy: 'test-user',
+      status: 'pending',
+      approvers: ['alice', 'bob'],
+      requiredApprovals: 2,
+      decisions: [],
+      audit: [],
+      createdAt: new Date().toISOString(),
+      expiresAt: new Date(Date.now() + 3600000).toISOString()
+    }
+
+    it('should hold a run that awaits approval without counting it as failed or retrying it', async () => {
+      vi.mocked(runner.run).mockRejectedValueOnce(new ApprovalRequiredError(approval))
+
+      const result = await service.executeAgent(agent, undefined, { idempotencyKey: 'schedule:test-agent-approval:1' })
+
+      expect(result).toMatchObject({ success: false, error: 'Awaiting approval approval_1' })
+      expect(runner.run).toHaveBeenCalledWith(agent, expect.objectContaining({ idempotencyKey: 'schedule:test-agent-approval:1' }))
+      expect(await store.listJobs({ kinds: ['retry'] })).toEqual([])
+      expect(service.getExecutionMetrics(agent.id).failedExecutions).toBe(0)
+
+      const page = await service.queryExecutions(agent.id, { status: 'awaiting-approval' })
+      expect(page.executions).toEqual([
+        expect.objectContaining({ status: 'awaiting-approval', approvalId: 'approval_1' })
+      ])
     })
   })
-})
\ No newline at end of file
+})
@@ -0,0 +1,343 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import {
+  AgentJobStore,
+  AgentJobStoreAdapter,
+  AgentJobStoreError,
+  InMemoryAgentJobStoreAdapter,
+  FileAgentJobStoreAdapter
+} from '../agent-job-store'
+import { Agent, AgentStatus } from '../types'
+
+const createAgent = (id = 'agent-1'): Agent => ({
+  id,
+  name: 'Test Agent',
+  description: 'Test',
+  workflowId: 'wf-1',
+  schedule: { type: 'recurring', interval: 60 },
+  triggers: [],
+  status: AgentStatus.ACTIVE,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  owner: 'test-user'
+})
+
+const minutesFromNow = (minutes: number) => new Date(Date.now() + minutes * 60000)
+
+const runAdapterSuite = (name: string, createAdapter: () => Promise<AgentJobStoreAdapter>) => {
+  describe(name, () => {
+    let store: AgentJobStore
+
+    beforeEach(async () => {
+      store = new AgentJobStore(await createAdapter())
+    })
+
+    it('should deduplicate jobs by idempotency key and revive cancelled ones', async () => {
+      const agent = createAgent()
+      const first = await store.enqueue({ kind: 'schedule', agent, idempotencyKey: 'key-1', runAt: new Date() })
+      const again = await store.enqueue({ kind: 'schedule', agent, idempotencyKey: 'key-1', runAt: minutesFromNow(5) })
+
+      expect(again.id).toBe(first.id)
+      expect(await store.listJobs()).toHaveLength(1)
+
+      await store.cancelAgentJobs(agent.id)
+      const revived = await store.enqueue({ kind: 'schedule', agent, idempotencyKey: 'key-1', runAt: minutesFromNow(5) })
+      expect(revived).toMatchObject({ id: first.id, status: 'pending', deliveries: 0 })
+    })
+
+    it('should lease only due jobs of the requested kinds, oldest first', async () => {
+      const agent = createAgent()
+      await store.enqueue({ kind: 'schedule', agent, idempotencyKey: 'later', runAt: minutesFromNow(5) })
+      await store.enqueue({ kind: 'schedule', agent, idempotencyKey: 'second', runAt: minutesFromNow(-1) })
+      await store.enqueue({ kind: 'schedule', agent, idempotencyKey: 'first', runAt: minutesFromNow(-2) })
+      await store.enqueue({ kind: 'retry', agent, idempotencyKey: 'retry', runAt: minutesFromNow(-3) })
+
+      const leased = await store.lease('worker-a', { kinds: ['schedule'] })
+
+      expect(leased.map(job => job.idempotencyKey)).toEqual(['first', 'second'])
+      expect(leased[0]).toMatchObject({ status: 'leased', leaseOwner: 'worker-a', deliveries: 1 })
+      expect(await store.lease('worker-b', { kinds: ['schedule'] })).toEqual([])
+    })
+
+    it('should redeliver expired leases and fail jobs that keep losing them', async () => {
+      const agent = createAgent()
+      const job = await store.enqueue({ kind: 'trigger', agent, idempotencyKey: 'flaky', runAt: new Date(), maxDeliveries: 2 })
+
+      await store.lease('worker-a', { leaseMs: -1 })
+      const [redelivered] = await store.lease('worker-b', { leaseMs: -1 })
+      expect(redelivered).toMatchObject({ leaseOwner: 'worker-b', deliveries: 2 })
+
+      expect(await store.lease('worker-c')).toEqual([])
+      expect(await store.getJob(job.id)).toMatchObject({ status: 'failed', lastError: 'Lease expired 2 times without completing' })
+    })
+
+    it('should only let the current lease holder finish a job', async () => {
+      const job = await store.enqueue({ kind: 'retry', agent: createAgent(), idempotencyKey: 'retry-1', runAt: new Date() })
+      await store.lease('worker-a', { leaseMs: -1 })
+      await store.lease('worker-b')
+
+      expect(await store.complete(job.id, 'worker-a')).toBe(false)
+      expect(await store.extendLease(job.id, 'worker-a')).toBe(false)
+      expect(await store.complete(job.id, 'worker-b')).toBe(true)
+      expect((await store.getJob(job.id))?.status).toBe('completed')
+    })
+
+    it('should enqueue a follow-up job only once per leased job', async () => {
+      const agent = createAgent()
+      const job = await store.enqueue({ kind: 'schedule', agent, idempotencyKey: 'run-1', runAt: new Date() })
+
+      const next = await store.enqueueFollowUp(job.id, { kind: 'schedule', agent, idempotencyKey: 'run-2', runAt: minutesFromNow(1) })
+      const again = await store.enqueueFollowUp(job.id, { kind: 'schedule', agent, idempotencyKey: 'run-2b', runAt: minutesFromNow(2) })
+
+      expect(again.id).toBe(next.id)
+      expect(await store.listJobs({ statuses: ['pending'] })).toHaveLength(2)
+      await expect(store.enqueueFollowUp('job_missing', { kind: 'schedule', agent, idempotencyKey: 'x', runAt: new Date() }))
+        .rejects.toThrow(AgentJobStoreError)
+    })
+
+    it('should replace an agent\'s pending job of the same kind', async () => {
+      const agent = createAgent()
+      const old = await store.enqueue({ kind: 'schedule', agent, idempotencyKey: 'old', runAt: minutesFromNow(5) })
+      await store.enqueue({ kind: 'retry', agent, idempotencyKey: 'retry', runAt: minutesFromNow(5) })
+
+      await store.replaceAgentJob({ kind: 'schedule', agent, idempotencyKey: 'new', runAt: minutesFromNow(10) })
+
+      expect((await store.getJob(old.id))?.status).toBe('cancelled')
+      expect((await store.listJobs({ statuses: ['pending'] })).map(job => job.idempotencyKey)).toEqual(['retry', 'new'])
+    })
+
+    it('should record executions by idempotency key', async () => {
+      expect(await store.claimExecution('run-1', { executionId: 'exec-1', agentId: 'agent-1' })).toBeNull()
+      await store.finishExecution('run-1', 'failed', null)
+
+      // A failed execution may be attempted again
+      expect(await store.claimExecution('run-1', { executionId: 'exec-2', agentId: 'agent-1' })).toBeNull()
+      await store.finishExecution('run-1', 'success', { success: true, transactionId: 'tx-1' })
+
+      const previous = await store.claimExecution('run-1', { executionId: 'exec-3', agentId: 'agent-1' })
+      expect(previous).toMatchObject({ executionId: 'exec-2', status: 'success', result: { transactionId: 'tx-1' } })
+    })
+
+    it('should not hand out a key whose transaction was already submitted', async () => {
+      await store.claimExecution('run-1', { executionId: 'exec-1', agentId: 'agent-1' })
+      await store.recordSubmission('run-1', 'tx-1')
+      await store.finishExecution('run-1', 'submitted', null)
+
+      const previous = await store.claimExecution('run-1', { executionId: 'exec-2', agentId: 'agent-1' })
+      expect(previous).toMatchObject({ executionId: 'exec-1', status: 'submitted', transactionId: 'tx-1' })
+    })
+
+    it('should claim an unfinished execution again only once its lease expired', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] })
+      vi.setSystemTime(new Date('2024-03-01T00:00:00.000Z'))
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+      try {
+        await store.claimExecution('run-1', { executionId: 'exec-1', agentId: 'agent-1' }, 60000)
+
+        vi.setSystemTime(new Date('2024-03-01T00:00:30.000Z'))
+        expect(await store.extendExecutionLease('run-1', 'exec-1', 60000)).toBe(true)
+        vi.setSystemTime(new Date('2024-03-01T00:01:15.000Z'))
+        expect(await store.claimExecution('run-1', { executionId: 'exec-2', agentId: 'agent-1' }))
+          .toMatchObject({ executionId: 'exec-1', status: 'running' })
+
+        // The process running exec-1 stopped renewing its lease
+        vi.setSystemTime(new Date('2024-03-01T00:01:31.000Z'))
+        expect(await store.claimExecution('run-1', { executionId: 'exec-2', agentId: 'agent-1' })).toBeNull()
+        expect(await store.extendExecutionLease('run-1', 'exec-1')).toBe(false)
+        expect(await store.getExecution('run-1')).toMatchObject({ executionId: 'exec-2', status: 'running' })
+      } finally {
+        warn.mockRestore()
+        vi.useRealTimers()
+      }
+    })
+
+    it('should never claim over an unfinished execution that sent its transaction', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] })
+      vi.setSystemTime(new Date('2024-03-01T00:00:00.000Z'))
+      try {
+        await store.claimExecution('run-1', { executionId: 'exec-1', agentId: 'agent-1' }, 60000)
+        await store.recordSubmission('run-1', 'tx-1')
+
+        vi.setSystemTime(new Date('2024-03-02T00:00:00.000Z'))
+        expect(await store.claimExecution('run-1', { executionId: 'exec-2', agentId: 'agent-1' }))
+          .toMatchObject({ executionId: 'exec-1', transactionId: 'tx-1' })
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+
+    it('should store agents and cancel their jobs on delete', async () => {
+      const agent = createAgent()
+      await store.saveAgent(agent)
+      await store.saveAgent({ ...agent, name: 'Renamed' })
+      await store.enqueue({ kind: 'schedule', agent, idempotencyKey: 'run-1', runAt: minutesFromNow(5) })
+
+      expect(await store.listAgents()).toEqual([{ ...agent, name: 'Renamed' }])
+      expect(await store.deleteAgent(agent.id)).toBe(true)
+      expect(await store.getAgent(agent.id)).toBeNull()
+      expect((await store.listJobs())[0].status).toBe('cancelled')
+    })
+
+    it('should keep a spending ledger per agent and pause agents with a reason', async () => {
+      await store.saveAgent(createAgent())
+      await store.recordSpending([
+        { agentId: 'agent-1', executionId: 'exec-1', token: 'FLOW', amount: 5 },
+        { agentId: 'agent-2', executionId: 'exec-2', token: 'FLOW', amount: 7 }
+      ])
+
+      expect((await store.listSpending('agent-1', minutesFromNow(-1))).map(record => record.amount)).toEqual([5])
+      expect(await store.listSpending('agent-1', minutesFromNow(1))).toEqual([])
+
+      const paused = await store.setAgentStatus('agent-1', AgentStatus.PAUSED, 'Over the daily limit')
+      expect(paused).toMatchObject({ status: AgentStatus.PAUSED, statusReason: 'Over the daily limit' })
+      expect(await store.setAgentStatus('agent-missing', AgentStatus.PAUSED)).toBeNull()
+
+      await store.deleteAgent('agent-1')
+      expect(await store.listSpending('agent-1', minutesFromNow(-1))).toEqual([])
+    })
+
+    it('should keep each agent\'s run history and replace records by ID', async () => {
+      const record = (id: string, startTime: string, status: 'success' | 'failed' = 'success') => ({
+        id,
+        agentId: 'agent-1',
+        startTime,
+        endTime: startTime,
+        duration: 0,
+        status,
+        result: null,
+        retryCount: 0,
+        error: null
+      })
+      await store.saveAgent(createAgent())
+      await store.saveExecutionRecord(record('exec-1', '2024-01-01T00:00:00.000Z'))
+      await store.saveExecutionRecord(record('exec-2', '2024-01-02T00:00:00.000Z', 'failed'))
+      await store.saveExecutionRecord({ ...record('exec-1', '2024-01-01T00:00:00.000Z'), notifications: [] })
+
+      expect((await store.listExecutionRecords('agent-1')).map(entry => entry.id)).toEqual(['exec-2', 'exec-1'])
+      expect(await store.listExecutionRecords('agent-1', { statuses: ['failed'] })).toHaveLength(1)
+      expect(await store.listExecutionRecords('agent-1', { to: new Date('2024-01-01T12:00:00.000Z') })).toHaveLength(1)
+      expect(await store.getExecutionRecord('agent-1', 'exec-1')).toMatchObject({ notifications: [] })
+
+      await store.deleteAgent('agent-1')
+      expect(await store.listExecutionRecords('agent-1')).toEqual([])
+    })
+
+    it('should keep at most one oracle reading a minute for the past week', async () => {
+      const reading = (minutes: number, value: number) =>
+        ({ value, timestamp: minutesFromNow(minutes).toISOString(), source: 'fixture:prices' })
+
+      expect(await store.recordOracleReading('fixture:prices', reading(-8 * 24 * 60, 1))).toBe(false)
+      expect(await store.recordOracleReading('fixture:prices', reading(-10, 2))).toBe(true)
+      expect(await store.recordOracleReading('fixture:prices', reading(-9.5, 3))).toBe(false)
+      expect(await store.recordOracleReading('fixture:prices', reading(-9, 4))).toBe(true)
+
+      const readings = await store.listOracleReadings('fixture:prices', minutesFromNow(-60), new Date())
+      expect(readings.map(entry => entry.value)).toEqual([2, 4])
+      expect(await store.listOracleReadings('fixture:other', minutesFromNow(-60), new Date())).toEqual([])
+    })
+
+    it('should prune finished jobs older than the cutoff', async () => {
+      const agent = createAgent()
+      const done = await store.enqueue({ kind: 'trigger', agent, idempotencyKey: 'done', runAt: new Date() })
+      await store.enqueue({ kind: 'trigger', agent, idempotencyKey: 'waiting', runAt: minutesFromNow(5) })
+      await store.lease('worker-a')
+      await store.complete(done.id, 'worker-a')
+
+      expect(await store.prune(minutesFromNow(1))).toBe(1)
+      expect((await store.listJobs()).map(job => job.idempotencyKey)).toEqual(['waiting'])
+    })
+
+    it('should prune oracle readings past their retention', async () => {
+      const old = new Date(Date.now() - 8 * 24 * 60 * 60 * 1000)
+      vi.useFakeTimers({ toFake: ['Date'] })
+      vi.setSystemTime(old)
+      await store.recordOracleReading('fixture:prices', { value: 1, timestamp: old.toISOString(), source: 'fixture:prices' })
+      vi.useRealTimers()
+
+      await store.prune(new Date())
+
+      expect(await store.listOracleReadings('fixture:prices', new Date(0), new Date())).toEqual([])
+    })
+  })
+}
+
+describe('AgentJobStore', () => {
+  runAdapterSuite('InMemoryAgentJobStoreAdapter', async () => new InMemoryAgentJobStoreAdapter())
+
+  describe('FileAgentJobStoreAdapter', () => {
+    let baseDir: string
+
+    beforeEach(async () => {
+      baseDir = await fs.mkdtemp(path.join(os.tmpdir(), 'agent-jobs-'))
+    })
+
+    afterEach(async () => {
+      await fs.rm(baseDir, { recursive: true, force: true })
+    })
+
+    runAdapterSuite('adapter contract', async () => new FileAgentJobStoreAdapter(baseDir))
+
+    it('should keep jobs across store instances', async () => {
+      const job = await new AgentJobStore(new FileAgentJobStoreAdapter(baseDir))
+        .enqueue({ kind: 'schedule', agent: createAgent(), idempotencyKey: 'run-1', runAt: new Date() })
+
+      const reopened = new AgentJobStore(new FileAgentJobStoreAdapter(baseDir))
+      expect(await reopened.getJob(job.id)).toMatchObject({ idempotencyKey: 'run-1', status: 'pending' })
+    })
+
+    it('should not lose updates from stores sharing a directory', async () => {
+      const stores = [0, 1, 2].map(() => new AgentJobStore(new FileAgentJobStoreAdapter(baseDir)))
+
+      await Promise.all(stores.flatMap((store, i) => [0, 1, 2, 3].map(n =>
+        store.enqueue({ kind: 'trigger', agent: createAgent(), idempotencyKey: `s${i}-${n}`, runAt: new Date() })
+      )))
+
+      expect(await stores[0].listJobs()).toHaveLength(12)
+      await expect(fs.access(path.join(baseDir, 'agent-jobs.json.lock'))).rejects.toThrow()
+    })
+
+    it('should keep run history and oracle readings out of the job state file', async () => {
+      const store = new AgentJobStore(new FileAgentJobStoreAdapter(baseDir))
+      await store.saveAgent(createAgent())
+      await store.saveExecutionRecord({
+        id: 'exec-1',
+        agentId: 'agent-1',
+        startTime: new Date().toISOString(),
+        endTime: new Date().toISOString(),
+        duration: 0,
+        status: 'success',
+        result: null,
+        retryCount: 0,
+        error: null
+      })
+      await store.recordOracleReading('fixture:prices', { value: 1, timestamp: new Date().toISOString(), source: 'fixture:prices' })
+
+      const state = JSON.parse(await fs.readFile(path.join(baseDir, 'agent-jobs.json'), 'utf8'))
+      expect(state).not.toHaveProperty('history')
+      expect(state).not.toHaveProperty('oracleReadings')
+      expect(await store.listExecutionRecords('agent-1')).toHaveLength(1)
+      expect(await store.listOracleReadings('fixture:prices', new Date(0), new Date())).toHaveLength(1)
+    })
+
+    it('should break a lock left behind by a crashed process', async () => {
+      const lockPath = path.join(baseDir, 'agent-jobs.json.lock')
+      await fs.writeFile(lockPath, '')
+      const old = new Date(Date.now() - 60000)
+      await fs.utimes(lockPath, old, old)
+
+      const store = new AgentJobStore(new FileAgentJobStoreAdapter(baseDir))
+      await store.saveAgent(createAgent())
+
+      expect(await store.listAgents()).toHaveLength(1)
+    })
+
+    it('should time out behind a live lock', async () => {
+      await fs.writeFile(path.join(baseDir, 'agent-jobs.json.lock'), '')
+      const store = new AgentJobStore(new FileAgentJobStoreAdapter(baseDir, { lockTimeout: 50 }))
+
+      await expect(store.saveAgent(createAgent())).rejects.toThrow(AgentJobStoreError)
+    })
+  })
+})
@@ -14,13 +14,14 @@ import {
   WorkflowMetadata,
   SecurityLevel
 } from '../types'
+import { createAgentJobStore, InMemoryAgentJobStoreAdapter } from '../agent-job-store'
 
 describe('AgentManagementService', () => {
   let service: AgentManagementService
   let mockConsoleLog: any
 
   beforeEach(() => {
-    service = new AgentManagementService()
+    service = new AgentManagementService({ store: createAgentJobStore(new InMemoryAgentJobStoreAdapter()) })
     mockConsoleLog = vi.spyOn(console, 'log').mockImplementation(() => {})
   })
 
@@ -58,7 +59,7 @@ describe('AgentManagementService', () => {
       expect(agentId).toBeDefined()
       expect(agentId).toMatch(/^agent_\d+_[a-z0-9]+$/)
 
-      const agent = service.getAgentStatus(agentId)
+      const agent = await service.getAgentStatus(agentId)
       expect(agent).toBeDefined()
       expect(agent?.name).toBe('Test Agent')
       expect(agent?.description).toBe('A test agent for unit testing')
@@ -185,7 +186,7 @@ describe('AgentManagementService', () => {
 
       await service.updateAgent(agentId, updates)
 
-      const agent = service.getAgentStatus(agentId)
+      const agent = await service.getAgentStatus(agentId)
       expect(agent?.name).toBe('Updated Agent')
       expect(agent?.description).toBe('Updated description')
       expect(agent?.schedule.type).toBe('recurring')
@@ -194,24 +195,49 @@ describe('AgentManagementService', () => {
 
     it('should pause and resume agent', async () => {
       await service.pauseAgent(agentId)
-      let agent = service.getAgentStatus(agentId)
+      let agent = await service.getAgentStatus(agentId)
       expect(agent?.status).toBe(AgentStatus.PAUSED)
 
       await service.resumeAgent(agentId)
-      agent = service.getAgentStatus(agentId)
+      agent = await service.getAgentStatus(agentId)
       expect(agent?.status).toBe(AgentStatus.ACTIVE)
     })
 
+    it('should report and keep a pause recorded by the executor', async () => {
+      const store = (service as any).store
+      const reason = 'Agent policy violated: over the daily limit'
+      await store.setAgentStatus(agentId, AgentStatus.PAUSED, reason)
+
+      expect(await service.getAgentStatus(agentId)).toMatchObject({ status: AgentStatus.PAUSED, statusReason: reason })
+      expect(await service.getAllAgents()).toEqual([expect.objectContaining({ status: AgentStatus.PAUSED, statusReason: reason })])
+
+      await service.updateAgent(agentId, { name: 'Renamed Agent' })
+      expect(await store.getAgent(agentId)).toMatchObject({ name: 'Renamed Agent', status: AgentStatus.PAUSED, statusReason: reason })
+
+      await service.resumeAgent(agentId)
+      expect(await service.getAgentStatus(agentId)).toMatchObject({ status: AgentStatus.ACTIVE, statusReason: undefined })
+    })
+
+    it('should not overwrite a pause recorded by the executor in health checks', async () => {
+      const store = (service as any).store
+      await store.setAgentStatus(agentId, AgentStatus.PAUSED, 'Agent policy violated: over the daily limit')
+      service.getAgentHealth(agentId)!.errorCount = 6
+
+      await (service as any).performHealthChecks()
+
+      expect(await store.getAgent(agentId)).toMatchObject({ status: AgentStatus.PAUSED })
+    })
+
     it('should stop agent', async () => {
       await service.stopAgent(agentId)
-      const agent = service.getAgentStatus(agentId)
+      const agent = await service.getAgentStatus(agentId)
       expect(agent?.status).toBe(AgentStatus.STOPPED)
     })
 
     it('should delete agent', async () => {
       await service.deleteAgent(agentId)
       
-      const agent = service.getAgentStatus(agentId)
+      const agent = await service.getAgentStatus(agentId)
       expect(agent).toBeNull()
       
       const health = service.getAgentHealth(agentId)
@@ -270,24 +296,24 @@ describe('AgentManagementService', () => {
       }))
     })
 
-    it('should get all agents', () => {
-      const allAgents = service.getAllAgents()
+    it('should get all agents', async () => {
+      const allAgents = await service.getAllAgents()
       expect(allAgents).toHaveLength(3)
       expect(allAgents.map(a => a.name)).toEqual(['Agent 1', 'Agent 2', 'Agent 3'])
     })
 
-    it('should get agents by user', () => {
-      const user1Agents = service.getUserAgents('user-1')
+    it('should get agents by user', async () => {
+      const user1Agents = await service.getUserAgents('user-1')
       expect(user1Agents).toHaveLength(2)
       expect(user1Agents.map(a => a.name)).toEqual(['Agent 1', 'Agent 2'])
 
-      const user2Agents = service.getUserAgents('user-2')
+      const user2Agents = await service.getUserAgents('user-2')
       expect(user2Agents).toHaveLength(1)
       expect(user2Agents[0].name).toBe('Agent 3')
     })
 
-    it('should return empty array for user with no agents', () => {
-      const noAgents = service.getUserAgents('non-existent-user')
+    it('should return empty array for user with no agents', async () => {
+      const noAgents = await service.getUserAgents('non-existent-user')
       expect(noAgents).toHaveLength(0)
     })
   })
@@ -391,6 +417,122 @@ describe('AgentManagementService', () => {
         })
       ).resolves.toBeDefined()
     })
+
+    it('should validate notification targets and keep them on the agent', async () => {
+      const config: AgentConfiguration = {
+        schedule: { type: 'recurring', interval: 3600 },
+        eventTriggers: [],
+        retryPolicy: { maxRetries: 3, backoffMultiplier: 2, initialDelay: 1000 },
+        notifications: {
+          onSuccess: false,
+          onFailure: true,
+          channels: ['slack'],
+          slack: 'https://hooks.slack.com/services/T000/B000/token',
+          templates: { failure: '{{agentName}} failed: {{error}}' }
+        },
+        permissions: []
+      }
+      const metadata = { name: 'Test Agent', description: 'Test', owner: 'test-user' }
+
+      await expect(service.createAgent('test-workflow', {
+        ...config,
+        notifications: { ...config.notifications, slack: 'not a url' }
+      }, metadata)).rejects.toThrow('Invalid slack notification URL')
+
+      const agentId = await service.createAgent('test-workflow', config, metadata)
+      expect((await service.getAgentStatus(agentId))?.notifications).toEqual(config.notifications)
+    })
+
+    it('should validate oracle sources and condition damping on price triggers', async () => {
+      const priceTrigger: EventTrigger = {
+        type: 'price',
+        condition: { operator: 'lt', value: 0.5, debounce: 60000, hysteresis: 0.02 },
+        parameters: {},
+        oracle: { type: 'http-json', url: 'https://prices.example.com/flow', valuePath: 'usd', maxAge: 120 }
+      }
+      const withTrigger = (trigger: EventTrigger): AgentConfiguration => ({
+        schedule: { type: 'event-driven' },
+        eventTriggers: [trigger],
+        retryPolicy: { maxRetries: 3, backoffMultiplier: 2, initialDelay: 1000 },
+        notifications: { onSuccess: false, onFailure: false, channels: [] },
+        permissions: []
+      })
+      const metadata = { name: 'Test Agent', description: 'Test', owner: 'test-user' }
+
+      await expect(service.createAgent('test-workflow', withTrigger(priceTrigger), metadata)).resolves.toBeDefined()
+      await expect(service.createAgent('test-workflow', withTrigger({
+        ...priceTrigger,
+        oracle: { type: 'http-json', url: 'prices', valuePath: 'usd' }
+      }), metadata)).rejects.toThrow('Invalid oracle URL')
+      await expect(service.createAgent('test-workflow', withTrigger({
+        ...priceTrigger,
+        condition: { operator: 'lt', value: 0.5, debounce: -1 }
+      }), metadata)).rejects.toThrow('Trigger condition debounce must be a non-negative number')
+    })
+
+    it('should validate spending policies and keep them on the agent', async () => {
+      const config: AgentConfiguration = {
+        schedule: { type: 'recurring', interval: 3600 },
+        eventTriggers: [],
+        retryPolicy: { maxRetries: 3, backoffMultiplier: 2, initialDelay: 1000 },
+        notifications: { onSuccess: false, onFailure: true, channels: [] },
+        permissions: [],
+        policy: {
+          maxAmountPerDay: 100,
+          tokenLimits: { USDC: { perRun: 25 } },
+          allowedRecipients: ['0xf8d6e0586b0a20c7']
+        }
+      }
+      const metadata = { name: 'Test Agent', description: 'Test', owner: 'test-user' }
+
+      await expect(service.createAgent('test-workflow', {
+        ...config,
+        policy: { maxAmountPerRun: -10 }
+      }, metadata)).rejects.toThrow('Max amount per run must be a non-negative number')
+
+      const agentId = await service.createAgent('test-workflow', config, metadata)
+      expect((await service.getAgentStatus(agentId))?.policy).toEqual(config.policy)
+
+      await service.updateAgent(agentId, { policy: { maxAmountPerRun: 5 } })
+      expect((await service.getAgentStatus(agentId))?.policy).toEqual({ maxAmountPerRun: 5 })
+      await expect(service.updateAgent(agentId, { policy: { allowedRecipients: ['bob'] } }))
+        .rejects.toThrow('Invalid allowed recipient address: bob')
+    })
+
+    it('should validate Flow event triggers without a condition', async () => {
+      const flowEventTrigger: EventTrigger = {
+        type: 'flow-event',
+        parameters: {},
+        flowEvent: {
+          eventType: 'A.0x1654653399040a61.FlowToken.TokensDeposited',
+          filters: [{ field: 'to', operator: 'eq', value: '0x01cf0e2f2f715450' }],
+          parameterBindings: { 'transfer-1.amount': 'data.amount' }
+        }
+      }
+      const config: AgentConfiguration = {
+        schedule: { type: 'event-driven' },
+        eventTriggers: [flowEventTrigger],
+        retryPolicy: { maxRetries: 3, backoffMultiplier: 2, initialDelay: 1000 },
+        notifications: { onSuccess: false, onFailure: false, channels: [] },
+        permissions: []
+      }
+      const metadata = { name: 'Test Agent', description: 'Test', owner: 'test-user' }
+      const withFlowEvent = (flowEvent: any): AgentConfiguration => ({ ...config, eventTriggers: [{ ...flowEventTrigger, flowEvent }] })
+
+      await expect(service.createAgent('test-workflow', config, metadata)).resolves.toBeDefined()
+      await expect(service.createAgent('test-workflow', withFlowEvent({ eventType: 'FlowToken.TokensDeposited' }), metadata))
+        .rejects.toThrow('Flow event trigger requires an event type')
+      await expect(service.createAgent('test-workflow', withFlowEvent({
+        ...flowEventTrigger.flowEvent,
+        filters: [{ field: 'to', operator: 'like', value: 'x' }]
+      }), metadata)).rejects.toThrow('Invalid filter')
+      await expect(service.createAgent('test-workflow', withFlowEvent({
+        ...flowEventTrigger.flowEvent,
+        parameterBindings: { amount: 'data.amount' }
+      }), metadata)).rejects.toThrow('Parameter binding target must be')
+      await expect(service.createAgent('test-workflow', withFlowEvent({ ...flowEventTrigger.flowEvent, startHeight: -1 }), metadata))
+        .rejects.toThrow('start height must be a non-negative integer')
+    })
   })
 })
 
@@ -400,7 +542,7 @@ describe('AgentFactory', () => {
   let mockConsoleLog: any
 
   beforeEach(() => {
-    service = new AgentManagementService()
+    service = new AgentManagementService({ store: createAgentJobStore(new InMemoryAgentJobStoreAdapter()) })
     factory = new AgentFactory(service)
     mockConsoleLog = vi.spyOn(console, 'log').mockImplementation(() => {})
   })
@@ -457,7 +599,7 @@ describe('AgentFactory', () => {
       const agentId = await factory.createFromWorkflow(workflow, metadata)
 
       expect(agentId).toBeDefined()
-      const agent = service.getAgentStatus(agentId)
+      const agent = await service.getAgentStatus(agentId)
       expect(agent?.name).toBe('Test Agent from Workflow')
       expect(agent?.schedule.type).toBe('recurring')
       expect(agent?.schedule.interval).toBe(3600)
@@ -509,7 +651,7 @@ describe('AgentFactory', () => {
       const agentId = await factory.createFromParsedWorkflow(workflow, config, metadata)
 
       expect(agentId).toBeDefined()
-      const agent = service.getAgentStatus(agentId)
+      const agent = await service.getAgentStatus(agentId)
       expect(agent?.name).toBe('Test Agent from Parsed Workflow')
       expect(agent?.schedule.type).toBe('event-driven')
       expect(agent?.triggers).toHaveLength(1)
@@ -548,7 +690,7 @@ describe('AgentFactory', () => {
       const agentId = await factory.createFromWorkflow(workflow, metadata)
 
       expect(agentId).toBeDefined()
-      const agent = service.getAgentStatus(agentId)
+      const agent = await service.getAgentStatus(agentId)
       expect(agent?.schedule.type).toBe('one-time')
       expect(agent?.triggers).toHaveLength(0)
     })
@@ -0,0 +1,407 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import http from 'http'
+import net from 'net'
+import type { AddressInfo } from 'net'
+import {
+  AgentNotificationService,
+  SmtpEmailTransport,
+  createNotificationMessage,
+  validateNotificationConfig,
+  verifyWebhookSignature,
+  getSmtpOptionsFromEnv
+} from '../agent-notification-service'
+import { AgentJobStore, createAgentJobStore, InMemoryAgentJobStoreAdapter } from '../agent-job-store'
+import { Agent, AgentStatus, NotificationConfig } from '../types'
+
+const createAgent = (notifications?: NotificationConfig): Agent => ({
+  id: 'agent-1',
+  name: 'Rebalancer',
+  description: 'Test',
+  workflowId: 'wf-1',
+  schedule: { type: 'recurring', interval: 60 },
+  triggers: [],
+  status: AgentStatus.ACTIVE,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  owner: 'test-user',
+  notifications
+})
+
+interface ReceivedRequest {
+  path: string
+  headers: http.IncomingHttpHeaders
+  body: string
+}
+
+/**
+ * Local HTTP endpoint that answers with the queued status codes (200 once
+ * they run out) and records every request
+ */
+const startHttpStub = async () => {
+  const requests: ReceivedRequest[] = []
+  const statuses: number[] = []
+  const server = http.createServer((req, res) => {
+    let body = ''
+    req.on('data', chunk => { body += chunk })
+    req.on('end', () => {
+      requests.push({ path: req.url!, headers: req.headers, body })
+      res.statusCode = statuses.shift() ?? 200
+      res.end()
+    })
+  })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+
+  return {
+    url: (path: string) => `http://127.0.0.1:${port}${path}`,
+    requests,
+    statuses,
+    close: () => new Promise<void>(resolve => server.close(() => resolve()))
+  }
+}
+
+interface ReceivedMail {
+  auth?: string
+  from?: string
+  to: string[]
+  data: string
+}
+
+/**
+ * Minimal SMTP server: records envelopes and message data, and rejects
+ * recipients listed in `rejectRecipients` with 550
+ */
+const startSmtpStub = async (rejectRecipients: string[] = []) => {
+  const messages: ReceivedMail[] = []
+  const server = net.createServer(socket => {
+    let mail: ReceivedMail = { to: [], data: '' }
+    let buffer = ''
+    let inData = false
+    socket.setEncoding('utf8')
+    socket.write('220 localhost ESMTP stub\r\n')
+
+    socket.on('data', (chunk: string) => {
+      buffer += chunk
+      let index: number
+      while ((index = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, index)
+        buffer = buffer.slice(index + 2)
+
+        if (inData) {
+          if (line === '.') {
+            inData = false
+            messages.push(mail)
+            socket.write('250 2.0.0 queued\r\n')
+          } else {
+            mail.data += `${line}\r\n`
+          }
+          continue
+        }
+
+        const [verb] = line.split(/[\s:]/)
+        switch (verb.toUpperCase()) {
+          case 'EHLO':
+            socket.write('250-localhost\r\n250-AUTH PLAIN\r\n250 8BITMIME\r\n')
+            break
+          case 'AUTH':
+            mail.auth = Buffer.from(line.split(' ')[2], 'base64').toString()
+            socket.write('235 2.7.0 authenticated\r\n')
+            break
+          case 'MAIL':
+            mail = { ...mail, from: line.match(/<(.*)>/)![1], to: [], data: '' }
+            socket.write('250 OK\r\n')
+            break
+          case 'RCPT': {
+            const recipient = line.match(/<(.*)>/)![1]
+            if (rejectRecipients.includes(recipient)) {
+              socket.write('550 5.1.1 mailbox unavailable\r\n')
+            } else {
+              mail.to.push(recipient)
+              socket.write('250 OK\r\n')
+            }
+            break
+          }
+          case 'DATA':
+            inData = true
+            socket.write('354 end with .\r\n')
+            break
+          case 'QUIT':
+            socket.end('221 bye\r\n')
+            break
+          default:
+            socket.write('502 unknown command\r\n')
+        }
+      }
+    })
+  })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+
+  return {
+    port,
+    messages,
+    close: () => new Promise<void>(resolve => server.close(() => resolve()))
+  }
+}
+
+const decodeBody = (data: string) => Buffer.from(data.split('\r\n\r\n')[1].replace(/\r\n/g, ''), 'base64').toString()
+
+describe('AgentNotificationService', () => {
+  let httpStub: Awaited<ReturnType<typeof startHttpStub>>
+  let store: AgentJobStore
+
+  beforeEach(async () => {
+    httpStub = await startHttpStub()
+    store = createAgentJobStore(new InMemoryAgentJobStoreAdapter())
+  })
+
+  afterEach(async () => {
+    await httpStub.close()
+  })
+
+  describe('Signed Webhooks', () => {
+    it('should sign the payload so the receiver can verify it', async () => {
+      const service = new AgentNotificationService({ store, retryDelay: 1 })
+      const agent = createAgent({
+        onSuccess: true,
+        onFailure: true,
+        channels: ['webhook'],
+        webhook: httpStub.url('/hooks/agents'),
+        webhookSecret: 'shh'
+      })
+
+      const [delivery] = await service.notify(agent, 'success', { executionId: 'exec-1', transactionId: 'tx-1', gasUsed: 12 })
+
+      expect(delivery).toMatchObject({ channel: 'webhook', status: 'delivered', target: httpStub.url('/…') })
+      expect(delivery.attempts).toEqual([expect.objectContaining({ success: true, statusCode: 200 })])
+
+      const [request] = httpStub.requests
+      const payload = JSON.parse(request.body)
+      expect(payload).toMatchObject({
+        id: delivery.id,
+        event: 'success',
+        agent: { id: 'agent-1', name: 'Rebalancer' },
+        data: { executionId: 'exec-1', transactionId: 'tx-1', gasUsed: 12 }
+      })
+      expect(request.headers['x-actionloom-delivery']).toBe(delivery.id)
+      expect(verifyWebhookSignature(
+        'shh',
+        request.headers['x-actionloom-timestamp'] as string,
+        request.body,
+        request.headers['x-actionloom-signature'] as string
+      )).toBe(true)
+      expect(verifyWebhookSignature('wrong', request.headers['x-actionloom-timestamp'] as string, request.body,
+        request.headers['x-actionloom-signature'] as string)).toBe(false)
+    })
+
+    it('should retry server errors until the endpoint accepts', async () => {
+      httpStub.statuses.push(503, 500)
+      const service = new AgentNotificationService({ store, retryDelay: 1 })
+      const agent = createAgent({ onSuccess: true, onFailure: true, channels: ['webhook'], webhook: httpStub.url('/hook') })
+
+      const [delivery] = await service.notify(agent, 'failure', { executionId: 'exec-1', error: 'boom' })
+
+      expect(delivery.status).toBe('delivered')
+      expect(delivery.attempts.map(attempt => attempt.statusCode)).toEqual([503, 500, 200])
+      expect(httpStub.requests).toHaveLength(3)
+    })
+
+    it('should dead-letter a delivery that keeps failing and redeliver it later', async () => {
+      httpStub.statuses.push(502, 502, 502)
+      const service = new AgentNotificationService({ store, retryDelay: 1, maxAttempts: 3 })
+      const agent = createAgent({ onSuccess: true, onFailure: true, channels: ['webhook'], webhook: httpStub.url('/hook') })
+
+      const [delivery] = await service.notify(agent, 'success', { executionId: 'exec-1' })
+
+      expect(delivery).toMatchObject({ status: 'dead-lettered', deadLetterId: expect.any(String) })
+      expect(delivery.attempts).toHaveLength(3)
+      const [letter] = await store.listDeadLetters('agent-1')
+      expect(letter).toMatchObject({ id: delivery.deadLetterId, channel: 'webhook', target: httpStub.url('/hook') })
+
+      const redelivered = await service.redeliver(letter.id)
+
+      expect(redelivered.status).toBe('delivered')
+      expect(await store.listDeadLetters()).toEqual([])
+      // The redelivery carries the original message ID so receivers can deduplicate
+      expect(JSON.parse(httpStub.requests[3].body).id).toBe(delivery.id)
+    })
+
+    it('should not retry client errors', async () => {
+      httpStub.statuses.push(404)
+      const service = new AgentNotificationService({ store, retryDelay: 1 })
+      const agent = createAgent({ onSuccess: true, onFailure: true, channels: ['webhook'], webhook: httpStub.url('/gone') })
+
+      const [delivery] = await service.notify(agent, 'success', { executionId: 'exec-1' })
+
+      expect(delivery.status).toBe('dead-lettered')
+      expect(delivery.attempts).toEqual([expect.objectContaining({ success: false, statusCode: 404, error: 'HTTP 404 Not Found' })])
+    })
+  })
+
+  describe('Chat Webhooks', () => {
+    it('should post a Discord embed and Slack blocks', async () => {
+      const service = new AgentNotificationService({ store, retryDelay: 1 })
+      const agent = createAgent({
+        onSuccess: true,
+        onFailure: true,
+        channels: ['discord', 'slack'],
+        discord: httpStub.url('/api/webhooks/1/token'),
+        slack: httpStub.url('/services/T000/B000/token')
+      })
+
+      const deliveries = await service.notify(agent, 'failure', { executionId: 'exec-1', error: 'Insufficient balance', retryCount: 3 })
+
+      expect(deliveries.map(delivery => [delivery.channel, delivery.status])).toEqual([
+        ['discord', 'delivered'],
+        ['slack', 'delivered']
+      ])
+      const discord = JSON.parse(httpStub.requests.find(request => request.path.startsWith('/api/webhooks'))!.body)
+      expect(discord.embeds[0]).toMatchObject({
+        title: 'Agent "Rebalancer" failed',
+        color: 0xef4444,
+        fields: [{ name: 'Agent', value: 'Rebalancer' }, { name: 'Execution', value: 'exec-1' }]
+      })
+      expect(discord.embeds[0].description).toContain('Error: Insufficient balance')
+
+      const slack = JSON.parse(httpStub.requests.find(request => request.path.startsWith('/services'))!.body)
+      expect(slack.text).toBe('Agent "Rebalancer" failed')
+      expect(slack.blocks.map((block: any) => block.type)).toEqual(['header', 'section', 'context'])
+      expect(slack.blocks[1].text.text).toContain('Retry Count: 3')
+    })
+  })
+
+  describe('SMTP Email', () => {
+    let smtpStub: Awaited<ReturnType<typeof startSmtpStub>>
+
+    beforeEach(async () => {
+      smtpStub = await startSmtpStub(['nobody@example.com'])
+    })
+
+    afterEach(async () => {
+      await smtpStub.close()
+    })
+
+    const createEmailService = () => new AgentNotificationService({
+      store,
+      retryDelay: 1,
+      transports: {
+        email: new SmtpEmailTransport({
+          host: '127.0.0.1',
+          port: smtpStub.port,
+          from: 'agents@actionloom.test',
+          user: 'mailer',
+          password: 'secret'
+        })
+      }
+    })
+
+    it('should send the agent\'s templated message', async () => {
+      const agent = createAgent({
+        onSuccess: true,
+        onFailure: true,
+        channels: ['email'],
+        email: 'ops@example.com',
+        templates: {
+          subject: '[{{event}}] {{agentName}}',
+          success: 'Run {{executionId}} sealed {{transactionId}} — {{gasUsed}} gas'
+        }
+      })
+
+      const [delivery] = await createEmailService().notify(agent, 'success', { executionId: 'exec-7', transactionId: 'tx-7', gasUsed: 40 })
+
+      expect(delivery).toMatchObject({ channel: 'email', target: 'ops@example.com', status: 'delivered' })
+      const [mail] = smtpStub.messages
+      expect(mail).toMatchObject({ auth: '\0mailer\0secret', from: 'agents@actionloom.test', to: ['ops@example.com'] })
+      expect(mail.data).toContain('Subject: [success] Rebalancer')
+      expect(decodeBody(mail.data)).toBe('Run exec-7 sealed tx-7 — 40 gas')
+    })
+
+    it('should dead-letter a rejected recipient without retrying', async () => {
+      const agent = createAgent({ onSuccess: true, onFailure: true, channels: ['email'], email: 'nobody@example.com' })
+
+      const [delivery] = await createEmailService().notify(agent, 'failure', { executionId: 'exec-1', error: 'boom' })
+
+      expect(delivery.status).toBe('dead-lettered')
+      expect(delivery.attempts).toEqual([
+        expect.objectContaining({ statusCode: 550, error: 'SMTP RCPT rejected: 550 5.1.1 mailbox unavailable' })
+      ])
+      expect(smtpStub.messages).toEqual([])
+    })
+  })
+
+  describe('Channel Selection', () => {
+    it('should respect the success/failure switches and skip channels without a target', async () => {
+      const service = new AgentNotificationService({ store, retryDelay: 1 })
+      const agent = createAgent({ onSuccess: false, onFailure: true, channels: ['email', 'webhook'], webhook: httpStub.url('/hook') })
+
+      expect(await service.notify(agent, 'success', { executionId: 'exec-1' })).toEqual([])
+      expect((await service.notify(agent, 'failure', { executionId: 'exec-2' })).map(delivery => delivery.channel))
+        .toEqual(['webhook'])
+      expect(await service.notify(createAgent(), 'failure', { executionId: 'exec-3' })).toEqual([])
+    })
+
+    it('should dead-letter email when SMTP is not configured', async () => {
+      const service = new AgentNotificationService({ store, transports: { email: undefined } })
+      const agent = createAgent({ onSuccess: true, onFailure: true, channels: ['email'], email: 'ops@example.com' })
+
+      const [delivery] = await service.notify(agent, 'success', { executionId: 'exec-1' })
+
+      expect(delivery).toMatchObject({ status: 'dead-lettered', attempts: [{ error: 'No email transport is configured' }] })
+    })
+
+    it('should always tell approvers about a run waiting for them', async () => {
+      const service = new AgentNotificationService({ store, retryDelay: 1 })
+      const config = { onSuccess: false, onFailure: false, channels: ['webhook'], webhook: httpStub.url('/approvals') }
+
+      const [delivery] = await service.notifyApprovers({ id: 'wf-1', name: 'Treasury' }, config, {
+        executionId: 'schedule:agent-1:1',
+        approvalId: 'approval_1'
+      })
+
+      expect(delivery.status).toBe('delivered')
+      expect(JSON.parse(httpStub.requests[0].body)).toMatchObject({
+        event: 'approval',
+        subject: 'Agent "Treasury" needs approval',
+        data: { approvalId: 'approval_1' }
+      })
+    })
+  })
+})
+
+describe('createNotificationMessage', () => {
+  it('should fall back to the default templates', () => {
+    const message = createNotificationMessage(createAgent(), 'success', { executionId: 'exec-1' })
+
+    expect(message.subject).toBe('Agent "Rebalancer" succeeded')
+    expect(message.text).toMatch(/^✅ Agent "Rebalancer" executed successfully at .+\nExecution ID: exec-1\nTransaction ID: N\/A\nGas Used: N\/A$/)
+  })
+
+  it('should explain why an agent was paused', () => {
+    const message = createNotificationMessage(createAgent(), 'paused', {
+      executionId: 'exec-1',
+      error: 'Agent policy violated: Recipient 0x01cf0e2f2f715450 is not on the allowlist'
+    })
+
+    expect(message.subject).toBe('Agent "Rebalancer" was paused')
+    expect(message.text).toMatch(/^⏸️ Agent "Rebalancer" was paused at .+\nExecution ID: exec-1\nReason: Agent policy violated: Recipient 0x01cf0e2f2f715450 is not on the allowlist$/)
+  })
+})
+
+describe('validateNotificationConfig', () => {
+  it('should reject unknown channels and malformed targets', () => {
+    const base = { onSuccess: true, onFailure: true, channels: ['slack'] }
+
+    expect(() => validateNotificationConfig({ ...base, slack: 'https://hooks.slack.com/services/T/B/x' })).not.toThrow()
+    expect(() => validateNotificationConfig({ ...base, channels: ['pager'] })).toThrow('Unknown notification channel: pager')
+    expect(() => validateNotificationConfig({ ...base, slack: 'ftp://example.com' })).toThrow('Invalid slack notification URL')
+    expect(() => validateNotificationConfig({ ...base, email: 'not-an-address' })).toThrow('Invalid notification email address')
+  })
+})
+
+describe('getSmtpOptionsFromEnv', () => {
+  it('should read SMTP settings with port defaults', () => {
+    expect(getSmtpOptionsFromEnv({})).toBeNull()
+    expect(getSmtpOptionsFromEnv({ SMTP_HOST: 'smtp.example.com', SMTP_SECURE: 'true', SMTP_FROM: 'bot@example.com' }))
+      .toEqual({ host: 'smtp.example.com', port: 465, secure: true, user: undefined, password: undefined, from: 'bot@example.com' })
+  })
+})
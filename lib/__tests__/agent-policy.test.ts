@@ -0,0 +1,291 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import {
+  AgentPolicyEngine,
+  AgentPolicyViolationError,
+  evaluateAgentPolicy,
+  extractPlannedSpends,
+  normalizeToken,
+  validateAgentPolicy
+} from '../agent-policy'
+import { AgentJobStore, InMemoryAgentJobStoreAdapter } from '../agent-job-store'
+import { Agent, AgentPolicy, AgentStatus, ActionParameter, ParsedAction, ParsedWorkflow } from '../types'
+
+const RECIPIENT = '0xf8d6e0586b0a20c7'
+
+const createAction = (id: string, actionType: string, parameters: Partial<ActionParameter>[]): ParsedAction => ({
+  id,
+  actionType,
+  name: actionType,
+  parameters: parameters.map(parameter => ({ name: '', type: 'String', value: '', required: true, ...parameter })),
+  nextActions: [],
+  position: { x: 0, y: 0 }
+})
+
+const createWorkflow = (...actions: ParsedAction[]): ParsedWorkflow => ({
+  actions,
+  executionOrder: actions.map(action => action.id),
+  rootActions: actions.length > 0 ? [actions[0].id] : [],
+  metadata: { totalActions: actions.length, totalConnections: 0, createdAt: '2024-01-01T00:00:00.000Z' }
+})
+
+const transfer = (id: string, amount: string, recipient = RECIPIENT, token?: string) =>
+  createAction(id, 'transfer-tokens', [
+    { name: 'recipient', type: 'Address', value: recipient },
+    { name: 'amount', type: 'UFix64', value: amount },
+    ...(token ? [{ name: 'token', value: token }] : [])
+  ])
+
+const createAgent = (policy?: AgentPolicy): Agent => ({
+  id: 'agent-1',
+  name: 'Test Agent',
+  description: 'Transfers tokens',
+  workflowId: 'wf-1',
+  schedule: { type: 'recurring', interval: 3600 },
+  triggers: [],
+  status: AgentStatus.ACTIVE,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  owner: 'test-user',
+  policy
+})
+
+describe('Agent policy', () => {
+  describe('extractPlannedSpends', () => {
+    it('should read amounts, tokens and recipients from action parameters', () => {
+      const swap = createAction('swap-1', 'swap-tokens', [
+        { name: 'fromToken', value: 'USDC' },
+        { name: 'toToken', value: 'FLOW' },
+        { name: 'amount', type: 'UFix64', value: '25.5' }
+      ])
+
+      const planned = extractPlannedSpends(createWorkflow(transfer('transfer-1', '10.0'), swap))
+
+      expect(planned.spends).toEqual([
+        { actionId: 'transfer-1', token: 'FLOW', amount: 10 },
+        { actionId: 'swap-1', token: 'USDC', amount: 25.5 }
+      ])
+      expect(planned.recipients).toEqual([{ actionId: 'transfer-1', address: RECIPIENT }])
+    })
+
+    it('should report amounts and recipients bound to other actions as computed', () => {
+      const bound = createAction('transfer-1', 'transfer-tokens', [
+        { name: 'recipient', type: 'Address', value: '', expression: 'self.lookup.owner' },
+        { name: 'amount', type: 'UFix64', value: '', expression: 'self.swap1Result' }
+      ])
+
+      const planned = extractPlannedSpends(createWorkflow(bound))
+
+      expect(planned.spends).toEqual([])
+      expect(planned.computedAmounts).toHaveLength(1)
+      expect(planned.computedRecipients).toHaveLength(1)
+    })
+
+    it('should treat FlowToken type IDs as FLOW', () => {
+      expect(normalizeToken('A.1654653399040a61.FlowToken.Vault')).toBe('FLOW')
+      expect(normalizeToken('usdc')).toBe('USDC')
+    })
+  })
+
+  describe('evaluateAgentPolicy', () => {
+    it('should allow runs within every limit', () => {
+      const evaluation = evaluateAgentPolicy(
+        { maxAmountPerRun: 20, maxAmountPerDay: 50, allowedRecipients: [RECIPIENT], allowedActionTypes: ['transfer-tokens'] },
+        createWorkflow(transfer('transfer-1', '10.0')),
+        [{ token: 'FLOW', amount: 30 }]
+      )
+
+      expect(evaluation.allowed).toBe(true)
+      expect(evaluation.violations).toEqual([])
+    })
+
+    it('should list every violated rule', () => {
+      const evaluation = evaluateAgentPolicy(
+        {
+          maxAmountPerRun: 5,
+          maxAmountPerDay: 12,
+          allowedRecipients: ['0x01cf0e2f2f715450'],
+          allowedActionTypes: ['swap-tokens'],
+          maxGasPerExecution: 100
+        },
+        createWorkflow(transfer('transfer-1', '10.0')),
+        [{ token: 'FLOW', amount: 3 }],
+        { estimatedGas: 150 }
+      )
+
+      expect(evaluation.allowed).toBe(false)
+      expect(evaluation.violations.map(violation => violation.rule).sort()).toEqual([
+        'action-type',
+        'max-amount-per-day',
+        'max-amount-per-run',
+        'max-gas',
+        'recipient'
+      ])
+    })
+
+    it('should apply per-token limits to that token only', () => {
+      const workflow = createWorkflow(transfer('transfer-1', '10.0'), transfer('transfer-2', '100.0', RECIPIENT, 'USDC'))
+      const policy: AgentPolicy = { tokenLimits: { flow: { perRun: 5 }, USDC: { perDay: 150 } } }
+
+      const evaluation = evaluateAgentPolicy(policy, workflow, [{ token: 'USDC', amount: 60 }])
+
+      expect(evaluation.violations.map(violation => violation.rule)).toEqual(['token-per-run', 'token-per-day'])
+      expect(evaluation.violations[0].message).toContain('FLOW')
+      expect(evaluation.violations[1].message).toContain('USDC')
+    })
+
+    it('should reject zero and negative amounts instead of netting them', () => {
+      const workflow = createWorkflow(transfer('transfer-1', '100.0'), transfer('transfer-2', '-95.0'), transfer('transfer-3', '0'))
+
+      const evaluation = evaluateAgentPolicy({ maxAmountPerRun: 10 }, workflow)
+
+      expect(evaluation.spends).toEqual([{ actionId: 'transfer-1', token: 'FLOW', amount: 100 }])
+      expect(evaluation.violations).toEqual([
+        expect.objectContaining({ rule: 'invalid-amount', actionId: 'transfer-2' }),
+        expect.objectContaining({ rule: 'invalid-amount', actionId: 'transfer-3' }),
+        expect.objectContaining({ rule: 'max-amount-per-run', message: 'Run would move 100 FLOW, over the 10 per-run limit' })
+      ])
+      expect(evaluateAgentPolicy({}, createWorkflow(transfer('transfer-1', '-1.0'))).allowed).toBe(false)
+    })
+
+    it('should apply the per-run and daily caps to each token separately', () => {
+      const workflow = createWorkflow(transfer('transfer-1', '8.0'), transfer('transfer-2', '8.0', RECIPIENT, 'USDC'))
+
+      expect(evaluateAgentPolicy({ maxAmountPerRun: 10 }, workflow).allowed).toBe(true)
+      expect(evaluateAgentPolicy({ maxAmountPerDay: 10 }, workflow, [{ token: 'USDC', amount: 5 }]).violations).toEqual([
+        expect.objectContaining({ rule: 'max-amount-per-day', message: expect.stringContaining('USDC total to 13') })
+      ])
+    })
+
+    it('should compare amounts at UFix64 precision', () => {
+      const workflow = createWorkflow(transfer('transfer-1', '0.1'), transfer('transfer-2', '0.2'))
+
+      expect(evaluateAgentPolicy({ maxAmountPerRun: 0.3 }, workflow).allowed).toBe(true)
+    })
+
+    it('should reject computed amounts only when amounts are limited', () => {
+      const bound = createAction('transfer-1', 'transfer-tokens', [
+        { name: 'recipient', type: 'Address', value: RECIPIENT },
+        { name: 'amount', type: 'UFix64', value: '', expression: 'self.swap1Result' }
+      ])
+      const workflow = createWorkflow(bound)
+
+      expect(evaluateAgentPolicy({ allowedRecipients: [RECIPIENT] }, workflow).allowed).toBe(true)
+      expect(evaluateAgentPolicy({ maxAmountPerRun: 10 }, workflow).violations).toEqual([
+        expect.objectContaining({ rule: 'unverifiable', actionId: 'transfer-1' })
+      ])
+    })
+
+    it('should check the address parameter of transfers against the allowlist', () => {
+      const nlpTransfer = createAction('transfer-1', 'transfer-flow', [
+        { name: 'amount', type: 'UFix64', value: '5.0' },
+        { name: 'address', type: 'Address', value: '0x01cf0e2f2f715450' }
+      ])
+
+      expect(evaluateAgentPolicy({ allowedRecipients: [RECIPIENT] }, createWorkflow(nlpTransfer)).violations).toEqual([
+        expect.objectContaining({ rule: 'recipient', actionId: 'transfer-1' })
+      ])
+    })
+
+    it('should reject value-moving actions with unrecognized amounts or recipients when limited', () => {
+      const unknown = createAction('send-1', 'send-tokens', [
+        { name: 'quantity', type: 'UFix64', value: '500.0' },
+        { name: 'payee', type: 'Address', value: '0x01cf0e2f2f715450' }
+      ])
+      const workflow = createWorkflow(unknown)
+
+      expect(evaluateAgentPolicy({}, workflow).allowed).toBe(true)
+      expect(evaluateAgentPolicy({ maxAmountPerDay: 100 }, workflow).violations).toEqual([
+        expect.objectContaining({ rule: 'unverifiable', actionId: 'send-1', message: expect.stringContaining('no recognized amount') })
+      ])
+      expect(evaluateAgentPolicy({ allowedRecipients: [RECIPIENT] }, workflow).violations).toEqual([
+        expect.objectContaining({ rule: 'unverifiable', actionId: 'send-1', message: expect.stringContaining('send-1.payee') })
+      ])
+    })
+
+    it('should compile the tightest remaining cap into spending limits for known vaults', () => {
+      const workflow = createWorkflow(transfer('transfer-1', '4.0'), transfer('transfer-2', '1.0', RECIPIENT, 'MYSTERY'))
+      const policy: AgentPolicy = {
+        maxAmountPerRun: 20,
+        tokenLimits: { FLOW: { perDay: 10 } }
+      }
+
+      const evaluation = evaluateAgentPolicy(policy, workflow, [{ token: 'FLOW', amount: 4 }])
+
+      expect(evaluation.spendingLimits).toEqual([{ token: 'FLOW', vaultPath: '/storage/flowTokenVault', maxAmount: 6 }])
+    })
+  })
+
+  describe('validateAgentPolicy', () => {
+    it('should accept a complete policy', () => {
+      expect(() => validateAgentPolicy({
+        maxAmountPerRun: 10,
+        maxAmountPerDay: 100,
+        tokenLimits: { USDC: { perRun: 5, vaultPath: '/storage/usdcVault' } },
+        allowedRecipients: [RECIPIENT, '01cf0e2f2f715450'],
+        allowedActionTypes: ['transfer-tokens'],
+        maxGasPerExecution: 1000
+      })).not.toThrow()
+    })
+
+    it('should reject negative limits, bad vault paths and bad addresses', () => {
+      expect(() => validateAgentPolicy({ maxAmountPerDay: -1 })).toThrow('Max amount per day must be a non-negative number')
+      expect(() => validateAgentPolicy({ tokenLimits: { FLOW: { perRun: -5 } } })).toThrow('FLOW per-run limit')
+      expect(() => validateAgentPolicy({ tokenLimits: { FLOW: { vaultPath: 'flowTokenVault' } } })).toThrow('vault path')
+      expect(() => validateAgentPolicy({ allowedRecipients: ['0x123'] })).toThrow('Invalid allowed recipient address: 0x123')
+    })
+  })
+
+  describe('AgentPolicyEngine', () => {
+    let store: AgentJobStore
+    let engine: AgentPolicyEngine
+
+    beforeEach(() => {
+      store = new AgentJobStore(new InMemoryAgentJobStoreAdapter())
+      engine = new AgentPolicyEngine({ store })
+    })
+
+    it('should allow anything for agents without a policy', async () => {
+      const evaluation = await engine.check(createAgent(), createWorkflow(transfer('transfer-1', '1000000.0')))
+
+      expect(evaluation.allowed).toBe(true)
+      expect(evaluation.spendingLimits).toEqual([])
+    })
+
+    it('should count recorded spending against the daily limit', async () => {
+      const agent = createAgent({ maxAmountPerDay: 15 })
+      const workflow = createWorkflow(transfer('transfer-1', '10.0'))
+
+      const first = await engine.check(agent, workflow)
+      await engine.recordSpending(agent.id, 'exec-1', first.spends)
+
+      await expect(engine.check(agent, workflow)).rejects.toThrow(AgentPolicyViolationError)
+      expect(await store.listSpending(agent.id, new Date(Date.now() - 60000))).toEqual([
+        expect.objectContaining({ executionId: 'exec-1', token: 'FLOW', amount: 10 })
+      ])
+    })
+
+    it('should let only one of two concurrent runs reserve the last of the daily limit', async () => {
+      const agent = createAgent({ maxAmountPerDay: 15 })
+      const workflow = createWorkflow(transfer('transfer-1', '10.0'))
+
+      const results = await Promise.allSettled([
+        engine.reserve(agent, 'exec-1', workflow),
+        engine.reserve(agent, 'exec-2', workflow)
+      ])
+
+      expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected'])
+      expect(await store.listSpending(agent.id, new Date(0))).toHaveLength(1)
+    })
+
+    it('should free a released reservation for the next run', async () => {
+      const agent = createAgent({ maxAmountPerDay: 15 })
+      const workflow = createWorkflow(transfer('transfer-1', '10.0'))
+
+      await engine.reserve(agent, 'exec-1', workflow)
+      await engine.release(agent.id, 'exec-1')
+
+      await expect(engine.reserve(agent, 'exec-2', workflow)).resolves.toMatchObject({ allowed: true })
+      expect((await store.listSpending(agent.id, new Date(0))).map(record => record.executionId)).toEqual(['exec-2'])
+    })
+  })
+})
@@ -9,8 +9,12 @@ import {
     Agent,
     AgentStatus,
     Schedule,
-    EventTrigger
+    EventTrigger,
+    TriggerCondition
 } from '../types'
+import { AgentJobStore, createAgentJobStore, InMemoryAgentJobStoreAdapter } from '../agent-job-store'
+import type { FlowChainEvent, FlowEventSource } from '../flow-event-monitor'
+import type { OracleAdapter } from '../oracle-adapter'
 
 describe('AgentSchedulingService', () => {
     let service: AgentSchedulingService
@@ -18,7 +22,7 @@ describe('AgentSchedulingService', () => {
     let mockConsoleError: any
 
     beforeEach(() => {
-        service = new AgentSchedulingService()
+        service = new AgentSchedulingService({ store: createAgentJobStore(new InMemoryAgentJobStoreAdapter()) })
         mockConsoleLog = vi.spyOn(console, 'log').mockImplementation(() => { })
         mockConsoleError = vi.spyOn(console, 'error').mockImplementation(() => { })
     })
@@ -229,8 +233,8 @@ describe('AgentSchedulingService', () => {
 
             const monitor = service.getEventMonitor(agent.id)
             expect(monitor?.triggerStates.size).toBe(2)
-            expect(monitor?.triggerStates.has('price')).toBe(true)
-            expect(monitor?.triggerStates.has('balance')).toBe(true)
+            expect(monitor?.triggerStates.has(0)).toBe(true)
+            expect(monitor?.triggerStates.has(1)).toBe(true)
         })
 
         it('should clean up event monitors when unscheduling', () => {
@@ -415,7 +419,7 @@ describe('CronExpressionValidator', () => {
         it('should reject invalid cron expressions', () => {
             const invalidExpressions = [
                 '0 0 * *',       // Too few parts
-                '0 0 * * * *',   // Too many parts
+                '0 0 0 * * * *', // Too many parts
                 '60 0 * * *',    // Invalid minute (>59)
                 '0 25 * * *',    // Invalid hour (>23)
                 '0 0 32 * *',    // Invalid day (>31)
@@ -455,6 +459,18 @@ describe('CronExpressionValidator', () => {
             const result = CronExpressionValidator.validate('*/0 * * * *') // Invalid step
             expect(result.isValid).toBe(false)
         })
+
+        it('should accept seconds, names and macros', () => {
+            ['*/30 * * * * *', '0 9 * JAN-MAR MON-FRI', '@daily', '0 0 1 * ?'].forEach(expr => {
+                expect(CronExpressionValidator.validate(expr).isValid).toBe(true)
+            })
+        })
+
+        it('should reject expressions that never run and unknown time zones', () => {
+            expect(CronExpressionValidator.validate('0 0 30 2 *').isValid).toBe(false)
+            expect(CronExpressionValidator.validate('0 9 * * *', 'Europe/Berlin').isValid).toBe(true)
+            expect(CronExpressionValidator.validate('0 9 * * *', 'Europe/Nowhere').error).toContain('time zone')
+        })
     })
 
     describe('Next Execution Calculation', () => {
@@ -474,16 +490,427 @@ describe('CronExpressionValidator', () => {
 
             expect(nextExecution.getHours()).toBe(14)
             expect(nextExecution.getMinutes()).toBe(30)
+            expect(nextExecution.getDate()).toBe(fromDate.getDate())
+        })
+
+        it('should preview upcoming runs in a time zone', () => {
+            const runs = CronExpressionValidator.getNextExecutions(
+                '0 9 * * MON', 2, new Date('2024-01-01T10:00:00Z'), 'America/New_York'
+            )
+
+            expect(runs.map(run => run.toISOString())).toEqual([
+                '2024-01-01T14:00:00.000Z',
+                '2024-01-08T14:00:00.000Z'
+            ])
         })
     })
 })
 
+describe('Durable Scheduling', () => {
+    let store: AgentJobStore
+    let mockConsoleLog: any
+
+    const createAgent = (schedule: Schedule): Agent => ({
+        id: 'durable-agent',
+        name: 'Durable Agent',
+        description: 'Test',
+        workflowId: 'test-workflow',
+        schedule,
+        triggers: [],
+        status: AgentStatus.ACTIVE,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+        owner: 'test-user'
+    })
+
+    beforeEach(() => {
+        store = createAgentJobStore(new InMemoryAgentJobStoreAdapter())
+        mockConsoleLog = vi.spyOn(console, 'log').mockImplementation(() => { })
+    })
+
+    afterEach(() => {
+        mockConsoleLog.mockRestore()
+    })
+
+    it('should restore scheduled agents after a restart', async () => {
+        const first = new AgentSchedulingService({ store })
+        await first.scheduleAgent(createAgent({ type: 'recurring', interval: 3600 }))
+        const scheduledFor = first.getScheduledJob('durable-agent')!.nextExecution
+        first.destroy()
+
+        const restarted = new AgentSchedulingService({ store })
+        await (restarted as any).ready
+
+        expect(restarted.getScheduledJob('durable-agent')?.nextExecution).toEqual(scheduledFor)
+        restarted.destroy()
+    })
+
+    it('should cancel persisted runs when unscheduling', async () => {
+        const service = new AgentSchedulingService({ store })
+        await service.scheduleAgent(createAgent({ type: 'recurring', interval: 3600 }))
+        await service.unscheduleAgent('durable-agent')
+
+        expect(await store.listJobs({ statuses: ['pending'] })).toEqual([])
+        service.destroy()
+    })
+
+    it.each([
+        ['fire-all', 7],
+        ['fire-once', 1],
+        ['skip', 0]
+    ] as const)('should apply the %s misfire policy to missed runs', async (misfirePolicy, expectedRuns) => {
+        const now = Date.now()
+        const agent = createAgent({ type: 'recurring', interval: 600, misfirePolicy })
+        // Missed while the server was down: every 10 minutes for the last hour
+        await store.enqueue({
+            kind: 'schedule',
+            agent,
+            idempotencyKey: 'schedule:durable-agent:missed',
+            runAt: new Date(now - 61 * 60 * 1000)
+        })
+        const executeAgent = vi.fn(async () => ({ success: true }))
+        const service = new AgentSchedulingService({ store, executeAgent })
+
+        await (service as any).processScheduledJobs()
+
+        expect(executeAgent).toHaveBeenCalledTimes(expectedRuns)
+        if (misfirePolicy === 'fire-once') {
+            expect(executeAgent.mock.calls[0]).toEqual([
+                expect.objectContaining({ id: 'durable-agent' }),
+                { type: 'schedule', data: { scheduledFor: expect.any(String), misfired: true } },
+                { idempotencyKey: 'schedule:durable-agent:missed' }
+            ])
+        }
+
+        // The schedule resumes on its original 10 minute grid
+        const [next] = await store.listJobs({ statuses: ['pending'] })
+        expect(new Date(next.runAt).getTime()).toBe(now + 9 * 60 * 1000)
+        expect(service.getScheduledJob('durable-agent')?.nextExecution?.getTime()).toBe(now + 9 * 60 * 1000)
+        service.destroy()
+    })
+
+    it('should replay only the latest missed runs under fire-all', async () => {
+        const mockConsoleWarn = vi.spyOn(console, 'warn').mockImplementation(() => { })
+        const now = Date.now()
+        const agent = createAgent({ type: 'recurring', interval: 600, misfirePolicy: 'fire-all' })
+        await store.enqueue({
+            kind: 'schedule',
+            agent,
+            idempotencyKey: 'schedule:durable-agent:missed',
+            runAt: new Date(now - 61 * 60 * 1000)
+        })
+        const executeAgent = vi.fn(async () => ({ success: true }))
+        const service = new AgentSchedulingService({ store, executeAgent, maxCatchUpRuns: 3 })
+
+        await (service as any).processScheduledJobs()
+
+        expect(executeAgent.mock.calls.map(call => (call as any[])[1].data.scheduledFor)).toEqual([
+            new Date(now - 21 * 60 * 1000).toISOString(),
+            new Date(now - 11 * 60 * 1000).toISOString(),
+            new Date(now - 1 * 60 * 1000).toISOString()
+        ])
+        expect(mockConsoleWarn).toHaveBeenCalledWith(expect.stringContaining('Skipping 4 missed runs of agent durable-agent'))
+
+        const [next] = await store.listJobs({ statuses: ['pending'] })
+        expect(new Date(next.runAt).getTime()).toBe(now + 9 * 60 * 1000)
+        service.destroy()
+        mockConsoleWarn.mockRestore()
+    })
+
+    it('should redeliver a job whose worker lost its lease', async () => {
+        await store.enqueue({
+            kind: 'schedule',
+            agent: createAgent({ type: 'one-time' }),
+            idempotencyKey: 'schedule:durable-agent:once',
+            runAt: new Date()
+        })
+        // A worker that crashed mid-run never completes its lease
+        const [abandoned] = await store.lease('crashed-worker', { leaseMs: -1 })
+        const executeAgent = vi.fn(async () => ({ success: true }))
+        const service = new AgentSchedulingService({ store, executeAgent })
+
+        await (service as any).processScheduledJobs()
+
+        expect(executeAgent).toHaveBeenCalledTimes(1)
+        expect(await store.getJob(abandoned.id)).toMatchObject({ status: 'completed', deliveries: 2 })
+        expect(await store.complete(abandoned.id, 'crashed-worker')).toBe(false)
+        service.destroy()
+    })
+
+    it('should prune finished jobs from the store on an interval', async () => {
+        const job = await store.enqueue({
+            kind: 'trigger',
+            agent: createAgent({ type: 'one-time' }),
+            idempotencyKey: 'trigger:durable-agent:done',
+            runAt: new Date()
+        })
+        await store.lease('worker-a')
+        await store.complete(job.id, 'worker-a')
+        const service = new AgentSchedulingService({ store, pruneInterval: 10, retention: -1000 })
+
+        await vi.waitFor(async () => expect(await store.getJob(job.id)).toBeNull())
+        service.destroy()
+    })
+})
+
+describe('Flow Event Triggers', () => {
+    const DEPOSITED = 'A.1654653399040a61.FlowToken.TokensDeposited'
+    const WATCHED = '0x01cf0e2f2f715450'
+    let store: AgentJobStore
+    let mockConsoleLog: any
+
+    const createAgent = (): Agent => ({
+        id: 'event-agent',
+        name: 'Event Agent',
+        description: 'Forwards deposits',
+        workflowId: 'test-workflow',
+        schedule: { type: 'event-driven' },
+        triggers: [{
+            type: 'flow-event',
+            parameters: {},
+            flowEvent: {
+                eventType: 'A.0x1654653399040a61.FlowToken.TokensDeposited',
+                filters: [{ field: 'to', operator: 'eq', value: WATCHED }],
+                parameterBindings: { 'transfer-1.amount': 'data.amount' }
+            }
+        }],
+        status: AgentStatus.ACTIVE,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+        owner: 'test-user'
+    })
+
+    const deposit = (blockHeight: number, to: string, amount: string): FlowChainEvent => ({
+        type: DEPOSITED,
+        transactionId: `tx-${blockHeight}`,
+        transactionIndex: 0,
+        eventIndex: 1,
+        blockId: `block-${blockHeight}`,
+        blockHeight,
+        blockTimestamp: new Date().toISOString(),
+        data: { amount, to }
+    })
+
+    // Sealed height 100 when the agent starts watching
+    const createSource = (events: FlowChainEvent[]) => {
+        let height = 100
+        const source = {
+            getLatestSealedHeight: vi.fn(async () => height),
+            getEvents: vi.fn(async (type: string, start: number, end: number) =>
+                events.filter(event => event.type === type && event.blockHeight >= start && event.blockHeight <= end))
+        } satisfies FlowEventSource
+        return { source, advanceTo: (next: number) => { height = next } }
+    }
+
+    beforeEach(() => {
+        store = createAgentJobStore(new InMemoryAgentJobStoreAdapter())
+        mockConsoleLog = vi.spyOn(console, 'log').mockImplementation(() => { })
+    })
+
+    afterEach(() => {
+        mockConsoleLog.mockRestore()
+    })
+
+    it('should run the agent for matching events with their fields as workflow parameters', async () => {
+        const { source, advanceTo } = createSource([
+            deposit(95, WATCHED, '5.00000000'),
+            deposit(101, '0xf8d6e0586b0a20c7', '1.00000000'),
+            deposit(102, WATCHED.slice(2), '42.50000000')
+        ])
+        const executeAgent = vi.fn(async () => ({ success: true }))
+        const service = new AgentSchedulingService({ store, executeAgent, eventSource: source })
+        await service.scheduleAgent(createAgent())
+
+        // The first poll records the current head; earlier events are history
+        await (service as any).processFlowEvents()
+        expect(source.getEvents).not.toHaveBeenCalled()
+
+        advanceTo(105)
+        await (service as any).processFlowEvents()
+
+        expect(source.getEvents).toHaveBeenCalledWith(DEPOSITED, 101, 105)
+        expect(executeAgent).toHaveBeenCalledTimes(1)
+        expect(executeAgent).toHaveBeenCalledWith(
+            expect.objectContaining({ id: 'event-agent' }),
+            {
+                type: 'flow-event',
+                data: {
+                    event: expect.objectContaining({ transactionId: 'tx-102', blockHeight: 102 }),
+                    parameters: { 'transfer-1': { amount: '42.50000000' } }
+                }
+            },
+            { idempotencyKey: 'flow-event:event-agent:0:tx-102:1' }
+        )
+        service.destroy()
+    })
+
+    it('should resume from the persisted checkpoint after a restart', async () => {
+        const { source, advanceTo } = createSource([deposit(103, WATCHED, '1.0'), deposit(108, WATCHED, '2.0')])
+        const executeAgent = vi.fn(async () => ({ success: true }))
+
+        const first = new AgentSchedulingService({ store, executeAgent, eventSource: source })
+        await first.scheduleAgent(createAgent())
+        await (first as any).processFlowEvents()
+        advanceTo(105)
+        await (first as any).processFlowEvents()
+        first.destroy()
+
+        // Blocks sealed while the server was down are still scanned
+        advanceTo(110)
+        const restarted = new AgentSchedulingService({ store, executeAgent, eventSource: source })
+        await (restarted as any).ready
+        await (restarted as any).processFlowEvents()
+
+        expect(executeAgent.mock.calls.map(([, trigger]: any[]) => trigger.data.event.transactionId)).toEqual(['tx-103', 'tx-108'])
+        expect(source.getEvents).toHaveBeenLastCalledWith(DEPOSITED, 106, 110)
+        restarted.destroy()
+    })
+})
+
+describe('Oracle Price Triggers', () => {
+    let store: AgentJobStore
+    let price: number
+    let observedAt: () => string
+    let mockConsoleLog: any
+    let mockConsoleWarn: any
+
+    const adapter: OracleAdapter = {
+        id: 'flow-usd',
+        read: async () => ({ value: price, timestamp: observedAt(), source: 'flow-usd' })
+    }
+
+    const createAgent = (condition: TriggerCondition): Agent => ({
+        id: 'price-agent',
+        name: 'Price Agent',
+        description: 'Buys the dip',
+        workflowId: 'test-workflow',
+        schedule: { type: 'event-driven' },
+        triggers: [{
+            type: 'price',
+            condition,
+            parameters: {},
+            oracle: { type: 'http-json', url: 'https://prices.example.com/flow', valuePath: 'usd', cacheTtl: 0, maxAge: 60 }
+        }],
+        status: AgentStatus.ACTIVE,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+        owner: 'test-user'
+    })
+
+    // Read the oracle at the given price, one second after the last reading
+    const createService = async (condition: TriggerCondition) => {
+        const executeAgent = vi.fn(async () => ({ success: true }))
+        const service = new AgentSchedulingService({ store, executeAgent, createOracleAdapter: () => adapter })
+        await service.scheduleAgent(createAgent(condition))
+        const [connection] = service.getOracleConnections('price-agent')
+        const readAt = async (value: number, advance = 1000) => {
+            vi.setSystemTime(Date.now() + advance)
+            price = value
+            await (service as any).pollOracle(connection)
+        }
+        return { service, executeAgent, connection, readAt }
+    }
+
+    beforeEach(() => {
+        vi.useFakeTimers({ toFake: ['Date'] })
+        vi.setSystemTime(new Date('2024-01-01T00:00:00.000Z'))
+        store = createAgentJobStore(new InMemoryAgentJobStoreAdapter())
+        price = 90
+        observedAt = () => new Date().toISOString()
+        mockConsoleLog = vi.spyOn(console, 'log').mockImplementation(() => { })
+        mockConsoleWarn = vi.spyOn(console, 'warn').mockImplementation(() => { })
+    })
+
+    afterEach(() => {
+        vi.useRealTimers()
+        mockConsoleLog.mockRestore()
+        mockConsoleWarn.mockRestore()
+    })
+
+    it('should fire once per crossing and re-arm only past the hysteresis band', async () => {
+        const { service, executeAgent, readAt } = await createService({ operator: 'gt', value: 100, hysteresis: 5 })
+
+        await readAt(101)
+        await readAt(99)
+        await readAt(102)
+        expect(executeAgent).toHaveBeenCalledTimes(1)
+        expect(executeAgent).toHaveBeenLastCalledWith(
+            expect.objectContaining({ id: 'price-agent' }),
+            { type: 'price', data: { condition: { operator: 'gt', value: 100, hysteresis: 5 }, value: 101 } },
+            expect.anything()
+        )
+
+        await readAt(95)
+        await readAt(101)
+        expect(executeAgent).toHaveBeenCalledTimes(2)
+        service.destroy()
+    })
+
+    it('should fire only after the condition holds for the debounce period', async () => {
+        const { service, executeAgent, readAt } = await createService({ operator: 'lt', value: 50, debounce: 60000 })
+
+        await readAt(45)
+        await readAt(46, 30000)
+        await readAt(55, 10000)
+        await readAt(45, 10000)
+        await readAt(44, 50000)
+        expect(executeAgent).not.toHaveBeenCalled()
+
+        await readAt(43, 10000)
+        expect(executeAgent).toHaveBeenCalledTimes(1)
+        service.destroy()
+    })
+
+    it('should not evaluate stale readings', async () => {
+        const { service, executeAgent, connection, readAt } = await createService({ operator: 'gt', value: 100 })
+        observedAt = () => new Date(Date.now() - 120000).toISOString()
+
+        await readAt(150)
+
+        expect(executeAgent).not.toHaveBeenCalled()
+        expect(connection.isConnected).toBe(true)
+        expect(connection.error).toMatch(/120s old/)
+        expect(service.getEventMonitor('price-agent')?.triggerStates.get(0)?.lastValue).toBe(90)
+        service.destroy()
+    })
+
+    it('should keep separate state for triggers of the same type', async () => {
+        const executeAgent = vi.fn(async () => ({ success: true }))
+        const service = new AgentSchedulingService({ store, executeAgent, createOracleAdapter: () => adapter })
+        const agent = createAgent({ operator: 'gt', value: 100 })
+        agent.triggers.push({ ...agent.triggers[0], condition: { operator: 'lt', value: 120 } })
+        await service.scheduleAgent(agent)
+
+        price = 110
+        for (const connection of service.getOracleConnections('price-agent')) {
+            await (service as any).pollOracle(connection)
+        }
+
+        expect(executeAgent).toHaveBeenCalledTimes(2)
+        const keys = executeAgent.mock.calls.map(([, , options]: any[]) => options.idempotencyKey).sort()
+        expect(keys).toEqual([
+            expect.stringMatching(/^trigger:price-agent:0:/),
+            expect.stringMatching(/^trigger:price-agent:1:/)
+        ])
+        service.destroy()
+    })
+
+    it('should stop polling the oracle when the agent is unscheduled', async () => {
+        const { service } = await createService({ operator: 'gt', value: 100 })
+
+        await service.unscheduleAgent('price-agent')
+
+        expect(service.getOracleConnections('price-agent')).toEqual([])
+        service.destroy()
+    })
+})
+
 describe('Trigger Condition Evaluation', () => {
     let service: AgentSchedulingService
     let mockConsoleLog: any
 
     beforeEach(() => {
-        service = new AgentSchedulingService()
+        service = new AgentSchedulingService({ store: createAgentJobStore(new InMemoryAgentJobStoreAdapter()) })
         mockConsoleLog = vi.spyOn(console, 'log').mockImplementation(() => { })
     })
 
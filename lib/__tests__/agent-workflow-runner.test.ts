@@ -0,0 +1,392 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { spawnSync } from 'child_process'
+import {
+  FlowAgentWorkflowRunner,
+  AgentExecutionError,
+  AgentTransactionPendingError,
+  createAgentNetworkConfig,
+  createAgentWorkflowRunnerFromEnv,
+  AGENT_NETWORK_CONTRACTS
+} from '../agent-workflow-runner'
+import { AgentExecutionService } from '../agent-execution-service'
+import { CadenceGenerator } from '../cadence-generator'
+import {
+  FlowTransactionManager,
+  Transaction,
+  TransactionExecutionOptions,
+  TransactionResult,
+  TransactionStatus
+} from '../transaction-manager'
+import { ServiceAccountSigner } from '../service-account-signer'
+import { FlowEmulatorProcess } from '../flow-emulator-process'
+import { AgentPolicyEngine, AgentPolicyViolationError } from '../agent-policy'
+import { AgentJobStore, InMemoryAgentJobStoreAdapter } from '../agent-job-store'
+import { ApprovalRequiredError, ApprovalService } from '../approval-service'
+import { WorkflowStorageService, InMemoryWorkflowStorageAdapter } from '../workflow-storage'
+import { Agent, AgentStatus, ParsedWorkflow } from '../types'
+
+const createWorkflow = (): ParsedWorkflow => ({
+  actions: [
+    {
+      id: 'transfer-1',
+      actionType: 'transfer-tokens',
+      name: 'Transfer Tokens',
+      parameters: [
+        { name: 'recipient', type: 'Address', value: '0xf8d6e0586b0a20c7', required: true },
+        { name: 'amount', type: 'UFix64', value: '1.0', required: true }
+      ],
+      nextActions: [],
+      position: { x: 0, y: 0 }
+    }
+  ],
+  executionOrder: ['transfer-1'],
+  rootActions: ['transfer-1'],
+  metadata: {
+    totalActions: 1,
+    totalConnections: 0,
+    createdAt: '2024-01-01T00:00:00.000Z'
+  }
+})
+
+const createAgent = (workflowId: string): Agent => ({
+  id: 'agent-1',
+  name: 'Test Agent',
+  description: 'Transfers tokens every hour',
+  workflowId,
+  schedule: { type: 'recurring', interval: 3600 },
+  triggers: [],
+  status: AgentStatus.ACTIVE,
+  createdAt: new Date().toISOString(),
+  updatedAt: new Date().toISOString(),
+  owner: 'test-user'
+})
+
+const TX_ID = 'a'.repeat(64)
+
+const createTransactionManager = (overrides: Partial<TransactionResult> = {}) => ({
+  createTransaction: vi.fn(async (cadenceCode: string): Promise<Transaction> => ({
+    id: 'tx_local',
+    cadenceCode,
+    arguments: [],
+    gasLimit: 9999,
+    proposer: '0xf8d6e0586b0a20c7',
+    authorizers: ['0xf8d6e0586b0a20c7'],
+    payer: '0xf8d6e0586b0a20c7'
+  })),
+  executeTransaction: vi.fn(async (): Promise<TransactionResult> => ({
+    transactionId: TX_ID,
+    status: TransactionStatus.SEALED,
+    blockHeight: 12,
+    gasUsed: 37,
+    events: [
+      { type: 'A.0ae53cb6e3f42a79.FlowToken.TokensWithdrawn', transactionId: TX_ID, transactionIndex: 0, eventIndex: 0, data: { amount: '1.0' } }
+    ],
+    timestamp: new Date(),
+    executionTime: 120,
+    ...overrides
+  }))
+})
+
+describe('FlowAgentWorkflowRunner', () => {
+  let storage: WorkflowStorageService
+  let workflowId: string
+
+  beforeEach(async () => {
+    storage = new WorkflowStorageService(new InMemoryWorkflowStorageAdapter())
+    workflowId = (await storage.save(createWorkflow(), { name: 'Transfer' })).workflowId
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should generate Cadence from the saved workflow and report the sealed transaction', async () => {
+    const generate = vi.spyOn(CadenceGenerator, 'generateTransactionWithDetails')
+    const transactionManager = createTransactionManager()
+    const runner = new FlowAgentWorkflowRunner({ transactionManager, storage, network: 'emulator', gasLimit: 500 })
+
+    const result = await runner.run(createAgent(workflowId), { executionId: 'exec-1' })
+
+    expect(generate).toHaveBeenCalledWith(expect.objectContaining({ executionOrder: ['transfer-1'] }), { enableFallbacks: false })
+    const [code, options] = transactionManager.createTransaction.mock.calls[0] as unknown as [string, any]
+    expect(code).toContain('transaction()')
+    expect(options).toMatchObject({ gasLimit: 500, workflowId, actionCount: 1 })
+    expect(result).toMatchObject({
+      success: true,
+      transactionId: TX_ID,
+      status: TransactionStatus.SEALED,
+      blockHeight: 12,
+      gasUsed: 37,
+      cadenceCode: code,
+      events: [{ type: 'A.0ae53cb6e3f42a79.FlowToken.TokensWithdrawn', data: { amount: '1.0' } }]
+    })
+    expect(result.details).toEqual(['Workflow version 1', 'Execution exec-1'])
+    expect(result.arguments).toEqual([
+      { actionId: 'transfer-1', name: 'recipient', type: 'Address', value: '0xf8d6e0586b0a20c7' },
+      { actionId: 'transfer-1', name: 'amount', type: 'UFix64', value: '1.0' }
+    ])
+  })
+
+  it('should fail without submitting when the workflow is missing', async () => {
+    const transactionManager = createTransactionManager()
+    const runner = new FlowAgentWorkflowRunner({ transactionManager, storage })
+
+    await expect(runner.run(createAgent('wf_missing'), { executionId: 'exec-1' }))
+      .rejects.toThrow(/wf_missing .* was not found/)
+    expect(transactionManager.createTransaction).not.toHaveBeenCalled()
+  })
+
+  it('should fail without submitting when Cadence generation fails', async () => {
+    vi.spyOn(CadenceGenerator, 'generateTransactionWithDetails').mockResolvedValue({
+      code: '',
+      success: false,
+      errors: ['Unknown action type'],
+      warnings: [],
+      fallbackUsed: false,
+      generationTime: 1
+    } as any)
+    const transactionManager = createTransactionManager()
+    const runner = new FlowAgentWorkflowRunner({ transactionManager, storage })
+
+    await expect(runner.run(createAgent(workflowId), { executionId: 'exec-1' }))
+      .rejects.toThrow('Cadence generation failed: Unknown action type')
+    expect(transactionManager.createTransaction).not.toHaveBeenCalled()
+  })
+
+  it('should throw with the transaction result when the transaction reverts', async () => {
+    const transactionManager = createTransactionManager({
+      status: TransactionStatus.FAILED,
+      error: 'pre-condition failed',
+      events: []
+    })
+    const runner = new FlowAgentWorkflowRunner({ transactionManager, storage })
+
+    const error = await runner.run(createAgent(workflowId), { executionId: 'exec-1' }).catch(e => e)
+
+    expect(error).toBeInstanceOf(AgentExecutionError)
+    expect(error.message).toContain('pre-condition failed')
+    expect(error.result).toMatchObject({ success: false, transactionId: TX_ID, status: TransactionStatus.FAILED })
+  })
+
+  it('should report a transaction that did not seal in time as unconfirmed', async () => {
+    const transactionManager = createTransactionManager({
+      status: TransactionStatus.PENDING,
+      error: 'not sealed within 60000ms',
+      events: []
+    })
+    const runner = new FlowAgentWorkflowRunner({ transactionManager, storage })
+    const onSubmitted = vi.fn()
+
+    const error = await runner.run(createAgent(workflowId), { executionId: 'exec-1', onSubmitted }).catch(e => e)
+
+    expect(error).toBeInstanceOf(AgentTransactionPendingError)
+    expect(error.result).toMatchObject({ success: false, transactionId: TX_ID, status: TransactionStatus.PENDING })
+    expect(transactionManager.executeTransaction).toHaveBeenCalledWith(expect.anything(), { onSubmitted })
+  })
+
+  it('should not resend an unconfirmed transaction', async () => {
+    const transactionManager = {
+      ...createTransactionManager(),
+      executeTransaction: vi.fn(async (_transaction: Transaction, options: TransactionExecutionOptions = {}): Promise<TransactionResult> => {
+        await options.onSubmitted?.(TX_ID)
+        return {
+          transactionId: TX_ID,
+          status: TransactionStatus.PENDING,
+          events: [],
+          gasUsed: 0,
+          blockHeight: 0,
+          timestamp: new Date(),
+          executionTime: 60000
+        }
+      })
+    }
+    const store = new AgentJobStore(new InMemoryAgentJobStoreAdapter())
+    const service = new AgentExecutionService({
+      runner: new FlowAgentWorkflowRunner({ transactionManager, storage }),
+      store
+    })
+    const agent = createAgent(workflowId)
+
+    const first = await service.executeAgent(agent, { type: 'schedule' }, { idempotencyKey: 'run-1' })
+    const again = await service.executeAgent(agent, { type: 'schedule' }, { idempotencyKey: 'run-1' })
+    service.destroy()
+
+    expect(first).toMatchObject({ success: false })
+    expect(first.error).not.toContain('scheduled for retry')
+    expect(again).toMatchObject({ success: false, transactionId: TX_ID, status: TransactionStatus.PENDING })
+    expect(transactionManager.executeTransaction).toHaveBeenCalledTimes(1)
+    expect(await store.listJobs({ agentId: agent.id })).toEqual([])
+    expect(await store.getExecution('run-1')).toMatchObject({ status: 'submitted', transactionId: TX_ID })
+  })
+
+  it('should apply trigger parameters over the saved workflow values', async () => {
+    const generate = vi.spyOn(CadenceGenerator, 'generateTransactionWithDetails')
+    const transactionManager = createTransactionManager()
+    const runner = new FlowAgentWorkflowRunner({ transactionManager, storage })
+
+    await runner.run(createAgent(workflowId), {
+      executionId: 'exec-1',
+      trigger: { type: 'flow-event', data: { parameters: { 'transfer-1': { amount: 42.5 } } } }
+    })
+
+    const [workflow] = generate.mock.calls[0]
+    expect(workflow.actions[0].parameters.find(parameter => parameter.name === 'amount')?.value).toBe('42.5')
+    expect((await storage.get(workflowId))!.workflow.actions[0].parameters[1].value).toBe('1.0')
+  })
+
+  it('should reject trigger parameters for unknown actions', async () => {
+    const transactionManager = createTransactionManager()
+    const runner = new FlowAgentWorkflowRunner({ transactionManager, storage })
+
+    await expect(runner.run(createAgent(workflowId), {
+      executionId: 'exec-1',
+      trigger: { type: 'flow-event', data: { parameters: { 'swap-1': { amount: 1 } } } }
+    })).rejects.toThrow('Trigger parameters target unknown action swap-1')
+    expect(transactionManager.createTransaction).not.toHaveBeenCalled()
+  })
+
+  describe('agent policy', () => {
+    let policyEngine: AgentPolicyEngine
+    let store: AgentJobStore
+
+    beforeEach(() => {
+      store = new AgentJobStore(new InMemoryAgentJobStoreAdapter())
+      policyEngine = new AgentPolicyEngine({ store })
+    })
+
+    it('should refuse to submit a run that violates the policy', async () => {
+      const transactionManager = createTransactionManager()
+      const runner = new FlowAgentWorkflowRunner({ transactionManager, storage, policyEngine })
+      const agent = { ...createAgent(workflowId), policy: { allowedRecipients: ['0x01cf0e2f2f715450'] } }
+
+      const error = await runner.run(agent, { executionId: 'exec-1' }).catch(e => e)
+
+      expect(error).toBeInstanceOf(AgentPolicyViolationError)
+      expect(error.violations).toEqual([expect.objectContaining({ rule: 'recipient', actionId: 'transfer-1' })])
+      expect(transactionManager.createTransaction).not.toHaveBeenCalled()
+    })
+
+    it('should compile spending limits into post-conditions and cap the gas limit', async () => {
+      const transactionManager = createTransactionManager()
+      const runner = new FlowAgentWorkflowRunner({ transactionManager, storage, policyEngine, gasLimit: 500 })
+      const agent = { ...createAgent(workflowId), policy: { maxAmountPerRun: 2.5, maxGasPerExecution: 300 } }
+
+      await runner.run(agent, { executionId: 'exec-1' })
+
+      const [code, options] = transactionManager.createTransaction.mock.calls[0] as unknown as [string, any]
+      expect(code).toContain('self.spendingVault0 = signer.storage.borrow<&{FungibleToken.Balance}>(from: /storage/flowTokenVault)')
+      expect(code).toContain('self.spendingVault0.balance + 2.50000000 >= self.balanceBefore0')
+      expect(code).toContain('Agent spending limit exceeded')
+      expect(options.gasLimit).toBe(300)
+      expect(await store.listSpending(agent.id, new Date(Date.now() - 60000))).toEqual([
+        expect.objectContaining({ executionId: 'exec-1', token: 'FLOW', amount: 1 })
+      ])
+    })
+
+    it('should not record spending for a reverted run', async () => {
+      const transactionManager = createTransactionManager({ status: TransactionStatus.FAILED, error: 'reverted', events: [] })
+      const runner = new FlowAgentWorkflowRunner({ transactionManager, storage, policyEngine })
+      const agent = { ...createAgent(workflowId), policy: { maxAmountPerDay: 10 } }
+
+      await expect(runner.run(agent, { executionId: 'exec-1' })).rejects.toThrow(AgentExecutionError)
+      expect(await store.listSpending(agent.id, new Date(0))).toEqual([])
+    })
+
+    it('should keep the spending of an unconfirmed run reserved', async () => {
+      const transactionManager = createTransactionManager({ status: TransactionStatus.PENDING, events: [] })
+      const runner = new FlowAgentWorkflowRunner({ transactionManager, storage, policyEngine })
+      const agent = { ...createAgent(workflowId), policy: { maxAmountPerDay: 10 } }
+
+      await expect(runner.run(agent, { executionId: 'exec-1' })).rejects.toThrow(AgentTransactionPendingError)
+      expect(await store.listSpending(agent.id, new Date(0))).toEqual([
+        expect.objectContaining({ executionId: 'exec-1', token: 'FLOW', amount: 1 })
+      ])
+    })
+  })
+
+  describe('approvals', () => {
+    it('should hold a risky transaction until it is approved', async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {})
+      const store = new AgentJobStore(new InMemoryAgentJobStoreAdapter())
+      const approvals = new ApprovalService({ store, defaultPolicy: { approvers: ['alice'], requiredApprovals: 1 } })
+      const transactionManager = createTransactionManager()
+      const runner = new FlowAgentWorkflowRunner({ transactionManager, storage, approvals })
+      const agent = createAgent(workflowId)
+      const trigger = { type: 'price', data: { parameters: { 'transfer-1': { amount: '75.0' } } } }
+
+      const error = await runner.run(agent, { executionId: 'exec-1', idempotencyKey: 'trigger:agent-1:1', trigger }).catch(e => e)
+
+      expect(error).toBeInstanceOf(ApprovalRequiredError)
+      expect(error.approval).toMatchObject({ sourceKey: 'trigger:agent-1:1', risk: { value: '75.00000000' } })
+      expect(transactionManager.executeTransaction).not.toHaveBeenCalled()
+
+      await approvals.decide(error.approval.id, 'alice', 'approve')
+      const result = await runner.run(agent, {
+        executionId: 'exec-2',
+        trigger: { type: 'approval', data: { ...trigger.data, approvalId: error.approval.id } }
+      })
+
+      expect(result.success).toBe(true)
+      expect(await store.getApproval(error.approval.id)).toMatchObject({ status: 'executed' })
+    })
+  })
+})
+
+describe('createAgentWorkflowRunnerFromEnv', () => {
+  it('should require a service account', () => {
+    expect(() => createAgentWorkflowRunnerFromEnv({ FLOW_AGENT_NETWORK: 'emulator' }))
+      .toThrow(/FLOW_SERVICE_ACCOUNT_ADDRESS/)
+  })
+
+  it('should reject unknown networks', () => {
+    expect(() => createAgentWorkflowRunnerFromEnv({ FLOW_AGENT_NETWORK: 'devnet' }))
+      .toThrow('Unsupported agent network: devnet')
+  })
+
+  it('should point the emulator network at the local access node', () => {
+    expect(createAgentNetworkConfig('emulator', {}).accessNode).toBe('http://127.0.0.1:8888')
+    expect(createAgentNetworkConfig('emulator', { FLOW_EMULATOR_ACCESS_NODE: 'http://localhost:9999' }).fclConfig['accessNode.api'])
+      .toBe('http://localhost:9999')
+  })
+})
+
+// Runs only where the Flow CLI is installed
+const hasFlowCli = spawnSync('flow', ['version'], { stdio: 'ignore' }).status === 0
+
+describe.skipIf(!hasFlowCli)('agent execution against the Flow emulator', () => {
+  const emulator = new FlowEmulatorProcess({ restPort: 8898, grpcPort: 3579, adminPort: 8090 })
+
+  beforeEach(async () => {
+    await emulator.start()
+  }, 60000)
+
+  afterEach(async () => {
+    await emulator.stop()
+  })
+
+  it('should record the sealed transaction of a scheduled run', async () => {
+    const account = emulator.getServiceAccount()
+    const network = createAgentNetworkConfig('emulator', { FLOW_EMULATOR_ACCESS_NODE: 'http://127.0.0.1:8898' })
+    const transactionManager = new FlowTransactionManager(network, {
+      signer: new ServiceAccountSigner({
+        ...account,
+        keyIndex: 0,
+        signatureAlgorithm: 'ECDSA_P256',
+        hashAlgorithm: 'SHA3_256'
+      }),
+      contracts: AGENT_NETWORK_CONTRACTS.emulator
+    })
+    const storage = new WorkflowStorageService(new InMemoryWorkflowStorageAdapter())
+    const { workflowId } = await storage.save(createWorkflow(), { name: 'Transfer' })
+    const service = new AgentExecutionService({
+      runner: new FlowAgentWorkflowRunner({ transactionManager, storage, network: 'emulator' })
+    })
+
+    const result = await service.executeAgent(createAgent(workflowId), { type: 'schedule' })
+
+    expect(result.success).toBe(true)
+    expect(result.transactionId).toMatch(/^[0-9a-f]{64}$/)
+    expect(result.status).toBe(TransactionStatus.SEALED)
+    expect(result.events?.length).toBeGreaterThan(0)
+  }, 60000)
+})
@@ -86,6 +86,7 @@ vi.mock('@/lib/action-discovery-service', () => ({
 
 vi.mock('@/lib/agent-management-service', () => ({
   agentManagementService: {
+    initialize: vi.fn().mockResolvedValue(undefined),
     getAllAgents: vi.fn().mockReturnValue([]),
     getUserAgents: vi.fn().mockReturnValue([]),
     getAgentStatus: vi.fn().mockReturnValue(null),
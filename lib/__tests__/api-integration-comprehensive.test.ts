@@ -212,6 +212,7 @@ vi.mock('@/lib/action-discovery-service', () => ({
 
 vi.mock('@/lib/agent-management-service', () => ({
   agentManagementService: {
+    initialize: vi.fn().mockResolvedValue(undefined),
     getAllAgents: vi.fn().mockReturnValue([
       {
         id: 'agent_123',
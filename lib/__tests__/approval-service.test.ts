@@ -0,0 +1,272 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import {
+  ApprovalCheck,
+  ApprovalError,
+  ApprovalPolicy,
+  ApprovalRequiredError,
+  ApprovalService,
+  getApprovalPolicyFromEnv,
+  validateApprovalPolicy
+} from '../approval-service'
+import { AgentJobStore, InMemoryAgentJobStoreAdapter } from '../agent-job-store'
+import { Agent, AgentStatus, NotificationConfig, ParsedWorkflow } from '../types'
+
+const SIGNER = '0xf8d6e0586b0a20c7'
+
+const createWorkflow = (amount: string): ParsedWorkflow => ({
+  actions: [{
+    id: 'transfer-1',
+    actionType: 'transfer-tokens',
+    name: 'Transfer',
+    parameters: [
+      { name: 'recipient', type: 'Address', value: '0x01cf0e2f2f715450', required: true },
+      { name: 'amount', type: 'UFix64', value: amount, required: true }
+    ],
+    nextActions: [],
+    position: { x: 0, y: 0 }
+  }],
+  executionOrder: ['transfer-1'],
+  rootActions: ['transfer-1'],
+  metadata: { totalActions: 1, totalConnections: 0, createdAt: '2024-01-01T00:00:00.000Z' }
+})
+
+const agent: Agent = {
+  id: 'agent-1',
+  name: 'Treasury Agent',
+  description: 'Moves treasury funds',
+  workflowId: 'wf-1',
+  schedule: { type: 'recurring', interval: 3600 },
+  triggers: [],
+  status: AgentStatus.ACTIVE,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  owner: 'owner-1'
+}
+
+const notifications: NotificationConfig = {
+  onSuccess: false,
+  onFailure: false,
+  channels: ['webhook'],
+  webhook: 'https://hooks.example.com/approvals'
+}
+
+const check = (overrides: Partial<ApprovalCheck> = {}): ApprovalCheck => ({
+  kind: 'agent',
+  agentId: agent.id,
+  workflowId: agent.workflowId,
+  subject: agent.name,
+  sourceKey: 'schedule:agent-1:1',
+  transaction: { cadenceCode: 'transaction { execute { log("100.0") } }', gasLimit: 9999, authorizers: [SIGNER] },
+  workflow: createWorkflow('100.0'),
+  requestedBy: agent.owner,
+  trigger: { type: 'flow-event', data: { parameters: { 'transfer-1': { amount: '100.0' } } } },
+  ...overrides
+})
+
+const pendingApproval = async (service: ApprovalService, input = check()) => {
+  const error = await service.check(input).catch(e => e)
+  expect(error).toBeInstanceOf(ApprovalRequiredError)
+  return (error as ApprovalRequiredError).approval
+}
+
+describe('ApprovalService', () => {
+  let store: AgentJobStore
+  let notifier: { notifyApprovers: ReturnType<typeof vi.fn> }
+  let service: ApprovalService
+  const policy: ApprovalPolicy = { approvers: ['alice', 'bob', 'carol'], requiredApprovals: 2, notifications }
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    store = new AgentJobStore(new InMemoryAgentJobStoreAdapter())
+    notifier = { notifyApprovers: vi.fn().mockResolvedValue([]) }
+    service = new ApprovalService({ store, notifier, defaultPolicy: policy, getWorkflowOwner: async () => 'owner-1' })
+    await store.saveAgent(agent)
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    vi.useRealTimers()
+  })
+
+  describe('policies', () => {
+    it('should reject policies that can never be satisfied', () => {
+      expect(() => validateApprovalPolicy({ approvers: ['alice'], requiredApprovals: 2 })).toThrow(/exceeds/)
+      expect(() => validateApprovalPolicy({ approvers: ['alice', 'alice'], requiredApprovals: 1 })).toThrow(/repeat/)
+      expect(() => validateApprovalPolicy({ approvers: ['alice'], requiredApprovals: 0 })).toThrow(/positive/)
+      expect(() => validateApprovalPolicy({ approvers: ['alice'], requiredApprovals: 1, expiresIn: 5 })).toThrow(/expiresIn/)
+    })
+
+    it('should read the default policy from the environment', () => {
+      expect(getApprovalPolicyFromEnv({})).toBeNull()
+      expect(getApprovalPolicyFromEnv({ APPROVAL_APPROVERS: 'alice, bob', APPROVAL_REQUIRED: '2', APPROVAL_TTL_SECONDS: '3600' }))
+        .toEqual({ approvers: ['alice', 'bob'], requiredApprovals: 2, expiresIn: 3600 })
+    })
+
+    it('should prefer the workflow\'s own policy over the default', async () => {
+      await service.setPolicy('wf-1', { approvers: ['dave'], requiredApprovals: 1 }, { userId: 'owner-1', admin: false })
+
+      const approval = await pendingApproval(service)
+
+      expect(approval).toMatchObject({ approvers: ['dave'], requiredApprovals: 1 })
+      expect(await service.getPolicy('wf-other')).toEqual(policy)
+    })
+
+    it('should let only the workflow\'s owner or an admin change its policy', async () => {
+      const takeover: ApprovalPolicy = { approvers: ['mallory'], requiredApprovals: 1 }
+
+      await expect(service.setPolicy('wf-1', takeover, { userId: 'mallory', admin: false }))
+        .rejects.toMatchObject({ name: 'ApprovalError', code: 'FORBIDDEN' })
+      expect(await service.getWorkflowPolicy('wf-1')).toBeNull()
+
+      await service.setPolicy('wf-1', { approvers: ['dave'], requiredApprovals: 1 }, { userId: 'root', admin: true })
+      expect(await service.getWorkflowPolicy('wf-1')).toMatchObject({ approvers: ['dave'] })
+    })
+
+    it('should leave policies of workflows saved without an owner to admins', async () => {
+      service = new ApprovalService({ store, notifier, defaultPolicy: policy, getWorkflowOwner: async () => undefined })
+
+      await expect(service.setPolicy('wf-1', null, { userId: 'anonymous', admin: false }))
+        .rejects.toMatchObject({ code: 'FORBIDDEN' })
+    })
+  })
+
+  describe('check', () => {
+    it('should let transactions the security manager does not flag through', async () => {
+      expect(await service.check(check({ workflow: createWorkflow('1.0') }))).toBeNull()
+      expect(await store.listApprovals()).toEqual([])
+    })
+
+    it('should hold risky transactions and notify the approvers once', async () => {
+      const approval = await pendingApproval(service)
+      const again = await pendingApproval(service)
+
+      expect(again.id).toBe(approval.id)
+      expect(approval).toMatchObject({
+        kind: 'agent',
+        status: 'pending',
+        risk: { value: '100.00000000', authorizers: 1, gasLimit: 9999 },
+        audit: [expect.objectContaining({ actor: 'owner-1', action: 'requested' })]
+      })
+      expect(approval.explanation).toContain('1. Send 100.0 to 0x01cf0e2f2f715450.')
+      expect(notifier.notifyApprovers).toHaveBeenCalledTimes(1)
+      expect(notifier.notifyApprovers).toHaveBeenCalledWith(
+        { id: 'agent-1', name: 'Treasury Agent' },
+        notifications,
+        { executionId: 'schedule:agent-1:1', approvalId: approval.id }
+      )
+    })
+
+    it('should treat several authorizers as risky', async () => {
+      const approval = await pendingApproval(service, check({
+        workflow: createWorkflow('1.0'),
+        transaction: { cadenceCode: 'transaction {}', gasLimit: 100, authorizers: [SIGNER, '0x01cf0e2f2f715450'] }
+      }))
+
+      expect(approval.risk.authorizers).toBe(2)
+    })
+
+    it('should refuse risky transactions when no approvers are configured', async () => {
+      service = new ApprovalService({ store, notifier, defaultPolicy: null })
+
+      await expect(service.check(check())).rejects.toMatchObject({ name: 'ApprovalError', code: 'UNCONFIGURED' })
+      expect(await store.listApprovals()).toEqual([])
+    })
+  })
+
+  describe('decide', () => {
+    it('should approve after M of N approvals and resume the agent\'s run', async () => {
+      const approval = await pendingApproval(service)
+
+      const first = await service.decide(approval.id, 'alice', 'approve', 'Looks right')
+      expect(first.status).toBe('pending')
+      expect(await store.listJobs({ kinds: ['trigger'] })).toEqual([])
+
+      const second = await service.decide(approval.id, 'bob', 'approve')
+      expect(second.status).toBe('approved')
+      expect(second.audit.map(entry => [entry.actor, entry.action])).toEqual([
+        ['owner-1', 'requested'],
+        ['alice', 'approved'],
+        ['bob', 'approved']
+      ])
+      expect(second.audit[1].comment).toBe('Looks right')
+
+      const [job] = await store.listJobs({ kinds: ['trigger'] })
+      expect(job).toMatchObject({
+        agentId: 'agent-1',
+        idempotencyKey: `approval:${approval.id}`,
+        trigger: {
+          type: 'approval',
+          data: { parameters: { 'transfer-1': { amount: '100.0' } }, approvalId: approval.id }
+        }
+      })
+    })
+
+    it('should reject on the first rejection', async () => {
+      const approval = await pendingApproval(service)
+
+      const rejected = await service.decide(approval.id, 'carol', 'reject', 'Too much')
+
+      expect(rejected).toMatchObject({ status: 'rejected', decidedAt: expect.any(String) })
+      await expect(service.decide(approval.id, 'alice', 'approve')).rejects.toMatchObject({ code: 'CONFLICT' })
+      expect(await store.listJobs()).toEqual([])
+    })
+
+    it('should refuse non-approvers, repeat decisions and unknown requests', async () => {
+      const approval = await pendingApproval(service)
+      await service.decide(approval.id, 'alice', 'approve')
+
+      await expect(service.decide(approval.id, 'mallory', 'approve')).rejects.toMatchObject({ code: 'FORBIDDEN' })
+      await expect(service.decide(approval.id, 'alice', 'approve')).rejects.toMatchObject({ code: 'CONFLICT' })
+      await expect(service.decide('approval_missing', 'alice', 'approve')).rejects.toThrow(ApprovalError)
+    })
+
+    it('should not let the requester decide on their own request', async () => {
+      service = new ApprovalService({ store, notifier, defaultPolicy: { ...policy, approvers: ['owner-1', 'alice'], requiredApprovals: 1 } })
+      const approval = await pendingApproval(service)
+
+      await expect(service.decide(approval.id, 'owner-1', 'approve')).rejects.toMatchObject({ code: 'FORBIDDEN' })
+      expect(await service.get(approval.id)).toMatchObject({ status: 'pending', decisions: [] })
+      expect(await store.listJobs()).toEqual([])
+    })
+
+    it('should expire requests nobody decided in time', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] })
+      vi.setSystemTime(new Date('2024-03-01T00:00:00.000Z'))
+      const approval = await pendingApproval(service)
+
+      vi.setSystemTime(new Date('2024-03-02T00:00:01.000Z'))
+      await expect(service.decide(approval.id, 'alice', 'approve')).rejects.toThrow(/expired/)
+
+      const expired = await service.get(approval.id)
+      expect(expired).toMatchObject({ status: 'expired' })
+      expect(expired!.audit.at(-1)).toMatchObject({ actor: 'system', action: 'expired' })
+      expect(await service.list({ statuses: ['pending'] })).toEqual([])
+    })
+  })
+
+  describe('resuming approved runs', () => {
+    it('should use an approval once, for the approved code only', async () => {
+      const approval = await pendingApproval(service)
+      await service.decide(approval.id, 'alice', 'approve')
+      await service.decide(approval.id, 'bob', 'approve')
+
+      await expect(service.check(check({
+        approvalId: approval.id,
+        transaction: { cadenceCode: 'transaction { execute { log("edited") } }', gasLimit: 9999, authorizers: [SIGNER] }
+      }))).rejects.toMatchObject({ code: 'CONFLICT' })
+
+      const used = await service.check(check({ approvalId: approval.id }))
+      expect(used).toMatchObject({ id: approval.id, status: 'executed' })
+      expect(used!.audit.at(-1)).toMatchObject({ actor: 'system', action: 'executed' })
+
+      await expect(service.check(check({ approvalId: approval.id }))).rejects.toMatchObject({ code: 'CONFLICT' })
+    })
+
+    it('should keep holding a run whose approval is still pending', async () => {
+      const approval = await pendingApproval(service)
+
+      await expect(service.check(check({ approvalId: approval.id }))).rejects.toThrow(ApprovalRequiredError)
+    })
+  })
+})
@@ -0,0 +1,205 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { EventEmitter } from 'events'
+import { spawn } from 'child_process'
+import {
+  CadenceLanguageServer,
+  CadenceLanguageServerError,
+  checkCadenceCode,
+  formatCadenceDiagnostic
+} from '../cadence-language-server'
+
+vi.mock('child_process', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('child_process')>()
+  const mocked = { ...actual, spawn: vi.fn() }
+  return { ...mocked, default: mocked }
+})
+
+const frame = (message: any) => {
+  const body = JSON.stringify(message)
+  return Buffer.from(`Content-Length: ${Buffer.byteLength(body)}\r\n\r\n${body}`)
+}
+
+/**
+ * Fake language server: answers requests and publishes the diagnostics
+ * returned by `diagnose` for every opened document
+ */
+const createServer = (diagnose: (text: string) => any[]) => {
+  const child: any = new EventEmitter()
+  child.stdout = new EventEmitter()
+  child.stderr = new EventEmitter()
+  child.exitCode = null
+  child.received = [] as any[]
+  child.kill = vi.fn(() => {
+    child.exitCode = 0
+    setImmediate(() => child.emit('exit', 0))
+  })
+
+  const send = (message: any, split = false) => setImmediate(() => {
+    const data = frame(message)
+    if (split) {
+      child.stdout.emit('data', data.subarray(0, 10))
+      child.stdout.emit('data', data.subarray(10))
+    } else {
+      child.stdout.emit('data', data)
+    }
+  })
+
+  child.stdin = {
+    writable: true,
+    on: vi.fn(),
+    write: vi.fn((data: Buffer) => {
+      const text = data.toString('utf8')
+      const message = JSON.parse(text.slice(text.indexOf('\r\n\r\n') + 4))
+      child.received.push(message)
+
+      if (message.method === 'initialize') {
+        // Servers may ask the client for configuration before answering
+        send({ jsonrpc: '2.0', id: 99, method: 'workspace/configuration', params: { items: [] } })
+        send({ jsonrpc: '2.0', id: message.id, result: { capabilities: {} } }, true)
+      } else if (message.method === 'shutdown') {
+        send({ jsonrpc: '2.0', id: message.id, result: null })
+      } else if (message.method === 'textDocument/didOpen') {
+        send({
+          jsonrpc: '2.0',
+          method: 'textDocument/publishDiagnostics',
+          params: {
+            uri: message.params.textDocument.uri,
+            diagnostics: diagnose(message.params.textDocument.text)
+          }
+        })
+      }
+    })
+  }
+  return child
+}
+
+const undeclaredVariable = {
+  range: { start: { line: 2, character: 4 }, end: { line: 2, character: 9 } },
+  severity: 1,
+  message: 'cannot find variable in this scope: `swap1`',
+  source: 'cadence'
+}
+
+describe('CadenceLanguageServer', () => {
+  beforeEach(() => {
+    vi.mocked(spawn).mockReset()
+  })
+
+  it('runs the language server through the Flow CLI and performs the handshake', async () => {
+    const child = createServer(() => [])
+    vi.mocked(spawn).mockReturnValue(child)
+    const server = new CadenceLanguageServer({ flowBinary: '/opt/flow' })
+
+    await server.start()
+
+    expect(spawn).toHaveBeenCalledWith('/opt/flow', ['cadence', 'language-server'], expect.any(Object))
+    expect(child.received.map((message: any) => message.method)).toEqual(['initialize', undefined, 'initialized'])
+    expect(child.received[1]).toEqual({ jsonrpc: '2.0', id: 99, result: null })
+    expect(server.isRunning()).toBe(true)
+  })
+
+  it('reports diagnostics with 1-based positions', async () => {
+    vi.mocked(spawn).mockReturnValue(createServer(() => [undeclaredVariable]))
+    const server = new CadenceLanguageServer()
+
+    const diagnostics = await server.check('transaction {\n  execute {\n    swap1.amountOut\n  }\n}')
+
+    expect(diagnostics).toEqual([{
+      line: 3,
+      column: 5,
+      endLine: 3,
+      endColumn: 10,
+      severity: 'error',
+      message: 'cannot find variable in this scope: `swap1`',
+      source: 'cadence'
+    }])
+    expect(formatCadenceDiagnostic(diagnostics[0])).toBe('3:5 error: cannot find variable in this scope: `swap1`')
+  })
+
+  it('opens each check as a separate document and closes it afterwards', async () => {
+    const child = createServer(text => text.includes('bad') ? [undeclaredVariable] : [])
+    vi.mocked(spawn).mockReturnValue(child)
+    const server = new CadenceLanguageServer()
+
+    const [bad, good] = await Promise.all([server.check('bad'), server.check('good')])
+
+    expect(bad).toHaveLength(1)
+    expect(good).toEqual([])
+    expect(spawn).toHaveBeenCalledTimes(1)
+    const opened = child.received.filter((message: any) => message.method === 'textDocument/didOpen')
+    const closed = child.received.filter((message: any) => message.method === 'textDocument/didClose')
+    expect(new Set(opened.map((message: any) => message.params.textDocument.uri)).size).toBe(2)
+    expect(closed).toHaveLength(2)
+  })
+
+  it('times out when no diagnostics are published', async () => {
+    vi.mocked(spawn).mockReturnValue(createServer(() => []))
+    const server = new CadenceLanguageServer({ checkTimeout: 20 })
+    await server.start()
+    const child = vi.mocked(spawn).mock.results[0].value
+    child.stdin.write.mockImplementation(() => {})
+
+    await expect(server.check('transaction {}')).rejects.toThrow('did not report diagnostics within 20ms')
+  })
+
+  it('shuts the server down on stop', async () => {
+    const child = createServer(() => [])
+    vi.mocked(spawn).mockReturnValue(child)
+    const server = new CadenceLanguageServer()
+    await server.start()
+
+    await server.stop()
+
+    expect(child.received.map((message: any) => message.method)).toContain('shutdown')
+    expect(child.received.map((message: any) => message.method)).toContain('exit')
+    expect(child.kill).toHaveBeenCalledWith('SIGTERM')
+    expect(server.isRunning()).toBe(false)
+  })
+
+  it('keeps a restarted server when the old process exits late', async () => {
+    const first = createServer(() => [])
+    const second = createServer(() => [undeclaredVariable])
+    vi.mocked(spawn).mockReturnValueOnce(first).mockReturnValueOnce(second)
+    const server = new CadenceLanguageServer()
+    await server.start()
+
+    // The old process reports its exit while the new one is starting
+    await server.stop()
+    await server.start()
+    first.emit('exit', 0)
+
+    expect(server.isRunning()).toBe(true)
+    expect(await server.check('transaction {}')).toHaveLength(1)
+    expect(spawn).toHaveBeenCalledTimes(2)
+  })
+
+  it('fails with a clear error when the Flow CLI is missing', async () => {
+    const child = createServer(() => [])
+    child.stdin.write = vi.fn()
+    vi.mocked(spawn).mockReturnValue(child)
+    const server = new CadenceLanguageServer()
+
+    const started = server.start()
+    child.emit('error', Object.assign(new Error('spawn flow ENOENT'), { code: 'ENOENT' }))
+
+    await expect(started).rejects.toThrow(CadenceLanguageServerError)
+    await expect(started).rejects.toThrow('Install the Flow CLI')
+    expect(server.isRunning()).toBe(false)
+  })
+
+  it('marks code as unchecked instead of throwing when the server cannot run', async () => {
+    const child = createServer(() => [])
+    child.stdin.write = vi.fn()
+    vi.mocked(spawn).mockReturnValue(child)
+    const server = new CadenceLanguageServer()
+
+    const result = checkCadenceCode('transaction {}', server)
+    child.emit('error', new Error('spawn flow ENOENT'))
+
+    expect(await result).toEqual({
+      checked: false,
+      diagnostics: [],
+      unavailableReason: expect.stringContaining('Install the Flow CLI')
+    })
+  })
+})
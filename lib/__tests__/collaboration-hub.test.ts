@@ -0,0 +1,200 @@
+import { describe, it, expect, vi } from 'vitest'
+import { createCollaborationHub } from '../collaboration-hub.mjs'
+
+function createClient() {
+  const send = vi.fn()
+  return {
+    readyState: 1,
+    send,
+    messages: (type: string) => send.mock.calls
+      .map(([data]) => JSON.parse(data))
+      .filter(message => message.type === type)
+      .map(message => message.payload)
+  }
+}
+
+const operation = (key: string, value: unknown, counter: number, clientId: string) => ({
+  key,
+  value,
+  clock: { counter, clientId }
+})
+
+describe('Collaboration Hub', () => {
+  it('should send late joiners the merged document and relay operations', () => {
+    const hub = createCollaborationHub()
+    const alice = createClient()
+    const bob = createClient()
+
+    hub.handleMessage(alice, { type: 'collab_join', payload: { workflowId: 'wf-1', clientId: 'alice', name: 'Alice' } })
+    expect(alice.messages('collab_snapshot')[0].operations).toEqual([])
+
+    hub.handleMessage(alice, {
+      type: 'collab_operations',
+      payload: { operations: [operation('param:["pay","amount"]', '10.0', 1, 'alice'), operation('node:pay', { id: 'pay' }, 2, 'alice')] }
+    })
+    hub.handleMessage(alice, {
+      type: 'collab_operations',
+      payload: { operations: [operation('param:["pay","amount"]', '5.0', 3, 'alice')] }
+    })
+
+    hub.handleMessage(bob, { type: 'collab_join', payload: { workflowId: 'wf-1', clientId: 'bob', name: 'Bob' } })
+    const snapshot = bob.messages('collab_snapshot')[0]
+    expect(snapshot.operations).toHaveLength(2)
+    expect(snapshot.operations.find((op: any) => op.key === 'param:["pay","amount"]').value).toBe('5.0')
+    expect(snapshot.peers.map((peer: any) => peer.name)).toEqual(['Alice', 'Bob'])
+    expect(alice.messages('collab_peers').at(-1).peers).toHaveLength(2)
+
+    hub.handleMessage(bob, {
+      type: 'collab_operations',
+      payload: { operations: [operation('position:pay', { x: 10, y: 0 }, 4, 'bob')] }
+    })
+    expect(alice.messages('collab_operations')[0]).toMatchObject({ clientId: 'bob', workflowId: 'wf-1' })
+    expect(bob.messages('collab_operations')).toEqual([])
+  })
+
+  it('should drop malformed operations before storing or relaying them', () => {
+    const hub = createCollaborationHub()
+    const alice = createClient()
+    const bob = createClient()
+    hub.handleMessage(alice, { type: 'collab_join', payload: { workflowId: 'wf-1', clientId: 'alice' } })
+    hub.handleMessage(bob, { type: 'collab_join', payload: { workflowId: 'wf-1', clientId: 'bob' } })
+
+    hub.handleMessage(alice, {
+      type: 'collab_operations',
+      payload: {
+        operations: [
+          null,
+          { key: 'node:pay', value: { id: 'pay' } },
+          { key: 42, value: 1, clock: { counter: 1, clientId: 'alice' } },
+          { key: 'node:pay', value: { id: 'pay' }, clock: { counter: '9', clientId: 'alice' } },
+          { key: 'node:pay', value: { id: 'pay' }, clock: { counter: 1 } },
+          operation('param:not-json', '1.0', 1, 'alice'),
+          operation('node:swap', { id: 'swap' }, 2, 'alice')
+        ]
+      }
+    })
+
+    expect(hub.getRoomSummary('wf-1')!.registerCount).toBe(1)
+    expect(bob.messages('collab_operations')[0].operations.map((op: any) => op.key)).toEqual(['node:swap'])
+    expect(alice.messages('collab_error')).toHaveLength(1)
+
+    hub.handleMessage(alice, { type: 'collab_operations', payload: { operations: [{ key: 'node:pay' }] } })
+    expect(bob.messages('collab_operations')).toHaveLength(1)
+  })
+
+  it('should only accept parameter changes to a locked node from the lock holder', () => {
+    const hub = createCollaborationHub()
+    const alice = createClient()
+    const bob = createClient()
+    hub.handleMessage(alice, { type: 'collab_join', payload: { workflowId: 'wf-1', clientId: 'alice' } })
+    hub.handleMessage(bob, { type: 'collab_join', payload: { workflowId: 'wf-1', clientId: 'bob' } })
+    hub.handleMessage(alice, { type: 'collab_lock', payload: { nodeId: 'pay' } })
+
+    hub.handleMessage(bob, {
+      type: 'collab_operations',
+      payload: { operations: [operation('param:["pay","amount"]', '99.0', 5, 'bob'), operation('position:pay', { x: 1, y: 1 }, 6, 'bob')] }
+    })
+    expect(bob.messages('collab_error')[0].message).toContain('locked')
+    expect(alice.messages('collab_operations')[0].operations.map((op: any) => op.key)).toEqual(['position:pay'])
+
+    hub.handleMessage(alice, {
+      type: 'collab_operations',
+      payload: { operations: [operation('param:["pay","amount"]', '5.0', 1, 'alice')] }
+    })
+    expect(bob.messages('collab_operations')[0].operations).toHaveLength(1)
+
+    const carol = createClient()
+    hub.handleMessage(carol, { type: 'collab_join', payload: { workflowId: 'wf-1', clientId: 'carol' } })
+    const amount = carol.messages('collab_snapshot')[0].operations.find((op: any) => op.key === 'param:["pay","amount"]')
+    expect(amount.value).toBe('5.0')
+  })
+
+  it('should grant one lock per node and release locks when the holder leaves', () => {
+    const hub = createCollaborationHub()
+    const alice = createClient()
+    const bob = createClient()
+    hub.handleMessage(alice, { type: 'collab_join', payload: { workflowId: 'wf-1', clientId: 'alice' } })
+    hub.handleMessage(bob, { type: 'collab_join', payload: { workflowId: 'wf-1', clientId: 'bob' } })
+
+    hub.handleMessage(alice, { type: 'collab_lock', payload: { nodeId: 'pay' } })
+    expect(bob.messages('collab_locks').at(-1).locks).toEqual({ pay: 'alice' })
+
+    hub.handleMessage(bob, { type: 'collab_lock', payload: { nodeId: 'pay' } })
+    expect(bob.messages('collab_lock_denied')[0]).toMatchObject({ nodeId: 'pay', holder: 'alice' })
+
+    hub.handleMessage(bob, { type: 'collab_unlock', payload: { nodeId: 'pay' } })
+    expect(hub.getRoomSummary('wf-1')!.locks).toEqual({ pay: 'alice' })
+
+    hub.disconnect(alice)
+    expect(bob.messages('collab_locks').at(-1).locks).toEqual({})
+    expect(bob.messages('collab_peers').at(-1).peers.map((peer: any) => peer.clientId)).toEqual(['bob'])
+  })
+
+  it('should keep locks with the connection that took them', () => {
+    const hub = createCollaborationHub()
+    const alice = createClient()
+    const impostor = createClient()
+    hub.handleMessage(alice, { type: 'collab_join', payload: { workflowId: 'wf-1', clientId: 'alice' } })
+    hub.handleMessage(impostor, { type: 'collab_join', payload: { workflowId: 'wf-1', clientId: 'alice' } })
+    hub.handleMessage(alice, { type: 'collab_lock', payload: { nodeId: 'pay' } })
+
+    hub.handleMessage(impostor, { type: 'collab_unlock', payload: { nodeId: 'pay' } })
+    hub.handleMessage(impostor, { type: 'collab_lock', payload: { nodeId: 'pay' } })
+    hub.disconnect(impostor)
+
+    expect(impostor.messages('collab_lock_denied')[0]).toMatchObject({ nodeId: 'pay', holder: 'alice' })
+    expect(hub.getRoomSummary('wf-1')!.locks).toEqual({ pay: 'alice' })
+  })
+
+  it('should reject locks without a valid node id', () => {
+    const hub = createCollaborationHub()
+    const alice = createClient()
+    hub.handleMessage(alice, { type: 'collab_join', payload: { workflowId: 'wf-1', clientId: 'alice' } })
+
+    hub.handleMessage(alice, { type: 'collab_lock', payload: {} })
+    hub.handleMessage(alice, { type: 'collab_lock', payload: { nodeId: { toString: 'pay' } } })
+    hub.handleMessage(alice, { type: 'collab_lock', payload: { nodeId: 'x'.repeat(201) } })
+
+    expect(alice.messages('collab_error')).toHaveLength(3)
+    expect(hub.getRoomSummary('wf-1')!.locks).toEqual({})
+  })
+
+  it('should drop a room when its last peer leaves', () => {
+    const hub = createCollaborationHub()
+    const alice = createClient()
+    const bob = createClient()
+    hub.handleMessage(alice, { type: 'collab_join', payload: { workflowId: 'wf-1', clientId: 'alice' } })
+    hub.handleMessage(bob, { type: 'collab_join', payload: { workflowId: 'wf-1', clientId: 'bob' } })
+    hub.handleMessage(alice, { type: 'collab_operations', payload: { operations: [operation('node:pay', { id: 'pay' }, 1, 'alice')] } })
+
+    hub.disconnect(alice)
+    expect(hub.getRoomSummary('wf-1')!.registerCount).toBe(1)
+
+    hub.handleMessage(bob, { type: 'collab_join', payload: { workflowId: 'wf-2', clientId: 'bob' } })
+    expect(hub.getRoomSummary('wf-1')).toBeNull()
+  })
+
+  it('should relay presence and keep rooms separate', () => {
+    const hub = createCollaborationHub()
+    const alice = createClient()
+    const bob = createClient()
+    const carol = createClient()
+    hub.handleMessage(alice, { type: 'collab_join', payload: { workflowId: 'wf-1', clientId: 'alice' } })
+    hub.handleMessage(bob, { type: 'collab_join', payload: { workflowId: 'wf-1', clientId: 'bob' } })
+    hub.handleMessage(carol, { type: 'collab_join', payload: { workflowId: 'wf-2', clientId: 'carol' } })
+
+    hub.handleMessage(alice, { type: 'collab_presence', payload: { cursor: { x: 12, y: 34 } } })
+
+    expect(bob.messages('collab_presence')).toEqual([{ workflowId: 'wf-1', clientId: 'alice', cursor: { x: 12, y: 34 } }])
+    expect(carol.messages('collab_presence')).toEqual([])
+  })
+
+  it('should reject messages from clients that have not joined', () => {
+    const hub = createCollaborationHub()
+    const client = createClient()
+
+    hub.handleMessage(client, { type: 'collab_operations', payload: { operations: [] } })
+
+    expect(client.messages('collab_error')).toHaveLength(1)
+  })
+})
@@ -0,0 +1,296 @@
+import { describe, it, expect } from 'vitest'
+import {
+  CronExpressionError,
+  parseCronExpression,
+  getNextCronRun,
+  getNextCronRuns,
+  isValidTimeZone,
+  type CronExpression
+} from '../cron-expression'
+
+const iso = (dates: Date[]) => dates.map(date => date.toISOString())
+
+// Seeded generator so a failing property reproduces on every run
+function random(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function randomField(next: () => number, min: number, max: number): string {
+  const pick = () => min + Math.floor(next() * (max - min + 1))
+  switch (Math.floor(next() * 5)) {
+    case 0:
+      return '*'
+    case 1:
+      return `*/${1 + Math.floor(next() * 12)}`
+    case 2: {
+      const [a, b] = [pick(), pick()].sort((x, y) => x - y)
+      return `${a}-${b}`
+    }
+    case 3:
+      return [pick(), pick(), pick()].join(',')
+    default:
+      return String(pick())
+  }
+}
+
+function randomExpression(next: () => number): string {
+  return [
+    randomField(next, 0, 59),
+    randomField(next, 0, 23),
+    randomField(next, 1, 28),
+    '*',
+    randomField(next, 0, 6)
+  ].join(' ')
+}
+
+interface WallFields {
+  year: number
+  month: number
+  day: number
+  weekday: number
+  hour: number
+  minute: number
+  second: number
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+function wallFields(date: Date, timeZone: string): WallFields {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      weekday: 'short',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    }).formatToParts(date).map(part => [part.type, part.value])
+  )
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+    hour: Number(parts.hour) % 24,
+    minute: Number(parts.minute),
+    second: Number(parts.second)
+  }
+}
+
+function matches(cron: CronExpression, wall: WallFields): boolean {
+  const dom = cron.daysOfMonth.includes(wall.day)
+  const dow = cron.daysOfWeek.includes(wall.weekday)
+  const day = cron.dayOfMonthRestricted && cron.dayOfWeekRestricted
+    ? dom || dow
+    : (!cron.dayOfMonthRestricted || dom) && (!cron.dayOfWeekRestricted || dow)
+  return day &&
+    cron.months.includes(wall.month) &&
+    cron.hours.includes(wall.hour) &&
+    cron.minutes.includes(wall.minute) &&
+    cron.seconds.includes(wall.second)
+}
+
+const FIXED_OFFSETS: Record<string, number> = { 'UTC': 0, 'Asia/Kolkata': 330 }
+
+// Reference implementation: test every minute in turn
+function bruteForceRuns(cron: CronExpression, count: number, from: Date, timeZone: string): Date[] {
+  const offset = FIXED_OFFSETS[timeZone] * 60000
+  const runs: Date[] = []
+  let instant = Math.floor(from.getTime() / 60000) * 60000 + 60000
+  while (runs.length < count) {
+    const wall = new Date(instant + offset)
+    const fields = {
+      year: wall.getUTCFullYear(),
+      month: wall.getUTCMonth() + 1,
+      day: wall.getUTCDate(),
+      weekday: wall.getUTCDay(),
+      hour: wall.getUTCHours(),
+      minute: wall.getUTCMinutes(),
+      second: 0
+    }
+    if (matches(cron, fields)) {
+      runs.push(new Date(instant))
+    }
+    instant += 60000
+  }
+  return runs
+}
+
+describe('parseCronExpression', () => {
+  it('should expand ranges, steps, lists and names', () => {
+    const cron = parseCronExpression('5/20 9-17/4 1,15 JAN-MAR mon-fri')
+
+    expect(cron.hasSeconds).toBe(false)
+    expect(cron.seconds).toEqual([0])
+    expect(cron.minutes).toEqual([5, 25, 45])
+    expect(cron.hours).toEqual([9, 13, 17])
+    expect(cron.daysOfMonth).toEqual([1, 15])
+    expect(cron.months).toEqual([1, 2, 3])
+    expect(cron.daysOfWeek).toEqual([1, 2, 3, 4, 5])
+  })
+
+  it('should accept a leading seconds field, macros and 7 as Sunday', () => {
+    expect(parseCronExpression('*/15 0 12 * * *').seconds).toEqual([0, 15, 30, 45])
+    expect(parseCronExpression('@weekly').daysOfWeek).toEqual([0])
+    expect(parseCronExpression('0 0 * * 5-7').daysOfWeek).toEqual([0, 5, 6])
+    expect(parseCronExpression('0 0 ? * SUN').dayOfMonthRestricted).toBe(false)
+  })
+
+  it('should reject malformed expressions', () => {
+    const invalid = [
+      '* * * *',
+      '0 0 0 * * * *',
+      '60 * * * *',
+      '* 24 * * *',
+      '* * 0 * *',
+      '* * * 13 *',
+      '* * * * 8',
+      '* * * FOO *',
+      '10-5 * * * *',
+      '*/0 * * * *',
+      '1/2/3 * * * *',
+      '? * * * *',
+      '@reboot'
+    ]
+
+    invalid.forEach(expression => {
+      expect(() => parseCronExpression(expression), expression).toThrow(CronExpressionError)
+    })
+  })
+})
+
+describe('getNextCronRun', () => {
+  it('should match known schedules', () => {
+    const from = new Date('2026-10-16T10:07:00Z') // a Friday
+    const known: Array<[string, string[]]> = [
+      ['*/15 9-17 * * MON-FRI', ['2026-10-16T10:15:00.000Z', '2026-10-16T10:30:00.000Z', '2026-10-16T10:45:00.000Z']],
+      ['0 9 * * 1', ['2026-10-19T09:00:00.000Z', '2026-10-26T09:00:00.000Z', '2026-11-02T09:00:00.000Z']],
+      ['@monthly', ['2026-11-01T00:00:00.000Z', '2026-12-01T00:00:00.000Z', '2027-01-01T00:00:00.000Z']],
+      ['0 0 31 * *', ['2026-10-31T00:00:00.000Z', '2026-12-31T00:00:00.000Z', '2027-01-31T00:00:00.000Z']],
+      ['0 0 29 FEB *', ['2028-02-29T00:00:00.000Z', '2032-02-29T00:00:00.000Z', '2036-02-29T00:00:00.000Z']],
+      // Day of month and day of week both restricted: either one matches
+      ['0 12 1 * SAT', ['2026-10-17T12:00:00.000Z', '2026-10-24T12:00:00.000Z', '2026-10-31T12:00:00.000Z']],
+      ['30 */20 * * * *', ['2026-10-16T10:20:30.000Z', '2026-10-16T10:40:30.000Z', '2026-10-16T11:00:30.000Z']]
+    ]
+
+    known.forEach(([expression, expected]) => {
+      expect(iso(getNextCronRuns(expression, 3, from, 'UTC')), expression).toEqual(expected)
+    })
+  })
+
+  it('should evaluate schedules in the given time zone', () => {
+    const from = new Date('2026-10-16T00:00:00Z')
+
+    expect(getNextCronRun('0 9 * * *', from, 'Asia/Kolkata').toISOString()).toBe('2026-10-16T03:30:00.000Z')
+    expect(getNextCronRun('0 9 * * *', from, 'America/Los_Angeles').toISOString()).toBe('2026-10-16T16:00:00.000Z')
+    expect(getNextCronRun('0 9 * * *', from, 'Pacific/Kiritimati').toISOString()).toBe('2026-10-16T19:00:00.000Z')
+  })
+
+  it('should shift times skipped by a forward DST jump by the length of the gap', () => {
+    // New York springs forward from 02:00 to 03:00 on 8 March 2026
+    const runs = getNextCronRuns('30 2 * * *', 3, new Date('2026-03-07T12:00:00Z'), 'America/New_York')
+
+    expect(iso(runs)).toEqual([
+      '2026-03-08T07:30:00.000Z', // 03:30 EDT
+      '2026-03-09T06:30:00.000Z',
+      '2026-03-10T06:30:00.000Z'
+    ])
+  })
+
+  it('should run times repeated by a backward DST jump only once', () => {
+    // London falls back from 02:00 BST to 01:00 GMT on 25 October 2026
+    const runs = getNextCronRuns('0,30 1 * * *', 4, new Date('2026-10-24T12:00:00Z'), 'Europe/London')
+
+    expect(iso(runs)).toEqual([
+      '2026-10-25T00:00:00.000Z', // 01:00 BST
+      '2026-10-25T00:30:00.000Z', // 01:30 BST; the GMT repeats are skipped
+      '2026-10-26T01:00:00.000Z',
+      '2026-10-26T01:30:00.000Z'
+    ])
+
+    // Starting inside the repeated hour does not run the same wall times again
+    expect(getNextCronRun('*/15 * * * *', new Date('2026-10-25T01:10:00Z'), 'Europe/London').toISOString())
+      .toBe('2026-10-25T02:00:00.000Z')
+  })
+
+  it('should keep hourly schedules evenly spaced across DST changes', () => {
+    const spring = getNextCronRuns('0 * * * *', 4, new Date('2026-03-08T05:30:00Z'), 'America/New_York')
+    const fall = getNextCronRuns('0 * * * *', 4, new Date('2026-11-01T04:30:00Z'), 'America/New_York')
+
+    expect(iso(spring)).toEqual([
+      '2026-03-08T06:00:00.000Z',
+      '2026-03-08T07:00:00.000Z',
+      '2026-03-08T08:00:00.000Z',
+      '2026-03-08T09:00:00.000Z'
+    ])
+    // The second 01:00 is a repeat and is skipped
+    expect(iso(fall)).toEqual([
+      '2026-11-01T05:00:00.000Z',
+      '2026-11-01T07:00:00.000Z',
+      '2026-11-01T08:00:00.000Z',
+      '2026-11-01T09:00:00.000Z'
+    ])
+  })
+
+  it('should reject expressions that never run and unknown time zones', () => {
+    expect(() => getNextCronRun('0 0 30 2 *', new Date(), 'UTC')).toThrow('never runs')
+    expect(() => getNextCronRun('0 0 * * *', new Date(), 'Mars/Olympus_Mons')).toThrow('Unknown time zone')
+    expect(isValidTimeZone('Europe/London')).toBe(true)
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false)
+  })
+})
+
+describe('getNextCronRun properties', () => {
+  const next = random(20261019)
+  const cases = Array.from({ length: 40 }, () => ({
+    expression: randomExpression(next),
+    from: new Date(Date.UTC(2026, 0, 1) + Math.floor(next() * 365 * 86400) * 1000)
+  }))
+
+  it('should agree with a minute-by-minute search in fixed-offset zones', () => {
+    for (const { expression, from } of cases) {
+      const cron = parseCronExpression(expression)
+      for (const timeZone of ['UTC', 'Asia/Kolkata']) {
+        expect(iso(getNextCronRuns(cron, 3, from, timeZone)), `${expression} from ${from.toISOString()} in ${timeZone}`)
+          .toEqual(iso(bruteForceRuns(cron, 3, from, timeZone)))
+      }
+    }
+  })
+
+  it('should return increasing runs that match the expression in DST zones', () => {
+    for (const { expression } of cases) {
+      const cron = parseCronExpression(expression)
+      for (const [timeZone, from] of [
+        ['America/New_York', '2026-03-01T00:00:00Z'],
+        ['Europe/London', '2026-10-20T00:00:00Z']
+      ] as const) {
+        const runs = getNextCronRuns(cron, 20, new Date(from), timeZone)
+        const label = `${expression} in ${timeZone}`
+
+        runs.forEach((run, index) => {
+          if (index > 0) expect(run.getTime(), label).toBeGreaterThan(runs[index - 1].getTime())
+
+          // A run that does not match must be a skipped time shifted forward by the one-hour gap
+          const wall = wallFields(run, timeZone)
+          if (!matches(cron, wall)) {
+            const shifted = { ...wall, hour: wall.hour - 1 }
+            expect(matches(cron, shifted), `${label} at ${run.toISOString()}`).toBe(true)
+            expect(wallFields(new Date(run.getTime() - 3600000), timeZone).hour, label).not.toBe(shifted.hour)
+          }
+        })
+
+        // No wall-clock time runs twice
+        const walls = runs.map(run => JSON.stringify(wallFields(run, timeZone)))
+        expect(new Set(walls).size, label).toBe(walls.length)
+      }
+    }
+  })
+})
@@ -343,6 +343,15 @@ describe('DataFlowAnalyzer', () => {
       expect(result.typeCompatibilityIssues[0].suggestion).toBeDefined()
       expect(result.typeCompatibilityIssues[0].autoFixAvailable).toBeDefined()
     })
+
+    it('should build Cadence conversion expressions for convertible types', () => {
+      expect(analyzer.getConversionExpression('amount', 'UFix64', 'UFix64')).toBe('amount')
+      expect(analyzer.getConversionExpression('count', 'UInt64', 'UFix64')).toBe('UFix64(count)')
+      expect(analyzer.getConversionExpression('amount', 'UFix64', 'String')).toBe('amount.toString()')
+      expect(analyzer.getConversionExpression('txId', 'String', 'UFix64')).toBe('UFix64.fromString(txId)!')
+      expect(analyzer.getConversionExpression('owner', 'String', 'Address')).toBe('Address.fromString(owner)!')
+      expect(analyzer.getConversionExpression('flag', 'Bool', 'UFix64')).toBeNull()
+    })
   })
 
   describe('unresolved references detection', () => {
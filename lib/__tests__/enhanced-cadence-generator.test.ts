@@ -2,8 +2,9 @@
  * Tests for Enhanced Cadence Generator
  */
 
-import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import { EnhancedCadenceGenerator, ProductionCadenceGenerationOptions } from '../enhanced-cadence-generator'
+import { checkCadenceCode } from '../cadence-language-server'
 import { ParsedWorkflow, ParsedAction, SecurityLevel } from '../types'
 
 // Mock the action discovery service
@@ -24,6 +25,12 @@ vi.mock('../action-discovery-service', () => ({
   })
 }))
 
+// The language server needs the Flow CLI
+vi.mock('../cadence-language-server', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../cadence-language-server')>(),
+  checkCadenceCode: vi.fn()
+}))
+
 describe('EnhancedCadenceGenerator', () => {
   let mockWorkflow: ParsedWorkflow
   let mockAction: ParsedAction
@@ -147,6 +154,40 @@ describe('EnhancedCadenceGenerator', () => {
     })
   })
 
+  describe('language server check', () => {
+    beforeEach(() => {
+      vi.mocked(checkCadenceCode).mockReset().mockResolvedValue({
+        checked: true,
+        diagnostics: [{ line: 1, column: 8, endLine: 1, endColumn: 23, severity: 'error', message: 'cannot find declaration `FungibleToken`' }]
+      })
+    })
+
+    afterEach(() => {
+      vi.unstubAllEnvs()
+    })
+
+    it('should skip the check when no Flow project resolves imports', async () => {
+      vi.stubEnv('CADENCE_PROJECT_DIR', '')
+
+      const result = await EnhancedCadenceGenerator.generateProductionTransaction(mockWorkflow)
+
+      expect(checkCadenceCode).not.toHaveBeenCalled()
+      expect(result.validationResult.errors.some(error => error.type === 'CADENCE_CHECK_ERROR')).toBe(false)
+    })
+
+    it('should report diagnostics when a Flow project is configured', async () => {
+      vi.stubEnv('CADENCE_PROJECT_DIR', '/srv/flow-project')
+
+      const result = await EnhancedCadenceGenerator.generateProductionTransaction(mockWorkflow)
+
+      expect(checkCadenceCode).toHaveBeenCalled()
+      expect(result.validationResult.errors).toContainEqual(expect.objectContaining({
+        type: 'CADENCE_CHECK_ERROR',
+        message: '1:8 error: cannot find declaration `FungibleToken`'
+      }))
+    })
+  })
+
   describe('Flow type conversion', () => {
     it('should convert JavaScript values to Flow types', () => {
       expect(EnhancedCadenceGenerator.convertToFlowType('10.5', 'UFix64')).toBe('10.50000000')
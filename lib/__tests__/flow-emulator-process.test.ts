@@ -0,0 +1,187 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { EventEmitter } from 'events'
+import { readFile } from 'fs/promises'
+import path from 'path'
+import { spawn, execFile } from 'child_process'
+import {
+  FlowEmulatorProcess,
+  FlowEmulatorProcessError,
+  EMULATOR_SERVICE_ADDRESS
+} from '../flow-emulator-process'
+
+vi.mock('child_process', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('child_process')>()
+  const mocked = { ...actual, spawn: vi.fn(), execFile: vi.fn() }
+  return { ...mocked, default: mocked }
+})
+
+const createChild = () => {
+  const child: any = new EventEmitter()
+  child.stdout = new EventEmitter()
+  child.stderr = new EventEmitter()
+  child.exitCode = null
+  child.signalCode = null
+  child.kill = vi.fn((signal: string) => {
+    child.signalCode = signal
+    setImmediate(() => child.emit('exit', null))
+  })
+  return child
+}
+
+const jsonResponse = (body: any, status = 200) => ({
+  ok: status < 400,
+  status,
+  json: async () => body,
+  text: async () => JSON.stringify(body)
+})
+
+const eventPayload = Buffer.from(JSON.stringify({
+  type: 'Event',
+  value: {
+    id: 'A.0ae53cb6e3f42a79.FlowToken.TokensWithdrawn',
+    fields: [
+      { name: 'amount', value: { type: 'UFix64', value: '1.50000000' } },
+      { name: 'from', value: { type: 'Optional', value: { type: 'Address', value: EMULATOR_SERVICE_ADDRESS } } }
+    ]
+  }
+})).toString('base64')
+
+describe('FlowEmulatorProcess', () => {
+  let emulator: FlowEmulatorProcess
+  let child: any
+  let fetchMock: ReturnType<typeof vi.fn>
+  let cliCalls: Array<{ args: string[]; cwd: string }>
+
+  beforeEach(() => {
+    child = createChild()
+    vi.mocked(spawn).mockReturnValue(child)
+
+    cliCalls = []
+    vi.mocked(execFile).mockImplementation(((_file: string, args: string[], options: any, callback: any) => {
+      cliCalls.push({ args, cwd: options.cwd })
+      const stdout = args[0] === 'transactions' ? JSON.stringify({ id: 'ab'.repeat(32) }) : ''
+      callback(null, { stdout, stderr: '' })
+    }) as any)
+
+    fetchMock = vi.fn(async (url: string, init?: RequestInit) => {
+      if (url.includes('/v1/blocks?height=sealed')) return jsonResponse([{ header: { height: '7' } }])
+      if (url.includes('/v1/blocks/block-1')) return jsonResponse([{ header: { height: '8' } }])
+      if (url.includes('/v1/transaction_results/')) {
+        return jsonResponse({
+          block_id: 'block-1',
+          status: 'Sealed',
+          error_message: '',
+          computation_used: '42',
+          events: [{
+            type: 'A.0ae53cb6e3f42a79.FlowToken.TokensWithdrawn',
+            transaction_id: 'ab'.repeat(32),
+            transaction_index: '0',
+            event_index: '0',
+            payload: eventPayload
+          }]
+        })
+      }
+      if (url.includes('/v1/accounts/')) return jsonResponse({ balance: '150000000' })
+      if (url.includes('/emulator/snapshots')) return jsonResponse({}, init ? 200 : 404)
+      return jsonResponse({}, 404)
+    })
+    vi.stubGlobal('fetch', fetchMock)
+
+    emulator = new FlowEmulatorProcess({ restPort: 18888, adminPort: 18080, startupTimeout: 1000 })
+  })
+
+  afterEach(async () => {
+    await emulator.stop()
+    vi.unstubAllGlobals()
+    vi.clearAllMocks()
+  })
+
+  it('should spawn the emulator with a generated service key and wait for the REST API', async () => {
+    await emulator.start()
+
+    const [binary, args, options] = vi.mocked(spawn).mock.calls[0] as any[]
+    expect(binary).toBe('flow')
+    expect(args).toEqual(expect.arrayContaining(['emulator', '--rest-port', '18888', '--admin-port', '18080', '--snapshot']))
+
+    const config = JSON.parse(await readFile(path.join(options.cwd, 'flow.json'), 'utf8'))
+    expect(config.accounts['emulator-account'].address).toBe('f8d6e0586b0a20c7')
+    expect(config.accounts['emulator-account'].key.privateKey).toMatch(/^[0-9a-f]{64}$/)
+    expect(emulator.isRunning()).toBe(true)
+  })
+
+  it('should report a missing Flow CLI', async () => {
+    vi.mocked(spawn).mockImplementation((() => {
+      setImmediate(() => child.emit('error', new Error('spawn flow ENOENT')))
+      return child
+    }) as any)
+    fetchMock.mockRejectedValue(new Error('ECONNREFUSED'))
+
+    await expect(emulator.start()).rejects.toThrow('Install the Flow CLI')
+    expect(emulator.isRunning()).toBe(false)
+  })
+
+  it('should deploy imported contracts and rewrite imports to emulator addresses', async () => {
+    await emulator.start()
+
+    const code = await emulator.prepareTransaction(
+      'import FungibleToken from 0x9a0766d93b6608b7\nimport SwapRouter from 0x2f8af5ed05bbde0d\n\ntransaction {}',
+      { SwapRouter: 'access(all) contract SwapRouter {}' }
+    )
+
+    expect(code).toContain('import FungibleToken from 0xee82856bf20e2aa6')
+    expect(code).toContain(`import SwapRouter from ${EMULATOR_SERVICE_ADDRESS}`)
+    expect(cliCalls.map(call => call.args.slice(0, 2))).toEqual([['project', 'deploy']])
+
+    const config = JSON.parse(await readFile(path.join(cliCalls[0].cwd, 'flow.json'), 'utf8'))
+    expect(config.deployments).toEqual({ emulator: { 'emulator-account': ['SwapRouter'] } })
+
+    // Unchanged contracts are not redeployed
+    await emulator.prepareTransaction('import SwapRouter from 0x01\ntransaction {}', { SwapRouter: 'access(all) contract SwapRouter {}' })
+    expect(cliCalls).toHaveLength(1)
+  })
+
+  it('should refuse transactions importing contracts without a source', async () => {
+    await emulator.start()
+
+    await expect(emulator.prepareTransaction('import Unknown from 0x01\ntransaction {}'))
+      .rejects.toThrow(FlowEmulatorProcessError)
+  })
+
+  it('should send transactions and decode their real result', async () => {
+    await emulator.start()
+
+    const result = await emulator.sendTransaction('transaction {}', 9999)
+
+    expect(cliCalls[0].args).toEqual(expect.arrayContaining(['transactions', 'send', '--signer', 'emulator-account', '--gas-limit', '9999']))
+    expect(result).toMatchObject({ status: 'Sealed', computationUsed: 42, blockHeight: 8, errorMessage: '' })
+    expect(result.events[0]).toEqual({
+      type: 'A.0ae53cb6e3f42a79.FlowToken.TokensWithdrawn',
+      transactionId: 'ab'.repeat(32),
+      transactionIndex: 0,
+      eventIndex: 0,
+      data: { amount: '1.50000000', from: EMULATOR_SERVICE_ADDRESS }
+    })
+    expect(await emulator.getFlowBalance(EMULATOR_SERVICE_ADDRESS)).toBe(1.5)
+  })
+
+  it('should create and restore snapshots through the admin API', async () => {
+    await emulator.start()
+
+    await emulator.createSnapshot('before-swap')
+    await emulator.restoreSnapshot('before-swap')
+
+    expect(fetchMock).toHaveBeenCalledWith('http://127.0.0.1:18080/emulator/snapshots', expect.objectContaining({
+      method: 'POST',
+      body: 'name=before-swap'
+    }))
+    expect(fetchMock).toHaveBeenCalledWith('http://127.0.0.1:18080/emulator/snapshots/before-swap', { method: 'PUT' })
+  })
+
+  it('should stop the process it started', async () => {
+    await emulator.start()
+    await emulator.stop()
+
+    expect(child.kill).toHaveBeenCalledWith('SIGTERM')
+    expect(emulator.isRunning()).toBe(false)
+  })
+})
@@ -1,6 +1,8 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import { FlowEmulatorService, EmulatorConfig } from '../flow-emulator-service'
 import { ParsedWorkflow, ActionMetadata, SecurityLevel } from '../types'
+import { FlowEmulatorProcess, EMULATOR_SERVICE_ADDRESS } from '../flow-emulator-process'
+import { CadenceGenerator } from '../cadence-generator'
 
 // Mock FCL
 vi.mock('@onflow/fcl', () => ({
@@ -10,6 +12,12 @@ vi.mock('@onflow/fcl', () => ({
   getLatestBlock: vi.fn()
 }))
 
+// Emulator mode drives a real `flow emulator`; replace the process wrapper
+vi.mock('../flow-emulator-process', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../flow-emulator-process')>(),
+  FlowEmulatorProcess: vi.fn()
+}))
+
 describe('FlowEmulatorService', () => {
   let emulatorService: FlowEmulatorService
   let mockConfig: Partial<EmulatorConfig>
@@ -467,4 +475,125 @@ describe('FlowEmulatorService', () => {
       expect(result.warnings.some(w => w.includes('Large number of transactions'))).toBe(true)
     })
   })
-})
\ No newline at end of file
+
+  describe('Emulator Mode', () => {
+    let emulatorProcess: Record<string, ReturnType<typeof vi.fn>>
+    let balances: Record<string, number[]>
+
+    beforeEach(async () => {
+      const fcl = await import('@onflow/fcl')
+      vi.mocked(fcl.send).mockResolvedValue({})
+      vi.mocked(fcl.decode).mockResolvedValue({ id: 'block123', height: 1 })
+
+      balances = { [EMULATOR_SERVICE_ADDRESS]: [100, 99.999] }
+      emulatorProcess = {
+        start: vi.fn().mockResolvedValue(undefined),
+        stop: vi.fn().mockResolvedValue(undefined),
+        prepareTransaction: vi.fn(async (code: string) => code),
+        getFlowBalance: vi.fn(async (address: string) => {
+          if (!balances[address]) throw new Error('account not found')
+          return balances[address].shift()
+        }),
+        sendTransaction: vi.fn().mockResolvedValue({
+          id: 'tx1',
+          status: 'Sealed',
+          errorMessage: '',
+          computationUsed: 37,
+          blockHeight: 12,
+          events: [{ type: 'A.01.SwapRouter.Swapped', transactionId: 'tx1', transactionIndex: 0, eventIndex: 0, data: { amountOut: '9.5' } }]
+        }),
+        createSnapshot: vi.fn().mockResolvedValue(undefined),
+        restoreSnapshot: vi.fn().mockResolvedValue(undefined),
+        getLatestBlockHeight: vi.fn().mockResolvedValue(12)
+      }
+      vi.mocked(FlowEmulatorProcess).mockImplementation(() => emulatorProcess as unknown as FlowEmulatorProcess)
+      vi.spyOn(CadenceGenerator, 'generateTransactionWithDetails').mockResolvedValue({
+        code: 'transaction {}',
+        success: true,
+        errors: [],
+        warnings: [],
+        fallbackUsed: false,
+        executionTime: 1
+      })
+
+      emulatorService = new FlowEmulatorService({
+        ...mockConfig,
+        mode: 'emulator',
+        contracts: { SwapRouter: 'access(all) contract SwapRouter {}' }
+      })
+    })
+
+    afterEach(() => {
+      vi.restoreAllMocks()
+    })
+
+    it('should start and stop a real emulator process', async () => {
+      await emulatorService.startEmulator()
+      expect(emulatorProcess.start).toHaveBeenCalled()
+
+      await emulatorService.stopEmulator()
+      expect(emulatorProcess.stop).toHaveBeenCalled()
+    })
+
+    it('should start a new emulator after a failed start', async () => {
+      emulatorProcess.start.mockRejectedValueOnce(new Error('port in use'))
+
+      await expect(emulatorService.startEmulator()).rejects.toThrow('port in use')
+      expect(emulatorService.getStatus().isRunning).toBe(false)
+
+      await emulatorService.startEmulator()
+      expect(emulatorProcess.start).toHaveBeenCalledTimes(2)
+      expect(emulatorService.getStatus().isRunning).toBe(true)
+    })
+
+    it('should stop the emulator when startup fails after it started', async () => {
+      emulatorProcess.getLatestBlockHeight.mockRejectedValueOnce(new Error('REST API gone'))
+
+      await expect(emulatorService.startEmulator()).rejects.toThrow('REST API gone')
+      expect(emulatorProcess.stop).toHaveBeenCalled()
+
+      await emulatorService.startEmulator()
+      expect(emulatorProcess.start).toHaveBeenCalledTimes(2)
+    })
+
+    it('should send the generated transaction and return real results', async () => {
+      const result = await emulatorService.simulateWorkflow(mockWorkflow, mockActionMetadata, { gasLimit: 500 })
+
+      expect(emulatorProcess.prepareTransaction).toHaveBeenCalledWith('transaction {}', {
+        SwapRouter: 'access(all) contract SwapRouter {}'
+      })
+      expect(emulatorProcess.sendTransaction).toHaveBeenCalledWith('transaction {}', 500)
+      expect(result.success).toBe(true)
+      expect(result.gasUsed).toBe(37)
+      expect(result.events).toEqual([{ type: 'A.01.SwapRouter.Swapped', data: { amountOut: '9.5' }, blockHeight: 12 }])
+      expect(result.balanceChanges).toEqual([{
+        address: EMULATOR_SERVICE_ADDRESS,
+        token: 'FLOW',
+        before: '100.00000000',
+        after: '99.99900000',
+        amount: expect.closeTo(-0.001, 8)
+      }])
+    })
+
+    it('should surface reverted transactions as errors', async () => {
+      emulatorProcess.sendTransaction.mockResolvedValueOnce({
+        id: 'tx2', status: 'Sealed', errorMessage: 'pre-condition failed', computationUsed: 5, blockHeight: 13, events: []
+      })
+
+      const result = await emulatorService.simulateWorkflow(mockWorkflow, mockActionMetadata)
+
+      expect(result.success).toBe(false)
+      expect(result.errors).toEqual([{ type: 'TRANSACTION_FAILED', message: 'pre-condition failed' }])
+    })
+
+    it('should use emulator snapshots', async () => {
+      await emulatorService.startEmulator()
+
+      const snapshotId = await emulatorService.createSnapshot('clean')
+      await emulatorService.restoreSnapshot(snapshotId)
+
+      expect(emulatorProcess.createSnapshot).toHaveBeenCalledWith('clean')
+      expect(emulatorProcess.restoreSnapshot).toHaveBeenCalledWith('clean')
+    })
+  })
+})
@@ -0,0 +1,241 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import {
+  AccessNodeEventSource,
+  FlowEventMonitor,
+  FlowEventSourceError,
+  isValidEventType,
+  matchesEventFilters,
+  normalizeEventType,
+  resolveParameterBindings,
+  type FlowChainEvent,
+  type FlowEventSource
+} from '../flow-event-monitor'
+import { AgentJobStore, createAgentJobStore, InMemoryAgentJobStoreAdapter } from '../agent-job-store'
+
+const DEPOSITED = 'A.1654653399040a61.FlowToken.TokensDeposited'
+
+const encodePayload = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64')
+
+const createEvent = (blockHeight: number, data: Record<string, any>, overrides: Partial<FlowChainEvent> = {}): FlowChainEvent => ({
+  type: DEPOSITED,
+  transactionId: `tx-${blockHeight}`,
+  transactionIndex: 0,
+  eventIndex: 0,
+  blockId: `block-${blockHeight}`,
+  blockHeight,
+  blockTimestamp: '2024-01-01T00:00:00.000Z',
+  data,
+  ...overrides
+})
+
+/**
+ * In-memory chain whose sealed height can be moved forward by the test
+ */
+const createSource = (events: FlowChainEvent[], height = 100) => {
+  const chain = { height }
+  const source = {
+    getLatestSealedHeight: vi.fn(async () => chain.height),
+    getEvents: vi.fn(async (type: string, start: number, end: number) =>
+      events.filter(event => event.type === type && event.blockHeight >= start && event.blockHeight <= end))
+  } satisfies FlowEventSource
+  return { source, chain }
+}
+
+describe('AccessNodeEventSource', () => {
+  it('reads the latest sealed height', async () => {
+    const fetchImpl = vi.fn(async () => new Response(JSON.stringify([{ header: { height: '4242' } }])))
+    const source = new AccessNodeEventSource('https://rest-testnet.onflow.org/', fetchImpl as any)
+
+    expect(await source.getLatestSealedHeight()).toBe(4242)
+    expect(fetchImpl).toHaveBeenCalledWith('https://rest-testnet.onflow.org/v1/blocks?height=sealed')
+  })
+
+  it('queries a block range and decodes JSON-Cadence payloads', async () => {
+    const payload = encodePayload({
+      type: 'Event',
+      value: {
+        id: DEPOSITED,
+        fields: [
+          { name: 'amount', value: { type: 'UFix64', value: '12.50000000' } },
+          { name: 'to', value: { type: 'Optional', value: { type: 'Address', value: '0x01cf0e2f2f715450' } } }
+        ]
+      }
+    })
+    const fetchImpl = vi.fn(async (_url: string) => new Response(JSON.stringify([{
+      block_id: 'abc',
+      block_height: '101',
+      block_timestamp: '2024-01-01T00:00:00.000Z',
+      events: [{ type: DEPOSITED, transaction_id: 'tx1', transaction_index: '2', event_index: '3', payload }]
+    }])))
+    const source = new AccessNodeEventSource('https://rest-testnet.onflow.org', fetchImpl as any)
+
+    const events = await source.getEvents(DEPOSITED, 101, 110)
+
+    expect(fetchImpl.mock.calls[0][0]).toBe(
+      `https://rest-testnet.onflow.org/v1/events?type=${encodeURIComponent(DEPOSITED)}&start_height=101&end_height=110`
+    )
+    expect(events).toEqual([{
+      type: DEPOSITED,
+      transactionId: 'tx1',
+      transactionIndex: 2,
+      eventIndex: 3,
+      blockId: 'abc',
+      blockHeight: 101,
+      blockTimestamp: '2024-01-01T00:00:00.000Z',
+      data: { amount: '12.50000000', to: '0x01cf0e2f2f715450' }
+    }])
+  })
+
+  it('surfaces access node errors with their status', async () => {
+    const source = new AccessNodeEventSource('https://rest-testnet.onflow.org', (async () => new Response('', { status: 503 })) as any)
+
+    const error = await source.getLatestSealedHeight().catch(err => err)
+    expect(error).toBeInstanceOf(FlowEventSourceError)
+    expect(error.status).toBe(503)
+  })
+})
+
+describe('event types', () => {
+  it('normalizes and validates event type IDs', () => {
+    expect(normalizeEventType('A.0x1654653399040a61.FlowToken.TokensDeposited')).toBe(DEPOSITED)
+    expect(isValidEventType(DEPOSITED)).toBe(true)
+    expect(isValidEventType('flow.AccountCreated')).toBe(true)
+    expect(isValidEventType('FlowToken.TokensDeposited')).toBe(false)
+    expect(isValidEventType('A.1654.FlowToken.TokensDeposited')).toBe(false)
+  })
+})
+
+describe('matchesEventFilters', () => {
+  const data = { amount: '150.00000000', to: '0x01CF0E2F2F715450', ids: [1, 2, 3], memo: 'monthly rent' }
+
+  it('compares addresses and UFix64 values by meaning, not text', () => {
+    expect(matchesEventFilters(data, [{ field: 'to', operator: 'eq', value: '01cf0e2f2f715450' }])).toBe(true)
+    expect(matchesEventFilters(data, [{ field: 'amount', operator: 'eq', value: 150 }])).toBe(true)
+    expect(matchesEventFilters(data, [{ field: 'to', operator: 'neq', value: '0xf8d6e0586b0a20c7' }])).toBe(true)
+  })
+
+  it('supports numeric comparisons, membership and contains', () => {
+    expect(matchesEventFilters(data, [{ field: 'amount', operator: 'gte', value: '100.0' }])).toBe(true)
+    expect(matchesEventFilters(data, [{ field: 'amount', operator: 'lt', value: 100 }])).toBe(false)
+    expect(matchesEventFilters(data, [{ field: 'to', operator: 'in', value: ['0x01cf0e2f2f715450', '0xf8d6e0586b0a20c7'] }])).toBe(true)
+    expect(matchesEventFilters(data, [{ field: 'ids', operator: 'contains', value: 2 }])).toBe(true)
+    expect(matchesEventFilters(data, [{ field: 'memo', operator: 'contains', value: 'rent' }])).toBe(true)
+  })
+
+  it('requires every filter to match and the field to exist', () => {
+    expect(matchesEventFilters(data, [
+      { field: 'amount', operator: 'gt', value: 100 },
+      { field: 'memo', operator: 'eq', value: 'groceries' }
+    ])).toBe(false)
+    expect(matchesEventFilters(data, [{ field: 'from', operator: 'neq', value: 'x' }])).toBe(false)
+    expect(matchesEventFilters(data)).toBe(true)
+  })
+})
+
+describe('resolveParameterBindings', () => {
+  it('maps event fields onto action parameters', () => {
+    const event = createEvent(101, { amount: '5.0', to: '0x01cf0e2f2f715450' })
+
+    expect(resolveParameterBindings({
+      'transfer-1.amount': 'data.amount',
+      'transfer-1.recipient': 'data.to',
+      'notify.step.note': 'transactionId',
+      'transfer-1.memo': 'data.missing'
+    }, event)).toEqual({
+      'transfer-1': { amount: '5.0', recipient: '0x01cf0e2f2f715450' },
+      'notify.step': { note: 'tx-101' }
+    })
+  })
+})
+
+describe('FlowEventMonitor', () => {
+  let store: AgentJobStore
+
+  beforeEach(() => {
+    store = createAgentJobStore(new InMemoryAgentJobStoreAdapter())
+  })
+
+  it('starts a new subscription at the current sealed block', async () => {
+    const { source, chain } = createSource([createEvent(90, {}), createEvent(103, {})])
+    const onEvent = vi.fn(async () => {})
+    const monitor = new FlowEventMonitor({ source, store, onEvent })
+    monitor.subscribe('agent-1', 0, { eventType: DEPOSITED })
+
+    expect(await monitor.poll()).toBe(0)
+    expect(await store.getEventCheckpoint(`agent-1:0:${DEPOSITED}`)).toMatchObject({ agentId: 'agent-1', height: 100 })
+
+    chain.height = 105
+    expect(await monitor.poll()).toBe(1)
+    expect(onEvent).toHaveBeenCalledWith(expect.objectContaining({ agentId: 'agent-1', triggerIndex: 0 }), expect.objectContaining({ blockHeight: 103 }))
+  })
+
+  it('backfills from startHeight in ranges no larger than maxBlockRange', async () => {
+    const { source } = createSource([
+      createEvent(40, { amount: '1.0' }),
+      createEvent(75, { amount: '500.0' }),
+      createEvent(75, { amount: '200.0' }, { transactionId: 'tx-75b', transactionIndex: 1 }),
+      createEvent(99, { amount: '2.0' })
+    ])
+    const seen: string[] = []
+    const monitor = new FlowEventMonitor({
+      source,
+      store,
+      maxBlockRange: 25,
+      onEvent: async (_subscription, event) => { seen.push(event.transactionId) }
+    })
+    monitor.subscribe('agent-1', 0, { eventType: DEPOSITED, startHeight: 50, filters: [{ field: 'amount', operator: 'gte', value: 100 }] })
+
+    expect(await monitor.poll()).toBe(2)
+    expect(seen).toEqual(['tx-75', 'tx-75b'])
+    expect(source.getEvents.mock.calls.map(([, start, end]) => [start, end])).toEqual([[50, 74], [75, 99], [100, 100]])
+  })
+
+  it('resumes from the stored checkpoint in a new monitor', async () => {
+    const { source, chain } = createSource([createEvent(102, {}), createEvent(108, {})])
+    const first = new FlowEventMonitor({ source, store, onEvent: async () => {} })
+    first.subscribe('agent-1', 0, { eventType: DEPOSITED })
+    await first.poll()
+    chain.height = 104
+    await first.poll()
+
+    chain.height = 110
+    const seen: number[] = []
+    const second = new FlowEventMonitor({ source, store, onEvent: async (_subscription, event) => { seen.push(event.blockHeight) } })
+    second.subscribe('agent-1', 0, { eventType: 'A.0x1654653399040a61.FlowToken.TokensDeposited' })
+    await second.poll()
+
+    expect(seen).toEqual([108])
+    expect(source.getEvents).toHaveBeenLastCalledWith(DEPOSITED, 105, 110)
+  })
+
+  it('keeps the checkpoint when handling an event fails so the range is retried', async () => {
+    const mockConsoleError = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const { source, chain } = createSource([createEvent(103, {})])
+    const onEvent = vi.fn()
+      .mockRejectedValueOnce(new Error('store unavailable'))
+      .mockResolvedValue(undefined)
+    const monitor = new FlowEventMonitor({ source, store, onEvent })
+    monitor.subscribe('agent-1', 0, { eventType: DEPOSITED })
+    await monitor.poll()
+
+    chain.height = 105
+    expect(await monitor.poll()).toBe(0)
+    expect((await store.getEventCheckpoint(`agent-1:0:${DEPOSITED}`))?.height).toBe(100)
+    expect(mockConsoleError).toHaveBeenCalled()
+
+    expect(await monitor.poll()).toBe(1)
+    expect((await store.getEventCheckpoint(`agent-1:0:${DEPOSITED}`))?.height).toBe(105)
+    mockConsoleError.mockRestore()
+  })
+
+  it('stops scanning for an agent after unsubscribe', async () => {
+    const { source } = createSource([])
+    const monitor = new FlowEventMonitor({ source, store, onEvent: async () => {} })
+    monitor.subscribe('agent-1', 0, { eventType: DEPOSITED })
+    monitor.subscribe('agent-2', 0, { eventType: DEPOSITED })
+
+    monitor.unsubscribe('agent-1')
+
+    expect(monitor.getSubscriptions().map(subscription => subscription.agentId)).toEqual(['agent-2'])
+  })
+})
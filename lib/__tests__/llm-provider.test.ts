@@ -0,0 +1,218 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import {
+  LLMProvider,
+  LLMProviderError,
+  LLMStepRequest,
+  OpenAICompatibleLLMProvider,
+  buildStepsSchema,
+  createLLMProviderFromEnv,
+  groundSteps
+} from '../llm-provider'
+import { NLPService } from '../nlp-service'
+import { ActionMetadata, ParsedStep, SecurityLevel } from '../types'
+
+const createAction = (id: string, name: string, inputs: string[]): ActionMetadata => ({
+  id,
+  name,
+  description: `${name} action`,
+  category: 'defi',
+  version: '1.0.0',
+  inputs: inputs.map(input => ({ name: input, type: 'String', required: true })),
+  outputs: [],
+  parameters: [],
+  compatibility: { requiredCapabilities: [], supportedNetworks: ['testnet'], minimumFlowVersion: '1.0.0', conflictsWith: [] },
+  gasEstimate: 100,
+  securityLevel: SecurityLevel.LOW,
+  author: 'test',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z'
+})
+
+const catalog = [
+  createAction('swap-tokens', 'swap', ['amount', 'fromToken', 'toToken']),
+  createAction('transfer-tokens', 'transfer', ['amount', 'token', 'recipient'])
+]
+
+const INSTRUCTION = 'Swap 10 FLOW to USDC and send half to 0x01cf0e2f2f715450'
+
+const MODEL_ANSWER = {
+  steps: [
+    {
+      actionId: 'swap-tokens',
+      parameters: [
+        { name: 'amount', value: '10' },
+        { name: 'fromToken', value: 'FLOW' },
+        { name: 'toToken', value: 'USDC' }
+      ],
+      confidence: 0.9
+    },
+    {
+      actionId: 'transfer-tokens',
+      parameters: [
+        { name: 'amount', value: '5' },
+        { name: 'token', value: 'USDC' },
+        { name: 'recipient', value: '0x01cf0e2f2f715450' }
+      ],
+      confidence: 0.85
+    }
+  ]
+}
+
+/**
+ * Deterministic provider answering from a fixed table of inputs
+ */
+class FakeLLMProvider implements LLMProvider {
+  readonly id = 'fake'
+  readonly requests: LLMStepRequest[] = []
+
+  constructor(private readonly answers: Record<string, unknown>) {}
+
+  async generateSteps(request: LLMStepRequest): Promise<ParsedStep[]> {
+    this.requests.push(request)
+    if (!(request.input in this.answers)) {
+      throw new LLMProviderError('No answer for this input', this.id)
+    }
+    return groundSteps(this.answers[request.input], request.catalog, this.id)
+  }
+}
+
+describe('LLM providers', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe('groundSteps', () => {
+    it('should map model output to steps from the catalog', () => {
+      const steps = groundSteps(MODEL_ANSWER, catalog, 'fake')
+
+      expect(steps).toHaveLength(2)
+      expect(steps[0]).toMatchObject({
+        actionId: 'swap-tokens',
+        actionName: 'swap',
+        parameters: { amount: '10', fromToken: 'FLOW', toToken: 'USDC' },
+        confidence: 0.9,
+        position: 0,
+        metadata: { parser: 'llm', provider: 'fake' }
+      })
+      expect(steps[1]).toMatchObject({ actionId: 'transfer-tokens', position: 1 })
+    })
+
+    it('should drop parameters the action does not take', () => {
+      const [step] = groundSteps({
+        steps: [{ actionId: 'swap-tokens', parameters: [{ name: 'slippage', value: '1' }, { name: 'amount', value: '3' }], confidence: 7 }]
+      }, catalog)
+
+      expect(step.parameters).toEqual({ amount: '3' })
+      expect(step.confidence).toBe(1)
+    })
+
+    it('should reject actions outside the catalog and malformed answers', () => {
+      expect(() => groundSteps({ steps: [{ actionId: 'bridge-tokens', parameters: [], confidence: 1 }] }, catalog))
+        .toThrow(/outside the catalog/)
+      expect(() => groundSteps({ actions: [] }, catalog)).toThrow(LLMProviderError)
+    })
+
+    it('should limit action IDs in the schema to the catalog', () => {
+      const schema = buildStepsSchema(catalog)
+
+      expect(schema.properties.steps.items.properties.actionId.enum).toEqual(['swap-tokens', 'transfer-tokens'])
+    })
+  })
+
+  describe('OpenAICompatibleLLMProvider', () => {
+    const respond = (body: unknown, status = 200) =>
+      vi.fn(async (_url: string, _init?: RequestInit) => new Response(JSON.stringify(body), { status }))
+
+    it('should request schema-constrained output and ground the answer', async () => {
+      const fetchImpl = respond({ choices: [{ message: { content: JSON.stringify(MODEL_ANSWER) } }] })
+      const provider = new OpenAICompatibleLLMProvider(
+        { baseUrl: 'http://127.0.0.1:8080/v1/', model: 'local-model', apiKey: 'secret' },
+        fetchImpl as any
+      )
+
+      const steps = await provider.generateSteps({ input: INSTRUCTION, catalog })
+
+      expect(steps.map(step => step.actionId)).toEqual(['swap-tokens', 'transfer-tokens'])
+      const [url, init] = fetchImpl.mock.calls[0]
+      expect(url).toBe('http://127.0.0.1:8080/v1/chat/completions')
+      expect(init?.headers).toMatchObject({ Authorization: 'Bearer secret' })
+
+      const request = JSON.parse(init!.body as string)
+      expect(request.model).toBe('local-model')
+      expect(request.messages[0].content).toContain('"id":"swap-tokens"')
+      expect(request.messages[1]).toEqual({ role: 'user', content: INSTRUCTION })
+      expect(request.response_format).toMatchObject({
+        type: 'json_schema',
+        json_schema: { name: 'workflow_steps', strict: true }
+      })
+    })
+
+    it('should fail on HTTP errors and unparseable answers', async () => {
+      const failing = new OpenAICompatibleLLMProvider({ baseUrl: 'http://llm', model: 'm' }, respond({ error: 'busy' }, 503) as any)
+      await expect(failing.generateSteps({ input: INSTRUCTION, catalog })).rejects.toThrow(/HTTP 503/)
+
+      const garbled = new OpenAICompatibleLLMProvider(
+        { baseUrl: 'http://llm', model: 'm' },
+        respond({ choices: [{ message: { content: 'Sure! Here are your steps' } }] }) as any
+      )
+      await expect(garbled.generateSteps({ input: INSTRUCTION, catalog })).rejects.toThrow(/not valid JSON/)
+    })
+
+    it('should only be configured from the environment when a server and model are set', () => {
+      expect(createLLMProviderFromEnv({})).toBeNull()
+      expect(createLLMProviderFromEnv({ LLM_BASE_URL: 'http://llm' })).toBeNull()
+      expect(createLLMProviderFromEnv({ LLM_BASE_URL: 'http://llm', LLM_MODEL: 'm' })?.id).toBe('openai-compatible:m')
+    })
+  })
+
+  describe('NLPService with an LLM provider', () => {
+    const createService = (provider: LLMProvider | null) =>
+      new NLPService({ confidenceThreshold: 0.5, apiKey: undefined }, {
+        llmProvider: provider,
+        actionCatalog: async () => catalog
+      })
+
+    it('should parse multi-clause instructions into several grounded steps', async () => {
+      const provider = new FakeLLMProvider({ [INSTRUCTION]: MODEL_ANSWER })
+
+      const result = await createService(provider).parseWorkflow(INSTRUCTION)
+
+      expect(result.parser).toBe('llm')
+      expect(result.steps.map(step => step.actionName)).toEqual(['swap', 'transfer'])
+      expect(result.steps[1].parameters).toMatchObject({ amount: '5', recipient: '0x01cf0e2f2f715450' })
+      expect(provider.requests[0].catalog).toBe(catalog)
+    })
+
+    it('should fall back to the heuristic pipeline when the provider fails', async () => {
+      const result = await createService(new FakeLLMProvider({})).parseWorkflow('Swap 100 USDC to FLOW')
+
+      expect(result.parser).toBe('heuristic')
+      expect(result.steps).toHaveLength(1)
+      expect(result.steps[0].actionName).toBe('swap')
+    })
+
+    it('should fall back when the provider finds no steps or skips grounding', async () => {
+      const empty: LLMProvider = { id: 'empty', generateSteps: async () => [] }
+      const ungrounded: LLMProvider = {
+        id: 'ungrounded',
+        generateSteps: async () => [{ actionId: 'made-up', actionName: 'swap', parameters: {}, confidence: 1 }]
+      }
+
+      expect((await createService(empty).parseWorkflow('Stake 1000 FLOW')).parser).toBe('heuristic')
+      expect((await createService(ungrounded).parseWorkflow('Stake 1000 FLOW')).parser).toBe('heuristic')
+    })
+
+    it('should not call the provider for empty input', async () => {
+      const provider = new FakeLLMProvider({})
+
+      const result = await createService(provider).parseWorkflow('')
+
+      expect(result.steps).toEqual([])
+      expect(provider.requests).toEqual([])
+    })
+  })
+})
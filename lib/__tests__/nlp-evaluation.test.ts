@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest'
+import {
+  compareNLPMetrics,
+  evaluateNLP,
+  formatNLPReport,
+  type EvaluatedNLPService,
+  type NLPEvaluationCase,
+  type NLPEvaluationMetrics
+} from '../nlp-evaluation'
+import { Entity, NLPResult, WorkflowIntent } from '../types'
+
+const ALICE = '0x01cf0e2f2f715450'
+
+const corpus: NLPEvaluationCase[] = [
+  {
+    id: 'swap',
+    input: 'Swap 100 USDC to FLOW',
+    intent: WorkflowIntent.SWAP,
+    entities: [
+      { type: 'action', value: 'swap' },
+      { type: 'amount', value: '100' },
+      { type: 'token', value: 'USDC' },
+      { type: 'token', value: 'FLOW' }
+    ],
+    steps: [{ actionName: 'swap', parameters: { amount: '100', fromToken: 'USDC', toToken: 'FLOW' } }]
+  },
+  {
+    id: 'envio',
+    language: 'es',
+    input: `Envía 1.000,50 FLOW a ${ALICE}`,
+    intent: WorkflowIntent.TRANSFER,
+    entities: [
+      { type: 'action', value: 'transfer' },
+      { type: 'amount', value: '1000.50' },
+      { type: 'address', value: ALICE }
+    ],
+    steps: [{ actionName: 'transfer', parameters: { amount: '1000.50', fromToken: 'FLOW', address: ALICE } }]
+  }
+]
+
+const entity = (type: Entity['type'], value: string): Entity => ({ type, value, confidence: 0.9, position: [0, 0] })
+
+/**
+ * Service with canned answers: the swap is parsed right, the transfer is
+ * taken for a stake without its address
+ */
+const fakeService = (answers: Record<string, { result: Partial<NLPResult>; entities: Entity[] } | Error>): EvaluatedNLPService => {
+  const answer = (input: string) => {
+    const found = answers[input]
+    if (found instanceof Error) throw found
+    return found
+  }
+  return {
+    parseWorkflow: async input => ({ confidence: 1, steps: [], ambiguities: [], suggestions: [], processingTime: 1, ...answer(input).result }),
+    preprocessText: async input => ({
+      originalText: input,
+      cleanedText: input,
+      tokens: [],
+      entities: answer(input).entities,
+      metadata: { wordCount: 0, characterCount: 0 }
+    }),
+    extractEntities: async () => []
+  }
+}
+
+const service = fakeService({
+  [corpus[0].input]: {
+    result: {
+      intent: WorkflowIntent.SWAP,
+      steps: [{ actionId: 'swap_0', actionName: 'swap', parameters: { amount: '100', fromToken: 'usdc', toToken: 'FLOW', slippage: '0.5' }, confidence: 1, position: 0 }]
+    },
+    entities: [entity('action', 'swap'), entity('amount', '100'), entity('token', 'USDC'), entity('token', 'FLOW')]
+  },
+  [corpus[1].input]: {
+    result: {
+      steps: [{ actionId: 'stake_0', actionName: 'stake', parameters: { amount: '1000.5', fromToken: 'FLOW' }, confidence: 1, position: 0 }]
+    },
+    entities: [entity('action', 'stake'), entity('amount', '1000.5')]
+  }
+})
+
+describe('evaluateNLP', () => {
+  it('should score intents, entities and parameters', async () => {
+    const report = await evaluateNLP(service, corpus, { now: () => new Date('2024-03-01T00:00:00.000Z') })
+
+    expect(report.generatedAt).toBe('2024-03-01T00:00:00.000Z')
+    expect(report.metrics).toEqual({
+      cases: 2,
+      intentAccuracy: 0.5,
+      entityPrecision: 0.8333,
+      entityRecall: 0.7143,
+      entityF1: 0.7692,
+      parameterExactMatch: 0.5
+    })
+    expect(report.cases[1]).toMatchObject({
+      id: 'envio',
+      intent: { expected: 'transfer', actual: 'stake', correct: false },
+      entities: { truePositives: 1, missing: ['action:transfer', `address:${ALICE}`], unexpected: ['action:stake'] },
+      steps: { exactMatch: false }
+    })
+  })
+
+  it('should break the metrics down by language', async () => {
+    const report = await evaluateNLP(service, corpus)
+
+    expect(Object.keys(report.byLanguage)).toEqual(['en', 'es'])
+    expect(report.byLanguage.en).toMatchObject({ cases: 1, intentAccuracy: 1, parameterExactMatch: 1 })
+    expect(report.byLanguage.es).toMatchObject({ cases: 1, intentAccuracy: 0, parameterExactMatch: 0 })
+  })
+
+  it('should count cases the service fails on as misses', async () => {
+    const report = await evaluateNLP(fakeService({ [corpus[0].input]: new Error('boom') }), [corpus[0]])
+
+    expect(report.cases[0]).toMatchObject({ error: 'boom', intent: { correct: false }, steps: { exactMatch: false } })
+    expect(report.metrics).toMatchObject({ intentAccuracy: 0, entityRecall: 0, parameterExactMatch: 0 })
+  })
+
+  it('should report regressions against the baseline', async () => {
+    const baseline: NLPEvaluationMetrics = {
+      cases: 2,
+      intentAccuracy: 1,
+      entityPrecision: 1,
+      entityRecall: 1,
+      entityF1: 0.78,
+      parameterExactMatch: 0.5
+    }
+
+    const report = await evaluateNLP(service, corpus, { baseline, maxDrop: 0.02 })
+
+    expect(report.regressions).toEqual([{ metric: 'intentAccuracy', baseline: 1, current: 0.5, drop: 0.5 }])
+    expect(formatNLPReport(report)).toContain('- intentAccuracy: 100.0% → 50.0%')
+  })
+})
+
+describe('compareNLPMetrics', () => {
+  it('should allow drops within the margin', () => {
+    const metrics: NLPEvaluationMetrics = {
+      cases: 10,
+      intentAccuracy: 0.9,
+      entityPrecision: 0.9,
+      entityRecall: 0.9,
+      entityF1: 0.9,
+      parameterExactMatch: 0.8
+    }
+
+    expect(compareNLPMetrics(metrics, { ...metrics, entityF1: 0.89, parameterExactMatch: 0.9 }, 0.02)).toEqual([])
+    expect(compareNLPMetrics(metrics, { ...metrics, entityF1: 0.85 }, 0.02).map(regression => regression.metric)).toEqual(['entityF1'])
+  })
+})
@@ -52,8 +52,8 @@ describe('NLP Input Integration Tests', () => {
 
     expect(screen.getByPlaceholderText(/describe your workflow/i)).toBeInTheDocument()
     expect(screen.getByText('Real-time feedback active')).toBeInTheDocument()
-    expect(screen.getByRole('button', { name: /generate workflow/i })).toBeInTheDocument()
-    expect(screen.getByRole('button', { name: /cancel/i })).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: /send/i })).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: /close/i })).toBeInTheDocument()
   })
 
   it('shows connection status indicator', () => {
@@ -135,45 +135,44 @@ describe('NLP Input Integration Tests', () => {
     })
   })
 
-  it('handles workflow generation and calls callback', async () => {
+  it('sends the description to an NLP session and applies each turn to the canvas', async () => {
     const user = userEvent.setup()
-    
-    // Mock successful parsing result
-    vi.doMock('@/hooks/use-nlp-websocket', () => ({
-      useNLPWebSocket: () => ({
-        isConnected: true,
-        feedback: {
-          highlights: [],
-          entities: [],
-          suggestions: [],
-          validation: {
-            hasContent: true,
-            hasActions: true,
-            hasTokens: true,
-            complexity: 0.8
-          },
-          result: {
-            confidence: 0.9,
-            steps: [
-              {
-                actionId: 'swap-tokens',
-                actionName: 'Swap Tokens',
-                parameters: { from: 'USDC', to: 'FLOW', amount: 100 },
-                confidence: 0.95
-              }
-            ],
-            ambiguities: [],
-            suggestions: []
-          },
-          error: null,
-          isProcessing: false
-        },
-        parseInput: vi.fn(),
-        validateInput: vi.fn(),
-        getSuggestions: vi.fn(),
-        clearFeedback: vi.fn()
+    const step = (id: string, actionName: string, parameters: Record<string, string>, position: number) =>
+      ({ id, actionId: `${actionName}_0`, actionName, parameters, confidence: 0.9, position })
+    const swap = step('step_1', 'swap', { amount: '100', fromToken: 'USDC', toToken: 'FLOW' }, 0)
+    const transfer = step('step_2', 'transfer', { amount: '50' }, 1)
+    const question = {
+      id: 'step_2:address',
+      question: 'What address should step 2 (transfer) use?',
+      stepId: 'step_2',
+      parameters: ['address'],
+      suggestions: [],
+      ambiguity: { type: 'parameter', message: 'Transfer action requires a destination address', suggestions: [] }
+    }
+    const sessionReply = (steps: any[], questions: any[], turns: any[]) => ({
+      success: true,
+      data: {
+        session: { id: 'nlp_1', steps, questions, turns },
+        reply: turns[turns.length - 1].message,
+        diff: { added: [], removed: [], changed: [] },
+        questions
+      }
+    })
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => sessionReply([swap, transfer], [question], [
+          { role: 'user', message: 'Swap 100 USDC to FLOW and send 50 to Alice', at: '' },
+          { role: 'assistant', message: 'Parsed 2 steps. What address should step 2 (transfer) use?', at: '' }
+        ])
       })
-    }))
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => sessionReply([swap, { ...transfer, parameters: { amount: '50', address: '0x01cf0e2f2f715450' } }], [], [
+          { role: 'assistant', message: 'Set address to 0x01cf0e2f2f715450 for step 2 (transfer).', at: '' }
+        ])
+      })
+    vi.stubGlobal('fetch', fetchMock)
 
     render(
       <NLPInput
@@ -182,19 +181,29 @@ describe('NLP Input Integration Tests', () => {
       />
     )
 
-    const textarea = screen.getByPlaceholderText(/describe your workflow/i)
-    const generateButton = screen.getByRole('button', { name: /generate workflow/i })
+    await user.type(screen.getByPlaceholderText(/describe your workflow/i), 'Swap 100 USDC to FLOW and send 50 to Alice')
+    await user.click(screen.getByRole('button', { name: /send/i }))
 
-    await user.type(textarea, 'Swap 100 USDC to FLOW')
-    await user.click(generateButton)
+    expect(await screen.findByText('What address should step 2 (transfer) use?', { selector: 'p.font-medium' })).toBeInTheDocument()
+    const workflow = mockOnWorkflowGenerated.mock.calls[0][0] as Workflow
+    expect(workflow.nodes.map(node => node.id)).toEqual(['step_1', 'step_2'])
+    expect(workflow.edges).toEqual([{ id: 'estep_1-step_2', source: 'step_1', target: 'step_2' }])
 
-    // Should call the workflow generation callback after processing
-    await waitFor(() => {
-      expect(mockOnWorkflowGenerated).toHaveBeenCalled()
-    }, { timeout: 2000 })
+    await user.type(screen.getByPlaceholderText('address'), '0x01cf0e2f2f715450')
+    await user.click(screen.getByRole('button', { name: /answer/i }))
+
+    await waitFor(() => expect(mockOnWorkflowGenerated).toHaveBeenCalledTimes(2))
+    expect(JSON.parse(fetchMock.mock.calls[1][1].body)).toEqual({
+      sessionId: 'nlp_1',
+      answers: [{ questionId: 'step_2:address', value: '0x01cf0e2f2f715450' }]
+    })
+    expect((mockOnWorkflowGenerated.mock.calls[1][0] as Workflow).nodes[1].data.parameters)
+      .toMatchObject({ address: '0x01cf0e2f2f715450' })
+
+    vi.unstubAllGlobals()
   })
 
-  it('handles cancel action', async () => {
+  it('handles close action', async () => {
     const user = userEvent.setup()
     
     render(
@@ -204,13 +213,13 @@ describe('NLP Input Integration Tests', () => {
       />
     )
 
-    const cancelButton = screen.getByRole('button', { name: /cancel/i })
-    await user.click(cancelButton)
+    const closeButton = screen.getByRole('button', { name: /close/i })
+    await user.click(closeButton)
 
     expect(mockOnClose).toHaveBeenCalled()
   })
 
-  it('disables generate button when no input', () => {
+  it('disables send button when no input', () => {
     render(
       <NLPInput
         onWorkflowGenerated={mockOnWorkflowGenerated}
@@ -218,8 +227,8 @@ describe('NLP Input Integration Tests', () => {
       />
     )
 
-    const generateButton = screen.getByRole('button', { name: /generate workflow/i })
-    expect(generateButton).toBeDisabled()
+    const sendButton = screen.getByRole('button', { name: /send/i })
+    expect(sendButton).toBeDisabled()
   })
 
   it('shows processing state', () => {
@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { readFileSync } from 'fs'
+import path from 'path'
+import {
+  SUPPORTED_LANGUAGES,
+  detectLanguage,
+  normalizeNumbers,
+  parseLocalizedNumber,
+  toCanonicalText
+} from '../nlp-languages'
+import { isStopWord, parseAmount } from '../nlp-utils'
+import { NLPService } from '../nlp-service'
+
+interface CorpusCase {
+  input: string
+  steps: Array<{ actionName: string; parameters: Record<string, string> }>
+}
+
+const loadCorpus = (language: string): CorpusCase[] =>
+  JSON.parse(readFileSync(path.join(__dirname, 'fixtures', 'nlp', `${language}.json`), 'utf8'))
+
+describe('detectLanguage', () => {
+  it('should tell the supported languages apart', () => {
+    expect(detectLanguage('Swap 100 USDC to FLOW')).toBe('en')
+    expect(detectLanguage('Intercambia 100 USDC por FLOW y luego envía la mitad')).toBe('es')
+    expect(detectLanguage('Troque 100 USDC por FLOW e depois envie a metade')).toBe('pt')
+    expect(detectLanguage('把100 USDC兑换成FLOW')).toBe('zh')
+  })
+
+  it('should default to English', () => {
+    expect(detectLanguage('')).toBe('en')
+    expect(detectLanguage('100 FLOW')).toBe('en')
+  })
+})
+
+describe('number formats', () => {
+  it('should read numbers in the format of the language', () => {
+    expect(parseLocalizedNumber('1.000,50', 'es')).toBe(1000.5)
+    expect(parseLocalizedNumber('10,5', 'pt')).toBe(10.5)
+    expect(parseLocalizedNumber('1,000.50', 'en')).toBe(1000.5)
+    expect(parseLocalizedNumber('1.5', 'es')).toBeNull()
+    expect(parseLocalizedNumber('abc', 'en')).toBeNull()
+  })
+
+  it('should rewrite numbers to plain decimals', () => {
+    expect(normalizeNumbers('Envía 1.000,50 y 2,5 FLOW', 'es')).toBe('Envía 1000.50 y 2.5 FLOW')
+    expect(normalizeNumbers('质押1万 FLOW，再质押2.5千', 'zh')).toBe('质押10000 FLOW，再质押2500')
+  })
+
+  it('should parse amounts in the language\'s format', () => {
+    expect(parseAmount('1.000,50', 'es')).toMatchObject({ value: 1000.5, isValid: true })
+    expect(parseAmount('1,000.50')).toMatchObject({ value: 1000.5, isValid: true })
+  })
+})
+
+describe('toCanonicalText', () => {
+  it('should rewrite verbs, connectors and token names into English', () => {
+    expect(toCanonicalText('Envía 5 bitcoins a 0x01cf0e2f2f715450', 'es')).toBe('send 5 BTC to 0x01cf0e2f2f715450')
+    expect(toCanonicalText('Quero pegar emprestado 300 usdc', 'pt')).toBe('borrow 300 USDC')
+    expect(toCanonicalText('把10 FLOW兑换成USDC，然后质押', 'zh')).toBe('swap 10 FLOW to USDC, then stake')
+  })
+
+  it('should prefer phrases over the words inside them', () => {
+    expect(toCanonicalText('pedir prestado 5 FLOW', 'es')).toBe('borrow 5 FLOW')
+    expect(toCanonicalText('解除质押 5 FLOW', 'zh')).toBe('unstake 5 FLOW')
+  })
+})
+
+describe('stop words', () => {
+  it('should use the stop words of the language', () => {
+    expect(isStopWord('the')).toBe(true)
+    expect(isStopWord('los', 'es')).toBe(true)
+    expect(isStopWord('você', 'pt')).toBe(true)
+    expect(isStopWord('的', 'zh')).toBe(true)
+    expect(isStopWord('los')).toBe(false)
+  })
+})
+
+describe.each(SUPPORTED_LANGUAGES)('%s corpus', (language) => {
+  let nlpService: NLPService
+
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    nlpService = new NLPService({ confidenceThreshold: 0.5, apiKey: undefined }, { llmProvider: null })
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it.each(loadCorpus(language))('should parse "$input"', async ({ input, steps }) => {
+    const result = await nlpService.parseWorkflow(input)
+
+    expect(result.language).toBe(language)
+    expect(result.steps).toHaveLength(steps.length)
+    steps.forEach((expected, index) => {
+      expect(result.steps[index]).toMatchObject(expected)
+    })
+  })
+})
@@ -0,0 +1,198 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import {
+  NLPSessionError,
+  NLPSessionService,
+  type NLPSessionServiceOptions,
+  diffSteps,
+  extractParameterValues,
+  type SessionStep
+} from '../nlp-session-service'
+import { NLPService } from '../nlp-service'
+
+const ALICE = '0x01cf0e2f2f715450'
+
+describe('NLPSessionService', () => {
+  let now: number
+  let service: NLPSessionService
+
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    now = Date.parse('2024-03-01T00:00:00.000Z')
+    service = createService()
+  })
+
+  const createService = (options: NLPSessionServiceOptions = {}) => new NLPSessionService({
+    nlp: new NLPService({ confidenceThreshold: 0.5, apiKey: undefined }, { llmProvider: null }),
+    now: () => now,
+    ...options
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  const startSwapAndSend = () => service.create({ message: 'Swap 10 FLOW to USDC and send half to Alice' })
+
+  describe('clarifying questions', () => {
+    it('should ask about every ambiguity in the description', async () => {
+      const { session, questions, reply, diff } = await startSwapAndSend()
+
+      expect(session.steps.map(step => [step.id, step.actionName])).toEqual([['step_1', 'swap'], ['step_2', 'transfer']])
+      expect(diff.added).toHaveLength(2)
+      expect(questions).toEqual([expect.objectContaining({
+        id: 'step_2:address',
+        stepId: 'step_2',
+        parameters: ['address'],
+        question: 'What address should step 2 (transfer) use?'
+      })])
+      expect(reply).toContain('What address should step 2 (transfer) use?')
+    })
+
+    it('should take answers by question ID', async () => {
+      const { session, questions } = await startSwapAndSend()
+
+      const result = await service.reply(session.id, { answers: [{ questionId: questions[0].id, value: ALICE }] })
+
+      expect(result.session.steps[1].parameters.address).toBe(ALICE)
+      expect(result.diff.changed).toEqual([{
+        stepId: 'step_2',
+        position: 1,
+        actionName: 'transfer',
+        parameters: [{ name: 'address', from: undefined, to: ALICE }]
+      }])
+      expect(result.questions).toEqual([])
+    })
+
+    it('should read a plain reply as the answer to the open question', async () => {
+      const { session } = await startSwapAndSend()
+
+      const result = await service.reply(session.id, { message: `Alice is ${ALICE}` })
+
+      expect(result.session.steps[1].parameters.address).toBe(ALICE)
+      expect(result.reply).toContain('Set address to')
+    })
+
+    it('should refuse answers to questions that are not open', async () => {
+      const { session } = await startSwapAndSend()
+
+      await expect(service.reply(session.id, { answers: [{ questionId: 'step_1:amount', value: '1' }] }))
+        .rejects.toMatchObject({ code: 'INVALID' })
+    })
+  })
+
+  describe('edits', () => {
+    it('should change the amount of the latest step that has one, or the step named', async () => {
+      const { session } = await startSwapAndSend()
+
+      const latest = await service.reply(session.id, { message: 'change the amount to 5' })
+      expect(latest.diff.changed).toEqual([expect.objectContaining({
+        stepId: 'step_2',
+        parameters: [{ name: 'amount', from: '10', to: '5' }]
+      })])
+
+      const named = await service.reply(session.id, { message: 'set the swap amount to 20' })
+      expect(named.diff.changed).toEqual([expect.objectContaining({ stepId: 'step_1' })])
+      expect(named.session.steps[0].parameters.amount).toBe('20')
+    })
+
+    it('should add a step that uses the previous result', async () => {
+      const { session } = await service.create({ message: 'Swap 100 USDC to FLOW' })
+
+      const result = await service.reply(session.id, { message: 'add a step that stakes the result' })
+
+      expect(result.diff.added).toEqual([expect.objectContaining({
+        id: 'step_2',
+        actionName: 'stake',
+        position: 1,
+        inputFrom: 'step_1',
+        parameters: { fromToken: 'FLOW' }
+      })])
+      expect(result.diff.removed).toEqual([])
+    })
+
+    it('should remove steps by number and renumber the rest', async () => {
+      const { session } = await service.create({ message: 'Swap 100 USDC to FLOW' })
+      await service.reply(session.id, { message: 'add a step that stakes the result' })
+
+      const result = await service.reply(session.id, { message: 'remove step 1' })
+
+      expect(result.diff.removed.map(step => step.id)).toEqual(['step_1'])
+      expect(result.session.steps).toEqual([expect.objectContaining({ id: 'step_2', position: 0 })])
+      expect(result.session.steps[0].inputFrom).toBeUndefined()
+    })
+
+    it('should keep the conversation with a diff on every turn that changed something', async () => {
+      const { session } = await startSwapAndSend()
+      await service.reply(session.id, { message: 'change the amount to 5' })
+
+      expect(session.turns.map(turn => [turn.role, !!turn.diff])).toEqual([
+        ['user', false],
+        ['assistant', true],
+        ['user', false],
+        ['assistant', true]
+      ])
+    })
+  })
+
+  describe('lifecycle', () => {
+    it('should expire sessions after a period without turns', async () => {
+      const { session } = await service.create()
+
+      now += 31 * 60 * 1000
+
+      expect(service.get(session.id)).toBeNull()
+      await expect(service.reply(session.id, { message: 'Stake 10 FLOW' })).rejects.toThrow(NLPSessionError)
+    })
+
+    it('should evict the least recently used session when full', async () => {
+      service = createService({ maxSessions: 2 })
+      const first = (await service.create()).session
+      const second = (await service.create()).session
+      await service.reply(first.id, { message: 'Stake 10 FLOW' })
+
+      const third = (await service.create()).session
+
+      expect(service.get(second.id)).toBeNull()
+      expect(service.get(first.id)).not.toBeNull()
+      expect(service.get(third.id)).not.toBeNull()
+    })
+
+    it('should keep only the latest turns', async () => {
+      service = createService({ maxTurns: 4 })
+      const { session } = await service.create({ message: 'Stake 10 FLOW' })
+      await service.reply(session.id, { message: 'change the amount to 5' })
+      await service.reply(session.id, { message: 'change the amount to 7' })
+
+      expect(session.turns).toHaveLength(4)
+      expect(session.turns[0]).toMatchObject({ role: 'user', message: 'change the amount to 5' })
+    })
+
+    it('should require a message or answers', async () => {
+      const { session } = await service.create()
+
+      await expect(service.reply(session.id, { message: '  ' })).rejects.toMatchObject({ code: 'INVALID' })
+    })
+  })
+})
+
+describe('extractParameterValues', () => {
+  it('should pick values out by shape', () => {
+    expect(extractParameterValues('from USDC to FLOW please', ['fromToken', 'toToken'])).toEqual({ fromToken: 'USDC', toToken: 'FLOW' })
+    expect(extractParameterValues(`about 2.5 to ${ALICE}`, ['amount', 'address'])).toEqual({ amount: '2.5', address: ALICE })
+    expect(extractParameterValues('mainnet', ['targetChain'])).toEqual({ targetChain: 'mainnet' })
+  })
+})
+
+describe('diffSteps', () => {
+  const step = (id: string, parameters: Record<string, any>): SessionStep =>
+    ({ id, actionId: 'swap_0', actionName: 'swap', parameters, confidence: 1, position: 0 })
+
+  it('should match steps by ID', () => {
+    const diff = diffSteps([step('a', { amount: '1' }), step('b', {})], [step('a', { amount: '1' }), step('c', {})])
+
+    expect(diff.added.map(s => s.id)).toEqual(['c'])
+    expect(diff.removed.map(s => s.id)).toEqual(['b'])
+    expect(diff.changed).toEqual([])
+  })
+})
@@ -0,0 +1,198 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import {
+  CadenceScriptOracleAdapter,
+  FixtureOracleAdapter,
+  HttpJsonOracleAdapter,
+  OracleAdapter,
+  OracleError,
+  OracleReadingCache,
+  StaleOracleReadingError,
+  createOracleAdapter,
+  validateOracleSource
+} from '../oracle-adapter'
+
+const encodeCadence = (value: unknown) => JSON.stringify(Buffer.from(JSON.stringify(value)).toString('base64'))
+
+describe('CadenceScriptOracleAdapter', () => {
+  it('runs the script with encoded arguments and reads the decoded result', async () => {
+    const fetchImpl = vi.fn(async (_url: string, _init?: RequestInit) => new Response(encodeCadence({
+      type: 'Struct',
+      value: {
+        id: 's.PriceOracle.PriceData',
+        fields: [
+          { name: 'price', value: { type: 'UFix64', value: '0.74250000' } },
+          { name: 'updatedAt', value: { type: 'UFix64', value: '1700000000.00000000' } }
+        ]
+      }
+    })))
+    const adapter = new CadenceScriptOracleAdapter({
+      type: 'cadence-script',
+      script: 'access(all) fun main(symbol: String): PriceOracle.PriceData { return PriceOracle.latest(symbol) }',
+      arguments: [{ type: 'String', value: 'FLOW' }],
+      valuePath: 'price',
+      timestampPath: 'updatedAt'
+    }, 'https://rest-testnet.onflow.org', fetchImpl as any)
+
+    const reading = await adapter.read()
+
+    expect(reading).toEqual({ value: 0.7425, timestamp: '2023-11-14T22:13:20.000Z', source: adapter.id })
+    const [url, init] = fetchImpl.mock.calls[0]
+    expect(url).toBe('https://rest-testnet.onflow.org/v1/scripts?block_height=sealed')
+    const body = JSON.parse(init!.body as string)
+    expect(Buffer.from(body.script, 'base64').toString()).toContain('PriceOracle.latest(symbol)')
+    expect(JSON.parse(Buffer.from(body.arguments[0], 'base64').toString())).toEqual({ type: 'String', value: 'FLOW' })
+  })
+
+  it('reports script failures with the access node error', async () => {
+    const adapter = new CadenceScriptOracleAdapter(
+      { type: 'cadence-script', script: 'access(all) fun main(): UFix64 { panic("no price") }' },
+      'https://rest-testnet.onflow.org',
+      (async () => new Response('no price', { status: 400 })) as any
+    )
+
+    await expect(adapter.read()).rejects.toThrow('Oracle script failed with status 400: no price')
+  })
+})
+
+describe('HttpJsonOracleAdapter', () => {
+  it('reads the value and timestamp from the configured paths', async () => {
+    const fetchImpl = vi.fn(async (_url: string, _init?: RequestInit) => new Response(JSON.stringify({
+      flow: { usd: '0.81', last_updated_at: 1700000000 }
+    })))
+    const adapter = new HttpJsonOracleAdapter({
+      type: 'http-json',
+      url: 'https://prices.example.com/simple/price?ids=flow',
+      valuePath: 'flow.usd',
+      timestampPath: 'flow.last_updated_at',
+      headers: { 'X-Api-Key': 'key' }
+    }, fetchImpl as any)
+
+    expect(await adapter.read()).toEqual({ value: 0.81, timestamp: '2023-11-14T22:13:20.000Z', source: adapter.id })
+    expect(fetchImpl.mock.calls[0][1]?.headers).toMatchObject({ 'X-Api-Key': 'key' })
+  })
+
+  it('rejects responses without a numeric value', async () => {
+    const adapter = new HttpJsonOracleAdapter(
+      { type: 'http-json', url: 'https://prices.example.com', valuePath: 'flow.usd' },
+      (async () => new Response(JSON.stringify({ flow: {} }))) as any
+    )
+
+    await expect(adapter.read()).rejects.toBeInstanceOf(OracleError)
+  })
+})
+
+describe('FixtureOracleAdapter', () => {
+  let dir: string
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'oracle-fixture-'))
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('replays inline readings and holds the last one', async () => {
+    const adapter = new FixtureOracleAdapter({ type: 'fixture', readings: [100, { value: 120, timestamp: '2024-01-01T00:00:00.000Z' }] })
+
+    expect((await adapter.read()).value).toBe(100)
+    expect(await adapter.read()).toMatchObject({ value: 120, timestamp: '2024-01-01T00:00:00.000Z' })
+    expect((await adapter.read()).value).toBe(120)
+  })
+
+  it('loads readings from a file in the fixtures directory', async () => {
+    await writeFile(path.join(dir, 'flow-usd.json'), JSON.stringify({ readings: [0.5, 0.55] }))
+    const adapter = createOracleAdapter({ type: 'fixture', file: 'flow-usd.json' }, { ORACLE_FIXTURES_DIR: dir })
+
+    expect(adapter.id).toBe('fixture:flow-usd.json')
+    expect((await adapter.read()).value).toBe(0.5)
+    expect((await adapter.read()).value).toBe(0.55)
+  })
+
+  it('reads no files outside the fixtures directory', async () => {
+    const outside = path.join(tmpdir(), 'secrets.json')
+
+    await expect(new FixtureOracleAdapter({ type: 'fixture', file: outside }, dir).read())
+      .rejects.toThrow('outside the fixtures directory')
+    await expect(new FixtureOracleAdapter({ type: 'fixture', file: '../secrets.json' }, dir).read())
+      .rejects.toThrow('outside the fixtures directory')
+    await expect(new FixtureOracleAdapter({ type: 'fixture', file: 'flow-usd.json' }, undefined).read())
+      .rejects.toThrow('Fixture files are disabled')
+  })
+
+  it('does not report why a fixture file failed to parse', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {})
+    await writeFile(path.join(dir, 'broken.json'), 'SECRET=1')
+
+    const error = await new FixtureOracleAdapter({ type: 'fixture', file: 'broken.json' }, dir).read().catch(e => e)
+
+    expect(error).toBeInstanceOf(OracleError)
+    expect(error.message).toBe('Fixture broken.json could not be loaded')
+    consoleError.mockRestore()
+  })
+})
+
+describe('OracleReadingCache', () => {
+  let now: number
+  let cache: OracleReadingCache
+
+  const createAdapter = (read: OracleAdapter['read']): OracleAdapter & { read: ReturnType<typeof vi.fn> } =>
+    ({ id: 'test-oracle', read: vi.fn(read) })
+
+  beforeEach(() => {
+    now = Date.parse('2024-01-01T00:00:00.000Z')
+    cache = new OracleReadingCache(() => now)
+  })
+
+  it('reuses readings within the cache TTL and shares in-flight reads', async () => {
+    const adapter = createAdapter(async () => ({ value: 1, timestamp: new Date(now).toISOString(), source: 'test-oracle' }))
+
+    await Promise.all([cache.read(adapter, { cacheTtl: 1000 }), cache.read(adapter, { cacheTtl: 1000 })])
+    now += 500
+    await cache.read(adapter, { cacheTtl: 1000 })
+    expect(adapter.read).toHaveBeenCalledTimes(1)
+
+    now += 1000
+    await cache.read(adapter, { cacheTtl: 1000 })
+    expect(adapter.read).toHaveBeenCalledTimes(2)
+  })
+
+  it('rejects readings older than maxAge', async () => {
+    const adapter = createAdapter(async () => ({ value: 1, timestamp: new Date(now - 120000).toISOString(), source: 'test-oracle' }))
+
+    const error = await cache.read(adapter, { maxAge: 60 }).catch(err => err)
+
+    expect(error).toBeInstanceOf(StaleOracleReadingError)
+    expect(error.age).toBe(120000)
+    await expect(cache.read(adapter, { maxAge: 300 })).resolves.toMatchObject({ value: 1 })
+  })
+
+  it('falls back to the last reading while it is fresh when the source fails', async () => {
+    const adapter = createAdapter(async () => ({ value: 7, timestamp: new Date(now).toISOString(), source: 'test-oracle' }))
+    const mockConsoleWarn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    await cache.read(adapter, { cacheTtl: 0 })
+    adapter.read.mockRejectedValue(new OracleError('feed down'))
+
+    now += 30000
+    await expect(cache.read(adapter, { cacheTtl: 0, maxAge: 60 })).resolves.toMatchObject({ value: 7 })
+    now += 60000
+    await expect(cache.read(adapter, { cacheTtl: 0, maxAge: 60 })).rejects.toBeInstanceOf(StaleOracleReadingError)
+    mockConsoleWarn.mockRestore()
+  })
+})
+
+describe('validateOracleSource', () => {
+  it('checks each source type for its required fields', () => {
+    expect(() => validateOracleSource({ type: 'http-json', url: 'https://prices.example.com', valuePath: 'usd' })).not.toThrow()
+    expect(() => validateOracleSource({ type: 'http-json', url: 'ftp://prices', valuePath: 'usd' })).toThrow('Invalid oracle URL')
+    expect(() => validateOracleSource({ type: 'cadence-script', script: ' ' })).toThrow('requires a script')
+    expect(() => validateOracleSource({ type: 'fixture' })).toThrow('requires a file or readings')
+    expect(() => validateOracleSource({ type: 'fixture', file: '/etc/passwd' })).toThrow('inside the fixtures directory')
+    expect(() => validateOracleSource({ type: 'fixture', file: 'prices/../../.env' })).toThrow('inside the fixtures directory')
+    expect(() => validateOracleSource({ type: 'fixture', readings: [1], maxAge: -1 })).toThrow('maxAge must be a non-negative number')
+    expect(() => validateOracleSource({ type: 'chainlink' } as any)).toThrow('Unknown oracle source type')
+  })
+})
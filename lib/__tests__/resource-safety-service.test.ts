@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach } from 'vitest'
+import { describe, it, expect, beforeEach, vi } from 'vitest'
 import { ResourceSafetyService } from '../resource-safety-service'
 import { ParsedWorkflow, ActionMetadata } from '../types'
 
@@ -339,6 +339,23 @@ describe('ResourceSafetyService', () => {
         result.message.includes('Force unwrap') && result.severity === 'high'
       )).toBe(true)
     })
+
+    it('should report Cadence language server diagnostics with positions', async () => {
+      const languageServer = {
+        check: vi.fn().mockResolvedValue([{
+          line: 2, column: 9, endLine: 2, endColumn: 14,
+          severity: 'error', message: 'cannot find type in this scope: `Vault`'
+        }])
+      }
+      const checkedService = new ResourceSafetyService(languageServer as any)
+
+      const result = await checkedService.integrateFlowSecurityTools('transaction {\n  let v: Vault\n}')
+
+      expect(result.typeChecked).toBe(true)
+      expect(result.diagnostics).toHaveLength(1)
+      expect(result.cadenceAnalyzerResults[0]).toMatchObject({ line: 2, column: 9, severity: 'high' })
+      expect(result.recommendations).toContain('Cadence Checker: 2:9 error: cannot find type in this scope: `Vault`')
+    })
   })
 
   describe('edge cases', () => {
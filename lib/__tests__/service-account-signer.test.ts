@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest'
+import { createECDH, createPublicKey, verify } from 'crypto'
+import {
+  ServiceAccountSigner,
+  ServiceAccountSignerError,
+  getServiceAccountConfigFromEnv
+} from '../service-account-signer'
+
+const PRIVATE_KEY = '1'.repeat(64)
+
+const publicKeyFor = (curve: string, jwkCurve: string) => {
+  const ecdh = createECDH(curve)
+  ecdh.setPrivateKey(Buffer.from(PRIVATE_KEY, 'hex'))
+  const point = ecdh.getPublicKey()
+  return createPublicKey({
+    format: 'jwk',
+    key: { kty: 'EC', crv: jwkCurve, x: point.subarray(1, 33).toString('base64url'), y: point.subarray(33).toString('base64url') }
+  })
+}
+
+describe('ServiceAccountSigner', () => {
+  it('should produce raw r||s signatures that verify against the account key', () => {
+    const signer = new ServiceAccountSigner({
+      address: 'f8d6e0586b0a20c7',
+      privateKey: PRIVATE_KEY,
+      keyIndex: 0,
+      signatureAlgorithm: 'ECDSA_P256',
+      hashAlgorithm: 'SHA3_256'
+    })
+    const message = Buffer.from('transaction payload').toString('hex')
+
+    const signature = signer.signMessage(message)
+
+    expect(signature).toMatch(/^[0-9a-f]{128}$/)
+    expect(verify('sha3-256', Buffer.from(message, 'hex'), {
+      key: publicKeyFor('prime256v1', 'P-256'),
+      dsaEncoding: 'ieee-p1363'
+    }, Buffer.from(signature, 'hex'))).toBe(true)
+  })
+
+  it('should build an FCL authorization that signs as the configured key', async () => {
+    const signer = new ServiceAccountSigner({
+      address: '0xf8d6e0586b0a20c7',
+      privateKey: PRIVATE_KEY,
+      keyIndex: 2,
+      signatureAlgorithm: 'ECDSA_secp256k1',
+      hashAlgorithm: 'SHA2_256'
+    })
+    const message = Buffer.from('envelope').toString('hex')
+
+    const account = await signer.authorization({ role: { proposer: true } })
+    const signed = await account.signingFunction({ message })
+
+    expect(account).toMatchObject({ addr: 'f8d6e0586b0a20c7', keyId: 2, role: { proposer: true } })
+    expect(signed).toMatchObject({ addr: '0xf8d6e0586b0a20c7', keyId: 2 })
+    expect(verify('sha256', Buffer.from(message, 'hex'), {
+      key: publicKeyFor('secp256k1', 'secp256k1'),
+      dsaEncoding: 'ieee-p1363'
+    }, Buffer.from(signed.signature, 'hex'))).toBe(true)
+  })
+
+  it('should reject malformed addresses and keys', () => {
+    const config = { address: '0xf8d6e0586b0a20c7', privateKey: PRIVATE_KEY, keyIndex: 0, signatureAlgorithm: 'ECDSA_P256', hashAlgorithm: 'SHA3_256' } as const
+
+    expect(() => new ServiceAccountSigner({ ...config, address: '0x1234' })).toThrow(ServiceAccountSignerError)
+    expect(() => new ServiceAccountSigner({ ...config, privateKey: 'abc' })).toThrow(ServiceAccountSignerError)
+  })
+})
+
+describe('getServiceAccountConfigFromEnv', () => {
+  it('should read the service account with defaults for the key settings', () => {
+    expect(getServiceAccountConfigFromEnv({})).toBeNull()
+    expect(getServiceAccountConfigFromEnv({
+      FLOW_SERVICE_ACCOUNT_ADDRESS: '0xf8d6e0586b0a20c7',
+      FLOW_SERVICE_ACCOUNT_PRIVATE_KEY: PRIVATE_KEY,
+      FLOW_SERVICE_ACCOUNT_KEY_INDEX: '1'
+    })).toEqual({
+      address: '0xf8d6e0586b0a20c7',
+      privateKey: PRIVATE_KEY,
+      keyIndex: 1,
+      signatureAlgorithm: 'ECDSA_P256',
+      hashAlgorithm: 'SHA3_256'
+    })
+  })
+})
@@ -3,6 +3,7 @@
  */
 
 import { describe, it, expect, beforeEach, vi } from 'vitest'
+import * as fcl from '@onflow/fcl'
 import { FlowTransactionManager, Transaction, TransactionStatus } from '../transaction-manager'
 import { FlowNetworkConfig, ParsedWorkflow, ParsedAction } from '../types'
 
@@ -208,6 +209,32 @@ describe('FlowTransactionManager', () => {
     })
   })
 
+  describe('unsealed transactions', () => {
+    it('should report a submitted transaction as pending without sending it again', async () => {
+      const manager = new FlowTransactionManager(mockNetworkConfig, { sealTimeout: 20, pollInterval: 5, retryDelay: 1 })
+      const onSubmitted = vi.fn()
+      vi.mocked(fcl.mutate).mockReset().mockResolvedValue('flow-tx-456')
+      vi.mocked(fcl.tx).mockReturnValue({
+        snapshot: vi.fn().mockResolvedValue({ status: 2, events: [] })
+      } as any)
+
+      const result = await manager.executeTransaction({
+        id: 'tx-456',
+        cadenceCode: 'transaction() { prepare(signer: auth(Storage) &Account) {} execute {} }',
+        arguments: [],
+        gasLimit: 1000,
+        proposer: '0x1234567890abcdef',
+        authorizers: ['0x1234567890abcdef'],
+        payer: '0x1234567890abcdef'
+      }, { onSubmitted })
+
+      expect(result).toMatchObject({ transactionId: 'flow-tx-456', status: TransactionStatus.PENDING })
+      expect(result.error).toContain('not sealed')
+      expect(onSubmitted).toHaveBeenCalledWith('flow-tx-456')
+      expect(fcl.mutate).toHaveBeenCalledTimes(1)
+    })
+  })
+
   describe('simulateTransaction', () => {
     it('should simulate transaction execution', async () => {
       const mockTransaction: Transaction = {
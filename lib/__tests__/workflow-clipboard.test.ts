@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest'
+import type { Node } from '@xyflow/react'
+import { copyNodes, parseClipboard, pasteNodes, serializeClipboard } from '../workflow-clipboard'
+import type { EditorState } from '../workflow-history'
+
+const source: EditorState = {
+  workflow: {
+    nodes: [
+      {
+        id: 'drop',
+        type: 'for-each',
+        position: { x: 0, y: 0 },
+        data: { label: 'For Each', actionId: 'for-each', loop: { items: 'fetch.recipients', maxIterations: 5 }, onLoopChange: () => {} }
+      },
+      {
+        id: 'mint',
+        type: 'action',
+        position: { x: 200, y: 0 },
+        data: { label: 'Mint NFT', actionId: 'mint-nft-basic' }
+      },
+      {
+        id: 'fetch',
+        type: 'action',
+        position: { x: -200, y: 0 },
+        data: { label: 'Fetch', actionId: 'fetch-recipients' }
+      }
+    ] as Node[],
+    edges: [
+      { id: 'fetch-drop', source: 'fetch', target: 'drop' },
+      { id: 'drop-body-mint', source: 'drop', sourceHandle: 'body', target: 'mint' }
+    ]
+  },
+  parameterValues: {
+    mint: { recipient: 'drop.item', metadata: '{"name":"Genesis"}' },
+    fetch: { collection: 'drops' }
+  }
+}
+
+describe('Workflow Clipboard', () => {
+  it('should copy selected nodes with their internal edges and parameters', () => {
+    const clipboard = copyNodes(source, ['drop', 'mint'])!
+
+    expect(clipboard.nodes.map(node => node.id)).toEqual(['drop', 'mint'])
+    expect(clipboard.edges.map(edge => edge.id)).toEqual(['drop-body-mint'])
+    expect(clipboard.parameterValues).toEqual({ mint: source.parameterValues.mint })
+    expect((clipboard.nodes[0].data as any).onLoopChange).toBeUndefined()
+    expect(copyNodes(source, ['missing'])).toBeNull()
+  })
+
+  it('should round-trip through clipboard text and ignore other text', () => {
+    const clipboard = copyNodes(source, ['mint'])!
+
+    expect(parseClipboard(serializeClipboard(clipboard))).toEqual(clipboard)
+    expect(parseClipboard('0x01cf0e2f2f715450')).toBeNull()
+    expect(parseClipboard('{"nodes":[]}')).toBeNull()
+  })
+
+  it('should paste with new IDs and remap references between copied nodes', () => {
+    const clipboard = copyNodes(source, ['drop', 'mint'])!
+    const target: EditorState = { workflow: { nodes: [], edges: [] }, parameterValues: {} }
+
+    const pasted = pasteNodes(clipboard, target, 1000)
+    const [loop, mint] = pasted.nodes
+
+    expect(loop.id).toBe('for-each-1000-0')
+    expect(mint.id).toBe('mint-nft-basic-1000-1')
+    expect(mint.position).toEqual({ x: 240, y: 40 })
+    expect(pasted.edges).toEqual([
+      expect.objectContaining({ id: `${loop.id}-body-${mint.id}`, source: loop.id, target: mint.id, sourceHandle: 'body' })
+    ])
+    expect(pasted.parameterValues[mint.id]).toEqual({ recipient: `${loop.id}.item`, metadata: '{"name":"Genesis"}' })
+    // References to nodes outside the copied group are left as they were
+    expect((loop.data as any).loop).toEqual({ items: 'fetch.recipients', maxIterations: 5 })
+  })
+
+  it('should not reuse IDs already in the target workflow', () => {
+    const clipboard = copyNodes(source, ['mint'])!
+    const first = pasteNodes(clipboard, source, 1000)
+    const withFirst: EditorState = {
+      workflow: { nodes: [...source.workflow.nodes, ...first.nodes], edges: source.workflow.edges },
+      parameterValues: { ...source.parameterValues, ...first.parameterValues }
+    }
+
+    const second = pasteNodes(clipboard, withFirst, 1000)
+
+    expect(second.nodes[0].id).not.toBe(first.nodes[0].id)
+  })
+})
@@ -0,0 +1,357 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import type { Node, Edge } from '@xyflow/react'
+import {
+  buildExecutionPlan,
+  formatConditionExpression,
+  getResultVariableName,
+  getIterationMultipliers,
+  ExecutionStep
+} from '../workflow-control-flow'
+import { WorkflowParser } from '../workflow-parser'
+import { CadenceGenerator } from '../cadence-generator'
+import { DataFlowAnalyzer } from '../data-flow-analyzer'
+import { WorkflowValidator } from '../workflow-validator'
+import { ActionDiscoveryService } from '../action-discovery-service'
+import { GasEstimationService } from '../gas-estimation-service'
+import { FlowEmulatorService } from '../flow-emulator-service'
+import { ActionMetadata, ParsedWorkflow } from '../types'
+
+// swap -> if (swap.amountOut > 10) { stake } else { transfer } -> vote
+const nodes: Node[] = [
+  { id: 'swap-1', type: 'action', position: { x: 0, y: 0 }, data: { label: 'Swap Tokens', actionId: 'swap-tokens' } },
+  {
+    id: 'cond-1',
+    type: 'condition',
+    position: { x: 0, y: 100 },
+    data: {
+      label: 'Enough received?',
+      actionId: 'condition',
+      condition: { left: 'swap-1.amountOut', operator: 'gt', right: '10' }
+    }
+  },
+  { id: 'stake-1', type: 'action', position: { x: -100, y: 200 }, data: { label: 'Stake Tokens', actionId: 'stake-tokens' } },
+  { id: 'transfer-1', type: 'action', position: { x: 100, y: 200 }, data: { label: 'Transfer NFT', actionId: 'transfer-nft' } },
+  { id: 'vote-1', type: 'action', position: { x: 0, y: 300 }, data: { label: 'Vote', actionId: 'vote' } }
+]
+
+const edges: Edge[] = [
+  { id: 'e1', source: 'swap-1', target: 'cond-1' },
+  { id: 'e2', source: 'cond-1', sourceHandle: 'true', target: 'stake-1' },
+  { id: 'e3', source: 'cond-1', sourceHandle: 'false', target: 'transfer-1' },
+  { id: 'e4', source: 'stake-1', target: 'vote-1' },
+  { id: 'e5', source: 'transfer-1', target: 'vote-1' }
+]
+
+// swap -> for each swap.recipients { transfer } -> vote
+const loopNodes: Node[] = [
+  nodes[0],
+  {
+    id: 'loop-1',
+    type: 'for-each',
+    position: { x: 0, y: 100 },
+    data: { label: 'Each recipient', actionId: 'for-each', loop: { items: 'swap-1.recipients', maxIterations: 5 } }
+  },
+  nodes[3],
+  nodes[4]
+]
+
+const loopEdges: Edge[] = [
+  { id: 'e1', source: 'swap-1', target: 'loop-1' },
+  { id: 'e2', source: 'loop-1', sourceHandle: 'body', target: 'transfer-1' },
+  { id: 'e3', source: 'loop-1', sourceHandle: 'done', target: 'vote-1' }
+]
+
+const stepIds = (steps: ExecutionStep[]): any[] =>
+  steps.map(step => {
+    if (step.type === 'action') return step.action.id
+    if (step.type === 'loop') return { [step.action.id]: stepIds(step.body) }
+    return { [step.action.id]: { true: stepIds(step.whenTrue), false: stepIds(step.whenFalse) } }
+  })
+
+const createMetadata = (id: string, parameters: Array<[string, string]>, outputs: Array<[string, string]>): ActionMetadata => ({
+  id,
+  name: id,
+  description: '',
+  category: 'defi',
+  version: '1.0.0',
+  inputs: [],
+  outputs: outputs.map(([name, type]) => ({ name, type })),
+  parameters: parameters.map(([name, type]) => ({ name, type, value: '', required: true })),
+  compatibility: { requiredCapabilities: [], supportedNetworks: ['testnet'], minimumFlowVersion: '1.0.0', conflictsWith: [] },
+  gasEstimate: 100,
+  securityLevel: 'low' as any,
+  author: 'test',
+  createdAt: '2024-01-01',
+  updatedAt: '2024-01-01'
+})
+
+describe('Workflow control flow', () => {
+  let workflow: ParsedWorkflow
+
+  beforeEach(() => {
+    workflow = WorkflowParser.parse(nodes, edges)
+  })
+
+  describe('WorkflowParser', () => {
+    it('should parse condition nodes with their predicate and branches', () => {
+      const condition = workflow.actions.find(a => a.id === 'cond-1')!
+
+      expect(condition.actionType).toBe('condition')
+      expect(condition.parameters).toEqual([])
+      expect(condition.condition).toEqual({ left: 'swap-1.amountOut', operator: 'gt', right: '10' })
+      expect(condition.branches).toEqual({ true: ['stake-1'], false: ['transfer-1'] })
+    })
+
+    it('should reject conditions without a predicate or branches', () => {
+      const parsed = WorkflowParser.parse(
+        [{ id: 'cond-2', type: 'condition', position: { x: 0, y: 0 }, data: { label: 'Empty', actionId: 'condition' } }],
+        []
+      )
+
+      const { valid, errors } = WorkflowParser.validate(parsed)
+      expect(valid).toBe(false)
+      expect(errors).toContain('Condition "Empty" is missing its predicate')
+      expect(errors).toContain('Condition "Empty" must connect at least one branch')
+    })
+  })
+
+  describe('buildExecutionPlan', () => {
+    it('should nest branch-only actions and run merge actions after the if block', () => {
+      expect(stepIds(buildExecutionPlan(workflow))).toEqual([
+        'swap-1',
+        { 'cond-1': { true: ['stake-1'], false: ['transfer-1'] } },
+        'vote-1'
+      ])
+    })
+
+    it('should support nested conditions', () => {
+      const nested = WorkflowParser.parse(
+        [
+          ...nodes.slice(0, 3),
+          {
+            id: 'cond-2',
+            type: 'condition',
+            position: { x: 0, y: 250 },
+            data: { label: 'Inner', actionId: 'condition', condition: { left: 'swap-1.amountOut', operator: 'lt', right: '100' } }
+          },
+          nodes[4]
+        ],
+        [
+          edges[0],
+          edges[1],
+          { id: 'e6', source: 'stake-1', target: 'cond-2' },
+          { id: 'e7', source: 'cond-2', sourceHandle: 'true', target: 'vote-1' }
+        ]
+      )
+
+      expect(stepIds(buildExecutionPlan(nested))).toEqual([
+        'swap-1',
+        { 'cond-1': { true: ['stake-1', { 'cond-2': { true: ['vote-1'], false: [] } }], false: [] } }
+      ])
+    })
+  })
+
+  describe('formatConditionExpression', () => {
+    it('should render references and typed literals', () => {
+      expect(formatConditionExpression({ left: 'swap-1.amountOut', operator: 'gte', right: '10' }, workflow))
+        .toBe('swap1Result.amountOut >= 10.0')
+      expect(formatConditionExpression({ left: 'swap-1.status', operator: 'eq', right: 'ok', type: 'String' }, workflow))
+        .toBe('swap1Result.status == "ok"')
+      expect(formatConditionExpression({ left: 'swap-1.count', operator: 'neq', right: '3', type: 'UInt64' }, workflow))
+        .toBe('swap1Result.count != 3')
+    })
+
+    it('should build valid Cadence identifiers for result variables', () => {
+      expect(getResultVariableName('swap-tokens-1712')).toBe('swapTokens1712Result')
+      expect(getResultVariableName('1-swap')).toBe('action1SwapResult')
+    })
+  })
+
+  describe('CadenceGenerator', () => {
+    beforeEach(() => {
+      vi.spyOn(console, 'log').mockImplementation(() => {})
+      CadenceGenerator.setDiscoveryService({ getAction: async () => null } as unknown as ActionDiscoveryService)
+    })
+
+    afterEach(() => {
+      vi.restoreAllMocks()
+    })
+
+    it('should emit an if/else block around branch actions', async () => {
+      const result = await CadenceGenerator.generateTransactionWithDetails(workflow)
+      const code = result.code
+
+      expect(result.success).toBe(true)
+      expect(code).toContain('    let swap1Result = SwapRouter.swap(')
+      expect(code).toContain('    // Enough received?\n    if swap1Result.amountOut > 10.0 {')
+      expect(code).toContain('      StakingContract.stake(')
+      expect(code).toContain('    } else {')
+      expect(code).toContain('      NonFungibleToken.transfer(')
+
+      // Branch actions sit inside the block, the merge action after it
+      const ifIndex = code.indexOf('if swap1Result')
+      const elseIndex = code.indexOf('} else {')
+      expect(code.indexOf('StakingContract.stake(')).toBeGreaterThan(ifIndex)
+      expect(code.indexOf('StakingContract.stake(')).toBeLessThan(elseIndex)
+      expect(code.indexOf('GovernanceContract.vote(')).toBeGreaterThan(code.indexOf('NonFungibleToken.transfer('))
+      expect(code).toMatch(/\n {4}GovernanceContract\.vote\(/)
+    })
+
+    it('should not bind results of actions no condition reads', async () => {
+      const code = await CadenceGenerator.generateTransaction(workflow)
+
+      expect(code).not.toContain('let stake1Result')
+      expect(code).not.toContain('let vote1Result')
+    })
+  })
+
+  describe('DataFlowAnalyzer', () => {
+    const actionMetadata = {
+      'swap-tokens': createMetadata('swap-tokens', [['amount', 'UFix64']], [['amountOut', 'UFix64'], ['txId', 'String']]),
+      'stake-tokens': createMetadata('stake-tokens', [['amount', 'UFix64']], []),
+      'transfer-nft': createMetadata('transfer-nft', [['nftId', 'UInt64']], []),
+      'vote': createMetadata('vote', [['choice', 'Bool']], [])
+    }
+
+    it('should treat predicate operands as dependencies on upstream outputs', () => {
+      const result = new DataFlowAnalyzer().analyzeDataFlow(workflow, actionMetadata, {})
+
+      expect(result.dependencies['cond-1'].dependsOn).toEqual(['swap-1'])
+      expect(result.connections).toContainEqual(expect.objectContaining({
+        sourceActionId: 'swap-1',
+        sourceOutputName: 'amountOut',
+        targetActionId: 'cond-1',
+        targetParameterName: 'left',
+        isTypeCompatible: true
+      }))
+      expect(result.dependencies['swap-1'].outputDependents).toEqual([
+        { outputName: 'amountOut', dependentActions: [{ actionId: 'cond-1', parameterName: 'left', isTypeCompatible: true }] }
+      ])
+      expect(result.dataFlowGraph.clusters).toContainEqual(expect.objectContaining({
+        type: 'conditional',
+        actionIds: ['cond-1', 'stake-1', 'transfer-1']
+      }))
+    })
+
+    it('should report unresolved and mistyped predicate operands', () => {
+      const condition = workflow.actions.find(a => a.id === 'cond-1')!
+      condition.condition = { left: 'swap-1.txId', operator: 'gt', right: 'swap-1.missing' }
+
+      const result = new DataFlowAnalyzer().analyzeDataFlow(workflow, actionMetadata, {})
+
+      expect(result.unresolvedReferences).toContainEqual(expect.objectContaining({
+        actionId: 'cond-1',
+        parameterName: 'right',
+        reason: 'Referenced output does not exist on the specified action'
+      }))
+      expect(result.typeCompatibilityIssues).toContainEqual(expect.objectContaining({
+        targetAction: 'cond-1',
+        targetParameter: 'left',
+        sourceType: 'String',
+        targetType: 'UFix64'
+      }))
+    })
+  })
+
+  describe('WorkflowValidator', () => {
+    it('should not require registry metadata for condition nodes', () => {
+      const result = new WorkflowValidator().validateWorkflow(workflow, {}, {})
+
+      expect(result.globalErrors.map(e => e.message)).not.toContain(
+        'Action metadata not found for action type: condition'
+      )
+      expect(result.globalErrors.some(e => e.field === 'cond-1')).toBe(false)
+    })
+  })
+
+  describe('for-each loops', () => {
+    let loopWorkflow: ParsedWorkflow
+
+    beforeEach(() => {
+      loopWorkflow = WorkflowParser.parse(loopNodes, loopEdges)
+    })
+
+    it('should parse the loop body and nest it in the execution plan', () => {
+      const loop = loopWorkflow.actions.find(a => a.id === 'loop-1')!
+
+      expect(loop.actionType).toBe('for-each')
+      expect(loop.loop).toEqual({ items: 'swap-1.recipients', maxIterations: 5 })
+      expect(loop.loopBody).toEqual(['transfer-1'])
+      expect(stepIds(buildExecutionPlan(loopWorkflow))).toEqual([
+        'swap-1',
+        { 'loop-1': ['transfer-1'] },
+        'vote-1'
+      ])
+    })
+
+    it('should emit a bounded loop and substitute the current item', async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {})
+      CadenceGenerator.setDiscoveryService({ getAction: async () => null } as unknown as ActionDiscoveryService)
+      const transfer = loopWorkflow.actions.find(a => a.id === 'transfer-1')!
+      transfer.parameters = [{ name: 'recipient', type: 'Address', value: 'loop-1.item', required: true }]
+
+      const code = await CadenceGenerator.generateTransaction(loopWorkflow)
+      vi.restoreAllMocks()
+
+      expect(code).toContain('    let swap1Result = SwapRouter.swap(')
+      expect(code).toContain('    let loop1Items = swap1Result.recipients')
+      expect(code).toContain('    assert(loop1Items.length <= 5')
+      expect(code).toContain('    for loop1Item in loop1Items {')
+      expect(code).toContain('loop1Item')
+      expect(code.indexOf('NonFungibleToken.transfer(')).toBeGreaterThan(code.indexOf('for loop1Item'))
+      expect(code.indexOf('GovernanceContract.vote(')).toBeGreaterThan(code.indexOf('NonFungibleToken.transfer('))
+    })
+
+    it('should emit a counted while loop for numeric items', async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {})
+      loopWorkflow.actions.find(a => a.id === 'loop-1')!.loop = { items: '3' }
+
+      const code = await CadenceGenerator.generateTransaction(loopWorkflow)
+      vi.restoreAllMocks()
+
+      expect(code).toContain('    var loop1Item = 0\n    while loop1Item < 3 {')
+      expect(code).toContain('      loop1Item = loop1Item + 1')
+    })
+
+    it('should refuse to generate unbounded loops', async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {})
+      loopWorkflow.actions.find(a => a.id === 'loop-1')!.loop = { items: 'swap-1.recipients' }
+
+      const result = await CadenceGenerator.generateTransactionWithDetails(loopWorkflow)
+      vi.restoreAllMocks()
+
+      expect(result.success).toBe(false)
+      expect(result.errors.join(' ')).toContain('unbounded')
+    })
+
+    it('should reject unbounded loops and non-array items in the validator', () => {
+      const metadata = {
+        'swap-tokens': createMetadata('swap-tokens', [], [['recipients', '[Address]'], ['amountOut', 'UFix64']])
+      }
+      loopWorkflow.actions.find(a => a.id === 'loop-1')!.loop = { items: 'swap-1.recipients' }
+
+      const unbounded = new WorkflowValidator().validateWorkflow(loopWorkflow, metadata, {})
+      expect(unbounded.isValid).toBe(false)
+      expect(unbounded.globalErrors.some(e => e.field === 'loop-1' && e.message.includes('unbounded'))).toBe(true)
+
+      loopWorkflow.actions.find(a => a.id === 'loop-1')!.loop = { items: 'swap-1.amountOut', maxIterations: 5 }
+      const scalar = new WorkflowValidator().validateWorkflow(loopWorkflow, metadata, {})
+      expect(scalar.globalErrors.some(e => e.field === 'loop-1' && e.message.includes('not an Array'))).toBe(true)
+    })
+
+    it('should scale gas estimates by the iteration bound', async () => {
+      expect(getIterationMultipliers(loopWorkflow)).toMatchObject({ 'swap-1': 1, 'loop-1': 1, 'transfer-1': 5, 'vote-1': 1 })
+
+      const service = new GasEstimationService({} as FlowEmulatorService)
+      const metadata = [createMetadata('transfer-nft', [], [])]
+      const options = { useHistoricalData: false, runSimulation: false, includeOptimizations: false }
+
+      const looped = await service.estimateWorkflowGas(loopWorkflow, metadata, options)
+      loopWorkflow.actions.find(a => a.id === 'loop-1')!.loop = { items: '1' }
+      const once = await service.estimateWorkflowGas(loopWorkflow, metadata, options)
+
+      expect(looped.gasPerAction['transfer-1']).toBe(once.gasPerAction['transfer-1'] * 5)
+      expect(looped.warnings).not.toContain('No metadata found for action loop-1')
+    })
+  })
+})
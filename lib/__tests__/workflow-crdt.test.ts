@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest'
+import type { Node } from '@xyflow/react'
+import { WorkflowCrdtDocument, compareClocks } from '../workflow-crdt'
+import type { EditorState } from '../workflow-history'
+
+const node = (id: string, x = 0): Node => ({
+  id,
+  type: 'action',
+  position: { x, y: 0 },
+  data: { label: id, actionId: 'transfer-flow', onConfigureParameters: () => {} }
+})
+
+const base: EditorState = {
+  workflow: {
+    nodes: [node('pay'), node('notify', 200)],
+    edges: [{ id: 'pay-notify', source: 'pay', target: 'notify' }]
+  },
+  parameterValues: { pay: { recipient: '0x01cf0e2f2f715450', amount: '10.0' } }
+}
+
+// Two replicas that start from the same synced document
+function replicas() {
+  const alice = new WorkflowCrdtDocument('alice')
+  const bob = new WorkflowCrdtDocument('bob')
+  bob.merge(alice.update(base))
+  return { alice, bob }
+}
+
+describe('WorkflowCrdtDocument', () => {
+  it('should replicate a workflow without canvas callbacks', () => {
+    const { bob } = replicas()
+    const state = bob.getState()
+
+    expect(state.workflow.nodes.map(n => n.id)).toEqual(['pay', 'notify'])
+    expect(state.workflow.nodes[1].position).toEqual({ x: 200, y: 0 })
+    expect(state.workflow.nodes[0].data.onConfigureParameters).toBeUndefined()
+    expect(state.workflow.edges).toHaveLength(1)
+    expect(state.parameterValues).toEqual(base.parameterValues)
+  })
+
+  it('should produce no operations when nothing changed', () => {
+    const { alice, bob } = replicas()
+
+    expect(alice.update(base)).toEqual([])
+    expect(bob.update(bob.getState())).toEqual([])
+  })
+
+  it('should keep concurrent edits of different fields', () => {
+    const { alice, bob } = replicas()
+
+    const fromAlice = alice.update({
+      ...base,
+      parameterValues: { pay: { ...base.parameterValues.pay, amount: '25.0' } }
+    })
+    const fromBob = bob.update({
+      ...base,
+      workflow: { ...base.workflow, nodes: [node('pay', 80), node('notify', 200)] }
+    })
+
+    alice.merge(fromBob)
+    bob.merge(fromAlice)
+
+    expect(alice.getState()).toEqual(bob.getState())
+    expect(alice.getState().parameterValues.pay.amount).toBe('25.0')
+    expect(alice.getState().workflow.nodes[0].position).toEqual({ x: 80, y: 0 })
+  })
+
+  it('should converge on one value for concurrent edits of the same field', () => {
+    const { alice, bob } = replicas()
+    const withAmount = (amount: string): EditorState => ({
+      ...base,
+      parameterValues: { pay: { ...base.parameterValues.pay, amount } }
+    })
+
+    const fromAlice = alice.update(withAmount('1.0'))
+    const fromBob = bob.update(withAmount('2.0'))
+    alice.merge(fromBob)
+    bob.merge(fromAlice)
+
+    expect(alice.getState()).toEqual(bob.getState())
+    // Equal counters fall back to the client ID
+    expect(compareClocks(fromBob[0].clock, fromAlice[0].clock)).toBeGreaterThan(0)
+    expect(alice.getState().parameterValues.pay.amount).toBe('2.0')
+  })
+
+  it('should hide edges and parameters of a node deleted while another replica edits it', () => {
+    const { alice, bob } = replicas()
+
+    const fromAlice = alice.update({
+      workflow: { nodes: [node('notify', 200)], edges: [] },
+      parameterValues: {}
+    })
+    const fromBob = bob.update({
+      ...base,
+      parameterValues: { pay: { ...base.parameterValues.pay, amount: '99.0' } }
+    })
+    alice.merge(fromBob)
+    bob.merge(fromAlice)
+
+    expect(alice.getState()).toEqual(bob.getState())
+    expect(bob.getState().workflow.nodes.map(n => n.id)).toEqual(['notify'])
+    expect(bob.getState().workflow.edges).toEqual([])
+    expect(bob.getState().parameterValues).toEqual({})
+  })
+
+  it('should sync a new replica from the full operation set, tombstones included', () => {
+    const { alice } = replicas()
+    alice.update({ workflow: { nodes: [node('notify', 200)], edges: [] }, parameterValues: {} })
+
+    const late = new WorkflowCrdtDocument('carol')
+    expect(late.merge(alice.getOperations())).toBe(true)
+
+    expect(late.getState()).toEqual(alice.getState())
+    // Carol's next write outranks everything she has seen
+    const [operation] = late.update({ ...late.getState(), parameterValues: { notify: { message: 'hi' } } })
+    expect(operation.clock.counter).toBeGreaterThan(Math.max(...alice.getOperations().map(op => op.clock.counter)))
+  })
+})
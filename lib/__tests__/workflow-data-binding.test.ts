@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import type { Node, Edge } from '@xyflow/react'
+import {
+  DataBindingError,
+  getOutputBindings,
+  renderOutputBindings,
+  resolveOutputReferences
+} from '../workflow-data-binding'
+import { getReferencedResultActions } from '../workflow-control-flow'
+import { WorkflowParser } from '../workflow-parser'
+import { CadenceGenerator } from '../cadence-generator'
+import { ActionDiscoveryService } from '../action-discovery-service'
+import { ActionMetadata, ParsedWorkflow } from '../types'
+
+// swap -> stake(amount: swap.amountOut) -> vote(proposalId: swap.count)
+const nodes: Node[] = [
+  { id: 'swap-1', type: 'action', position: { x: 0, y: 0 }, data: { label: 'Swap Tokens', actionId: 'swap-tokens' } },
+  { id: 'stake-1', type: 'action', position: { x: 0, y: 100 }, data: { label: 'Stake Tokens', actionId: 'stake-tokens' } },
+  { id: 'vote-1', type: 'action', position: { x: 0, y: 200 }, data: { label: 'Vote', actionId: 'vote' } }
+]
+
+const edges: Edge[] = [
+  { id: 'e1', source: 'swap-1', target: 'stake-1' },
+  { id: 'e2', source: 'stake-1', target: 'vote-1' }
+]
+
+const swapMetadata = {
+  id: 'swap-tokens',
+  name: 'Swap Tokens',
+  outputs: [
+    { name: 'amountOut', type: 'UFix64' },
+    { name: 'count', type: 'UInt64' },
+    { name: 'succeeded', type: 'Bool' }
+  ]
+} as ActionMetadata
+
+const createWorkflow = (): ParsedWorkflow => {
+  const workflow = WorkflowParser.parse(nodes, edges)
+  workflow.actions.find(a => a.id === 'stake-1')!.parameters = [
+    { name: 'amount', type: 'UFix64', value: 'swap-1.amountOut', required: true }
+  ]
+  workflow.actions.find(a => a.id === 'vote-1')!.parameters = [
+    { name: 'proposalId', type: 'UFix64', value: 'swap-1.count', required: true },
+    { name: 'choice', type: 'Bool', value: 'true', required: true }
+  ]
+  return workflow
+}
+
+describe('Workflow data binding', () => {
+  let workflow: ParsedWorkflow
+
+  beforeEach(() => {
+    workflow = createWorkflow()
+  })
+
+  it('should collect each referenced output once per source action', () => {
+    const bindings = getOutputBindings(workflow, { 'swap-1': { amountOut: 'UFix64', count: 'UInt64' } })
+
+    expect([...bindings.keys()]).toEqual(['swap-1'])
+    expect(bindings.get('swap-1')).toEqual([
+      { actionId: 'swap-1', outputName: 'amountOut', variableName: 'swap1AmountOut', type: 'UFix64' },
+      { actionId: 'swap-1', outputName: 'count', variableName: 'swap1Count', type: 'UInt64' }
+    ])
+    expect(renderOutputBindings(bindings.get('swap-1')!)).toEqual([
+      '    let swap1AmountOut: UFix64 = swap1Result.amountOut',
+      '    let swap1Count: UInt64 = swap1Result.count'
+    ])
+    expect(getReferencedResultActions(workflow).has('swap-1')).toBe(true)
+  })
+
+  it('should substitute and convert referenced outputs', () => {
+    const outputTypes = { 'swap-1': { amountOut: 'UFix64', count: 'UInt64' } }
+    const stake = resolveOutputReferences(workflow.actions.find(a => a.id === 'stake-1')!, workflow, outputTypes)
+    const vote = resolveOutputReferences(workflow.actions.find(a => a.id === 'vote-1')!, workflow, outputTypes)
+
+    expect(stake.parameters[0]).toMatchObject({ value: 'swap-1.amountOut', expression: 'swap1AmountOut' })
+    expect(vote.parameters[0].expression).toBe('UFix64(swap1Count)')
+    expect(vote.parameters[1].expression).toBeUndefined()
+  })
+
+  it('should reject outputs that cannot be converted to the parameter type', () => {
+    workflow.actions.find(a => a.id === 'stake-1')!.parameters[0].value = 'swap-1.succeeded'
+
+    expect(() => resolveOutputReferences(
+      workflow.actions.find(a => a.id === 'stake-1')!,
+      workflow,
+      { 'swap-1': { succeeded: 'Bool' } }
+    )).toThrow(DataBindingError)
+  })
+
+  describe('CadenceGenerator', () => {
+    beforeEach(() => {
+      vi.spyOn(console, 'log').mockImplementation(() => {})
+      CadenceGenerator.setDiscoveryService({
+        getAction: async (id: string) => id === 'swap-tokens' ? swapMetadata : null
+      } as unknown as ActionDiscoveryService)
+    })
+
+    afterEach(() => {
+      vi.restoreAllMocks()
+    })
+
+    it('should bind outputs to typed locals and pass them downstream', async () => {
+      const code = await CadenceGenerator.generateTransaction(workflow)
+
+      expect(code).toContain('    let swap1Result = SwapRouter.swap(')
+      expect(code).toContain('    let swap1AmountOut: UFix64 = swap1Result.amountOut\n    let swap1Count: UInt64 = swap1Result.count\n')
+      expect(code).toContain('      amount: swap1AmountOut\n')
+      expect(code).toContain('      proposalId: UFix64(swap1Count),')
+      expect(code).not.toContain('swap-1.amountOut')
+    })
+
+    it('should fail generation when an output type cannot be converted', async () => {
+      workflow.actions.find(a => a.id === 'stake-1')!.parameters[0].value = 'swap-1.succeeded'
+
+      const result = await CadenceGenerator.generateTransactionWithDetails(workflow)
+
+      expect(result.success).toBe(false)
+      expect(result.errors.join(' ')).toContain('Cannot pass swap-1.succeeded (Bool)')
+    })
+  })
+})
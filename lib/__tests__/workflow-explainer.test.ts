@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest'
+import type { Node, Edge } from '@xyflow/react'
+import { explainWorkflow } from '../workflow-explainer'
+import { WorkflowParser } from '../workflow-parser'
+import { RiskFactorType, RiskLevel } from '../security-manager'
+import { ParsedAction, ParsedWorkflow } from '../types'
+
+const ALICE = '0x01cf0e2f2f715450'
+
+const action = (id: string, actionType: string, name: string, parameters: Record<string, string>, nextActions: string[] = []): ParsedAction => ({
+  id,
+  actionType,
+  name,
+  parameters: Object.entries(parameters).map(([paramName, value]) => ({ name: paramName, type: 'String', value, required: true })),
+  nextActions,
+  position: { x: 0, y: 0 }
+})
+
+// swap 10 FLOW for USDC -> send the swapped amount to Alice
+const swapAndSend: ParsedWorkflow = {
+  actions: [
+    action('swap-1', 'swap-tokens', 'Swap Tokens', { fromToken: 'FLOW', toToken: 'USDC', amount: '10.0' }, ['transfer-1']),
+    action('transfer-1', 'transfer-tokens', 'Transfer Tokens', { recipient: ALICE, amount: 'swap-1.amountOut', token: 'USDC' })
+  ],
+  executionOrder: ['swap-1', 'transfer-1'],
+  rootActions: ['swap-1'],
+  metadata: { totalActions: 2, totalConnections: 1, createdAt: '2024-01-01T00:00:00.000Z' }
+}
+
+const quietSecurity = {
+  assessRisk: async () => ({
+    overallRisk: RiskLevel.LOW,
+    riskFactors: [],
+    mitigationSuggestions: [],
+    confidenceScore: 1,
+    assessmentTime: new Date()
+  })
+}
+
+describe('explainWorkflow', () => {
+  it('should describe each action in order with its amounts, tokens and recipients', async () => {
+    const explanation = await explainWorkflow(swapAndSend, { security: quietSecurity })
+
+    expect(explanation.summary).toBe('This workflow runs 2 actions in one transaction, sending to 1 recipient. Overall risk is low.')
+    expect(explanation.steps.map(step => step.text)).toEqual([
+      'Swap 10.0 FLOW for USDC.',
+      `Send the amountOut from step 1 (Swap Tokens) (USDC) to ${ALICE}.`
+    ])
+    expect(explanation.text).toContain(`2. Send the amountOut from step 1 (Swap Tokens) (USDC) to ${ALICE}.`)
+  })
+
+  it('should list the data passed between steps', async () => {
+    const explanation = await explainWorkflow(swapAndSend, { security: quietSecurity })
+
+    expect(explanation.dependencies).toEqual([
+      'step 2 (Transfer Tokens) uses the amountOut from step 1 (Swap Tokens) as its amount.'
+    ])
+    expect(explanation.text).toContain('Data between steps:')
+  })
+
+  it('should nest the branches of a condition under it', async () => {
+    const nodes: Node[] = [
+      { id: 'swap-1', type: 'action', position: { x: 0, y: 0 }, data: { label: 'Swap Tokens', actionId: 'swap-tokens' } },
+      {
+        id: 'cond-1',
+        type: 'condition',
+        position: { x: 0, y: 100 },
+        data: { label: 'Enough received?', actionId: 'condition', condition: { left: 'swap-1.amountOut', operator: 'gt', right: '10' } }
+      },
+      { id: 'stake-1', type: 'action', position: { x: -100, y: 200 }, data: { label: 'Stake Tokens', actionId: 'stake-tokens' } },
+      { id: 'vote-1', type: 'action', position: { x: 100, y: 200 }, data: { label: 'Vote', actionId: 'vote' } }
+    ]
+    const edges: Edge[] = [
+      { id: 'e1', source: 'swap-1', target: 'cond-1' },
+      { id: 'e2', source: 'cond-1', sourceHandle: 'true', target: 'stake-1' },
+      { id: 'e3', source: 'cond-1', sourceHandle: 'false', target: 'vote-1' }
+    ]
+
+    const explanation = await explainWorkflow(WorkflowParser.parse(nodes, edges), { security: quietSecurity })
+
+    expect(explanation.steps.map(step => [step.depth, step.text])).toEqual([
+      [0, 'Swap an unspecified amount for another token, accepting at most 0.01 slippage.'],
+      [0, 'If the amountOut from step 1 (Swap Tokens) is greater than 10:'],
+      [1, 'Stake an unspecified amount.'],
+      [0, 'Otherwise:'],
+      [1, 'Run Vote.']
+    ])
+    expect(explanation.dependencies).toEqual([
+      'step 2 (Enough received?) decides on the amountOut from step 1 (Swap Tokens).'
+    ])
+    expect(explanation.summary).toMatch(/^This workflow runs 3 actions in one transaction\./)
+  })
+
+  it('should add risk notes from the security assessment', async () => {
+    const explanation = await explainWorkflow(swapAndSend, {
+      security: {
+        assessRisk: async () => ({
+          overallRisk: RiskLevel.HIGH,
+          riskFactors: [{
+            type: RiskFactorType.HIGH_VALUE,
+            severity: RiskLevel.HIGH,
+            description: 'High value transaction',
+            impact: 'Large amount of FLOW at risk',
+            likelihood: 0.8
+          }],
+          mitigationSuggestions: ['Consider splitting into smaller transactions'],
+          confidenceScore: 0.9,
+          assessmentTime: new Date()
+        })
+      }
+    })
+
+    expect(explanation.risk).toEqual({
+      level: RiskLevel.HIGH,
+      notes: [
+        'High value transaction (high): Large amount of FLOW at risk.',
+        'Consider splitting into smaller transactions'
+      ]
+    })
+    expect(explanation.summary).toContain('Overall risk is high.')
+    expect(explanation.text).toContain('Risk notes:')
+  })
+
+  it('should use the security manager by default', async () => {
+    const explanation = await explainWorkflow(swapAndSend)
+
+    expect(Object.values(RiskLevel)).toContain(explanation.risk.level)
+  })
+})
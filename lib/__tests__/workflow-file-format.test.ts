@@ -0,0 +1,201 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import type { Node, Edge } from '@xyflow/react'
+import {
+  LOOM_FORMAT_ID,
+  LOOM_FORMAT_VERSION,
+  LoomFormatError,
+  exportWorkflow,
+  importWorkflow,
+  migrateLoomFile,
+  validateLoomFile,
+  parseImportedWorkflow,
+  getLoomFileName
+} from '../workflow-file-format'
+import { POST as loomPOST, GET as loomGET } from '@/app/api/workflow/loom/route'
+import { AgentConfiguration } from '../types'
+
+const nodes: Node[] = [
+  {
+    id: 'swap-1',
+    type: 'action',
+    position: { x: 100, y: 50 },
+    data: {
+      label: 'Swap Tokens',
+      actionId: 'swap-tokens',
+      category: 'defi',
+      metadata: {
+        id: 'swap-tokens',
+        name: 'Swap Tokens',
+        version: '1.2.0',
+        parameters: [{ name: 'customParam', type: 'UFix64', value: '', required: true }]
+      }
+    }
+  },
+  {
+    id: 'stake-1',
+    type: 'action',
+    position: { x: 300, y: 50 },
+    data: { label: 'Stake Tokens', actionId: 'stake-tokens', category: 'defi' }
+  }
+]
+
+const edges: Edge[] = [{ id: 'e1', source: 'swap-1', target: 'stake-1' }]
+
+const parameterValues = {
+  'swap-1': { amount: '10.0', fromToken: '0x1654653399040a61', customParam: '2.5' },
+  'stake-1': { amount: '5.0' }
+}
+
+const agentConfig: AgentConfiguration = {
+  schedule: { type: 'recurring', interval: 3600 },
+  eventTriggers: [],
+  retryPolicy: { maxRetries: 3, backoffMultiplier: 2, initialDelay: 1000 },
+  notifications: { onSuccess: true, onFailure: true, channels: ['email'] },
+  permissions: []
+}
+
+describe('Workflow File Format', () => {
+  describe('exportWorkflow', () => {
+    it('should produce a versioned document with registry versions and parameter values', () => {
+      const file = exportWorkflow({ nodes, edges }, parameterValues, { name: 'Swap then stake', agentConfig })
+
+      expect(file.format).toBe(LOOM_FORMAT_ID)
+      expect(file.formatVersion).toBe(LOOM_FORMAT_VERSION)
+      expect(file.workflow.nodes[0]).toMatchObject({
+        id: 'swap-1',
+        actionId: 'swap-tokens',
+        registryVersion: '1.2.0',
+        position: { x: 100, y: 50 },
+        parameters: parameterValues['swap-1']
+      })
+      expect(file.workflow.edges).toEqual([
+        { id: 'e1', source: 'swap-1', target: 'stake-1', sourceHandle: undefined, targetHandle: undefined }
+      ])
+      expect(file.agentConfig).toEqual(agentConfig)
+      expect(validateLoomFile(file).valid).toBe(true)
+    })
+  })
+
+  describe('importWorkflow', () => {
+    it('should round-trip an exported file', () => {
+      const file = exportWorkflow({ nodes, edges }, parameterValues, { name: 'Swap then stake', agentConfig })
+      const imported = importWorkflow(JSON.stringify(file))
+
+      expect(imported.name).toBe('Swap then stake')
+      expect(imported.parameterValues).toEqual(parameterValues)
+      expect(imported.agentConfig).toEqual(agentConfig)
+      expect(imported.workflow.nodes.map(n => n.position)).toEqual(nodes.map(n => n.position))
+      expect(imported.workflow.edges.map(e => [e.source, e.target])).toEqual([['swap-1', 'stake-1']])
+      expect(imported.migratedFrom).toBeUndefined()
+    })
+
+    it('should migrate a legacy devtools document', () => {
+      const imported = importWorkflow({ nodes, edges, parameterValues })
+
+      expect(imported.migratedFrom).toBe(0)
+      expect(imported.parameterValues['stake-1']).toEqual({ amount: '5.0' })
+      expect(imported.workflow.nodes).toHaveLength(2)
+    })
+
+    it('should reject invalid JSON', () => {
+      expect(() => importWorkflow('{not json')).toThrow(LoomFormatError)
+    })
+
+    it('should reject edges to unknown nodes', () => {
+      const file = exportWorkflow({ nodes, edges }, parameterValues)
+      file.workflow.edges.push({ id: 'e2', source: 'swap-1', target: 'missing' })
+
+      try {
+        importWorkflow(file)
+        expect.fail('import should have failed')
+      } catch (error) {
+        expect(error).toBeInstanceOf(LoomFormatError)
+        expect((error as LoomFormatError).errors[0]).toContain('unknown node "missing"')
+      }
+    })
+  })
+
+  describe('migrateLoomFile', () => {
+    it('should refuse files from a newer format version', () => {
+      expect(() => migrateLoomFile({ format: LOOM_FORMAT_ID, formatVersion: LOOM_FORMAT_VERSION + 1 }))
+        .toThrow('newer than supported')
+    })
+
+    it('should refuse unrecognized documents', () => {
+      expect(() => migrateLoomFile({ hello: 'world' })).toThrow('Unrecognized workflow file')
+    })
+  })
+
+  describe('parseImportedWorkflow', () => {
+    it('should parse through WorkflowParser and apply parameter values', () => {
+      const parsed = parseImportedWorkflow(importWorkflow(exportWorkflow({ nodes, edges }, parameterValues)))
+
+      expect(parsed.executionOrder).toEqual(['swap-1', 'stake-1'])
+      const swap = parsed.actions.find(a => a.id === 'swap-1')!
+      expect(swap.parameters.find(p => p.name === 'amount')?.value).toBe('10.0')
+      expect(swap.parameters.find(p => p.name === 'customParam')).toMatchObject({
+        type: 'UFix64',
+        value: '2.5',
+        required: true
+      })
+    })
+  })
+
+  it('should build safe file names', () => {
+    expect(getLoomFileName('My DCA / Swap!')).toBe('my-dca-swap.loom.json')
+    expect(getLoomFileName()).toBe('workflow.loom.json')
+  })
+})
+
+describe('/api/workflow/loom', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should return the JSON schema', async () => {
+    const response = await loomGET()
+    const data = await response.json()
+
+    expect(data.success).toBe(true)
+    expect(data.formatVersion).toBe(LOOM_FORMAT_VERSION)
+    expect(data.schema.title).toBe('ActionLoom Workflow')
+  })
+
+  it('should round-trip a file through the parser', async () => {
+    const file = exportWorkflow({ nodes, edges }, parameterValues, { name: 'Round trip' })
+    const request = new NextRequest('http://localhost:3000/api/workflow/loom', {
+      method: 'POST',
+      body: JSON.stringify({ file }),
+      headers: { 'Content-Type': 'application/json' }
+    })
+
+    const response = await loomPOST(request)
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.parsedWorkflow.executionOrder).toEqual(['swap-1', 'stake-1'])
+    expect(data.parsedWorkflow.metadata.name).toBe('Round trip')
+    expect(data.file.workflow.nodes).toEqual(JSON.parse(JSON.stringify(file.workflow.nodes)))
+  })
+
+  it('should return validation errors for malformed files', async () => {
+    const request = new NextRequest('http://localhost:3000/api/workflow/loom', {
+      method: 'POST',
+      body: JSON.stringify({ file: { format: LOOM_FORMAT_ID, formatVersion: 1, workflow: {} } }),
+      headers: { 'Content-Type': 'application/json' }
+    })
+
+    const response = await loomPOST(request)
+    const data = await response.json()
+
+    expect(response.status).toBe(400)
+    expect(data.code).toBe('VALIDATION_FAILED')
+    expect(data.error).toBe('Workflow file failed validation')
+  })
+})
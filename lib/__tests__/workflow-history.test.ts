@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest'
+import type { Node, Edge } from '@xyflow/react'
+import {
+  WorkflowHistory,
+  addNodesCommand,
+  addEdgeCommand,
+  editParameterCommand,
+  moveNodesCommand,
+  removeElementsCommand,
+  updateNodeDataCommand,
+  type EditorState
+} from '../workflow-history'
+
+const node = (id: string, x = 0): Node => ({
+  id,
+  type: 'action',
+  position: { x, y: 0 },
+  data: { label: id, actionId: id }
+})
+
+const edge = (source: string, target: string): Edge => ({ id: `${source}-${target}`, source, target })
+
+const initialState = (): EditorState => ({
+  workflow: {
+    nodes: [node('a'), node('b', 200), node('c', 400)],
+    edges: [edge('a', 'b'), edge('b', 'c')]
+  },
+  parameterValues: {
+    a: { amount: '10.0' },
+    b: { recipient: '0x01cf0e2f2f715450', amount: 'a.amount' },
+    c: { amount: '5.0' }
+  }
+})
+
+describe('WorkflowHistory', () => {
+  it('should restore a deleted node with its parameters and connections', () => {
+    const history = new WorkflowHistory()
+    const state = initialState()
+
+    const removed = history.execute(state, removeElementsCommand(state, ['b']))
+    expect(removed.workflow.nodes.map(n => n.id)).toEqual(['a', 'c'])
+    expect(removed.workflow.edges).toEqual([])
+    expect(removed.parameterValues.b).toBeUndefined()
+
+    const restored = history.undo(removed)!
+    expect(restored.workflow).toEqual(state.workflow)
+    expect(restored.parameterValues).toEqual(state.parameterValues)
+
+    expect(history.redo(restored)!.workflow.nodes.map(n => n.id)).toEqual(['a', 'c'])
+  })
+
+  it('should undo and redo node additions, moves, edges and node settings', () => {
+    const history = new WorkflowHistory()
+    let state = initialState()
+
+    state = history.execute(state, addNodesCommand([node('d', 600)], [], { d: { amount: '1.0' } }), 0)
+    state = history.execute(state, addEdgeCommand(edge('c', 'd')), 10_000)
+    state = history.execute(state, moveNodesCommand([{ id: 'a', from: { x: 0, y: 0 }, to: { x: 50, y: 80 } }]), 20_000)
+    state = history.execute(state, updateNodeDataCommand('c', { label: 'c' }, { label: 'Pay' }), 30_000)
+
+    expect(state.workflow.nodes.find(n => n.id === 'a')!.position).toEqual({ x: 50, y: 80 })
+    expect(state.workflow.nodes.find(n => n.id === 'c')!.data.label).toBe('Pay')
+
+    for (let i = 0; i < 4; i++) {
+      state = history.undo(state)!
+    }
+    expect(state).toEqual(initialState())
+    expect(history.canUndo()).toBe(false)
+    expect(history.undo(state)).toBeNull()
+
+    state = history.redo(history.redo(state)!)!
+    expect(state.workflow.nodes.map(n => n.id)).toEqual(['a', 'b', 'c', 'd'])
+    expect(state.workflow.edges.map(e => e.id)).toContain('c-d')
+    expect(state.parameterValues.d).toEqual({ amount: '1.0' })
+  })
+
+  it('should merge quick edits of the same parameter into one step', () => {
+    const history = new WorkflowHistory()
+    let state = initialState()
+
+    state = history.execute(state, editParameterCommand('c', 'amount', '5.0', '5.'), 1000)
+    state = history.execute(state, editParameterCommand('c', 'amount', '5.', '5.5'), 1200)
+    state = history.execute(state, editParameterCommand('a', 'amount', '10.0', '12.0'), 1300)
+
+    expect(state.parameterValues.c.amount).toBe('5.5')
+
+    state = history.undo(state)!
+    expect(state.parameterValues.a.amount).toBe('10.0')
+    state = history.undo(state)!
+    expect(state.parameterValues.c.amount).toBe('5.0')
+    expect(history.canUndo()).toBe(false)
+  })
+
+  it('should clear redo steps on a new edit and drop the oldest steps past the limit', () => {
+    const history = new WorkflowHistory(3)
+    let state = initialState()
+
+    for (const id of ['d', 'e', 'f', 'g']) {
+      state = history.execute(state, addNodesCommand([node(id)]))
+    }
+    state = history.undo(state)!
+    expect(history.canRedo()).toBe(true)
+    expect(history.getRedoLabel()).toBe('Add g')
+
+    state = history.execute(state, addNodesCommand([node('h')]))
+    expect(history.canRedo()).toBe(false)
+
+    while (history.canUndo()) {
+      state = history.undo(state)!
+    }
+    // The add of "d" fell off the bounded stack
+    expect(state.workflow.nodes.map(n => n.id)).toEqual(['a', 'b', 'c', 'd'])
+  })
+})
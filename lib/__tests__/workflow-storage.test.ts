@@ -0,0 +1,199 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import {
+  WorkflowStorageService,
+  InMemoryWorkflowStorageAdapter,
+  FileWorkflowStorageAdapter,
+  WorkflowStorageAdapter,
+  WorkflowStorageError,
+  diffWorkflows
+} from '../workflow-storage'
+import { ParsedWorkflow } from '../types'
+
+const createWorkflow = (amount: string = '10.0'): ParsedWorkflow => ({
+  actions: [
+    {
+      id: 'swap-1',
+      actionType: 'swap-tokens',
+      name: 'Swap Tokens',
+      parameters: [
+        { name: 'amount', type: 'UFix64', value: amount, required: true },
+        { name: 'slippage', type: 'UFix64', value: '0.01', required: false }
+      ],
+      nextActions: [],
+      position: { x: 0, y: 0 }
+    }
+  ],
+  executionOrder: ['swap-1'],
+  rootActions: ['swap-1'],
+  metadata: {
+    totalActions: 1,
+    totalConnections: 0,
+    createdAt: '2024-01-01T00:00:00.000Z'
+  }
+})
+
+const runAdapterSuite = (name: string, createAdapter: () => Promise<WorkflowStorageAdapter>) => {
+  describe(name, () => {
+    let service: WorkflowStorageService
+
+    beforeEach(async () => {
+      service = new WorkflowStorageService(await createAdapter())
+    })
+
+    it('should save a new workflow as version 1', async () => {
+      const saved = await service.save(createWorkflow(), { name: 'DCA' })
+
+      expect(saved.workflowId).toMatch(/^wf_\d+_[a-z0-9]+$/)
+      expect(saved.version).toBe(1)
+      expect(saved.workflow.metadata.name).toBe('DCA')
+      expect(saved.workflow.metadata.version).toBe('1')
+      expect(saved.workflow.metadata.savedAt).toBeDefined()
+    })
+
+    it('should keep the owner it was saved with across updates', async () => {
+      const saved = await service.save(createWorkflow(), { owner: 'user-1' })
+      await service.update(saved.workflowId, createWorkflow('25.0'))
+
+      expect(await service.getRecord(saved.workflowId)).toMatchObject({ owner: 'user-1', currentVersion: 2 })
+    })
+
+    it('should append versions on update and keep earlier versions intact', async () => {
+      const saved = await service.save(createWorkflow('10.0'))
+      const updated = await service.update(saved.workflowId, createWorkflow('25.0'), { comment: 'bump amount' })
+
+      expect(updated.version).toBe(2)
+
+      const latest = await service.get(saved.workflowId)
+      const first = await service.get(saved.workflowId, 1)
+      expect(latest?.workflow.actions[0].parameters[0].value).toBe('25.0')
+      expect(first?.workflow.actions[0].parameters[0].value).toBe('10.0')
+
+      const versions = await service.listVersions(saved.workflowId)
+      expect(versions.map(v => v.version)).toEqual([1, 2])
+      expect(versions[1].comment).toBe('bump amount')
+    })
+
+    it('should give concurrent updates consecutive versions', async () => {
+      const saved = await service.save(createWorkflow('10.0'))
+
+      const updates = await Promise.all(['20.0', '30.0', '40.0'].map(amount =>
+        service.update(saved.workflowId, createWorkflow(amount))))
+
+      expect(updates.map(v => v.version)).toEqual([2, 3, 4])
+      expect((await service.listVersions(saved.workflowId)).map(v => v.version)).toEqual([1, 2, 3, 4])
+      expect((await service.get(saved.workflowId))?.workflow.actions[0].parameters[0].value).toBe('40.0')
+    })
+
+    it('should list workflow summaries', async () => {
+      await service.save(createWorkflow(), { name: 'First' })
+      await service.save(createWorkflow(), { name: 'Second' })
+
+      const workflows = await service.list()
+      expect(workflows).toHaveLength(2)
+      expect(workflows.map(w => w.name).sort()).toEqual(['First', 'Second'])
+      expect(workflows[0].totalActions).toBe(1)
+    })
+
+    it('should delete a workflow with its history', async () => {
+      const saved = await service.save(createWorkflow())
+
+      expect(await service.delete(saved.workflowId)).toBe(true)
+      expect(await service.get(saved.workflowId)).toBeNull()
+      expect(await service.delete(saved.workflowId)).toBe(false)
+    })
+
+    it('should reject updates to unknown workflows', async () => {
+      await expect(service.update('wf_1_missing', createWorkflow()))
+        .rejects.toBeInstanceOf(WorkflowStorageError)
+    })
+
+    it('should diff two versions', async () => {
+      const saved = await service.save(createWorkflow('10.0'))
+      await service.update(saved.workflowId, createWorkflow('25.0'))
+
+      const diff = await service.diff(saved.workflowId, 1, 2)
+      expect(diff.addedActions).toHaveLength(0)
+      expect(diff.removedActions).toHaveLength(0)
+      expect(diff.modifiedActions).toEqual([
+        { actionId: 'swap-1', changes: [{ field: 'parameters.amount', before: '10.0', after: '25.0' }] }
+      ])
+      expect(diff.metadataChanges).toHaveLength(0)
+    })
+
+    it('should fail to diff a missing version', async () => {
+      const saved = await service.save(createWorkflow())
+      await expect(service.diff(saved.workflowId, 1, 5)).rejects.toThrow('Version 5')
+    })
+  })
+}
+
+describe('WorkflowStorageService', () => {
+  runAdapterSuite('with InMemoryWorkflowStorageAdapter', async () => new InMemoryWorkflowStorageAdapter())
+
+  describe('with FileWorkflowStorageAdapter', () => {
+    const tempDirs: string[] = []
+
+    afterEach(async () => {
+      await Promise.all(tempDirs.splice(0).map(dir => fs.rm(dir, { recursive: true, force: true })))
+    })
+
+    runAdapterSuite('file-backed', async () => {
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'actionloom-workflows-'))
+      tempDirs.push(dir)
+      return new FileWorkflowStorageAdapter(dir)
+    })
+
+    it('should persist across adapter instances', async () => {
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'actionloom-workflows-'))
+      tempDirs.push(dir)
+
+      const saved = await new WorkflowStorageService(new FileWorkflowStorageAdapter(dir)).save(createWorkflow())
+      const reopened = new WorkflowStorageService(new FileWorkflowStorageAdapter(dir))
+
+      const loaded = await reopened.get(saved.workflowId)
+      expect(loaded?.workflow.actions).toEqual(saved.workflow.actions)
+    })
+
+    it('should never overwrite an existing version', async () => {
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'actionloom-workflows-'))
+      tempDirs.push(dir)
+      const adapter = new FileWorkflowStorageAdapter(dir)
+
+      const version = { workflowId: 'wf_1_abc', version: 1, workflow: createWorkflow(), savedAt: new Date().toISOString() }
+      await adapter.appendVersion(version)
+
+      await expect(adapter.appendVersion(version)).rejects.toMatchObject({ code: 'VERSION_EXISTS' })
+    })
+
+    it('should take the next version when another process saved first', async () => {
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'actionloom-workflows-'))
+      tempDirs.push(dir)
+      const service = new WorkflowStorageService(new FileWorkflowStorageAdapter(dir))
+      const saved = await service.save(createWorkflow('10.0'))
+
+      // Another process wrote version 2 but has not updated the record yet
+      await new FileWorkflowStorageAdapter(dir).appendVersion({ ...saved, version: 2 })
+
+      const updated = await service.update(saved.workflowId, createWorkflow('25.0'))
+      expect(updated.version).toBe(3)
+      expect((await service.get(saved.workflowId))?.version).toBe(3)
+    })
+  })
+})
+
+describe('diffWorkflows', () => {
+  it('should detect added and removed actions', () => {
+    const before = createWorkflow()
+    const after = createWorkflow()
+    after.actions = [{ ...after.actions[0], id: 'swap-2' }]
+    after.executionOrder = ['swap-2']
+
+    const diff = diffWorkflows(before, after)
+    expect(diff.addedActions.map(a => a.id)).toEqual(['swap-2'])
+    expect(diff.removedActions.map(a => a.id)).toEqual(['swap-1'])
+    expect(diff.executionOrderChanged).toBe(true)
+  })
+})
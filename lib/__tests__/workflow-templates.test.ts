@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest'
+import { NextRequest } from 'next/server'
+import {
+  TemplateError,
+  getWorkflowTemplates,
+  getWorkflowTemplate,
+  instantiateTemplate,
+  validateTemplateVariables
+} from '../workflow-templates'
+import { parseImportedWorkflow } from '../workflow-file-format'
+import { WorkflowValidator } from '../workflow-validator'
+import { getRealFlowActions } from '../real-flow-actions'
+import { ActionMetadata } from '../types'
+import { GET as templatesGET, POST as templatesPOST } from '@/app/api/templates/route'
+
+const sampleValues: Record<string, Record<string, string>> = {
+  'dca-swap': {
+    toToken: 'FUSD',
+    amountPerRun: '25.0',
+    intervalHours: '12'
+  },
+  'nft-drop': {
+    recipients: '0x01cf0e2f2f715450, 0x179b6b1cb6755e31',
+    metadata: '{"name":"Genesis"}'
+  },
+  'staking-compounder': {
+    nodeId: 'a3b4c5d6e7f80912',
+    minimumRewards: '5.0'
+  },
+  'payroll-transfers': {
+    employees: '0x01cf0e2f2f715450,0x179b6b1cb6755e31,0xf3fcd2c1a78f5eee',
+    salary: '1500.0'
+  }
+}
+
+const actionMetadata: Record<string, ActionMetadata> = Object.fromEntries(
+  getRealFlowActions().map(action => [action.id, action])
+)
+
+describe('Workflow Templates', () => {
+  it('should provide the DCA, NFT drop, staking and payroll templates', () => {
+    expect(getWorkflowTemplates().map(template => template.id)).toEqual([
+      'dca-swap',
+      'nft-drop',
+      'staking-compounder',
+      'payroll-transfers'
+    ])
+    expect(getWorkflowTemplates('nft').map(template => template.id)).toEqual(['nft-drop'])
+  })
+
+  it.each(getWorkflowTemplates().map(template => [template.id]))(
+    '%s should pass WorkflowValidator once instantiated',
+    (templateId) => {
+      const imported = instantiateTemplate(getWorkflowTemplate(templateId)!, sampleValues[templateId])
+      const parsed = parseImportedWorkflow(imported)
+
+      const result = new WorkflowValidator().validateWorkflow(parsed, actionMetadata, imported.parameterValues)
+
+      expect(result.globalErrors).toEqual([])
+      expect(result.dataFlowResult.isValid).toBe(true)
+      expect(result.isValid).toBe(true)
+    }
+  )
+
+  it('should substitute variables into parameters, loops and defaults', () => {
+    const drop = instantiateTemplate(getWorkflowTemplate('nft-drop')!, sampleValues['nft-drop'])
+    const loopNode = drop.workflow.nodes.find(node => node.id === 'drop')!
+
+    expect((loopNode.data as any).loop.items).toBe('0x01cf0e2f2f715450, 0x179b6b1cb6755e31')
+    expect(drop.parameterValues.mint).toEqual({ recipient: 'drop.item', metadata: '{"name":"Genesis"}' })
+
+    const dca = instantiateTemplate(getWorkflowTemplate('dca-swap')!, sampleValues['dca-swap'])
+    expect(dca.parameterValues.swap).toMatchObject({ fromToken: 'FLOW', toToken: 'FUSD', slippage: '0.01' })
+    expect(dca.agentConfig?.schedule).toEqual({ type: 'recurring', interval: 12 * 3600 })
+    expect(dca.name).toBe('DCA Swap')
+  })
+
+  it('should reject missing and malformed variable values', () => {
+    const template = getWorkflowTemplate('payroll-transfers')!
+
+    expect(validateTemplateVariables(template, { employees: '0x01cf0e2f2f715450, bob', salary: '-1' })).toEqual([
+      'Employee addresses contains invalid addresses: bob',
+      'Salary (FLOW) must be a positive decimal with up to 8 decimal places'
+    ])
+    expect(() => instantiateTemplate(template, {})).toThrow(TemplateError)
+  })
+
+  describe('API', () => {
+    it('should list template summaries by category', async () => {
+      const response = await templatesGET(new NextRequest('http://localhost/api/templates?category=defi'))
+      const body = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(body.templates).toHaveLength(1)
+      expect(body.templates[0]).toMatchObject({ id: 'dca-swap', actionIds: ['swap-tokens'] })
+      expect(body.templates[0].nodes).toBeUndefined()
+      expect(body.categories.defi).toBe('DeFi')
+    })
+
+    it('should reject unknown and inherited categories', async () => {
+      for (const category of ['gaming', 'toString', 'constructor']) {
+        const response = await templatesGET(new NextRequest(`http://localhost/api/templates?category=${category}`))
+        expect(response.status).toBe(400)
+      }
+    })
+
+    it('should instantiate a template with its variables', async () => {
+      const response = await templatesPOST(new NextRequest('http://localhost/api/templates', {
+        method: 'POST',
+        body: JSON.stringify({ templateId: 'payroll-transfers', variables: sampleValues['payroll-transfers'] })
+      }))
+      const body = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(body.workflow.nodes).toHaveLength(2)
+      expect(body.parameterValues.pay.amount).toBe('1500.0')
+      expect(body.validation.isValid).toBe(true)
+    })
+
+    it('should report invalid variables as a validation error', async () => {
+      const response = await templatesPOST(new NextRequest('http://localhost/api/templates', {
+        method: 'POST',
+        body: JSON.stringify({ templateId: 'dca-swap', variables: { toToken: 'DOGE' } })
+      }))
+
+      expect(response.status).toBe(400)
+    })
+
+    it('should return 404 for unknown templates', async () => {
+      const response = await templatesPOST(new NextRequest('http://localhost/api/templates', {
+        method: 'POST',
+        body: JSON.stringify({ templateId: 'missing' })
+      }))
+
+      expect(response.status).toBe(404)
+    })
+  })
+})
@@ -0,0 +1,403 @@
+import type { ActionMetadata, Agent, BalanceChange, EventTrigger, ParsedWorkflow, Schedule } from './types'
+import { getNextCronRun } from './cron-expression'
+import { FlowEmulatorService } from './flow-emulator-service'
+import { getRealFlowActions } from './real-flow-actions'
+import { WorkflowStorageService, getDefaultWorkflowStorageService } from './workflow-storage'
+import { AgentJobStore, getDefaultAgentJobStore } from './agent-job-store'
+import { FixtureOracleAdapter, OracleError, createOracleAdapter } from './oracle-adapter'
+import { TriggerEdgeState, advanceTriggerState } from './trigger-condition'
+import { PlannedSpend, evaluateAgentPolicy } from './agent-policy'
+
+/**
+ * Agent Backtests
+ *
+ * Shows what an agent would have done over a past window before it is
+ * enabled:
+ * - Replays the agent's schedule (intervals, cron in its time zone,
+ *   one-time runs) across the window
+ * - Replays price, balance and custom triggers against readings supplied
+ *   with the request, the trigger's fixture, or readings the scheduler
+ *   recorded from its oracle, with the live debounce and hysteresis rules
+ * - Checks every would-be run against the agent's policy, with daily
+ *   totals built from the earlier simulated runs; the first violation is
+ *   where the live agent would have been paused
+ * - Simulates each run with FlowEmulatorService and reports gas used and
+ *   the balance trajectory of the accounts the runs touched
+ * - Runs one simulation at a time, since the emulator listens on fixed
+ *   ports, and turns away backtests once too many are waiting
+ */
+
+export interface BacktestReading {
+  value: number
+  timestamp: string
+}
+
+export interface BacktestOptions {
+  from: Date
+  to: Date
+  // Readings by trigger index; replaces the trigger's fixture or recorded history
+  readings?: Record<number, BacktestReading[]>
+  maxExecutions?: number
+}
+
+export interface BacktestExecution {
+  index: number
+  at: string
+  source: 'schedule' | 'trigger'
+  trigger?: { index: number; type: EventTrigger['type']; value: number }
+  // 'blocked' runs violate the agent's policy; the live agent pauses there
+  status: 'simulated' | 'failed' | 'blocked'
+  gasUsed: number
+  cumulativeGas: number
+  balanceChanges: BalanceChange[]
+  events: string[]
+  errors: string[]
+  warnings: string[]
+}
+
+export interface BalancePoint {
+  at: string
+  executionIndex: number
+  address: string
+  token: string
+  balance: number
+  change: number
+}
+
+export interface BacktestReport {
+  agentId: string
+  workflowId: string
+  workflowVersion: number
+  from: string
+  to: string
+  executions: BacktestExecution[]
+  totalGas: number
+  balanceTrajectory: BalancePoint[]
+  pausedAt?: string
+  pauseReason?: string
+  truncated: boolean // More runs fell in the window than maxExecutions
+  warnings: string[]
+}
+
+/**
+ * Simulates one run; FlowEmulatorService in practice
+ */
+export interface BacktestSimulator {
+  simulateWorkflow: FlowEmulatorService['simulateWorkflow']
+  stopEmulator(): Promise<void>
+}
+
+export interface AgentBacktestServiceOptions {
+  storage?: WorkflowStorageService
+  store?: AgentJobStore
+  createSimulator?: () => BacktestSimulator
+  actionMetadata?: ActionMetadata[]
+}
+
+/**
+ * Error raised when a backtest cannot run: a bad window, a missing
+ * workflow, or an emulator that would not start
+ */
+export class AgentBacktestError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'INVALID_WINDOW' | 'NOT_FOUND' | 'SIMULATOR_UNAVAILABLE' | 'BUSY'
+  ) {
+    super(message)
+    this.name = 'AgentBacktestError'
+  }
+}
+
+export const DEFAULT_BACKTEST_MAX_EXECUTIONS = 200
+export const MAX_BACKTEST_EXECUTIONS = 200
+// Backtests waiting for or holding the emulator, across all services
+export const MAX_QUEUED_BACKTESTS = 3
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// The emulator's ports are fixed, so simulations share one queue per process
+let simulatorQueue: Promise<void> = Promise.resolve()
+let queuedBacktests = 0
+const VALUE_TRIGGER_TYPES: EventTrigger['type'][] = ['price', 'balance', 'custom']
+
+interface PlannedRun {
+  at: Date
+  source: BacktestExecution['source']
+  trigger?: BacktestExecution['trigger']
+}
+
+/**
+ * Times the schedule would have run within [from, to]. Interval schedules
+ * start one interval after `from`, as a newly enabled agent would.
+ */
+export function getScheduledRunTimes(schedule: Schedule, from: Date, to: Date, limit: number): Date[] {
+  const runs: Date[] = []
+
+  switch (schedule.type) {
+    case 'one-time': {
+      const startTime = schedule.startTime ? new Date(schedule.startTime) : null
+      if (startTime && startTime >= from && startTime <= to) runs.push(startTime)
+      break
+    }
+    case 'recurring':
+      if (schedule.interval) {
+        for (let at = from.getTime() + schedule.interval * 1000; at <= to.getTime() && runs.length < limit; at += schedule.interval * 1000) {
+          runs.push(new Date(at))
+        }
+      } else if (schedule.cronExpression) {
+        let at = getNextCronRun(schedule.cronExpression, from, schedule.timezone)
+        while (at <= to && runs.length < limit) {
+          runs.push(at)
+          at = getNextCronRun(schedule.cronExpression, at, schedule.timezone)
+        }
+      }
+      break
+  }
+  return runs
+}
+
+export class AgentBacktestService {
+  private storage: WorkflowStorageService
+  private store: AgentJobStore
+  private createSimulator: () => BacktestSimulator
+  private actionMetadata: ActionMetadata[]
+
+  constructor(options: AgentBacktestServiceOptions = {}) {
+    this.storage = options.storage || getDefaultWorkflowStorageService()
+    this.store = options.store || getDefaultAgentJobStore()
+    this.createSimulator = options.createSimulator || (() => createBacktestSimulatorFromEnv())
+    this.actionMetadata = options.actionMetadata || getRealFlowActions()
+  }
+
+  async backtest(agent: Agent, options: BacktestOptions): Promise<BacktestReport> {
+    const { from, to } = options
+    if (!(from < to)) {
+      throw new AgentBacktestError('Backtest window must end after it starts', 'INVALID_WINDOW')
+    }
+    const maxExecutions = Math.min(options.maxExecutions ?? DEFAULT_BACKTEST_MAX_EXECUTIONS, MAX_BACKTEST_EXECUTIONS)
+
+    const stored = await this.storage.get(agent.workflowId)
+    if (!stored) {
+      throw new AgentBacktestError(`Workflow ${agent.workflowId} for agent ${agent.id} was not found`, 'NOT_FOUND')
+    }
+
+    const warnings: string[] = []
+    const planned: PlannedRun[] = [
+      ...getScheduledRunTimes(agent.schedule, from, to, maxExecutions + 1).map(at => ({ at, source: 'schedule' as const })),
+      ...await this.replayTriggers(agent, options, warnings)
+    ].sort((a, b) => a.at.getTime() - b.at.getTime())
+
+    const truncated = planned.length > maxExecutions
+    const report: BacktestReport = {
+      agentId: agent.id,
+      workflowId: agent.workflowId,
+      workflowVersion: stored.version,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      executions: [],
+      totalGas: 0,
+      balanceTrajectory: [],
+      truncated,
+      warnings
+    }
+    if (planned.length === 0) {
+      warnings.push('The agent would not have run in this window')
+      return report
+    }
+
+    await this.withSimulator(simulator =>
+      this.simulateRuns(agent, stored.workflow, planned.slice(0, maxExecutions), simulator, report)
+    )
+    return report
+  }
+
+  private async withSimulator(simulate: (simulator: BacktestSimulator) => Promise<void>): Promise<void> {
+    if (queuedBacktests >= MAX_QUEUED_BACKTESTS) {
+      throw new AgentBacktestError('Too many backtests are running; try again later', 'BUSY')
+    }
+    queuedBacktests++
+
+    const previous = simulatorQueue
+    let done!: () => void
+    simulatorQueue = new Promise(resolve => { done = resolve })
+    try {
+      await previous
+      const simulator = this.createSimulator()
+      try {
+        await simulate(simulator)
+      } finally {
+        await simulator.stopEmulator().catch(error => console.warn('Failed to stop the backtest emulator:', error))
+      }
+    } finally {
+      queuedBacktests--
+      done()
+    }
+  }
+
+  private async simulateRuns(
+    agent: Agent,
+    workflow: ParsedWorkflow,
+    runs: PlannedRun[],
+    simulator: BacktestSimulator,
+    report: BacktestReport
+  ): Promise<void> {
+    const spent: Array<PlannedSpend & { at: number }> = []
+    const balances = new Map<string, number>()
+
+    for (const [index, run] of runs.entries()) {
+      const execution: BacktestExecution = {
+        index,
+        at: run.at.toISOString(),
+        source: run.source,
+        trigger: run.trigger,
+        status: 'simulated',
+        gasUsed: 0,
+        cumulativeGas: report.totalGas,
+        balanceChanges: [],
+        events: [],
+        errors: [],
+        warnings: []
+      }
+      report.executions.push(execution)
+
+      const spentToday = spent.filter(entry => entry.at > run.at.getTime() - DAY_MS)
+      const policy = agent.policy ? evaluateAgentPolicy(agent.policy, workflow, spentToday) : null
+      if (policy && !policy.allowed) {
+        execution.status = 'blocked'
+        execution.errors = policy.violations.map(violation => violation.message)
+        report.pausedAt = execution.at
+        report.pauseReason = execution.errors.join('; ')
+        return
+      }
+
+      let result: Awaited<ReturnType<BacktestSimulator['simulateWorkflow']>>
+      try {
+        result = await simulator.simulateWorkflow(workflow, this.actionMetadata, { dryRun: true })
+      } catch (error) {
+        throw new AgentBacktestError(
+          `Could not simulate run ${index}: ${error instanceof Error ? error.message : error}`,
+          'SIMULATOR_UNAVAILABLE'
+        )
+      }
+      execution.status = result.success ? 'simulated' : 'failed'
+      execution.gasUsed = result.gasUsed
+      execution.balanceChanges = result.balanceChanges
+      execution.events = result.events.map(event => event.type)
+      execution.errors = result.errors.map(error => error.message)
+      execution.warnings = result.warnings
+
+      report.totalGas += result.gasUsed
+      execution.cumulativeGas = report.totalGas
+      if (!result.success) continue
+
+      spent.push(...(policy?.spends || []).map(spend => ({ ...spend, at: run.at.getTime() })))
+      for (const change of result.balanceChanges) {
+        const key = `${change.address}:${change.token}`
+        const amount = Number.isFinite(change.amount) ? change.amount : Number(change.after) - Number(change.before)
+        const balance = (balances.get(key) ?? Number(change.before)) + amount
+        balances.set(key, balance)
+        report.balanceTrajectory.push({
+          at: execution.at,
+          executionIndex: index,
+          address: change.address,
+          token: change.token,
+          balance,
+          change: amount
+        })
+      }
+    }
+  }
+
+  /**
+   * Fire times of the agent's value triggers over the window
+   */
+  private async replayTriggers(agent: Agent, options: BacktestOptions, warnings: string[]): Promise<PlannedRun[]> {
+    const runs: PlannedRun[] = []
+
+    for (const [index, trigger] of agent.triggers.entries()) {
+      if (!VALUE_TRIGGER_TYPES.includes(trigger.type) || !trigger.condition) {
+        warnings.push(`Trigger ${index} (${trigger.type}) is not replayed in backtests`)
+        continue
+      }
+
+      let readings: BacktestReading[]
+      try {
+        readings = await this.loadReadings(trigger, index, options)
+      } catch (error) {
+        // Oracle errors are written for users; anything else stays in the log
+        if (!(error instanceof OracleError)) console.error(`Backtest readings for trigger ${index} failed:`, error)
+        warnings.push(`Trigger ${index} (${trigger.type}) readings could not be loaded${error instanceof OracleError ? `: ${error.message}` : ''}`)
+        continue
+      }
+      if (readings.length === 0) {
+        warnings.push(`Trigger ${index} (${trigger.type}) has no readings in the window`)
+        continue
+      }
+
+      const state: TriggerEdgeState = { conditionMet: false, pendingSince: null }
+      for (const reading of readings) {
+        const at = new Date(reading.timestamp)
+        if (advanceTriggerState(state, trigger.condition, reading.value, at)) {
+          runs.push({ at, source: 'trigger', trigger: { index, type: trigger.type, value: reading.value } })
+        }
+      }
+    }
+    return runs
+  }
+
+  private async loadReadings(trigger: EventTrigger, index: number, options: BacktestOptions): Promise<BacktestReading[]> {
+    const { from, to } = options
+    let readings: BacktestReading[]
+
+    if (options.readings?.[index]) {
+      readings = options.readings[index]
+    } else if (trigger.oracle?.type === 'fixture') {
+      const entries = await new FixtureOracleAdapter(trigger.oracle).loadReadings()
+      // Untimed fixture readings are spread evenly over the window
+      const step = (to.getTime() - from.getTime()) / Math.max(entries.length - 1, 1)
+      readings = entries.map((entry, position) => {
+        const reading = typeof entry === 'number' ? { value: entry } : entry
+        return {
+          value: Number(reading.value),
+          timestamp: reading.timestamp || new Date(from.getTime() + position * step).toISOString()
+        }
+      })
+    } else if (trigger.oracle) {
+      readings = await this.store.listOracleReadings(createOracleAdapter(trigger.oracle).id, from, to)
+    } else {
+      return []
+    }
+
+    return readings
+      .filter(reading => {
+        const at = new Date(reading.timestamp)
+        return Number.isFinite(reading.value) && at >= from && at <= to
+      })
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+  }
+}
+
+/**
+ * Emulator for backtests. FLOW_BACKTEST_MODE=emulator (the default) starts
+ * a private `flow emulator` per backtest, on ports clear of a local
+ * emulator on the defaults; `mock` estimates against a running emulator.
+ */
+export function createBacktestSimulatorFromEnv(
+  env: Record<string, string | undefined> = process.env
+): FlowEmulatorService {
+  if (env.FLOW_BACKTEST_MODE === 'mock') {
+    return new FlowEmulatorService({ mode: 'mock' })
+  }
+  return new FlowEmulatorService({ mode: 'emulator', restPort: 8878, grpcPort: 3589, adminPort: 8070 })
+}
+
+/**
+ * Default agent backtest service instance (lazy-loaded)
+ */
+let _defaultAgentBacktestService: AgentBacktestService | null = null
+export const getDefaultAgentBacktestService = (): AgentBacktestService => {
+  if (!_defaultAgentBacktestService) {
+    _defaultAgentBacktestService = new AgentBacktestService()
+  }
+  return _defaultAgentBacktestService
+}
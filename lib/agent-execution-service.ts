@@ -1,9 +1,44 @@
 import { 
   Agent, 
+  AgentStatus,
   RetryPolicy, 
-  NotificationConfig,
   ExecutionResult
 } from './types'
+import {
+  AgentExecutionError,
+  AgentTransactionPendingError,
+  getDefaultAgentWorkflowRunner,
+  type AgentWorkflowRunner
+} from './agent-workflow-runner'
+import { TransactionStatus } from './transaction-manager'
+import { AgentJob, AgentJobStore, getDefaultAgentJobStore } from './agent-job-store'
+import { AgentPolicyViolationError } from './agent-policy'
+import { ApprovalRequiredError } from './approval-service'
+import {
+  AgentNotificationService,
+  NotificationData,
+  NotificationDelivery,
+  NotificationEvent
+} from './agent-notification-service'
+
+/**
+ * Raised when another execution still holds the idempotency key, so the job
+ * fails rather than being marked completed without running
+ */
+export class ExecutionInProgressError extends Error {
+  constructor(message: string, public readonly executionId: string) {
+    super(message)
+    this.name = 'ExecutionInProgressError'
+  }
+}
+
+export interface AgentExecutionServiceOptions {
+  runner?: AgentWorkflowRunner
+  store?: AgentJobStore
+  notifier?: AgentNotificationService
+  workerId?: string
+  leaseMs?: number
+}
 
 /**
  * Agent Execution Monitoring and Error Handling Service
@@ -11,19 +46,43 @@ import {
  * Provides comprehensive execution tracking and error handling:
  * - Execution tracking with success/failure metrics
  * - Retry mechanisms with exponential backoff
- * - Notification system for Agent failures and successes
+ * - Notification system for Agent failures and successes, with each
+ *   delivery recorded on the execution
+ * - Real workflow execution through an AgentWorkflowRunner (the
+ *   environment-configured Flow runner unless one is injected)
+ * - Retries persisted as jobs in an AgentJobStore, and idempotency keys
+ *   that stop a redelivered job from executing twice. A run renews its
+ *   claim on the key while it executes; a redelivery that finds the key
+ *   still claimed fails instead of completing without running
+ * - Policy violations are not retried: the agent is paused in the store and
+ *   its owner notified, and paused or stopped agents are not executed
+ * - Run history persisted in the store, paged and filtered for the
+ *   executions API, with each run's retry chain
+ * - Runs held for approval are recorded as awaiting approval, without a
+ *   retry; approving them enqueues the run again
+ * - A transaction that was submitted but did not seal in time is never
+ *   retried; its Flow transaction ID is kept under the idempotency key
  * 
  * Requirements: 4.5, 4.6
  */
 export class AgentExecutionService {
   private executionHistory: Map<string, ExecutionRecord[]> = new Map()
   private activeExecutions: Map<string, ActiveExecution> = new Map()
-  private retryQueues: Map<string, RetryQueue> = new Map()
-  private notificationService: NotificationService
+  private notificationService: AgentNotificationService
   private metricsCollector: ExecutionMetricsCollector
-
-  constructor() {
-    this.notificationService = new NotificationService()
+  private runner: AgentWorkflowRunner | null
+  private store: AgentJobStore
+  private workerId: string
+  private leaseMs: number
+  private retryTimer: NodeJS.Timeout | null = null
+  private isProcessingRetries = false
+
+  constructor(options: AgentExecutionServiceOptions = {}) {
+    this.runner = options.runner || null
+    this.store = options.store || getDefaultAgentJobStore()
+    this.workerId = options.workerId || `executor_${process.pid}_${Math.random().toString(36).substring(2, 9)}`
+    this.leaseMs = options.leaseMs ?? 60000
+    this.notificationService = options.notifier || new AgentNotificationService({ store: this.store })
     this.metricsCollector = new ExecutionMetricsCollector()
     this.startRetryProcessor()
   }
@@ -31,10 +90,14 @@ export class AgentExecutionService {
   /**
    * Execute Agent Workflow
    * Requirement 4.5: Execution tracking with success/failure metrics
+   *
+   * With an idempotency key, an execution that already succeeded under the
+   * same key is returned instead of running the workflow again.
    */
   async executeAgent(
     agent: Agent, 
-    trigger?: { type: string; data?: any }
+    trigger?: { type: string; data?: any },
+    options: { idempotencyKey?: string; retryCount?: number } = {}
   ): Promise<ExecutionResult> {
     const executionId = this.generateExecutionId()
     const startTime = Date.now()
@@ -46,12 +109,26 @@ export class AgentExecutionService {
       startTime: new Date().toISOString(),
       status: 'running',
       trigger,
-      retryCount: 0,
+      idempotencyKey: options.idempotencyKey,
+      retryCount: options.retryCount ?? 0,
       maxRetries: this.getRetryPolicy(agent).maxRetries
     }
 
     this.activeExecutions.set(executionId, execution)
 
+    let skipped: ExecutionResult | null
+    try {
+      skipped = await this.checkBeforeRun(agent, executionId, options.idempotencyKey)
+    } catch (error) {
+      this.activeExecutions.delete(executionId)
+      throw error
+    }
+    if (skipped) {
+      this.activeExecutions.delete(executionId)
+      return skipped
+    }
+
+    const heartbeat = options.idempotencyKey ? this.renewClaim(options.idempotencyKey, executionId) : null
     try {
       console.log(`Starting execution ${executionId} for agent ${agent.id}`)
       
@@ -59,7 +136,7 @@ export class AgentExecutionService {
       const result = await this.executeWorkflow(agent, execution)
       
       // Record successful execution
-      await this.recordExecution(agent.id, {
+      const record: ExecutionRecord = {
         id: executionId,
         agentId: agent.id,
         startTime: execution.startTime,
@@ -68,12 +145,21 @@ export class AgentExecutionService {
         status: 'success',
         result,
         trigger,
+        idempotencyKey: execution.idempotencyKey,
         retryCount: execution.retryCount,
         error: null
-      })
+      }
+      await this.recordExecution(agent.id, record)
+      if (execution.idempotencyKey) {
+        await this.store.finishExecution(execution.idempotencyKey, 'success', result)
+      }
 
       // Send success notification if configured
-      await this.sendNotification(agent, 'success', { executionId, result })
+      await this.notifyAndRecord(agent, 'success', record, {
+        executionId,
+        transactionId: result.transactionId,
+        gasUsed: result.gasUsed
+      })
 
       // Update metrics
       this.metricsCollector.recordSuccess(agent.id, Date.now() - startTime)
@@ -87,10 +173,63 @@ export class AgentExecutionService {
       return await this.handleExecutionFailure(agent, execution, error as Error)
       
     } finally {
+      if (heartbeat) clearInterval(heartbeat)
       this.activeExecutions.delete(executionId)
     }
   }
 
+  /**
+   * Keep the execution's claim on its idempotency key while it runs
+   */
+  private renewClaim(idempotencyKey: string, executionId: string): NodeJS.Timeout {
+    return setInterval(() => {
+      this.store.extendExecutionLease(idempotencyKey, executionId, this.leaseMs).then(held => {
+        if (!held) console.warn(`Execution ${executionId} lost its claim on ${idempotencyKey}`)
+      }).catch(error => {
+        console.error(`Failed to renew the claim of execution ${executionId} on ${idempotencyKey}:`, error)
+      })
+    }, this.leaseMs / 2)
+  }
+
+  /**
+   * The result to return instead of running: for agents paused or stopped
+   * since the job was queued, and for idempotency keys that already succeeded
+   * or sent their transaction. Throws ExecutionInProgressError while another
+   * execution holds the key.
+   */
+  private async checkBeforeRun(
+    agent: Agent,
+    executionId: string,
+    idempotencyKey?: string
+  ): Promise<ExecutionResult | null> {
+    const stored = await this.store.getAgent(agent.id)
+    if (stored && (stored.status === AgentStatus.PAUSED || stored.status === AgentStatus.STOPPED)) {
+      console.log(`Skipping execution for agent ${agent.id}: agent is ${stored.status}`)
+      return { success: false, error: `Agent ${agent.id} is ${stored.status}`, executionTime: 0 }
+    }
+
+    if (idempotencyKey) {
+      const previous = await this.store.claimExecution(idempotencyKey, { executionId, agentId: agent.id }, this.leaseMs)
+      if (previous?.status === 'running' && !previous.transactionId) {
+        throw new ExecutionInProgressError(
+          `Execution ${previous.executionId} of ${idempotencyKey} is still running; its claim expires at ${previous.leaseExpiresAt}`,
+          previous.executionId
+        )
+      }
+      if (previous) {
+        console.log(`Skipping ${idempotencyKey}: already executed as ${previous.executionId}`)
+        return previous.result || {
+          success: false,
+          transactionId: previous.transactionId,
+          status: TransactionStatus.PENDING,
+          error: `Transaction ${previous.transactionId} of ${idempotencyKey} was already submitted; not sending it again`,
+          executionTime: 0
+        }
+      }
+    }
+    return null
+  }
+
   /**
    * Retry Mechanism with Exponential Backoff
    * Requirement 4.5: Retry mechanisms with exponential backoff
@@ -100,6 +239,10 @@ export class AgentExecutionService {
     execution: ActiveExecution, 
     error: Error
   ): Promise<ExecutionResult> {
+    if (error instanceof ApprovalRequiredError) {
+      return this.holdForApproval(agent, execution, error)
+    }
+
     const retryPolicy = this.getRetryPolicy(agent)
     
     // Record failed execution
@@ -110,8 +253,10 @@ export class AgentExecutionService {
       endTime: new Date().toISOString(),
       duration: Date.now() - new Date(execution.startTime).getTime(),
       status: 'failed',
-      result: null,
+      // A submitted but reverted transaction still has an ID and events
+      result: error instanceof AgentExecutionError ? error.result || null : null,
       trigger: execution.trigger,
+      idempotencyKey: execution.idempotencyKey,
       retryCount: execution.retryCount,
       error: {
         message: error.message,
@@ -120,11 +265,31 @@ export class AgentExecutionService {
       }
     }
 
+    const unconfirmed = error instanceof AgentTransactionPendingError
+
     await this.recordExecution(agent.id, executionRecord)
+    if (execution.idempotencyKey) {
+      await this.store.finishExecution(execution.idempotencyKey, unconfirmed ? 'submitted' : 'failed', executionRecord.result)
+    }
     this.metricsCollector.recordFailure(agent.id, executionRecord.duration)
 
-    // Check if we should retry
-    if (execution.retryCount < retryPolicy.maxRetries) {
+    // Retrying cannot fix a policy violation; pause until the owner acts
+    if (error instanceof AgentPolicyViolationError) {
+      await this.store.setAgentStatus(agent.id, AgentStatus.PAUSED, error.message)
+      await this.notifyAndRecord(agent, 'paused', executionRecord, {
+        executionId: execution.id,
+        error: error.message
+      })
+
+      return {
+        success: false,
+        error: `Agent paused: ${error.message}`,
+        executionTime: executionRecord.duration
+      }
+    }
+
+    // Check if we should retry; an unconfirmed transaction may still seal
+    if (!unconfirmed && execution.retryCount < retryPolicy.maxRetries) {
       await this.scheduleRetry(agent, execution, error)
       
       return {
@@ -134,8 +299,8 @@ export class AgentExecutionService {
       }
     } else {
       // Max retries exceeded, send failure notification
-      await this.sendNotification(agent, 'failure', { 
-        executionId: execution.id, 
+      await this.notifyAndRecord(agent, 'failure', executionRecord, {
+        executionId: execution.id,
         error: error.message,
         retryCount: execution.retryCount
       })
@@ -148,6 +313,45 @@ export class AgentExecutionService {
     }
   }
 
+  /**
+   * Record a run whose transaction waits for approval. It is neither a
+   * failure nor retried: the approval service enqueues it once approved.
+   */
+  private async holdForApproval(
+    agent: Agent,
+    execution: ActiveExecution,
+    error: ApprovalRequiredError
+  ): Promise<ExecutionResult> {
+    const record: ExecutionRecord = {
+      id: execution.id,
+      agentId: agent.id,
+      startTime: execution.startTime,
+      endTime: new Date().toISOString(),
+      duration: Date.now() - new Date(execution.startTime).getTime(),
+      status: 'awaiting-approval',
+      result: null,
+      trigger: execution.trigger,
+      idempotencyKey: execution.idempotencyKey,
+      retryCount: execution.retryCount,
+      error: {
+        message: error.message,
+        type: error.constructor.name
+      },
+      approvalId: error.approval.id
+    }
+
+    await this.recordExecution(agent.id, record)
+    if (execution.idempotencyKey) {
+      await this.store.finishExecution(execution.idempotencyKey, 'failed', null)
+    }
+
+    return {
+      success: false,
+      error: `Awaiting approval ${error.approval.id}`,
+      executionTime: record.duration
+    }
+  }
+
   private async scheduleRetry(
     agent: Agent, 
     execution: ActiveExecution, 
@@ -155,25 +359,32 @@ export class AgentExecutionService {
   ): Promise<void> {
     const retryPolicy = this.getRetryPolicy(agent)
     const delay = this.calculateRetryDelay(retryPolicy, execution.retryCount)
+    const retryCount = execution.retryCount + 1
+
+    // Retries of one run share its key, so each attempt is enqueued once
+    const rootKey = (execution.idempotencyKey || execution.id).replace(/:retry-\d+$/, '')
+
+    await this.store.enqueue({
+      kind: 'retry',
+      agent,
+      idempotencyKey: `${rootKey}:retry-${retryCount}`,
+      runAt: new Date(Date.now() + delay),
+      retryCount,
+      // The original trigger data (parameters, approvalId) carries over, so
+      // the retry runs the same transaction
+      trigger: {
+        type: 'retry',
+        data: {
+          ...execution.trigger?.data,
+          originalTrigger: execution.trigger?.data?.originalTrigger ?? execution.trigger?.type,
+          originalExecutionId: execution.id,
+          retryCount,
+          lastError: error.message
+        }
+      }
+    })
     
-    const retryItem: RetryItem = {
-      id: this.generateRetryId(),
-      agentId: agent.id,
-      originalExecutionId: execution.id,
-      scheduledTime: new Date(Date.now() + delay),
-      retryCount: execution.retryCount + 1,
-      lastError: error.message,
-      agent
-    }
-
-    // Add to retry queue
-    if (!this.retryQueues.has(agent.id)) {
-      this.retryQueues.set(agent.id, { items: [], isProcessing: false })
-    }
-
-    this.retryQueues.get(agent.id)!.items.push(retryItem)
-    
-    console.log(`Scheduled retry for agent ${agent.id} in ${delay}ms (attempt ${retryItem.retryCount})`)
+    console.log(`Scheduled retry for agent ${agent.id} in ${delay}ms (attempt ${retryCount})`)
   }
 
   private calculateRetryDelay(retryPolicy: RetryPolicy, retryCount: number): number {
@@ -204,75 +415,54 @@ export class AgentExecutionService {
    */
   private startRetryProcessor(): void {
     // Process retry queues every 5 seconds
-    setInterval(() => {
+    this.retryTimer = setInterval(() => {
       this.processRetryQueues()
     }, 5000)
   }
 
   private async processRetryQueues(): Promise<void> {
-    const now = new Date()
-
-    for (const [agentId, queue] of this.retryQueues) {
-      if (queue.isProcessing) continue
+    if (this.isProcessingRetries) return
+    this.isProcessingRetries = true
 
-      const readyItems = queue.items.filter(item => item.scheduledTime <= now)
-      
-      if (readyItems.length > 0) {
-        queue.isProcessing = true
-        
-        try {
-          for (const item of readyItems) {
-            await this.processRetryItem(item)
-            // Remove processed item from queue
-            queue.items = queue.items.filter(i => i.id !== item.id)
-          }
-        } finally {
-          queue.isProcessing = false
-        }
+    try {
+      const jobs = await this.store.lease(this.workerId, { kinds: ['retry'], leaseMs: this.leaseMs })
+      for (const job of jobs) {
+        await this.store.runLeased(job, this.workerId, leased => this.processRetryItem(leased), this.leaseMs)
       }
+    } catch (error) {
+      console.error('Failed to process agent retries:', error)
+    } finally {
+      this.isProcessingRetries = false
     }
   }
 
-  private async processRetryItem(item: RetryItem): Promise<void> {
-    console.log(`Processing retry for agent ${item.agentId} (attempt ${item.retryCount})`)
+  private async processRetryItem(job: AgentJob): Promise<void> {
+    console.log(`Processing retry for agent ${job.agentId} (attempt ${job.retryCount})`)
     
-    try {
-      // Execute the agent with retry context
-      await this.executeAgent(item.agent, { 
-        type: 'retry', 
-        data: { 
-          originalExecutionId: item.originalExecutionId,
-          retryCount: item.retryCount 
-        }
-      })
-    } catch (error) {
-      console.error(`Retry execution failed for agent ${item.agentId}:`, error)
-    }
+    // Execute the agent with retry context
+    await this.executeAgent(job.agent, job.trigger, {
+      idempotencyKey: job.idempotencyKey,
+      retryCount: job.retryCount
+    })
   }
 
   /**
-   * Workflow Execution (Simulated)
+   * Workflow Execution
    */
   private async executeWorkflow(agent: Agent, execution: ActiveExecution): Promise<ExecutionResult> {
-    // Simulate workflow execution
     console.log(`Executing workflow ${agent.workflowId} for agent ${agent.id}`)
-    
-    // Simulate execution time
-    const executionTime = Math.random() * 2000 + 500 // 500-2500ms
-    await new Promise(resolve => setTimeout(resolve, executionTime))
-    
-    // Simulate occasional failures for testing
-    if (Math.random() < 0.1) { // 10% failure rate
-      throw new Error('Simulated workflow execution failure')
-    }
 
-    return {
-      success: true,
-      transactionId: `tx_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      status: 'completed',
-      executionTime: Math.round(executionTime),
-      gasUsed: Math.floor(Math.random() * 1000) + 100
-    }
+    // Resolved per run so a missing service account fails the execution, not startup
+    const runner = this.runner || getDefaultAgentWorkflowRunner()
+    const idempotencyKey = execution.idempotencyKey
+    return runner.run(agent, {
+      executionId: execution.id,
+      idempotencyKey,
+      trigger: execution.trigger,
+      ...(idempotencyKey && {
+        onSubmitted: (transactionId: string) => this.store.recordSubmission(idempotencyKey, transactionId)
+      })
+    })
   }
 
   /**
@@ -291,6 +481,7 @@ export class AgentExecutionService {
     if (history.length > 100) {
       history.splice(0, history.length - 100)
     }
+    await this.store.saveExecutionRecord(record)
   }
 
   getExecutionHistory(agentId: string, limit = 50): ExecutionRecord[] {
@@ -298,6 +489,50 @@ export class AgentExecutionService {
     return history.slice(-limit).reverse() // Most recent first
   }
 
+  /**
+   * A page of the agent's persisted runs, most recent first
+   */
+  async queryExecutions(agentId: string, query: ExecutionHistoryQuery = {}): Promise<ExecutionHistoryPage> {
+    const offset = query.offset ?? 0
+    const limit = query.limit ?? 20
+    const records = await this.store.listExecutionRecords(agentId, {
+      statuses: query.status ? [query.status] : undefined,
+      from: query.from,
+      to: query.to
+    })
+
+    return {
+      executions: records.slice(offset, offset + limit).map(summarizeExecution),
+      total: records.length,
+      offset,
+      limit
+    }
+  }
+
+  /**
+   * One persisted run with every attempt of it. Retries share the first
+   * attempt's idempotency key with a ":retry-N" suffix.
+   */
+  async getExecutionDetail(agentId: string, executionId: string): Promise<ExecutionDetail | null> {
+    const record = await this.store.getExecutionRecord(agentId, executionId)
+    if (!record) return null
+
+    const rootKey = getRootKey(record)
+    const attempts = await this.store.listExecutionRecords(agentId)
+    const nextRetry = (await this.store.listJobs({ agentId, kinds: ['retry'], statuses: ['pending', 'leased'] }))
+      .filter(job => getRootKey({ id: '', idempotencyKey: job.idempotencyKey }) === rootKey)
+      .sort((a, b) => b.retryCount - a.retryCount)[0]
+
+    return {
+      ...record,
+      retryChain: attempts
+        .filter(attempt => getRootKey(attempt) === rootKey)
+        .sort((a, b) => a.retryCount - b.retryCount)
+        .map(summarizeExecution),
+      ...(nextRetry && { nextRetry: { runAt: nextRetry.runAt, retryCount: nextRetry.retryCount } })
+    }
+  }
+
   getExecutionMetrics(agentId: string): ExecutionMetrics {
     return this.metricsCollector.getMetrics(agentId)
   }
@@ -317,18 +552,26 @@ export class AgentExecutionService {
    */
   private async sendNotification(
     agent: Agent, 
-    type: 'success' | 'failure', 
-    data: any
-  ): Promise<void> {
-    // In a real implementation, this would get notification config from agent or user settings
-    const notificationConfig: NotificationConfig = {
-      email: 'user@example.com', // Would be retrieved from user settings
-      webhook: undefined,
-      discord: undefined,
-      slack: undefined
+    type: NotificationEvent, 
+    data: NotificationData
+  ): Promise<NotificationDelivery[]> {
+    try {
+      return await this.notificationService.notify(agent, type, data)
+    } catch (error) {
+      // A notification problem must not change the execution's outcome
+      console.error(`Failed to send ${type} notification for agent ${agent.id}:`, error)
+      return []
     }
+  }
 
-    await this.notificationService.send(agent, type, data, notificationConfig)
+  private async notifyAndRecord(
+    agent: Agent,
+    type: NotificationEvent,
+    record: ExecutionRecord,
+    data: NotificationData
+  ): Promise<void> {
+    record.notifications = await this.sendNotification(agent, type, data)
+    await this.store.saveExecutionRecord(record)
   }
 
   /**
@@ -348,92 +591,37 @@ export class AgentExecutionService {
     return `exec_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
   }
 
-  private generateRetryId(): string {
-    return `retry_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-  }
-
   /**
    * Cleanup
    */
   destroy(): void {
+    if (this.retryTimer) {
+      clearInterval(this.retryTimer)
+      this.retryTimer = null
+    }
     this.executionHistory.clear()
     this.activeExecutions.clear()
-    this.retryQueues.clear()
   }
 }
 
-/**
- * Notification Service
- * Requirement 4.6: Notification system for Agent failures and successes
- */
-class NotificationService {
-  async send(
-    agent: Agent, 
-    type: 'success' | 'failure', 
-    data: any, 
-    config: NotificationConfig
-  ): Promise<void> {
-    const message = this.formatMessage(agent, type, data)
-
-    // Send email notification
-    if (config.email) {
-      await this.sendEmail(config.email, message, type)
-    }
-
-    // Send webhook notification
-    if (config.webhook) {
-      await this.sendWebhook(config.webhook, { agent, type, data, message })
-    }
-
-    // Send Discord notification
-    if (config.discord) {
-      await this.sendDiscord(config.discord, message)
-    }
-
-    // Send Slack notification
-    if (config.slack) {
-      await this.sendSlack(config.slack, message)
-    }
-  }
-
-  private formatMessage(agent: Agent, type: 'success' | 'failure', data: any): string {
-    const timestamp = new Date().toISOString()
-    
-    if (type === 'success') {
-      return `✅ Agent "${agent.name}" executed successfully at ${timestamp}\n` +
-             `Execution ID: ${data.executionId}\n` +
-             `Transaction ID: ${data.result?.transactionId || 'N/A'}\n` +
-             `Gas Used: ${data.result?.gasUsed || 'N/A'}`
-    } else {
-      return `❌ Agent "${agent.name}" execution failed at ${timestamp}\n` +
-             `Execution ID: ${data.executionId}\n` +
-             `Error: ${data.error}\n` +
-             `Retry Count: ${data.retryCount || 0}`
-    }
-  }
-
-  private async sendEmail(email: string, message: string, type: string): Promise<void> {
-    // Simulate email sending
-    console.log(`📧 Email notification sent to ${email}:`, message)
-    await new Promise(resolve => setTimeout(resolve, 100))
-  }
-
-  private async sendWebhook(url: string, payload: any): Promise<void> {
-    // Simulate webhook sending
-    console.log(`🔗 Webhook notification sent to ${url}:`, payload)
-    await new Promise(resolve => setTimeout(resolve, 100))
-  }
-
-  private async sendDiscord(webhookUrl: string, message: string): Promise<void> {
-    // Simulate Discord notification
-    console.log(`💬 Discord notification sent:`, message)
-    await new Promise(resolve => setTimeout(resolve, 100))
-  }
+function getRootKey(record: Pick<ExecutionRecord, 'id' | 'idempotencyKey'>): string {
+  return (record.idempotencyKey || record.id).replace(/:retry-\d+$/, '')
+}
 
-  private async sendSlack(webhookUrl: string, message: string): Promise<void> {
-    // Simulate Slack notification
-    console.log(`📱 Slack notification sent:`, message)
-    await new Promise(resolve => setTimeout(resolve, 100))
+function summarizeExecution(record: ExecutionRecord): ExecutionSummary {
+  return {
+    id: record.id,
+    agentId: record.agentId,
+    startTime: record.startTime,
+    endTime: record.endTime,
+    duration: record.duration,
+    status: record.status,
+    triggerType: record.trigger?.type,
+    retryCount: record.retryCount,
+    transactionId: record.result?.transactionId,
+    gasUsed: record.result?.gasUsed,
+    error: record.error?.message,
+    ...(record.approvalId && { approvalId: record.approvalId })
   }
 }
 
@@ -497,15 +685,56 @@ export interface ExecutionRecord {
   startTime: string
   endTime: string
   duration: number // milliseconds
-  status: 'success' | 'failed'
+  status: 'success' | 'failed' | 'awaiting-approval'
   result: ExecutionResult | null
   trigger?: { type: string; data?: any }
+  idempotencyKey?: string
   retryCount: number
   error: {
     message: string
     stack?: string
     type: string
   } | null
+  notifications?: NotificationDelivery[]
+  approvalId?: string // The request a held run waits for
+}
+
+export interface ExecutionHistoryQuery {
+  status?: ExecutionRecord['status']
+  from?: Date // On or after, by start time
+  to?: Date
+  offset?: number
+  limit?: number // Default 20
+}
+
+/**
+ * A run as listed in the history, without its Cadence code or events
+ */
+export interface ExecutionSummary {
+  id: string
+  agentId: string
+  startTime: string
+  endTime: string
+  duration: number
+  status: ExecutionRecord['status']
+  triggerType?: string
+  retryCount: number
+  transactionId?: string
+  gasUsed?: number
+  error?: string
+  approvalId?: string
+}
+
+export interface ExecutionHistoryPage {
+  executions: ExecutionSummary[]
+  total: number
+  offset: number
+  limit: number
+}
+
+export interface ExecutionDetail extends ExecutionRecord {
+  retryChain: ExecutionSummary[] // Every attempt of this run, first attempt first
+  nextRetry?: { runAt: string; retryCount: number } // A retry still queued
 }
 
 export interface ActiveExecution {
@@ -514,6 +743,7 @@ export interface ActiveExecution {
   startTime: string
   status: 'running' | 'completed' | 'failed'
   trigger?: { type: string; data?: any }
+  idempotencyKey?: string
   retryCount: number
   maxRetries: number
 }
@@ -531,20 +761,5 @@ export interface ExecutionMetrics {
   uptime: number // seconds
 }
 
-export interface RetryQueue {
-  items: RetryItem[]
-  isProcessing: boolean
-}
-
-export interface RetryItem {
-  id: string
-  agentId: string
-  originalExecutionId: string
-  scheduledTime: Date
-  retryCount: number
-  lastError: string
-  agent: Agent
-}
-
 // Export singleton instance
 export const agentExecutionService = new AgentExecutionService()
\ No newline at end of file
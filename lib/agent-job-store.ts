@@ -0,0 +1,1013 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import type { Agent, AgentStatus, ExecutionResult, NotificationConfig } from './types'
+import type { NotificationAttempt, NotificationChannel, NotificationMessage } from './agent-notification-service'
+import type { OracleReading } from './oracle-adapter'
+import type { ExecutionRecord } from './agent-execution-service'
+import type { ApprovalPolicy, ApprovalRequest } from './approval-service'
+
+/**
+ * Agent Job Store
+ *
+ * Durable state behind agent scheduling and execution, so a restart does not
+ * drop scheduled agents or pending retries:
+ * - Pluggable storage adapters (file-backed by default, in-memory for tests)
+ * - Jobs are leased to one worker at a time; a job whose lease runs out
+ *   without being completed is handed out again (at-least-once delivery)
+ * - Idempotency keys deduplicate jobs and record each execution's outcome,
+ *   so a redelivered job does not submit a transaction that already sealed;
+ *   an execution holds its key under a lease, and one that stopped renewing
+ *   it before sending a transaction can be claimed again
+ * - Finished jobs and ledger entries are pruned once past their retention
+ * - Persisted agent records for AgentManagementService
+ * - Each agent's run history, kept across restarts for the executions API
+ * - Dead-lettered notifications kept for inspection and redelivery
+ * - Block-height checkpoints of on-chain event subscriptions
+ * - A spending ledger of what each agent's runs moved or have reserved,
+ *   for daily limits
+ * - A week of oracle readings per source, sampled once a minute, for
+ *   backtesting triggers against recorded prices and balances
+ * - Run history and oracle readings are logs kept apart from the job state,
+ *   so frequent job updates do not rewrite them
+ * - Approval requests for risky transactions, with their decisions and
+ *   audit trail, and the approval policy of each workflow
+ */
+
+export type AgentJobKind = 'schedule' | 'trigger' | 'retry'
+
+export type AgentJobStatus = 'pending' | 'leased' | 'completed' | 'failed' | 'cancelled'
+
+export interface AgentJob {
+  id: string
+  kind: AgentJobKind
+  agentId: string
+  agent: Agent  // snapshot taken when the job was enqueued
+  idempotencyKey: string
+  runAt: string
+  status: AgentJobStatus
+  trigger?: { type: string; data?: any }
+  retryCount: number
+  deliveries: number
+  maxDeliveries: number
+  leaseOwner?: string
+  leaseExpiresAt?: string
+  followUpJobId?: string  // next occurrence of a recurring schedule
+  lastError?: string
+  createdAt: string
+  updatedAt: string
+  finishedAt?: string
+}
+
+export interface EnqueueAgentJobInput {
+  kind: AgentJobKind
+  agent: Agent
+  idempotencyKey: string
+  runAt: Date
+  trigger?: { type: string; data?: any }
+  retryCount?: number
+  maxDeliveries?: number
+}
+
+export interface ExecutionLedgerEntry {
+  idempotencyKey: string
+  executionId: string
+  agentId: string
+  // submitted: sent to Flow, outcome unknown
+  status: 'running' | 'success' | 'failed' | 'submitted'
+  result: ExecutionResult | null
+  transactionId?: string // Set once the run's transaction was sent to Flow
+  leaseExpiresAt?: string // While running; renewed by the executing process
+  startedAt: string
+  finishedAt?: string
+}
+
+/**
+ * A notification that could not be delivered after all attempts
+ */
+export interface NotificationDeadLetter {
+  id: string
+  agentId: string
+  channel: NotificationChannel
+  target: string
+  message: NotificationMessage
+  config: NotificationConfig
+  attempts: NotificationAttempt[]
+  createdAt: string
+  updatedAt: string
+}
+
+/**
+ * Last block scanned for one on-chain event subscription
+ */
+export interface EventCheckpoint {
+  subscriptionId: string
+  agentId: string
+  height: number
+  updatedAt: string
+}
+
+/**
+ * Token amount moved by one sealed agent run
+ */
+export interface SpendRecord {
+  agentId: string
+  executionId: string
+  token: string
+  amount: number
+  recordedAt: string
+}
+
+export interface AgentJobState {
+  agents: Record<string, Agent>
+  jobs: Record<string, AgentJob>
+  executions: Record<string, ExecutionLedgerEntry>
+  deadLetters: Record<string, NotificationDeadLetter>
+  checkpoints: Record<string, EventCheckpoint>
+  spending: SpendRecord[]
+  approvals: Record<string, ApprovalRequest>
+  approvalPolicies: Record<string, ApprovalPolicy> // By workflow ID
+}
+
+/**
+ * Records that grow with every run or reading, stored apart from the state
+ */
+export interface AgentJobLogs {
+  history: Record<string, ExecutionRecord[]> // By agent ID, oldest first
+  oracleReadings: Record<string, OracleReading[]> // By oracle adapter ID, oldest first
+}
+
+export type AgentJobLogName = keyof AgentJobLogs
+
+/**
+ * Storage adapter interface for dependency injection and testing. `update`
+ * and `updateLog` must apply the mutation atomically with respect to other
+ * updates of the same state or log.
+ */
+export interface AgentJobStoreAdapter {
+  read(): Promise<AgentJobState>
+  update<T>(mutate: (state: AgentJobState) => T): Promise<T>
+  readLog<K extends AgentJobLogName>(log: K): Promise<AgentJobLogs[K]>
+  updateLog<K extends AgentJobLogName, T>(log: K, mutate: (entries: AgentJobLogs[K]) => T): Promise<T>
+}
+
+export class AgentJobStoreError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AgentJobStoreError'
+  }
+}
+
+const emptyState = (): AgentJobState => ({ agents: {}, jobs: {}, executions: {}, deadLetters: {}, checkpoints: {}, spending: [], approvals: {}, approvalPolicies: {} })
+
+const emptyLogs = (): AgentJobLogs => ({ history: {}, oracleReadings: {} })
+
+// Daily limits look back 24 hours; a week is kept for reviewing runs
+const SPENDING_RETENTION_MS = 7 * 24 * 60 * 60 * 1000
+
+// Records carry their Cadence code, so the history of each agent is capped
+const EXECUTION_HISTORY_LIMIT = 500
+
+const ORACLE_HISTORY_RETENTION_MS = 7 * 24 * 60 * 60 * 1000
+const ORACLE_HISTORY_INTERVAL_MS = 60 * 1000
+
+/**
+ * In-memory storage adapter for development/testing
+ */
+export class InMemoryAgentJobStoreAdapter implements AgentJobStoreAdapter {
+  private state: AgentJobState = emptyState()
+  private logs: AgentJobLogs = emptyLogs()
+
+  async read(): Promise<AgentJobState> {
+    return clone(this.state)
+  }
+
+  async update<T>(mutate: (state: AgentJobState) => T): Promise<T> {
+    // Mutate a copy so a throwing mutation leaves the state untouched
+    const next = clone(this.state)
+    const result = mutate(next)
+    this.state = next
+    return clone(result)
+  }
+
+  async readLog<K extends AgentJobLogName>(log: K): Promise<AgentJobLogs[K]> {
+    return clone(this.logs[log])
+  }
+
+  async updateLog<K extends AgentJobLogName, T>(log: K, mutate: (entries: AgentJobLogs[K]) => T): Promise<T> {
+    const next = clone(this.logs[log])
+    const result = mutate(next)
+    this.logs[log] = next
+    return clone(result)
+  }
+}
+
+const LOG_FILES: Record<AgentJobLogName, string> = {
+  history: 'agent-history.json',
+  oracleReadings: 'oracle-readings.json'
+}
+
+/**
+ * File-backed storage adapter
+ *
+ * Keeps the state in <baseDir>/agent-jobs.json and each log in a file of its
+ * own (agent-history.json, oracle-readings.json). Updates hold an exclusive
+ * lock file per file so several server processes can share one store, and
+ * write through a temp file so a crash never leaves a truncated state.
+ */
+export class FileAgentJobStoreAdapter implements AgentJobStoreAdapter {
+  private readonly stateFile: JsonFile<AgentJobState>
+  private readonly logFiles: { [K in AgentJobLogName]: JsonFile<AgentJobLogs[K]> }
+
+  constructor(baseDir: string, options: { lockTimeout?: number; staleLockAge?: number } = {}) {
+    this.stateFile = new JsonFile(baseDir, 'agent-jobs.json', emptyState, options)
+    this.logFiles = {
+      history: new JsonFile(baseDir, LOG_FILES.history, () => emptyLogs().history, options),
+      oracleReadings: new JsonFile(baseDir, LOG_FILES.oracleReadings, () => emptyLogs().oracleReadings, options)
+    }
+  }
+
+  read(): Promise<AgentJobState> {
+    return this.stateFile.read()
+  }
+
+  update<T>(mutate: (state: AgentJobState) => T): Promise<T> {
+    return this.stateFile.update(mutate)
+  }
+
+  readLog<K extends AgentJobLogName>(log: K): Promise<AgentJobLogs[K]> {
+    return (this.logFiles[log] as JsonFile<AgentJobLogs[K]>).read()
+  }
+
+  updateLog<K extends AgentJobLogName, T>(log: K, mutate: (entries: AgentJobLogs[K]) => T): Promise<T> {
+    return (this.logFiles[log] as JsonFile<AgentJobLogs[K]>).update(mutate)
+  }
+}
+
+/**
+ * One JSON document on disk, updated under a lock file
+ */
+class JsonFile<S extends object> {
+  private queue: Promise<unknown> = Promise.resolve()
+  private readonly filePath: string
+  private readonly lockPath: string
+
+  constructor(
+    private readonly baseDir: string,
+    fileName: string,
+    private readonly empty: () => S,
+    private readonly options: { lockTimeout?: number; staleLockAge?: number }
+  ) {
+    this.filePath = path.join(baseDir, fileName)
+    this.lockPath = `${this.filePath}.lock`
+  }
+
+  async read(): Promise<S> {
+    try {
+      return { ...this.empty(), ...JSON.parse(await fs.readFile(this.filePath, 'utf8')) }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException)?.code === 'ENOENT') return this.empty()
+      throw error
+    }
+  }
+
+  async update<T>(mutate: (state: S) => T): Promise<T> {
+    // Serialize updates from this process before contending for the file lock
+    const run = this.queue.then(() => this.withLock(async () => {
+      const state = await this.read()
+      const result = mutate(state)
+
+      const tempPath = `${this.filePath}.${process.pid}.tmp`
+      await fs.writeFile(tempPath, JSON.stringify(state), 'utf8')
+      await fs.rename(tempPath, this.filePath)
+      return result
+    }))
+    this.queue = run.catch(() => {})
+    return run
+  }
+
+  private async withLock<T>(action: () => Promise<T>): Promise<T> {
+    const lockTimeout = this.options.lockTimeout ?? 10000
+    const staleLockAge = this.options.staleLockAge ?? 30000
+    const deadline = Date.now() + lockTimeout
+    await fs.mkdir(this.baseDir, { recursive: true })
+
+    for (;;) {
+      try {
+        await (await fs.open(this.lockPath, 'wx')).close()
+        break
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error
+
+        // A lock this old was left behind by a process that crashed mid-update
+        const stat = await fs.stat(this.lockPath).catch(() => null)
+        if (stat && Date.now() - stat.mtimeMs > staleLockAge) {
+          await fs.rm(this.lockPath, { force: true })
+          continue
+        }
+        if (Date.now() > deadline) {
+          throw new AgentJobStoreError(`Timed out waiting for the agent job store lock at ${this.lockPath}`)
+        }
+        await new Promise(resolve => setTimeout(resolve, 25))
+      }
+    }
+
+    try {
+      return await action()
+    } finally {
+      await fs.rm(this.lockPath, { force: true })
+    }
+  }
+}
+
+const TERMINAL_STATUSES: AgentJobStatus[] = ['completed', 'failed', 'cancelled']
+
+/**
+ * Agent job store with leasing, idempotency and persisted agents
+ */
+export class AgentJobStore {
+  constructor(private readonly adapter: AgentJobStoreAdapter) {}
+
+  /**
+   * Agent Records
+   */
+  async saveAgent(agent: Agent): Promise<void> {
+    await this.adapter.update(state => {
+      state.agents[agent.id] = clone(agent)
+    })
+  }
+
+  async getAgent(agentId: string): Promise<Agent | null> {
+    return (await this.adapter.read()).agents[agentId] || null
+  }
+
+  async listAgents(): Promise<Agent[]> {
+    return Object.values((await this.adapter.read()).agents)
+  }
+
+  /**
+   * Change a persisted agent's status, e.g. to pause it from the executor
+   */
+  async setAgentStatus(agentId: string, status: AgentStatus, reason?: string): Promise<Agent | null> {
+    return this.adapter.update(state => {
+      const agent = state.agents[agentId]
+      if (!agent) return null
+      agent.status = status
+      agent.statusReason = reason
+      agent.updatedAt = new Date().toISOString()
+      return agent
+    })
+  }
+
+  /**
+   * Delete an agent record, cancel its pending jobs and drop its event
+   * checkpoints
+   */
+  async deleteAgent(agentId: string): Promise<boolean> {
+    const existed = await this.adapter.update(state => {
+      const existed = agentId in state.agents
+      delete state.agents[agentId]
+      cancelJobs(state, job => job.agentId === agentId)
+      for (const checkpoint of Object.values(state.checkpoints)) {
+        if (checkpoint.agentId === agentId) delete state.checkpoints[checkpoint.subscriptionId]
+      }
+      state.spending = state.spending.filter(record => record.agentId !== agentId)
+      return existed
+    })
+    await this.adapter.updateLog('history', history => {
+      delete history[agentId]
+    })
+    return existed
+  }
+
+  /**
+   * Jobs
+   *
+   * Enqueueing a key that is already queued or finished returns the existing
+   * job instead of adding a duplicate. A cancelled job is revived.
+   */
+  async enqueue(input: EnqueueAgentJobInput): Promise<AgentJob> {
+    return this.adapter.update(state => enqueueJob(state, input))
+  }
+
+  /**
+   * Cancel the agent's pending jobs of the input's kind and enqueue the input
+   * in their place, in one update
+   */
+  async replaceAgentJob(input: EnqueueAgentJobInput): Promise<AgentJob> {
+    return this.adapter.update(state => {
+      cancelJobs(state, job => job.agentId === input.agent.id && job.kind === input.kind)
+      return enqueueJob(state, input)
+    })
+  }
+
+  async getJob(jobId: string): Promise<AgentJob | null> {
+    return (await this.adapter.read()).jobs[jobId] || null
+  }
+
+  async listJobs(filter: { agentId?: string; kinds?: AgentJobKind[]; statuses?: AgentJobStatus[] } = {}): Promise<AgentJob[]> {
+    return Object.values((await this.adapter.read()).jobs)
+      .filter(job => !filter.agentId || job.agentId === filter.agentId)
+      .filter(job => !filter.kinds || filter.kinds.includes(job.kind))
+      .filter(job => !filter.statuses || filter.statuses.includes(job.status))
+      .sort((a, b) => a.runAt.localeCompare(b.runAt))
+  }
+
+  /**
+   * Cancel an agent's pending and leased jobs, optionally only some kinds
+   */
+  async cancelAgentJobs(agentId: string, kinds?: AgentJobKind[]): Promise<number> {
+    return this.adapter.update(state =>
+      cancelJobs(state, job => job.agentId === agentId && (!kinds || kinds.includes(job.kind)))
+    )
+  }
+
+  /**
+   * Lease due jobs to a worker. Jobs whose lease expired are leased again;
+   * a job delivered maxDeliveries times without completing is marked failed.
+   */
+  async lease(
+    workerId: string,
+    options: { kinds?: AgentJobKind[]; leaseMs?: number; limit?: number; now?: Date } = {}
+  ): Promise<AgentJob[]> {
+    const now = options.now || new Date()
+    const leaseMs = options.leaseMs ?? 60000
+    const limit = options.limit ?? 10
+
+    return this.adapter.update(state => {
+      const due = Object.values(state.jobs)
+        .filter(job => !options.kinds || options.kinds.includes(job.kind))
+        .filter(job =>
+          (job.status === 'pending' && new Date(job.runAt) <= now) ||
+          (job.status === 'leased' && new Date(job.leaseExpiresAt!) <= now)
+        )
+        .sort((a, b) => a.runAt.localeCompare(b.runAt))
+
+      const leased: AgentJob[] = []
+      for (const job of due) {
+        if (leased.length >= limit) break
+
+        if (job.deliveries >= job.maxDeliveries) {
+          finishJob(job, 'failed', now, job.lastError || `Lease expired ${job.deliveries} times without completing`)
+          continue
+        }
+
+        job.status = 'leased'
+        job.leaseOwner = workerId
+        job.leaseExpiresAt = new Date(now.getTime() + leaseMs).toISOString()
+        job.deliveries++
+        job.updatedAt = now.toISOString()
+        leased.push(job)
+      }
+      return leased
+    })
+  }
+
+  /**
+   * Extend a lease the worker still holds. Returns false when it was lost.
+   */
+  async extendLease(jobId: string, workerId: string, leaseMs = 60000): Promise<boolean> {
+    return this.adapter.update(state => {
+      const job = state.jobs[jobId]
+      if (!job || job.status !== 'leased' || job.leaseOwner !== workerId) return false
+      job.leaseExpiresAt = new Date(Date.now() + leaseMs).toISOString()
+      return true
+    })
+  }
+
+  async complete(jobId: string, workerId: string): Promise<boolean> {
+    return this.finish(jobId, workerId, 'completed')
+  }
+
+  async fail(jobId: string, workerId: string, error: string): Promise<boolean> {
+    return this.finish(jobId, workerId, 'failed', error)
+  }
+
+  /**
+   * Enqueue the job that follows a leased one (the next occurrence of a
+   * schedule) exactly once, even if the leased job is delivered again
+   */
+  async enqueueFollowUp(jobId: string, input: EnqueueAgentJobInput): Promise<AgentJob> {
+    return this.adapter.update(state => {
+      const job = state.jobs[jobId]
+      if (!job) {
+        throw new AgentJobStoreError(`Job ${jobId} not found`)
+      }
+      const existing = job.followUpJobId && state.jobs[job.followUpJobId]
+      if (existing) return existing
+
+      const followUp = enqueueJob(state, input)
+      job.followUpJobId = followUp.id
+      return followUp
+    })
+  }
+
+  /**
+   * Run a leased job, renewing its lease while the handler runs, then mark
+   * it completed or failed
+   */
+  async runLeased(
+    job: AgentJob,
+    workerId: string,
+    handler: (job: AgentJob) => Promise<void>,
+    leaseMs = 60000
+  ): Promise<void> {
+    const heartbeat = setInterval(() => {
+      this.extendLease(job.id, workerId, leaseMs).catch(error => {
+        console.error(`Failed to extend lease on job ${job.id}:`, error)
+      })
+    }, leaseMs / 2)
+
+    try {
+      await handler(job)
+      await this.complete(job.id, workerId)
+    } catch (error) {
+      await this.fail(job.id, workerId, error instanceof Error ? error.message : String(error))
+    } finally {
+      clearInterval(heartbeat)
+    }
+  }
+
+  /**
+   * Remove finished jobs and execution ledger entries older than `before`,
+   * and oracle readings past their retention. Returns the number of jobs
+   * removed.
+   */
+  async prune(before: Date): Promise<number> {
+    const cutoff = Date.now() - ORACLE_HISTORY_RETENTION_MS
+    await this.adapter.updateLog('oracleReadings', readings => {
+      for (const [sourceId, history] of Object.entries(readings)) {
+        const kept = history.filter(entry => new Date(entry.timestamp).getTime() >= cutoff)
+        if (kept.length > 0) {
+          readings[sourceId] = kept
+        } else {
+          delete readings[sourceId]
+        }
+      }
+    })
+
+    return this.adapter.update(state => {
+      let removed = 0
+      for (const job of Object.values(state.jobs)) {
+        if (TERMINAL_STATUSES.includes(job.status) && job.finishedAt && new Date(job.finishedAt) < before) {
+          delete state.jobs[job.id]
+          removed++
+        }
+      }
+      for (const entry of Object.values(state.executions)) {
+        if (entry.finishedAt && new Date(entry.finishedAt) < before) {
+          delete state.executions[entry.idempotencyKey]
+        }
+      }
+      return removed
+    })
+  }
+
+  /**
+   * Execution Ledger
+   *
+   * Claim an idempotency key before executing. Returns the earlier execution
+   * when one already succeeded under this key, already sent its transaction
+   * to Flow, or is still running; otherwise records this one as running and
+   * returns null.
+   *
+   * A running execution holds the key for leaseMs and renews it with
+   * extendExecutionLease. Once the lease runs out, the process running it
+   * is taken to have died and the key can be claimed again, unless the run
+   * already recorded a transaction ID.
+   */
+  async claimExecution(
+    idempotencyKey: string,
+    execution: { executionId: string; agentId: string },
+    leaseMs = 60000
+  ): Promise<ExecutionLedgerEntry | null> {
+    return this.adapter.update(state => {
+      const now = new Date()
+      const existing = state.executions[idempotencyKey]
+      if (existing) {
+        const abandoned = existing.status === 'running' && !existing.transactionId && isExpired(existing.leaseExpiresAt, now)
+        const retryable = existing.status === 'failed' && !existing.transactionId
+        if (!abandoned && !retryable) return existing
+        if (abandoned) {
+          console.warn(`Reclaiming ${idempotencyKey}: execution ${existing.executionId} stopped renewing its lease`)
+        }
+      }
+
+      state.executions[idempotencyKey] = {
+        idempotencyKey,
+        executionId: execution.executionId,
+        agentId: execution.agentId,
+        status: 'running',
+        result: null,
+        leaseExpiresAt: new Date(now.getTime() + leaseMs).toISOString(),
+        startedAt: now.toISOString()
+      }
+      return null
+    })
+  }
+
+  /**
+   * Renew the lease of a running execution. Returns false when the key was
+   * claimed by another execution or has finished.
+   */
+  async extendExecutionLease(idempotencyKey: string, executionId: string, leaseMs = 60000): Promise<boolean> {
+    return this.adapter.update(state => {
+      const entry = state.executions[idempotencyKey]
+      if (!entry || entry.executionId !== executionId || entry.status !== 'running') return false
+      entry.leaseExpiresAt = new Date(Date.now() + leaseMs).toISOString()
+      return true
+    })
+  }
+
+  /**
+   * Record the Flow transaction ID of a running execution as soon as it is
+   * submitted, so the key is never submitted again
+   */
+  async recordSubmission(idempotencyKey: string, transactionId: string): Promise<void> {
+    await this.adapter.update(state => {
+      const entry = state.executions[idempotencyKey]
+      if (entry) entry.transactionId = transactionId
+    })
+  }
+
+  async finishExecution(
+    idempotencyKey: string,
+    status: 'success' | 'failed' | 'submitted',
+    result: ExecutionResult | null
+  ): Promise<void> {
+    await this.adapter.update(state => {
+      const entry = state.executions[idempotencyKey]
+      if (!entry) return
+      entry.status = status
+      entry.result = result
+      entry.leaseExpiresAt = undefined
+      entry.finishedAt = new Date().toISOString()
+    })
+  }
+
+  async getExecution(idempotencyKey: string): Promise<ExecutionLedgerEntry | null> {
+    return (await this.adapter.read()).executions[idempotencyKey] || null
+  }
+
+  /**
+   * Run History
+   *
+   * Saving a record with a known ID replaces it, so a record can be saved
+   * when the run ends and again once its notifications are delivered.
+   */
+  async saveExecutionRecord(record: ExecutionRecord): Promise<void> {
+    await this.adapter.updateLog('history', records => {
+      const history = records[record.agentId] || []
+      const index = history.findIndex(existing => existing.id === record.id)
+      if (index >= 0) {
+        history[index] = clone(record)
+      } else {
+        history.push(clone(record))
+      }
+      records[record.agentId] = history.slice(-EXECUTION_HISTORY_LIMIT)
+    })
+  }
+
+  /**
+   * An agent's runs, most recent first
+   */
+  async listExecutionRecords(
+    agentId: string,
+    filter: { statuses?: ExecutionRecord['status'][]; from?: Date; to?: Date } = {}
+  ): Promise<ExecutionRecord[]> {
+    return ((await this.adapter.readLog('history'))[agentId] || [])
+      .filter(record => !filter.statuses || filter.statuses.includes(record.status))
+      .filter(record => !filter.from || new Date(record.startTime) >= filter.from)
+      .filter(record => !filter.to || new Date(record.startTime) <= filter.to)
+      .reverse()
+  }
+
+  async getExecutionRecord(agentId: string, executionId: string): Promise<ExecutionRecord | null> {
+    return ((await this.adapter.readLog('history'))[agentId] || []).find(record => record.id === executionId) || null
+  }
+
+  /**
+   * Approvals
+   *
+   * At most one request is open per source key (an agent run or a submitted
+   * transaction); opening another returns the open one.
+   */
+  async openApproval(create: () => ApprovalRequest): Promise<{ approval: ApprovalRequest; created: boolean }> {
+    return this.adapter.update(state => {
+      const approval = create()
+      const open = Object.values(state.approvals).find(existing =>
+        existing.sourceKey === approval.sourceKey &&
+        existing.status === 'pending' &&
+        new Date(existing.expiresAt).getTime() > Date.now()
+      )
+      if (open) return { approval: open, created: false }
+
+      state.approvals[approval.id] = clone(approval)
+      return { approval, created: true }
+    })
+  }
+
+  /**
+   * Apply a change to one request atomically. Returns null for unknown IDs.
+   */
+  async updateApproval<T>(approvalId: string, mutate: (approval: ApprovalRequest) => T): Promise<{ approval: ApprovalRequest; result: T } | null> {
+    return this.adapter.update(state => {
+      const approval = state.approvals[approvalId]
+      if (!approval) return null
+      const result = mutate(approval)
+      return { approval, result }
+    })
+  }
+
+  /**
+   * Mark pending requests past their expiry as expired and return them
+   */
+  async expireApprovals(now = new Date()): Promise<ApprovalRequest[]> {
+    return this.adapter.update(state => {
+      const expired: ApprovalRequest[] = []
+      for (const approval of Object.values(state.approvals)) {
+        if (approval.status === 'pending' && new Date(approval.expiresAt) <= now) {
+          approval.status = 'expired'
+          approval.decidedAt = now.toISOString()
+          approval.audit.push({ at: now.toISOString(), actor: 'system', action: 'expired' })
+          expired.push(approval)
+        }
+      }
+      return expired
+    })
+  }
+
+  async getApproval(approvalId: string): Promise<ApprovalRequest | null> {
+    return (await this.adapter.read()).approvals[approvalId] || null
+  }
+
+  /**
+   * Requests, newest first
+   */
+  async listApprovals(
+    filter: { statuses?: ApprovalRequest['status'][]; workflowId?: string; agentId?: string; approver?: string } = {}
+  ): Promise<ApprovalRequest[]> {
+    return Object.values((await this.adapter.read()).approvals)
+      .filter(approval => !filter.statuses || filter.statuses.includes(approval.status))
+      .filter(approval => !filter.workflowId || approval.workflowId === filter.workflowId)
+      .filter(approval => !filter.agentId || approval.agentId === filter.agentId)
+      .filter(approval => !filter.approver || approval.approvers.includes(filter.approver))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+  }
+
+  async getApprovalPolicy(workflowId: string): Promise<ApprovalPolicy | null> {
+    return (await this.adapter.read()).approvalPolicies[workflowId] || null
+  }
+
+  async setApprovalPolicy(workflowId: string, policy: ApprovalPolicy | null): Promise<void> {
+    await this.adapter.update(state => {
+      if (policy) {
+        state.approvalPolicies[workflowId] = clone(policy)
+      } else {
+        delete state.approvalPolicies[workflowId]
+      }
+    })
+  }
+
+  /**
+   * Event Checkpoints
+   */
+  async getEventCheckpoint(subscriptionId: string): Promise<EventCheckpoint | null> {
+    return (await this.adapter.read()).checkpoints[subscriptionId] || null
+  }
+
+  /**
+   * Record the last scanned block. Checkpoints only move forward, so a
+   * slower process sharing the store cannot rewind one.
+   */
+  async saveEventCheckpoint(subscriptionId: string, agentId: string, height: number): Promise<void> {
+    await this.adapter.update(state => {
+      const existing = state.checkpoints[subscriptionId]
+      if (existing && existing.height >= height) return
+      state.checkpoints[subscriptionId] = { subscriptionId, agentId, height, updatedAt: new Date().toISOString() }
+    })
+  }
+
+  /**
+   * Spending Ledger
+   */
+  async recordSpending(records: Omit<SpendRecord, 'recordedAt'>[]): Promise<void> {
+    if (records.length === 0) return
+    await this.adapter.update(state => addSpending(state, records))
+  }
+
+  /**
+   * Check a run against the agent's spending since `since` and record the
+   * run's spending in the same update. `plan` returns the records to add
+   * (none when the run is refused) and a result to pass back.
+   */
+  async reserveSpending<T>(
+    agentId: string,
+    since: Date,
+    plan: (spent: SpendRecord[]) => { result: T; records: Omit<SpendRecord, 'recordedAt'>[] }
+  ): Promise<T> {
+    return this.adapter.update(state => {
+      const spent = state.spending.filter(record => record.agentId === agentId && new Date(record.recordedAt) >= since)
+      const { result, records } = plan(spent)
+      addSpending(state, records)
+      return result
+    })
+  }
+
+  /**
+   * Drop the spending recorded for a run that did not go through
+   */
+  async releaseSpending(agentId: string, executionId: string): Promise<void> {
+    await this.adapter.update(state => {
+      state.spending = state.spending.filter(record => record.agentId !== agentId || record.executionId !== executionId)
+    })
+  }
+
+  async listSpending(agentId: string, since: Date): Promise<SpendRecord[]> {
+    return (await this.adapter.read()).spending
+      .filter(record => record.agentId === agentId && new Date(record.recordedAt) >= since)
+  }
+
+  /**
+   * Oracle Reading History
+   *
+   * Keeps at most one reading per source per minute, by the time the source
+   * observed it. Returns whether the reading was kept.
+   */
+  async recordOracleReading(sourceId: string, reading: OracleReading): Promise<boolean> {
+    return this.adapter.updateLog('oracleReadings', readings => {
+      const observedAt = new Date(reading.timestamp).getTime()
+      const cutoff = Date.now() - ORACLE_HISTORY_RETENTION_MS
+      const history = (readings[sourceId] || [])
+        .filter(entry => new Date(entry.timestamp).getTime() >= cutoff)
+      const last = history[history.length - 1]
+      if (observedAt < cutoff || (last && observedAt - new Date(last.timestamp).getTime() < ORACLE_HISTORY_INTERVAL_MS)) {
+        readings[sourceId] = history
+        return false
+      }
+
+      readings[sourceId] = [...history, reading]
+      return true
+    })
+  }
+
+  async listOracleReadings(sourceId: string, from: Date, to: Date): Promise<OracleReading[]> {
+    return ((await this.adapter.readLog('oracleReadings'))[sourceId] || []).filter(reading => {
+      const observedAt = new Date(reading.timestamp)
+      return observedAt >= from && observedAt <= to
+    })
+  }
+
+  /**
+   * Notification Dead Letters
+   */
+  async addDeadLetter(
+    input: Omit<NotificationDeadLetter, 'id' | 'createdAt' | 'updatedAt'>
+  ): Promise<NotificationDeadLetter> {
+    return this.adapter.update(state => {
+      const now = new Date().toISOString()
+      const letter: NotificationDeadLetter = {
+        ...clone(input),
+        id: `dlq_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+        createdAt: now,
+        updatedAt: now
+      }
+      state.deadLetters[letter.id] = letter
+      return letter
+    })
+  }
+
+  async getDeadLetter(id: string): Promise<NotificationDeadLetter | null> {
+    return (await this.adapter.read()).deadLetters[id] || null
+  }
+
+  async listDeadLetters(agentId?: string): Promise<NotificationDeadLetter[]> {
+    return Object.values((await this.adapter.read()).deadLetters)
+      .filter(letter => !agentId || letter.agentId === agentId)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+  }
+
+  async recordDeadLetterAttempts(id: string, attempts: NotificationAttempt[]): Promise<void> {
+    await this.adapter.update(state => {
+      const letter = state.deadLetters[id]
+      if (!letter) return
+      letter.attempts.push(...attempts)
+      letter.updatedAt = new Date().toISOString()
+    })
+  }
+
+  async deleteDeadLetter(id: string): Promise<boolean> {
+    return this.adapter.update(state => {
+      const existed = id in state.deadLetters
+      delete state.deadLetters[id]
+      return existed
+    })
+  }
+
+  private async finish(jobId: string, workerId: string, status: 'completed' | 'failed', error?: string): Promise<boolean> {
+    return this.adapter.update(state => {
+      const job = state.jobs[jobId]
+      // A worker whose lease expired must not overwrite the new holder's outcome
+      if (!job || job.status !== 'leased' || job.leaseOwner !== workerId) return false
+      finishJob(job, status, new Date(), error)
+      return true
+    })
+  }
+}
+
+// Entries claimed before leases were recorded have none and count as expired
+const isExpired = (leaseExpiresAt: string | undefined, now: Date) =>
+  !leaseExpiresAt || new Date(leaseExpiresAt) <= now
+
+function enqueueJob(state: AgentJobState, input: EnqueueAgentJobInput): AgentJob {
+  const now = new Date().toISOString()
+  const existing = Object.values(state.jobs).find(job => job.idempotencyKey === input.idempotencyKey)
+  if (existing && existing.status !== 'cancelled') {
+    return existing
+  }
+
+  const job: AgentJob = {
+    id: existing?.id || generateJobId(),
+    kind: input.kind,
+    agentId: input.agent.id,
+    agent: clone(input.agent),
+    idempotencyKey: input.idempotencyKey,
+    runAt: input.runAt.toISOString(),
+    status: 'pending',
+    trigger: input.trigger,
+    retryCount: input.retryCount ?? 0,
+    deliveries: 0,
+    maxDeliveries: input.maxDeliveries ?? 5,
+    createdAt: existing?.createdAt || now,
+    updatedAt: now
+  }
+  state.jobs[job.id] = job
+  return job
+}
+
+function addSpending(state: AgentJobState, records: Omit<SpendRecord, 'recordedAt'>[]): void {
+  if (records.length === 0) return
+  const now = new Date()
+  const cutoff = now.getTime() - SPENDING_RETENTION_MS
+  state.spending = state.spending
+    .filter(record => new Date(record.recordedAt).getTime() >= cutoff)
+    .concat(records.map(record => ({ ...record, recordedAt: now.toISOString() })))
+}
+
+function cancelJobs(state: AgentJobState, predicate: (job: AgentJob) => boolean): number {
+  let cancelled = 0
+  for (const job of Object.values(state.jobs)) {
+    if ((job.status === 'pending' || job.status === 'leased') && predicate(job)) {
+      finishJob(job, 'cancelled', new Date())
+      cancelled++
+    }
+  }
+  return cancelled
+}
+
+function finishJob(job: AgentJob, status: AgentJobStatus, now: Date, error?: string): void {
+  job.status = status
+  job.leaseOwner = undefined
+  job.leaseExpiresAt = undefined
+  job.finishedAt = now.toISOString()
+  job.updatedAt = now.toISOString()
+  if (error) job.lastError = error
+}
+
+function generateJobId(): string {
+  return `job_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value))
+}
+
+/**
+ * Create a job store using the adapter selected by environment.
+ * AGENT_JOB_STORE_ADAPTER=memory|file, AGENT_JOB_STORE_DIR=<path>
+ */
+export function createAgentJobStore(adapter?: AgentJobStoreAdapter): AgentJobStore {
+  if (adapter) {
+    return new AgentJobStore(adapter)
+  }
+
+  const adapterType = process.env.AGENT_JOB_STORE_ADAPTER ||
+    (process.env.NODE_ENV === 'test' ? 'memory' : 'file')
+
+  if (adapterType === 'memory') {
+    return new AgentJobStore(new InMemoryAgentJobStoreAdapter())
+  }
+
+  const baseDir = process.env.AGENT_JOB_STORE_DIR || path.join(process.cwd(), '.data', 'agents')
+  return new AgentJobStore(new FileAgentJobStoreAdapter(baseDir))
+}
+
+/**
+ * Default agent job store instance (lazy-loaded)
+ */
+let _defaultAgentJobStore: AgentJobStore | null = null
+export const getDefaultAgentJobStore = (): AgentJobStore => {
+  if (!_defaultAgentJobStore) {
+    _defaultAgentJobStore = createAgentJobStore()
+  }
+  return _defaultAgentJobStore
+}
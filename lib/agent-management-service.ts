@@ -8,8 +8,23 @@ import {
   EnhancedWorkflow,
   RetryPolicy,
   NotificationConfig,
-  Permission
+  Permission,
+  FlowEventFilter,
+  TriggerCondition
 } from './types'
+import { getNextCronRun, isValidTimeZone } from './cron-expression'
+import { AgentJobStore, getDefaultAgentJobStore } from './agent-job-store'
+import { validateNotificationConfig } from './agent-notification-service'
+import { isValidEventType } from './flow-event-monitor'
+import { validateOracleSource } from './oracle-adapter'
+import { validateAgentPolicy } from './agent-policy'
+
+const copyStatus = (agent: Agent, from: Agent) => {
+  agent.status = from.status
+  agent.statusReason = from.statusReason
+}
+
+const FLOW_EVENT_FILTER_OPERATORS: FlowEventFilter['operator'][] = ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'in', 'contains']
 
 /**
  * Agent Management Service
@@ -18,6 +33,8 @@ import {
  * - Agent resource factory for workflow deployment
  * - Agent lifecycle management (create, update, delete)
  * - Agent status monitoring and health checking
+ * - Agents persisted in an AgentJobStore and reloaded on startup; the
+ *   store owns agent status, since the executor pauses agents there
  * 
  * Requirements: 4.1, 4.4, 4.6
  */
@@ -26,11 +43,40 @@ export class AgentManagementService {
   private agentHealthStatus: Map<string, AgentHealthStatus> = new Map()
   private healthCheckInterval: NodeJS.Timeout | null = null
   private readonly HEALTH_CHECK_INTERVAL = 30000 // 30 seconds
+  private store: AgentJobStore
+  private loaded: Promise<void> | null = null
 
-  constructor() {
+  constructor(options: { store?: AgentJobStore } = {}) {
+    this.store = options.store || getDefaultAgentJobStore()
+    this.initialize()
     this.startHealthMonitoring()
   }
 
+  /**
+   * Load persisted agents. Started by the constructor; await it before
+   * reading agents right after startup.
+   */
+  initialize(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.loadAgents()
+    }
+    return this.loaded
+  }
+
+  private async loadAgents(): Promise<void> {
+    try {
+      for (const agent of await this.store.listAgents()) {
+        // Created since startup
+        if (this.agents.has(agent.id)) continue
+
+        this.agents.set(agent.id, agent)
+        this.agentHealthStatus.set(agent.id, this.createHealthStatus(agent.id))
+      }
+    } catch (error) {
+      console.error('Failed to load persisted agents:', error)
+    }
+  }
+
   /**
    * Agent Resource Factory - Creates new Agent from workflow
    * Requirement 4.1: Agent deployment with scheduling logic
@@ -60,31 +106,17 @@ export class AgentManagementService {
       status: AgentStatus.ACTIVE,
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
-      owner: metadata.owner
+      owner: metadata.owner,
+      notifications: config.notifications,
+      policy: config.policy
     }
 
     // Store Agent
     this.agents.set(agentId, agent)
+    await this.store.saveAgent(agent)
     
     // Initialize health status
-    this.agentHealthStatus.set(agentId, {
-      agentId,
-      status: 'healthy',
-      lastCheck: new Date().toISOString(),
-      uptime: 0,
-      executionCount: 0,
-      errorCount: 0,
-      lastExecution: null,
-      lastError: null,
-      metrics: {
-        averageExecutionTime: 0,
-        successRate: 100,
-        resourceUsage: {
-          memory: 0,
-          cpu: 0
-        }
-      }
-    })
+    this.agentHealthStatus.set(agentId, this.createHealthStatus(agentId))
 
     // Deploy Agent to blockchain (simulated for now)
     await this.deployAgentToBlockchain(agent)
@@ -97,6 +129,7 @@ export class AgentManagementService {
    * Requirement 4.1: Agent lifecycle management
    */
   async updateAgent(agentId: string, updates: Partial<AgentConfiguration & { name?: string; description?: string }>): Promise<void> {
+    await this.initialize()
     const agent = this.agents.get(agentId)
     if (!agent) {
       throw new Error(`Agent ${agentId} not found`)
@@ -107,6 +140,11 @@ export class AgentManagementService {
     if (updates.description) agent.description = updates.description
     if (updates.schedule) agent.schedule = updates.schedule
     if (updates.eventTriggers) agent.triggers = updates.eventTriggers
+    if (updates.notifications) agent.notifications = updates.notifications
+    if (updates.policy) agent.policy = updates.policy
+
+    // The executor may have paused the agent in the store since it was loaded
+    await this.refreshStatus(agent)
 
     agent.updatedAt = new Date().toISOString()
 
@@ -115,10 +153,12 @@ export class AgentManagementService {
       schedule: agent.schedule,
       eventTriggers: agent.triggers,
       retryPolicy: updates.retryPolicy || this.getDefaultRetryPolicy(),
-      notifications: updates.notifications || {},
-      permissions: updates.permissions || []
+      notifications: agent.notifications || {},
+      permissions: updates.permissions || [],
+      policy: agent.policy
     }
     this.validateAgentConfiguration(config)
+    await this.store.saveAgent(agent)
 
     // Update Agent on blockchain
     await this.updateAgentOnBlockchain(agent)
@@ -129,6 +169,7 @@ export class AgentManagementService {
    * Requirement 4.1: Agent lifecycle management
    */
   async deleteAgent(agentId: string): Promise<void> {
+    await this.initialize()
     const agent = this.agents.get(agentId)
     if (!agent) {
       throw new Error(`Agent ${agentId} not found`)
@@ -143,6 +184,7 @@ export class AgentManagementService {
     // Clean up local storage
     this.agents.delete(agentId)
     this.agentHealthStatus.delete(agentId)
+    await this.store.deleteAgent(agentId)
   }
 
   /**
@@ -150,37 +192,37 @@ export class AgentManagementService {
    * Requirement 4.4: Agent status monitoring
    */
   async pauseAgent(agentId: string): Promise<void> {
+    await this.initialize()
     const agent = this.agents.get(agentId)
     if (!agent) {
       throw new Error(`Agent ${agentId} not found`)
     }
 
-    agent.status = AgentStatus.PAUSED
-    agent.updatedAt = new Date().toISOString()
+    await this.setStatus(agent, AgentStatus.PAUSED)
 
     await this.updateAgentOnBlockchain(agent)
   }
 
   async resumeAgent(agentId: string): Promise<void> {
+    await this.initialize()
     const agent = this.agents.get(agentId)
     if (!agent) {
       throw new Error(`Agent ${agentId} not found`)
     }
 
-    agent.status = AgentStatus.ACTIVE
-    agent.updatedAt = new Date().toISOString()
+    await this.setStatus(agent, AgentStatus.ACTIVE)
 
     await this.updateAgentOnBlockchain(agent)
   }
 
   async stopAgent(agentId: string): Promise<void> {
+    await this.initialize()
     const agent = this.agents.get(agentId)
     if (!agent) {
       throw new Error(`Agent ${agentId} not found`)
     }
 
-    agent.status = AgentStatus.STOPPED
-    agent.updatedAt = new Date().toISOString()
+    await this.setStatus(agent, AgentStatus.STOPPED)
 
     await this.updateAgentOnBlockchain(agent)
   }
@@ -189,20 +231,55 @@ export class AgentManagementService {
    * Agent Health Monitoring
    * Requirement 4.6: Agent status monitoring and health checking
    */
-  getAgentStatus(agentId: string): Agent | null {
-    return this.agents.get(agentId) || null
+  async getAgentStatus(agentId: string): Promise<Agent | null> {
+    await this.initialize()
+    const agent = this.agents.get(agentId)
+    return agent ? this.refreshStatus(agent) : null
   }
 
   getAgentHealth(agentId: string): AgentHealthStatus | null {
     return this.agentHealthStatus.get(agentId) || null
   }
 
-  getAllAgents(): Agent[] {
-    return Array.from(this.agents.values())
+  async getAllAgents(): Promise<Agent[]> {
+    await this.initialize()
+    return this.refreshStatuses(Array.from(this.agents.values()))
   }
 
-  getUserAgents(userId: string): Agent[] {
-    return Array.from(this.agents.values()).filter(agent => agent.owner === userId)
+  async getUserAgents(userId: string): Promise<Agent[]> {
+    await this.initialize()
+    return this.refreshStatuses(Array.from(this.agents.values()).filter(agent => agent.owner === userId))
+  }
+
+  /**
+   * Take the status the store holds, which the executor may have changed
+   */
+  private async refreshStatus(agent: Agent): Promise<Agent> {
+    const persisted = await this.store.getAgent(agent.id)
+    if (persisted) copyStatus(agent, persisted)
+    return agent
+  }
+
+  private async refreshStatuses(agents: Agent[]): Promise<Agent[]> {
+    const persisted = new Map((await this.store.listAgents()).map(agent => [agent.id, agent]))
+    for (const agent of agents) {
+      const stored = persisted.get(agent.id)
+      if (stored) copyStatus(agent, stored)
+    }
+    return agents
+  }
+
+  /**
+   * Change the status in the store only, so the rest of a stale in-memory
+   * agent is never written over it
+   */
+  private async setStatus(agent: Agent, status: AgentStatus): Promise<void> {
+    const persisted = await this.store.setAgentStatus(agent.id, status)
+    if (!persisted) {
+      throw new Error(`Agent ${agent.id} not found`)
+    }
+    copyStatus(agent, persisted)
+    agent.updatedAt = persisted.updatedAt
   }
 
   /**
@@ -222,9 +299,8 @@ export class AgentManagementService {
         this.agentHealthStatus.set(agentId, healthStatus)
 
         // Update Agent status if health check indicates issues
-        if (healthStatus.status === 'unhealthy' && agent.status === AgentStatus.ACTIVE) {
-          agent.status = AgentStatus.ERROR
-          agent.updatedAt = new Date().toISOString()
+        if (healthStatus.status === 'unhealthy' && (await this.refreshStatus(agent)).status === AgentStatus.ACTIVE) {
+          await this.setStatus(agent, AgentStatus.ERROR)
         }
       } catch (error) {
         console.error(`Health check failed for Agent ${agentId}:`, error)
@@ -265,6 +341,27 @@ export class AgentManagementService {
     }
   }
 
+  private createHealthStatus(agentId: string): AgentHealthStatus {
+    return {
+      agentId,
+      status: 'healthy',
+      lastCheck: new Date().toISOString(),
+      uptime: 0,
+      executionCount: 0,
+      errorCount: 0,
+      lastExecution: null,
+      lastError: null,
+      metrics: {
+        averageExecutionTime: 0,
+        successRate: 100,
+        resourceUsage: {
+          memory: 0,
+          cpu: 0
+        }
+      }
+    }
+  }
+
   private calculateSuccessRate(health: AgentHealthStatus): number {
     const total = health.executionCount
     const errors = health.errorCount
@@ -275,8 +372,9 @@ export class AgentManagementService {
 
   /**
    * Agent Configuration Validation
+   * Throws on the first problem; also used to check a draft before a backtest
    */
-  private validateAgentConfiguration(config: AgentConfiguration): void {
+  validateAgentConfiguration(config: AgentConfiguration): void {
     // Validate schedule
     if (!config.schedule) {
       throw new Error('Agent schedule is required')
@@ -286,17 +384,45 @@ export class AgentManagementService {
       throw new Error('Recurring schedule requires either interval or cron expression')
     }
 
+    if (config.schedule.timezone !== undefined && !isValidTimeZone(config.schedule.timezone)) {
+      throw new Error(`Unknown schedule time zone: ${config.schedule.timezone}`)
+    }
+
+    if (config.schedule.cronExpression) {
+      try {
+        getNextCronRun(config.schedule.cronExpression, new Date(), config.schedule.timezone)
+      } catch (error) {
+        throw new Error(`Invalid cron schedule: ${error instanceof Error ? error.message : error}`)
+      }
+    }
+
     if (config.schedule.type === 'event-driven' && (!config.eventTriggers || config.eventTriggers.length === 0)) {
       throw new Error('Event-driven schedule requires at least one event trigger')
     }
 
     // Validate event triggers
     for (const trigger of config.eventTriggers) {
-      if (!trigger.type || !trigger.condition) {
+      if (trigger.type === 'flow-event') {
+        this.validateFlowEventTrigger(trigger)
+      } else if (!trigger.type || !trigger.condition) {
         throw new Error('Event trigger must have type and condition')
+      } else {
+        this.validateTriggerCondition(trigger.condition)
+        if (trigger.oracle) {
+          validateOracleSource(trigger.oracle)
+        }
       }
     }
 
+    // Validate notification channels and targets
+    if (config.notifications) {
+      validateNotificationConfig(config.notifications)
+    }
+
+    if (config.policy) {
+      validateAgentPolicy(config.policy)
+    }
+
     // Validate retry policy
     if (config.retryPolicy) {
       if (config.retryPolicy.maxRetries < 0) {
@@ -308,6 +434,38 @@ export class AgentManagementService {
     }
   }
 
+  private validateTriggerCondition(condition: TriggerCondition): void {
+    for (const key of ['tolerance', 'debounce', 'hysteresis'] as const) {
+      const value = condition[key]
+      if (value !== undefined && (typeof value !== 'number' || !(value >= 0))) {
+        throw new Error(`Trigger condition ${key} must be a non-negative number`)
+      }
+    }
+  }
+
+  private validateFlowEventTrigger(trigger: EventTrigger): void {
+    const flowEvent = trigger.flowEvent
+    if (!flowEvent || !isValidEventType(flowEvent.eventType || '')) {
+      throw new Error('Flow event trigger requires an event type such as A.1654653399040a61.FlowToken.TokensDeposited')
+    }
+
+    for (const filter of flowEvent.filters || []) {
+      if (!filter.field || !FLOW_EVENT_FILTER_OPERATORS.includes(filter.operator)) {
+        throw new Error(`Invalid filter on ${flowEvent.eventType}: ${filter.field || '(no field)'} ${filter.operator}`)
+      }
+    }
+
+    for (const target of Object.keys(flowEvent.parameterBindings || {})) {
+      if (!/^.+\.[^.]+$/.test(target)) {
+        throw new Error(`Parameter binding target must be "<actionId>.<parameterName>", got "${target}"`)
+      }
+    }
+
+    if (flowEvent.startHeight !== undefined && (!Number.isInteger(flowEvent.startHeight) || flowEvent.startHeight < 0)) {
+      throw new Error('Flow event trigger start height must be a non-negative integer')
+    }
+  }
+
   /**
    * Blockchain Integration (Simulated)
    */
@@ -0,0 +1,710 @@
+import net from 'net'
+import tls from 'tls'
+import os from 'os'
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto'
+import type { Agent, NotificationConfig, NotificationTemplates } from './types'
+import { AgentJobStore, getDefaultAgentJobStore } from './agent-job-store'
+
+/**
+ * Agent Notification Service
+ *
+ * Delivers agent run notifications over real channels:
+ * - SMTP email (plain, STARTTLS or implicit TLS, with AUTH PLAIN)
+ * - Generic webhooks signed with an HMAC-SHA256 header
+ * - Discord and Slack incoming-webhook payload formats
+ * - Per-agent message templates with {{placeholder}} substitution
+ * - Approval requests sent to the approvers of risky runs
+ * - Retries with exponential backoff; deliveries that still fail are kept
+ *   as dead letters in the AgentJobStore and can be redelivered
+ *
+ * Requirement 4.6: Notification system for Agent failures and successes
+ */
+
+export type NotificationChannel = 'email' | 'webhook' | 'discord' | 'slack'
+
+// 'paused' is sent whenever an agent is paused by a guardrail, and 'approval'
+// whenever a run waits for approval, regardless of onSuccess/onFailure
+export type NotificationEvent = 'success' | 'failure' | 'paused' | 'approval'
+
+export const NOTIFICATION_CHANNELS: NotificationChannel[] = ['email', 'webhook', 'discord', 'slack']
+
+export interface NotificationData {
+  executionId: string
+  transactionId?: string
+  gasUsed?: number
+  error?: string
+  retryCount?: number
+  approvalId?: string
+}
+
+export interface NotificationMessage {
+  id: string
+  event: NotificationEvent
+  subject: string
+  text: string
+  agent: { id: string; name: string }
+  data: NotificationData
+  timestamp: string
+}
+
+export interface NotificationAttempt {
+  at: string
+  success: boolean
+  statusCode?: number
+  error?: string
+}
+
+/**
+ * Outcome of delivering one message to one channel, as recorded in the
+ * agent's execution history. Webhook targets are redacted because their
+ * URLs carry the credentials.
+ */
+export interface NotificationDelivery {
+  id: string
+  channel: NotificationChannel
+  target: string
+  status: 'delivered' | 'dead-lettered'
+  attempts: NotificationAttempt[]
+  deadLetterId?: string
+}
+
+/**
+ * Sends a message to one target of a channel. Throws
+ * NotificationDeliveryError to report the failure and whether to retry.
+ */
+export interface NotificationTransport {
+  send(target: string, message: NotificationMessage, config: NotificationConfig): Promise<{ statusCode?: number }>
+}
+
+export class NotificationDeliveryError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode?: number,
+    public readonly retryable = true
+  ) {
+    super(message)
+    this.name = 'NotificationDeliveryError'
+  }
+}
+
+export const DEFAULT_NOTIFICATION_TEMPLATES: Required<NotificationTemplates> = {
+  subject: 'Agent "{{agentName}}" {{outcome}}',
+  success: '✅ Agent "{{agentName}}" executed successfully at {{timestamp}}\n' +
+    'Execution ID: {{executionId}}\n' +
+    'Transaction ID: {{transactionId}}\n' +
+    'Gas Used: {{gasUsed}}',
+  failure: '❌ Agent "{{agentName}}" execution failed at {{timestamp}}\n' +
+    'Execution ID: {{executionId}}\n' +
+    'Error: {{error}}\n' +
+    'Retry Count: {{retryCount}}',
+  paused: '⏸️ Agent "{{agentName}}" was paused at {{timestamp}}\n' +
+    'Execution ID: {{executionId}}\n' +
+    'Reason: {{error}}',
+  approval: '✋ "{{agentName}}" is waiting for approval since {{timestamp}}\n' +
+    'Approval ID: {{approvalId}}\n' +
+    'Execution ID: {{executionId}}'
+}
+
+const OUTCOMES: Record<NotificationEvent, string> = {
+  success: 'succeeded',
+  failure: 'failed',
+  paused: 'was paused',
+  approval: 'needs approval'
+}
+
+/**
+ * Replace {{name}} placeholders with values; unknown names become empty
+ */
+export function renderTemplate(template: string, values: Record<string, string | number | undefined>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) => {
+    const value = values[name]
+    return value === undefined ? '' : String(value)
+  })
+}
+
+/**
+ * Build the message for an agent run from the agent's templates
+ */
+export function createNotificationMessage(
+  agent: Pick<Agent, 'id' | 'name'>,
+  event: NotificationEvent,
+  data: NotificationData,
+  templates: NotificationTemplates = {}
+): NotificationMessage {
+  const timestamp = new Date().toISOString()
+  const values = {
+    agentId: agent.id,
+    agentName: agent.name,
+    event,
+    outcome: OUTCOMES[event],
+    timestamp,
+    executionId: data.executionId,
+    transactionId: data.transactionId || 'N/A',
+    gasUsed: data.gasUsed ?? 'N/A',
+    error: data.error,
+    retryCount: data.retryCount ?? 0,
+    approvalId: data.approvalId
+  }
+
+  return {
+    id: randomUUID(),
+    event,
+    subject: renderTemplate(templates.subject || DEFAULT_NOTIFICATION_TEMPLATES.subject, values),
+    text: renderTemplate(templates[event] || DEFAULT_NOTIFICATION_TEMPLATES[event], values),
+    agent: { id: agent.id, name: agent.name },
+    data,
+    timestamp
+  }
+}
+
+/**
+ * Validate an agent's notification settings. Throws on the first problem.
+ */
+export function validateNotificationConfig(config: NotificationConfig): void {
+  for (const channel of config.channels || []) {
+    if (!NOTIFICATION_CHANNELS.includes(channel as NotificationChannel)) {
+      throw new Error(`Unknown notification channel: ${channel}`)
+    }
+  }
+
+  if (config.email !== undefined && !/^[^\s@<>]+@[^\s@<>]+$/.test(config.email)) {
+    throw new Error(`Invalid notification email address: ${config.email}`)
+  }
+
+  for (const channel of ['webhook', 'discord', 'slack'] as const) {
+    const url = config[channel]
+    if (url === undefined) continue
+    let protocol: string
+    try {
+      protocol = new URL(url).protocol
+    } catch {
+      throw new Error(`Invalid ${channel} notification URL`)
+    }
+    if (protocol !== 'https:' && protocol !== 'http:') {
+      throw new Error(`Invalid ${channel} notification URL`)
+    }
+  }
+}
+
+/**
+ * Webhook Signing
+ *
+ * Receivers recompute HMAC-SHA256 over "<timestamp>.<raw body>" with the
+ * shared secret and compare it with the X-ActionLoom-Signature header.
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`
+}
+
+export function verifyWebhookSignature(
+  secret: string,
+  timestamp: string,
+  body: string,
+  signature: string,
+  toleranceSeconds = 300
+): boolean {
+  const age = Math.abs(Date.now() / 1000 - Number(timestamp))
+  if (!Number.isFinite(age) || age > toleranceSeconds) return false
+
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body))
+  const actual = Buffer.from(signature)
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
+
+type FetchFunction = typeof fetch
+
+interface HttpTransportOptions {
+  fetch?: FetchFunction
+  timeout?: number
+}
+
+async function postJson(
+  url: string,
+  body: string,
+  headers: Record<string, string>,
+  options: HttpTransportOptions
+): Promise<{ statusCode: number }> {
+  let response: Response
+  try {
+    response = await (options.fetch || fetch)(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'User-Agent': 'ActionLoom-Notifications/1.0', ...headers },
+      body,
+      signal: AbortSignal.timeout(options.timeout ?? 10000)
+    })
+  } catch (error) {
+    throw new NotificationDeliveryError(`Request failed: ${error instanceof Error ? error.message : error}`)
+  }
+
+  if (!response.ok) {
+    // Client errors other than rate limiting will fail the same way again
+    const retryable = response.status >= 500 || response.status === 429
+    throw new NotificationDeliveryError(`HTTP ${response.status} ${response.statusText}`.trim(), response.status, retryable)
+  }
+  return { statusCode: response.status }
+}
+
+/**
+ * Generic webhook: JSON body with an HMAC signature when a secret is set
+ */
+export class SignedWebhookTransport implements NotificationTransport {
+  constructor(private readonly options: HttpTransportOptions & { secret?: string } = {}) {}
+
+  async send(url: string, message: NotificationMessage, config: NotificationConfig): Promise<{ statusCode?: number }> {
+    const body = JSON.stringify({
+      id: message.id,
+      event: message.event,
+      agent: message.agent,
+      data: message.data,
+      subject: message.subject,
+      text: message.text,
+      timestamp: message.timestamp
+    })
+    const timestamp = Math.floor(Date.now() / 1000).toString()
+    const headers: Record<string, string> = {
+      'X-ActionLoom-Event': `agent.execution.${message.event}`,
+      'X-ActionLoom-Delivery': message.id,
+      'X-ActionLoom-Timestamp': timestamp
+    }
+
+    const secret = config.webhookSecret || this.options.secret
+    if (secret) {
+      headers['X-ActionLoom-Signature'] = signWebhookPayload(secret, timestamp, body)
+    }
+
+    return postJson(url, body, headers, this.options)
+  }
+}
+
+const truncate = (text: string, max: number) => text.length > max ? `${text.slice(0, max - 1)}…` : text
+
+/**
+ * Discord incoming webhook: one embed, green for success and red for failure
+ */
+export class DiscordWebhookTransport implements NotificationTransport {
+  constructor(private readonly options: HttpTransportOptions = {}) {}
+
+  async send(url: string, message: NotificationMessage): Promise<{ statusCode?: number }> {
+    const fields = [
+      { name: 'Agent', value: message.agent.name, inline: true },
+      { name: 'Execution', value: message.data.executionId, inline: true }
+    ]
+    if (message.data.transactionId) {
+      fields.push({ name: 'Transaction', value: message.data.transactionId, inline: false })
+    }
+
+    const body = JSON.stringify({
+      username: 'ActionLoom',
+      embeds: [{
+        title: truncate(message.subject, 256),
+        description: truncate(message.text, 4096),
+        color: message.event === 'success' ? 0x22c55e : message.event === 'paused' ? 0xf59e0b : 0xef4444,
+        timestamp: message.timestamp,
+        fields
+      }]
+    })
+
+    return postJson(url, body, {}, this.options)
+  }
+}
+
+/**
+ * Slack incoming webhook: Block Kit layout with a plain-text fallback
+ */
+export class SlackWebhookTransport implements NotificationTransport {
+  constructor(private readonly options: HttpTransportOptions = {}) {}
+
+  async send(url: string, message: NotificationMessage): Promise<{ statusCode?: number }> {
+    const body = JSON.stringify({
+      text: message.subject,
+      blocks: [
+        { type: 'header', text: { type: 'plain_text', text: truncate(message.subject, 150) } },
+        { type: 'section', text: { type: 'mrkdwn', text: truncate(message.text, 3000) } },
+        {
+          type: 'context',
+          elements: [{ type: 'mrkdwn', text: `Agent \`${message.agent.id}\` · Execution \`${message.data.executionId}\`` }]
+        }
+      ]
+    })
+
+    return postJson(url, body, {}, this.options)
+  }
+}
+
+export interface SmtpOptions {
+  host: string
+  port: number
+  from: string
+  secure?: boolean  // implicit TLS (port 465); otherwise STARTTLS when offered
+  user?: string
+  password?: string
+  timeout?: number
+  tls?: tls.ConnectionOptions
+}
+
+interface SmtpReply {
+  code: number
+  lines: string[]
+}
+
+/**
+ * One SMTP conversation: writes commands and reads (multi-line) replies
+ */
+class SmtpConnection {
+  private buffer = ''
+  private lines: string[] = []
+  private replies: SmtpReply[] = []
+  private waiter: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null
+  private failure: Error | null = null
+
+  constructor(private socket: net.Socket, private readonly timeout: number) {
+    this.attach(socket)
+  }
+
+  static open(options: SmtpOptions): Promise<SmtpConnection> {
+    const timeout = options.timeout ?? 10000
+    return new Promise((resolve, reject) => {
+      const socket = options.secure
+        ? tls.connect({ host: options.host, port: options.port, servername: options.host, ...options.tls })
+        : net.connect({ host: options.host, port: options.port })
+      const onError = (error: Error) => reject(new NotificationDeliveryError(`SMTP connection failed: ${error.message}`))
+
+      socket.setTimeout(timeout, () => socket.destroy(new Error('timed out')))
+      socket.once('error', onError)
+      socket.once(options.secure ? 'secureConnect' : 'connect', () => {
+        socket.off('error', onError)
+        resolve(new SmtpConnection(socket, timeout))
+      })
+    })
+  }
+
+  async command(line: string, expected: number[], step = line.split(/[\s:]/)[0]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`)
+    return this.expect(expected, step)
+  }
+
+  async expect(expected: number[], step = 'greeting'): Promise<SmtpReply> {
+    const reply = await this.read()
+    if (!expected.includes(reply.code)) {
+      // 4xx replies are transient by definition
+      throw new NotificationDeliveryError(
+        `SMTP ${step} rejected: ${reply.code} ${reply.lines.join(' ')}`,
+        reply.code,
+        reply.code >= 400 && reply.code < 500
+      )
+    }
+    return reply
+  }
+
+  async startTls(options: SmtpOptions): Promise<void> {
+    this.socket.removeAllListeners('data')
+    this.socket.removeAllListeners('error')
+    this.socket.removeAllListeners('close')
+
+    const secured = await new Promise<tls.TLSSocket>((resolve, reject) => {
+      const upgraded = tls.connect({ socket: this.socket, servername: options.host, ...options.tls })
+      upgraded.once('secureConnect', () => resolve(upgraded))
+      upgraded.once('error', error => reject(new NotificationDeliveryError(`SMTP STARTTLS failed: ${error.message}`)))
+    })
+    secured.setTimeout(this.timeout, () => secured.destroy(new Error('timed out')))
+    this.socket = secured
+    this.attach(secured)
+  }
+
+  close(): void {
+    this.socket.destroy()
+  }
+
+  private attach(socket: net.Socket): void {
+    socket.setEncoding('utf8')
+    socket.on('data', (chunk: string) => this.receive(chunk))
+    socket.on('error', error => this.fail(new NotificationDeliveryError(`SMTP connection failed: ${error.message}`)))
+    socket.on('close', () => this.fail(new NotificationDeliveryError('SMTP connection closed unexpectedly')))
+  }
+
+  private receive(chunk: string): void {
+    this.buffer += chunk
+    let index: number
+    while ((index = this.buffer.indexOf('\n')) !== -1) {
+      const line = this.buffer.slice(0, index).replace(/\r$/, '')
+      this.buffer = this.buffer.slice(index + 1)
+
+      // "250-..." continues a reply, "250 ..." ends it
+      this.lines.push(line.slice(4))
+      if (/^\d{3}(?: |$)/.test(line)) {
+        this.replies.push({ code: Number(line.slice(0, 3)), lines: this.lines })
+        this.lines = []
+      }
+    }
+    this.flush()
+  }
+
+  private fail(error: Error): void {
+    this.failure = this.failure || error
+    this.flush()
+  }
+
+  private flush(): void {
+    if (!this.waiter) return
+    const waiter = this.waiter
+    if (this.replies.length > 0) {
+      this.waiter = null
+      waiter.resolve(this.replies.shift()!)
+    } else if (this.failure) {
+      this.waiter = null
+      waiter.reject(this.failure)
+    }
+  }
+
+  private read(): Promise<SmtpReply> {
+    return new Promise((resolve, reject) => {
+      this.waiter = { resolve, reject }
+      this.flush()
+    })
+  }
+}
+
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`
+
+/**
+ * Format a text/plain message. The base64 body needs no dot-stuffing.
+ */
+export function formatEmail(from: string, to: string, message: NotificationMessage): string {
+  const domain = from.split('@')[1] || 'localhost'
+  const body = Buffer.from(message.text).toString('base64').replace(/.{1,76}/g, '$&\r\n')
+
+  return [
+    `From: ${from}`,
+    `To: ${to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date(message.timestamp).toUTCString()}`,
+    `Message-ID: <${message.id}@${domain}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    body
+  ].join('\r\n')
+}
+
+/**
+ * SMTP email
+ */
+export class SmtpEmailTransport implements NotificationTransport {
+  constructor(private readonly options: SmtpOptions) {}
+
+  async send(to: string, message: NotificationMessage): Promise<{ statusCode?: number }> {
+    const { options } = this
+    const connection = await SmtpConnection.open(options)
+
+    try {
+      await connection.expect([220])
+      let hello = await connection.command(`EHLO ${os.hostname() || 'localhost'}`, [250])
+
+      if (!options.secure && hello.lines.some(line => /^STARTTLS\b/i.test(line))) {
+        await connection.command('STARTTLS', [220])
+        await connection.startTls(options)
+        hello = await connection.command(`EHLO ${os.hostname() || 'localhost'}`, [250])
+      }
+
+      if (options.user) {
+        const credentials = Buffer.from(`\0${options.user}\0${options.password || ''}`).toString('base64')
+        await connection.command(`AUTH PLAIN ${credentials}`, [235])
+      }
+
+      await connection.command(`MAIL FROM:<${options.from}>`, [250])
+      await connection.command(`RCPT TO:<${to}>`, [250, 251])
+      await connection.command('DATA', [354])
+      const accepted = await connection.command(`${formatEmail(options.from, to, message)}\r\n.`, [250], 'message')
+      await connection.command('QUIT', [221]).catch(() => {})
+
+      return { statusCode: accepted.code }
+    } finally {
+      connection.close()
+    }
+  }
+}
+
+/**
+ * Read SMTP settings from the environment. Returns null when SMTP_HOST is unset.
+ */
+export function getSmtpOptionsFromEnv(env: Record<string, string | undefined> = process.env): SmtpOptions | null {
+  if (!env.SMTP_HOST) return null
+
+  const secure = env.SMTP_SECURE === 'true'
+  return {
+    host: env.SMTP_HOST,
+    port: Number(env.SMTP_PORT) || (secure ? 465 : 587),
+    secure,
+    user: env.SMTP_USER || undefined,
+    password: env.SMTP_PASSWORD || undefined,
+    from: env.SMTP_FROM || `actionloom@${env.SMTP_HOST}`
+  }
+}
+
+/**
+ * Show where a notification went without exposing webhook tokens
+ */
+export function redactTarget(channel: NotificationChannel, target: string): string {
+  if (channel === 'email') return target
+  try {
+    return `${new URL(target).origin}/…`
+  } catch {
+    return '…'
+  }
+}
+
+export interface AgentNotificationServiceOptions {
+  transports?: Partial<Record<NotificationChannel, NotificationTransport>>
+  store?: AgentJobStore
+  maxAttempts?: number
+  retryDelay?: number  // milliseconds before the second attempt; doubles after each
+}
+
+/**
+ * Sends an agent's run notifications to its configured channels
+ */
+export class AgentNotificationService {
+  private transports: Partial<Record<NotificationChannel, NotificationTransport>>
+  private store: AgentJobStore
+  private maxAttempts: number
+  private retryDelay: number
+
+  constructor(options: AgentNotificationServiceOptions = {}) {
+    const smtp = getSmtpOptionsFromEnv()
+    this.transports = {
+      email: smtp ? new SmtpEmailTransport(smtp) : undefined,
+      webhook: new SignedWebhookTransport({ secret: process.env.AGENT_WEBHOOK_SECRET }),
+      discord: new DiscordWebhookTransport(),
+      slack: new SlackWebhookTransport(),
+      ...options.transports
+    }
+    this.store = options.store || getDefaultAgentJobStore()
+    this.maxAttempts = options.maxAttempts ?? 3
+    this.retryDelay = options.retryDelay ?? 1000
+  }
+
+  /**
+   * Notify the agent's channels about a run. Channels are those listed in
+   * `channels` that have a target configured.
+   */
+  async notify(agent: Agent, event: NotificationEvent, data: NotificationData): Promise<NotificationDelivery[]> {
+    const config = agent.notifications
+    if (!config) return []
+    if (event === 'success' && !config.onSuccess) return []
+    if (event === 'failure' && !config.onFailure) return []
+
+    return this.send(agent, config, event, data)
+  }
+
+  /**
+   * Tell the approvers of a risky run or workflow that it waits for them
+   */
+  async notifyApprovers(
+    subject: Pick<Agent, 'id' | 'name'>,
+    config: NotificationConfig,
+    data: NotificationData
+  ): Promise<NotificationDelivery[]> {
+    return this.send(subject, config, 'approval', data)
+  }
+
+  /**
+   * Try a dead-lettered notification again. It stays dead-lettered (with the
+   * new attempts appended) if delivery fails again.
+   */
+  async redeliver(deadLetterId: string): Promise<NotificationDelivery> {
+    const letter = await this.store.getDeadLetter(deadLetterId)
+    if (!letter) {
+      throw new Error(`Dead letter ${deadLetterId} not found`)
+    }
+
+    const { delivery, attempts } = await this.attempt(letter.channel, letter.target, letter.message, letter.config)
+    if (delivery.status === 'delivered') {
+      await this.store.deleteDeadLetter(deadLetterId)
+    } else {
+      await this.store.recordDeadLetterAttempts(deadLetterId, attempts)
+      delivery.deadLetterId = deadLetterId
+    }
+    return delivery
+  }
+
+  private async send(
+    subject: Pick<Agent, 'id' | 'name'>,
+    config: NotificationConfig,
+    event: NotificationEvent,
+    data: NotificationData
+  ): Promise<NotificationDelivery[]> {
+    const message = createNotificationMessage(subject, event, data, config.templates)
+    const channels = NOTIFICATION_CHANNELS.filter(channel => config.channels.includes(channel) && config[channel])
+
+    return Promise.all(channels.map(channel => this.deliver(subject.id, channel, config[channel]!, message, config)))
+  }
+
+  private async deliver(
+    agentId: string,
+    channel: NotificationChannel,
+    target: string,
+    message: NotificationMessage,
+    config: NotificationConfig
+  ): Promise<NotificationDelivery> {
+    const { delivery, attempts } = await this.attempt(channel, target, message, config)
+    if (delivery.status === 'dead-lettered') {
+      const letter = await this.store.addDeadLetter({ agentId, channel, target, message, config, attempts })
+      delivery.deadLetterId = letter.id
+      console.error(`Notification ${message.id} to ${channel} dead-lettered after ${attempts.length} attempt(s)`)
+    }
+    return delivery
+  }
+
+  private async attempt(
+    channel: NotificationChannel,
+    target: string,
+    message: NotificationMessage,
+    config: NotificationConfig
+  ): Promise<{ delivery: NotificationDelivery; attempts: NotificationAttempt[] }> {
+    const attempts: NotificationAttempt[] = []
+    const transport = this.transports[channel]
+    const delivery = (status: NotificationDelivery['status']) => ({
+      delivery: { id: message.id, channel, target: redactTarget(channel, target), status, attempts },
+      attempts
+    })
+
+    if (!transport) {
+      attempts.push({ at: new Date().toISOString(), success: false, error: `No ${channel} transport is configured` })
+      return delivery('dead-lettered')
+    }
+
+    for (let attempt = 1; attempt <= this.maxAttempts; attempt++) {
+      try {
+        const { statusCode } = await transport.send(target, message, config)
+        attempts.push({ at: new Date().toISOString(), success: true, statusCode })
+        return delivery('delivered')
+      } catch (error) {
+        const failure = error instanceof NotificationDeliveryError ? error : null
+        attempts.push({
+          at: new Date().toISOString(),
+          success: false,
+          statusCode: failure?.statusCode,
+          error: error instanceof Error ? error.message : String(error)
+        })
+        if (failure && !failure.retryable) break
+        if (attempt < this.maxAttempts) {
+          await new Promise(resolve => setTimeout(resolve, this.retryDelay * Math.pow(2, attempt - 1)))
+        }
+      }
+    }
+    return delivery('dead-lettered')
+  }
+}
+
+/**
+ * Default notification service instance (lazy-loaded)
+ */
+let _defaultAgentNotificationService: AgentNotificationService | null = null
+export const getDefaultAgentNotificationService = (): AgentNotificationService => {
+  if (!_defaultAgentNotificationService) {
+    _defaultAgentNotificationService = new AgentNotificationService()
+  }
+  return _defaultAgentNotificationService
+}
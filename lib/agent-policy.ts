@@ -0,0 +1,405 @@
+import type { Agent, AgentPolicy, ParsedAction, ParsedWorkflow } from './types'
+import type { TransactionSpendingLimit } from './cadence-generator'
+import { AgentJobStore, getDefaultAgentJobStore } from './agent-job-store'
+
+/**
+ * Agent Policy Engine
+ *
+ * Guardrails for agents that run unattended with their owner's authority:
+ * - Token amounts a run would move, read from the workflow's parameters
+ *   after trigger parameters are applied; a value-moving action whose
+ *   amount or recipient is not in a recognized parameter fails closed, as
+ *   does an amount that is zero or negative
+ * - Caps per run and per rolling day, applied to each token's total, and
+ *   caps for particular tokens, with daily totals taken
+ *   from the job store's spending ledger. A run's spending is reserved in
+ *   the same store update that checks the caps and released if it fails.
+ * - Recipient allowlists, allowed action types and a gas ceiling
+ * - Spending limits for the transaction's post-conditions, so the chain
+ *   enforces the amount caps even if the workflow moves more than planned
+ */
+
+export type PolicyRule =
+  | 'max-amount-per-run'
+  | 'max-amount-per-day'
+  | 'token-per-run'
+  | 'token-per-day'
+  | 'recipient'
+  | 'action-type'
+  | 'max-gas'
+  | 'unverifiable'
+  | 'invalid-amount'
+
+export interface PolicyViolation {
+  rule: PolicyRule
+  message: string
+  actionId?: string
+}
+
+/**
+ * An amount an action would move out of the signer's account
+ */
+export interface PlannedSpend {
+  actionId: string
+  token: string
+  amount: number
+}
+
+export interface PolicyEvaluation {
+  allowed: boolean
+  violations: PolicyViolation[]
+  spends: PlannedSpend[]
+  spendingLimits: TransactionSpendingLimit[]
+  gasLimit?: number
+}
+
+export class AgentPolicyViolationError extends Error {
+  constructor(public readonly violations: PolicyViolation[]) {
+    super(`Agent policy violated: ${violations.map(violation => violation.message).join('; ')}`)
+    this.name = 'AgentPolicyViolationError'
+  }
+}
+
+// Parameters holding an outgoing amount, and the parameters naming its token
+const AMOUNT_TOKEN_PARAMETERS: Record<string, string[]> = {
+  amount: ['token', 'fromToken', 'tokenIn'],
+  amountIn: ['tokenIn', 'fromToken', 'token'],
+  amountA: ['tokenA'],
+  amountB: ['tokenB']
+}
+
+const RECIPIENT_PARAMETERS = ['recipient', 'to', 'receiver', 'destination', 'address']
+
+// Action types that move tokens or NFTs out of the signer's account
+const VALUE_MOVING_ACTION = /transfer|send|swap|stake|liquidity|deposit|withdraw|bridge|buy|sell|pay|farm|lend|borrow|repay|bid|purchase/i
+
+// Vaults of well-known tokens in the signer's storage
+export const TOKEN_VAULT_PATHS: Record<string, string> = {
+  FLOW: '/storage/flowTokenVault',
+  FUSD: '/storage/fusdVault',
+  USDC: '/storage/usdcFlowVault'
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Token symbols are compared case-insensitively; FlowToken type IDs and
+ * contract names count as FLOW
+ */
+export function normalizeToken(token: string): string {
+  const trimmed = token.trim().replace(/^"|"$/g, '')
+  return /(^|\.)FlowToken(\.|$)/.test(trimmed) ? 'FLOW' : trimmed.toUpperCase()
+}
+
+const normalizeAddress = (address: string) => address.trim().replace(/^"|"$/g, '').replace(/^0x/i, '').toLowerCase()
+
+function getParameter(action: ParsedAction, name: string) {
+  return action.parameters.find(parameter => parameter.name === name)
+}
+
+/**
+ * Amounts and recipients a workflow would use. Values bound to another
+ * action's result are only known on-chain, so they are reported as
+ * unverifiable instead, as are value-moving actions whose amount or
+ * recipient parameters are not recognized.
+ */
+export function extractPlannedSpends(workflow: ParsedWorkflow): {
+  spends: PlannedSpend[]
+  recipients: Array<{ actionId: string; address: string }>
+  computedAmounts: PolicyViolation[]
+  computedRecipients: PolicyViolation[]
+  unrecognizedAmounts: PolicyViolation[]
+  unrecognizedRecipients: PolicyViolation[]
+  invalidAmounts: PolicyViolation[]
+} {
+  const spends: PlannedSpend[] = []
+  const recipients: Array<{ actionId: string; address: string }> = []
+  const computedAmounts: PolicyViolation[] = []
+  const computedRecipients: PolicyViolation[] = []
+  const unrecognizedAmounts: PolicyViolation[] = []
+  const unrecognizedRecipients: PolicyViolation[] = []
+  const invalidAmounts: PolicyViolation[] = []
+
+  for (const action of workflow.actions) {
+    if (VALUE_MOVING_ACTION.test(action.actionType)) {
+      if (!Object.keys(AMOUNT_TOKEN_PARAMETERS).some(name => getParameter(action, name))) {
+        unrecognizedAmounts.push({
+          rule: 'unverifiable',
+          actionId: action.id,
+          message: `${action.id} (${action.actionType}) has no recognized amount parameter and cannot be checked against the spending limits`
+        })
+      }
+      const addresses = action.parameters.filter(parameter => parameter.type === 'Address' && !RECIPIENT_PARAMETERS.includes(parameter.name))
+      for (const parameter of addresses) {
+        unrecognizedRecipients.push({
+          rule: 'unverifiable',
+          actionId: action.id,
+          message: `${action.id}.${parameter.name} is not a recognized recipient parameter and cannot be checked against the recipient allowlist`
+        })
+      }
+    }
+
+    for (const [amountName, tokenNames] of Object.entries(AMOUNT_TOKEN_PARAMETERS)) {
+      const parameter = getParameter(action, amountName)
+      if (!parameter || (!parameter.value && !parameter.expression)) continue
+
+      const amount = Number(parameter.value)
+      if (parameter.expression || !Number.isFinite(amount)) {
+        computedAmounts.push({
+          rule: 'unverifiable',
+          actionId: action.id,
+          message: `${action.id}.${amountName} is computed at run time and cannot be checked against the spending limits`
+        })
+        continue
+      }
+      // Netted against other spends, a negative amount would hide them from the caps
+      if (amount <= 0) {
+        invalidAmounts.push({
+          rule: 'invalid-amount',
+          actionId: action.id,
+          message: `${action.id}.${amountName} is ${parameter.value}; amounts must be positive`
+        })
+        continue
+      }
+
+      const tokenParameter = tokenNames.map(name => getParameter(action, name)).find(param => param?.value)
+      spends.push({ actionId: action.id, token: normalizeToken(tokenParameter?.value || 'FLOW'), amount })
+    }
+
+    for (const name of RECIPIENT_PARAMETERS) {
+      const parameter = getParameter(action, name)
+      if (!parameter || (!parameter.value && !parameter.expression)) continue
+
+      if (parameter.expression) {
+        computedRecipients.push({
+          rule: 'unverifiable',
+          actionId: action.id,
+          message: `${action.id}.${name} is computed at run time and cannot be checked against the recipient allowlist`
+        })
+      } else {
+        recipients.push({ actionId: action.id, address: parameter.value })
+      }
+    }
+  }
+
+  return { spends, recipients, computedAmounts, computedRecipients, unrecognizedAmounts, unrecognizedRecipients, invalidAmounts }
+}
+
+const sumByToken = (entries: Array<{ token: string; amount: number }>) =>
+  entries.reduce<Record<string, number>>((totals, entry) => {
+    totals[entry.token] = (totals[entry.token] || 0) + entry.amount
+    return totals
+  }, {})
+
+// UFix64 has 8 decimals; compare after rounding so 0.1 + 0.2 fits a 0.3 cap
+const exceeds = (amount: number, limit: number) => Math.round(amount * 1e8) > Math.round(limit * 1e8)
+
+/**
+ * Check a run against its agent's policy. The result lists every violation
+ * rather than stopping at the first.
+ */
+export function evaluateAgentPolicy(
+  policy: AgentPolicy,
+  workflow: ParsedWorkflow,
+  spentToday: Array<{ token: string; amount: number }> = [],
+  options: { estimatedGas?: number } = {}
+): PolicyEvaluation {
+  const planned = extractPlannedSpends(workflow)
+  const { spends, recipients } = planned
+  const amountLimited = policy.maxAmountPerRun !== undefined || policy.maxAmountPerDay !== undefined ||
+    Object.keys(policy.tokenLimits || {}).length > 0
+  const violations: PolicyViolation[] = [
+    ...planned.invalidAmounts,
+    ...(amountLimited ? [...planned.computedAmounts, ...planned.unrecognizedAmounts] : []),
+    ...(policy.allowedRecipients ? [...planned.computedRecipients, ...planned.unrecognizedRecipients] : [])
+  ]
+
+  if (policy.allowedActionTypes) {
+    for (const action of workflow.actions) {
+      if (!policy.allowedActionTypes.includes(action.actionType)) {
+        violations.push({ rule: 'action-type', actionId: action.id, message: `Action type ${action.actionType} is not allowed` })
+      }
+    }
+  }
+
+  if (policy.allowedRecipients) {
+    const allowed = new Set(policy.allowedRecipients.map(normalizeAddress))
+    for (const recipient of recipients) {
+      if (!allowed.has(normalizeAddress(recipient.address))) {
+        violations.push({ rule: 'recipient', actionId: recipient.actionId, message: `Recipient ${recipient.address} is not on the allowlist` })
+      }
+    }
+  }
+
+  const runTotals = sumByToken(spends)
+  const dayTotals = sumByToken(spentToday)
+  const tokenLimits = Object.fromEntries(
+    Object.entries(policy.tokenLimits || {}).map(([token, limit]) => [normalizeToken(token), limit])
+  )
+
+  // Amounts in different tokens are never added together
+  for (const [token, amount] of Object.entries(runTotals)) {
+    const dayTotal = amount + (dayTotals[token] || 0)
+    if (policy.maxAmountPerRun !== undefined && exceeds(amount, policy.maxAmountPerRun)) {
+      violations.push({ rule: 'max-amount-per-run', message: `Run would move ${amount} ${token}, over the ${policy.maxAmountPerRun} per-run limit` })
+    }
+    if (policy.maxAmountPerDay !== undefined && exceeds(dayTotal, policy.maxAmountPerDay)) {
+      violations.push({
+        rule: 'max-amount-per-day',
+        message: `Run would bring today's ${token} total to ${dayTotal}, over the ${policy.maxAmountPerDay} daily limit`
+      })
+    }
+
+    const limit = tokenLimits[token]
+    if (limit?.perRun !== undefined && exceeds(amount, limit.perRun)) {
+      violations.push({ rule: 'token-per-run', message: `Run would move ${amount} ${token}, over the ${limit.perRun} ${token} per-run limit` })
+    }
+    if (limit?.perDay !== undefined && exceeds(dayTotal, limit.perDay)) {
+      violations.push({
+        rule: 'token-per-day',
+        message: `Run would bring today's ${token} total to ${dayTotal}, over the ${limit.perDay} ${token} daily limit`
+      })
+    }
+  }
+
+  if (policy.maxGasPerExecution !== undefined && options.estimatedGas !== undefined && options.estimatedGas > policy.maxGasPerExecution) {
+    violations.push({ rule: 'max-gas', message: `Estimated gas ${options.estimatedGas} is over the ${policy.maxGasPerExecution} limit` })
+  }
+
+  return {
+    allowed: violations.length === 0,
+    violations,
+    spends,
+    spendingLimits: compileSpendingLimits(policy, Object.keys(runTotals), dayTotals, tokenLimits),
+    gasLimit: policy.maxGasPerExecution
+  }
+}
+
+/**
+ * The most each spent token may leave the signer's vault in this run: the
+ * tightest of the run and remaining daily caps. Tokens without a known
+ * vault are only checked before submitting.
+ */
+function compileSpendingLimits(
+  policy: AgentPolicy,
+  tokens: string[],
+  dayTotals: Record<string, number>,
+  tokenLimits: Record<string, NonNullable<AgentPolicy['tokenLimits']>[string]>
+): TransactionSpendingLimit[] {
+  const limits: TransactionSpendingLimit[] = []
+
+  for (const token of tokens) {
+    const limit = tokenLimits[token]
+    const vaultPath = limit?.vaultPath || TOKEN_VAULT_PATHS[token]
+    if (!vaultPath) continue
+
+    const caps = [
+      policy.maxAmountPerRun,
+      policy.maxAmountPerDay !== undefined ? policy.maxAmountPerDay - (dayTotals[token] || 0) : undefined,
+      limit?.perRun,
+      limit?.perDay !== undefined ? limit.perDay - (dayTotals[token] || 0) : undefined
+    ].filter((cap): cap is number => cap !== undefined)
+    if (caps.length === 0) continue
+
+    limits.push({ token, vaultPath, maxAmount: Math.max(0, Math.min(...caps)) })
+  }
+  return limits
+}
+
+/**
+ * Check a policy before an agent is saved
+ */
+export function validateAgentPolicy(policy: AgentPolicy): void {
+  const checkAmount = (value: unknown, label: string) => {
+    if (value !== undefined && (typeof value !== 'number' || !(value >= 0))) {
+      throw new Error(`${label} must be a non-negative number`)
+    }
+  }
+
+  checkAmount(policy.maxAmountPerRun, 'Max amount per run')
+  checkAmount(policy.maxAmountPerDay, 'Max amount per day')
+  checkAmount(policy.maxGasPerExecution, 'Max gas per execution')
+
+  for (const [token, limit] of Object.entries(policy.tokenLimits || {})) {
+    checkAmount(limit.perRun, `${token} per-run limit`)
+    checkAmount(limit.perDay, `${token} daily limit`)
+    if (limit.vaultPath !== undefined && !/^\/storage\/\w+$/.test(limit.vaultPath)) {
+      throw new Error(`${token} vault path must look like /storage/flowTokenVault`)
+    }
+  }
+
+  for (const address of policy.allowedRecipients || []) {
+    if (!/^(0x)?[0-9a-fA-F]{16}$/.test(address.trim())) {
+      throw new Error(`Invalid allowed recipient address: ${address}`)
+    }
+  }
+}
+
+/**
+ * Evaluates agent runs against their policies and records what their runs
+ * spend, so daily limits hold across runs and restarts
+ */
+export class AgentPolicyEngine {
+  private store: AgentJobStore
+
+  constructor(options: { store?: AgentJobStore } = {}) {
+    this.store = options.store || getDefaultAgentJobStore()
+  }
+
+  async evaluate(agent: Agent, workflow: ParsedWorkflow, options: { estimatedGas?: number } = {}): Promise<PolicyEvaluation> {
+    if (!agent.policy) {
+      return { allowed: true, violations: [], spends: extractPlannedSpends(workflow).spends, spendingLimits: [] }
+    }
+
+    const spentToday = await this.store.listSpending(agent.id, new Date(Date.now() - DAY_MS))
+    return evaluateAgentPolicy(agent.policy, workflow, spentToday, options)
+  }
+
+  /**
+   * Evaluate and throw AgentPolicyViolationError when the run is not allowed
+   */
+  async check(agent: Agent, workflow: ParsedWorkflow, options: { estimatedGas?: number } = {}): Promise<PolicyEvaluation> {
+    const evaluation = await this.evaluate(agent, workflow, options)
+    if (!evaluation.allowed) {
+      throw new AgentPolicyViolationError(evaluation.violations)
+    }
+    return evaluation
+  }
+
+  /**
+   * Evaluate a run and, when it is allowed, record its spending in the same
+   * store update, so concurrent runs cannot both fit under a daily cap.
+   * Throws AgentPolicyViolationError when the run is not allowed; release
+   * the reservation if the run then fails.
+   */
+  async reserve(
+    agent: Agent,
+    executionId: string,
+    workflow: ParsedWorkflow,
+    options: { estimatedGas?: number } = {}
+  ): Promise<PolicyEvaluation> {
+    const policy = agent.policy
+    if (!policy) return this.check(agent, workflow, options)
+
+    const evaluation = await this.store.reserveSpending(agent.id, new Date(Date.now() - DAY_MS), spentToday => {
+      const result = evaluateAgentPolicy(policy, workflow, spentToday, options)
+      return { result, records: result.allowed ? toSpendRecords(agent.id, executionId, result.spends) : [] }
+    })
+    if (!evaluation.allowed) {
+      throw new AgentPolicyViolationError(evaluation.violations)
+    }
+    return evaluation
+  }
+
+  async release(agentId: string, executionId: string): Promise<void> {
+    await this.store.releaseSpending(agentId, executionId)
+  }
+
+  async recordSpending(agentId: string, executionId: string, spends: PlannedSpend[]): Promise<void> {
+    await this.store.recordSpending(toSpendRecords(agentId, executionId, spends))
+  }
+}
+
+function toSpendRecords(agentId: string, executionId: string, spends: PlannedSpend[]) {
+  return Object.entries(sumByToken(spends)).map(([token, amount]) => ({ agentId, executionId, token, amount }))
+}
@@ -2,16 +2,77 @@ import {
   Schedule, 
   EventTrigger, 
   TriggerCondition, 
-  Agent 
+  Agent,
+  OracleSourceConfig
 } from './types'
+import {
+  getNextCronRun,
+  getNextCronRuns,
+  isValidTimeZone,
+  parseCronExpression
+} from './cron-expression'
+import { agentExecutionService } from './agent-execution-service'
+import { AgentJob, AgentJobStore, getDefaultAgentJobStore } from './agent-job-store'
+import {
+  FlowChainEvent,
+  FlowEventMonitor,
+  FlowEventSource,
+  FlowEventSubscription,
+  createFlowEventSourceFromEnv,
+  resolveParameterBindings
+} from './flow-event-monitor'
+import {
+  DEFAULT_ORACLE_POLL_INTERVAL,
+  OracleAdapter,
+  OracleReading,
+  OracleReadingCache,
+  StaleOracleReadingError,
+  createOracleAdapter
+} from './oracle-adapter'
+import { TriggerEdgeState, advanceTriggerState, isConditionMet } from './trigger-condition'
+
+/**
+ * Runs an agent when its schedule comes due or one of its triggers fires.
+ * The idempotency key identifies the job, so a redelivered job is not run twice.
+ */
+export type AgentExecutor = (
+  agent: Agent,
+  trigger?: { type: string; data?: any },
+  options?: { idempotencyKey?: string }
+) => Promise<unknown>
+
+export interface AgentSchedulingServiceOptions {
+  executeAgent?: AgentExecutor
+  store?: AgentJobStore
+  workerId?: string
+  leaseMs?: number
+  misfireThreshold?: number // ms a run may start late before it counts as missed
+  maxCatchUpRuns?: number // missed runs a fire-all schedule replays per agent; older ones are skipped
+  eventSource?: FlowEventSource // defaults to the FLOW_AGENT_NETWORK access node
+  eventPollInterval?: number // ms between scans for on-chain trigger events
+  createOracleAdapter?: (config: OracleSourceConfig) => OracleAdapter
+  oracleCache?: OracleReadingCache
+  pruneInterval?: number // ms between prunes of the job store
+  retention?: number // ms finished jobs and execution ledger entries are kept
+}
 
 /**
  * Agent Scheduling and Event Trigger System
  * 
  * Provides comprehensive scheduling and event monitoring capabilities:
  * - Schedule parser for cron expressions and intervals
- * - Event monitoring system for oracle-based triggers
+ * - Event monitoring system for oracle-based triggers, polling pluggable
+ *   oracle adapters through a shared reading cache; stale readings never
+ *   fire, and debounce and hysteresis keep triggers from flapping. Readings
+ *   are recorded in the job store for backtests.
+ * - On-chain Flow event triggers scanned from persisted block-height
+ *   checkpoints, with event fields injectable into workflow parameters
  * - Trigger condition evaluation and execution logic
+ * - Durable jobs in an AgentJobStore: the next run of every scheduled agent
+ *   and every trigger firing is persisted and leased to a worker, so
+ *   schedules survive restarts and missed runs follow the agent's
+ *   misfire policy. Under fire-all only the latest maxCatchUpRuns missed
+ *   runs are replayed. Finished jobs are pruned from the store periodically.
  * 
  * Requirements: 4.2, 4.3
  */
@@ -19,33 +80,84 @@ export class AgentSchedulingService {
   private scheduledJobs: Map<string, ScheduledJob> = new Map()
   private eventMonitors: Map<string, EventMonitor> = new Map()
   private oracleConnections: Map<string, OracleConnection> = new Map()
+  private flowEventMonitor: FlowEventMonitor | null = null
+  private eventSource: FlowEventSource | null
+  private eventPollInterval: number
+  private createOracleAdapter: (config: OracleSourceConfig) => OracleAdapter
+  private oracleCache: OracleReadingCache
+  private agents: Map<string, Agent> = new Map()
+  private executeAgent: AgentExecutor | null
+  private store: AgentJobStore
+  private workerId: string
+  private leaseMs: number
+  private misfireThreshold: number
+  private maxCatchUpRuns: number
+  private pruneInterval: number
+  private retention: number
+  private timers: NodeJS.Timeout[] = []
+  private ready: Promise<void>
+  private isProcessing = false
   private isRunning = false
 
-  constructor() {
+  constructor(options: AgentSchedulingServiceOptions = {}) {
+    this.executeAgent = options.executeAgent || null
+    this.store = options.store || getDefaultAgentJobStore()
+    this.workerId = options.workerId || `scheduler_${process.pid}_${Math.random().toString(36).substring(2, 9)}`
+    this.leaseMs = options.leaseMs ?? 60000
+    this.misfireThreshold = options.misfireThreshold ?? 60000
+    this.maxCatchUpRuns = options.maxCatchUpRuns ?? 10
+    this.pruneInterval = options.pruneInterval ?? 60 * 60 * 1000
+    this.retention = options.retention ?? 7 * 24 * 60 * 60 * 1000
+    this.eventSource = options.eventSource || null
+    this.eventPollInterval = options.eventPollInterval ?? 10000
+    this.createOracleAdapter = options.createOracleAdapter || (config => createOracleAdapter(config))
+    this.oracleCache = options.oracleCache || new OracleReadingCache()
+    this.ready = this.restoreScheduledJobs()
     this.startSchedulingEngine()
   }
 
   /**
    * Schedule Management
    * Requirement 4.2: Create schedule parser for cron expressions and intervals
+   *
+   * The in-memory schedule is updated immediately; the returned promise
+   * settles once the next run is persisted.
    */
-  scheduleAgent(agent: Agent): void {
-    const jobId = `agent_${agent.id}`
-    
+  scheduleAgent(agent: Agent): Promise<void> {
+    const nextExecution = this.calculateNextExecution(agent.schedule)
+
     // Remove existing schedule if any
-    this.unscheduleAgent(agent.id)
+    this.removeSchedule(agent.id)
+    this.addSchedule(agent, nextExecution, 0)
+
+    return this.track(this.store.replaceAgentJob({
+      kind: 'schedule',
+      agent,
+      idempotencyKey: scheduleKey(agent.id, nextExecution),
+      runAt: nextExecution
+    }))
+  }
+
+  unscheduleAgent(agentId: string): Promise<void> {
+    this.removeSchedule(agentId)
+    return this.track(this.store.cancelAgentJobs(agentId, ['schedule', 'trigger']))
+  }
+
+  private addSchedule(agent: Agent, nextExecution: Date, executionCount: number): void {
+    const jobId = `agent_${agent.id}`
 
     const job: ScheduledJob = {
       id: jobId,
       agentId: agent.id,
       schedule: agent.schedule,
       lastExecution: null,
-      nextExecution: this.calculateNextExecution(agent.schedule),
-      executionCount: 0,
+      nextExecution,
+      executionCount,
       isActive: true
     }
 
     this.scheduledJobs.set(jobId, job)
+    this.agents.set(agent.id, agent)
 
     // Set up event triggers if any
     if (agent.triggers && agent.triggers.length > 0) {
@@ -53,9 +165,10 @@ export class AgentSchedulingService {
     }
   }
 
-  unscheduleAgent(agentId: string): void {
+  private removeSchedule(agentId: string): void {
     const jobId = `agent_${agentId}`
     this.scheduledJobs.delete(jobId)
+    this.agents.delete(agentId)
     
     // Clean up event monitors
     const monitorId = `monitor_${agentId}`
@@ -63,101 +176,67 @@ export class AgentSchedulingService {
     if (monitor) {
       this.stopEventMonitor(monitorId)
     }
+    this.disconnectOracles(agentId)
+    this.flowEventMonitor?.unsubscribe(agentId)
+  }
+
+  /**
+   * Rebuild the in-memory schedules from the persisted pending jobs
+   */
+  private async restoreScheduledJobs(): Promise<void> {
+    try {
+      const [pending, completed] = await Promise.all([
+        this.store.listJobs({ kinds: ['schedule'], statuses: ['pending', 'leased'] }),
+        this.store.listJobs({ kinds: ['schedule'], statuses: ['completed'] })
+      ])
+
+      for (const job of pending) {
+        // Scheduled again since startup
+        if (this.agents.has(job.agentId)) continue
+
+        const executionCount = completed.filter(done => done.agentId === job.agentId).length
+        this.addSchedule(job.agent, new Date(job.runAt), executionCount)
+      }
+    } catch (error) {
+      console.error('Failed to restore agent schedules:', error)
+    }
   }
 
   /**
    * Cron Expression Parser
    * Requirement 4.2: Schedule parser for cron expressions and intervals
+   *
+   * Interval schedules stay aligned to `anchor` (the run that just came
+   * due), so the next run after a delay is the next slot after `after`.
    */
-  private calculateNextExecution(schedule: Schedule): Date {
-    const now = new Date()
-
+  private calculateNextExecution(schedule: Schedule, after: Date = new Date(), anchor?: Date): Date {
     switch (schedule.type) {
       case 'one-time':
-        return schedule.startTime ? new Date(schedule.startTime) : now
+        return schedule.startTime ? new Date(schedule.startTime) : after
 
       case 'recurring':
         if (schedule.interval) {
           // Interval-based scheduling (seconds)
-          return new Date(now.getTime() + schedule.interval * 1000)
+          const interval = schedule.interval * 1000
+          if (!anchor) {
+            return new Date(after.getTime() + interval)
+          }
+          const slots = Math.floor((after.getTime() - anchor.getTime()) / interval) + 1
+          return new Date(anchor.getTime() + Math.max(slots, 1) * interval)
         } else if (schedule.cronExpression) {
-          // Cron expression parsing
-          return this.parseCronExpression(schedule.cronExpression, now)
+          return getNextCronRun(schedule.cronExpression, after, schedule.timezone)
         }
         throw new Error('Recurring schedule requires interval or cron expression')
 
       case 'event-driven':
         // Event-driven schedules don't have fixed next execution times
-        return new Date(now.getTime() + 24 * 60 * 60 * 1000) // Check daily
+        return new Date(after.getTime() + 24 * 60 * 60 * 1000) // Check daily
 
       default:
         throw new Error(`Unsupported schedule type: ${schedule.type}`)
     }
   }
 
-  /**
-   * Cron Expression Parser
-   * Supports basic cron format: minute hour day month dayOfWeek
-   */
-  private parseCronExpression(cronExpression: string, fromDate: Date): Date {
-    const parts = cronExpression.trim().split(/\s+/)
-    if (parts.length !== 5) {
-      throw new Error('Cron expression must have 5 parts: minute hour day month dayOfWeek')
-    }
-
-    const [minute, hour, day, month, dayOfWeek] = parts
-    const next = new Date(fromDate)
-
-    // Simple cron parsing - supports basic patterns
-    if (minute !== '*') {
-      const minuteValue = parseInt(minute)
-      if (isNaN(minuteValue) || minuteValue < 0 || minuteValue > 59) {
-        throw new Error('Invalid minute in cron expression')
-      }
-      next.setMinutes(minuteValue)
-    }
-
-    if (hour !== '*') {
-      const hourValue = parseInt(hour)
-      if (isNaN(hourValue) || hourValue < 0 || hourValue > 23) {
-        throw new Error('Invalid hour in cron expression')
-      }
-      next.setHours(hourValue)
-    }
-
-    if (day !== '*') {
-      const dayValue = parseInt(day)
-      if (isNaN(dayValue) || dayValue < 1 || dayValue > 31) {
-        throw new Error('Invalid day in cron expression')
-      }
-      next.setDate(dayValue)
-    }
-
-    if (month !== '*') {
-      const monthValue = parseInt(month)
-      if (isNaN(monthValue) || monthValue < 1 || monthValue > 12) {
-        throw new Error('Invalid month in cron expression')
-      }
-      next.setMonth(monthValue - 1) // JavaScript months are 0-indexed
-    }
-
-    // Ensure next execution is in the future
-    if (next <= fromDate) {
-      // Add appropriate time unit to move to next occurrence
-      if (minute !== '*' && hour === '*') {
-        next.setHours(next.getHours() + 1)
-      } else if (hour !== '*' && day === '*') {
-        next.setDate(next.getDate() + 1)
-      } else if (day !== '*' && month === '*') {
-        next.setMonth(next.getMonth() + 1)
-      } else {
-        next.setFullYear(next.getFullYear() + 1)
-      }
-    }
-
-    return next
-  }
-
   /**
    * Event Trigger System
    * Requirement 4.3: Event monitoring system for oracle-based triggers
@@ -174,113 +253,180 @@ export class AgentSchedulingService {
       triggerStates: new Map()
     }
 
-    // Initialize trigger states
-    for (const trigger of agent.triggers) {
-      monitor.triggerStates.set(trigger.type, {
+    // Initialize trigger states, by index: an agent may have several
+    // triggers of one type
+    for (const index of agent.triggers.keys()) {
+      monitor.triggerStates.set(index, {
         lastValue: null,
         lastCheck: new Date().toISOString(),
-        conditionMet: false
+        conditionMet: false,
+        pendingSince: null
       })
     }
 
     this.eventMonitors.set(monitorId, monitor)
 
     // Set up oracle connections for triggers that need them
-    this.setupOracleConnections(agent.triggers)
-  }
-
-  private setupOracleConnections(triggers: EventTrigger[]): void {
-    for (const trigger of triggers) {
-      if (trigger.oracleAction) {
-        const connectionId = `oracle_${trigger.oracleAction}`
-        
-        if (!this.oracleConnections.has(connectionId)) {
-          const connection: OracleConnection = {
-            id: connectionId,
-            oracleActionId: trigger.oracleAction,
-            isConnected: false,
-            lastUpdate: null,
-            data: null,
-            subscribers: new Set()
-          }
-
-          this.oracleConnections.set(connectionId, connection)
-          this.connectToOracle(connection)
-        }
+    this.setupOracleConnections(agent)
 
-        // Subscribe trigger to oracle updates
-        const connection = this.oracleConnections.get(connectionId)!
-        connection.subscribers.add(trigger.type)
+    // Watch the chain for flow-event triggers
+    agent.triggers.forEach((trigger, index) => {
+      if (trigger.type === 'flow-event' && trigger.flowEvent) {
+        this.getFlowEventMonitor().subscribe(agent.id, index, trigger.flowEvent)
       }
+    })
+  }
+
+  /**
+   * On-chain Event Triggers
+   * The monitor is created on first use, so agents without flow-event
+   * triggers never contact an access node
+   */
+  private getFlowEventMonitor(): FlowEventMonitor {
+    if (!this.flowEventMonitor) {
+      this.flowEventMonitor = new FlowEventMonitor({
+        source: this.eventSource || createFlowEventSourceFromEnv(),
+        store: this.store,
+        onEvent: (subscription, event) => this.handleFlowEvent(subscription, event)
+      })
     }
+    return this.flowEventMonitor
   }
 
-  private async connectToOracle(connection: OracleConnection): Promise<void> {
+  private async processFlowEvents(): Promise<void> {
+    if (!this.flowEventMonitor) return
+
     try {
-      // Simulate oracle connection
-      console.log(`Connecting to oracle for action: ${connection.oracleActionId}`)
-      
-      // In real implementation, this would:
-      // 1. Connect to the oracle Action on Flow blockchain
-      // 2. Set up event listeners for data updates
-      // 3. Handle connection failures and reconnection
-      
-      connection.isConnected = true
-      connection.lastUpdate = new Date().toISOString()
-      
-      // Simulate periodic data updates
-      this.startOracleDataSimulation(connection)
-      
+      await this.ready
+      const matched = await this.flowEventMonitor.poll()
+      if (matched > 0) {
+        await this.processScheduledJobs()
+      }
     } catch (error) {
-      console.error(`Failed to connect to oracle ${connection.id}:`, error)
-      connection.isConnected = false
+      console.error('Failed to poll Flow events for agent triggers:', error)
     }
   }
 
-  private startOracleDataSimulation(connection: OracleConnection): void {
-    // Simulate oracle data updates every 30 seconds
-    setInterval(() => {
-      if (connection.isConnected) {
-        // Simulate price data for price triggers
-        connection.data = {
-          price: Math.random() * 1000 + 100, // Random price between 100-1100
-          timestamp: new Date().toISOString(),
-          source: 'simulated_oracle'
+  /**
+   * Enqueue a trigger job for a matching event. The key identifies the
+   * event, so an event seen again after a crash is not run twice.
+   */
+  private async handleFlowEvent(subscription: FlowEventSubscription, event: FlowChainEvent): Promise<void> {
+    const agent = this.agents.get(subscription.agentId)
+    if (!agent) return
+
+    console.log(`Agent ${agent.id} triggered by ${event.type} in transaction ${event.transactionId}`)
+    await this.store.enqueue({
+      kind: 'trigger',
+      agent,
+      idempotencyKey: `flow-event:${agent.id}:${subscription.triggerIndex}:${event.transactionId}:${event.eventIndex}`,
+      runAt: new Date(),
+      trigger: {
+        type: 'flow-event',
+        data: {
+          event,
+          parameters: resolveParameterBindings(subscription.config.parameterBindings, event)
         }
-        connection.lastUpdate = new Date().toISOString()
-        
-        // Notify subscribers
-        this.notifyOracleSubscribers(connection)
       }
-    }, 30000)
+    })
   }
 
-  private notifyOracleSubscribers(connection: OracleConnection): void {
-    for (const subscriberType of connection.subscribers) {
-      // Find monitors that have triggers of this type
-      for (const [monitorId, monitor] of this.eventMonitors) {
-        const trigger = monitor.triggers.find(t => t.type === subscriberType)
-        if (trigger && trigger.oracleAction === connection.oracleActionId) {
-          this.evaluateTriggerCondition(monitor, trigger, connection.data)
+  private setupOracleConnections(agent: Agent): void {
+    agent.triggers.forEach((trigger, index) => {
+      if (!trigger.oracle) {
+        if (trigger.oracleAction) {
+          console.warn(`Trigger ${trigger.type} of agent ${agent.id} has no oracle source and will not fire`)
         }
+        return
+      }
+
+      const connection: OracleConnection = {
+        id: `oracle_${agent.id}_${index}`,
+        agentId: agent.id,
+        triggerIndex: index,
+        source: trigger.oracle,
+        adapter: this.createOracleAdapter(trigger.oracle),
+        isConnected: false,
+        lastUpdate: null,
+        data: null,
+        error: null,
+        timer: null
       }
+      this.oracleConnections.set(connection.id, connection)
+      this.connectToOracle(connection)
+    })
+  }
+
+  private connectToOracle(connection: OracleConnection): void {
+    console.log(`Connecting to oracle ${connection.adapter.id} for agent ${connection.agentId}`)
+
+    this.pollOracle(connection)
+    connection.timer = setInterval(() => {
+      this.pollOracle(connection)
+    }, connection.source.pollInterval ?? DEFAULT_ORACLE_POLL_INTERVAL)
+  }
+
+  /**
+   * Read the oracle and evaluate the trigger it feeds. A stale or failed
+   * reading leaves the trigger untouched rather than evaluating old data.
+   */
+  private async pollOracle(connection: OracleConnection): Promise<void> {
+    let reading: OracleReading
+    try {
+      reading = await this.oracleCache.read(connection.adapter, connection.source)
+      connection.isConnected = true
+      connection.error = null
+    } catch (error) {
+      // A stale reading still means the source answered
+      connection.isConnected = error instanceof StaleOracleReadingError
+      connection.error = error instanceof Error ? error.message : String(error)
+      console.warn(`Oracle ${connection.adapter.id} unavailable for agent ${connection.agentId}:`, connection.error)
+      return
+    }
+
+    connection.data = reading
+    connection.lastUpdate = new Date().toISOString()
+    // Kept as history for backtests
+    this.track(this.store.recordOracleReading(connection.adapter.id, reading))
+
+    const monitor = this.eventMonitors.get(`monitor_${connection.agentId}`)
+    const trigger = monitor?.triggers[connection.triggerIndex]
+    if (!monitor?.isActive || !trigger) return
+
+    const field = trigger.type === 'custom' ? 'value' : trigger.type
+    await this.evaluateTriggerCondition(monitor, connection.triggerIndex, {
+      [field]: reading.value,
+      timestamp: reading.timestamp,
+      source: reading.source
+    })
+  }
+
+  private disconnectOracles(agentId: string): void {
+    for (const [connectionId, connection] of this.oracleConnections) {
+      if (connection.agentId !== agentId) continue
+      if (connection.timer) clearInterval(connection.timer)
+      this.oracleConnections.delete(connectionId)
     }
   }
 
   /**
    * Trigger Condition Evaluation
    * Requirement 4.3: Trigger condition evaluation and execution logic
+   *
+   * Triggers fire on the edge: once the condition has held for its debounce
+   * period, and again only after the value has moved back past the
+   * threshold by the hysteresis margin.
    */
-  private evaluateTriggerCondition(
+  private async evaluateTriggerCondition(
     monitor: EventMonitor, 
-    trigger: EventTrigger, 
+    triggerIndex: number, 
     data: any
-  ): void {
-    const triggerState = monitor.triggerStates.get(trigger.type)
-    if (!triggerState) return
+  ): Promise<void> {
+    const trigger = monitor.triggers[triggerIndex]
+    const triggerState = monitor.triggerStates.get(triggerIndex)
+    if (!trigger || !triggerState) return
 
     let currentValue: any
-    let conditionMet = false
 
     // Extract relevant value based on trigger type
     switch (trigger.type) {
@@ -301,63 +447,41 @@ export class AgentSchedulingService {
         return
     }
 
-    if (currentValue !== null && currentValue !== undefined) {
-      conditionMet = this.evaluateCondition(trigger.condition, currentValue)
-    }
-
-    // Update trigger state
+    const now = new Date()
     triggerState.lastValue = currentValue
-    triggerState.lastCheck = new Date().toISOString()
-    triggerState.conditionMet = conditionMet
+    triggerState.lastCheck = now.toISOString()
+    if (currentValue === null || currentValue === undefined || !trigger.condition) return
 
-    // If condition is met, trigger agent execution
-    if (conditionMet) {
-      this.triggerAgentExecution(monitor.agentId, trigger)
+    if (advanceTriggerState(triggerState, trigger.condition, currentValue, now)) {
+      await this.triggerAgentExecution(monitor.agentId, triggerIndex, trigger, currentValue)
     }
   }
 
   private evaluateCondition(condition: TriggerCondition, value: any): boolean {
-    const { operator, value: targetValue, tolerance = 0 } = condition
-
-    switch (operator) {
-      case 'gt':
-        return value > targetValue
-      case 'gte':
-        return value >= targetValue
-      case 'lt':
-        return value < targetValue
-      case 'lte':
-        return value <= targetValue
-      case 'eq':
-        // Use tolerance for floating point comparisons
-        return Math.abs(value - targetValue) <= tolerance
-      default:
-        console.warn(`Unknown condition operator: ${operator}`)
-        return false
-    }
+    return isConditionMet(condition, value)
   }
 
-  private async triggerAgentExecution(agentId: string, trigger: EventTrigger): Promise<void> {
+  private async triggerAgentExecution(agentId: string, triggerIndex: number, trigger: EventTrigger, value?: unknown): Promise<void> {
     console.log(`Triggering execution for agent ${agentId} due to ${trigger.type} trigger`)
     
-    // In real implementation, this would:
-    // 1. Load the agent's workflow
-    // 2. Execute the workflow on the blockchain
-    // 3. Handle execution results and errors
-    // 4. Update execution metrics
-    
-    // For now, just log the trigger
-    const monitor = Array.from(this.eventMonitors.values())
-      .find(m => m.agentId === agentId)
-    
-    if (monitor) {
-      console.log(`Agent ${agentId} triggered by ${trigger.type} condition:`, trigger.condition)
-    }
+    const agent = this.agents.get(agentId)
+    if (!agent) return
+
+    console.log(`Agent ${agentId} triggered by ${trigger.type} condition:`, trigger.condition)
+    const firedAt = new Date()
+    await this.track(this.store.enqueue({
+      kind: 'trigger',
+      agent,
+      idempotencyKey: `trigger:${agentId}:${triggerIndex}:${firedAt.toISOString()}`,
+      runAt: firedAt,
+      trigger: { type: trigger.type, data: { condition: trigger.condition, value } }
+    }))
+    await this.processScheduledJobs()
   }
 
   /**
    * Scheduling Engine
-   * Main loop that checks for scheduled executions
+   * Main loop that leases due jobs from the job store
    */
   private startSchedulingEngine(): void {
     if (this.isRunning) return
@@ -365,49 +489,165 @@ export class AgentSchedulingService {
     this.isRunning = true
     
     // Check for scheduled executions every 10 seconds
-    setInterval(() => {
+    this.timers.push(setInterval(() => {
       this.processScheduledJobs()
-    }, 10000)
+    }, 10000))
 
     // Check event triggers every 5 seconds
-    setInterval(() => {
+    this.timers.push(setInterval(() => {
       this.processEventTriggers()
-    }, 5000)
+    }, 5000))
+
+    // Scan new sealed blocks for on-chain trigger events
+    this.timers.push(setInterval(() => {
+      this.processFlowEvents()
+    }, this.eventPollInterval))
+
+    // Drop finished jobs and ledger entries past their retention
+    this.timers.push(setInterval(() => {
+      this.pruneStore()
+    }, this.pruneInterval))
   }
 
-  private processScheduledJobs(): void {
-    const now = new Date()
+  private async pruneStore(): Promise<void> {
+    try {
+      const removed = await this.store.prune(new Date(Date.now() - this.retention))
+      if (removed > 0) console.log(`Pruned ${removed} finished agent jobs`)
+    } catch (error) {
+      console.error('Failed to prune the agent job store:', error)
+    }
+  }
 
-    for (const [jobId, job] of this.scheduledJobs) {
-      if (!job.isActive) continue
+  private async processScheduledJobs(): Promise<void> {
+    if (this.isProcessing) return
+    this.isProcessing = true
 
-      if (job.nextExecution && now >= job.nextExecution) {
-        this.executeScheduledJob(job)
+    try {
+      await this.ready
+
+      // Keep leasing until nothing is due, so missed runs replayed under
+      // the fire-all policy catch up in one pass; executeScheduledJob caps
+      // how many of them run
+      for (;;) {
+        const jobs = await this.store.lease(this.workerId, {
+          kinds: ['schedule', 'trigger'],
+          leaseMs: this.leaseMs
+        })
+        if (jobs.length === 0) break
+
+        for (const job of jobs) {
+          await this.store.runLeased(job, this.workerId, leased => this.executeScheduledJob(leased), this.leaseMs)
+        }
       }
+    } catch (error) {
+      console.error('Failed to process scheduled agent jobs:', error)
+    } finally {
+      this.isProcessing = false
     }
   }
 
-  private async executeScheduledJob(job: ScheduledJob): Promise<void> {
-    console.log(`Executing scheduled job for agent ${job.agentId}`)
-    
-    try {
-      // Update execution tracking
-      job.lastExecution = new Date().toISOString()
-      job.executionCount++
-
-      // Calculate next execution for recurring jobs
-      if (job.schedule.type === 'recurring') {
-        job.nextExecution = this.calculateNextExecution(job.schedule)
-      } else if (job.schedule.type === 'one-time') {
-        // One-time jobs are deactivated after execution
-        job.isActive = false
+  private async executeScheduledJob(job: AgentJob): Promise<void> {
+    console.log(`Executing ${job.kind} job for agent ${job.agentId}`)
+
+    if (job.kind === 'trigger') {
+      await this.runAgent(job, job.trigger)
+      return
+    }
+
+    const now = new Date()
+    const runAt = new Date(job.runAt)
+    const schedule = job.agent.schedule
+    const policy = schedule.misfirePolicy || 'fire-once'
+    const misfired = now.getTime() - runAt.getTime() > this.misfireThreshold
+
+    // Persist the next run before this one starts, so a crash mid-run
+    // cannot end the schedule
+    let nextExecution: Date | null = null
+    let skippedRuns = 0
+    if (schedule.type !== 'one-time') {
+      nextExecution = this.calculateNextExecution(schedule, policy === 'fire-all' ? runAt : now, runAt)
+      if (misfired && policy === 'fire-all') {
+        const catchUp = this.limitCatchUp(schedule, runAt, now)
+        if (catchUp.skipped > 0) {
+          nextExecution = catchUp.next
+          skippedRuns = catchUp.skipped
+        }
       }
+      await this.store.enqueueFollowUp(job.id, {
+        kind: 'schedule',
+        agent: job.agent,
+        idempotencyKey: scheduleKey(job.agentId, nextExecution),
+        runAt: nextExecution
+      })
+    }
 
-      // In real implementation, execute the agent's workflow here
-      
-    } catch (error) {
-      console.error(`Failed to execute scheduled job ${job.id}:`, error)
+    // Update execution tracking
+    const scheduled = this.scheduledJobs.get(`agent_${job.agentId}`)
+    if (scheduled) {
+      scheduled.nextExecution = nextExecution
+      // One-time jobs are deactivated after execution
+      scheduled.isActive = nextExecution !== null
+    }
+
+    if (misfired && policy === 'skip') {
+      console.log(`Skipping missed run of agent ${job.agentId} scheduled for ${job.runAt}`)
+      return
+    }
+
+    if (skippedRuns > 0) {
+      console.warn(
+        `Skipping ${skippedRuns} missed runs of agent ${job.agentId} from ${job.runAt}; ` +
+        `fire-all replays at most ${this.maxCatchUpRuns}, resuming at ${nextExecution!.toISOString()}`
+      )
+      return
+    }
+
+    if (scheduled) {
+      scheduled.lastExecution = now.toISOString()
+      scheduled.executionCount++
+    }
+
+    await this.runAgent(job, {
+      type: 'schedule',
+      data: misfired ? { scheduledFor: job.runAt, misfired: true } : { scheduledFor: job.runAt }
+    })
+  }
+
+  /**
+   * Missed runs of a fire-all schedule from `runAt` up to `now`, keeping only
+   * the latest maxCatchUpRuns. Returns the first run to keep (the next future
+   * run when none are kept) and how many runs before it are dropped.
+   */
+  private limitCatchUp(schedule: Schedule, runAt: Date, now: Date): { next: Date; skipped: number } {
+    const kept: Date[] = []
+    let skipped = 0
+    let run = runAt
+    while (run.getTime() <= now.getTime()) {
+      kept.push(run)
+      if (kept.length > this.maxCatchUpRuns) {
+        kept.shift()
+        skipped++
+      }
+      run = this.calculateNextExecution(schedule, run, runAt)
     }
+    return { next: kept[0] ?? run, skipped }
+  }
+
+  /**
+   * Hand the agent to the executor, which records results and handles retries
+   */
+  private async runAgent(job: AgentJob, trigger?: { type: string; data?: any }): Promise<void> {
+    if (!this.executeAgent) return
+    await this.executeAgent(job.agent, trigger, { idempotencyKey: job.idempotencyKey })
+  }
+
+  /**
+   * Surface persistence failures for callers that don't await them
+   */
+  private track(write: Promise<unknown>): Promise<void> {
+    const tracked = write.then(() => {})
+    tracked.catch(error => console.error('Failed to persist agent job:', error))
+    return tracked
   }
 
   private processEventTriggers(): void {
@@ -415,9 +655,9 @@ export class AgentSchedulingService {
     for (const [monitorId, monitor] of this.eventMonitors) {
       if (!monitor.isActive) continue
 
-      for (const trigger of monitor.triggers) {
+      for (const [index, trigger] of monitor.triggers.entries()) {
         if (trigger.type === 'time') {
-          this.evaluateTriggerCondition(monitor, trigger, {
+          this.evaluateTriggerCondition(monitor, index, {
             timestamp: new Date().toISOString()
           })
         }
@@ -454,17 +694,31 @@ export class AgentSchedulingService {
     return Array.from(this.eventMonitors.values()).filter(m => m.isActive)
   }
 
+  getOracleConnections(agentId: string): OracleConnection[] {
+    return Array.from(this.oracleConnections.values()).filter(connection => connection.agentId === agentId)
+  }
+
   /**
    * Cleanup
    */
   destroy(): void {
     this.isRunning = false
+    this.timers.forEach(timer => clearInterval(timer))
+    this.timers = []
     this.scheduledJobs.clear()
     this.eventMonitors.clear()
+    this.oracleConnections.forEach(connection => connection.timer && clearInterval(connection.timer))
     this.oracleConnections.clear()
+    this.oracleCache.clear()
+    this.flowEventMonitor = null
+    this.agents.clear()
   }
 }
 
+function scheduleKey(agentId: string, runAt: Date): string {
+  return `schedule:${agentId}:${runAt.toISOString()}`
+}
+
 /**
  * Supporting Interfaces
  */
@@ -484,113 +738,58 @@ export interface EventMonitor {
   triggers: EventTrigger[]
   isActive: boolean
   lastCheck: string
-  triggerStates: Map<string, TriggerState>
+  triggerStates: Map<number, TriggerState> // By trigger index
 }
 
-export interface TriggerState {
+export interface TriggerState extends TriggerEdgeState {
   lastValue: any
   lastCheck: string
-  conditionMet: boolean
 }
 
 export interface OracleConnection {
   id: string
-  oracleActionId: string
+  agentId: string
+  triggerIndex: number
+  source: OracleSourceConfig
+  adapter: OracleAdapter
   isConnected: boolean
   lastUpdate: string | null
-  data: any
-  subscribers: Set<string>
+  data: OracleReading | null
+  error: string | null
+  timer: NodeJS.Timeout | null
 }
 
 /**
  * Cron Expression Utilities
+ *
+ * Thin wrapper over cron-expression.ts so validation accepts exactly what the
+ * scheduler can run.
  */
 export class CronExpressionValidator {
-  static validate(cronExpression: string): { isValid: boolean; error?: string } {
-    try {
-      const parts = cronExpression.trim().split(/\s+/)
-      
-      if (parts.length !== 5) {
-        return { isValid: false, error: 'Cron expression must have 5 parts' }
-      }
-
-      const [minute, hour, day, month, dayOfWeek] = parts
-
-      // Validate minute (0-59)
-      if (!this.validateCronField(minute, 0, 59)) {
-        return { isValid: false, error: 'Invalid minute field' }
-      }
-
-      // Validate hour (0-23)
-      if (!this.validateCronField(hour, 0, 23)) {
-        return { isValid: false, error: 'Invalid hour field' }
-      }
-
-      // Validate day (1-31)
-      if (!this.validateCronField(day, 1, 31)) {
-        return { isValid: false, error: 'Invalid day field' }
-      }
-
-      // Validate month (1-12)
-      if (!this.validateCronField(month, 1, 12)) {
-        return { isValid: false, error: 'Invalid month field' }
-      }
-
-      // Validate day of week (0-7, where 0 and 7 are Sunday)
-      if (!this.validateCronField(dayOfWeek, 0, 7)) {
-        return { isValid: false, error: 'Invalid day of week field' }
-      }
+  static validate(cronExpression: string, timeZone?: string): { isValid: boolean; error?: string } {
+    if (timeZone !== undefined && !isValidTimeZone(timeZone)) {
+      return { isValid: false, error: `Unknown time zone "${timeZone}"` }
+    }
 
+    try {
+      // Also rejects expressions that can never fire, such as "0 0 30 2 *"
+      getNextCronRun(parseCronExpression(cronExpression), new Date(), timeZone)
       return { isValid: true }
     } catch (error) {
-      return { isValid: false, error: 'Invalid cron expression format' }
+      return { isValid: false, error: error instanceof Error ? error.message : 'Invalid cron expression format' }
     }
   }
 
-  private static validateCronField(field: string, min: number, max: number): boolean {
-    if (field === '*') return true
-    
-    // Handle ranges (e.g., "1-5")
-    if (field.includes('-')) {
-      const [start, end] = field.split('-').map(Number)
-      return !isNaN(start) && !isNaN(end) && start >= min && end <= max && start <= end
-    }
-
-    // Handle lists (e.g., "1,3,5")
-    if (field.includes(',')) {
-      const values = field.split(',').map(Number)
-      return values.every(val => !isNaN(val) && val >= min && val <= max)
-    }
-
-    // Handle step values (e.g., "*/5")
-    if (field.includes('/')) {
-      const [range, step] = field.split('/')
-      const stepNum = Number(step)
-      if (isNaN(stepNum) || stepNum <= 0) return false
-      
-      if (range === '*') return true
-      return this.validateCronField(range, min, max)
-    }
-
-    // Handle single number
-    const num = Number(field)
-    return !isNaN(num) && num >= min && num <= max
+  static getNextExecution(cronExpression: string, fromDate?: Date, timeZone?: string): Date {
+    return getNextCronRun(cronExpression, fromDate, timeZone)
   }
 
-  static getNextExecution(cronExpression: string, fromDate?: Date): Date {
-    const service = new AgentSchedulingService()
-    const schedule: Schedule = {
-      type: 'recurring',
-      cronExpression
-    }
-    
-    try {
-      return (service as any).calculateNextExecution(schedule)
-    } finally {
-      service.destroy()
-    }
+  static getNextExecutions(cronExpression: string, count: number, fromDate?: Date, timeZone?: string): Date[] {
+    return getNextCronRuns(cronExpression, count, fromDate, timeZone)
   }
 }
 
 // Export singleton instance
-export const agentSchedulingService = new AgentSchedulingService()
\ No newline at end of file
+export const agentSchedulingService = new AgentSchedulingService({
+  executeAgent: (agent, trigger, options) => agentExecutionService.executeAgent(agent, trigger, options)
+})
\ No newline at end of file
@@ -0,0 +1,334 @@
+import type { Agent, ExecutionResult, FlowNetworkConfig, ParsedWorkflow } from './types'
+import { CadenceGenerator } from './cadence-generator'
+import { FlowTransactionManager, TransactionStatus } from './transaction-manager'
+import { ServiceAccountSigner, getServiceAccountConfigFromEnv } from './service-account-signer'
+import { WorkflowStorageService, getDefaultWorkflowStorageService } from './workflow-storage'
+import { EMULATOR_CORE_CONTRACTS } from './flow-emulator-process'
+import { AgentPolicyEngine, type PolicyEvaluation } from './agent-policy'
+import { ApprovalService } from './approval-service'
+
+/**
+ * Agent Workflow Runner
+ *
+ * Runs an agent's saved workflow on chain:
+ * - Loads the current version of the agent's workflow from workflow storage
+ *   and applies parameter values supplied by the trigger (e.g. fields of the
+ *   on-chain event that fired it)
+ * - Checks the run against the agent's policy before anything is submitted,
+ *   reserving its spending until the run fails, and compiles its spending
+ *   caps into the transaction's post-conditions
+ * - Generates its Cadence transaction with CadenceGenerator (no fallbacks)
+ * - Holds risky transactions for approval (ApprovalService) and resumes
+ *   them once approved
+ * - Submits it through FlowTransactionManager signed by the configured
+ *   service account and reports the real transaction ID, status and events;
+ *   a transaction that does not seal in time is reported as unconfirmed
+ *
+ * FLOW_AGENT_NETWORK selects emulator, testnet or mainnet; the emulator
+ * network talks to a local `flow emulator` at FLOW_EMULATOR_ACCESS_NODE.
+ */
+
+export type AgentNetwork = 'emulator' | 'testnet' | 'mainnet'
+
+export interface AgentRunContext {
+  executionId: string
+  idempotencyKey?: string
+  // data.parameters, when present, overrides parameter values by action ID;
+  // data.approvalId resumes a run that was held for approval
+  trigger?: { type: string; data?: any }
+  // Called with the Flow transaction ID as soon as the transaction is submitted
+  onSubmitted?: (transactionId: string) => Promise<void> | void
+}
+
+export interface AgentWorkflowRunner {
+  run(agent: Agent, context: AgentRunContext): Promise<ExecutionResult>
+}
+
+/**
+ * Error raised when an agent's workflow cannot run or its transaction fails.
+ * Carries the partial result (transaction ID, events) when one was submitted.
+ */
+export class AgentExecutionError extends Error {
+  constructor(message: string, public readonly result?: ExecutionResult) {
+    super(message)
+    this.name = 'AgentExecutionError'
+  }
+}
+
+/**
+ * Error raised when a submitted transaction did not seal in time. Its outcome
+ * is unknown, so the run must not be retried: that could send it twice.
+ */
+export class AgentTransactionPendingError extends AgentExecutionError {
+  constructor(message: string, result: ExecutionResult) {
+    super(message, result)
+    this.name = 'AgentTransactionPendingError'
+  }
+}
+
+export interface FlowAgentWorkflowRunnerOptions {
+  transactionManager: Pick<FlowTransactionManager, 'createTransaction' | 'executeTransaction'>
+  storage?: WorkflowStorageService
+  network?: AgentNetwork
+  gasLimit?: number
+  policyEngine?: AgentPolicyEngine
+  approvals?: ApprovalService
+}
+
+/** Core contract addresses for `import "Name"` statements on each network */
+export const AGENT_NETWORK_CONTRACTS: Record<AgentNetwork, Record<string, string>> = {
+  emulator: EMULATOR_CORE_CONTRACTS,
+  testnet: {
+    FungibleToken: '0x9a0766d93b6608b7',
+    FlowToken: '0x7e60df042a9c0868',
+    NonFungibleToken: '0x631e88ae7f1d7c20',
+    MetadataViews: '0x631e88ae7f1d7c20',
+    ViewResolver: '0x631e88ae7f1d7c20'
+  },
+  mainnet: {
+    FungibleToken: '0xf233dcee88fe0abe',
+    FlowToken: '0x1654653399040a61',
+    NonFungibleToken: '0x1d7e57aa55817448',
+    MetadataViews: '0x1d7e57aa55817448',
+    ViewResolver: '0x1d7e57aa55817448'
+  }
+}
+
+const FAILED_STATUSES: string[] = [TransactionStatus.FAILED, TransactionStatus.EXPIRED]
+
+export class FlowAgentWorkflowRunner implements AgentWorkflowRunner {
+  private transactionManager: FlowAgentWorkflowRunnerOptions['transactionManager']
+  private storage: WorkflowStorageService
+  private network: AgentNetwork
+  private gasLimit: number
+  private policyEngine: AgentPolicyEngine | null
+  private approvals: ApprovalService | null
+
+  constructor(options: FlowAgentWorkflowRunnerOptions) {
+    this.transactionManager = options.transactionManager
+    this.storage = options.storage || getDefaultWorkflowStorageService()
+    this.network = options.network || 'testnet'
+    this.gasLimit = options.gasLimit || 9999
+    this.policyEngine = options.policyEngine || null
+    this.approvals = options.approvals || null
+  }
+
+  private getPolicyEngine(): AgentPolicyEngine {
+    if (!this.policyEngine) {
+      this.policyEngine = new AgentPolicyEngine()
+    }
+    return this.policyEngine
+  }
+
+  private getApprovals(): ApprovalService {
+    if (!this.approvals) {
+      this.approvals = new ApprovalService()
+    }
+    return this.approvals
+  }
+
+  async run(agent: Agent, context: AgentRunContext): Promise<ExecutionResult> {
+    const stored = await this.storage.get(agent.workflowId)
+    if (!stored) {
+      throw new AgentExecutionError(`Workflow ${agent.workflowId} for agent ${agent.id} was not found`)
+    }
+
+    const workflow = applyTriggerParameters(stored.workflow, context.trigger?.data?.parameters)
+    // Throws AgentPolicyViolationError before anything is generated or sent;
+    // otherwise the run's spending stays reserved unless the run fails
+    const policy = await this.getPolicyEngine().reserve(agent, context.executionId, workflow, {
+      estimatedGas: 'estimatedGas' in workflow ? Number(workflow.estimatedGas) : undefined
+    })
+
+    try {
+      return await this.submit(agent, context, stored.version, workflow, policy)
+    } catch (error) {
+      // An unconfirmed transaction may still seal, so its spending stays reserved
+      if (agent.policy && !(error instanceof AgentTransactionPendingError)) {
+        await this.getPolicyEngine().release(agent.id, context.executionId)
+      }
+      throw error
+    }
+  }
+
+  private async submit(
+    agent: Agent,
+    context: AgentRunContext,
+    version: number,
+    workflow: ParsedWorkflow,
+    policy: PolicyEvaluation
+  ): Promise<ExecutionResult> {
+    const generation = await CadenceGenerator.generateTransactionWithDetails(workflow, {
+      enableFallbacks: false,
+      ...(policy.spendingLimits.length > 0 && { spendingLimits: policy.spendingLimits })
+    })
+    if (!generation.success) {
+      throw new AgentExecutionError(`Cadence generation failed: ${generation.errors.join(', ')}`)
+    }
+
+    const transaction = await this.transactionManager.createTransaction(generation.code, {
+      gasLimit: policy.gasLimit !== undefined ? Math.min(this.gasLimit, policy.gasLimit) : this.gasLimit,
+      workflowId: agent.workflowId,
+      actionCount: workflow.actions.length,
+      network: this.network === 'emulator' ? undefined : this.network
+    })
+    // Throws ApprovalRequiredError while a risky transaction waits for approval
+    await this.getApprovals().check({
+      kind: 'agent',
+      agentId: agent.id,
+      workflowId: agent.workflowId,
+      subject: agent.name,
+      sourceKey: context.idempotencyKey || context.executionId,
+      transaction,
+      workflow,
+      requestedBy: agent.owner,
+      trigger: context.trigger,
+      approvalId: context.trigger?.data?.approvalId,
+      notifications: agent.notifications
+    })
+    const result = await this.transactionManager.executeTransaction(transaction, { onSubmitted: context.onSubmitted })
+
+    const executionResult: ExecutionResult = {
+      success: !result.error && !FAILED_STATUSES.includes(result.status) && result.status !== TransactionStatus.PENDING,
+      transactionId: result.transactionId,
+      status: result.status,
+      cadenceCode: generation.code,
+      arguments: workflow.actions.flatMap(action => action.parameters.map(parameter => ({
+        actionId: action.id,
+        name: parameter.name,
+        type: parameter.type,
+        value: parameter.value,
+        ...(parameter.expression && { expression: parameter.expression })
+      }))),
+      executionTime: result.executionTime,
+      gasUsed: result.gasUsed,
+      blockHeight: result.blockHeight,
+      events: result.events.map(event => ({ type: event.type, data: event.data })),
+      error: result.error,
+      details: [`Workflow version ${version}`, `Execution ${context.executionId}`]
+    }
+
+    if (result.status === TransactionStatus.PENDING) {
+      throw new AgentTransactionPendingError(
+        `Transaction ${result.transactionId} is unconfirmed: ${result.error || 'not sealed in time'}`,
+        executionResult
+      )
+    }
+    if (!executionResult.success) {
+      throw new AgentExecutionError(
+        `Transaction ${result.transactionId} failed: ${result.error || result.status}`,
+        executionResult
+      )
+    }
+    return executionResult
+  }
+}
+
+/**
+ * Override parameter values with those a trigger supplied, keyed by action ID
+ * and then parameter name. Returns a copy; unknown targets are an error so a
+ * misconfigured binding cannot silently run the saved values.
+ */
+export function applyTriggerParameters(
+  workflow: ParsedWorkflow,
+  overrides?: Record<string, Record<string, unknown>>
+): ParsedWorkflow {
+  if (!overrides || Object.keys(overrides).length === 0) return workflow
+
+  for (const [actionId, values] of Object.entries(overrides)) {
+    const action = workflow.actions.find(candidate => candidate.id === actionId)
+    if (!action) {
+      throw new AgentExecutionError(`Trigger parameters target unknown action ${actionId}`)
+    }
+    for (const name of Object.keys(values)) {
+      if (!action.parameters.some(parameter => parameter.name === name)) {
+        throw new AgentExecutionError(`Trigger parameters target unknown parameter ${actionId}.${name}`)
+      }
+    }
+  }
+
+  return {
+    ...workflow,
+    actions: workflow.actions.map(action => {
+      const values = overrides[action.id]
+      if (!values) return action
+      return {
+        ...action,
+        parameters: action.parameters.map(parameter => parameter.name in values
+          // A bound upstream expression would take precedence over the value
+          ? { ...parameter, value: String(values[parameter.name]), expression: undefined }
+          : parameter)
+      }
+    })
+  }
+}
+
+export function createAgentNetworkConfig(
+  network: AgentNetwork,
+  env: Record<string, string | undefined> = process.env
+): FlowNetworkConfig {
+  const accessNode = network === 'emulator'
+    ? env.FLOW_EMULATOR_ACCESS_NODE || 'http://127.0.0.1:8888'
+    : network === 'mainnet'
+      ? env.NEXT_PUBLIC_FLOW_MAINNET_ACCESS_NODE || 'https://rest-mainnet.onflow.org'
+      : env.NEXT_PUBLIC_FLOW_TESTNET_ACCESS_NODE || 'https://rest-testnet.onflow.org'
+  // Agents sign with a service account, so wallet discovery is never used
+  const discovery = 'https://fcl-discovery.onflow.org/testnet/authn'
+
+  return {
+    name: network,
+    chainId: `flow-${network}`,
+    accessNode,
+    discoveryWallet: discovery,
+    walletDiscovery: discovery,
+    fclConfig: {
+      'accessNode.api': accessNode,
+      'discovery.wallet': discovery,
+      'discovery.authn': discovery,
+      'app.detail.title': 'ActionLoom',
+      'app.detail.icon': '/logo.png'
+    }
+  }
+}
+
+/**
+ * Create a runner from FLOW_AGENT_NETWORK and the FLOW_SERVICE_ACCOUNT_*
+ * variables. Throws when no service account is configured.
+ */
+export function createAgentWorkflowRunnerFromEnv(
+  env: Record<string, string | undefined> = process.env
+): FlowAgentWorkflowRunner {
+  const network = (env.FLOW_AGENT_NETWORK || env.NEXT_PUBLIC_FLOW_NETWORK || 'testnet') as AgentNetwork
+  if (!AGENT_NETWORK_CONTRACTS[network]) {
+    throw new AgentExecutionError(`Unsupported agent network: ${network}`)
+  }
+
+  const account = getServiceAccountConfigFromEnv(env)
+  if (!account) {
+    throw new AgentExecutionError(
+      'No service account configured for agent execution; set FLOW_SERVICE_ACCOUNT_ADDRESS and FLOW_SERVICE_ACCOUNT_PRIVATE_KEY'
+    )
+  }
+
+  const transactionManager = new FlowTransactionManager(createAgentNetworkConfig(network, env), {
+    signer: new ServiceAccountSigner(account),
+    contracts: AGENT_NETWORK_CONTRACTS[network]
+  })
+
+  return new FlowAgentWorkflowRunner({
+    transactionManager,
+    network,
+    gasLimit: env.FLOW_AGENT_GAS_LIMIT ? parseInt(env.FLOW_AGENT_GAS_LIMIT) : undefined
+  })
+}
+
+/**
+ * Default agent workflow runner instance (lazy-loaded)
+ */
+let _defaultAgentWorkflowRunner: FlowAgentWorkflowRunner | null = null
+export const getDefaultAgentWorkflowRunner = (): FlowAgentWorkflowRunner => {
+  if (!_defaultAgentWorkflowRunner) {
+    _defaultAgentWorkflowRunner = createAgentWorkflowRunnerFromEnv()
+  }
+  return _defaultAgentWorkflowRunner
+}
@@ -23,7 +23,7 @@ export interface APIKey {
 }
 
 export interface APIPermission {
-  resource: 'compose' | 'actions' | 'agents' | 'nlp' | '*'
+  resource: 'compose' | 'actions' | 'agents' | 'approvals' | 'nlp' | '*'
   actions: ('read' | 'write' | 'delete' | '*')[]
   conditions?: Record<string, any>
 }
@@ -441,6 +441,13 @@ export function createAPIAuthService(): APIAuthService {
   return authServiceInstance
 }
 
+/**
+ * Whether a key may do anything on every resource
+ */
+export function isAdminKey(apiKey?: APIKey): boolean {
+  return !!apiKey?.permissions.some(permission => permission.resource === '*' && permission.actions.includes('*'))
+}
+
 /**
  * Middleware function for Next.js API routes
  */
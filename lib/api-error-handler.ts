@@ -35,6 +35,7 @@ export enum ErrorCode {
   RESOURCE_NOT_FOUND = 'RESOURCE_NOT_FOUND',
   UNAUTHORIZED = 'UNAUTHORIZED',
   FORBIDDEN = 'FORBIDDEN',
+  CONFLICT = 'CONFLICT',
   VALIDATION_FAILED = 'VALIDATION_FAILED',
   RATE_LIMIT_EXCEEDED = 'RATE_LIMIT_EXCEEDED',
   
@@ -359,6 +360,7 @@ function getErrorCodeFromStatus(statusCode: number): ErrorCode {
     case 401: return ErrorCode.UNAUTHORIZED
     case 403: return ErrorCode.FORBIDDEN
     case 404: return ErrorCode.RESOURCE_NOT_FOUND
+    case 409: return ErrorCode.CONFLICT
     case 422: return ErrorCode.VALIDATION_FAILED
     case 429: return ErrorCode.RATE_LIMIT_EXCEEDED
     case 503: return ErrorCode.SERVICE_UNAVAILABLE
@@ -372,7 +374,8 @@ function shouldIncludeDetails(code: ErrorCode): boolean {
     ErrorCode.INVALID_REQUEST,
     ErrorCode.MISSING_REQUIRED_FIELDS,
     ErrorCode.INVALID_PARAMETERS,
-    ErrorCode.VALIDATION_FAILED
+    ErrorCode.VALIDATION_FAILED,
+    ErrorCode.CONFLICT
   ].includes(code)
 }
 
@@ -0,0 +1,499 @@
+import { createHash, randomUUID } from 'crypto'
+import type { NotificationConfig, ParsedWorkflow } from './types'
+import { AgentJobStore, getDefaultAgentJobStore } from './agent-job-store'
+import { AgentNotificationService, validateNotificationConfig } from './agent-notification-service'
+import { FlowSecurityManager, Transaction as SecurityTransaction } from './security-manager'
+import { extractPlannedSpends } from './agent-policy'
+import { explainWorkflow } from './workflow-explainer'
+import { getDefaultWorkflowStorageService } from './workflow-storage'
+
+/**
+ * Execution Approvals
+ *
+ * Holds risky transactions until enough designated approvers agree:
+ * - FlowSecurityManager.requireConfirmation decides which transactions are
+ *   risky (high value, several authorizers, unusual gas, unverified
+ *   contracts)
+ * - A risky agent run or API-submitted workflow opens a pending approval
+ *   request, explained in plain English, and its approvers are notified;
+ *   the run does not submit
+ * - Each workflow can have its own M-of-N policy, set only by the
+ *   workflow's owner or an admin; workflows without one use the APPROVAL_*
+ *   environment defaults. A risky transaction with no policy at all is
+ *   refused rather than submitted
+ * - One rejection rejects the request; M approvals approve it. Whoever
+ *   requested it cannot decide on it. Requests expire, and every step is
+ *   kept in the request's audit trail
+ * - An approved agent run is resumed by a trigger job carrying the approval
+ *   ID. An approval is used once, and only for the exact Cadence code that
+ *   was approved
+ */
+
+export type ApprovalKind = 'agent' | 'workflow'
+
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected' | 'expired' | 'executed'
+
+export interface ApprovalPolicy {
+  approvers: string[] // API key user IDs
+  requiredApprovals: number
+  expiresIn?: number // seconds; defaults to a day
+  notifications?: NotificationConfig
+}
+
+export interface ApprovalDecision {
+  approver: string
+  decision: 'approve' | 'reject'
+  comment?: string
+  at: string
+}
+
+export interface ApprovalAuditEntry {
+  at: string
+  actor: string // user ID, or 'system'
+  action: 'requested' | 'approved' | 'rejected' | 'expired' | 'executed'
+  comment?: string
+}
+
+export interface ApprovalRequest {
+  id: string
+  kind: ApprovalKind
+  workflowId?: string
+  agentId?: string
+  subject: string
+  sourceKey: string // the run or submission awaiting approval
+  codeHash: string // SHA-256 of the Cadence code that was approved
+  cadenceCode: string
+  explanation?: string // Plain-English account of the workflow for approvers
+  risk: {
+    value?: string // FLOW the transaction moves
+    authorizers: number
+    gasLimit: number
+  }
+  trigger?: { type: string; data?: any }
+  requestedBy: string
+  status: ApprovalStatus
+  approvers: string[]
+  requiredApprovals: number
+  decisions: ApprovalDecision[]
+  audit: ApprovalAuditEntry[]
+  notifications?: NotificationConfig
+  createdAt: string
+  expiresAt: string
+  decidedAt?: string
+}
+
+export interface ApprovalCheck {
+  kind: ApprovalKind
+  workflowId?: string
+  agentId?: string
+  subject: string
+  sourceKey?: string
+  transaction: Pick<SecurityTransaction, 'cadenceCode' | 'gasLimit' | 'authorizers'> & { payer?: string; proposer?: string }
+  workflow: ParsedWorkflow
+  estimatedGas?: number
+  requestedBy: string
+  trigger?: { type: string; data?: any }
+  // Given when resuming a run that was approved earlier
+  approvalId?: string
+  // Used when the policy has no notification settings of its own
+  notifications?: NotificationConfig
+}
+
+export interface ApprovalServiceOptions {
+  store?: AgentJobStore
+  security?: Pick<FlowSecurityManager, 'requireConfirmation' | 'assessRisk'>
+  notifier?: Pick<AgentNotificationService, 'notifyApprovers'>
+  defaultPolicy?: ApprovalPolicy | null
+  // Who owns a saved workflow; defaults to the workflow storage record
+  getWorkflowOwner?: (workflowId: string) => Promise<string | undefined>
+}
+
+export interface PolicyActor {
+  userId: string
+  admin: boolean
+}
+
+/**
+ * Raised instead of submitting a transaction that is waiting for approval
+ */
+export class ApprovalRequiredError extends Error {
+  constructor(public readonly approval: ApprovalRequest) {
+    super(
+      `Transaction requires ${approval.requiredApprovals} approval(s); ` +
+      `approval request ${approval.id} is ${approval.status}`
+    )
+    this.name = 'ApprovalRequiredError'
+  }
+}
+
+export class ApprovalError extends Error {
+  constructor(message: string, public readonly code: 'NOT_FOUND' | 'FORBIDDEN' | 'CONFLICT' | 'UNCONFIGURED') {
+    super(message)
+    this.name = 'ApprovalError'
+  }
+}
+
+export const DEFAULT_APPROVAL_EXPIRY = 24 * 60 * 60 // seconds
+
+/**
+ * Validate an approval policy. Throws on the first problem.
+ */
+export function validateApprovalPolicy(policy: ApprovalPolicy): void {
+  if (!Array.isArray(policy.approvers) || policy.approvers.some(approver => typeof approver !== 'string' || !approver.trim())) {
+    throw new Error('Approvers must be a list of user IDs')
+  }
+  if (new Set(policy.approvers).size !== policy.approvers.length) {
+    throw new Error('Approvers must not repeat')
+  }
+  if (!Number.isInteger(policy.requiredApprovals) || policy.requiredApprovals < 1) {
+    throw new Error('requiredApprovals must be a positive integer')
+  }
+  if (policy.requiredApprovals > policy.approvers.length) {
+    throw new Error(`requiredApprovals (${policy.requiredApprovals}) exceeds the number of approvers (${policy.approvers.length})`)
+  }
+  if (policy.expiresIn !== undefined && (!Number.isInteger(policy.expiresIn) || policy.expiresIn < 60)) {
+    throw new Error('expiresIn must be a whole number of seconds, at least 60')
+  }
+  if (policy.notifications) {
+    validateNotificationConfig(policy.notifications)
+  }
+}
+
+/**
+ * Default policy from APPROVAL_APPROVERS (comma-separated user IDs),
+ * APPROVAL_REQUIRED (default 1) and APPROVAL_TTL_SECONDS. Null when no
+ * approvers are configured.
+ */
+export function getApprovalPolicyFromEnv(env: Record<string, string | undefined> = process.env): ApprovalPolicy | null {
+  const approvers = (env.APPROVAL_APPROVERS || '').split(',').map(approver => approver.trim()).filter(Boolean)
+  if (approvers.length === 0) return null
+
+  const policy: ApprovalPolicy = {
+    approvers,
+    requiredApprovals: env.APPROVAL_REQUIRED ? Number(env.APPROVAL_REQUIRED) : 1,
+    ...(env.APPROVAL_TTL_SECONDS && { expiresIn: Number(env.APPROVAL_TTL_SECONDS) })
+  }
+  validateApprovalPolicy(policy)
+  return policy
+}
+
+/**
+ * The security manager's view of a transaction. Its value is the FLOW the
+ * workflow's actions would move.
+ */
+export function toSecurityTransaction(
+  transaction: ApprovalCheck['transaction'],
+  workflow: ParsedWorkflow,
+  estimatedGas?: number
+): SecurityTransaction {
+  const flow = extractPlannedSpends(workflow).spends
+    .filter(spend => spend.token === 'FLOW')
+    .reduce((total, spend) => total + spend.amount, 0)
+
+  return {
+    id: 'approval-check',
+    cadenceCode: transaction.cadenceCode,
+    arguments: [],
+    gasLimit: transaction.gasLimit,
+    proposer: transaction.proposer || '',
+    authorizers: transaction.authorizers,
+    payer: transaction.payer || '',
+    ...(flow > 0 && { value: flow.toFixed(8) }),
+    ...(estimatedGas !== undefined && {
+      metadata: {
+        actionTypes: workflow.actions.map(action => action.actionType),
+        estimatedGas,
+        requiredBalance: [],
+        riskFactors: [],
+        userInitiated: false,
+        timestamp: new Date()
+      }
+    })
+  }
+}
+
+export function hashCadence(code: string): string {
+  return createHash('sha256').update(code).digest('hex')
+}
+
+export class ApprovalService {
+  private store: AgentJobStore
+  private security: Pick<FlowSecurityManager, 'requireConfirmation' | 'assessRisk'>
+  private notifier: Pick<AgentNotificationService, 'notifyApprovers'> | null
+  private defaultPolicy: ApprovalPolicy | null | undefined
+  private getWorkflowOwner: (workflowId: string) => Promise<string | undefined>
+
+  constructor(options: ApprovalServiceOptions = {}) {
+    this.store = options.store || getDefaultAgentJobStore()
+    this.security = options.security || new FlowSecurityManager()
+    this.notifier = options.notifier || null
+    this.defaultPolicy = options.defaultPolicy
+    this.getWorkflowOwner = options.getWorkflowOwner ||
+      (async workflowId => (await getDefaultWorkflowStorageService().getRecord(workflowId))?.owner)
+  }
+
+  private getNotifier(): Pick<AgentNotificationService, 'notifyApprovers'> {
+    if (!this.notifier) {
+      this.notifier = new AgentNotificationService({ store: this.store })
+    }
+    return this.notifier
+  }
+
+  private getDefaultPolicy(): ApprovalPolicy | null {
+    if (this.defaultPolicy === undefined) {
+      this.defaultPolicy = getApprovalPolicyFromEnv()
+    }
+    return this.defaultPolicy
+  }
+
+  /**
+   * The workflow's own policy, or the default
+   */
+  async getPolicy(workflowId?: string): Promise<ApprovalPolicy | null> {
+    const own = workflowId ? await this.getWorkflowPolicy(workflowId) : null
+    return own || this.getDefaultPolicy()
+  }
+
+  async getWorkflowPolicy(workflowId: string): Promise<ApprovalPolicy | null> {
+    return this.store.getApprovalPolicy(workflowId)
+  }
+
+  /**
+   * Set the workflow's policy, or remove it (null) to fall back to the
+   * default. Only the workflow's owner or an admin may; a workflow saved
+   * without an owner is left to admins.
+   */
+  async setPolicy(workflowId: string, policy: ApprovalPolicy | null, actor: PolicyActor): Promise<void> {
+    if (!actor.admin && await this.getWorkflowOwner(workflowId) !== actor.userId) {
+      throw new ApprovalError(`Only the owner of workflow ${workflowId} or an admin can change its approval policy`, 'FORBIDDEN')
+    }
+    if (policy) {
+      validateApprovalPolicy(policy)
+    }
+    await this.store.setApprovalPolicy(workflowId, policy)
+  }
+
+  /**
+   * Gate a transaction before it is submitted. Returns the approval it was
+   * submitted under, or null when it needs none; throws
+   * ApprovalRequiredError while it waits for approval, and ApprovalError
+   * when it needs approval but no approvers are configured.
+   */
+  async check(input: ApprovalCheck): Promise<ApprovalRequest | null> {
+    const codeHash = hashCadence(input.transaction.cadenceCode)
+
+    if (input.approvalId) {
+      return this.consume(input.approvalId, codeHash)
+    }
+
+    if (!this.security.requireConfirmation(toSecurityTransaction(input.transaction, input.workflow, input.estimatedGas))) {
+      return null
+    }
+
+    const policy = await this.getPolicy(input.workflowId)
+    if (!policy) {
+      throw new ApprovalError(
+        `Transaction for ${input.kind} ${input.agentId || input.workflowId || input.subject} requires approval but no approvers are configured`,
+        'UNCONFIGURED'
+      )
+    }
+
+    const explanation = await explainWorkflow(input.workflow, { security: this.security })
+      .then(result => result.text)
+      .catch(error => {
+        console.warn(`Workflow explanation failed for ${input.subject}:`, error instanceof Error ? error.message : error)
+        return undefined
+      })
+
+    const { approval, created } = await this.store.openApproval(() => this.createRequest(input, policy, codeHash, explanation))
+    if (created) {
+      console.log(`Approval ${approval.id} requested for ${input.kind} ${input.subject}`)
+      await this.notify(approval)
+    }
+    throw new ApprovalRequiredError(approval)
+  }
+
+  /**
+   * Record an approver's decision. One rejection rejects the request; the
+   * policy's number of approvals approves it and resumes an agent's run.
+   */
+  async decide(
+    approvalId: string,
+    approver: string,
+    decision: ApprovalDecision['decision'],
+    comment?: string
+  ): Promise<ApprovalRequest> {
+    const now = new Date()
+    // Problems are returned, not thrown, so an expiry found here is still saved
+    const updated = await this.store.updateApproval(approvalId, approval => {
+      if (expireIfDue(approval, now)) {
+        return { message: `Approval ${approvalId} has expired`, code: 'CONFLICT' as const }
+      }
+      if (approval.status !== 'pending') {
+        return { message: `Approval ${approvalId} is already ${approval.status}`, code: 'CONFLICT' as const }
+      }
+      if (!approval.approvers.includes(approver)) {
+        return { message: `${approver} is not an approver of ${approvalId}`, code: 'FORBIDDEN' as const }
+      }
+      if (approver === approval.requestedBy) {
+        return { message: `${approver} requested ${approvalId} and cannot decide on it`, code: 'FORBIDDEN' as const }
+      }
+      if (approval.decisions.some(existing => existing.approver === approver)) {
+        return { message: `${approver} has already decided on ${approvalId}`, code: 'CONFLICT' as const }
+      }
+
+      const at = now.toISOString()
+      approval.decisions.push({ approver, decision, ...(comment && { comment }), at })
+      approval.audit.push({ at, actor: approver, action: decision === 'approve' ? 'approved' : 'rejected', ...(comment && { comment }) })
+
+      const approvals = approval.decisions.filter(existing => existing.decision === 'approve').length
+      if (decision === 'reject') {
+        approval.status = 'rejected'
+        approval.decidedAt = at
+      } else if (approvals >= approval.requiredApprovals) {
+        approval.status = 'approved'
+        approval.decidedAt = at
+      }
+      return null
+    })
+
+    if (!updated) {
+      throw new ApprovalError(`Approval ${approvalId} not found`, 'NOT_FOUND')
+    }
+    if (updated.result) {
+      throw new ApprovalError(updated.result.message, updated.result.code)
+    }
+
+    const { approval } = updated
+    console.log(`Approval ${approval.id}: ${decision} by ${approver} (${approval.status})`)
+    if (approval.status === 'approved' && approval.kind === 'agent') {
+      await this.resumeAgentRun(approval)
+    }
+    return approval
+  }
+
+  async get(approvalId: string): Promise<ApprovalRequest | null> {
+    await this.store.expireApprovals()
+    return this.store.getApproval(approvalId)
+  }
+
+  async list(filter: Parameters<AgentJobStore['listApprovals']>[0] = {}): Promise<ApprovalRequest[]> {
+    await this.store.expireApprovals()
+    return this.store.listApprovals(filter)
+  }
+
+  /**
+   * Mark an approved request executed if it approved this exact code
+   */
+  private async consume(approvalId: string, codeHash: string): Promise<ApprovalRequest> {
+    const now = new Date()
+    const updated = await this.store.updateApproval(approvalId, approval => {
+      expireIfDue(approval, now)
+      if (approval.status !== 'approved' || approval.codeHash !== codeHash) {
+        return false
+      }
+      approval.status = 'executed'
+      approval.audit.push({ at: now.toISOString(), actor: 'system', action: 'executed' })
+      return true
+    })
+
+    if (!updated) {
+      throw new ApprovalError(`Approval ${approvalId} not found`, 'NOT_FOUND')
+    }
+    const { approval, result: consumed } = updated
+    if (consumed) return approval
+    if (approval.codeHash !== codeHash) {
+      throw new ApprovalError(`Approval ${approvalId} was requested for a different transaction`, 'CONFLICT')
+    }
+    if (approval.status === 'pending') {
+      throw new ApprovalRequiredError(approval)
+    }
+    throw new ApprovalError(`Approval ${approvalId} is ${approval.status}`, 'CONFLICT')
+  }
+
+  private createRequest(input: ApprovalCheck, policy: ApprovalPolicy, codeHash: string, explanation?: string): ApprovalRequest {
+    const now = new Date()
+    const security = toSecurityTransaction(input.transaction, input.workflow, input.estimatedGas)
+    return {
+      id: `approval_${randomUUID()}`,
+      kind: input.kind,
+      ...(input.workflowId && { workflowId: input.workflowId }),
+      ...(input.agentId && { agentId: input.agentId }),
+      subject: input.subject,
+      sourceKey: input.sourceKey || `${input.kind}:${codeHash}`,
+      codeHash,
+      cadenceCode: input.transaction.cadenceCode,
+      ...(explanation && { explanation }),
+      risk: {
+        ...(security.value && { value: security.value }),
+        authorizers: input.transaction.authorizers.length,
+        gasLimit: input.transaction.gasLimit
+      },
+      ...(input.trigger && { trigger: input.trigger }),
+      requestedBy: input.requestedBy,
+      status: 'pending',
+      approvers: [...policy.approvers],
+      requiredApprovals: policy.requiredApprovals,
+      decisions: [],
+      audit: [{ at: now.toISOString(), actor: input.requestedBy, action: 'requested' }],
+      ...((policy.notifications || input.notifications) && { notifications: policy.notifications || input.notifications }),
+      createdAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + (policy.expiresIn ?? DEFAULT_APPROVAL_EXPIRY) * 1000).toISOString()
+    }
+  }
+
+  private async notify(approval: ApprovalRequest): Promise<void> {
+    if (!approval.notifications) return
+    try {
+      await this.getNotifier().notifyApprovers(
+        { id: approval.agentId || approval.workflowId || approval.id, name: approval.subject },
+        approval.notifications,
+        { executionId: approval.sourceKey, approvalId: approval.id }
+      )
+    } catch (error) {
+      // The request stands; approvers can still find it in the queue
+      console.error(`Failed to notify approvers of ${approval.id}:`, error)
+    }
+  }
+
+  /**
+   * Run the agent again with the approval; the job's key makes it run once
+   */
+  private async resumeAgentRun(approval: ApprovalRequest): Promise<void> {
+    const agent = approval.agentId ? await this.store.getAgent(approval.agentId) : null
+    if (!agent) {
+      console.warn(`Approval ${approval.id} approved but agent ${approval.agentId} is no longer stored`)
+      return
+    }
+
+    await this.store.enqueue({
+      kind: 'trigger',
+      agent,
+      idempotencyKey: `approval:${approval.id}`,
+      runAt: new Date(),
+      trigger: {
+        type: 'approval',
+        data: { ...approval.trigger?.data, approvalId: approval.id }
+      }
+    })
+  }
+}
+
+function expireIfDue(approval: ApprovalRequest, now: Date): boolean {
+  if (approval.status !== 'pending' || new Date(approval.expiresAt) > now) return false
+  approval.status = 'expired'
+  approval.decidedAt = now.toISOString()
+  approval.audit.push({ at: now.toISOString(), actor: 'system', action: 'expired' })
+  return true
+}
+
+/**
+ * Default approval service instance (lazy-loaded)
+ */
+let _defaultApprovalService: ApprovalService | null = null
+export const getDefaultApprovalService = (): ApprovalService => {
+  if (!_defaultApprovalService) {
+    _defaultApprovalService = new ApprovalService()
+  }
+  return _defaultApprovalService
+}
@@ -2,6 +2,26 @@ import type { ParsedWorkflow, ParsedAction, ActionMetadata, ForteAction, Enhance
 import { ActionDiscoveryService, getDefaultActionDiscoveryService } from "./action-discovery-service"
 import { gracefulErrorHandler, ActionDiscoveryError } from "./graceful-error-handler"
 import { logger } from "./logging-service"
+import {
+  ExecutionStep,
+  buildExecutionPlan,
+  formatConditionExpression,
+  formatLoopItemsExpression,
+  getLoopItemVariableName,
+  getLoopItemsVariableName,
+  getLoopIterationBound,
+  getReferencedResultActions,
+  getResultVariableName,
+  parseLoopItems,
+  resolveLoopItemReferences
+} from "./workflow-control-flow"
+import {
+  DataBindingError,
+  OutputTypeMap,
+  getOutputBindings,
+  renderOutputBindings,
+  resolveOutputReferences
+} from "./workflow-data-binding"
 
 export interface CadenceGenerationResult {
   code: string
@@ -17,6 +37,17 @@ export interface CadenceGenerationOptions {
   includeComments: boolean
   validateSyntax: boolean
   timeout: number
+  spendingLimits?: TransactionSpendingLimit[]
+}
+
+/**
+ * Most of one token a transaction may take out of the signer's vault,
+ * checked in the transaction's post-conditions
+ */
+export interface TransactionSpendingLimit {
+  token: string
+  vaultPath: string // e.g. /storage/flowTokenVault
+  maxAmount: number
 }
 
 export class CadenceGenerator {
@@ -89,7 +120,9 @@ export class CadenceGenerator {
         timeoutPromise
       ])
 
-      result.code = `${imports}
+      result.code = config.spendingLimits?.length
+        ? this.generateLimitedTransaction(workflow, { imports, prepareBlock, executeBlock }, config.spendingLimits)
+        : `${imports}
 
 transaction() {
 ${prepareBlock}
@@ -113,7 +146,8 @@ ${executeBlock}
       const actionError = this.handleGenerationError(error, correlationId)
       result.errors.push(actionError.message)
 
-      if (config.enableFallbacks) {
+      // Type errors in data bindings are workflow errors, not discovery issues
+      if (config.enableFallbacks && !(error instanceof DataBindingError)) {
         logger.info('Attempting fallback generation', {
           correlationId,
           component: 'cadence-generator',
@@ -149,6 +183,45 @@ ${executeBlock}
     return result
   }
 
+  /**
+   * Wrap the generated blocks so the transaction records the signer's
+   * balances in prepare and reverts in post if more than the limit left
+   */
+  private static generateLimitedTransaction(
+    workflow: ParsedWorkflow | EnhancedWorkflow,
+    blocks: { imports: string; prepareBlock: string; executeBlock: string },
+    limits: TransactionSpendingLimit[]
+  ): string {
+    const imports = blocks.imports.includes('import "FungibleToken"')
+      ? blocks.imports
+      : ['import "FungibleToken"', blocks.imports].filter(Boolean).join('\n')
+
+    const fields = limits.flatMap((limit, index) => [
+      `  // ${limit.token} spending limit`,
+      `  let spendingVault${index}: &{FungibleToken.Balance}`,
+      `  let balanceBefore${index}: UFix64`
+    ])
+    const snapshot = limits.flatMap((limit, index) => [
+      `    self.spendingVault${index} = signer.storage.borrow<&{FungibleToken.Balance}>(from: ${limit.vaultPath})`,
+      `      ?? panic("Could not borrow the ${limit.token} vault for the spending limit")`,
+      `    self.balanceBefore${index} = self.spendingVault${index}.balance`
+    ])
+    const prepareBlock = blocks.prepareBlock.replace(/\n  }$/, `\n    // Balances before the workflow runs, for the spending limits\n${snapshot.join('\n')}\n  }`)
+    const postConditions = this.generatePostConditions(workflow, { spendingLimits: limits, securityChecks: false })
+
+    return `${imports}
+
+transaction() {
+${fields.join('\n')}
+
+${prepareBlock}
+
+${blocks.executeBlock}
+
+${postConditions}
+}`
+  }
+
   /**
    * Perform the actual generation with error handling
    */
@@ -341,15 +414,11 @@ transaction() {
     lines.push("    // FALLBACK EXECUTION - Static action generation")
     lines.push("")
 
-    for (const actionId of workflow.executionOrder) {
-      const action = workflow.actions.find(a => a.id === actionId)
-      if (action) {
-        lines.push(`    // ${action.name}`)
-        const code = this.generateStaticActionCode(action)
-        lines.push(code)
-        lines.push("")
-      }
-    }
+    const resultActions = getReferencedResultActions(workflow)
+    lines.push(...this.renderExecutionPlanSync(buildExecutionPlan(workflow), workflow, 0, (action) => {
+      const code = this.bindActionResult(this.generateStaticActionCode(action), action, resultActions)
+      return [`    // ${action.name}`, code, ""]
+    }))
 
     lines.push('    log("Fallback workflow execution completed")')
     lines.push("  }")
@@ -628,15 +697,12 @@ ${resourceManagement}
     lines.push("    // Execute actions in order")
     lines.push("")
 
-    for (const actionId of workflow.executionOrder) {
-      const action = workflow.actions.find((a) => a.id === actionId)
-      if (action) {
-        lines.push(`    // ${action.name}`)
-        const code = await this.generateActionCode(action)
-        lines.push(code)
-        lines.push("")
-      }
-    }
+    const resultActions = getReferencedResultActions(workflow)
+    const outputTypes = await this.collectOutputTypes(workflow)
+    lines.push(...await this.renderExecutionPlan(buildExecutionPlan(workflow), workflow, 0, async (action) => {
+      const code = this.bindActionResult(await this.generateActionCode(action), action, resultActions)
+      return [`    // ${action.name}`, code, ""]
+    }, outputTypes))
 
     lines.push('    log("Workflow execution completed successfully")')
     lines.push("  }")
@@ -657,43 +723,44 @@ ${resourceManagement}
     lines.push("    assert(signer.address != nil, message: \"Invalid signer\")")
     lines.push("")
 
-    for (const actionId of workflow.executionOrder) {
-      const action = workflow.actions.find((a) => a.id === actionId)
-      if (action) {
-        let actionMetadata: ActionMetadata | undefined
-        
-        try {
-          actionMetadata = await this.getDiscoveryService().getAction(action.id)
-        } catch (error) {
-          logger.warn('Failed to get action metadata for execute block', {
-            component: 'cadence-generator',
-            operation: 'generate-forte-execute-block',
-            metadata: { 
-              actionId: action.id, 
-              actionType: action.actionType,
-              error: (error as Error).message 
-            }
-          })
-        }
-        
-        lines.push(`    // Execute: ${action.name}`)
-        if (actionMetadata) {
-          lines.push(`    // Action ID: ${actionMetadata.id}`)
-          lines.push(`    // Version: ${actionMetadata.version}`)
-        } else {
-          lines.push(`    // Metadata unavailable - using fallback execution`)
-        }
-        
-        // Add error handling wrapper
-        lines.push("    do {")
-        const code = await this.generateForteActionCode(action, actionMetadata)
-        lines.push("      " + code.split('\n').join('\n      '))
-        lines.push("    } catch (error) {")
-        lines.push(`      panic("Action ${action.name} failed: ".concat(error.message))`)
-        lines.push("    }")
-        lines.push("")
+    const resultActions = getReferencedResultActions(workflow)
+    const outputTypes = await this.collectOutputTypes(workflow)
+    lines.push(...await this.renderExecutionPlan(buildExecutionPlan(workflow), workflow, 0, async (action) => {
+      const actionLines: string[] = []
+      let actionMetadata: ActionMetadata | undefined
+      
+      try {
+        actionMetadata = await this.getDiscoveryService().getAction(action.id)
+      } catch (error) {
+        logger.warn('Failed to get action metadata for execute block', {
+          component: 'cadence-generator',
+          operation: 'generate-forte-execute-block',
+          metadata: { 
+            actionId: action.id, 
+            actionType: action.actionType,
+            error: (error as Error).message 
+          }
+        })
       }
-    }
+      
+      actionLines.push(`    // Execute: ${action.name}`)
+      if (actionMetadata) {
+        actionLines.push(`    // Action ID: ${actionMetadata.id}`)
+        actionLines.push(`    // Version: ${actionMetadata.version}`)
+      } else {
+        actionLines.push(`    // Metadata unavailable - using fallback execution`)
+      }
+      
+      // Add error handling wrapper
+      actionLines.push("    do {")
+      const code = this.bindActionResult(await this.generateForteActionCode(action, actionMetadata), action, resultActions)
+      actionLines.push("      " + code.split('\n').join('\n      '))
+      actionLines.push("    } catch (error) {")
+      actionLines.push(`      panic("Action ${action.name} failed: ".concat(error.message))`)
+      actionLines.push("    }")
+      actionLines.push("")
+      return actionLines
+    }, outputTypes))
 
     lines.push('    log("Enhanced workflow execution completed successfully")')
     lines.push("  }")
@@ -701,6 +768,234 @@ ${resourceManagement}
     return lines.join("\n")
   }
 
+  /**
+   * Render an execution plan, nesting branch-only actions inside `if` / `else`
+   * blocks for condition nodes and loop bodies inside bounded loops. Outputs
+   * read by later parameters are bound to typed locals after each action.
+   */
+  protected static async renderExecutionPlan(
+    steps: ExecutionStep[],
+    workflow: ParsedWorkflow | EnhancedWorkflow,
+    depth: number,
+    renderAction: (action: ParsedAction) => Promise<string[]>,
+    outputTypes: OutputTypeMap = {}
+  ): Promise<string[]> {
+    const indent = "  ".repeat(depth)
+    const lines: string[] = []
+    const outputBindings = getOutputBindings(workflow, outputTypes)
+
+    for (const step of steps) {
+      if (step.type === 'action') {
+        const actionLines = await renderAction(this.resolveActionInputs(step.action, workflow, outputTypes))
+        const bindingLines = renderOutputBindings(outputBindings.get(step.action.id) || [])
+        lines.push(...this.appendOutputBindings(actionLines, bindingLines).map((line) => this.indentLines(line, indent)))
+        continue
+      }
+
+      if (step.type === 'loop') {
+        lines.push(...this.openLoopBlock(step, workflow, indent))
+        lines.push(...await this.renderExecutionPlan(step.body, workflow, depth + 1, renderAction, outputTypes))
+        lines.push(...this.closeLoopBlock(step, indent))
+        continue
+      }
+
+      lines.push(...this.openConditionBlock(step, workflow, indent))
+      lines.push(...await this.renderExecutionPlan(step.whenTrue, workflow, depth + 1, renderAction, outputTypes))
+      if (step.whenFalse.length > 0) {
+        lines.push(`${indent}    } else {`)
+        lines.push(...await this.renderExecutionPlan(step.whenFalse, workflow, depth + 1, renderAction, outputTypes))
+      }
+      lines.push(`${indent}    }`)
+      lines.push("")
+    }
+
+    return lines
+  }
+
+  /**
+   * Synchronous counterpart of renderExecutionPlan for the static fallback path
+   */
+  protected static renderExecutionPlanSync(
+    steps: ExecutionStep[],
+    workflow: ParsedWorkflow | EnhancedWorkflow,
+    depth: number,
+    renderAction: (action: ParsedAction) => string[]
+  ): string[] {
+    const indent = "  ".repeat(depth)
+    const lines: string[] = []
+    const outputBindings = getOutputBindings(workflow)
+
+    for (const step of steps) {
+      if (step.type === 'action') {
+        const actionLines = renderAction(this.resolveActionInputs(step.action, workflow))
+        const bindingLines = renderOutputBindings(outputBindings.get(step.action.id) || [])
+        lines.push(...this.appendOutputBindings(actionLines, bindingLines).map((line) => this.indentLines(line, indent)))
+        continue
+      }
+
+      if (step.type === 'loop') {
+        lines.push(...this.openLoopBlock(step, workflow, indent))
+        lines.push(...this.renderExecutionPlanSync(step.body, workflow, depth + 1, renderAction))
+        lines.push(...this.closeLoopBlock(step, indent))
+        continue
+      }
+
+      lines.push(...this.openConditionBlock(step, workflow, indent))
+      lines.push(...this.renderExecutionPlanSync(step.whenTrue, workflow, depth + 1, renderAction))
+      if (step.whenFalse.length > 0) {
+        lines.push(`${indent}    } else {`)
+        lines.push(...this.renderExecutionPlanSync(step.whenFalse, workflow, depth + 1, renderAction))
+      }
+      lines.push(`${indent}    }`)
+      lines.push("")
+    }
+
+    return lines
+  }
+
+  private static openConditionBlock(
+    step: Extract<ExecutionStep, { type: 'condition' }>,
+    workflow: ParsedWorkflow | EnhancedWorkflow,
+    indent: string
+  ): string[] {
+    if (!step.action.condition) {
+      throw new Error(`Condition "${step.action.name}" has no predicate`)
+    }
+
+    const lines = [
+      `${indent}    // ${step.action.name}`,
+      `${indent}    if ${formatConditionExpression(step.action.condition, workflow)} {`
+    ]
+    if (step.whenTrue.length === 0) {
+      lines.push(`${indent}      // No actions on the true branch`)
+    }
+    return lines
+  }
+
+  /**
+   * Open a bounded loop. Runtime collections are guarded by an assert on
+   * their length; counts loop over an index variable.
+   */
+  private static openLoopBlock(
+    step: Extract<ExecutionStep, { type: 'loop' }>,
+    workflow: ParsedWorkflow | EnhancedWorkflow,
+    indent: string
+  ): string[] {
+    const { action } = step
+    const bound = getLoopIterationBound(action)
+    if (bound === undefined) {
+      throw new Error(`Loop "${action.name}" is unbounded - set maxIterations`)
+    }
+
+    const itemVariable = getLoopItemVariableName(action.id)
+    const itemsVariable = getLoopItemsVariableName(action.id)
+    const items = formatLoopItemsExpression(action, workflow)
+    const lines = [`${indent}    // For each: ${action.name} (at most ${bound} iterations)`]
+
+    if (items === null) {
+      lines.push(`${indent}    var ${itemVariable} = 0`)
+      lines.push(`${indent}    while ${itemVariable} < ${bound} {`)
+    } else {
+      const itemType = action.loop?.itemType
+      const annotation = itemType ? `: [${itemType}]` : ""
+      lines.push(`${indent}    let ${itemsVariable}${annotation} = ${items}`)
+      if (parseLoopItems(action.loop)?.kind === 'reference') {
+        lines.push(
+          `${indent}    assert(${itemsVariable}.length <= ${bound}, message: "${action.name} exceeds ${bound} iterations")`
+        )
+      }
+      lines.push(`${indent}    for ${itemVariable} in ${itemsVariable} {`)
+    }
+
+    if (step.body.length === 0) {
+      lines.push(`${indent}      // No actions in the loop body`)
+    }
+    return lines
+  }
+
+  private static closeLoopBlock(step: Extract<ExecutionStep, { type: 'loop' }>, indent: string): string[] {
+    const lines: string[] = []
+    if (parseLoopItems(step.action.loop)?.kind === 'count') {
+      const itemVariable = getLoopItemVariableName(step.action.id)
+      lines.push(`${indent}      ${itemVariable} = ${itemVariable} + 1`)
+    }
+    lines.push(`${indent}    }`)
+    lines.push("")
+    return lines
+  }
+
+  /**
+   * Bind loop item and upstream output references in an action's parameters
+   */
+  private static resolveActionInputs(
+    action: ParsedAction,
+    workflow: ParsedWorkflow | EnhancedWorkflow,
+    outputTypes: OutputTypeMap = {}
+  ): ParsedAction {
+    return resolveOutputReferences(resolveLoopItemReferences(action, workflow), workflow, outputTypes)
+  }
+
+  /**
+   * Insert output variable declarations after an action's code, ahead of its
+   * trailing blank line
+   */
+  private static appendOutputBindings(actionLines: string[], bindingLines: string[]): string[] {
+    if (bindingLines.length === 0) return actionLines
+    const trailing = actionLines.length > 0 && actionLines[actionLines.length - 1] === "" ? 1 : 0
+    return [
+      ...actionLines.slice(0, actionLines.length - trailing),
+      ...bindingLines,
+      ...actionLines.slice(actionLines.length - trailing)
+    ]
+  }
+
+  /**
+   * Look up registry output types for actions whose outputs feed later
+   * parameters, so bound locals can be typed and converted
+   */
+  protected static async collectOutputTypes(workflow: ParsedWorkflow | EnhancedWorkflow): Promise<OutputTypeMap> {
+    const outputTypes: OutputTypeMap = {}
+
+    for (const actionId of getOutputBindings(workflow).keys()) {
+      const action = workflow.actions.find((a) => a.id === actionId)
+      if (!action) continue
+
+      try {
+        const metadata = await this.getDiscoveryService().getAction(action.actionType)
+        if (metadata?.outputs?.length) {
+          outputTypes[actionId] = Object.fromEntries(metadata.outputs.map((output) => [output.name, output.type]))
+        }
+      } catch (error) {
+        logger.warn('Failed to get output types for data binding', {
+          component: 'cadence-generator',
+          operation: 'collect-output-types',
+          metadata: {
+            actionId,
+            actionType: action.actionType,
+            error: (error as Error).message
+          }
+        })
+      }
+    }
+
+    return outputTypes
+  }
+
+  private static indentLines(code: string, indent: string): string {
+    if (!indent) return code
+    return code.split('\n').map((line) => line ? indent + line : line).join('\n')
+  }
+
+  /**
+   * Bind an action's return value when a downstream condition reads its outputs
+   */
+  protected static bindActionResult(code: string, action: ParsedAction, resultActions: Set<string>): string {
+    if (!resultActions.has(action.id) || code.trim().startsWith('//')) {
+      return code
+    }
+    return code.replace(/^(\s*)/, `$1let ${getResultVariableName(action.id)} = `)
+  }
+
   /**
    * Generate setup code for specific action with error handling
    */
@@ -789,16 +1084,25 @@ ${resourceManagement}
     return this.generateStaticActionCode(action)
   }
 
+  /**
+   * Parameter value for static code, preferring a bound expression over the
+   * literal value
+   */
+  private static getStaticParameterValue(action: ParsedAction, name: string, fallback: string): string {
+    const param = action.parameters.find((p) => p.name === name)
+    return param?.expression || param?.value || fallback
+  }
+
   /**
    * Generate static action code for backward compatibility
    */
   private static generateStaticActionCode(action: ParsedAction): string {
     const codeMap: Record<string, (action: ParsedAction) => string> = {
       "swap-tokens": (a) => {
-        const fromToken = a.parameters.find((p) => p.name === "fromToken")?.value || "0x0"
-        const toToken = a.parameters.find((p) => p.name === "toToken")?.value || "0x0"
-        const amount = a.parameters.find((p) => p.name === "amount")?.value || "0.0"
-        const slippage = a.parameters.find((p) => p.name === "slippage")?.value || "0.01"
+        const fromToken = this.getStaticParameterValue(a, "fromToken", "0x0")
+        const toToken = this.getStaticParameterValue(a, "toToken", "0x0")
+        const amount = this.getStaticParameterValue(a, "amount", "0.0")
+        const slippage = this.getStaticParameterValue(a, "slippage", "0.01")
 
         return `    SwapRouter.swap(
       fromToken: ${fromToken},
@@ -808,10 +1112,10 @@ ${resourceManagement}
     )`
       },
       "add-liquidity": (a) => {
-        const tokenA = a.parameters.find((p) => p.name === "tokenA")?.value || "0x0"
-        const tokenB = a.parameters.find((p) => p.name === "tokenB")?.value || "0x0"
-        const amountA = a.parameters.find((p) => p.name === "amountA")?.value || "0.0"
-        const amountB = a.parameters.find((p) => p.name === "amountB")?.value || "0.0"
+        const tokenA = this.getStaticParameterValue(a, "tokenA", "0x0")
+        const tokenB = this.getStaticParameterValue(a, "tokenB", "0x0")
+        const amountA = this.getStaticParameterValue(a, "amountA", "0.0")
+        const amountB = this.getStaticParameterValue(a, "amountB", "0.0")
 
         return `    LiquidityPool.addLiquidity(
       tokenA: ${tokenA},
@@ -821,8 +1125,8 @@ ${resourceManagement}
     )`
       },
       "stake-tokens": (a) => {
-        const token = a.parameters.find((p) => p.name === "token")?.value || "0x0"
-        const amount = a.parameters.find((p) => p.name === "amount")?.value || "0.0"
+        const token = this.getStaticParameterValue(a, "token", "0x0")
+        const amount = this.getStaticParameterValue(a, "amount", "0.0")
 
         return `    StakingContract.stake(
       token: ${token},
@@ -830,7 +1134,7 @@ ${resourceManagement}
     )`
       },
       "mint-nft": (a) => {
-        const metadata = a.parameters.find((p) => p.name === "metadata")?.value || '""'
+        const metadata = this.getStaticParameterValue(a, "metadata", '""')
 
         return `    NFTContract.mintNFT(
       recipient: signer.address,
@@ -838,8 +1142,8 @@ ${resourceManagement}
     )`
       },
       "transfer-nft": (a) => {
-        const nftId = a.parameters.find((p) => p.name === "nftId")?.value || "0"
-        const recipient = a.parameters.find((p) => p.name === "recipient")?.value || "0x0"
+        const nftId = this.getStaticParameterValue(a, "nftId", "0")
+        const recipient = this.getStaticParameterValue(a, "recipient", "0x0")
 
         return `    NonFungibleToken.transfer(
       id: ${nftId},
@@ -847,8 +1151,8 @@ ${resourceManagement}
     )`
       },
       "list-nft": (a) => {
-        const nftId = a.parameters.find((p) => p.name === "nftId")?.value || "0"
-        const price = a.parameters.find((p) => p.name === "price")?.value || "0.0"
+        const nftId = this.getStaticParameterValue(a, "nftId", "0")
+        const price = this.getStaticParameterValue(a, "price", "0.0")
 
         return `    NFTMarketplace.listNFT(
       id: ${nftId},
@@ -856,8 +1160,8 @@ ${resourceManagement}
     )`
       },
       "create-proposal": (a) => {
-        const title = a.parameters.find((p) => p.name === "title")?.value || '""'
-        const description = a.parameters.find((p) => p.name === "description")?.value || '""'
+        const title = this.getStaticParameterValue(a, "title", '""')
+        const description = this.getStaticParameterValue(a, "description", '""')
 
         return `    GovernanceContract.createProposal(
       title: ${title},
@@ -865,8 +1169,8 @@ ${resourceManagement}
     )`
       },
       vote: (a) => {
-        const proposalId = a.parameters.find((p) => p.name === "proposalId")?.value || "0"
-        const choice = a.parameters.find((p) => p.name === "choice")?.value || "true"
+        const proposalId = this.getStaticParameterValue(a, "proposalId", "0")
+        const choice = this.getStaticParameterValue(a, "choice", "true")
 
         return `    GovernanceContract.vote(
       proposalId: ${proposalId},
@@ -896,7 +1200,10 @@ ${resourceManagement}
     // Build parameter list from action parameters
     const params: string[] = []
     for (const param of action.parameters) {
-      if (param.value) {
+      if (param.expression) {
+        // Bound to a loop item or upstream output
+        params.push(`${param.name}: ${param.expression}`)
+      } else if (param.value) {
         // Type conversion based on parameter type
         let value = param.value
         if (param.type === 'UFix64' || param.type === 'Fix64') {
@@ -1281,8 +1588,8 @@ ${deploymentTransaction}`
     for (const trigger of triggers) {
       lines.push("    self.triggers.append(TriggerDefinition(")
       lines.push(`      type: "${trigger.type}",`)
-      lines.push(`      condition: "${trigger.condition.operator}",`)
-      lines.push(`      value: ${JSON.stringify(trigger.condition.value)},`)
+      lines.push(`      condition: "${trigger.condition?.operator ?? ''}",`)
+      lines.push(`      value: ${JSON.stringify(trigger.condition?.value ?? trigger.flowEvent?.eventType ?? null)},`)
       lines.push(`      oracleAction: ${trigger.oracleAction ? `"${trigger.oracleAction}"` : 'nil'}`)
       lines.push("    ))")
     }
@@ -1535,40 +1842,42 @@ ${postConditions}
     lines.push("    ResourceSafety.validateResourceState()")
     lines.push("")
 
-    for (const actionId of workflow.executionOrder) {
-      const action = workflow.actions.find((a) => a.id === actionId)
-      if (action) {
-        const actionMetadata = await this.getDiscoveryService().getAction(action.id)
-        
-        lines.push(`    // Secure execution: ${action.name}`)
-        if (actionMetadata) {
-          lines.push(`    // Action ID: ${actionMetadata.id}`)
-          lines.push(`    // Version: ${actionMetadata.version}`)
-          lines.push(`    // Security Level: ${actionMetadata.securityLevel}`)
-        }
-        
-        // Add comprehensive error handling with security context
-        lines.push("    do {")
-        lines.push("      // Pre-action security check")
-        lines.push(`      SecurityUtils.validateActionExecution("${action.id}")`)
-        lines.push("")
-        
-        const code = await this.generateSecureActionCode(action, actionMetadata)
-        lines.push("      " + code.split('\n').join('\n      '))
-        
-        lines.push("")
-        lines.push("      // Post-action security validation")
-        lines.push("      ResourceSafety.validateResourceState()")
-        lines.push("    } catch (error) {")
-        lines.push("      // Security-aware error handling")
-        lines.push(`      log("Security error in action ${action.name}: ".concat(error.message))`)
-        lines.push("      // Attempt to recover resources safely")
-        lines.push("      ResourceSafety.emergencyCleanup()")
-        lines.push(`      panic("Secure execution failed for ${action.name}: ".concat(error.message))`)
-        lines.push("    }")
-        lines.push("")
+    const resultActions = getReferencedResultActions(workflow)
+    const outputTypes = await this.collectOutputTypes(workflow)
+    lines.push(...await this.renderExecutionPlan(buildExecutionPlan(workflow), workflow, 0, async (action) => {
+      const actionLines: string[] = []
+      const actionMetadata = await this.getDiscoveryService().getAction(action.id)
+      
+      actionLines.push(`    // Secure execution: ${action.name}`)
+      if (actionMetadata) {
+        actionLines.push(`    // Action ID: ${actionMetadata.id}`)
+        actionLines.push(`    // Version: ${actionMetadata.version}`)
+        actionLines.push(`    // Security Level: ${actionMetadata.securityLevel}`)
       }
-    }
+      
+      // Add comprehensive error handling with security context
+      actionLines.push("    do {")
+      actionLines.push("      // Pre-action security check")
+      actionLines.push(`      SecurityUtils.validateActionExecution("${action.id}")`)
+      actionLines.push("")
+      
+      const resultVariable = resultActions.has(action.id) ? getResultVariableName(action.id) : "result"
+      const code = await this.generateSecureActionCode(action, actionMetadata, resultVariable)
+      actionLines.push("      " + code.split('\n').join('\n      '))
+      
+      actionLines.push("")
+      actionLines.push("      // Post-action security validation")
+      actionLines.push("      ResourceSafety.validateResourceState()")
+      actionLines.push("    } catch (error) {")
+      actionLines.push("      // Security-aware error handling")
+      actionLines.push(`      log("Security error in action ${action.name}: ".concat(error.message))`)
+      actionLines.push("      // Attempt to recover resources safely")
+      actionLines.push("      ResourceSafety.emergencyCleanup()")
+      actionLines.push(`      panic("Secure execution failed for ${action.name}: ".concat(error.message))`)
+      actionLines.push("    }")
+      actionLines.push("")
+      return actionLines
+    }, outputTypes))
 
     lines.push('    log("Secure workflow execution completed successfully")')
     lines.push("  }")
@@ -1579,7 +1888,11 @@ ${postConditions}
   /**
    * Generate secure action code with input validation
    */
-  private static async generateSecureActionCode(action: ParsedAction, actionMetadata?: ActionMetadata): Promise<string> {
+  private static async generateSecureActionCode(
+    action: ParsedAction,
+    actionMetadata?: ActionMetadata,
+    resultVariable = "result"
+  ): Promise<string> {
     if (!actionMetadata) {
       return `// Secure action ${action.name} - metadata not available`
     }
@@ -1589,7 +1902,15 @@ ${postConditions}
     // Add input validation before execution
     lines.push("// Input validation and sanitization")
     for (const param of action.parameters) {
-      if (param.value) {
+      if (param.expression) {
+        if (param.type === 'String') {
+          lines.push(`let validated${param.name} = InputValidator.validateString(${param.expression})`)
+        } else if (param.type === 'UFix64' || param.type === 'Fix64') {
+          lines.push(`let validated${param.name} = InputValidator.validateAmount(${param.expression})`)
+        } else if (param.type === 'Address') {
+          lines.push(`let validated${param.name} = InputValidator.validateAddress(${param.expression})`)
+        }
+      } else if (param.value) {
         if (param.type === 'String') {
           lines.push(`let validated${param.name} = InputValidator.validateString(sanitized${param.name})`)
         } else if (param.type === 'UFix64' || param.type === 'Fix64') {
@@ -1610,8 +1931,8 @@ ${postConditions}
     // Build parameter list with validated inputs
     const params: string[] = []
     for (const param of action.parameters) {
-      if (param.value) {
-        let value = param.value
+      if (param.expression || param.value) {
+        let value = param.expression || param.value
         if (param.type === 'String') {
           value = `validated${param.name}`
         } else if (param.type === 'UFix64' || param.type === 'Fix64') {
@@ -1619,7 +1940,7 @@ ${postConditions}
         } else if (param.type === 'Address') {
           value = `validated${param.name}`
         } else if (param.type === 'Bool') {
-          value = param.value.toLowerCase() === 'true' ? 'true' : 'false'
+          value = param.expression || (param.value.toLowerCase() === 'true' ? 'true' : 'false')
         }
         params.push(`${param.name}: ${value}`)
       }
@@ -1631,14 +1952,14 @@ ${postConditions}
     lines.push("")
     
     if (params.length > 0) {
-      lines.push(`let result = ${contractName}.${functionName}(`)
+      lines.push(`let ${resultVariable} = ${contractName}.${functionName}(`)
       params.forEach((param, index) => {
         const comma = index < params.length - 1 ? ',' : ''
         lines.push(`  ${param}${comma}`)
       })
       lines.push(')')
     } else {
-      lines.push(`let result = ${contractName}.${functionName}()`)
+      lines.push(`let ${resultVariable} = ${contractName}.${functionName}()`)
     }
     
     lines.push("")
@@ -1650,13 +1971,33 @@ ${postConditions}
   }
 
   /**
-   * Generate post-conditions for security validation
+   * Generate post-conditions for security validation and spending limits.
+   * Spending limits compare against the balanceBefore<i> fields that
+   * generateLimitedTransaction records in prepare.
    */
-  private static generatePostConditions(workflow: EnhancedWorkflow): string {
+  private static generatePostConditions(
+    workflow: ParsedWorkflow | EnhancedWorkflow,
+    options: { spendingLimits?: TransactionSpendingLimit[]; securityChecks?: boolean } = {}
+  ): string {
     const lines: string[] = []
-    
-    lines.push("  // Post-execution security validation")
+
+    lines.push("  // Post-execution validation")
     lines.push("  post {")
+
+    options.spendingLimits?.forEach((limit, index) => {
+      const maxAmount = limit.maxAmount.toFixed(8)
+      lines.push(`    // At most ${maxAmount} ${limit.token} may leave ${limit.vaultPath}`)
+      lines.push(`    self.spendingVault${index}.balance + ${maxAmount} >= self.balanceBefore${index}: "Agent spending limit exceeded: more than ${maxAmount} ${limit.token}"`)
+    })
+
+    if (options.securityChecks === false) {
+      lines.push("  }")
+      return lines.join('\n')
+    }
+    if (options.spendingLimits?.length) {
+      lines.push("")
+    }
+
     lines.push("    // Ensure transaction completed successfully")
     lines.push("    result != nil: \"Transaction must return a result\"")
     lines.push("")
@@ -1681,7 +2022,7 @@ ${postConditions}
     // Add gas usage validation
     lines.push("")
     lines.push("    // Gas usage validation")
-    lines.push(`    // Estimated: ${workflow.estimatedGas}, Actual: [runtime value]`)
+    lines.push(`    // Estimated: ${'estimatedGas' in workflow ? workflow.estimatedGas : 'unknown'}, Actual: [runtime value]`)
     lines.push("    // Note: Actual gas validation would be implemented by the runtime")
     
     lines.push("  }")
@@ -0,0 +1,354 @@
+import { spawn, type ChildProcess } from 'child_process'
+
+/**
+ * Cadence Language Server
+ *
+ * Checks Cadence source with the official Cadence language server, run locally
+ * through the Flow CLI (`flow cadence language-server`):
+ * - Speaks the Language Server Protocol over stdio (Content-Length framing)
+ * - Opens each piece of code as a throwaway document and waits for the
+ *   parser and type checker to publish diagnostics for it
+ * - Reports diagnostics with 1-based line and column positions
+ * - Degrades to an "unavailable" result when the Flow CLI is not installed
+ */
+
+export type CadenceDiagnosticSeverity = 'error' | 'warning' | 'info' | 'hint'
+
+export interface CadenceDiagnostic {
+  line: number       // 1-based
+  column: number     // 1-based
+  endLine: number
+  endColumn: number
+  severity: CadenceDiagnosticSeverity
+  message: string
+  source?: string
+}
+
+export interface CadenceCheckResult {
+  checked: boolean                // false when the language server could not run
+  diagnostics: CadenceDiagnostic[]
+  unavailableReason?: string
+}
+
+export interface CadenceLanguageServerOptions {
+  flowBinary: string
+  cwd?: string          // project directory; its flow.json is used to resolve imports
+  startupTimeout: number  // ms allowed for the initialize handshake
+  checkTimeout: number    // ms to wait for diagnostics of a document
+}
+
+export class CadenceLanguageServerError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CadenceLanguageServerError'
+  }
+}
+
+interface PendingRequest {
+  resolve: (result: any) => void
+  reject: (error: Error) => void
+}
+
+interface LspDiagnostic {
+  range: {
+    start: { line: number; character: number }
+    end: { line: number; character: number }
+  }
+  severity?: number
+  message: string
+  source?: string
+}
+
+const LSP_SEVERITIES: Record<number, CadenceDiagnosticSeverity> = {
+  1: 'error',
+  2: 'warning',
+  3: 'info',
+  4: 'hint'
+}
+
+export class CadenceLanguageServer {
+  private options: CadenceLanguageServerOptions
+  private process: ChildProcess | null = null
+  private starting: Promise<void> | null = null
+  private buffer: Buffer = Buffer.alloc(0)
+  private nextRequestId = 1
+  private documentCount = 0
+  private pendingRequests: Map<number, PendingRequest> = new Map()
+  private diagnosticWaiters: Map<string, (diagnostics: LspDiagnostic[]) => void> = new Map()
+
+  constructor(options: Partial<CadenceLanguageServerOptions> = {}) {
+    this.options = {
+      flowBinary: 'flow',
+      startupTimeout: 15000,
+      checkTimeout: 10000,
+      ...options
+    }
+  }
+
+  /**
+   * Spawn the language server and complete the initialize handshake
+   */
+  async start(): Promise<void> {
+    if (this.process) {
+      return this.starting ?? undefined
+    }
+
+    const child = spawn(this.options.flowBinary, ['cadence', 'language-server'], {
+      cwd: this.options.cwd,
+      stdio: ['pipe', 'pipe', 'pipe']
+    })
+    this.process = child
+    this.buffer = Buffer.alloc(0)
+
+    child.stdout?.on('data', (chunk: Buffer) => this.handleData(chunk))
+    child.stderr?.on('data', () => {})
+    child.stdin?.on('error', () => {})
+    child.once('error', error => this.handleExit(child, new CadenceLanguageServerError(
+      `Could not run "${this.options.flowBinary}": ${error.message}. Install the Flow CLI to check Cadence code.`
+    )))
+    child.once('exit', code => this.handleExit(child, new CadenceLanguageServerError(
+      `Cadence language server exited with code ${code}`
+    )))
+
+    this.starting = this.request('initialize', {
+      processId: process.pid,
+      rootUri: this.options.cwd ? `file://${this.options.cwd}` : null,
+      capabilities: {
+        textDocument: { publishDiagnostics: { relatedInformation: false } }
+      }
+    }, this.options.startupTimeout).then(() => {
+      this.notify('initialized', {})
+    })
+
+    try {
+      await this.starting
+    } catch (error) {
+      await this.stop()
+      throw error
+    }
+  }
+
+  /**
+   * Parse and type check Cadence code, returning its diagnostics
+   */
+  async check(code: string): Promise<CadenceDiagnostic[]> {
+    await this.start()
+
+    const uri = `file:///actionloom/check-${++this.documentCount}.cdc`
+    const published = new Promise<LspDiagnostic[]>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.diagnosticWaiters.delete(uri)
+        reject(new CadenceLanguageServerError(
+          `Cadence language server did not report diagnostics within ${this.options.checkTimeout}ms`
+        ))
+      }, this.options.checkTimeout)
+      this.diagnosticWaiters.set(uri, diagnostics => {
+        clearTimeout(timer)
+        this.diagnosticWaiters.delete(uri)
+        resolve(diagnostics)
+      })
+    })
+
+    this.notify('textDocument/didOpen', {
+      textDocument: { uri, languageId: 'cadence', version: 1, text: code }
+    })
+
+    try {
+      const diagnostics = await published
+      return diagnostics.map(toCadenceDiagnostic)
+    } finally {
+      if (this.process) {
+        this.notify('textDocument/didClose', { textDocument: { uri } })
+      }
+    }
+  }
+
+  /**
+   * Shut the language server down
+   */
+  async stop(): Promise<void> {
+    const child = this.process
+    if (!child) {
+      return
+    }
+
+    if (child.exitCode === null && child.stdin?.writable) {
+      try {
+        await this.request('shutdown', null, 2000)
+        this.notify('exit', null)
+      } catch {
+        // The process is killed below either way
+      }
+    }
+
+    this.handleExit(child, new CadenceLanguageServerError('Cadence language server stopped'))
+    if (child.exitCode === null) {
+      child.kill('SIGTERM')
+    }
+  }
+
+  isRunning(): boolean {
+    return this.process !== null
+  }
+
+  private request(method: string, params: any, timeout: number): Promise<any> {
+    const id = this.nextRequestId++
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingRequests.delete(id)
+        reject(new CadenceLanguageServerError(`Cadence language server did not answer "${method}" within ${timeout}ms`))
+      }, timeout)
+
+      this.pendingRequests.set(id, {
+        resolve: result => {
+          clearTimeout(timer)
+          resolve(result)
+        },
+        reject: error => {
+          clearTimeout(timer)
+          reject(error)
+        }
+      })
+      this.write({ jsonrpc: '2.0', id, method, params })
+    })
+  }
+
+  private notify(method: string, params: any): void {
+    this.write({ jsonrpc: '2.0', method, params })
+  }
+
+  private write(message: Record<string, any>): void {
+    const body = Buffer.from(JSON.stringify(message), 'utf8')
+    this.process?.stdin?.write(Buffer.concat([
+      Buffer.from(`Content-Length: ${body.length}\r\n\r\n`, 'ascii'),
+      body
+    ]))
+  }
+
+  private handleData(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk])
+
+    while (true) {
+      const headerEnd = this.buffer.indexOf('\r\n\r\n')
+      if (headerEnd === -1) return
+
+      const header = this.buffer.subarray(0, headerEnd).toString('ascii')
+      const match = header.match(/Content-Length:\s*(\d+)/i)
+      if (!match) {
+        // Not a protocol frame; drop it and resynchronize on the next header
+        this.buffer = this.buffer.subarray(headerEnd + 4)
+        continue
+      }
+
+      const bodyStart = headerEnd + 4
+      const bodyEnd = bodyStart + Number(match[1])
+      if (this.buffer.length < bodyEnd) return
+
+      const body = this.buffer.subarray(bodyStart, bodyEnd).toString('utf8')
+      this.buffer = this.buffer.subarray(bodyEnd)
+
+      try {
+        this.handleMessage(JSON.parse(body))
+      } catch {
+        // Ignore malformed messages
+      }
+    }
+  }
+
+  private handleMessage(message: any): void {
+    if (message.method === 'textDocument/publishDiagnostics') {
+      this.diagnosticWaiters.get(message.params?.uri)?.(message.params?.diagnostics || [])
+      return
+    }
+
+    if (message.method && message.id !== undefined) {
+      // Server-to-client requests (configuration, progress, registration) need an answer
+      this.write({ jsonrpc: '2.0', id: message.id, result: null })
+      return
+    }
+
+    const pending = this.pendingRequests.get(message.id)
+    if (!pending) return
+
+    this.pendingRequests.delete(message.id)
+    if (message.error) {
+      pending.reject(new CadenceLanguageServerError(message.error.message || 'Language server request failed'))
+    } else {
+      pending.resolve(message.result)
+    }
+  }
+
+  private handleExit(child: ChildProcess, error: CadenceLanguageServerError): void {
+    // A late exit of a replaced process must not tear down its successor
+    if (this.process !== child) return
+
+    this.process = null
+    this.starting = null
+    for (const pending of this.pendingRequests.values()) {
+      pending.reject(error)
+    }
+    this.pendingRequests.clear()
+    this.diagnosticWaiters.clear()
+  }
+}
+
+function toCadenceDiagnostic(diagnostic: LspDiagnostic): CadenceDiagnostic {
+  return {
+    line: diagnostic.range.start.line + 1,
+    column: diagnostic.range.start.character + 1,
+    endLine: diagnostic.range.end.line + 1,
+    endColumn: diagnostic.range.end.character + 1,
+    severity: LSP_SEVERITIES[diagnostic.severity ?? 1] || 'error',
+    message: diagnostic.message,
+    source: diagnostic.source
+  }
+}
+
+/**
+ * One-line rendering of a diagnostic, e.g. `12:5 error: cannot find variable`
+ */
+export function formatCadenceDiagnostic(diagnostic: CadenceDiagnostic): string {
+  return `${diagnostic.line}:${diagnostic.column} ${diagnostic.severity}: ${diagnostic.message}`
+}
+
+/**
+ * Whether a Flow project is configured for the language server. String
+ * imports such as `import "FungibleToken"` only resolve through the contract
+ * aliases of a flow.json, so generated transactions cannot be type checked
+ * without one.
+ */
+export function isCadenceProjectConfigured(): boolean {
+  return Boolean(process.env.CADENCE_PROJECT_DIR)
+}
+
+let defaultLanguageServer: CadenceLanguageServer | null = null
+
+export function getDefaultCadenceLanguageServer(): CadenceLanguageServer {
+  if (!defaultLanguageServer) {
+    defaultLanguageServer = new CadenceLanguageServer({
+      flowBinary: process.env.FLOW_CLI_PATH || 'flow',
+      cwd: process.env.CADENCE_PROJECT_DIR
+    })
+  }
+  return defaultLanguageServer
+}
+
+/**
+ * Check code with the shared language server. Never throws: when the server
+ * cannot run, the result is marked unchecked with the reason.
+ */
+export async function checkCadenceCode(
+  code: string,
+  server: CadenceLanguageServer = getDefaultCadenceLanguageServer()
+): Promise<CadenceCheckResult> {
+  try {
+    return { checked: true, diagnostics: await server.check(code) }
+  } catch (error) {
+    return {
+      checked: false,
+      diagnostics: [],
+      unavailableReason: error instanceof Error ? error.message : String(error)
+    }
+  }
+}
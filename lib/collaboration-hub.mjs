@@ -0,0 +1,244 @@
+/**
+ * Collaboration Hub
+ *
+ * Rooms for real-time workflow editing, served by websocket-server.mjs:
+ * - One room per saved workflow, holding the merged CRDT registers so late
+ *   joiners receive the current document
+ * - Relays CRDT operations and presence cursors to the other peers in a room
+ * - Grants per-node locks to a connection while someone configures a node's
+ *   parameters and releases them when that connection leaves
+ * - Drops operations without a string key and a { counter, clientId } clock,
+ *   and parameter writes to a node locked by another connection
+ * - Drops a room, with its registers, when its last peer leaves; editors
+ *   reload the saved workflow before joining
+ *
+ * Runs in memory with no external service. Register merging mirrors
+ * compareClocks in workflow-crdt.ts.
+ */
+
+const PEER_COLORS = ['#8b5cf6', '#10b981', '#f59e0b', '#ef4444', '#3b82f6', '#ec4899', '#14b8a6', '#f97316']
+const MAX_NODE_ID_LENGTH = 200
+const PARAMETER_PREFIX = 'param:'
+
+function compareClocks(a, b) {
+  if (a.counter !== b.counter) return a.counter - b.counter
+  return a.clientId < b.clientId ? -1 : a.clientId > b.clientId ? 1 : 0
+}
+
+function isNodeId(nodeId) {
+  return typeof nodeId === 'string' && nodeId.length > 0 && nodeId.length <= MAX_NODE_ID_LENGTH
+}
+
+function isOperation(operation) {
+  return Boolean(operation) &&
+    typeof operation.key === 'string' &&
+    operation.key.length > 0 &&
+    Boolean(operation.clock) &&
+    Number.isFinite(operation.clock.counter) &&
+    typeof operation.clock.clientId === 'string'
+}
+
+// Node whose parameter a register key holds, as written by parameterKey in workflow-crdt.ts
+function parameterNodeId(key) {
+  if (!key.startsWith(PARAMETER_PREFIX)) return null
+  try {
+    const [nodeId] = JSON.parse(key.slice(PARAMETER_PREFIX.length))
+    return isNodeId(nodeId) ? nodeId : undefined
+  } catch {
+    return undefined
+  }
+}
+
+function send(client, type, payload) {
+  if (client.readyState === undefined || client.readyState === 1) {
+    client.send(JSON.stringify({ type, payload }))
+  }
+}
+
+export function createCollaborationHub() {
+  const rooms = new Map()     // workflowId -> { registers, peers: Map<client, peer>, locks: Map<nodeId, client> }
+  const memberships = new Map()  // client -> workflowId
+
+  const getRoom = (workflowId) => {
+    if (!rooms.has(workflowId)) {
+      rooms.set(workflowId, { registers: new Map(), peers: new Map(), locks: new Map() })
+    }
+    return rooms.get(workflowId)
+  }
+
+  const peerList = (room) => Array.from(room.peers.values())
+  // Locks belong to connections; peers see the clientId of the holder
+  const lockList = (room) => Object.fromEntries(
+    Array.from(room.locks, ([nodeId, holder]) => [nodeId, room.peers.get(holder).clientId])
+  )
+
+  const broadcast = (room, type, payload, except) => {
+    room.peers.forEach((_peer, client) => {
+      if (client !== except) send(client, type, payload)
+    })
+  }
+
+  const leave = (client) => {
+    const workflowId = memberships.get(client)
+    if (workflowId === undefined) return
+
+    memberships.delete(client)
+    const room = rooms.get(workflowId)
+    room.peers.delete(client)
+
+    if (room.peers.size === 0) {
+      rooms.delete(workflowId)
+      return
+    }
+
+    let releasedLocks = false
+    room.locks.forEach((holder, nodeId) => {
+      if (holder === client) {
+        room.locks.delete(nodeId)
+        releasedLocks = true
+      }
+    })
+
+    broadcast(room, 'collab_peers', { workflowId, peers: peerList(room) })
+    if (releasedLocks) {
+      broadcast(room, 'collab_locks', { workflowId, locks: lockList(room) })
+    }
+  }
+
+  const join = (client, { workflowId, clientId, name }) => {
+    if (!workflowId || !clientId) {
+      send(client, 'collab_error', { message: 'workflowId and clientId are required to join' })
+      return
+    }
+
+    leave(client)
+    const room = getRoom(workflowId)
+    const peer = {
+      clientId,
+      name: name || `Guest ${clientId.slice(0, 4)}`,
+      color: PEER_COLORS[room.peers.size % PEER_COLORS.length],
+      cursor: null
+    }
+    room.peers.set(client, peer)
+    memberships.set(client, workflowId)
+
+    send(client, 'collab_snapshot', {
+      workflowId,
+      operations: Array.from(room.registers.values()),
+      peers: peerList(room),
+      locks: lockList(room)
+    })
+    broadcast(room, 'collab_peers', { workflowId, peers: peerList(room) }, client)
+  }
+
+  return {
+    /**
+     * Handle a `collab_*` message from a connected client
+     */
+    handleMessage(client, message) {
+      if (message.type === 'collab_join') {
+        join(client, message.payload || {})
+        return
+      }
+
+      const workflowId = memberships.get(client)
+      if (workflowId === undefined) {
+        send(client, 'collab_error', { message: 'Join a workflow before sending collaboration messages' })
+        return
+      }
+
+      const room = rooms.get(workflowId)
+      const peer = room.peers.get(client)
+      const payload = message.payload || {}
+
+      switch (message.type) {
+        case 'collab_operations': {
+          const received = Array.isArray(payload.operations) ? payload.operations : []
+          let invalid = 0
+          let locked = 0
+          const operations = received.filter(operation => {
+            if (!isOperation(operation)) {
+              invalid++
+              return false
+            }
+            const nodeId = parameterNodeId(operation.key)
+            if (nodeId === undefined) {
+              invalid++
+              return false
+            }
+            const holder = nodeId === null ? undefined : room.locks.get(nodeId)
+            if (holder && holder !== client) {
+              locked++
+              return false
+            }
+            return true
+          })
+          if (invalid > 0) {
+            send(client, 'collab_error', { message: `Dropped ${invalid} operation(s) without a string key and a { counter, clientId } clock` })
+          }
+          if (locked > 0) {
+            send(client, 'collab_error', { message: `Dropped ${locked} parameter change(s) to nodes locked by another peer` })
+          }
+          if (operations.length === 0) break
+
+          operations.forEach(operation => {
+            const current = room.registers.get(operation.key)
+            if (!current || compareClocks(operation.clock, current.clock) > 0) {
+              room.registers.set(operation.key, operation)
+            }
+          })
+          broadcast(room, 'collab_operations', { workflowId, operations, clientId: peer.clientId }, client)
+          break
+        }
+
+        case 'collab_presence':
+          peer.cursor = payload.cursor || null
+          broadcast(room, 'collab_presence', { workflowId, clientId: peer.clientId, cursor: peer.cursor }, client)
+          break
+
+        case 'collab_lock': {
+          if (!isNodeId(payload.nodeId)) {
+            send(client, 'collab_error', { message: 'nodeId must be a non-empty string' })
+            return
+          }
+          const holder = room.locks.get(payload.nodeId)
+          if (holder && holder !== client) {
+            send(client, 'collab_lock_denied', { workflowId, nodeId: payload.nodeId, holder: room.peers.get(holder).clientId })
+            return
+          }
+          room.locks.set(payload.nodeId, client)
+          broadcast(room, 'collab_locks', { workflowId, locks: lockList(room) })
+          break
+        }
+
+        case 'collab_unlock':
+          if (isNodeId(payload.nodeId) && room.locks.get(payload.nodeId) === client) {
+            room.locks.delete(payload.nodeId)
+            broadcast(room, 'collab_locks', { workflowId, locks: lockList(room) })
+          }
+          break
+
+        case 'collab_leave':
+          leave(client)
+          break
+
+        default:
+          send(client, 'collab_error', { message: `Unknown collaboration message: ${message.type}` })
+      }
+    },
+
+    /**
+     * Drop a closed connection from its room
+     */
+    disconnect(client) {
+      leave(client)
+    },
+
+    getRoomSummary(workflowId) {
+      const room = rooms.get(workflowId)
+      return room
+        ? { peers: peerList(room), locks: lockList(room), registerCount: room.registers.size }
+        : null
+    }
+  }
+}
@@ -0,0 +1,317 @@
+/**
+ * Cron Expression Engine
+ *
+ * Parses cron expressions and computes their run times in any IANA time zone:
+ * - Five fields (minute hour day-of-month month day-of-week) or six with a
+ *   leading seconds field
+ * - Wildcards, ranges, steps, lists, month and weekday names, 7 as Sunday and
+ *   the @yearly/@monthly/@weekly/@daily/@hourly macros
+ * - When both day-of-month and day-of-week are restricted, a day matches
+ *   either one (standard Vixie cron behaviour)
+ *
+ * Daylight saving time follows the usual cron daemons: a wall-clock time
+ * skipped by a forward jump runs shifted forward by the length of the gap
+ * (02:30 becomes 03:30), and a wall-clock time repeated by a backward jump
+ * runs once, at its first occurrence.
+ */
+
+export class CronExpressionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CronExpressionError'
+  }
+}
+
+export interface CronExpression {
+  source: string
+  hasSeconds: boolean
+  seconds: number[]
+  minutes: number[]
+  hours: number[]
+  daysOfMonth: number[]
+  months: number[]
+  daysOfWeek: number[]   // 0 = Sunday
+  dayOfMonthRestricted: boolean
+  dayOfWeekRestricted: boolean
+}
+
+interface FieldSpec {
+  name: string
+  min: number
+  max: number
+  names?: string[]
+}
+
+export const CRON_MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *'
+}
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC']
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT']
+
+const SECOND: FieldSpec = { name: 'second', min: 0, max: 59 }
+const MINUTE: FieldSpec = { name: 'minute', min: 0, max: 59 }
+const HOUR: FieldSpec = { name: 'hour', min: 0, max: 23 }
+const DAY_OF_MONTH: FieldSpec = { name: 'day of month', min: 1, max: 31 }
+const MONTH: FieldSpec = { name: 'month', min: 1, max: 12, names: MONTH_NAMES }
+const DAY_OF_WEEK: FieldSpec = { name: 'day of week', min: 0, max: 7, names: DAY_NAMES }
+
+// Leap days can be eight years apart (2096 to 2104)
+const SEARCH_YEARS = 8
+
+function parseValue(text: string, spec: FieldSpec, field: string): number {
+  const nameIndex = spec.names?.indexOf(text.toUpperCase()) ?? -1
+  if (nameIndex !== -1) {
+    return spec === MONTH ? nameIndex + 1 : nameIndex
+  }
+  if (!/^\d+$/.test(text)) {
+    throw new CronExpressionError(`Invalid ${spec.name} field "${field}": "${text}" is not a number`)
+  }
+  const value = Number(text)
+  if (value < spec.min || value > spec.max) {
+    throw new CronExpressionError(
+      `Invalid ${spec.name} field "${field}": ${value} is outside ${spec.min}-${spec.max}`
+    )
+  }
+  return value
+}
+
+function parseField(field: string, spec: FieldSpec): number[] {
+  const values = new Set<number>()
+
+  for (const part of field.split(',')) {
+    const [range, stepText, extra] = part.split('/')
+    if (extra !== undefined || range === '') {
+      throw new CronExpressionError(`Invalid ${spec.name} field "${field}"`)
+    }
+
+    let step = 1
+    if (stepText !== undefined) {
+      if (!/^\d+$/.test(stepText) || Number(stepText) === 0) {
+        throw new CronExpressionError(`Invalid ${spec.name} field "${field}": step must be a positive number`)
+      }
+      step = Number(stepText)
+    }
+
+    let start: number
+    let end: number
+    if (range === '*' || range === '?') {
+      start = spec.min
+      end = spec.max
+    } else if (range.includes('-')) {
+      const bounds = range.split('-')
+      if (bounds.length !== 2) {
+        throw new CronExpressionError(`Invalid ${spec.name} field "${field}"`)
+      }
+      start = parseValue(bounds[0], spec, field)
+      end = parseValue(bounds[1], spec, field)
+      if (start > end) {
+        throw new CronExpressionError(`Invalid ${spec.name} field "${field}": range ${range} is backwards`)
+      }
+    } else {
+      start = parseValue(range, spec, field)
+      // "5/15" means "from 5 to the end, every 15"
+      end = stepText !== undefined ? spec.max : start
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(spec === DAY_OF_WEEK && value === 7 ? 0 : value)
+    }
+  }
+
+  return Array.from(values).sort((a, b) => a - b)
+}
+
+/**
+ * Parse a cron expression, throwing CronExpressionError when it is malformed
+ */
+export function parseCronExpression(expression: string): CronExpression {
+  const source = expression.trim()
+  const expanded = source.startsWith('@') ? CRON_MACROS[source.toLowerCase()] : source
+  if (!expanded) {
+    throw new CronExpressionError(`Unknown cron macro "${source}"`)
+  }
+
+  const fields = expanded.split(/\s+/)
+  if (fields.length !== 5 && fields.length !== 6) {
+    throw new CronExpressionError(
+      'Cron expression must have 5 fields (minute hour day month weekday) or 6 with leading seconds'
+    )
+  }
+
+  const hasSeconds = fields.length === 6
+  const [second, minute, hour, dayOfMonth, month, dayOfWeek] = hasSeconds ? fields : ['0', ...fields]
+
+  if (second === '?' || minute === '?' || hour === '?' || month === '?') {
+    throw new CronExpressionError('"?" is only allowed in the day of month and day of week fields')
+  }
+
+  return {
+    source,
+    hasSeconds,
+    seconds: parseField(second, SECOND),
+    minutes: parseField(minute, MINUTE),
+    hours: parseField(hour, HOUR),
+    daysOfMonth: parseField(dayOfMonth, DAY_OF_MONTH),
+    months: parseField(month, MONTH),
+    daysOfWeek: parseField(dayOfWeek, DAY_OF_WEEK),
+    // Like Vixie cron, a field starting with "*" (including "*/2") counts as unrestricted
+    dayOfMonthRestricted: !dayOfMonth.startsWith('*') && dayOfMonth !== '?',
+    dayOfWeekRestricted: !dayOfWeek.startsWith('*') && dayOfWeek !== '?'
+  }
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+export function getSystemTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
+}
+
+/**
+ * Wall-clock times are carried as Dates whose UTC fields hold the local
+ * year, month, day, hour, minute and second of the target time zone.
+ */
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    })
+    formatters.set(timeZone, formatter)
+  }
+  return formatter
+}
+
+function toWallTime(instant: number, timeZone: string): number {
+  const parts: Record<string, number> = {}
+  for (const part of getFormatter(timeZone).formatToParts(new Date(instant))) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value)
+  }
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour % 24, parts.minute, parts.second)
+}
+
+function offsetAt(instant: number, timeZone: string): number {
+  const wholeSecond = Math.floor(instant / 1000) * 1000
+  return toWallTime(wholeSecond, timeZone) - wholeSecond
+}
+
+function fromWallTime(wall: number, timeZone: string): number {
+  // Offsets either side of any transition near this wall time (max UTC offset is 14h)
+  const before = wall - offsetAt(wall - 86400000, timeZone)
+  const after = wall - offsetAt(wall + 86400000, timeZone)
+
+  const candidates = [before, after]
+    .filter(instant => toWallTime(instant, timeZone) === wall)
+    .sort((a, b) => a - b)
+  if (candidates.length > 0) {
+    return candidates[0]
+  }
+
+  // Skipped by a forward jump: the pre-transition offset lands just past the gap
+  return before
+}
+
+function dayMatches(cron: CronExpression, wall: Date): boolean {
+  const domMatch = cron.daysOfMonth.includes(wall.getUTCDate())
+  const dowMatch = cron.daysOfWeek.includes(wall.getUTCDay())
+  if (cron.dayOfMonthRestricted && cron.dayOfWeekRestricted) return domMatch || dowMatch
+  if (cron.dayOfMonthRestricted) return domMatch
+  if (cron.dayOfWeekRestricted) return dowMatch
+  return true
+}
+
+function nextWallTime(cron: CronExpression, after: number): number {
+  let wall = new Date(Math.floor(after / 1000) * 1000 + 1000)
+  const lastYear = wall.getUTCFullYear() + SEARCH_YEARS
+
+  while (wall.getUTCFullYear() <= lastYear) {
+    const year = wall.getUTCFullYear()
+    const month = wall.getUTCMonth()
+    const day = wall.getUTCDate()
+    const hour = wall.getUTCHours()
+    const minute = wall.getUTCMinutes()
+    const second = wall.getUTCSeconds()
+
+    if (!cron.months.includes(month + 1)) {
+      wall = new Date(Date.UTC(year, month + 1, 1))
+    } else if (!dayMatches(cron, wall)) {
+      wall = new Date(Date.UTC(year, month, day + 1))
+    } else if (!cron.hours.includes(hour)) {
+      wall = new Date(Date.UTC(year, month, day, hour + 1))
+    } else if (!cron.minutes.includes(minute)) {
+      wall = new Date(Date.UTC(year, month, day, hour, minute + 1))
+    } else if (!cron.seconds.includes(second)) {
+      const nextSecond = cron.seconds.find(value => value > second)
+      wall = nextSecond === undefined
+        ? new Date(Date.UTC(year, month, day, hour, minute + 1))
+        : new Date(Date.UTC(year, month, day, hour, minute, nextSecond))
+    } else {
+      return wall.getTime()
+    }
+  }
+
+  throw new CronExpressionError(`Cron expression "${cron.source}" never runs`)
+}
+
+/**
+ * Next run strictly after `from`, evaluated in `timeZone` (the server's zone
+ * when omitted)
+ */
+export function getNextCronRun(
+  expression: string | CronExpression,
+  from: Date = new Date(),
+  timeZone: string = getSystemTimeZone()
+): Date {
+  const cron = typeof expression === 'string' ? parseCronExpression(expression) : expression
+  if (!isValidTimeZone(timeZone)) {
+    throw new CronExpressionError(`Unknown time zone "${timeZone}"`)
+  }
+
+  let wall = toWallTime(from.getTime(), timeZone)
+  for (;;) {
+    wall = nextWallTime(cron, wall)
+    const instant = fromWallTime(wall, timeZone)
+    // Wall times repeated after a backward jump already ran on their first pass
+    if (instant > from.getTime()) {
+      return new Date(instant)
+    }
+  }
+}
+
+export function getNextCronRuns(
+  expression: string | CronExpression,
+  count: number,
+  from: Date = new Date(),
+  timeZone: string = getSystemTimeZone()
+): Date[] {
+  const cron = typeof expression === 'string' ? parseCronExpression(expression) : expression
+  const runs: Date[] = []
+  let cursor = from
+  while (runs.length < count) {
+    cursor = getNextCronRun(cron, cursor, timeZone)
+    runs.push(cursor)
+  }
+  return runs
+}
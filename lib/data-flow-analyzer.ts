@@ -4,8 +4,20 @@ import {
   ActionMetadata,
   ActionOutput,
   ValidationError,
-  ValidationErrorType
+  ValidationErrorType,
+  ParameterType
 } from './types'
+import { DEFAULT_CONDITION_TYPE, isConditionAction, isLoopAction } from './workflow-control-flow'
+
+// Canonical Cadence names for the lower-cased types used in conversion rules
+const CADENCE_TYPE_NAMES: Record<string, string> = {
+  'string': 'String',
+  'address': 'Address',
+  'ufix64': 'UFix64',
+  'int': 'Int',
+  'uint64': 'UInt64',
+  'bool': 'Bool'
+}
 
 // Data flow analysis types
 export interface DataFlowAnalysisResult {
@@ -199,17 +211,17 @@ export class DataFlowAnalyzer {
     const dependencies: ActionDependencyMap = {}
 
     for (const action of workflow.actions) {
-      const metadata = actionMetadata[action.actionType]
-      if (!metadata) continue
+      const inputs = this.resolveActionInputs(action, actionMetadata, parameterValues)
+      if (!inputs) continue
 
-      const actionParams = parameterValues[action.id] || {}
+      const actionParams = inputs.values
       const dependsOn: string[] = []
       const provides: string[] = []
       const parameterDependencies: ParameterDependency[] = []
       const outputDependents: OutputDependent[] = []
 
       // Analyze parameter dependencies
-      for (const parameter of metadata.parameters) {
+      for (const parameter of inputs.parameters) {
         const paramValue = actionParams[parameter.name]
         
         if (this.isParameterReference(paramValue)) {
@@ -242,20 +254,18 @@ export class DataFlowAnalyzer {
       }
 
       // Analyze what this action provides
-      for (const output of metadata.outputs) {
+      for (const output of actionMetadata[action.actionType]?.outputs || []) {
         provides.push(`${action.id}.${output.name}`)
         
         // Find actions that depend on this output
         const dependentActions = workflow.actions
           .filter(a => a.id !== action.id)
           .map(dependentAction => {
-            const depMetadata = actionMetadata[dependentAction.actionType]
-            if (!depMetadata) return null
+            const depInputs = this.resolveActionInputs(dependentAction, actionMetadata, parameterValues)
+            if (!depInputs) return null
             
-            const depParams = parameterValues[dependentAction.id] || {}
-            
-            for (const param of depMetadata.parameters) {
-              const paramValue = depParams[param.name]
+            for (const param of depInputs.parameters) {
+              const paramValue = depInputs.values[param.name]
               if (this.isParameterReference(paramValue)) {
                 const { actionId, outputName } = this.parseParameterReference(paramValue)
                 if (actionId === action.id && outputName === output.name) {
@@ -306,12 +316,12 @@ export class DataFlowAnalyzer {
     const connections: ParameterConnection[] = []
 
     for (const action of workflow.actions) {
-      const metadata = actionMetadata[action.actionType]
-      if (!metadata) continue
+      const inputs = this.resolveActionInputs(action, actionMetadata, parameterValues)
+      if (!inputs) continue
 
-      const actionParams = parameterValues[action.id] || {}
+      const actionParams = inputs.values
 
-      for (const parameter of metadata.parameters) {
+      for (const parameter of inputs.parameters) {
         const paramValue = actionParams[parameter.name]
         
         if (this.isParameterReference(paramValue)) {
@@ -413,12 +423,12 @@ export class DataFlowAnalyzer {
     const issues: TypeCompatibilityIssue[] = []
 
     for (const action of workflow.actions) {
-      const metadata = actionMetadata[action.actionType]
-      if (!metadata) continue
+      const inputs = this.resolveActionInputs(action, actionMetadata, parameterValues)
+      if (!inputs) continue
 
-      const actionParams = parameterValues[action.id] || {}
+      const actionParams = inputs.values
 
-      for (const parameter of metadata.parameters) {
+      for (const parameter of inputs.parameters) {
         const paramValue = actionParams[parameter.name]
         
         if (this.isParameterReference(paramValue)) {
@@ -488,20 +498,22 @@ export class DataFlowAnalyzer {
       })
 
       // Create parameter and output nodes for detailed view
+      const inputs = this.resolveActionInputs(action, actionMetadata, parameterValues)
+      for (const param of inputs?.parameters || []) {
+        nodes.push({
+          id: `${action.id}.param.${param.name}`,
+          type: 'parameter',
+          actionId: action.id,
+          label: param.name,
+          metadata: {
+            parameterType: param.type,
+            isRequired: param.required ?? true,
+            hasValue: !!inputs?.values[param.name]
+          }
+        })
+      }
+
       if (metadata) {
-        for (const param of metadata.parameters) {
-          nodes.push({
-            id: `${action.id}.param.${param.name}`,
-            type: 'parameter',
-            actionId: action.id,
-            label: param.name,
-            metadata: {
-              parameterType: param.type,
-              isRequired: param.required,
-              hasValue: !!parameterValues[action.id]?.[param.name]
-            }
-          })
-        }
 
         for (const output of metadata.outputs) {
           nodes.push({
@@ -601,6 +613,21 @@ export class DataFlowAnalyzer {
       }
     }
 
+    // Each condition node and the actions on its branches form a conditional cluster
+    for (const action of workflow.actions) {
+      if (!isConditionAction(action) || !action.branches) continue
+
+      const branchActions = [...action.branches.true, ...action.branches.false]
+      if (branchActions.length === 0) continue
+
+      clusters.push({
+        id: `cluster-${clusters.length}`,
+        actionIds: [action.id, ...branchActions],
+        type: 'conditional',
+        description: `Branches of ${action.name}: true → ${action.branches.true.join(', ') || 'none'}, false → ${action.branches.false.join(', ') || 'none'}`
+      })
+    }
+
     return clusters
   }
 
@@ -701,12 +728,12 @@ export class DataFlowAnalyzer {
     const unresolvedReferences: UnresolvedReference[] = []
 
     for (const action of workflow.actions) {
-      const metadata = actionMetadata[action.actionType]
-      if (!metadata) continue
+      const inputs = this.resolveActionInputs(action, actionMetadata, parameterValues)
+      if (!inputs) continue
 
-      const actionParams = parameterValues[action.id] || {}
+      const actionParams = inputs.values
 
-      for (const parameter of metadata.parameters) {
+      for (const parameter of inputs.parameters) {
         const paramValue = actionParams[parameter.name]
         
         if (this.isParameterReference(paramValue)) {
@@ -767,6 +794,49 @@ export class DataFlowAnalyzer {
     return unresolvedReferences
   }
 
+  /**
+   * Resolves the parameters analyzed for an action and their values. Control-flow
+   * nodes have no registry metadata: condition operands are exposed as `left`
+   * and `right` parameters typed by the comparison, and a for-each node's
+   * collection as an `items` Array parameter.
+   */
+  private resolveActionInputs(
+    action: ParsedAction,
+    actionMetadata: Record<string, ActionMetadata>,
+    parameterValues: Record<string, Record<string, any>>
+  ): { parameters: Array<{ name: string; type: string; required?: boolean }>; values: Record<string, any> } | null {
+    if (isConditionAction(action)) {
+      if (!action.condition) return null
+
+      const type = action.condition.type || DEFAULT_CONDITION_TYPE
+      return {
+        parameters: [
+          { name: 'left', type },
+          { name: 'right', type }
+        ],
+        values: { left: action.condition.left, right: action.condition.right }
+      }
+    }
+
+    if (isLoopAction(action)) {
+      if (!action.loop) return null
+
+      const type = action.loop.itemType ? `[${action.loop.itemType}]` : ParameterType.ARRAY
+      return {
+        parameters: [{ name: 'items', type }],
+        values: { items: action.loop.items }
+      }
+    }
+
+    const metadata = actionMetadata[action.actionType]
+    if (!metadata) return null
+
+    return {
+      parameters: metadata.parameters,
+      values: parameterValues[action.id] || {}
+    }
+  }
+
   // Type compatibility helper methods
   private isParameterReference(value: any): boolean {
     if (typeof value !== 'string') return false
@@ -789,7 +859,11 @@ export class DataFlowAnalyzer {
     return normalizeType(sourceType) === normalizeType(targetType)
   }
 
-  private canConvertTypes(sourceType: string, targetType: string): boolean {
+  /**
+   * Whether a value of sourceType can be passed to a parameter of targetType,
+   * either directly or through a Cadence conversion
+   */
+  canConvertTypes(sourceType: string, targetType: string): boolean {
     const source = sourceType.toLowerCase().trim()
     const target = targetType.toLowerCase().trim()
 
@@ -807,6 +881,29 @@ export class DataFlowAnalyzer {
     return conversionRules[source]?.includes(target) || false
   }
 
+  /**
+   * Cadence expression converting `expression` from sourceType to targetType,
+   * or null when the types cannot be converted
+   */
+  getConversionExpression(expression: string, sourceType: string, targetType: string): string | null {
+    if (!this.canConvertTypes(sourceType, targetType)) return null
+
+    const source = sourceType.toLowerCase().trim()
+    const target = targetType.toLowerCase().trim()
+    if (source === target) return expression
+
+    if (target === 'string') {
+      return source === 'bool' ? `(${expression} ? "true" : "false")` : `${expression}.toString()`
+    }
+
+    const cadenceType = CADENCE_TYPE_NAMES[target]
+    if (source === 'string') {
+      return target === 'bool' ? `${expression} == "true"` : `${cadenceType}.fromString(${expression})!`
+    }
+
+    return `${cadenceType}(${expression})`
+  }
+
   private getConversionComplexity(sourceType: string, targetType: string): 'simple' | 'moderate' | 'complex' {
     const source = sourceType.toLowerCase()
     const target = targetType.toLowerCase()
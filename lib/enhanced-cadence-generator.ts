@@ -23,6 +23,8 @@ import type {
 import { CadenceGenerator, CadenceGenerationResult, CadenceGenerationOptions } from "./cadence-generator"
 import { ActionDiscoveryService, getDefaultActionDiscoveryService } from "./action-discovery-service"
 import { logger } from "./logging-service"
+import { buildExecutionPlan, getReferencedResultActions } from "./workflow-control-flow"
+import { checkCadenceCode, formatCadenceDiagnostic, isCadenceProjectConfigured, type CadenceDiagnostic } from "./cadence-language-server"
 
 export interface ProductionCadenceGenerationOptions extends CadenceGenerationOptions {
   enableResourceSafety: boolean
@@ -32,12 +34,14 @@ export interface ProductionCadenceGenerationOptions extends CadenceGenerationOpt
   signerAccount?: FlowAccount
   maxGasLimit?: number
   enableTypeValidation: boolean
+  enableLanguageServerCheck?: boolean  // parse and type check with the Cadence language server (default: when CADENCE_PROJECT_DIR is set)
 }
 
 export interface CadenceValidationResult {
   isValid: boolean
   errors: ValidationError[]
   warnings: string[]
+  diagnostics: CadenceDiagnostic[]  // language server diagnostics of the generated code
   securityIssues: SecurityIssue[]
   gasEstimate: number
   resourceUsage: ResourceUsage
@@ -241,6 +245,7 @@ export class EnhancedCadenceGenerator extends CadenceGenerator {
             severity: 'error' as const 
           }],
           warnings: [],
+          diagnostics: [],
           securityIssues: [],
           gasEstimate: 0,
           resourceUsage: {
@@ -310,6 +315,7 @@ export class EnhancedCadenceGenerator extends CadenceGenerator {
       isValid: errors.filter(e => e.severity === 'error').length === 0,
       errors,
       warnings,
+      diagnostics: [],
       securityIssues,
       gasEstimate,
       resourceUsage
@@ -632,22 +638,26 @@ export class EnhancedCadenceGenerator extends CadenceGenerator {
     lines.push('    assert(signer.address != nil, message: "Invalid signer")')
     lines.push('')
 
-    // Execute actions in order
-    for (const actionId of workflow.executionOrder) {
-      const action = workflow.actions.find(a => a.id === actionId)
-      if (action) {
-        lines.push(`    // Execute: ${action.name}`)
-        
+    // Execute actions in order, nesting conditional branches
+    const resultActions = getReferencedResultActions(workflow)
+    const outputTypes = await this.collectOutputTypes(workflow)
+    lines.push(...await this.renderExecutionPlan(buildExecutionPlan(workflow), workflow, 0, async (action) => {
+      const actionCode = this.bindActionResult(
+        await this.generateProductionActionCode(action, config),
+        action,
+        resultActions
+      )
+      return [
+        `    // Execute: ${action.name}`,
         // Wrap in error handling
-        lines.push('    do {')
-        const actionCode = await this.generateProductionActionCode(action, config)
-        lines.push('      ' + actionCode.split('\n').join('\n      '))
-        lines.push('    } catch (error) {')
-        lines.push(`      panic("Action '${action.name}' failed: ".concat(error.message))`)
-        lines.push('    }')
-        lines.push('')
-      }
-    }
+        '    do {',
+        '      ' + actionCode.split('\n').join('\n      '),
+        '    } catch (error) {',
+        `      panic("Action '${action.name}' failed: ".concat(error.message))`,
+        '    }',
+        ''
+      ]
+    }, outputTypes))
 
     lines.push('    log("Production workflow execution completed successfully")')
     lines.push('  }')
@@ -848,6 +858,31 @@ ${executeBlock}${postConditions}
       })
     }
 
+    // Parser and type checker diagnostics
+    let diagnostics: CadenceDiagnostic[] = []
+    if (config.enableLanguageServerCheck ?? isCadenceProjectConfigured()) {
+      const check = await checkCadenceCode(code)
+      diagnostics = check.diagnostics
+
+      if (!check.checked) {
+        warnings.push(`Cadence code was not type checked: ${check.unavailableReason}`)
+      }
+
+      for (const diagnostic of diagnostics) {
+        if (diagnostic.severity === 'error') {
+          errors.push({
+            type: 'CADENCE_CHECK_ERROR',
+            message: formatCadenceDiagnostic(diagnostic),
+            line: diagnostic.line,
+            column: diagnostic.column,
+            severity: 'error'
+          })
+        } else if (diagnostic.severity === 'warning') {
+          warnings.push(formatCadenceDiagnostic(diagnostic))
+        }
+      }
+    }
+
     // Security validation
     if (config.enableSecurityChecks) {
       if (code.includes('panic(') && !code.includes('assert(')) {
@@ -870,6 +905,7 @@ ${executeBlock}${postConditions}
       isValid: errors.filter(e => e.severity === 'error').length === 0,
       errors,
       warnings,
+      diagnostics,
       securityIssues,
       gasEstimate,
       resourceUsage: {
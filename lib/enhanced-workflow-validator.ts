@@ -4,12 +4,15 @@ import { FlowEmulatorService } from './flow-emulator-service'
 import { GasEstimationService } from './gas-estimation-service'
 import { ResourceSafetyService, ResourceAnalysis } from './resource-safety-service'
 import { CadenceGenerator } from './cadence-generator'
+import type { CadenceDiagnostic } from './cadence-language-server'
 
 export interface EnhancedValidationResult extends ValidationResult {
   resourceSafety: ResourceAnalysis
   flowSecurityTools?: {
     flowLintResults: any[]
     cadenceAnalyzerResults: any[]
+    diagnostics?: CadenceDiagnostic[]
+    typeChecked?: boolean
     recommendations: string[]
   }
   overallRisk: 'low' | 'medium' | 'high'
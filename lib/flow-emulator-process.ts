@@ -0,0 +1,452 @@
+import { spawn, execFile, type ChildProcess } from 'child_process'
+import { generateKeyPairSync } from 'crypto'
+import { mkdtemp, mkdir, writeFile, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import { promisify } from 'util'
+
+const execFileAsync = promisify(execFile)
+
+/**
+ * Flow Emulator Process
+ *
+ * Runs a real local `flow emulator` (Flow CLI binary, no network access) for
+ * workflow execution:
+ * - Spawns the emulator in a throwaway project directory with a freshly
+ *   generated service key and waits for its REST API to answer
+ * - Deploys registered contract sources to the service account and points
+ *   transaction imports at their emulator addresses
+ * - Sends transactions through the CLI and reads status, events and
+ *   computation usage back from the REST API
+ * - Creates and restores snapshots through the emulator admin API
+ */
+
+/** Service account of every emulator instance */
+export const EMULATOR_SERVICE_ADDRESS = '0xf8d6e0586b0a20c7'
+
+/** Contracts the emulator deploys at startup */
+export const EMULATOR_CORE_CONTRACTS: Record<string, string> = {
+  FungibleToken: '0xee82856bf20e2aa6',
+  FungibleTokenMetadataViews: '0xee82856bf20e2aa6',
+  FlowToken: '0x0ae53cb6e3f42a79',
+  FlowFees: '0xe5a8b7f23e8b548f',
+  NonFungibleToken: EMULATOR_SERVICE_ADDRESS,
+  MetadataViews: EMULATOR_SERVICE_ADDRESS,
+  ViewResolver: EMULATOR_SERVICE_ADDRESS,
+  Burner: EMULATOR_SERVICE_ADDRESS
+}
+
+const SERVICE_ACCOUNT_NAME = 'emulator-account'
+
+/**
+ * Decode a base64 JSON-Cadence event payload into plain field values
+ */
+export function decodeEventPayload(payload: string): Record<string, any> {
+  try {
+    const decoded = JSON.parse(Buffer.from(payload, 'base64').toString('utf8'))
+    const fields: Array<{ name: string; value: any }> = decoded?.value?.fields || []
+    return Object.fromEntries(fields.map(field => [field.name, decodeCadenceValue(field.value)]))
+  } catch {
+    return {}
+  }
+}
+
+export function decodeCadenceValue(value: any): any {
+  if (!value || typeof value !== 'object' || !('type' in value)) return value
+
+  switch (value.type) {
+    case 'Optional':
+      return value.value === null ? null : decodeCadenceValue(value.value)
+    case 'Array':
+      return (value.value || []).map((item: any) => decodeCadenceValue(item))
+    case 'Dictionary':
+      return Object.fromEntries((value.value || []).map((entry: any) => [
+        decodeCadenceValue(entry.key),
+        decodeCadenceValue(entry.value)
+      ]))
+    case 'Struct':
+    case 'Resource':
+    case 'Event':
+      return Object.fromEntries((value.value?.fields || []).map((field: any) => [
+        field.name,
+        decodeCadenceValue(field.value)
+      ]))
+    default:
+      return value.value
+  }
+}
+
+export interface FlowEmulatorProcessOptions {
+  flowBinary: string
+  grpcPort: number
+  restPort: number
+  adminPort: number
+  startupTimeout: number  // ms to wait for the REST API after spawning
+  commandTimeout: number  // ms allowed for each CLI command
+  verbose: boolean
+}
+
+export interface EmulatorEvent {
+  type: string
+  transactionId: string
+  transactionIndex: number
+  eventIndex: number
+  data: Record<string, any>
+}
+
+export interface EmulatorTransactionResult {
+  id: string
+  status: string
+  errorMessage: string
+  computationUsed: number
+  blockHeight: number
+  events: EmulatorEvent[]
+}
+
+export class FlowEmulatorProcessError extends Error {
+  constructor(message: string, public readonly output?: string) {
+    super(message)
+    this.name = 'FlowEmulatorProcessError'
+  }
+}
+
+export class FlowEmulatorProcess {
+  private options: FlowEmulatorProcessOptions
+  private process: ChildProcess | null = null
+  private projectDir: string | null = null
+  private privateKey: string | null = null
+  private deployedContracts: Map<string, string> = new Map()
+  private output: string[] = []
+
+  constructor(options: Partial<FlowEmulatorProcessOptions> = {}) {
+    this.options = {
+      flowBinary: 'flow',
+      grpcPort: 3569,
+      restPort: 8888,
+      adminPort: 8081, // 8080 is taken by the WebSocket server
+      startupTimeout: 30000,
+      commandTimeout: 60000,
+      verbose: false,
+      ...options
+    }
+  }
+
+  /**
+   * Spawn the emulator and wait until its REST API is ready
+   */
+  async start(): Promise<void> {
+    if (this.process) {
+      return
+    }
+
+    this.projectDir = await mkdtemp(path.join(tmpdir(), 'actionloom-emulator-'))
+    this.privateKey = this.generatePrivateKey()
+    this.deployedContracts.clear()
+    this.output = []
+    await this.writeProjectConfig()
+
+    const child = spawn(this.options.flowBinary, [
+      'emulator',
+      '--port', String(this.options.grpcPort),
+      '--rest-port', String(this.options.restPort),
+      '--admin-port', String(this.options.adminPort),
+      '--persist',
+      '--dbpath', path.join(this.projectDir, 'flowdb'),
+      '--snapshot'
+    ], { cwd: this.projectDir, stdio: ['ignore', 'pipe', 'pipe'] })
+    this.process = child
+
+    const exited = new Promise<never>((_, reject) => {
+      child.once('error', error => reject(new FlowEmulatorProcessError(
+        `Could not run "${this.options.flowBinary}": ${error.message}. Install the Flow CLI to use emulator mode.`
+      )))
+      child.once('exit', code => reject(new FlowEmulatorProcessError(
+        `Flow emulator exited with code ${code} during startup`,
+        this.output.join('')
+      )))
+    })
+    // Startup failures are reported through the race below; later exits are expected
+    exited.catch(() => {})
+
+    const collect = (chunk: Buffer) => {
+      this.output.push(chunk.toString())
+      if (this.output.length > 200) this.output.shift()
+      if (this.options.verbose) process.stdout.write(chunk)
+    }
+    child.stdout?.on('data', collect)
+    child.stderr?.on('data', collect)
+
+    try {
+      await Promise.race([this.waitForRestApi(), exited])
+    } catch (error) {
+      await this.stop()
+      throw error
+    }
+  }
+
+  /**
+   * Stop the emulator process and remove its project directory
+   */
+  async stop(): Promise<void> {
+    const child = this.process
+    this.process = null
+
+    if (child && child.exitCode === null && child.signalCode === null) {
+      const exited = new Promise<void>(resolve => child.once('exit', () => resolve()))
+      child.kill('SIGTERM')
+      const forceKill = setTimeout(() => child.kill('SIGKILL'), 5000)
+      await exited
+      clearTimeout(forceKill)
+    }
+
+    if (this.projectDir) {
+      await rm(this.projectDir, { recursive: true, force: true })
+      this.projectDir = null
+    }
+    this.deployedContracts.clear()
+  }
+
+  isRunning(): boolean {
+    return this.process !== null
+  }
+
+  /**
+   * Address and generated private key (hex) of the service account, for
+   * signing transactions outside the CLI
+   */
+  getServiceAccount(): { address: string; privateKey: string } {
+    this.requireProjectDir()
+    return { address: EMULATOR_SERVICE_ADDRESS, privateKey: this.privateKey! }
+  }
+
+  /**
+   * Deploy the contracts a transaction imports and point its imports at their
+   * emulator addresses. Contracts that are neither core emulator contracts nor
+   * present in `sources` cannot be resolved.
+   */
+  async prepareTransaction(code: string, sources: Record<string, string> = {}): Promise<string> {
+    const imported = this.getImportedContracts(code)
+    const missing = imported.filter(name => !EMULATOR_CORE_CONTRACTS[name] && !sources[name])
+    if (missing.length > 0) {
+      throw new FlowEmulatorProcessError(
+        `No contract source registered for ${missing.join(', ')}; add them to the emulator contracts to deploy them`
+      )
+    }
+
+    const toDeploy = imported.filter(name => !EMULATOR_CORE_CONTRACTS[name])
+    await this.deployContracts(Object.fromEntries(toDeploy.map(name => [name, sources[name]])))
+
+    return this.rewriteImports(code)
+  }
+
+  /**
+   * Deploy (or update) contracts on the service account
+   */
+  async deployContracts(contracts: Record<string, string>): Promise<string[]> {
+    const changed = Object.entries(contracts).filter(([name, source]) => this.deployedContracts.get(name) !== source)
+    if (changed.length === 0) {
+      return []
+    }
+
+    const projectDir = this.requireProjectDir()
+    await mkdir(path.join(projectDir, 'contracts'), { recursive: true })
+    // Record every contract first so imports between them are rewritten too
+    changed.forEach(([name, source]) => this.deployedContracts.set(name, source))
+    for (const [name, source] of changed) {
+      await writeFile(path.join(projectDir, 'contracts', `${name}.cdc`), this.rewriteImports(source))
+    }
+
+    await this.writeProjectConfig()
+    await this.runCli(['project', 'deploy', '--network', 'emulator', '--update'])
+    return changed.map(([name]) => name)
+  }
+
+  /**
+   * Send a transaction signed by the service account and wait for its result
+   */
+  async sendTransaction(code: string, gasLimit: number): Promise<EmulatorTransactionResult> {
+    const projectDir = this.requireProjectDir()
+    const file = path.join(projectDir, `transaction-${Date.now()}.cdc`)
+    await writeFile(file, code)
+
+    const stdout = await this.runCli([
+      'transactions', 'send', file,
+      '--network', 'emulator',
+      '--signer', SERVICE_ACCOUNT_NAME,
+      '--gas-limit', String(gasLimit),
+      '--output', 'json'
+    ], true)
+
+    let transactionId: string | undefined
+    try {
+      transactionId = JSON.parse(stdout).id
+    } catch {
+      transactionId = stdout.match(/\b[0-9a-f]{64}\b/)?.[0]
+    }
+    if (!transactionId) {
+      throw new FlowEmulatorProcessError('Flow CLI did not return a transaction ID', stdout)
+    }
+
+    return this.getTransactionResult(transactionId)
+  }
+
+  /**
+   * FLOW balance of an account, in FLOW
+   */
+  async getFlowBalance(address: string): Promise<number> {
+    const account = await this.restRequest(`/v1/accounts/${address.replace(/^0x/, '')}`)
+    return Number(account.balance) / 1e8
+  }
+
+  async getLatestBlockHeight(): Promise<number> {
+    const blocks = await this.restRequest('/v1/blocks?height=sealed')
+    return Number(blocks[0]?.header?.height ?? 0)
+  }
+
+  /**
+   * Save the current chain state under a name
+   */
+  async createSnapshot(name: string): Promise<void> {
+    await this.adminRequest('/emulator/snapshots', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({ name }).toString()
+    })
+  }
+
+  /**
+   * Jump back to a previously saved snapshot
+   */
+  async restoreSnapshot(name: string): Promise<void> {
+    await this.adminRequest(`/emulator/snapshots/${encodeURIComponent(name)}`, { method: 'PUT' })
+    // Contracts deployed after the snapshot are gone; redeploy them on demand
+    this.deployedContracts.clear()
+  }
+
+  private async getTransactionResult(transactionId: string): Promise<EmulatorTransactionResult> {
+    const result = await this.restRequest(`/v1/transaction_results/${transactionId}`)
+    const block = result.block_id ? await this.restRequest(`/v1/blocks/${result.block_id}`) : []
+
+    return {
+      id: transactionId,
+      status: result.status,
+      errorMessage: result.error_message || '',
+      computationUsed: Number(result.computation_used ?? 0),
+      blockHeight: Number(block[0]?.header?.height ?? 0),
+      events: (result.events || []).map((event: any) => ({
+        type: event.type,
+        transactionId: event.transaction_id,
+        transactionIndex: Number(event.transaction_index),
+        eventIndex: Number(event.event_index),
+        data: decodeEventPayload(event.payload)
+      }))
+    }
+  }
+
+  private getImportedContracts(code: string): string[] {
+    const names = new Set<string>()
+    for (const match of code.matchAll(/^\s*import\s+(?:"(\w+)"|(\w+)\s+from\s+\S+)/gm)) {
+      names.add(match[1] || match[2])
+    }
+    return Array.from(names)
+  }
+
+  private rewriteImports(code: string): string {
+    return code.replace(/^(\s*)import\s+(?:"(\w+)"|(\w+)\s+from\s+\S+)/gm, (line, indent, quoted, named) => {
+      const name = quoted || named
+      const address = EMULATOR_CORE_CONTRACTS[name] || (this.deployedContracts.has(name) ? EMULATOR_SERVICE_ADDRESS : null)
+      return address ? `${indent}import ${name} from ${address}` : line
+    })
+  }
+
+  private async waitForRestApi(): Promise<void> {
+    const deadline = Date.now() + this.options.startupTimeout
+
+    while (Date.now() < deadline) {
+      try {
+        await this.getLatestBlockHeight()
+        return
+      } catch {
+        await new Promise(resolve => setTimeout(resolve, 250))
+      }
+    }
+
+    throw new FlowEmulatorProcessError(
+      `Flow emulator did not become ready within ${this.options.startupTimeout}ms`,
+      this.output.join('')
+    )
+  }
+
+  private async runCli(args: string[], allowFailure = false): Promise<string> {
+    try {
+      const { stdout } = await execFileAsync(this.options.flowBinary, args, {
+        cwd: this.requireProjectDir(),
+        timeout: this.options.commandTimeout
+      })
+      return stdout
+    } catch (error: any) {
+      // A reverted transaction still prints its result, which is read back from the REST API
+      if (allowFailure && error?.stdout) {
+        return error.stdout
+      }
+      throw new FlowEmulatorProcessError(
+        `flow ${args.slice(0, 2).join(' ')} failed: ${error?.message || error}`,
+        `${error?.stdout || ''}${error?.stderr || ''}`
+      )
+    }
+  }
+
+  private async restRequest(pathname: string): Promise<any> {
+    const response = await fetch(`http://127.0.0.1:${this.options.restPort}${pathname}`)
+    if (!response.ok) {
+      throw new FlowEmulatorProcessError(`Emulator REST request ${pathname} failed with status ${response.status}`)
+    }
+    return response.json()
+  }
+
+  private async adminRequest(pathname: string, init: RequestInit): Promise<void> {
+    const response = await fetch(`http://127.0.0.1:${this.options.adminPort}${pathname}`, init)
+    if (!response.ok) {
+      throw new FlowEmulatorProcessError(
+        `Emulator admin request ${pathname} failed with status ${response.status}`,
+        await response.text()
+      )
+    }
+  }
+
+  private async writeProjectConfig(): Promise<void> {
+    const contracts = Array.from(this.deployedContracts.keys())
+    const config = {
+      networks: { emulator: `127.0.0.1:${this.options.grpcPort}` },
+      accounts: {
+        [SERVICE_ACCOUNT_NAME]: {
+          address: EMULATOR_SERVICE_ADDRESS.replace(/^0x/, ''),
+          key: {
+            type: 'hex',
+            index: 0,
+            signatureAlgorithm: 'ECDSA_P256',
+            hashAlgorithm: 'SHA3_256',
+            privateKey: this.privateKey
+          }
+        }
+      },
+      contracts: Object.fromEntries(contracts.map(name => [name, `./contracts/${name}.cdc`])),
+      deployments: contracts.length > 0 ? { emulator: { [SERVICE_ACCOUNT_NAME]: contracts } } : {}
+    }
+
+    await writeFile(path.join(this.requireProjectDir(), 'flow.json'), JSON.stringify(config, null, 2))
+  }
+
+  private generatePrivateKey(): string {
+    const { privateKey } = generateKeyPairSync('ec', { namedCurve: 'prime256v1' })
+    const jwk = privateKey.export({ format: 'jwk' })
+    return Buffer.from(jwk.d as string, 'base64url').toString('hex').padStart(64, '0')
+  }
+
+  private requireProjectDir(): string {
+    if (!this.projectDir) {
+      throw new FlowEmulatorProcessError('Flow emulator is not running')
+    }
+    return this.projectDir
+  }
+}
@@ -9,8 +9,15 @@ import {
   FlowNetwork,
   FlowAPIConfig 
 } from './types'
+import { CadenceGenerator } from './cadence-generator'
+import { FlowEmulatorProcess, EMULATOR_SERVICE_ADDRESS } from './flow-emulator-process'
 
 export interface EmulatorConfig {
+  // 'mock' estimates results in-process; 'emulator' runs a real local `flow emulator`
+  mode: 'mock' | 'emulator'
+  flowBinary: string
+  startupTimeout: number // ms to wait for the emulator to become ready
+  contracts: Record<string, string> // contract sources deployable in emulator mode, by name
   endpoint: string
   port: number
   adminPort: number
@@ -95,12 +102,17 @@ export class FlowEmulatorService {
   private transactionHistory: Map<string, TransactionSimulation> = new Map()
   private blockHeight: number = 0
   private sequenceNumber: number = 0
+  private emulatorProcess: FlowEmulatorProcess | null = null
 
   constructor(config?: Partial<EmulatorConfig>) {
     this.config = {
+      mode: 'mock',
+      flowBinary: 'flow',
+      startupTimeout: 30000,
+      contracts: {},
       endpoint: 'http://localhost',
       port: 3569,
-      adminPort: 8080,
+      adminPort: 8081, // 8080 is taken by the WebSocket server
       restPort: 8888,
       grpcPort: 3569,
       verbose: false,
@@ -134,8 +146,10 @@ export class FlowEmulatorService {
       // Initialize emulator connection
       await this.initializeEmulator()
       
-      // Verify emulator is running
-      await this.verifyEmulatorConnection()
+      // Verify emulator is running (a spawned emulator is ready once started)
+      if (!this.emulatorProcess) {
+        await this.verifyEmulatorConnection()
+      }
       
       this.isRunning = true
       
@@ -143,12 +157,21 @@ export class FlowEmulatorService {
       this.currentEnvironment = await this.createSimulationEnvironment()
       
       // Initialize block height
-      this.blockHeight = await this.getCurrentBlockHeight()
+      this.blockHeight = this.emulatorProcess
+        ? await this.emulatorProcess.getLatestBlockHeight()
+        : await this.getCurrentBlockHeight()
       
       if (this.config.verbose) {
         console.log(`Flow emulator started successfully on ${this.config.endpoint}:${this.config.port}`)
       }
     } catch (error) {
+      // Leave nothing half started so the next call starts a fresh emulator
+      this.isRunning = false
+      this.currentEnvironment = null
+      if (this.emulatorProcess) {
+        await this.emulatorProcess.stop().catch(() => {})
+        this.emulatorProcess = null
+      }
       throw new Error(`Failed to start Flow emulator: ${error}`)
     }
   }
@@ -162,7 +185,10 @@ export class FlowEmulatorService {
     }
 
     try {
-      // In a real implementation, this would stop the emulator process
+      if (this.emulatorProcess) {
+        await this.emulatorProcess.stop()
+        this.emulatorProcess = null
+      }
       this.isRunning = false
       this.currentEnvironment = null
       this.snapshots.clear()
@@ -196,6 +222,10 @@ export class FlowEmulatorService {
         await this.restoreSnapshot(options.snapshotId)
       }
 
+      if (this.emulatorProcess) {
+        return await this.executeWorkflowOnEmulator(workflow, options, startTime)
+      }
+
       // Create simulation environment
       const environment = options?.accounts 
         ? { ...this.currentEnvironment!, accounts: options.accounts }
@@ -370,6 +400,11 @@ export class FlowEmulatorService {
     }
 
     const snapshotId = name || `snapshot_${Date.now()}`
+    if (this.emulatorProcess) {
+      await this.emulatorProcess.createSnapshot(snapshotId)
+      this.currentEnvironment.blockHeight = await this.emulatorProcess.getLatestBlockHeight()
+    }
+
     const snapshot: SimulationSnapshot = {
       id: snapshotId,
       blockHeight: this.currentEnvironment.blockHeight,
@@ -395,6 +430,10 @@ export class FlowEmulatorService {
       throw new Error('No active simulation environment')
     }
 
+    if (this.emulatorProcess) {
+      await this.emulatorProcess.restoreSnapshot(snapshotId)
+    }
+
     // Restore environment state
     this.currentEnvironment.accounts = JSON.parse(JSON.stringify(snapshot.accounts))
     this.currentEnvironment.blockHeight = snapshot.blockHeight
@@ -473,12 +512,22 @@ export class FlowEmulatorService {
    * Initialize emulator environment
    */
   private async initializeEmulator(): Promise<void> {
-    // In a production implementation, this would:
-    // 1. Start the Flow emulator process using child_process
-    // 2. Wait for it to be ready by polling the health endpoint
-    // 3. Set up initial accounts and deploy core contracts
-    
-    // For now, we simulate the initialization
+    if (this.config.mode === 'emulator') {
+      // Start a real emulator process; contracts are deployed per transaction
+      const emulator = new FlowEmulatorProcess({
+        flowBinary: this.config.flowBinary,
+        grpcPort: this.config.grpcPort,
+        restPort: this.config.restPort,
+        adminPort: this.config.adminPort,
+        startupTimeout: this.config.startupTimeout,
+        verbose: this.config.verbose
+      })
+      await emulator.start()
+      this.emulatorProcess = emulator
+      return
+    }
+
+    // Mock mode simulates the initialization
     await new Promise(resolve => setTimeout(resolve, 1000))
     
     if (this.config.verbose) {
@@ -486,6 +535,93 @@ export class FlowEmulatorService {
     }
   }
 
+  /**
+   * Execute the workflow's generated transaction on the running emulator and
+   * report its real events, FLOW balance changes and computation usage
+   */
+  private async executeWorkflowOnEmulator(
+    workflow: ParsedWorkflow,
+    options: { gasLimit?: number; accounts?: EmulatorAccount[] } | undefined,
+    startTime: number
+  ): Promise<SimulationResult> {
+    const emulator = this.emulatorProcess!
+    const gasLimit = options?.gasLimit || this.config.transactionGasLimit
+    const warnings: string[] = []
+
+    const generation = await CadenceGenerator.generateTransactionWithDetails(workflow, { enableFallbacks: false })
+    if (!generation.success) {
+      return {
+        success: false,
+        gasUsed: 0,
+        balanceChanges: [],
+        events: [],
+        errors: generation.errors.map(message => ({ type: 'CADENCE_GENERATION_ERROR', message })),
+        warnings: generation.warnings,
+        executionTime: Date.now() - startTime
+      }
+    }
+
+    const code = await emulator.prepareTransaction(generation.code, this.config.contracts)
+
+    // Track the service account plus every account the workflow touches
+    const addresses = new Set([EMULATOR_SERVICE_ADDRESS, ...(options?.accounts || []).map(a => a.address)])
+    for (const action of workflow.actions) {
+      for (const param of action.parameters) {
+        if (/^0x[0-9a-fA-F]{16}$/.test(String(param.value))) addresses.add(param.value)
+      }
+    }
+
+    const before = new Map<string, number>()
+    for (const address of addresses) {
+      try {
+        before.set(address, await emulator.getFlowBalance(address))
+      } catch {
+        warnings.push(`Account ${address} does not exist on the emulator`)
+      }
+    }
+
+    const result = await emulator.sendTransaction(code, gasLimit)
+
+    const balanceChanges: BalanceChange[] = []
+    for (const [address, previous] of before) {
+      const current = await emulator.getFlowBalance(address)
+      if (current !== previous) {
+        balanceChanges.push({
+          address,
+          token: 'FLOW',
+          before: previous.toFixed(8),
+          after: current.toFixed(8),
+          amount: current - previous
+        })
+      }
+    }
+
+    if (this.currentEnvironment) {
+      this.currentEnvironment.blockHeight = result.blockHeight
+    }
+    this.blockHeight = result.blockHeight
+
+    if (result.computationUsed > gasLimit * 0.8) {
+      warnings.push('Gas usage is approaching the limit. Consider optimizing the workflow.')
+    }
+
+    return {
+      success: !result.errorMessage,
+      gasUsed: result.computationUsed,
+      balanceChanges,
+      events: result.events.map(event => ({
+        type: event.type,
+        data: event.data,
+        blockHeight: result.blockHeight
+      })),
+      errors: result.errorMessage
+        ? [{ type: 'TRANSACTION_FAILED', message: result.errorMessage }]
+        : [],
+      warnings,
+      executionTime: Date.now() - startTime
+    }
+  }
+
   /**
    * Create simulation environment with mock accounts
    */
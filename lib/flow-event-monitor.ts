@@ -0,0 +1,299 @@
+import type { FlowEventFilter, FlowEventTriggerConfig } from './types'
+import { AgentJobStore, getDefaultAgentJobStore } from './agent-job-store'
+import { createAgentNetworkConfig, type AgentNetwork } from './agent-workflow-runner'
+import { decodeEventPayload } from './flow-emulator-process'
+
+/**
+ * Flow Event Monitor
+ *
+ * Watches sealed Flow blocks for the contract events agents subscribe to:
+ * - Polls an access node's REST API for event types over block ranges
+ * - Block-height checkpoints persisted in the AgentJobStore per
+ *   subscription, so scanning resumes after a restart without gaps
+ * - Event field filters (address-aware equality, numeric comparisons)
+ * - Parameter bindings that turn event fields into workflow parameter
+ *   values for the triggered run
+ */
+
+export interface FlowChainEvent {
+  type: string
+  transactionId: string
+  transactionIndex: number
+  eventIndex: number
+  blockId: string
+  blockHeight: number
+  blockTimestamp: string
+  data: Record<string, any>
+}
+
+/**
+ * Source of sealed blocks and their events
+ */
+export interface FlowEventSource {
+  getLatestSealedHeight(): Promise<number>
+  getEvents(eventType: string, startHeight: number, endHeight: number): Promise<FlowChainEvent[]>
+}
+
+export class FlowEventSourceError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message)
+    this.name = 'FlowEventSourceError'
+  }
+}
+
+/**
+ * Event source backed by a Flow access node's REST API
+ */
+export class AccessNodeEventSource implements FlowEventSource {
+  constructor(
+    private readonly accessNode: string,
+    private readonly fetchImpl: typeof fetch = fetch
+  ) {}
+
+  async getLatestSealedHeight(): Promise<number> {
+    const blocks = await this.request('/v1/blocks?height=sealed')
+    return Number(blocks[0]?.header?.height ?? 0)
+  }
+
+  async getEvents(eventType: string, startHeight: number, endHeight: number): Promise<FlowChainEvent[]> {
+    const query = new URLSearchParams({
+      type: eventType,
+      start_height: String(startHeight),
+      end_height: String(endHeight)
+    })
+    const blocks: any[] = await this.request(`/v1/events?${query}`)
+
+    return blocks.flatMap(block => (block.events || []).map((event: any) => ({
+      type: event.type,
+      transactionId: event.transaction_id,
+      transactionIndex: Number(event.transaction_index),
+      eventIndex: Number(event.event_index),
+      blockId: block.block_id,
+      blockHeight: Number(block.block_height),
+      blockTimestamp: block.block_timestamp,
+      data: decodeEventPayload(event.payload)
+    })))
+  }
+
+  private async request(pathname: string): Promise<any> {
+    const response = await this.fetchImpl(`${this.accessNode.replace(/\/$/, '')}${pathname}`)
+    if (!response.ok) {
+      throw new FlowEventSourceError(`Access node request ${pathname} failed with status ${response.status}`, response.status)
+    }
+    return response.json()
+  }
+}
+
+/**
+ * Event type IDs are written without the 0x of the contract address
+ */
+export function normalizeEventType(eventType: string): string {
+  return eventType.trim().replace(/^A\.0x/i, 'A.')
+}
+
+const EVENT_TYPE_PATTERN = /^(A\.[0-9a-fA-F]{16}\.\w+\.\w+|flow\.\w+)$/
+
+export function isValidEventType(eventType: string): boolean {
+  return EVENT_TYPE_PATTERN.test(normalizeEventType(eventType))
+}
+
+/**
+ * Read a dotted path ("data.amount", "nft.id") from an object
+ */
+export function getEventField(source: any, fieldPath: string): any {
+  return fieldPath.split('.').reduce((value, key) => (value == null ? undefined : value[key]), source)
+}
+
+const isAddress = (value: unknown): value is string => typeof value === 'string' && /^(0x)?[0-9a-fA-F]{16}$/.test(value)
+const normalizeAddress = (address: string) => `0x${address.replace(/^0x/i, '').toLowerCase()}`
+const isNumeric = (value: unknown) =>
+  (typeof value === 'number' && Number.isFinite(value)) || (typeof value === 'string' && /^-?\d+(\.\d+)?$/.test(value))
+
+function valuesEqual(actual: any, expected: any): boolean {
+  if (isAddress(actual) && isAddress(expected)) {
+    return normalizeAddress(actual) === normalizeAddress(expected)
+  }
+  // UFix64 values arrive as "100.00000000"
+  if (isNumeric(actual) && isNumeric(expected)) {
+    return Number(actual) === Number(expected)
+  }
+  return actual === expected || String(actual) === String(expected)
+}
+
+/**
+ * Check an event's payload against a trigger's filters; all must match
+ */
+export function matchesEventFilters(data: Record<string, any>, filters: FlowEventFilter[] = []): boolean {
+  return filters.every(filter => {
+    const actual = getEventField(data, filter.field)
+    if (actual === undefined) return false
+
+    switch (filter.operator) {
+      case 'eq':
+        return valuesEqual(actual, filter.value)
+      case 'neq':
+        return !valuesEqual(actual, filter.value)
+      case 'gt':
+        return isNumeric(actual) && Number(actual) > Number(filter.value)
+      case 'gte':
+        return isNumeric(actual) && Number(actual) >= Number(filter.value)
+      case 'lt':
+        return isNumeric(actual) && Number(actual) < Number(filter.value)
+      case 'lte':
+        return isNumeric(actual) && Number(actual) <= Number(filter.value)
+      case 'in':
+        return Array.isArray(filter.value) && filter.value.some(value => valuesEqual(actual, value))
+      case 'contains':
+        return Array.isArray(actual)
+          ? actual.some(item => valuesEqual(item, filter.value))
+          : String(actual).includes(String(filter.value))
+      default:
+        return false
+    }
+  })
+}
+
+/**
+ * Turn an event into workflow parameter overrides, keyed by action ID.
+ * Bindings map "<actionId>.<parameterName>" to a path into the event.
+ */
+export function resolveParameterBindings(
+  bindings: Record<string, string> = {},
+  event: FlowChainEvent
+): Record<string, Record<string, unknown>> {
+  const parameters: Record<string, Record<string, unknown>> = {}
+
+  for (const [target, source] of Object.entries(bindings)) {
+    const separator = target.lastIndexOf('.')
+    const actionId = target.slice(0, separator)
+    const parameterName = target.slice(separator + 1)
+    const value = getEventField(event, source)
+    if (value === undefined) continue
+
+    parameters[actionId] = { ...parameters[actionId], [parameterName]: value }
+  }
+  return parameters
+}
+
+export interface FlowEventSubscription {
+  id: string
+  agentId: string
+  triggerIndex: number
+  config: FlowEventTriggerConfig
+}
+
+export interface FlowEventMonitorOptions {
+  source: FlowEventSource
+  store?: AgentJobStore
+  onEvent: (subscription: FlowEventSubscription, event: FlowChainEvent) => Promise<void>
+  maxBlockRange?: number // Access nodes cap event queries at 250 blocks
+}
+
+/**
+ * Polls the source for every subscription's event type from its checkpoint
+ * up to the latest sealed block. A checkpoint only advances after onEvent
+ * returned for every matching event in the range, so a crash re-delivers
+ * the range; onEvent must be idempotent per event.
+ */
+export class FlowEventMonitor {
+  private subscriptions: Map<string, FlowEventSubscription> = new Map()
+  private source: FlowEventSource
+  private store: AgentJobStore
+  private onEvent: FlowEventMonitorOptions['onEvent']
+  private maxBlockRange: number
+  private isPolling = false
+
+  constructor(options: FlowEventMonitorOptions) {
+    this.source = options.source
+    this.store = options.store || getDefaultAgentJobStore()
+    this.onEvent = options.onEvent
+    this.maxBlockRange = options.maxBlockRange ?? 250
+  }
+
+  subscribe(agentId: string, triggerIndex: number, config: FlowEventTriggerConfig): FlowEventSubscription {
+    const eventType = normalizeEventType(config.eventType)
+    const subscription: FlowEventSubscription = {
+      id: `${agentId}:${triggerIndex}:${eventType}`,
+      agentId,
+      triggerIndex,
+      config: { ...config, eventType }
+    }
+    this.subscriptions.set(subscription.id, subscription)
+    return subscription
+  }
+
+  unsubscribe(agentId: string): void {
+    for (const subscription of this.subscriptions.values()) {
+      if (subscription.agentId === agentId) {
+        this.subscriptions.delete(subscription.id)
+      }
+    }
+  }
+
+  getSubscriptions(agentId?: string): FlowEventSubscription[] {
+    return Array.from(this.subscriptions.values()).filter(subscription => !agentId || subscription.agentId === agentId)
+  }
+
+  /**
+   * Scan all subscriptions up to the latest sealed block. Returns the number
+   * of matching events handed to onEvent.
+   */
+  async poll(): Promise<number> {
+    if (this.isPolling || this.subscriptions.size === 0) return 0
+    this.isPolling = true
+
+    try {
+      const latest = await this.source.getLatestSealedHeight()
+      let matched = 0
+      for (const subscription of this.subscriptions.values()) {
+        try {
+          matched += await this.scan(subscription, latest)
+        } catch (error) {
+          // The checkpoint did not move, so the next poll retries the range
+          console.error(`Failed to scan ${subscription.config.eventType} for agent ${subscription.agentId}:`, error)
+        }
+      }
+      return matched
+    } finally {
+      this.isPolling = false
+    }
+  }
+
+  private async scan(subscription: FlowEventSubscription, latest: number): Promise<number> {
+    const { config } = subscription
+    const checkpoint = await this.store.getEventCheckpoint(subscription.id)
+    // A new subscription starts at its configured block or the current head
+    let height = checkpoint?.height ?? (config.startHeight !== undefined ? config.startHeight - 1 : latest)
+    if (!checkpoint) {
+      await this.store.saveEventCheckpoint(subscription.id, subscription.agentId, height)
+    }
+
+    let matched = 0
+    while (height < latest) {
+      const end = Math.min(height + this.maxBlockRange, latest)
+      const events = await this.source.getEvents(config.eventType, height + 1, end)
+
+      const ordered = events
+        .filter(event => matchesEventFilters(event.data, config.filters))
+        .sort((a, b) => a.blockHeight - b.blockHeight || a.transactionIndex - b.transactionIndex || a.eventIndex - b.eventIndex)
+      for (const event of ordered) {
+        await this.onEvent(subscription, event)
+        matched++
+      }
+
+      await this.store.saveEventCheckpoint(subscription.id, subscription.agentId, end)
+      height = end
+    }
+    return matched
+  }
+}
+
+/**
+ * Create an event source for the agent network (FLOW_AGENT_NETWORK)
+ */
+export function createFlowEventSourceFromEnv(
+  env: Record<string, string | undefined> = process.env
+): AccessNodeEventSource {
+  const network = (env.FLOW_AGENT_NETWORK || env.NEXT_PUBLIC_FLOW_NETWORK || 'testnet') as AgentNetwork
+  return new AccessNodeEventSource(createAgentNetworkConfig(network, env).accessNode)
+}
@@ -7,6 +7,7 @@ import {
   ValidationError
 } from './types'
 import { FlowEmulatorService } from './flow-emulator-service'
+import { getIterationMultipliers, isControlFlowAction } from './workflow-control-flow'
 
 export interface GasEstimate {
   totalGas: number
@@ -157,8 +158,13 @@ export class GasEstimationService {
     let totalConfidence = 0
     const warnings: string[] = []
 
+    // Actions inside for-each bodies run once per iteration
+    const iterationMultipliers = getIterationMultipliers(workflow)
+
     // Estimate gas for each action
     for (const action of workflow.actions) {
+      if (isControlFlowAction(action)) continue
+
       const metadata = actionMetadata.find(m => m.id === action.actionType)
       if (!metadata) {
         warnings.push(`No metadata found for action ${action.id}`)
@@ -171,6 +177,16 @@ export class GasEstimationService {
         options
       )
 
+      const iterations = iterationMultipliers[action.id] ?? 1
+      if (iterations > 1) {
+        actionGasEstimate.factors.push({
+          type: 'complexity',
+          impact: actionGasEstimate.estimatedGas * (iterations - 1),
+          description: `Runs up to ${iterations} times inside a loop`
+        })
+        actionGasEstimate.estimatedGas *= iterations
+      }
+
       gasBreakdown.push(actionGasEstimate)
       gasPerAction[action.id] = actionGasEstimate.estimatedGas
       totalGas += actionGasEstimate.estimatedGas
@@ -18,6 +18,7 @@ import type {
 } from "./types"
 import { Transaction } from "./transaction-manager"
 import { logger } from "./logging-service"
+import { getIterationMultipliers } from "./workflow-control-flow"
 
 export interface GasEstimate {
   computationLimit: number
@@ -117,8 +118,16 @@ export class FlowGasEstimator {
       let totalComputationLimit = this.BASE_TRANSACTION_COST
       let totalStorageLimit = 0
 
+      // Actions inside for-each bodies run once per iteration
+      const iterationMultipliers = getIterationMultipliers(workflow)
+
       for (const action of workflow.actions) {
         const actionCost = await this.estimateActionGas(action)
+        const iterations = iterationMultipliers[action.id] ?? 1
+        if (iterations > 1) {
+          actionCost.estimatedGas *= iterations
+          actionCost.factors = [...actionCost.factors, `Runs up to ${iterations} times inside a loop`]
+        }
         actionCosts.push(actionCost)
         totalComputationLimit += actionCost.estimatedGas
         
@@ -442,6 +451,16 @@ export class FlowGasEstimator {
         gas: 100, 
         confidence: 0.8, 
         factors: ['Simple voting operation'] 
+      },
+      'condition': {
+        gas: 20,
+        confidence: 0.9,
+        factors: ['Branch comparison']
+      },
+      'for-each': {
+        gas: 30,
+        confidence: 0.9,
+        factors: ['Loop setup and bounds check']
       }
     }
 
@@ -583,7 +602,8 @@ export class FlowGasEstimator {
   private generateCacheKey(workflow: ParsedWorkflow | EnhancedWorkflow): string {
     const actionTypes = workflow.actions.map(a => a.actionType).sort().join(',')
     const paramCount = workflow.actions.reduce((sum, a) => sum + a.parameters.length, 0)
-    return `workflow_${actionTypes}_${paramCount}_${this.networkConfig.name}`
+    const iterations = Object.values(getIterationMultipliers(workflow)).reduce((sum, count) => sum + count, 0)
+    return `workflow_${actionTypes}_${paramCount}_${iterations}_${this.networkConfig.name}`
   }
 
   private getFallbackEstimate(workflow: ParsedWorkflow | EnhancedWorkflow): GasEstimate {
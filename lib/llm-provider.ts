@@ -0,0 +1,244 @@
+import type { ActionMetadata, ParsedStep } from './types'
+
+/**
+ * LLM Providers
+ *
+ * Language-model parsing of workflow descriptions into steps:
+ * - A provider contract that returns `ParsedStep[]` for an input and the
+ *   current action catalog
+ * - An OpenAI-compatible chat completions provider (hosted APIs or a local
+ *   model server) constrained by a JSON schema built from the catalog
+ * - Grounding that rejects actions and parameters outside the catalog
+ */
+
+export interface LLMStepRequest {
+  input: string
+  catalog: ActionMetadata[]
+}
+
+export interface LLMProvider {
+  readonly id: string
+  generateSteps(request: LLMStepRequest): Promise<ParsedStep[]>
+}
+
+export interface OpenAICompatibleLLMConfig {
+  baseUrl: string // e.g. https://api.openai.com/v1 or http://127.0.0.1:8080/v1
+  model: string
+  apiKey?: string
+  timeout?: number
+  temperature?: number
+  maxTokens?: number
+}
+
+/**
+ * A step as the model returns it. Parameters are name/value pairs rather
+ * than an object so the schema stays valid for strict structured output.
+ */
+export interface LLMStepOutput {
+  actionId: string
+  parameters: Array<{ name: string; value: string }>
+  confidence: number
+}
+
+export class LLMProviderError extends Error {
+  constructor(message: string, public readonly provider?: string) {
+    super(message)
+    this.name = 'LLMProviderError'
+  }
+}
+
+export const DEFAULT_LLM_TIMEOUT = 20000
+export const DEFAULT_LLM_STEP_CONFIDENCE = 0.8
+
+const catalogParameters = (action: ActionMetadata) => {
+  const byName = new Map<string, { name: string; type: string; required: boolean; description?: string }>()
+  for (const { name, type, required, description } of [...action.inputs, ...action.parameters]) {
+    if (!byName.has(name)) byName.set(name, { name, type, required, description })
+  }
+  return [...byName.values()]
+}
+
+/**
+ * JSON schema for the model's answer, with action IDs limited to the catalog
+ */
+export function buildStepsSchema(catalog: ActionMetadata[]): Record<string, any> {
+  return {
+    type: 'object',
+    properties: {
+      steps: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            actionId: { type: 'string', enum: catalog.map(action => action.id) },
+            parameters: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  name: { type: 'string' },
+                  value: { type: 'string' }
+                },
+                required: ['name', 'value'],
+                additionalProperties: false
+              }
+            },
+            confidence: { type: 'number', minimum: 0, maximum: 1 }
+          },
+          required: ['actionId', 'parameters', 'confidence'],
+          additionalProperties: false
+        }
+      }
+    },
+    required: ['steps'],
+    additionalProperties: false
+  }
+}
+
+export function buildStepsPrompt(catalog: ActionMetadata[]): string {
+  const actions = catalog.map(action => JSON.stringify({
+    id: action.id,
+    name: action.name,
+    category: action.category,
+    description: action.description,
+    parameters: catalogParameters(action)
+  }))
+
+  return [
+    'You turn a description of a Flow blockchain workflow into an ordered list of steps.',
+    'Use only the actions listed below, by their id, and only their listed parameter names.',
+    'Split instructions with several clauses into one step per action, in the order they should run.',
+    'Give parameter values as strings: plain decimal amounts, token symbols and addresses as written.',
+    'Leave out parameters the description does not state. Set confidence from 0 to 1 for each step.',
+    '',
+    'Actions:',
+    ...actions
+  ].join('\n')
+}
+
+/**
+ * Turn model output into steps, rejecting anything outside the catalog.
+ * A single hallucinated action rejects the whole answer, since a workflow
+ * with a step silently dropped would do something else than asked.
+ */
+export function groundSteps(output: unknown, catalog: ActionMetadata[], provider?: string): ParsedStep[] {
+  const steps = (output as { steps?: unknown })?.steps
+  if (!Array.isArray(steps)) {
+    throw new LLMProviderError('Model answer has no steps list', provider)
+  }
+
+  const actions = new Map(catalog.map(action => [action.id, action]))
+
+  return steps.map((step: LLMStepOutput, index) => {
+    const action = actions.get(step?.actionId)
+    if (!action) {
+      throw new LLMProviderError(`Model chose an action outside the catalog: ${JSON.stringify(step?.actionId)}`, provider)
+    }
+
+    const known = new Set(catalogParameters(action).map(parameter => parameter.name))
+    const parameters: Record<string, any> = {}
+    for (const { name, value } of Array.isArray(step.parameters) ? step.parameters : []) {
+      if (known.has(name) && value !== undefined && value !== null && value !== '') {
+        parameters[name] = String(value)
+      }
+    }
+
+    const confidence = typeof step.confidence === 'number' && Number.isFinite(step.confidence)
+      ? Math.max(0, Math.min(step.confidence, 1))
+      : DEFAULT_LLM_STEP_CONFIDENCE
+
+    return {
+      actionId: action.id,
+      actionName: action.name,
+      parameters,
+      confidence,
+      position: index,
+      metadata: { originalAction: action, parser: 'llm', provider }
+    }
+  })
+}
+
+/**
+ * Chat completions with `response_format: json_schema`, as served by OpenAI
+ * and by local servers such as vLLM, llama.cpp and Ollama
+ */
+export class OpenAICompatibleLLMProvider implements LLMProvider {
+  readonly id: string
+
+  constructor(
+    private readonly config: OpenAICompatibleLLMConfig,
+    private readonly fetchImpl: typeof fetch = fetch
+  ) {
+    this.id = `openai-compatible:${config.model}`
+  }
+
+  async generateSteps({ input, catalog }: LLMStepRequest): Promise<ParsedStep[]> {
+    if (catalog.length === 0) {
+      throw new LLMProviderError('No actions to choose from', this.id)
+    }
+
+    let response: Response
+    try {
+      response = await this.fetchImpl(`${this.config.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.config.apiKey && { Authorization: `Bearer ${this.config.apiKey}` })
+        },
+        body: JSON.stringify({
+          model: this.config.model,
+          temperature: this.config.temperature ?? 0,
+          ...(this.config.maxTokens && { max_tokens: this.config.maxTokens }),
+          messages: [
+            { role: 'system', content: buildStepsPrompt(catalog) },
+            { role: 'user', content: input }
+          ],
+          response_format: {
+            type: 'json_schema',
+            json_schema: { name: 'workflow_steps', strict: true, schema: buildStepsSchema(catalog) }
+          }
+        }),
+        signal: AbortSignal.timeout(this.config.timeout ?? DEFAULT_LLM_TIMEOUT)
+      })
+    } catch (error) {
+      throw new LLMProviderError(`Model request failed: ${error instanceof Error ? error.message : error}`, this.id)
+    }
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '')
+      throw new LLMProviderError(`Model returned HTTP ${response.status}${detail ? `: ${detail}` : ''}`, this.id)
+    }
+
+    const body = await response.json()
+    const content = body?.choices?.[0]?.message?.content
+    if (typeof content !== 'string') {
+      throw new LLMProviderError('Model returned no message content', this.id)
+    }
+
+    let output: unknown
+    try {
+      output = JSON.parse(content)
+    } catch {
+      throw new LLMProviderError('Model answer is not valid JSON', this.id)
+    }
+
+    return groundSteps(output, catalog, this.id)
+  }
+}
+
+/**
+ * Provider configured by LLM_BASE_URL and LLM_MODEL, or null when either is
+ * unset so the heuristic parser is used on its own
+ */
+export function createLLMProviderFromEnv(
+  env: Record<string, string | undefined> = process.env
+): LLMProvider | null {
+  if (!env.LLM_BASE_URL || !env.LLM_MODEL) return null
+
+  const timeout = Number(env.LLM_TIMEOUT_MS)
+  return new OpenAICompatibleLLMProvider({
+    baseUrl: env.LLM_BASE_URL,
+    model: env.LLM_MODEL,
+    apiKey: env.LLM_API_KEY,
+    timeout: Number.isFinite(timeout) && timeout > 0 ? timeout : undefined
+  })
+}
@@ -0,0 +1,266 @@
+import type { Entity, NLPResult, ParsedStep, TextPreprocessingResult } from './types'
+import { WorkflowIntent } from './types'
+
+/**
+ * NLP Evaluation
+ *
+ * Scores the NLP service against a labeled corpus so parser changes can be
+ * measured:
+ * - Intent accuracy: the classified intent, or the first step's action
+ * - Entity precision, recall and F1 over actions, amounts, tokens and
+ *   addresses, compared by normalized value
+ * - Parameter exact-match: every expected step with exactly the expected
+ *   amount, token and address parameters
+ * - Reports are broken down by language and compared with a baseline; a
+ *   metric that drops by more than the allowed margin is a regression
+ */
+
+export interface NLPEvaluationEntity {
+  type: Entity['type']
+  value: string
+}
+
+export interface NLPEvaluationCase {
+  id: string
+  input: string
+  language?: string
+  intent: WorkflowIntent
+  entities: NLPEvaluationEntity[]
+  steps: Array<Pick<ParsedStep, 'actionName' | 'parameters'>>
+}
+
+export interface NLPEvaluationMetrics {
+  cases: number
+  intentAccuracy: number
+  entityPrecision: number
+  entityRecall: number
+  entityF1: number
+  parameterExactMatch: number
+}
+
+export interface NLPCaseResult {
+  id: string
+  input: string
+  language?: string
+  intent: { expected: WorkflowIntent; actual: string; correct: boolean }
+  entities: { truePositives: number; missing: string[]; unexpected: string[] }
+  steps: { expected: NLPEvaluationCase['steps']; actual: Array<Pick<ParsedStep, 'actionName' | 'parameters'>>; exactMatch: boolean }
+  error?: string
+}
+
+export interface NLPRegression {
+  metric: RegressionMetric
+  baseline: number
+  current: number
+  drop: number
+}
+
+export interface NLPEvaluationReport {
+  generatedAt: string
+  metrics: NLPEvaluationMetrics
+  byLanguage: Record<string, NLPEvaluationMetrics>
+  cases: NLPCaseResult[]
+  baseline?: NLPEvaluationMetrics
+  regressions: NLPRegression[]
+}
+
+// What the evaluation needs from the NLP service
+export type EvaluatedNLPService = {
+  parseWorkflow(input: string): Promise<NLPResult>
+  preprocessText(input: string): Promise<TextPreprocessingResult>
+  extractEntities(text: string): Promise<Entity[]>
+}
+
+export const REGRESSION_METRICS = ['intentAccuracy', 'entityF1', 'parameterExactMatch'] as const
+export type RegressionMetric = typeof REGRESSION_METRICS[number]
+
+export const DEFAULT_NLP_EVAL_MAX_DROP = 0.02
+
+// Entity types scored, and the step parameters compared for exact match
+const SCORED_ENTITY_TYPES: Entity['type'][] = ['action', 'amount', 'token', 'address']
+const SCORED_PARAMETERS = ['amount', 'fromToken', 'toToken', 'token', 'address']
+
+const WORKFLOW_INTENTS = new Set<string>(Object.values(WorkflowIntent))
+
+const normalizeAmount = (value: unknown) => {
+  const amount = Number(String(value).replace(/,/g, ''))
+  return Number.isFinite(amount) ? String(amount) : String(value)
+}
+
+const entityKey = (type: Entity['type'], value: string, metadata?: Record<string, any>): string => {
+  switch (type) {
+    case 'amount': return `amount:${typeof metadata?.normalized === 'number' ? String(metadata.normalized) : normalizeAmount(value)}`
+    case 'token': return `token:${value.toUpperCase()}`
+    case 'address': return `address:${value.toLowerCase()}`
+    default: return `${type}:${value.toLowerCase()}`
+  }
+}
+
+const parameterValue = (name: string, value: unknown) =>
+  name === 'amount' ? normalizeAmount(value) : /token$/i.test(name) ? String(value).toUpperCase() : String(value).toLowerCase()
+
+const scoredParameters = (parameters: Record<string, any>) =>
+  Object.fromEntries(Object.entries(parameters)
+    .filter(([name, value]) => SCORED_PARAMETERS.includes(name) && value !== undefined && value !== '')
+    .map(([name, value]) => [name, parameterValue(name, value)]))
+
+const stepsMatch = (expected: NLPEvaluationCase['steps'], actual: NLPCaseResult['steps']['actual']) =>
+  expected.length === actual.length && expected.every((step, index) =>
+    step.actionName.toLowerCase() === actual[index].actionName.toLowerCase() &&
+    JSON.stringify(Object.entries(scoredParameters(step.parameters)).sort()) ===
+      JSON.stringify(Object.entries(scoredParameters(actual[index].parameters)).sort()))
+
+/**
+ * Intent the service found: the classified intent of the heuristic parser,
+ * otherwise the intent named by the first step
+ */
+function actualIntent(result: NLPResult): string {
+  if (result.intent) return result.intent
+  const name = result.steps[0]?.actionName.toLowerCase()
+  return name && WORKFLOW_INTENTS.has(name) ? name : WorkflowIntent.CUSTOM
+}
+
+async function evaluateCase(nlp: EvaluatedNLPService, testCase: NLPEvaluationCase): Promise<NLPCaseResult & { expectedEntities: number; actualEntities: number }> {
+  const expectedKeys = new Set(testCase.entities
+    .filter(entity => SCORED_ENTITY_TYPES.includes(entity.type))
+    .map(entity => entityKey(entity.type, entity.value)))
+
+  const base = {
+    id: testCase.id,
+    input: testCase.input,
+    ...(testCase.language && { language: testCase.language })
+  }
+
+  try {
+    const result = await nlp.parseWorkflow(testCase.input)
+
+    // Entities as the entity route finds them
+    const preprocessed = await nlp.preprocessText(testCase.input)
+    const entities = [...preprocessed.entities, ...await nlp.extractEntities(preprocessed.cleanedText)]
+    const actualKeys = new Set(entities
+      .filter(entity => SCORED_ENTITY_TYPES.includes(entity.type))
+      .map(entity => entityKey(entity.type, entity.value, entity.metadata)))
+
+    const intent = actualIntent(result)
+    const actualSteps = result.steps.map(step => ({ actionName: step.actionName, parameters: step.parameters }))
+
+    return {
+      ...base,
+      intent: { expected: testCase.intent, actual: intent, correct: intent === testCase.intent },
+      entities: {
+        truePositives: [...expectedKeys].filter(key => actualKeys.has(key)).length,
+        missing: [...expectedKeys].filter(key => !actualKeys.has(key)),
+        unexpected: [...actualKeys].filter(key => !expectedKeys.has(key))
+      },
+      steps: { expected: testCase.steps, actual: actualSteps, exactMatch: stepsMatch(testCase.steps, actualSteps) },
+      expectedEntities: expectedKeys.size,
+      actualEntities: actualKeys.size
+    }
+  } catch (error) {
+    return {
+      ...base,
+      intent: { expected: testCase.intent, actual: WorkflowIntent.CUSTOM, correct: false },
+      entities: { truePositives: 0, missing: [...expectedKeys], unexpected: [] },
+      steps: { expected: testCase.steps, actual: [], exactMatch: false },
+      error: error instanceof Error ? error.message : String(error),
+      expectedEntities: expectedKeys.size,
+      actualEntities: 0
+    }
+  }
+}
+
+const ratio = (numerator: number, denominator: number, empty = 1) =>
+  denominator === 0 ? empty : Number((numerator / denominator).toFixed(4))
+
+function summarize(results: Array<NLPCaseResult & { expectedEntities: number; actualEntities: number }>): NLPEvaluationMetrics {
+  const truePositives = results.reduce((sum, result) => sum + result.entities.truePositives, 0)
+  const expected = results.reduce((sum, result) => sum + result.expectedEntities, 0)
+  const actual = results.reduce((sum, result) => sum + result.actualEntities, 0)
+
+  const precision = ratio(truePositives, actual)
+  const recall = ratio(truePositives, expected)
+
+  return {
+    cases: results.length,
+    intentAccuracy: ratio(results.filter(result => result.intent.correct).length, results.length),
+    entityPrecision: precision,
+    entityRecall: recall,
+    entityF1: ratio(2 * precision * recall, precision + recall, 0),
+    parameterExactMatch: ratio(results.filter(result => result.steps.exactMatch).length, results.length)
+  }
+}
+
+/**
+ * Metrics that dropped by more than `maxDrop` from the baseline
+ */
+export function compareNLPMetrics(
+  baseline: NLPEvaluationMetrics,
+  current: NLPEvaluationMetrics,
+  maxDrop: number = DEFAULT_NLP_EVAL_MAX_DROP
+): NLPRegression[] {
+  return REGRESSION_METRICS
+    .map(metric => ({
+      metric,
+      baseline: baseline[metric],
+      current: current[metric],
+      drop: Number((baseline[metric] - current[metric]).toFixed(4))
+    }))
+    .filter(({ drop }) => drop > maxDrop)
+}
+
+/**
+ * Run the corpus through the NLP service, one case at a time, and score it
+ */
+export async function evaluateNLP(
+  nlp: EvaluatedNLPService,
+  corpus: NLPEvaluationCase[],
+  options: { baseline?: NLPEvaluationMetrics; maxDrop?: number; now?: () => Date } = {}
+): Promise<NLPEvaluationReport> {
+  const results: Array<NLPCaseResult & { expectedEntities: number; actualEntities: number }> = []
+  for (const testCase of corpus) {
+    results.push(await evaluateCase(nlp, testCase))
+  }
+
+  const languages = [...new Set(results.map(result => result.language || 'en'))].sort()
+  const metrics = summarize(results)
+
+  return {
+    generatedAt: (options.now?.() ?? new Date()).toISOString(),
+    metrics,
+    byLanguage: Object.fromEntries(languages.map(language =>
+      [language, summarize(results.filter(result => (result.language || 'en') === language))])),
+    cases: results.map(({ expectedEntities, actualEntities, ...result }) => result),
+    ...(options.baseline && { baseline: options.baseline }),
+    regressions: options.baseline ? compareNLPMetrics(options.baseline, metrics, options.maxDrop) : []
+  }
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`
+
+/**
+ * Plain-text summary of a report for the console
+ */
+export function formatNLPReport(report: NLPEvaluationReport): string {
+  const row = (label: string, metrics: NLPEvaluationMetrics) =>
+    `${label.padEnd(8)} ${String(metrics.cases).padStart(5)}  ${percent(metrics.intentAccuracy).padStart(7)}  ` +
+    `${percent(metrics.entityF1).padStart(7)}  ${percent(metrics.parameterExactMatch).padStart(7)}`
+
+  const failures = report.cases.filter(result => !result.intent.correct || !result.steps.exactMatch || result.error)
+
+  return [
+    `${'language'.padEnd(8)} ${'cases'.padStart(5)}  ${'intent'.padStart(7)}  ${'entityF1'.padStart(7)}  ${'params'.padStart(7)}`,
+    ...Object.entries(report.byLanguage).map(([language, metrics]) => row(language, metrics)),
+    row('all', report.metrics),
+    ...(failures.length > 0
+      ? ['', `Mismatched cases (${failures.length}):`, ...failures.map(result =>
+        `- ${result.id}: ${result.error ? `error ${result.error}` : [
+          !result.intent.correct && `intent ${result.intent.actual} (expected ${result.intent.expected})`,
+          !result.steps.exactMatch && `steps ${result.steps.actual.map(step => step.actionName).join(', ') || 'none'}`
+        ].filter(Boolean).join('; ')}`)]
+      : []),
+    ...(report.regressions.length > 0
+      ? ['', 'Regressions:', ...report.regressions.map(regression =>
+        `- ${regression.metric}: ${percent(regression.baseline)} → ${percent(regression.current)}`)]
+      : [])
+  ].join('\n')
+}
@@ -0,0 +1,361 @@
+import { WorkflowIntent } from './types'
+import { TOKEN_ALIASES } from './nlp-config'
+
+/**
+ * NLP Languages
+ *
+ * Language support for natural language workflow input:
+ * - Detects whether a description is English, Spanish, Portuguese or Chinese
+ * - Per-language intent verbs, token synonyms, connectors and stop words
+ * - Locale number formats, e.g. `1.000,50` in Spanish and Portuguese or
+ *   `1万` in Chinese
+ * - Rewrites descriptions into the canonical English form the intent and
+ *   entity patterns of the NLP service understand, so every language shares
+ *   one parsing pipeline
+ */
+
+export type NLPLanguage = 'en' | 'es' | 'pt' | 'zh'
+
+export const SUPPORTED_LANGUAGES: NLPLanguage[] = ['en', 'es', 'pt', 'zh']
+
+type WorkflowActionIntent = Exclude<WorkflowIntent, WorkflowIntent.CUSTOM>
+
+export interface LanguagePack {
+  code: NLPLanguage
+  name: string
+  decimalSeparator: '.' | ','
+  wordBoundaries: boolean // false for languages written without spaces
+  intents: Record<WorkflowActionIntent, string[]> // Verbs and phrases for each intent
+  tokens: Record<string, string[]> // Local names for tokens, by symbol
+  phrases: Record<string, string[]> // Connectors and other words, by their English form ('' drops them)
+  stopWords: string[]
+  rewrites?: Array<[RegExp, string]> // Word-order changes applied before the vocabulary
+  multipliers?: Record<string, number> // Number suffixes, e.g. 万
+}
+
+// English verb each intent is rewritten to; the first keyword of its patterns
+export const CANONICAL_INTENT_VERBS: Record<WorkflowActionIntent, string> = {
+  [WorkflowIntent.SWAP]: 'swap',
+  [WorkflowIntent.STAKE]: 'stake',
+  [WorkflowIntent.UNSTAKE]: 'unstake',
+  [WorkflowIntent.MINT]: 'mint',
+  [WorkflowIntent.TRANSFER]: 'send',
+  [WorkflowIntent.BRIDGE]: 'bridge',
+  [WorkflowIntent.LEND]: 'lend',
+  [WorkflowIntent.BORROW]: 'borrow',
+  [WorkflowIntent.COMPOUND]: 'compound'
+}
+
+export const LANGUAGE_PACKS: Record<NLPLanguage, LanguagePack> = {
+  en: {
+    code: 'en',
+    name: 'English',
+    decimalSeparator: '.',
+    wordBoundaries: true,
+    intents: {
+      [WorkflowIntent.SWAP]: ['swap', 'exchange', 'trade', 'convert'],
+      [WorkflowIntent.STAKE]: ['stake', 'delegate', 'lock'],
+      [WorkflowIntent.UNSTAKE]: ['unstake', 'undelegate', 'unlock', 'withdraw', 'claim'],
+      [WorkflowIntent.MINT]: ['mint', 'create', 'generate', 'issue'],
+      [WorkflowIntent.TRANSFER]: ['transfer', 'send', 'move', 'pay'],
+      [WorkflowIntent.BRIDGE]: ['bridge', 'cross-chain'],
+      [WorkflowIntent.LEND]: ['lend', 'supply', 'provide'],
+      [WorkflowIntent.BORROW]: ['borrow', 'loan'],
+      [WorkflowIntent.COMPOUND]: ['compound', 'reinvest', 'auto-compound']
+    },
+    tokens: {},
+    phrases: {},
+    stopWords: [
+      'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from',
+      'has', 'he', 'in', 'is', 'it', 'its', 'of', 'on', 'that', 'the',
+      'to', 'was', 'will', 'with', 'i', 'me', 'my', 'we', 'our', 'you',
+      'your', 'they', 'them', 'their', 'this', 'these', 'those'
+    ]
+  },
+
+  es: {
+    code: 'es',
+    name: 'Español',
+    decimalSeparator: ',',
+    wordBoundaries: true,
+    intents: {
+      [WorkflowIntent.SWAP]: ['intercambiar', 'intercambia', 'intercambie', 'cambiar', 'cambia', 'cambie', 'convertir', 'convierte', 'convierta', 'canjear', 'canjea'],
+      [WorkflowIntent.STAKE]: ['hacer staking de', 'haz staking de', 'haga staking de', 'hacer staking', 'haz staking', 'stakear', 'stakea', 'delegar', 'delega', 'delegue', 'bloquear', 'bloquea'],
+      [WorkflowIntent.UNSTAKE]: ['retirar', 'retira', 'retire', 'desbloquear', 'desbloquea', 'reclamar', 'reclama'],
+      [WorkflowIntent.MINT]: ['acuñar', 'acuña', 'acuñe', 'mintear', 'mintea', 'crear', 'crea', 'cree'],
+      [WorkflowIntent.TRANSFER]: ['enviar', 'envía', 'envia', 'envíe', 'transferir', 'transfiere', 'transfiera', 'mandar', 'manda', 'mande', 'pagar', 'paga', 'pague'],
+      [WorkflowIntent.BRIDGE]: ['puentear', 'puentea', 'pasar por el puente'],
+      [WorkflowIntent.LEND]: ['prestar', 'presta', 'preste', 'suministrar', 'suministra'],
+      [WorkflowIntent.BORROW]: ['pedir prestado', 'pide prestado', 'tomar prestado', 'toma prestado'],
+      [WorkflowIntent.COMPOUND]: ['reinvertir', 'reinvierte', 'reinvierta']
+    },
+    tokens: {
+      BTC: ['bitcoin', 'bitcoins'],
+      ETH: ['ether', 'éter', 'ethereum'],
+      USDT: ['tether']
+    },
+    phrases: {
+      then: ['y luego', 'y después', 'y despues', 'luego', 'después', 'despues'],
+      and: ['y'],
+      to: ['a', 'al', 'hacia', 'hasta'],
+      for: ['por'],
+      into: ['en'],
+      from: ['de', 'del', 'desde'],
+      with: ['con'],
+      half: ['la mitad', 'mitad'],
+      address: ['la dirección', 'dirección', 'direccion'],
+      wallet: ['la billetera', 'billetera', 'cartera'],
+      slippage: ['deslizamiento'],
+      fee: ['comisión', 'comision'],
+      thousand: ['mil'],
+      million: ['millón', 'millon', 'millones'],
+      '': ['el', 'la', 'los', 'las', 'un', 'una', 'unos', 'unas', 'quiero', 'por favor', 'mis', 'mi']
+    },
+    stopWords: [
+      'a', 'al', 'con', 'de', 'del', 'el', 'en', 'es', 'la', 'las', 'lo',
+      'los', 'me', 'mi', 'mis', 'para', 'por', 'que', 'se', 'su', 'sus',
+      'un', 'una', 'unos', 'unas', 'y', 'yo', 'tu', 'nos', 'este', 'esta',
+      'estos', 'estas', 'ese', 'esa'
+    ]
+  },
+
+  pt: {
+    code: 'pt',
+    name: 'Português',
+    decimalSeparator: ',',
+    wordBoundaries: true,
+    intents: {
+      [WorkflowIntent.SWAP]: ['trocar', 'troque', 'troca', 'converter', 'converta', 'converte', 'permutar', 'permute'],
+      [WorkflowIntent.STAKE]: ['fazer staking de', 'faça staking de', 'faca staking de', 'fazer staking', 'faça staking', 'faca staking', 'stakear', 'delegar', 'delegue', 'bloquear', 'bloqueie'],
+      [WorkflowIntent.UNSTAKE]: ['retirar', 'retire', 'sacar', 'saque', 'desbloquear', 'desbloqueie', 'resgatar', 'resgate'],
+      [WorkflowIntent.MINT]: ['cunhar', 'cunhe', 'mintar', 'minte', 'criar', 'crie'],
+      [WorkflowIntent.TRANSFER]: ['enviar', 'envie', 'envia', 'transferir', 'transfira', 'transfere', 'mandar', 'mande', 'pagar', 'pague'],
+      [WorkflowIntent.BRIDGE]: ['fazer bridge de', 'fazer bridge'],
+      [WorkflowIntent.LEND]: ['emprestar', 'empreste', 'fornecer', 'forneça', 'forneca'],
+      [WorkflowIntent.BORROW]: ['pegar emprestado', 'pegue emprestado', 'pedir emprestado', 'peça emprestado', 'tomar emprestado'],
+      [WorkflowIntent.COMPOUND]: ['reinvestir', 'reinvista']
+    },
+    tokens: {
+      BTC: ['bitcoin', 'bitcoins'],
+      ETH: ['ether', 'éter', 'ethereum'],
+      USDT: ['tether']
+    },
+    phrases: {
+      then: ['e depois', 'e então', 'e entao', 'depois', 'em seguida', 'então', 'entao'],
+      and: ['e'],
+      to: ['para', 'pra', 'ao', 'à'],
+      for: ['por'],
+      into: ['em'],
+      from: ['de', 'do', 'da', 'dos', 'das'],
+      with: ['com'],
+      half: ['a metade', 'metade'],
+      address: ['o endereço', 'endereço', 'endereco'],
+      wallet: ['a carteira', 'carteira'],
+      slippage: ['derrapagem'],
+      fee: ['taxa'],
+      thousand: ['mil'],
+      million: ['milhão', 'milhao', 'milhões', 'milhoes'],
+      '': ['o', 'os', 'as', 'um', 'uma', 'uns', 'umas', 'quero', 'por favor', 'meus', 'meu', 'minhas', 'minha']
+    },
+    stopWords: [
+      'a', 'ao', 'as', 'com', 'da', 'das', 'de', 'do', 'dos', 'e', 'em',
+      'eu', 'meu', 'minha', 'na', 'no', 'o', 'os', 'para', 'por', 'que',
+      'se', 'seu', 'sua', 'um', 'uma', 'uns', 'umas', 'você', 'voce',
+      'este', 'esta', 'isso', 'nos'
+    ]
+  },
+
+  zh: {
+    code: 'zh',
+    name: '中文',
+    decimalSeparator: '.',
+    wordBoundaries: false,
+    intents: {
+      [WorkflowIntent.SWAP]: ['兑换', '交换', '换成', '转换'],
+      [WorkflowIntent.STAKE]: ['质押', '委托', '锁仓'],
+      [WorkflowIntent.UNSTAKE]: ['解除质押', '取消质押', '解押', '赎回', '提取'],
+      [WorkflowIntent.MINT]: ['铸造', '铸币', '创建'],
+      [WorkflowIntent.TRANSFER]: ['转账', '发送', '转出', '支付', '转'],
+      [WorkflowIntent.BRIDGE]: ['跨链', '桥接'],
+      [WorkflowIntent.LEND]: ['出借', '借出', '放贷'],
+      [WorkflowIntent.BORROW]: ['借入', '借款', '贷款'],
+      [WorkflowIntent.COMPOUND]: ['复投', '复利', '再投资']
+    },
+    tokens: {
+      BTC: ['比特币'],
+      ETH: ['以太坊', '以太币'],
+      USDT: ['泰达币']
+    },
+    phrases: {
+      then: ['然后', '之后', '接着', '再'],
+      and: ['并且', '以及', '并', '和'],
+      to: ['给', '到', '至'],
+      half: ['一半'],
+      address: ['地址'],
+      wallet: ['钱包'],
+      slippage: ['滑点'],
+      fee: ['手续费'],
+      '': ['我想', '我要', '请', '帮我', '把', '将', '个', '枚', '代币', '币', '的']
+    },
+    stopWords: ['的', '了', '和', '是', '在', '我', '你', '他', '她', '它', '们', '这', '那', '把', '将', '请', '要', '想', '个', '枚'],
+    rewrites: [
+      // 把 10 FLOW 兑换成 USDC → swap 10 FLOW to USDC
+      [/(?:把|将)([^把将]+?)(?:兑换|交换|转换|换)成/g, ' swap $1 to '],
+      // 把 5 FLOW 转给 0x… → send 5 FLOW to 0x…
+      [/(?:把|将)([^把将]+?)(?:转账|发送|转|发)(?:给|到)/g, ' send $1 to '],
+      [/(?:兑换|交换|转换|换)成/g, ' to ']
+    ],
+    multipliers: { 千: 1_000, 万: 10_000, 亿: 100_000_000 }
+  }
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+/**
+ * Normalized number for a number written in the language's format, or null
+ * when the text is not a number in that format. `1.000,50` is 1000.5 in
+ * Spanish and Portuguese; `1,000.50` is 1000.5 in English and Chinese.
+ */
+export function parseLocalizedNumber(value: string, language: NLPLanguage = 'en'): number | null {
+  const canonical = toCanonicalNumber(value.trim(), LANGUAGE_PACKS[language].decimalSeparator)
+  return canonical === null ? null : Number(canonical)
+}
+
+function toCanonicalNumber(value: string, decimalSeparator: '.' | ','): string | null {
+  const group = decimalSeparator === ',' ? '.' : ','
+  const grouped = new RegExp(`^\\d{1,3}(?:${escapeRegExp(group)}\\d{3})+(?:${escapeRegExp(decimalSeparator)}\\d+)?$`)
+  const plain = new RegExp(`^\\d+(?:${escapeRegExp(decimalSeparator)}\\d+)?$`)
+
+  if (!grouped.test(value) && !plain.test(value)) return null
+  return value.split(group).join('').replace(decimalSeparator, '.')
+}
+
+/**
+ * Rewrite the numbers in a text to plain `1000.50` form. Numbers that are not
+ * valid in the language's format, such as `1.5` in Spanish, are left alone.
+ */
+export function normalizeNumbers(text: string, language: NLPLanguage): string {
+  const { decimalSeparator, multipliers } = LANGUAGE_PACKS[language]
+
+  let result = text.replace(/\d[\d.,]*\d|\d/g, match => toCanonicalNumber(match, decimalSeparator) ?? match)
+
+  if (multipliers) {
+    const suffixes = Object.keys(multipliers).map(escapeRegExp).join('|')
+    result = result.replace(new RegExp(`(\\d+(?:\\.\\d+)?)\\s*(${suffixes})`, 'g'), (_, amount: string, suffix: string) =>
+      String(Number((Number(amount) * multipliers[suffix]).toFixed(8)))
+    )
+  }
+
+  return result
+}
+
+/**
+ * Vocabulary of a language as [local phrase, English] pairs, longest first
+ * so phrases win over the words inside them
+ */
+function getVocabulary(pack: LanguagePack): Array<[string, string]> {
+  const entries: Array<[string, string]> = [
+    ...Object.entries(pack.intents).flatMap(([intent, words]) =>
+      words.map((word): [string, string] => [word, CANONICAL_INTENT_VERBS[intent as WorkflowActionIntent]])),
+    ...Object.entries({ ...TOKEN_ALIASES, ...pack.tokens }).flatMap(([symbol, names]) =>
+      [symbol.toLowerCase(), ...names].map((name): [string, string] => [name, symbol])),
+    ...Object.entries(pack.phrases).flatMap(([english, words]) =>
+      words.map((word): [string, string] => [word, english]))
+  ]
+  return entries.sort(([a], [b]) => b.length - a.length)
+}
+
+const vocabularyPatterns = new Map<NLPLanguage, RegExp>()
+const vocabularies = new Map<NLPLanguage, Map<string, string>>()
+
+function getVocabularyPattern(language: NLPLanguage): { pattern: RegExp; vocabulary: Map<string, string> } {
+  const pack = LANGUAGE_PACKS[language]
+  if (!vocabularyPatterns.has(language)) {
+    const entries = getVocabulary(pack)
+    // Latin words only match whole words, also inside Chinese text
+    const alternatives = entries.map(([phrase]) => {
+      const source = escapeRegExp(phrase).replace(/ /g, '\\s+')
+      return pack.wordBoundaries || /^[\x20-\x7e]+$/.test(phrase)
+        ? `(?<![\\p{L}\\p{N}_-])${source}(?![\\p{L}\\p{N}_-])`
+        : source
+    }).join('|')
+    vocabularyPatterns.set(language, new RegExp(alternatives, 'giu'))
+    vocabularies.set(language, new Map(entries.map(([phrase, english]) => [phrase.toLowerCase(), english])))
+  }
+  return { pattern: vocabularyPatterns.get(language)!, vocabulary: vocabularies.get(language)! }
+}
+
+/**
+ * Rewrite a description into the canonical English form the NLP service
+ * parses: English action verbs and connectors, upper-case token symbols and
+ * plain numbers. Words outside the vocabulary, such as addresses, are kept.
+ */
+export function toCanonicalText(text: string, language: NLPLanguage): string {
+  if (language === 'en') return normalizeNumbers(text, language)
+
+  const pack = LANGUAGE_PACKS[language]
+  let result = normalizeNumbers(text.normalize('NFC'), language)
+    .replace(/，|、/g, ', ')
+    .replace(/。|；/g, '. ')
+
+  for (const [pattern, replacement] of pack.rewrites || []) {
+    result = result.replace(pattern, replacement)
+  }
+
+  const { pattern, vocabulary } = getVocabularyPattern(language)
+  result = result.replace(pattern, match => {
+    const english = vocabulary.get(match.toLowerCase().replace(/\s+/g, ' ')) ?? match
+    return pack.wordBoundaries ? english : ` ${english} `
+  })
+
+  return result
+    .replace(/\s+([.,!?])/g, '$1')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * Detect the language of a description. Chinese is recognized by its
+ * script; the others by how many of their stop words and action verbs the
+ * text uses. Defaults to English.
+ */
+export function detectLanguage(text: string): NLPLanguage {
+  if ((text.match(/\p{Script=Han}/gu)?.length || 0) >= 2) return 'zh'
+
+  const words = text.toLowerCase().normalize('NFC').match(/\p{L}+/gu) || []
+  const scores = (['en', 'es', 'pt'] as const).map(language => {
+    const known = getLanguageWords(language)
+    let score = words.filter(word => known.has(word)).length
+    if (language === 'es' && /[ñ¿¡]/i.test(text)) score += 2
+    if (language === 'pt' && /[ãõç]/i.test(text)) score += 2
+    return { language, score }
+  })
+
+  const best = scores.reduce((a, b) => (b.score > a.score ? b : a))
+  return best.score > 0 ? best.language : 'en'
+}
+
+const languageWords = new Map<NLPLanguage, Set<string>>()
+
+function getLanguageWords(language: NLPLanguage): Set<string> {
+  if (!languageWords.has(language)) {
+    const pack = LANGUAGE_PACKS[language]
+    languageWords.set(language, new Set([
+      ...pack.stopWords,
+      ...Object.values(pack.intents).flat(),
+      ...Object.values(pack.phrases).flat()
+    ].flatMap(phrase => phrase.split(' '))))
+  }
+  return languageWords.get(language)!
+}
+
+/**
+ * Stop words of a language
+ */
+export function getStopWords(language: NLPLanguage = 'en'): Set<string> {
+  return new Set(LANGUAGE_PACKS[language].stopWords)
+}
+
+export function isSupportedLanguage(language: string): language is NLPLanguage {
+  return (SUPPORTED_LANGUAGES as string[]).includes(language)
+}
@@ -2,6 +2,7 @@ import { HfInference } from '@huggingface/inference'
 import { WordTokenizer } from 'natural'
 import nlp from 'compromise'
 import {
+  ActionMetadata,
   NLPResult,
   ParsedStep,
   Entity,
@@ -11,6 +12,13 @@ import {
   NLPConfig,
   TextPreprocessingResult
 } from './types'
+import { createLLMProviderFromEnv, type LLMProvider } from './llm-provider'
+import { detectLanguage, toCanonicalText } from './nlp-languages'
+
+export interface NLPServiceOptions {
+  llmProvider?: LLMProvider | null // Defaults to the provider configured in the environment
+  actionCatalog?: () => Promise<ActionMetadata[]> // Defaults to the discovered actions
+}
 
 /**
  * NLP Service for processing natural language workflow descriptions
@@ -20,8 +28,10 @@ export class NLPService {
   private hf: HfInference | null = null
   private tokenizer: WordTokenizer
   private config: NLPConfig
+  private llmProvider: LLMProvider | null
+  private actionCatalog?: () => Promise<ActionMetadata[]>
 
-  constructor(config: Partial<NLPConfig> = {}) {
+  constructor(config: Partial<NLPConfig> = {}, options: NLPServiceOptions = {}) {
     this.config = {
       timeout: 10000,
       maxTokens: 512,
@@ -37,6 +47,9 @@ export class NLPService {
 
     // Initialize Natural Language Processing tools
     this.tokenizer = new WordTokenizer()
+
+    this.llmProvider = options.llmProvider === undefined ? createLLMProviderFromEnv() : options.llmProvider
+    this.actionCatalog = options.actionCatalog
   }
 
   /**
@@ -53,11 +66,16 @@ export class NLPService {
       const actionEntities = await this.extractEntities(preprocessed.cleanedText)
       const entities = [...preprocessed.entities, ...actionEntities]
       
-      // Step 3: Classify intent (will be implemented in task 3.2)
-      const intent = await this.classifyIntent(preprocessed.cleanedText, entities)
-      
-      // Step 4: Parse into workflow steps (will be enhanced in task 3.3)
-      const steps = await this.parseSteps(preprocessed.cleanedText, entities, intent)
+      // Step 3: Parse into workflow steps with the LLM provider, if any
+      let steps = preprocessed.cleanedText ? await this.parseStepsWithLLM(input) : null
+      const parser = steps ? 'llm' : 'heuristic'
+      let intent: IntentClassification | undefined
+
+      if (!steps) {
+        // Step 4: Otherwise classify intent and parse heuristically
+        intent = await this.classifyIntent(preprocessed.cleanedText, entities)
+        steps = await this.parseSteps(preprocessed.cleanedText, entities, intent)
+      }
       
       // Step 5: Detect ambiguities and generate suggestions
       const ambiguities = this.detectAmbiguities(input, entities, steps)
@@ -70,7 +88,10 @@ export class NLPService {
         steps,
         ambiguities,
         suggestions,
-        processingTime
+        processingTime,
+        parser,
+        language: preprocessed.metadata.language,
+        ...(intent && { intent: intent.intent })
       }
     } catch (error) {
       throw new NLPError(
@@ -81,13 +102,50 @@ export class NLPService {
     }
   }
 
+  /**
+   * Parse steps with the LLM provider, grounded on the action catalog.
+   * Returns null, so the heuristic pipeline takes over, when no provider is
+   * configured or it fails or finds nothing.
+   */
+  private async parseStepsWithLLM(input: string): Promise<ParsedStep[] | null> {
+    if (!this.llmProvider) return null
+
+    try {
+      const catalog = await this.getActionCatalog()
+      const steps = await this.llmProvider.generateSteps({ input, catalog })
+
+      // Guard against providers that skip grounding
+      const known = new Set(catalog.map(action => action.id))
+      if (steps.length === 0 || steps.some(step => !known.has(step.actionId))) {
+        return null
+      }
+      return steps
+    } catch (error) {
+      console.warn(`LLM parsing with ${this.llmProvider.id} failed, using heuristics:`, error instanceof Error ? error.message : error)
+      return null
+    }
+  }
+
+  private async getActionCatalog(): Promise<ActionMetadata[]> {
+    if (this.actionCatalog) return this.actionCatalog()
+
+    // Import dynamically to keep discovery out of heuristic-only use
+    const { getDefaultActionDiscoveryService } = await import('./action-discovery-service')
+    const { actions } = await getDefaultActionDiscoveryService().discoverActionsWithFallback()
+    return actions
+  }
+
   /**
    * Preprocess text for better NLP analysis
    */
   async preprocessText(text: string): Promise<TextPreprocessingResult> {
     try {
+      // Rewrite other languages into the English form the patterns below expect
+      const language = detectLanguage(text)
+      const source = toCanonicalText(text, language)
+
       // Clean and normalize the text
-      const cleanedText = text
+      const cleanedText = source
         .toLowerCase()
         .replace(/[!]+/g, '') // Remove exclamation marks
         .replace(/[^\w\s.,?-]/g, '') // Remove special characters except basic punctuation
@@ -119,7 +177,7 @@ export class NLPService {
       // Extract potential token names (3-5 uppercase letters)
       const tokenPattern = /\b[A-Z]{3,5}\b/g
       let tokenMatch
-      while ((tokenMatch = tokenPattern.exec(text)) !== null) { // Use original text to preserve case
+      while ((tokenMatch = tokenPattern.exec(source)) !== null) { // Use the uncleaned text to preserve case
         entities.push({
           type: 'token',
           value: tokenMatch[0],
@@ -135,7 +193,7 @@ export class NLPService {
       // Extract potential addresses (hex-like strings)
       const addressPattern = /0x[a-fA-F0-9]{16,}/g
       let addressMatch
-      while ((addressMatch = addressPattern.exec(text)) !== null) { // Use original text to preserve case
+      while ((addressMatch = addressPattern.exec(source)) !== null) { // Use the uncleaned text to preserve case
         entities.push({
           type: 'address',
           value: addressMatch[0],
@@ -156,7 +214,7 @@ export class NLPService {
         metadata: {
           wordCount: tokens.length,
           characterCount: cleanedText.length,
-          language: 'en' // Could be enhanced with language detection
+          language
         }
       }
     } catch (error) {
@@ -905,13 +963,15 @@ export class NLPService {
     const ambiguities: Ambiguity[] = []
 
     // Check for missing required parameters
-    steps.forEach(step => {
+    steps.forEach((step, index) => {
       if (step.actionName === 'swap' && (!step.parameters.fromToken || !step.parameters.toToken)) {
         ambiguities.push({
           type: 'parameter',
           message: 'Swap action requires both source and destination tokens',
           suggestions: ['Specify both tokens to swap (e.g., "swap USDC to FLOW")', 'Add token symbols in your description'],
-          position: step.position ? [step.position, step.position + step.actionName.length] : undefined
+          position: step.position ? [step.position, step.position + step.actionName.length] : undefined,
+          step: index,
+          parameters: ['fromToken', 'toToken'].filter(name => !step.parameters[name])
         })
       }
 
@@ -920,7 +980,9 @@ export class NLPService {
           type: 'parameter',
           message: 'Transfer action requires a destination address',
           suggestions: ['Add recipient address (e.g., "transfer to 0x123...")', 'Specify the destination wallet'],
-          position: step.position ? [step.position, step.position + step.actionName.length] : undefined
+          position: step.position ? [step.position, step.position + step.actionName.length] : undefined,
+          step: index,
+          parameters: ['address']
         })
       }
     })
@@ -940,6 +1002,14 @@ export class NLPService {
     return ambiguities
   }
 
+  /**
+   * Ambiguities in steps that no longer match a single input text, such as
+   * a workflow edited over several conversation turns
+   */
+  findStepAmbiguities(steps: ParsedStep[]): Ambiguity[] {
+    return this.detectAmbiguities('', [], steps)
+  }
+
   /**
    * Generate helpful suggestions for improving the input
    */
@@ -1344,8 +1414,8 @@ export class NLPError extends Error {
 /**
  * Factory function to create NLP service with default configuration
  */
-export function createNLPService(config?: Partial<NLPConfig>): NLPService {
-  return new NLPService(config)
+export function createNLPService(config?: Partial<NLPConfig>, options?: NLPServiceOptions): NLPService {
+  return new NLPService(config, options)
 }
 
 /**
@@ -0,0 +1,493 @@
+import { randomUUID } from 'crypto'
+import type { Ambiguity, ParsedStep } from './types'
+import { NLPService } from './nlp-service'
+import { INTENT_PATTERNS, getNLPConfig } from './nlp-config'
+
+/**
+ * NLP Sessions
+ *
+ * Multi-turn refinement of a workflow described in natural language:
+ * - Sessions keep the steps parsed so far and the conversation
+ * - Every ambiguity becomes a clarifying question that can be answered in
+ *   the next turn, by question ID or in plain text
+ * - Edits such as "change the amount to 5", "add a step that stakes the
+ *   result" and "remove step 2" change the steps in place
+ * - Each turn reports what changed as a diff against the previous steps
+ * - Sessions live in this process's memory only. The number of sessions and
+ *   the turns each keeps are capped; the least recently used session and
+ *   the oldest turns go first
+ */
+
+export interface SessionStep extends ParsedStep {
+  id: string // Stable across turns, unlike position
+  inputFrom?: string // ID of the step whose result this step uses
+}
+
+export interface ClarifyingQuestion {
+  id: string
+  question: string
+  stepId: string
+  parameters: string[]
+  suggestions: string[]
+  ambiguity: Ambiguity
+}
+
+export interface StepChange {
+  stepId: string
+  position: number
+  actionName: string
+  parameters: Array<{ name: string; from?: any; to?: any }>
+}
+
+export interface WorkflowDiff {
+  added: SessionStep[]
+  removed: SessionStep[]
+  changed: StepChange[]
+}
+
+export interface NLPSessionTurn {
+  role: 'user' | 'assistant'
+  message: string
+  at: string
+  diff?: WorkflowDiff
+}
+
+export interface NLPSession {
+  id: string
+  createdAt: string
+  updatedAt: string
+  expiresAt: string
+  steps: SessionStep[]
+  questions: ClarifyingQuestion[]
+  turns: NLPSessionTurn[]
+  nextStep: number
+}
+
+export interface NLPSessionAnswer {
+  questionId: string
+  value: string
+}
+
+export interface NLPSessionInput {
+  message?: string
+  answers?: NLPSessionAnswer[]
+}
+
+export interface NLPSessionReply {
+  session: NLPSession
+  reply: string
+  diff: WorkflowDiff
+  questions: ClarifyingQuestion[]
+}
+
+export class NLPSessionError extends Error {
+  constructor(message: string, public readonly code: 'NOT_FOUND' | 'INVALID') {
+    super(message)
+    this.name = 'NLPSessionError'
+  }
+}
+
+export const DEFAULT_NLP_SESSION_TTL = 30 * 60 * 1000
+export const DEFAULT_NLP_MAX_SESSIONS = 1000
+export const DEFAULT_NLP_MAX_TURNS = 50
+
+const RESET = /^(?:start over|reset|clear(?: everything| the workflow)?)\.?$/i
+const REMOVE = /^(?:remove|delete|drop)\s+(?:the\s+)?(.+?)(?:\s+step)?\.?$/i
+const CHANGE = /^(?:change|set|update|make)\s+(?:the\s+)?(.+?)\s+(?:to|=)\s+(.+?)\.?$/i
+const ADD = /^(?:add|append|also|then|and then)\s+(?:(?:a|another)\s+step\s+(?:that|to|which)\s+)?(.+?)\.?$/i
+const REFERENCE = /\b(?:the result|the output|it|them|that)\b/i
+
+// Words in parameter phrases mapped to the parameter names steps use
+const PARAMETER_ALIASES: Record<string, string[]> = {
+  amount: ['amount', 'quantity', 'value'],
+  fromToken: ['from token', 'source token', 'token', 'from'],
+  toToken: ['to token', 'target token', 'destination token', 'output token', 'into'],
+  address: ['address', 'recipient', 'destination', 'receiver', 'to address'],
+  recipient: ['recipient', 'address', 'destination', 'receiver']
+}
+
+const STOP_WORDS = new Set(['THE', 'AND', 'FOR', 'FROM', 'INTO', 'THEN', 'SWAP', 'SEND', 'WITH'])
+
+const ACTION_KEYWORDS = new Set<string>(Object.values(INTENT_PATTERNS).flatMap(pattern => [...pattern.keywords]))
+
+const namesAction = (message: string) => message.toLowerCase().split(/[^a-z-]+/).some(word => ACTION_KEYWORDS.has(word))
+
+const describeStep = (step: SessionStep) => `step ${step.position! + 1} (${step.actionName})`
+
+const words = (name: string) => name.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase()
+
+/**
+ * Pull values for the named parameters out of a free-text answer: addresses,
+ * amounts and token symbols by shape, or the whole answer for one parameter
+ */
+export function extractParameterValues(answer: string, parameters: string[]): Record<string, string> {
+  const values: Record<string, string> = {}
+  const tokens = (answer.toUpperCase().match(/\b[A-Z][A-Z0-9]{2,5}\b/g) || []).filter(word => !STOP_WORDS.has(word))
+  const trimmed = answer.trim().replace(/\.$/, '')
+
+  for (const name of parameters) {
+    if (/address|recipient/i.test(name)) {
+      const address = answer.match(/0x[a-fA-F0-9]{16,}/)?.[0]
+      if (address) values[name] = address
+    } else if (/amount/i.test(name)) {
+      const amount = answer.match(/\d+(?:\.\d+)?/)?.[0]
+      if (amount) values[name] = amount
+    } else if (/token/i.test(name) && tokens.length > 0) {
+      values[name] = tokens.shift()!
+    }
+  }
+
+  if (parameters.length === 1 && !values[parameters[0]] && trimmed) {
+    values[parameters[0]] = trimmed
+  }
+  return values
+}
+
+/**
+ * Steps added, removed and changed between two versions, matched by step ID
+ */
+export function diffSteps(before: SessionStep[], after: SessionStep[]): WorkflowDiff {
+  const previous = new Map(before.map(step => [step.id, step]))
+  const current = new Set(after.map(step => step.id))
+
+  const changed: StepChange[] = []
+  for (const step of after) {
+    const old = previous.get(step.id)
+    if (!old) continue
+
+    const names = new Set([...Object.keys(old.parameters), ...Object.keys(step.parameters)])
+    const parameters = [...names]
+      .filter(name => old.parameters[name] !== step.parameters[name])
+      .map(name => ({ name, from: old.parameters[name], to: step.parameters[name] }))
+    if (parameters.length > 0 || old.actionId !== step.actionId) {
+      changed.push({ stepId: step.id, position: step.position!, actionName: step.actionName, parameters })
+    }
+  }
+
+  return {
+    added: after.filter(step => !previous.has(step.id)),
+    removed: before.filter(step => !current.has(step.id)),
+    changed
+  }
+}
+
+const isEmptyDiff = (diff: WorkflowDiff) =>
+  diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0
+
+export interface NLPSessionServiceOptions {
+  nlp?: NLPService
+  ttl?: number
+  maxSessions?: number
+  maxTurns?: number // Turns kept per session, counting user and assistant turns
+  now?: () => number
+}
+
+/**
+ * Keeps NLP sessions in memory; they expire after a period without turns
+ */
+export class NLPSessionService {
+  // In least recently used order
+  private sessions: Map<string, NLPSession> = new Map()
+  private nlp?: NLPService
+  private ttl: number
+  private maxSessions: number
+  private maxTurns: number
+  private now: () => number
+
+  constructor(options: NLPSessionServiceOptions = {}) {
+    this.nlp = options.nlp
+    this.ttl = options.ttl ?? DEFAULT_NLP_SESSION_TTL
+    this.maxSessions = options.maxSessions ?? DEFAULT_NLP_MAX_SESSIONS
+    this.maxTurns = options.maxTurns ?? DEFAULT_NLP_MAX_TURNS
+    this.now = options.now || Date.now
+  }
+
+  private getNLP(): NLPService {
+    if (!this.nlp) {
+      this.nlp = new NLPService(getNLPConfig())
+    }
+    return this.nlp
+  }
+
+  async create(input: NLPSessionInput = {}): Promise<NLPSessionReply> {
+    this.sweep()
+    for (const id of this.sessions.keys()) {
+      if (this.sessions.size < this.maxSessions) break
+      this.sessions.delete(id)
+    }
+
+    const now = new Date(this.now()).toISOString()
+    const session: NLPSession = {
+      id: `nlp_${randomUUID()}`,
+      createdAt: now,
+      updatedAt: now,
+      expiresAt: new Date(this.now() + this.ttl).toISOString(),
+      steps: [],
+      questions: [],
+      turns: [],
+      nextStep: 1
+    }
+    this.sessions.set(session.id, session)
+
+    if (!input.message && !input.answers?.length) {
+      return this.respond(session, [], 'Describe the workflow you want to build.')
+    }
+    return this.reply(session.id, input)
+  }
+
+  get(id: string): NLPSession | null {
+    this.sweep()
+    return this.sessions.get(id) || null
+  }
+
+  delete(id: string): boolean {
+    return this.sessions.delete(id)
+  }
+
+  /**
+   * Take one user turn: explicit answers first, then the message as an
+   * edit, an answer to the open question, or more of the description
+   */
+  async reply(id: string, input: NLPSessionInput): Promise<NLPSessionReply> {
+    const session = this.get(id)
+    if (!session) {
+      throw new NLPSessionError(`NLP session ${id} not found`, 'NOT_FOUND')
+    }
+
+    const message = input.message?.trim() || ''
+    if (!message && !input.answers?.length) {
+      throw new NLPSessionError('A message or answers are required', 'INVALID')
+    }
+
+    const before = session.steps.map(step => ({ ...step, parameters: { ...step.parameters } }))
+    const notes: string[] = []
+
+    for (const answer of input.answers || []) {
+      const question = session.questions.find(candidate => candidate.id === answer.questionId)
+      if (!question) {
+        throw new NLPSessionError(`Question ${answer.questionId} is not open`, 'INVALID')
+      }
+      notes.push(this.answer(session, question, answer.value))
+    }
+
+    if (message) {
+      session.turns.push({ role: 'user', message, at: new Date(this.now()).toISOString() })
+      notes.push(await this.interpret(session, message))
+    } else {
+      session.turns.push({
+        role: 'user',
+        message: (input.answers || []).map(answer => answer.value).join('; '),
+        at: new Date(this.now()).toISOString()
+      })
+    }
+
+    return this.respond(session, before, notes.filter(Boolean).join(' '))
+  }
+
+  private async interpret(session: NLPSession, message: string): Promise<string> {
+    if (RESET.test(message)) {
+      session.steps = []
+      return 'Cleared the workflow.'
+    }
+
+    const change = message.match(CHANGE)
+    if (change && session.steps.length > 0) {
+      return this.change(session, change[1], change[2])
+    }
+
+    const remove = message.match(REMOVE)
+    if (remove && session.steps.length > 0) {
+      return this.remove(session, remove[1])
+    }
+
+    const add = message.match(ADD)
+    if (add && session.steps.length > 0) {
+      // "add a step that stakes the result" reads as "stake the result"
+      const clause = message.match(/\bstep\s+(?:that|which)\s+/i) ? add[1].replace(/^(\w+?)s\b/, '$1') : add[1]
+      return this.add(session, clause)
+    }
+
+    // A plain reply to the open question
+    const [question] = session.questions
+    if (question) {
+      const values = extractParameterValues(message, question.parameters)
+      if (Object.keys(values).length > 0 && !namesAction(message)) {
+        return this.answer(session, question, message)
+      }
+    }
+
+    return this.add(session, message)
+  }
+
+  private answer(session: NLPSession, question: ClarifyingQuestion, value: string): string {
+    const step = session.steps.find(candidate => candidate.id === question.stepId)
+    if (!step) return ''
+
+    const values = extractParameterValues(value, question.parameters)
+    if (Object.keys(values).length === 0) {
+      return `I couldn't read a ${question.parameters.map(words).join(' or ')} from "${value}".`
+    }
+
+    Object.assign(step.parameters, values)
+    return `Set ${Object.entries(values).map(([name, v]) => `${words(name)} to ${v}`).join(' and ')} for ${describeStep(step)}.`
+  }
+
+  private change(session: NLPSession, target: string, value: string): string {
+    const stepNumber = target.match(/\bstep\s+(\d+)\b/i)?.[1]
+    const phrase = target
+      .replace(/\b(?:of|in|for|on)\s+(?:the\s+)?(?:step\s+\d+|\w+(?:\s+step)?)$/i, '')
+      .replace(/\bstep\s+\d+\b/i, '')
+      .trim()
+      .toLowerCase()
+
+    // An action named in the phrase ("the swap amount", "amount of the transfer")
+    const named = session.steps.filter(step => target.toLowerCase().includes(step.actionName.toLowerCase()))
+    const candidates = stepNumber
+      ? session.steps.filter(step => step.position === Number(stepNumber) - 1)
+      : named.length > 0 ? named : session.steps
+    if (candidates.length === 0) {
+      return `There is no step ${stepNumber}.`
+    }
+
+    const parameterPhrase = named.length > 0 && !stepNumber
+      ? phrase.replace(named[0].actionName.toLowerCase(), '').trim()
+      : phrase
+    const parameterFor = (step: SessionStep) => {
+      const names = Object.keys(step.parameters)
+      const direct = names.find(name => words(name) === parameterPhrase || name.toLowerCase() === parameterPhrase)
+      if (direct) return direct
+      const aliased = Object.entries(PARAMETER_ALIASES)
+        .filter(([, aliases]) => aliases.includes(parameterPhrase))
+        .map(([name]) => name)
+      return aliased.find(name => names.includes(name)) || aliased[0]
+    }
+
+    // The latest step that already has the parameter, else the latest step
+    const step = [...candidates].reverse().find(candidate => {
+      const name = parameterFor(candidate)
+      return name && name in candidate.parameters
+    }) || candidates[candidates.length - 1]
+
+    const name = parameterFor(step)
+    if (!name) {
+      return `I don't know which parameter "${parameterPhrase}" is for ${describeStep(step)}.`
+    }
+
+    const extracted = extractParameterValues(value, [name])[name] ?? value.trim()
+    step.parameters[name] = extracted
+    return `Changed ${words(name)} to ${extracted} for ${describeStep(step)}.`
+  }
+
+  private remove(session: NLPSession, target: string): string {
+    const stepNumber = target.match(/\bstep\s+(\d+)\b|^(\d+)$/i)
+    const index = stepNumber
+      ? Number(stepNumber[1] || stepNumber[2]) - 1
+      : /^last\b/i.test(target)
+        ? session.steps.length - 1
+        : /^first\b/i.test(target)
+          ? 0
+          : session.steps.findIndex(step => target.toLowerCase().includes(step.actionName.toLowerCase()))
+
+    const step = session.steps[index]
+    if (!step) {
+      return `I couldn't find "${target}" in the workflow.`
+    }
+
+    session.steps.splice(index, 1)
+    for (const other of session.steps) {
+      if (other.inputFrom === step.id) delete other.inputFrom
+    }
+    return `Removed ${describeStep(step)}.`
+  }
+
+  private async add(session: NLPSession, clause: string): Promise<string> {
+    const result = await this.getNLP().parseWorkflow(clause)
+    if (result.steps.length === 0) {
+      return session.steps.length === 0
+        ? 'I couldn\'t find any actions in that. Try something like "swap 10 FLOW to USDC".'
+        : 'I couldn\'t find an action to add. Try "add a step that stakes the result".'
+    }
+
+    const previous = session.steps[session.steps.length - 1]
+    const added = result.steps.map((step): SessionStep => ({
+      ...step,
+      id: `step_${session.nextStep++}`,
+      parameters: { ...step.parameters }
+    }))
+
+    // "the result" or "it" uses what the step before produced
+    if (previous && REFERENCE.test(clause)) {
+      const [first] = added
+      first.inputFrom = previous.id
+      const produced = previous.parameters.toToken || previous.parameters.fromToken
+      if (produced && !first.parameters.fromToken && !first.parameters.token) {
+        first.parameters.fromToken = produced
+      }
+    }
+
+    session.steps.push(...added)
+    return session.steps.length === added.length
+      ? `Parsed ${added.length} step${added.length === 1 ? '' : 's'}.`
+      : `Added ${added.map(step => step.actionName).join(', ')} after ${describeStep(previous!)}.`
+  }
+
+  private respond(session: NLPSession, before: SessionStep[], summary: string): NLPSessionReply {
+    session.steps.forEach((step, index) => { step.position = index })
+    session.questions = this.askQuestions(session.steps)
+
+    const diff = diffSteps(before, session.steps)
+    const next = session.questions[0]
+    const reply = [
+      summary,
+      next ? next.question : session.steps.length > 0 ? `The workflow has ${session.steps.length} step${session.steps.length === 1 ? '' : 's'}. Anything to change?` : ''
+    ].filter(Boolean).join(' ')
+
+    const now = this.now()
+    session.turns.push({ role: 'assistant', message: reply, at: new Date(now).toISOString(), ...(!isEmptyDiff(diff) && { diff }) })
+    session.turns.splice(0, Math.max(0, session.turns.length - this.maxTurns))
+    session.updatedAt = new Date(now).toISOString()
+    session.expiresAt = new Date(now + this.ttl).toISOString()
+
+    // Move it to the most recently used end
+    this.sessions.delete(session.id)
+    this.sessions.set(session.id, session)
+
+    return { session, reply, diff, questions: session.questions }
+  }
+
+  private askQuestions(steps: SessionStep[]): ClarifyingQuestion[] {
+    return this.getNLP().findStepAmbiguities(steps)
+      .filter(ambiguity => ambiguity.step !== undefined && ambiguity.parameters?.length)
+      // Steps using an earlier result get their token from it
+      .filter(ambiguity => !steps[ambiguity.step!].inputFrom || !ambiguity.parameters!.every(name => /token/i.test(name)))
+      .map(ambiguity => {
+        const step = steps[ambiguity.step!]
+        return {
+          id: `${step.id}:${ambiguity.parameters!.join(',')}`,
+          question: `What ${ambiguity.parameters!.map(words).join(' and ')} should ${describeStep(step)} use?`,
+          stepId: step.id,
+          parameters: ambiguity.parameters!,
+          suggestions: ambiguity.suggestions,
+          ambiguity
+        }
+      })
+  }
+
+  private sweep(): void {
+    const now = this.now()
+    for (const [id, session] of this.sessions) {
+      if (Date.parse(session.expiresAt) <= now) this.sessions.delete(id)
+    }
+  }
+}
+
+/**
+ * Default NLP session service instance (lazy-loaded)
+ */
+let _defaultNLPSessionService: NLPSessionService | null = null
+export const getDefaultNLPSessionService = (): NLPSessionService => {
+  if (!_defaultNLPSessionService) {
+    _defaultNLPSessionService = new NLPSessionService()
+  }
+  return _defaultNLPSessionService
+}
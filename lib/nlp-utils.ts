@@ -1,5 +1,6 @@
 import { Entity, WorkflowIntent } from './types'
 import { TOKEN_ALIASES, ADDRESS_PATTERNS, AMOUNT_PATTERNS } from './nlp-config'
+import { getStopWords, parseLocalizedNumber, type NLPLanguage } from './nlp-languages'
 
 /**
  * Utility functions for NLP processing
@@ -38,10 +39,11 @@ export function validateAddress(address: string): { isValid: boolean; type?: str
 }
 
 /**
- * Parse and normalize amounts
+ * Parse and normalize amounts, written in the number format of the language
  */
-export function parseAmount(amountStr: string): { value: number; isValid: boolean; original: string } {
-  const cleaned = amountStr.replace(/,/g, '') // Remove commas
+export function parseAmount(amountStr: string, language: NLPLanguage = 'en'): { value: number; isValid: boolean; original: string } {
+  const localized = parseLocalizedNumber(amountStr, language)
+  const cleaned = localized !== null ? String(localized) : amountStr.replace(/,/g, '') // Remove commas
   
   // Check different amount patterns
   for (const pattern of Object.values(AMOUNT_PATTERNS)) {
@@ -243,24 +245,18 @@ export function splitIntoSentences(text: string): string[] {
 }
 
 /**
- * Check if a word is a stop word
+ * Check if a word is a stop word in the language
  */
-export function isStopWord(word: string): boolean {
-  const stopWords = new Set([
-    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from',
-    'has', 'he', 'in', 'is', 'it', 'its', 'of', 'on', 'that', 'the',
-    'to', 'was', 'will', 'with', 'i', 'me', 'my', 'we', 'our', 'you',
-    'your', 'they', 'them', 'their', 'this', 'these', 'those'
-  ])
-  
-  return stopWords.has(word.toLowerCase())
+export function isStopWord(word: string, language: NLPLanguage = 'en'): boolean {
+  return getStopWords(language).has(word.toLowerCase())
 }
 
 /**
  * Remove stop words from text
  */
-export function removeStopWords(words: string[]): string[] {
-  return words.filter(word => !isStopWord(word))
+export function removeStopWords(words: string[], language: NLPLanguage = 'en'): string[] {
+  const stopWords = getStopWords(language)
+  return words.filter(word => !stopWords.has(word.toLowerCase()))
 }
 
 /**
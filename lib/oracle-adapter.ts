@@ -0,0 +1,353 @@
+import { readFile } from 'fs/promises'
+import path from 'path'
+import type {
+  CadenceScriptOracleConfig,
+  FixtureOracleConfig,
+  HttpJsonOracleConfig,
+  OracleSourceConfig
+} from './types'
+import { createAgentNetworkConfig, type AgentNetwork } from './agent-workflow-runner'
+import { decodeCadenceValue } from './flow-emulator-process'
+import { getEventField } from './flow-event-monitor'
+
+/**
+ * Oracle Adapters
+ *
+ * Price and balance readings for agent triggers:
+ * - On-chain oracles read with Cadence scripts through an access node
+ * - Generic HTTP JSON price feeds
+ * - Fixture readings from an inline list, or a file inside the fixtures
+ *   directory (ORACLE_FIXTURES_DIR), for tests
+ * - A reading cache shared across triggers, with staleness checks against
+ *   the time the source observed the value
+ */
+
+export interface OracleReading {
+  value: number
+  timestamp: string // When the source observed the value
+  source: string // Adapter ID
+}
+
+export interface OracleAdapter {
+  readonly id: string
+  read(): Promise<OracleReading>
+}
+
+export class OracleError extends Error {
+  constructor(message: string, public readonly source?: string) {
+    super(message)
+    this.name = 'OracleError'
+  }
+}
+
+export class StaleOracleReadingError extends OracleError {
+  constructor(public readonly reading: OracleReading, public readonly age: number) {
+    super(`Reading from ${reading.source} is ${Math.round(age / 1000)}s old`, reading.source)
+    this.name = 'StaleOracleReadingError'
+  }
+}
+
+export const ORACLE_SOURCE_TYPES: OracleSourceConfig['type'][] = ['cadence-script', 'http-json', 'fixture']
+
+export const DEFAULT_ORACLE_POLL_INTERVAL = 30000
+export const DEFAULT_ORACLE_CACHE_TTL = 5000
+export const DEFAULT_ORACLE_MAX_AGE = 300
+
+function toReadingValue(value: unknown, source: string): number {
+  // UFix64 and most price feeds send decimals as strings
+  const numeric = typeof value === 'string' && value.trim() !== '' ? Number(value) : value
+  if (typeof numeric !== 'number' || !Number.isFinite(numeric)) {
+    throw new OracleError(`${source} returned a non-numeric value: ${JSON.stringify(value)}`, source)
+  }
+  return numeric
+}
+
+/**
+ * Accepts ISO strings and unix timestamps in seconds (as on-chain oracles
+ * and UFix64 values report them) or milliseconds
+ */
+function toReadingTimestamp(value: unknown, source: string): string {
+  if (value === undefined || value === null) return new Date().toISOString()
+
+  const numeric = typeof value === 'number' ? value : Number(value)
+  const date = Number.isFinite(numeric)
+    ? new Date(numeric < 1e12 ? numeric * 1000 : numeric)
+    : new Date(String(value))
+  if (isNaN(date.getTime())) {
+    throw new OracleError(`${source} returned an invalid timestamp: ${JSON.stringify(value)}`, source)
+  }
+  return date.toISOString()
+}
+
+const selectValue = (result: any, path?: string) => (path ? getEventField(result, path) : result)
+
+/**
+ * Runs a Cadence script against an access node's REST API and reads the
+ * value from the decoded result
+ */
+export class CadenceScriptOracleAdapter implements OracleAdapter {
+  readonly id: string
+
+  constructor(
+    private readonly config: CadenceScriptOracleConfig,
+    private readonly accessNode: string,
+    private readonly fetchImpl: typeof fetch = fetch
+  ) {
+    this.id = `cadence-script:${accessNode}:${hashConfig(config)}`
+  }
+
+  async read(): Promise<OracleReading> {
+    const response = await this.fetchImpl(`${this.accessNode.replace(/\/$/, '')}/v1/scripts?block_height=sealed`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        script: Buffer.from(this.config.script).toString('base64'),
+        arguments: (this.config.arguments || []).map(arg => Buffer.from(JSON.stringify(arg)).toString('base64'))
+      }),
+      signal: AbortSignal.timeout(10000)
+    })
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '')
+      throw new OracleError(`Oracle script failed with status ${response.status}${detail ? `: ${detail}` : ''}`, this.id)
+    }
+
+    // The result is a base64 JSON-Cadence value, sent as a JSON string
+    const encoded: string = await response.json()
+    const result = decodeCadenceValue(JSON.parse(Buffer.from(encoded, 'base64').toString('utf8')))
+
+    return {
+      value: toReadingValue(selectValue(result, this.config.valuePath), this.id),
+      timestamp: toReadingTimestamp(this.config.timestampPath ? getEventField(result, this.config.timestampPath) : undefined, this.id),
+      source: this.id
+    }
+  }
+}
+
+export class HttpJsonOracleAdapter implements OracleAdapter {
+  readonly id: string
+
+  constructor(
+    private readonly config: HttpJsonOracleConfig,
+    private readonly fetchImpl: typeof fetch = fetch
+  ) {
+    this.id = `http-json:${config.url}#${config.valuePath}`
+  }
+
+  async read(): Promise<OracleReading> {
+    let response: Response
+    try {
+      response = await this.fetchImpl(this.config.url, {
+        headers: { Accept: 'application/json', ...this.config.headers },
+        signal: AbortSignal.timeout(10000)
+      })
+    } catch (error) {
+      throw new OracleError(`Price feed request failed: ${error instanceof Error ? error.message : error}`, this.id)
+    }
+    if (!response.ok) {
+      throw new OracleError(`Price feed returned HTTP ${response.status}`, this.id)
+    }
+
+    const body = await response.json()
+    return {
+      value: toReadingValue(getEventField(body, this.config.valuePath), this.id),
+      timestamp: toReadingTimestamp(this.config.timestampPath ? getEventField(body, this.config.timestampPath) : undefined, this.id),
+      source: this.id
+    }
+  }
+}
+
+/**
+ * Replays readings in order and keeps returning the last one. Readings
+ * without a timestamp are stamped when read, so they are never stale.
+ * Fixture files are resolved inside `fixturesDir`; without one, only inline
+ * readings are available.
+ */
+export class FixtureOracleAdapter implements OracleAdapter {
+  readonly id: string
+  private readings: FixtureOracleConfig['readings'] | null
+  private position = 0
+
+  constructor(
+    private readonly config: FixtureOracleConfig,
+    private readonly fixturesDir: string | undefined = process.env.ORACLE_FIXTURES_DIR
+  ) {
+    this.id = config.file ? `fixture:${config.file}` : `fixture:${hashConfig(config)}`
+    this.readings = config.readings || null
+  }
+
+  async read(): Promise<OracleReading> {
+    const readings = await this.loadReadings()
+    if (readings.length === 0) {
+      throw new OracleError('Fixture has no readings', this.id)
+    }
+
+    const entry = readings[Math.min(this.position, readings.length - 1)]
+    this.position++
+    const reading = typeof entry === 'number' ? { value: entry } : entry
+
+    return {
+      value: toReadingValue(reading.value, this.id),
+      timestamp: toReadingTimestamp(reading.timestamp, this.id),
+      source: this.id
+    }
+  }
+
+  /**
+   * All of the fixture's readings as written, for replaying them over time
+   */
+  async loadReadings(): Promise<NonNullable<FixtureOracleConfig['readings']>> {
+    if (!this.readings) {
+      const file = resolveFixturePath(this.config.file!, this.fixturesDir, this.id)
+      try {
+        const contents = JSON.parse(await readFile(file, 'utf8'))
+        this.readings = Array.isArray(contents) ? contents : contents.readings || []
+      } catch (error) {
+        // Callers may be API clients; the reason stays in the server log
+        console.error(`Failed to load fixture ${file}:`, error)
+        throw new OracleError(`Fixture ${this.config.file} could not be loaded`, this.id)
+      }
+    }
+    return this.readings!
+  }
+}
+
+function resolveFixturePath(file: string, fixturesDir: string | undefined, source: string): string {
+  if (!fixturesDir) {
+    throw new OracleError('Fixture files are disabled; set ORACLE_FIXTURES_DIR or use inline readings', source)
+  }
+  const root = path.resolve(fixturesDir)
+  const resolved = path.resolve(root, file)
+  const relative = path.relative(root, resolved)
+  if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+    throw new OracleError(`Fixture ${file} is outside the fixtures directory`, source)
+  }
+  return resolved
+}
+
+function hashConfig(config: OracleSourceConfig): string {
+  const { pollInterval, cacheTtl, maxAge, ...source } = config
+  const text = JSON.stringify(source)
+  let hash = 0
+  for (let i = 0; i < text.length; i++) {
+    hash = (hash * 31 + text.charCodeAt(i)) | 0
+  }
+  return (hash >>> 0).toString(16)
+}
+
+/**
+ * Reuses readings across triggers that watch the same source, and refuses
+ * to hand out readings older than maxAge. When the source fails, the last
+ * reading is used for as long as it is fresh.
+ */
+export class OracleReadingCache {
+  private entries: Map<string, { reading: OracleReading; fetchedAt: number }> = new Map()
+  private inFlight: Map<string, Promise<OracleReading>> = new Map()
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  async read(adapter: OracleAdapter, options: { cacheTtl?: number; maxAge?: number } = {}): Promise<OracleReading> {
+    const cacheTtl = options.cacheTtl ?? DEFAULT_ORACLE_CACHE_TTL
+    const maxAge = (options.maxAge ?? DEFAULT_ORACLE_MAX_AGE) * 1000
+    const cached = this.entries.get(adapter.id)
+
+    let reading: OracleReading
+    if (cached && this.now() - cached.fetchedAt < cacheTtl) {
+      reading = cached.reading
+    } else {
+      try {
+        reading = await this.fetch(adapter)
+      } catch (error) {
+        if (!cached) throw error
+        console.warn(`Oracle ${adapter.id} failed, using the last reading:`, error)
+        reading = cached.reading
+      }
+    }
+
+    const age = this.now() - new Date(reading.timestamp).getTime()
+    if (age > maxAge) {
+      throw new StaleOracleReadingError(reading, age)
+    }
+    return reading
+  }
+
+  private fetch(adapter: OracleAdapter): Promise<OracleReading> {
+    let pending = this.inFlight.get(adapter.id)
+    if (!pending) {
+      pending = adapter.read()
+        .then(reading => {
+          this.entries.set(adapter.id, { reading, fetchedAt: this.now() })
+          return reading
+        })
+        .finally(() => this.inFlight.delete(adapter.id))
+      this.inFlight.set(adapter.id, pending)
+    }
+    return pending
+  }
+
+  clear(): void {
+    this.entries.clear()
+  }
+}
+
+/**
+ * Check an oracle source before an agent is saved
+ */
+export function validateOracleSource(config: OracleSourceConfig): void {
+  if (!ORACLE_SOURCE_TYPES.includes(config.type)) {
+    throw new Error(`Unknown oracle source type: ${config.type}`)
+  }
+
+  switch (config.type) {
+    case 'cadence-script':
+      if (!config.script?.trim()) {
+        throw new Error('Cadence script oracle requires a script')
+      }
+      break
+    case 'http-json':
+      if (!/^https?:\/\/\S+$/.test(config.url || '')) {
+        throw new Error(`Invalid oracle URL: ${config.url}`)
+      }
+      if (!config.valuePath) {
+        throw new Error('HTTP JSON oracle requires a valuePath')
+      }
+      break
+    case 'fixture':
+      if (!config.file && !config.readings) {
+        throw new Error('Fixture oracle requires a file or readings')
+      }
+      if (config.file && (path.isAbsolute(config.file) || config.file.split(/[\\/]/).includes('..'))) {
+        throw new Error('Fixture file must be a relative path inside the fixtures directory')
+      }
+      break
+  }
+
+  for (const key of ['pollInterval', 'cacheTtl', 'maxAge'] as const) {
+    const value = config[key]
+    if (value !== undefined && (typeof value !== 'number' || !(value >= 0))) {
+      throw new Error(`Oracle ${key} must be a non-negative number`)
+    }
+  }
+}
+
+/**
+ * Build the adapter for a trigger's oracle source. Cadence scripts run on
+ * the agent network (FLOW_AGENT_NETWORK); fixture files are read from
+ * ORACLE_FIXTURES_DIR.
+ */
+export function createOracleAdapter(
+  config: OracleSourceConfig,
+  env: Record<string, string | undefined> = process.env
+): OracleAdapter {
+  switch (config.type) {
+    case 'cadence-script': {
+      const network = (env.FLOW_AGENT_NETWORK || env.NEXT_PUBLIC_FLOW_NETWORK || 'testnet') as AgentNetwork
+      return new CadenceScriptOracleAdapter(config, createAgentNetworkConfig(network, env).accessNode)
+    }
+    case 'http-json':
+      return new HttpJsonOracleAdapter(config)
+    case 'fixture':
+      return new FixtureOracleAdapter(config, env.ORACLE_FIXTURES_DIR)
+    default:
+      throw new Error(`Unknown oracle source type: ${(config as OracleSourceConfig).type}`)
+  }
+}
@@ -239,6 +239,145 @@ export function getRealFlowActions(): ActionMetadata[] {
       createdAt: '2024-01-01',
       updatedAt: '2024-01-01'
     },
+    {
+      id: 'swap-tokens',
+      name: 'Swap Tokens',
+      description: 'Swap fungible tokens through the IncrementFi SwapRouter',
+      category: 'defi',
+      version: '1.0.0',
+      inputs: [
+        { name: 'fromToken', type: 'String', description: 'Symbol of the token to sell', required: true },
+        { name: 'toToken', type: 'String', description: 'Symbol of the token to buy', required: true },
+        { name: 'amount', type: 'UFix64', description: 'Amount of tokens to sell', required: true },
+        { name: 'slippage', type: 'UFix64', description: 'Maximum accepted slippage', required: false }
+      ],
+      outputs: [
+        { name: 'amountOut', type: 'UFix64', description: 'Amount of tokens received' },
+        { name: 'transactionId', type: 'String', description: 'Transaction ID' }
+      ],
+      parameters: [
+        { 
+          name: 'fromToken', 
+          type: 'String', 
+          value: '', 
+          required: true,
+          description: 'The symbol of the token to sell',
+          options: ['FLOW', 'USDC', 'FUSD', 'BLT', 'REVV']
+        },
+        { 
+          name: 'toToken', 
+          type: 'String', 
+          value: '', 
+          required: true,
+          description: 'The symbol of the token to buy',
+          options: ['FLOW', 'USDC', 'FUSD', 'BLT', 'REVV']
+        },
+        { 
+          name: 'amount', 
+          type: 'UFix64', 
+          value: '', 
+          required: true,
+          description: 'The amount of tokens to sell',
+          options: undefined
+        },
+        { 
+          name: 'slippage', 
+          type: 'UFix64', 
+          value: '0.01', 
+          required: false,
+          description: 'Maximum accepted slippage as a fraction, e.g. 0.01 for 1%',
+          options: undefined
+        }
+      ],
+      compatibility: {
+        requiredCapabilities: ['FungibleToken.Vault'],
+        supportedNetworks: ['testnet', 'mainnet'],
+        minimumFlowVersion: '1.0.0',
+        conflictsWith: []
+      },
+      gasEstimate: 120000,
+      securityLevel: SecurityLevel.MEDIUM,
+      author: 'IncrementFi',
+      createdAt: '2024-01-01',
+      updatedAt: '2024-01-01'
+    },
+    {
+      id: 'get-staking-rewards',
+      name: 'Get Staking Rewards',
+      description: 'Query the unclaimed rewards of a node in the FlowStakingCollection',
+      category: 'query',
+      version: '1.0.0',
+      inputs: [
+        { name: 'nodeId', type: 'String', description: 'Staked node ID', required: true }
+      ],
+      outputs: [
+        { name: 'rewardedTokens', type: 'UFix64', description: 'Unclaimed FLOW rewards' }
+      ],
+      parameters: [
+        { 
+          name: 'nodeId', 
+          type: 'String', 
+          value: '', 
+          required: true,
+          description: 'The ID of the node the account stakes with',
+          options: undefined
+        }
+      ],
+      compatibility: {
+        requiredCapabilities: [],
+        supportedNetworks: ['testnet', 'mainnet'],
+        minimumFlowVersion: '1.0.0',
+        conflictsWith: []
+      },
+      gasEstimate: 2000,
+      securityLevel: SecurityLevel.LOW,
+      author: 'Flow Foundation',
+      createdAt: '2024-01-01',
+      updatedAt: '2024-01-01'
+    },
+    {
+      id: 'stake-rewarded-tokens',
+      name: 'Stake Rewarded Tokens',
+      description: 'Restake unclaimed FLOW rewards through the FlowStakingCollection',
+      category: 'staking',
+      version: '1.0.0',
+      inputs: [
+        { name: 'nodeId', type: 'String', description: 'Staked node ID', required: true },
+        { name: 'amount', type: 'UFix64', description: 'Amount of rewards to restake', required: true }
+      ],
+      outputs: [
+        { name: 'transactionId', type: 'String', description: 'Transaction ID' }
+      ],
+      parameters: [
+        { 
+          name: 'nodeId', 
+          type: 'String', 
+          value: '', 
+          required: true,
+          description: 'The ID of the node the account stakes with',
+          options: undefined
+        },
+        { 
+          name: 'amount', 
+          type: 'UFix64', 
+          value: '', 
+          required: true,
+          description: 'The amount of rewarded FLOW to stake again',
+          options: undefined
+        }
+      ],
+      compatibility: {
+        requiredCapabilities: ['FlowStakingCollection.StakingCollection'],
+        supportedNetworks: ['testnet', 'mainnet'],
+        minimumFlowVersion: '1.0.0',
+        conflictsWith: []
+      },
+      gasEstimate: 60000,
+      securityLevel: SecurityLevel.MEDIUM,
+      author: 'Flow Foundation',
+      createdAt: '2024-01-01',
+      updatedAt: '2024-01-01'
+    },
     {
       id: 'get-account-balance',
       name: 'Get Account Balance',
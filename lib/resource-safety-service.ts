@@ -1,4 +1,11 @@
 import { ParsedWorkflow, ActionMetadata } from './types'
+import {
+  CadenceLanguageServer,
+  CadenceDiagnostic,
+  checkCadenceCode,
+  formatCadenceDiagnostic,
+  getDefaultCadenceLanguageServer
+} from './cadence-language-server'
 
 export interface ResourceAnalysis {
   resourceLeaks: ResourceLeak[]
@@ -98,6 +105,12 @@ export class ResourceSafetyService {
     }
   ]
 
+  private languageServer: CadenceLanguageServer
+
+  constructor(languageServer: CadenceLanguageServer = getDefaultCadenceLanguageServer()) {
+    this.languageServer = languageServer
+  }
+
   /**
    * Analyzes generated Cadence code for resource safety issues
    */
@@ -358,27 +371,43 @@ export class ResourceSafetyService {
   }
 
   /**
-   * Integrates with Flow security tools for comprehensive analysis
+   * Integrates with Flow security tools for comprehensive analysis. Parser and
+   * type checker diagnostics come from the Cadence language server; lint and
+   * resource balance checks are local heuristics.
    */
   async integrateFlowSecurityTools(cadenceCode: string): Promise<{
     flowLintResults: any[]
     cadenceAnalyzerResults: any[]
+    diagnostics: CadenceDiagnostic[]
+    typeChecked: boolean
     recommendations: string[]
   }> {
-    // This would integrate with actual Flow security tools
-    // For now, we'll simulate the integration
-    
+    const check = await checkCadenceCode(cadenceCode, this.languageServer)
     const flowLintResults = await this.simulateFlowLint(cadenceCode)
-    const cadenceAnalyzerResults = await this.simulateCadenceAnalyzer(cadenceCode)
+    const cadenceAnalyzerResults = [
+      ...check.diagnostics.map(diagnostic => ({
+        type: diagnostic.severity,
+        message: diagnostic.message,
+        line: diagnostic.line,
+        column: diagnostic.column,
+        severity: diagnostic.severity === 'error' ? 'high' : 'low'
+      })),
+      ...await this.simulateCadenceAnalyzer(cadenceCode)
+    ]
     
     const recommendations = [
+      ...check.diagnostics.map(diagnostic => `Cadence Checker: ${formatCadenceDiagnostic(diagnostic)}`),
       ...flowLintResults.map(result => `Flow Lint: ${result.message}`),
-      ...cadenceAnalyzerResults.map(result => `Cadence Analyzer: ${result.message}`)
+      ...cadenceAnalyzerResults
+        .filter(result => result.line === undefined)
+        .map(result => `Cadence Analyzer: ${result.message}`)
     ]
     
     return {
       flowLintResults,
       cadenceAnalyzerResults,
+      diagnostics: check.diagnostics,
+      typeChecked: check.checked,
       recommendations
     }
   }
@@ -0,0 +1,137 @@
+import { createECDH, createPrivateKey, sign, type KeyObject } from 'crypto'
+
+/**
+ * Service Account Signer
+ *
+ * Signs Flow transactions on the server with a configured account key, so
+ * agents can run without a connected wallet:
+ * - ECDSA_P256 or ECDSA_secp256k1 keys hashed with SHA3_256 or SHA2_256
+ * - An FCL authorization function used as proposer, payer and authorizer
+ * - Configuration from FLOW_SERVICE_ACCOUNT_* environment variables
+ */
+
+export type SignatureAlgorithm = 'ECDSA_P256' | 'ECDSA_secp256k1'
+export type HashAlgorithm = 'SHA3_256' | 'SHA2_256'
+
+export interface ServiceAccountConfig {
+  address: string
+  privateKey: string  // hex, without 0x
+  keyIndex: number
+  signatureAlgorithm: SignatureAlgorithm
+  hashAlgorithm: HashAlgorithm
+}
+
+export class ServiceAccountSignerError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ServiceAccountSignerError'
+  }
+}
+
+const CURVES: Record<SignatureAlgorithm, { ecdh: string; jwk: string }> = {
+  ECDSA_P256: { ecdh: 'prime256v1', jwk: 'P-256' },
+  ECDSA_secp256k1: { ecdh: 'secp256k1', jwk: 'secp256k1' }
+}
+
+const HASHES: Record<HashAlgorithm, string> = {
+  SHA3_256: 'sha3-256',
+  SHA2_256: 'sha256'
+}
+
+const withPrefix = (address: string) => `0x${address.replace(/^0x/, '')}`
+const sansPrefix = (address: string) => address.replace(/^0x/, '')
+
+export class ServiceAccountSigner {
+  private key: KeyObject
+  readonly address: string
+  readonly keyIndex: number
+  readonly hashAlgorithm: HashAlgorithm
+
+  constructor(config: ServiceAccountConfig) {
+    if (!/^(0x)?[0-9a-fA-F]{16}$/.test(config.address)) {
+      throw new ServiceAccountSignerError(`Invalid service account address: ${config.address}`)
+    }
+    const privateKey = config.privateKey.replace(/^0x/, '')
+    if (!/^[0-9a-fA-F]{64}$/.test(privateKey)) {
+      throw new ServiceAccountSignerError('Service account private key must be 32 bytes of hex')
+    }
+    const curve = CURVES[config.signatureAlgorithm]
+    if (!curve || !HASHES[config.hashAlgorithm]) {
+      throw new ServiceAccountSignerError(
+        `Unsupported key algorithms: ${config.signatureAlgorithm}/${config.hashAlgorithm}`
+      )
+    }
+
+    this.address = withPrefix(config.address)
+    this.keyIndex = config.keyIndex
+    this.hashAlgorithm = config.hashAlgorithm
+    this.key = this.createKey(privateKey, curve)
+  }
+
+  /**
+   * Sign a hex-encoded message (FCL's signable.message) and return the raw
+   * r||s signature as hex
+   */
+  signMessage(message: string): string {
+    return sign(HASHES[this.hashAlgorithm], Buffer.from(message, 'hex'), {
+      key: this.key,
+      dsaEncoding: 'ieee-p1363'
+    }).toString('hex')
+  }
+
+  /**
+   * FCL authorization function for this account's key (FCL's account objects
+   * are untyped at this boundary)
+   */
+  authorization = async (account: any = {}): Promise<any> => ({
+    ...account,
+    tempId: `${sansPrefix(this.address)}-${this.keyIndex}`,
+    addr: sansPrefix(this.address),
+    keyId: this.keyIndex,
+    signingFunction: async (signable: { message: string }) => ({
+      addr: this.address,
+      keyId: this.keyIndex,
+      signature: this.signMessage(signable.message)
+    })
+  })
+
+  private createKey(privateKey: string, curve: { ecdh: string; jwk: string }): KeyObject {
+    const ecdh = createECDH(curve.ecdh)
+    ecdh.setPrivateKey(Buffer.from(privateKey, 'hex'))
+    const publicKey = ecdh.getPublicKey()  // 0x04 || x || y
+
+    return createPrivateKey({
+      format: 'jwk',
+      key: {
+        kty: 'EC',
+        crv: curve.jwk,
+        d: Buffer.from(privateKey, 'hex').toString('base64url'),
+        x: publicKey.subarray(1, 33).toString('base64url'),
+        y: publicKey.subarray(33).toString('base64url')
+      }
+    })
+  }
+}
+
+/**
+ * Read the service account from FLOW_SERVICE_ACCOUNT_ADDRESS,
+ * FLOW_SERVICE_ACCOUNT_PRIVATE_KEY and the optional _KEY_INDEX,
+ * _SIGNATURE_ALGORITHM and _HASH_ALGORITHM variables
+ */
+export function getServiceAccountConfigFromEnv(
+  env: Record<string, string | undefined> = process.env
+): ServiceAccountConfig | null {
+  const address = env.FLOW_SERVICE_ACCOUNT_ADDRESS
+  const privateKey = env.FLOW_SERVICE_ACCOUNT_PRIVATE_KEY
+  if (!address || !privateKey) {
+    return null
+  }
+
+  return {
+    address,
+    privateKey,
+    keyIndex: parseInt(env.FLOW_SERVICE_ACCOUNT_KEY_INDEX || '0'),
+    signatureAlgorithm: (env.FLOW_SERVICE_ACCOUNT_SIGNATURE_ALGORITHM as SignatureAlgorithm) || 'ECDSA_P256',
+    hashAlgorithm: (env.FLOW_SERVICE_ACCOUNT_HASH_ALGORITHM as HashAlgorithm) || 'SHA3_256'
+  }
+}
@@ -7,6 +7,7 @@
  * - Transaction status tracking and monitoring
  * - Transaction sequencing and dependency management
  * - Comprehensive error handling and retry logic
+ * - Server-side signing with a service account when no wallet is connected
  */
 
 import * as fcl from "@onflow/fcl"
@@ -22,6 +23,7 @@ import type {
 } from "./types"
 import { EnhancedCadenceGenerator, ProductionCadenceGenerationOptions } from "./enhanced-cadence-generator"
 import { logger } from "./logging-service"
+import type { ServiceAccountSigner } from "./service-account-signer"
 
 export interface Transaction {
   id: string
@@ -86,6 +88,19 @@ export interface TransactionBuilder {
   estimateGas(transaction: Transaction): Promise<GasEstimate>
 }
 
+export interface TransactionManagerOptions {
+  signer?: ServiceAccountSigner          // signs as proposer, payer and authorizer instead of the wallet
+  contracts?: Record<string, string>     // addresses for `import "Name"` statements, by contract name
+  sealTimeout?: number                   // ms to wait for a submitted transaction to seal (default 60000)
+  pollInterval?: number                  // ms between status checks (default 2000)
+  retryDelay?: number                    // base ms between submission attempts (default 2000)
+}
+
+export interface TransactionExecutionOptions {
+  // Called once Flow accepted the transaction, before waiting for it to seal
+  onSubmitted?: (flowTransactionId: string) => Promise<void> | void
+}
+
 export interface TransactionBuildOptions {
   gasLimit?: number
   proposer?: string
@@ -138,10 +153,19 @@ export class FlowTransactionManager {
   private pendingTransactions: Map<string, Promise<TransactionResult>> = new Map()
   private retryAttempts: Map<string, number> = new Map()
   private maxRetries: number = 3
-  private retryDelay: number = 2000
+  private retryDelay: number
+  private sealTimeout: number
+  private pollInterval: number
+  private signer: ServiceAccountSigner | null
+  private contracts: Record<string, string>
 
-  constructor(networkConfig: FlowNetworkConfig) {
+  constructor(networkConfig: FlowNetworkConfig, options: TransactionManagerOptions = {}) {
     this.networkConfig = networkConfig
+    this.signer = options.signer || null
+    this.contracts = options.contracts || {}
+    this.retryDelay = options.retryDelay ?? 2000
+    this.sealTimeout = options.sealTimeout ?? 60000
+    this.pollInterval = options.pollInterval ?? 2000
     this.initializeFCL()
   }
 
@@ -154,7 +178,10 @@ export class FlowTransactionManager {
       'discovery.wallet': this.networkConfig.walletDiscovery,
       'app.detail.title': 'ActionLoom',
       'app.detail.icon': '/logo.png',
-      'flow.network': this.networkConfig.name
+      'flow.network': this.networkConfig.name,
+      ...Object.fromEntries(
+        Object.entries(this.contracts).map(([name, address]) => [`system.contracts.${name}`, address])
+      )
     })
   }
 
@@ -201,20 +228,17 @@ export class FlowTransactionManager {
       // Build transaction arguments
       const args = await this.buildTransactionArguments(workflow)
 
-      // Get current user for transaction roles
-      const currentUser = await fcl.currentUser.snapshot()
-      if (!currentUser.addr) {
-        throw new Error('No authenticated user found')
-      }
+      // Get the signing account for transaction roles
+      const signerAddress = await this.getSignerAddress()
 
       const transaction: Transaction = {
         id: this.generateTransactionId(),
         cadenceCode: generationResult.code,
         arguments: args,
         gasLimit: options.gasLimit || generationResult.validationResult.gasEstimate || 1000,
-        proposer: options.proposer || currentUser.addr,
-        authorizers: options.authorizers || [currentUser.addr],
-        payer: options.payer || currentUser.addr,
+        proposer: options.proposer || signerAddress,
+        authorizers: options.authorizers || [signerAddress],
+        payer: options.payer || signerAddress,
         metadata: {
           workflowId: workflow.metadata?.name,
           actionCount: workflow.actions.length,
@@ -249,10 +273,44 @@ export class FlowTransactionManager {
     }
   }
 
+  /**
+   * Wrap already generated Cadence in a transaction signed by the configured
+   * signer (or the current wallet user)
+   */
+  async createTransaction(
+    cadenceCode: string,
+    options: TransactionBuildOptions & { workflowId?: string; actionCount?: number } = {}
+  ): Promise<Transaction> {
+    const signerAddress = await this.getSignerAddress()
+    const gasLimit = options.gasLimit || 1000
+
+    return {
+      id: this.generateTransactionId(),
+      cadenceCode,
+      arguments: [],
+      gasLimit,
+      proposer: options.proposer || signerAddress,
+      authorizers: options.authorizers || [signerAddress],
+      payer: options.payer || signerAddress,
+      metadata: {
+        workflowId: options.workflowId,
+        actionCount: options.actionCount || 0,
+        estimatedGas: gasLimit,
+        securityLevel: 'medium',
+        createdAt: new Date().toISOString(),
+        network: options.network || this.networkConfig.name
+      }
+    }
+  }
+
   /**
    * Execute a single transaction
+   *
+   * Only the submission is retried. Once Flow has accepted the transaction it
+   * is never sent again: if it does not seal in time, the result is PENDING
+   * with its Flow transaction ID so the caller can look it up later.
    */
-  async executeTransaction(transaction: Transaction): Promise<TransactionResult> {
+  async executeTransaction(transaction: Transaction, options: TransactionExecutionOptions = {}): Promise<TransactionResult> {
     const correlationId = logger.generateCorrelationId()
     const startTime = Date.now()
 
@@ -276,7 +334,7 @@ export class FlowTransactionManager {
       return this.pendingTransactions.get(transaction.id)!
     }
 
-    const executionPromise = this.executeTransactionInternal(transaction, correlationId, startTime)
+    const executionPromise = this.executeTransactionInternal(transaction, correlationId, startTime, options)
     this.pendingTransactions.set(transaction.id, executionPromise)
 
     try {
@@ -289,77 +347,136 @@ export class FlowTransactionManager {
   }
 
   /**
-   * Internal transaction execution with retry logic
+   * Internal transaction execution: submit with retries, then wait for the seal
    */
   private async executeTransactionInternal(
     transaction: Transaction,
     correlationId: string,
-    startTime: number
+    startTime: number,
+    options: TransactionExecutionOptions
   ): Promise<TransactionResult> {
+    let flowTransactionId: string
+    try {
+      flowTransactionId = await this.submitTransaction(transaction, correlationId)
+    } catch (error) {
+      return {
+        transactionId: transaction.id,
+        status: TransactionStatus.FAILED,
+        events: [],
+        gasUsed: 0,
+        error: (error as Error).message || 'Unknown error',
+        blockHeight: 0,
+        timestamp: new Date(),
+        executionTime: Date.now() - startTime,
+        metadata: transaction.metadata
+      }
+    }
+
+    try {
+      await options.onSubmitted?.(flowTransactionId)
+    } catch (error) {
+      logger.warn('Failed to record submitted transaction', {
+        correlationId,
+        component: 'transaction-manager',
+        operation: 'execute-transaction-internal',
+        metadata: { transactionId: transaction.id, flowTransactionId, error: (error as Error).message }
+      })
+    }
+
+    let result: TransactionResult
+    try {
+      result = await this.monitorTransaction(flowTransactionId, correlationId)
+    } catch (error) {
+      // The transaction may still seal; sending it again could run it twice
+      logger.warn('Submitted transaction did not seal in time', {
+        correlationId,
+        component: 'transaction-manager',
+        operation: 'execute-transaction-internal',
+        metadata: { transactionId: transaction.id, flowTransactionId, error: (error as Error).message }
+      })
+
+      return {
+        transactionId: flowTransactionId,
+        status: TransactionStatus.PENDING,
+        events: [],
+        gasUsed: 0,
+        error: `Transaction ${flowTransactionId} was submitted but not sealed within ${this.sealTimeout}ms; check its status before sending it again`,
+        blockHeight: 0,
+        timestamp: new Date(),
+        executionTime: Date.now() - startTime,
+        metadata: transaction.metadata
+      }
+    }
+
+    const finalResult: TransactionResult = {
+      ...result,
+      executionTime: Date.now() - startTime,
+      metadata: transaction.metadata
+    }
+
+    logger.info('Transaction execution completed', {
+      correlationId,
+      component: 'transaction-manager',
+      operation: 'execute-transaction-internal',
+      metadata: {
+        transactionId: transaction.id,
+        flowTransactionId,
+        status: finalResult.status,
+        gasUsed: finalResult.gasUsed,
+        executionTime: finalResult.executionTime
+      }
+    })
+
+    return finalResult
+  }
+
+  /**
+   * Submit a transaction to Flow, retrying failed submissions. Returns the
+   * Flow transaction ID.
+   */
+  private async submitTransaction(transaction: Transaction, correlationId: string): Promise<string> {
     const maxRetries = this.maxRetries
     let lastError: Error | null = null
 
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
       try {
-        logger.info(`Transaction execution attempt ${attempt}/${maxRetries}`, {
+        logger.info(`Transaction submission attempt ${attempt}/${maxRetries}`, {
           correlationId,
           component: 'transaction-manager',
-          operation: 'execute-transaction-internal',
+          operation: 'submit-transaction',
           metadata: { transactionId: transaction.id, attempt }
         })
 
-        // Submit transaction to Flow
-        const transactionId = await fcl.mutate({
+        const authorization: typeof fcl.authz = this.signer ? this.signer.authorization : fcl.authz
+        const flowTransactionId = await fcl.mutate({
           cadence: transaction.cadenceCode,
           args: (arg: any, t: any) => transaction.arguments.map(a => arg(a.value, a.type)),
-          proposer: fcl.authz,
-          authorizations: [fcl.authz],
-          payer: fcl.authz,
+          proposer: authorization,
+          authorizations: [authorization],
+          payer: authorization,
           limit: transaction.gasLimit
         })
 
         logger.info('Transaction submitted to Flow', {
           correlationId,
           component: 'transaction-manager',
-          operation: 'execute-transaction-internal',
-          metadata: { 
-            transactionId: transaction.id,
-            flowTransactionId: transactionId,
-            attempt
-          }
-        })
-
-        // Monitor transaction status
-        const result = await this.monitorTransaction(transactionId, correlationId)
-        
-        const finalResult: TransactionResult = {
-          ...result,
-          executionTime: Date.now() - startTime,
-          metadata: transaction.metadata
-        }
-
-        logger.info('Transaction execution completed', {
-          correlationId,
-          component: 'transaction-manager',
-          operation: 'execute-transaction-internal',
+          operation: 'submit-transaction',
           metadata: {
             transactionId: transaction.id,
-            flowTransactionId: transactionId,
-            status: finalResult.status,
-            gasUsed: finalResult.gasUsed,
-            executionTime: finalResult.executionTime
+            flowTransactionId,
+            attempt
           }
         })
 
-        return finalResult
+        return flowTransactionId
 
       } catch (error) {
         lastError = error as Error
-        
-        logger.warn(`Transaction execution attempt ${attempt} failed`, {
+
+        logger.warn(`Transaction submission attempt ${attempt} failed`, {
           correlationId,
           component: 'transaction-manager',
-          operation: 'execute-transaction-internal',
+          operation: 'submit-transaction',
           metadata: {
             transactionId: transaction.id,
             attempt,
@@ -375,28 +492,17 @@ export class FlowTransactionManager {
     }
 
     // All retries failed
-    logger.error('Transaction execution failed after all retries', lastError!, {
+    logger.error('Transaction submission failed after all retries', lastError!, {
       correlationId,
       component: 'transaction-manager',
-      operation: 'execute-transaction-internal',
+      operation: 'submit-transaction',
       metadata: {
         transactionId: transaction.id,
-        maxRetries,
-        totalTime: Date.now() - startTime
+        maxRetries
       }
     })
 
-    return {
-      transactionId: transaction.id,
-      status: TransactionStatus.FAILED,
-      events: [],
-      gasUsed: 0,
-      error: lastError?.message || 'Unknown error',
-      blockHeight: 0,
-      timestamp: new Date(),
-      executionTime: Date.now() - startTime,
-      metadata: transaction.metadata
-    }
+    throw lastError || new Error('Unknown error')
   }
 
   /**
@@ -406,8 +512,8 @@ export class FlowTransactionManager {
     transactionId: string,
     correlationId: string
   ): Promise<TransactionResult> {
-    const maxWaitTime = 60000 // 60 seconds
-    const pollInterval = 2000 // 2 seconds
+    const maxWaitTime = this.sealTimeout
+    const pollInterval = this.pollInterval
     const startTime = Date.now()
 
     while (Date.now() - startTime < maxWaitTime) {
@@ -433,6 +539,8 @@ export class FlowTransactionManager {
             transactionId,
             status: this.mapFlowStatus(tx.status),
             events,
+            // Reverted transactions are sealed too; the error message tells them apart
+            error: tx.errorMessage || undefined,
             gasUsed: tx.gasUsed || 0,
             blockHeight: tx.blockId ? parseInt(tx.blockId, 16) : 0,
             timestamp: new Date(),
@@ -541,6 +649,10 @@ export class FlowTransactionManager {
             errors.push(`Transaction ${transactionId} failed: ${result.error}`)
             break // Stop sequence on failure
           }
+          if (result.status === TransactionStatus.PENDING) {
+            errors.push(`Transaction ${transactionId} is unconfirmed: ${result.error}`)
+            break // Later transactions may depend on its outcome
+          }
 
         } catch (error) {
           const errorMessage = `Transaction ${transactionId} execution failed: ${(error as Error).message}`
@@ -701,6 +813,18 @@ export class FlowTransactionManager {
   }
 
   // Helper methods
+  private async getSignerAddress(): Promise<string> {
+    if (this.signer) {
+      return this.signer.address
+    }
+
+    const currentUser = await fcl.currentUser.snapshot()
+    if (!currentUser.addr) {
+      throw new Error('No authenticated user found')
+    }
+    return currentUser.addr
+  }
+
   private generateTransactionId(): string {
     return `tx_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
   }
@@ -0,0 +1,94 @@
+import type { TriggerCondition } from './types'
+
+/**
+ * Trigger Conditions
+ *
+ * Threshold checks for value-based agent triggers, shared by the live
+ * scheduler and backtests so both fire on exactly the same readings:
+ * - gt/gte/lt/lte comparisons and eq within a tolerance
+ * - Edge triggering: a trigger fires once when its condition starts to hold
+ *   and re-arms only after the value moves back past the threshold by the
+ *   hysteresis margin
+ * - Debounce: the condition must hold for a period before the trigger fires
+ */
+
+export interface TriggerEdgeState {
+  conditionMet: boolean // Fired and not yet re-armed
+  pendingSince: string | null // When the condition started holding, while debouncing
+}
+
+export function isConditionMet(condition: TriggerCondition, value: any): boolean {
+  const { operator, value: targetValue, tolerance = 0 } = condition
+
+  switch (operator) {
+    case 'gt':
+      return value > targetValue
+    case 'gte':
+      return value >= targetValue
+    case 'lt':
+      return value < targetValue
+    case 'lte':
+      return value <= targetValue
+    case 'eq':
+      // Use tolerance for floating point comparisons
+      return Math.abs(value - targetValue) <= tolerance
+    default:
+      console.warn(`Unknown condition operator: ${operator}`)
+      return false
+  }
+}
+
+/**
+ * Whether the value has moved far enough from the threshold to re-arm a
+ * fired trigger
+ */
+export function isConditionReleased(condition: TriggerCondition, value: any): boolean {
+  const { operator, value: targetValue, tolerance = 0, hysteresis = 0 } = condition
+
+  switch (operator) {
+    case 'gt':
+      return value <= targetValue - hysteresis
+    case 'gte':
+      return value < targetValue - hysteresis
+    case 'lt':
+      return value >= targetValue + hysteresis
+    case 'lte':
+      return value > targetValue + hysteresis
+    case 'eq':
+      return Math.abs(value - targetValue) > tolerance + hysteresis
+    default:
+      return true
+  }
+}
+
+/**
+ * Feed one value observed at `now` into a trigger's state. Returns true when
+ * the trigger fires; the state is updated in place.
+ */
+export function advanceTriggerState(
+  state: TriggerEdgeState,
+  condition: TriggerCondition,
+  value: any,
+  now: Date
+): boolean {
+  if (state.conditionMet) {
+    // Already fired; re-arm once the value is clearly back
+    if (isConditionReleased(condition, value)) {
+      state.conditionMet = false
+    }
+    return false
+  }
+
+  if (!isConditionMet(condition, value)) {
+    state.pendingSince = null
+    return false
+  }
+
+  state.pendingSince = state.pendingSince || now.toISOString()
+  const heldFor = now.getTime() - new Date(state.pendingSince).getTime()
+  if (heldFor < (condition.debounce ?? 0)) return false
+
+  state.conditionMet = true
+  state.pendingSince = null
+  return true
+}
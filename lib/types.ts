@@ -196,6 +196,39 @@ export interface ParsedAction {
   parameters: ActionParameter[]
   nextActions: string[]
   position: { x: number; y: number }
+  condition?: ConditionPredicate  // Only set on control-flow condition nodes
+  branches?: ConditionalBranches
+  loop?: LoopConfiguration  // Only set on control-flow for-each nodes
+  loopBody?: string[]
+}
+
+// Control flow types
+export type ConditionOperator = 'gt' | 'gte' | 'lt' | 'lte' | 'eq' | 'neq'
+
+/**
+ * Predicate evaluated by a condition node. Operands are either upstream output
+ * references (`actionId.outputName`) or literal values
+ */
+export interface ConditionPredicate {
+  left: string
+  operator: ConditionOperator
+  right: string
+  type?: string  // Cadence type the operands are compared as, defaults to UFix64
+}
+
+export interface ConditionalBranches {
+  true: string[]
+  false: string[]
+}
+
+/**
+ * Collection a for-each node iterates over. `items` is an upstream Array
+ * output reference (`actionId.outputName`), a literal list, or an iteration count
+ */
+export interface LoopConfiguration {
+  items: string
+  maxIterations?: number  // Required when the item count is only known at runtime
+  itemType?: string  // Cadence element type, e.g. Address
 }
 
 export interface ActionParameter {
@@ -205,6 +238,7 @@ export interface ActionParameter {
   required: boolean
   description?: string
   options?: string[]  // For dropdown/select parameters
+  expression?: string  // Cadence expression bound from an upstream output; takes precedence over value in generated code
 }
 
 // Configuration status types
@@ -291,10 +325,25 @@ export interface ExecutionResult {
   transactionId?: string
   status?: string
   cadenceCode?: string
+  arguments?: ExecutionArgument[]
   executionTime?: number
   gasUsed?: number
+  blockHeight?: number
+  events?: Array<{ type: string; data: any }>
   error?: string
   details?: string[]
+  approvalId?: string // Set while the transaction waits for approval
+}
+
+/**
+ * A parameter value an execution ran with, after trigger overrides
+ */
+export interface ExecutionArgument {
+  actionId: string
+  name: string
+  type: string
+  value: any
+  expression?: string // Bound from an upstream output; used instead of value
 }
 
 // Re-export Forte integration for convenience
@@ -312,6 +361,9 @@ export interface Agent {
   createdAt: string
   updatedAt: string
   owner: string
+  notifications?: NotificationConfig
+  policy?: AgentPolicy
+  statusReason?: string // Why the agent was paused or stopped, when not by its owner
 }
 
 export interface AgentConfiguration {
@@ -320,28 +372,123 @@ export interface AgentConfiguration {
   retryPolicy: RetryPolicy
   notifications: NotificationConfig
   permissions: Permission[]
+  policy?: AgentPolicy
+}
+
+/**
+ * Guardrails checked before every agent run. A run that would break one is
+ * not submitted, and the agent is paused. Amounts are in token units and
+ * the amount caps are also enforced on-chain as transaction post-conditions.
+ */
+export interface AgentPolicy {
+  maxAmountPerRun?: number // Applied to each token's total
+  maxAmountPerDay?: number // Applied to each token's total, rolling 24 hours
+  tokenLimits?: Record<string, TokenSpendingLimit> // Keyed by token symbol, e.g. FLOW
+  allowedRecipients?: string[] // Any recipient when omitted
+  allowedActionTypes?: string[] // Any action type when omitted
+  maxGasPerExecution?: number // Also used as the transaction's gas limit
+}
+
+export interface TokenSpendingLimit {
+  perRun?: number
+  perDay?: number
+  vaultPath?: string // Signer's vault for the on-chain check, e.g. /storage/flowTokenVault
 }
 
 export interface Schedule {
   type: 'recurring' | 'event-driven' | 'one-time'
   interval?: number // seconds for recurring
-  cronExpression?: string
+  cronExpression?: string // 5 fields, or 6 with leading seconds
+  timezone?: string // IANA zone the cron expression runs in; defaults to the server's
+  misfirePolicy?: MisfirePolicy // runs missed while the server was down; defaults to 'fire-once'
   eventTriggers?: EventTrigger[]
   startTime?: Date
   endTime?: Date
 }
 
+/**
+ * What to do with scheduled runs that were missed: run them all in order
+ * (up to the scheduler's catch-up limit), run once to catch up, or skip to
+ * the next future run
+ */
+export type MisfirePolicy = 'fire-all' | 'fire-once' | 'skip'
+
 export interface EventTrigger {
-  type: 'price' | 'time' | 'balance' | 'custom'
-  condition: TriggerCondition
+  type: 'price' | 'time' | 'balance' | 'custom' | 'flow-event'
+  condition?: TriggerCondition // Required except for flow-event triggers, which use flowEvent.filters
   oracleAction?: string // Action ID for oracle data
+  oracle?: OracleSourceConfig // Where price, balance and custom triggers read their value
   parameters: Record<string, any>
+  flowEvent?: FlowEventTriggerConfig // Required for flow-event triggers
+}
+
+/**
+ * Oracle feeding a price, balance or custom trigger. Readings are polled,
+ * cached for cacheTtl and rejected once older than maxAge.
+ */
+export type OracleSourceConfig =
+  | CadenceScriptOracleConfig
+  | HttpJsonOracleConfig
+  | FixtureOracleConfig
+
+interface OracleSourceBase {
+  pollInterval?: number // ms between readings, default 30000
+  cacheTtl?: number // ms a reading is reused across triggers, default 5000
+  maxAge?: number // seconds before a reading counts as stale, default 300
+}
+
+/**
+ * On-chain oracle read with a Cadence script on the agent network
+ */
+export interface CadenceScriptOracleConfig extends OracleSourceBase {
+  type: 'cadence-script'
+  script: string
+  arguments?: Array<{ type: string; value: any }> // JSON-Cadence values
+  valuePath?: string // Path into the script result, e.g. "price"; the whole result when omitted
+  timestampPath?: string // Path to the reading's unix timestamp in the result
+}
+
+export interface HttpJsonOracleConfig extends OracleSourceBase {
+  type: 'http-json'
+  url: string
+  valuePath: string // e.g. "flow.usd"
+  timestampPath?: string // Path to an ISO or unix timestamp in the response
+  headers?: Record<string, string>
+}
+
+/**
+ * Recorded readings, replayed in order, for tests and dry runs
+ */
+export interface FixtureOracleConfig extends OracleSourceBase {
+  type: 'fixture'
+  file?: string // JSON array of readings, or { readings: [...] }
+  readings?: Array<number | { value: number; timestamp?: string }>
+}
+
+/**
+ * On-chain Flow event that fires an agent. Sealed blocks are scanned from a
+ * persisted block-height checkpoint, so no event is missed across restarts.
+ */
+export interface FlowEventTriggerConfig {
+  eventType: string // e.g. A.1654653399040a61.FlowToken.TokensDeposited
+  filters?: FlowEventFilter[] // All must match
+  // "<actionId>.<parameterName>" -> path into the event, e.g. "data.amount" or "transactionId"
+  parameterBindings?: Record<string, string>
+  startHeight?: number // First block to scan; defaults to the sealed height when first watched
+}
+
+export interface FlowEventFilter {
+  field: string // Path into the event payload, e.g. "to" or "nft.id"
+  operator: 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'contains'
+  value: any
 }
 
 export interface TriggerCondition {
   operator: 'gt' | 'lt' | 'eq' | 'gte' | 'lte'
   value: any
   tolerance?: number
+  debounce?: number // ms the condition must hold before the trigger fires
+  hysteresis?: number // How far the value must move back past the threshold before the trigger can fire again
 }
 
 export interface RetryPolicy {
@@ -359,6 +506,21 @@ export interface NotificationConfig {
   webhook?: string
   discord?: string
   slack?: string
+  webhookSecret?: string  // HMAC key for the webhook signature; defaults to AGENT_WEBHOOK_SECRET
+  templates?: NotificationTemplates
+}
+
+/**
+ * Per-agent message templates. Placeholders: {{agentName}}, {{agentId}},
+ * {{event}}, {{outcome}}, {{timestamp}}, {{executionId}}, {{transactionId}},
+ * {{gasUsed}}, {{error}}, {{retryCount}} and {{approvalId}}.
+ */
+export interface NotificationTemplates {
+  subject?: string
+  success?: string
+  failure?: string
+  paused?: string
+  approval?: string
 }
 
 export interface Permission {
@@ -387,6 +549,8 @@ export interface ValidationError {
   message: string
   actionId?: string
   field?: string
+  line?: number    // 1-based position in generated Cadence code
+  column?: number
   severity: 'error' | 'warning'
 }
 
@@ -486,6 +650,9 @@ export interface NLPResult {
   ambiguities: Ambiguity[]
   suggestions: string[]
   processingTime: number
+  parser?: 'llm' | 'heuristic' // Which pipeline produced the steps
+  language?: string // Detected language of the input, e.g. 'es'
+  intent?: WorkflowIntent // Classified intent, when the heuristic parser ran
 }
 
 export interface ParsedStep {
@@ -506,6 +673,8 @@ export interface ParsedStep {
     }>
     fallbackReason?: string
     error?: string
+    parser?: 'llm' | 'heuristic'
+    provider?: string // LLM provider ID
   }
 }
 
@@ -522,6 +691,8 @@ export interface Ambiguity {
   message: string
   suggestions: string[]
   position?: [number, number]
+  step?: number // Index of the step the ambiguity is about
+  parameters?: string[] // Parameters of that step needing a value
 }
 
 export interface IntentClassification {
@@ -566,7 +737,7 @@ export interface TextPreprocessingResult {
   metadata: {
     wordCount: number
     characterCount: number
-    language?: string
+    language?: string // Detected language; the cleaned text is its canonical English form
   }
 }
 
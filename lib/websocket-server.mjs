@@ -1,11 +1,14 @@
 import { WebSocketServer } from 'ws'
+import { createCollaborationHub } from './collaboration-hub.mjs'
 
 // Create WebSocket server
 const wss = new WebSocketServer({ 
   port: 8080
 })
 
-console.log('NLP WebSocket server started on ws://localhost:8080')
+const collaboration = createCollaborationHub()
+
+console.log('NLP and collaboration WebSocket server started on ws://localhost:8080')
 
 wss.on('connection', (ws, request) => {
   console.log('New WebSocket connection established')
@@ -20,6 +23,8 @@ wss.on('connection', (ws, request) => {
         await handleValidateInput(ws, message.payload)
       } else if (message.type === 'get_suggestions') {
         await handleGetSuggestions(ws, message.payload)
+      } else if (message.type?.startsWith('collab_')) {
+        collaboration.handleMessage(ws, message)
       }
     } catch (error) {
       ws.send(JSON.stringify({
@@ -33,6 +38,7 @@ wss.on('connection', (ws, request) => {
   })
 
   ws.on('close', () => {
+    collaboration.disconnect(ws)
     console.log('WebSocket connection closed')
   })
 
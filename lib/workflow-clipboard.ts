@@ -0,0 +1,149 @@
+import type { Node, Edge } from "@xyflow/react"
+import type { EditorState } from './workflow-history'
+
+/**
+ * Workflow Clipboard
+ *
+ * Copy and paste of node groups between workflows:
+ * - Copies the selected nodes, the edges between them and their parameter values
+ * - Serializes to plain JSON so the system clipboard carries groups across
+ *   workflows and browser tabs
+ * - Pastes with fresh node IDs, rewriting references between copied nodes
+ *   (`nodeId.output`, `loopId.item`) in parameters, conditions and loops
+ */
+
+export const CLIPBOARD_FORMAT = 'actionloom/nodes'
+const CLIPBOARD_VERSION = 1
+const PASTE_OFFSET = { x: 40, y: 40 }
+
+export interface WorkflowClipboard {
+  format: typeof CLIPBOARD_FORMAT
+  version: number
+  nodes: Node[]
+  edges: Edge[]
+  parameterValues: Record<string, Record<string, any>>
+}
+
+export interface PastedNodes {
+  nodes: Node[]
+  edges: Edge[]
+  parameterValues: Record<string, Record<string, any>>
+}
+
+/**
+ * Copy nodes with the edges among them and their parameter values.
+ * Returns null when none of the IDs are in the workflow.
+ */
+export function copyNodes(state: EditorState, nodeIds: string[]): WorkflowClipboard | null {
+  const selected = new Set(nodeIds)
+  const nodes = state.workflow.nodes.filter(node => selected.has(node.id))
+  if (nodes.length === 0) return null
+
+  // Round-tripping through JSON drops the canvas callbacks attached to node data
+  return JSON.parse(JSON.stringify({
+    format: CLIPBOARD_FORMAT,
+    version: CLIPBOARD_VERSION,
+    nodes: nodes.map(({ id, type, position, data }) => ({ id, type, position, data })),
+    edges: state.workflow.edges.filter(edge => selected.has(edge.source) && selected.has(edge.target)),
+    parameterValues: Object.fromEntries(
+      nodes.filter(node => state.parameterValues[node.id]).map(node => [node.id, state.parameterValues[node.id]])
+    )
+  }))
+}
+
+export function serializeClipboard(clipboard: WorkflowClipboard): string {
+  return JSON.stringify(clipboard)
+}
+
+/**
+ * Read clipboard text, returning null when it is not a copied node group
+ */
+export function parseClipboard(text: string): WorkflowClipboard | null {
+  try {
+    const data = JSON.parse(text)
+    if (
+      data?.format !== CLIPBOARD_FORMAT ||
+      data.version !== CLIPBOARD_VERSION ||
+      !Array.isArray(data.nodes) ||
+      !Array.isArray(data.edges)
+    ) {
+      return null
+    }
+    return { ...data, parameterValues: data.parameterValues || {} }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Prepare a clipboard for insertion into `state`: new IDs, remapped references,
+ * and positions offset so the copies do not cover the originals
+ */
+export function pasteNodes(
+  clipboard: WorkflowClipboard,
+  state: EditorState,
+  now: number = Date.now()
+): PastedNodes {
+  const existingIds = new Set(state.workflow.nodes.map(node => node.id))
+  const idMap = new Map<string, string>()
+
+  clipboard.nodes.forEach((node, index) => {
+    const actionId = (node.data as any)?.actionId || node.type || 'node'
+    let newId = `${actionId}-${now}-${index}`
+    while (existingIds.has(newId)) {
+      newId = `${newId}-copy`
+    }
+    existingIds.add(newId)
+    idMap.set(node.id, newId)
+  })
+
+  const remap = (value: any): any => {
+    if (typeof value !== 'string') return value
+    const dot = value.indexOf('.')
+    if (dot <= 0) return value
+    const newId = idMap.get(value.slice(0, dot))
+    return newId ? `${newId}${value.slice(dot)}` : value
+  }
+
+  const nodes: Node[] = clipboard.nodes.map(node => {
+    const data: Record<string, any> = { ...node.data }
+    if (data.condition) {
+      data.condition = { ...data.condition, left: remap(data.condition.left), right: remap(data.condition.right) }
+    }
+    if (data.loop) {
+      data.loop = { ...data.loop, items: remap(data.loop.items) }
+    }
+
+    return {
+      ...node,
+      id: idMap.get(node.id)!,
+      position: { x: node.position.x + PASTE_OFFSET.x, y: node.position.y + PASTE_OFFSET.y },
+      data,
+      selected: false
+    }
+  })
+
+  const edges: Edge[] = clipboard.edges
+    .filter(edge => idMap.has(edge.source) && idMap.has(edge.target))
+    .map(edge => {
+      const source = idMap.get(edge.source)!
+      const target = idMap.get(edge.target)!
+      return {
+        ...edge,
+        id: edge.sourceHandle ? `${source}-${edge.sourceHandle}-${target}` : `${source}-${target}`,
+        source,
+        target
+      }
+    })
+
+  const parameterValues = Object.fromEntries(
+    Object.entries(clipboard.parameterValues)
+      .filter(([nodeId]) => idMap.has(nodeId))
+      .map(([nodeId, values]) => [
+        idMap.get(nodeId)!,
+        Object.fromEntries(Object.entries(values).map(([name, value]) => [name, remap(value)]))
+      ])
+  )
+
+  return { nodes, edges, parameterValues }
+}
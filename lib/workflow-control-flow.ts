@@ -0,0 +1,442 @@
+import type { ParsedWorkflow, ParsedAction, ConditionPredicate, ConditionOperator, LoopConfiguration } from './types'
+
+/**
+ * Workflow Control Flow
+ *
+ * Shared helpers for control-flow nodes on the canvas:
+ * - Identifies condition (if/else) and for-each nodes in parsed workflows
+ * - Builds a structured execution plan that nests branch-only actions
+ *   under their condition and loop bodies under their for-each node, so
+ *   generators can emit `if` / `else` blocks and bounded loops
+ * - Resolves loop bounds and per-action iteration multipliers
+ * - Renders condition predicates and loop collections as Cadence expressions
+ * - Names the Cadence variables that carry results, outputs and loop items
+ */
+
+/** Action type used by if/else condition nodes */
+export const CONDITION_ACTION_TYPE = 'condition'
+
+/** Action type used by for-each loop nodes */
+export const LOOP_ACTION_TYPE = 'for-each'
+
+/** Upper bound on iterations of a single for-each node */
+export const MAX_LOOP_ITERATIONS = 100
+
+export const CONDITION_OPERATORS: Record<ConditionOperator, { symbol: string; label: string; numeric: boolean }> = {
+  gt: { symbol: '>', label: 'greater than', numeric: true },
+  gte: { symbol: '>=', label: 'at least', numeric: true },
+  lt: { symbol: '<', label: 'less than', numeric: true },
+  lte: { symbol: '<=', label: 'at most', numeric: true },
+  eq: { symbol: '==', label: 'equal to', numeric: false },
+  neq: { symbol: '!=', label: 'not equal to', numeric: false }
+}
+
+export const DEFAULT_CONDITION_TYPE = 'UFix64'
+
+export const NUMERIC_CONDITION_TYPES = ['UFix64', 'Fix64', 'Int', 'UInt64', 'UInt8', 'UInt32', 'Int64']
+
+export type ExecutionStep =
+  | { type: 'action'; action: ParsedAction }
+  | { type: 'condition'; action: ParsedAction; whenTrue: ExecutionStep[]; whenFalse: ExecutionStep[] }
+  | { type: 'loop'; action: ParsedAction; body: ExecutionStep[] }
+
+export type LoopItems =
+  | { kind: 'reference'; actionId: string; outputName: string }
+  | { kind: 'list'; values: string[] }
+  | { kind: 'count'; count: number }
+
+export function isConditionAction(action: Pick<ParsedAction, 'actionType'>): boolean {
+  return action.actionType === CONDITION_ACTION_TYPE
+}
+
+export function isLoopAction(action: Pick<ParsedAction, 'actionType'>): boolean {
+  return action.actionType === LOOP_ACTION_TYPE
+}
+
+/**
+ * Whether an action only steers execution and has no registry metadata
+ */
+export function isControlFlowAction(action: Pick<ParsedAction, 'actionType'>): boolean {
+  return isConditionAction(action) || isLoopAction(action)
+}
+
+export function isConditionReference(value: string): boolean {
+  const parts = value.split('.')
+  return parts.length >= 2 && /^[a-zA-Z][a-zA-Z0-9_-]*$/.test(parts[0])
+}
+
+/**
+ * Upstream output references used by a condition predicate, keyed by operand
+ */
+export function getConditionReferences(
+  predicate: ConditionPredicate
+): Array<{ operand: 'left' | 'right'; actionId: string; outputName: string }> {
+  const references: Array<{ operand: 'left' | 'right'; actionId: string; outputName: string }> = []
+
+  for (const operand of ['left', 'right'] as const) {
+    const value = predicate[operand]
+    if (typeof value === 'string' && isConditionReference(value)) {
+      const [actionId, ...rest] = value.split('.')
+      references.push({ operand, actionId, outputName: rest.join('.') })
+    }
+  }
+
+  return references
+}
+
+/**
+ * Build the nested execution plan for a workflow.
+ *
+ * Actions reachable only from a condition's true (or false) branch are placed
+ * inside that branch; actions reachable from both branches run after the
+ * `if` block, where the branches merge again.
+ */
+export function buildExecutionPlan(workflow: ParsedWorkflow): ExecutionStep[] {
+  const actionsById = new Map(workflow.actions.map(action => [action.id, action]))
+  const placed = new Set<string>()
+
+  const reachableFrom = (heads: string[], scope: Set<string>): Set<string> => {
+    const reachable = new Set<string>()
+    const queue = heads.filter(id => scope.has(id))
+
+    while (queue.length > 0) {
+      const current = queue.shift()!
+      if (reachable.has(current)) continue
+      reachable.add(current)
+
+      for (const next of actionsById.get(current)?.nextActions || []) {
+        if (scope.has(next) && !reachable.has(next)) queue.push(next)
+      }
+    }
+
+    return reachable
+  }
+
+  const buildSteps = (scope: string[]): ExecutionStep[] => {
+    const steps: ExecutionStep[] = []
+    const scopeSet = new Set(scope)
+
+    for (const actionId of scope) {
+      if (placed.has(actionId)) continue
+      const action = actionsById.get(actionId)
+      if (!action) continue
+      placed.add(actionId)
+
+      if (isLoopAction(action)) {
+        // The body is whatever hangs off the body handle, minus anything the
+        // loop's own continuation also reaches
+        const bodyReach = reachableFrom(action.loopBody || [], scopeSet)
+        const afterHeads = action.nextActions.filter(id => !(action.loopBody || []).includes(id))
+        const afterReach = reachableFrom(afterHeads, scopeSet)
+        const bodyOnly = scope.filter(id => bodyReach.has(id) && !afterReach.has(id) && !placed.has(id))
+
+        steps.push({ type: 'loop', action, body: buildSteps(bodyOnly) })
+        continue
+      }
+
+      if (!isConditionAction(action)) {
+        steps.push({ type: 'action', action })
+        continue
+      }
+
+      const trueReach = reachableFrom(action.branches?.true || [], scopeSet)
+      const falseReach = reachableFrom(action.branches?.false || [], scopeSet)
+      const trueOnly = scope.filter(id => trueReach.has(id) && !falseReach.has(id) && !placed.has(id))
+      const falseOnly = scope.filter(id => falseReach.has(id) && !trueReach.has(id) && !placed.has(id))
+
+      steps.push({
+        type: 'condition',
+        action,
+        whenTrue: buildSteps(trueOnly),
+        whenFalse: buildSteps(falseOnly)
+      })
+    }
+
+    return steps
+  }
+
+  return buildSteps(workflow.executionOrder)
+}
+
+/**
+ * Visit every step of a plan depth-first, passing the for-each actions that enclose it
+ */
+export function walkExecutionPlan(
+  steps: ExecutionStep[],
+  visit: (step: ExecutionStep, enclosingLoops: ParsedAction[]) => void,
+  enclosingLoops: ParsedAction[] = []
+): void {
+  for (const step of steps) {
+    visit(step, enclosingLoops)
+    if (step.type === 'condition') {
+      walkExecutionPlan(step.whenTrue, visit, enclosingLoops)
+      walkExecutionPlan(step.whenFalse, visit, enclosingLoops)
+    } else if (step.type === 'loop') {
+      walkExecutionPlan(step.body, visit, [...enclosingLoops, step.action])
+    }
+  }
+}
+
+/**
+ * Interpret a loop's `items` setting
+ */
+export function parseLoopItems(loop?: LoopConfiguration): LoopItems | null {
+  const items = String(loop?.items ?? '').trim()
+  if (!items) return null
+
+  if (/^\d+$/.test(items)) {
+    return { kind: 'count', count: parseInt(items, 10) }
+  }
+
+  if (items.startsWith('[')) {
+    try {
+      const values = JSON.parse(items)
+      if (Array.isArray(values)) {
+        return { kind: 'list', values: values.map(value => String(value)) }
+      }
+    } catch {
+      return null
+    }
+    return null
+  }
+
+  if (isConditionReference(items) && !items.includes(',')) {
+    const [actionId, ...rest] = items.split('.')
+    return { kind: 'reference', actionId, outputName: rest.join('.') }
+  }
+
+  return { kind: 'list', values: items.split(',').map(value => value.trim()).filter(Boolean) }
+}
+
+/**
+ * Upper bound on a loop's iterations, or undefined when the loop is unbounded
+ * (a runtime collection without `maxIterations`). Literal lists and counts
+ * are bounded by their size.
+ */
+export function getLoopIterationBound(action: ParsedAction): number | undefined {
+  const items = parseLoopItems(action.loop)
+  if (!items) return undefined
+
+  if (items.kind === 'reference') {
+    const maxIterations = action.loop?.maxIterations
+    const hasMax = typeof maxIterations === 'number' && Number.isInteger(maxIterations) && maxIterations > 0
+    return hasMax ? maxIterations : undefined
+  }
+
+  return items.kind === 'count' ? items.count : items.values.length
+}
+
+/**
+ * Actions nested (directly or indirectly) inside each for-each node's body
+ */
+export function getLoopBodyActions(workflow: ParsedWorkflow): Map<string, Set<string>> {
+  const bodies = new Map<string, Set<string>>()
+
+  walkExecutionPlan(buildExecutionPlan(workflow), (step, enclosingLoops) => {
+    if (step.type === 'loop') bodies.set(step.action.id, new Set())
+    for (const loop of enclosingLoops) {
+      bodies.get(loop.id)?.add(step.action.id)
+    }
+  })
+
+  return bodies
+}
+
+/**
+ * How many times each action runs in the worst case, from the bounds of its
+ * enclosing loops. Unbounded loops count as MAX_LOOP_ITERATIONS.
+ */
+export function getIterationMultipliers(workflow: ParsedWorkflow): Record<string, number> {
+  const multipliers: Record<string, number> = {}
+
+  walkExecutionPlan(buildExecutionPlan(workflow), (step, enclosingLoops) => {
+    multipliers[step.action.id] = enclosingLoops.reduce(
+      (total, loop) => total * (getLoopIterationBound(loop) ?? MAX_LOOP_ITERATIONS),
+      1
+    )
+  })
+
+  return multipliers
+}
+
+function toIdentifier(actionId: string): string {
+  const words = actionId.split(/[^a-zA-Z0-9]+/).filter(Boolean)
+  const identifier = words
+    .map((word, index) => index === 0 ? word : word.charAt(0).toUpperCase() + word.slice(1))
+    .join('')
+
+  return /^[a-zA-Z]/.test(identifier) ? identifier : `action${identifier}`
+}
+
+/**
+ * Cadence identifier holding the result of an action, e.g. `swapTokens1Result`
+ */
+export function getResultVariableName(actionId: string): string {
+  return `${toIdentifier(actionId)}Result`
+}
+
+/**
+ * Cadence identifier holding one output of an action, e.g. `swapTokens1AmountOut`
+ */
+export function getOutputVariableName(actionId: string, outputName: string): string {
+  const output = toIdentifier(outputName)
+  return `${toIdentifier(actionId)}${output.charAt(0).toUpperCase()}${output.slice(1)}`
+}
+
+/**
+ * Cadence identifier bound to the current element inside a for-each body
+ */
+export function getLoopItemVariableName(loopId: string): string {
+  return `${toIdentifier(loopId)}Item`
+}
+
+/**
+ * Cadence identifier holding the collection a for-each node iterates over
+ */
+export function getLoopItemsVariableName(loopId: string): string {
+  return `${toIdentifier(loopId)}Items`
+}
+
+function isLoopItemReference(value: string, workflow: ParsedWorkflow): string | null {
+  const [actionId, outputName, ...rest] = value.split('.')
+  if (outputName !== 'item' || rest.length > 0) return null
+  const loop = workflow.actions.find(action => action.id === actionId)
+  return loop && isLoopAction(loop) ? loop.id : null
+}
+
+/**
+ * Parse an `actionId.outputName` parameter value that reads the output of
+ * another (non control-flow) action in the workflow
+ */
+export function parseOutputReference(
+  value: unknown,
+  workflow: ParsedWorkflow
+): { actionId: string; outputName: string } | null {
+  const trimmed = String(value ?? '').trim()
+  if (!isConditionReference(trimmed) || isLoopItemReference(trimmed, workflow)) return null
+
+  const [actionId, ...rest] = trimmed.split('.')
+  const source = workflow.actions.find(action => action.id === actionId)
+  return source && !isControlFlowAction(source) ? { actionId, outputName: rest.join('.') } : null
+}
+
+/**
+ * Copy of an action whose `loopId.item` parameter values are bound to the
+ * loop's item variable
+ */
+export function resolveLoopItemReferences(action: ParsedAction, workflow: ParsedWorkflow): ParsedAction {
+  if (!action.parameters.some(param => isLoopItemReference(String(param.value ?? ''), workflow))) {
+    return action
+  }
+
+  return {
+    ...action,
+    parameters: action.parameters.map(param => {
+      const loopId = isLoopItemReference(String(param.value ?? ''), workflow)
+      return loopId ? { ...param, expression: getLoopItemVariableName(loopId) } : param
+    })
+  }
+}
+
+/**
+ * IDs of actions whose outputs are read by a condition, loop or downstream
+ * parameter and therefore must be bound to a result variable
+ */
+export function getReferencedResultActions(workflow: ParsedWorkflow): Set<string> {
+  const referenced = new Set<string>()
+  const addReference = (actionId: string) => {
+    const source = workflow.actions.find(a => a.id === actionId)
+    if (source && !isControlFlowAction(source)) referenced.add(actionId)
+  }
+
+  for (const action of workflow.actions) {
+    if (isConditionAction(action) && action.condition) {
+      getConditionReferences(action.condition).forEach(reference => addReference(reference.actionId))
+    }
+
+    if (isLoopAction(action)) {
+      const items = parseLoopItems(action.loop)
+      if (items?.kind === 'reference') addReference(items.actionId)
+    }
+
+    for (const param of action.parameters) {
+      const reference = parseOutputReference(param.value, workflow)
+      if (reference) addReference(reference.actionId)
+    }
+  }
+
+  return referenced
+}
+
+/**
+ * Render the collection a for-each node iterates over as a Cadence expression.
+ * Counts have no collection and return null.
+ */
+export function formatLoopItemsExpression(action: ParsedAction, workflow: ParsedWorkflow): string | null {
+  const items = parseLoopItems(action.loop)
+  if (!items) {
+    throw new Error(`Loop "${action.name}" has no items to iterate over`)
+  }
+
+  if (items.kind === 'count') return null
+
+  if (items.kind === 'reference') {
+    return formatConditionOperand(`${items.actionId}.${items.outputName}`, action.loop?.itemType || '', workflow)
+  }
+
+  const itemType = action.loop?.itemType || inferLiteralType(items.values)
+  return `[${items.values.map(value => formatConditionOperand(value, itemType, workflow)).join(', ')}]`
+}
+
+function inferLiteralType(values: string[]): string {
+  if (values.length > 0 && values.every(value => /^0x[0-9a-fA-F]+$/.test(value))) return 'Address'
+  if (values.length > 0 && values.every(value => /^-?\d+(\.\d+)?$/.test(value))) return DEFAULT_CONDITION_TYPE
+  return 'String'
+}
+
+/**
+ * Render a condition predicate as a Cadence boolean expression
+ */
+export function formatConditionExpression(predicate: ConditionPredicate, workflow: ParsedWorkflow): string {
+  const operator = CONDITION_OPERATORS[predicate.operator]
+  if (!operator) {
+    throw new Error(`Unsupported condition operator: ${predicate.operator}`)
+  }
+
+  const type = predicate.type || DEFAULT_CONDITION_TYPE
+  const left = formatConditionOperand(predicate.left, type, workflow)
+  const right = formatConditionOperand(predicate.right, type, workflow)
+
+  return `${left} ${operator.symbol} ${right}`
+}
+
+function formatConditionOperand(value: string, type: string, workflow: ParsedWorkflow): string {
+  const trimmed = String(value ?? '').trim()
+
+  const loopId = isLoopItemReference(trimmed, workflow)
+  if (loopId) {
+    return getLoopItemVariableName(loopId)
+  }
+
+  if (isConditionReference(trimmed)) {
+    const [actionId, ...rest] = trimmed.split('.')
+    if (workflow.actions.some(action => action.id === actionId)) {
+      return `${getResultVariableName(actionId)}.${rest.join('.')}`
+    }
+  }
+
+  if (trimmed === 'true' || trimmed === 'false') {
+    return trimmed
+  }
+
+  if (/^0x[0-9a-fA-F]+$/.test(trimmed)) {
+    return trimmed
+  }
+
+  if (/^-?\d+(\.\d+)?$/.test(trimmed)) {
+    const isFixedPoint = type === 'UFix64' || type === 'Fix64'
+    return isFixedPoint && !trimmed.includes('.') ? `${trimmed}.0` : trimmed
+  }
+
+  return `"${trimmed.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+}
@@ -0,0 +1,183 @@
+import type { Node, Edge } from "@xyflow/react"
+import type { EditorState } from './workflow-history'
+
+/**
+ * Workflow CRDT Document
+ *
+ * Replicated state for collaborative editing of one workflow:
+ * - The workflow is flattened into last-writer-wins registers, one per node,
+ *   node position, edge and parameter value, so concurrent edits of different
+ *   fields never overwrite each other
+ * - Writes carry a Lamport clock; ties are broken by client ID, so every
+ *   replica that has seen the same operations holds the same state
+ * - Deletions are kept as tombstones so a late delete still beats an older write
+ * - Edges and parameter values of deleted nodes are hidden when materializing
+ */
+
+export interface CrdtClock {
+  counter: number
+  clientId: string
+}
+
+export interface CrdtOperation {
+  key: string
+  value?: unknown
+  deleted?: boolean
+  clock: CrdtClock
+}
+
+const NODE_PREFIX = 'node:'
+const POSITION_PREFIX = 'position:'
+const EDGE_PREFIX = 'edge:'
+const PARAMETER_PREFIX = 'param:'
+
+/**
+ * Order two clocks; the greater clock wins a register
+ */
+export function compareClocks(a: CrdtClock, b: CrdtClock): number {
+  if (a.counter !== b.counter) return a.counter - b.counter
+  return a.clientId < b.clientId ? -1 : a.clientId > b.clientId ? 1 : 0
+}
+
+// JSON with sorted keys, so equal values compare equal regardless of key order
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`)
+      .join(',')}}`
+  }
+  return JSON.stringify(value) ?? 'null'
+}
+
+// Drops canvas callbacks and other non-serializable node data
+function plain<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value))
+}
+
+function parameterKey(nodeId: string, name: string): string {
+  return `${PARAMETER_PREFIX}${JSON.stringify([nodeId, name])}`
+}
+
+function toRegisters(state: EditorState): Map<string, unknown> {
+  const registers = new Map<string, unknown>()
+
+  state.workflow.nodes.forEach(node => {
+    registers.set(`${NODE_PREFIX}${node.id}`, plain({ id: node.id, type: node.type, data: node.data }))
+    registers.set(`${POSITION_PREFIX}${node.id}`, plain(node.position))
+  })
+  state.workflow.edges.forEach(edge => {
+    registers.set(`${EDGE_PREFIX}${edge.id}`, plain(edge))
+  })
+  Object.entries(state.parameterValues).forEach(([nodeId, values]) => {
+    Object.entries(values || {}).forEach(([name, value]) => {
+      if (value !== undefined) {
+        registers.set(parameterKey(nodeId, name), plain(value))
+      }
+    })
+  })
+
+  return registers
+}
+
+export class WorkflowCrdtDocument {
+  private registers: Map<string, CrdtOperation> = new Map()
+  private counter = 0
+
+  constructor(readonly clientId: string) {}
+
+  /**
+   * Record a local edit: diff `state` against the document and return the
+   * operations to broadcast
+   */
+  update(state: EditorState): CrdtOperation[] {
+    const next = toRegisters(state)
+    const operations: CrdtOperation[] = []
+
+    next.forEach((value, key) => {
+      const current = this.registers.get(key)
+      if (!current || current.deleted || stableStringify(current.value) !== stableStringify(value)) {
+        operations.push({ key, value, clock: this.tick() })
+      }
+    })
+    this.registers.forEach((register, key) => {
+      if (!register.deleted && !next.has(key)) {
+        operations.push({ key, deleted: true, clock: this.tick() })
+      }
+    })
+
+    operations.forEach(operation => this.registers.set(operation.key, operation))
+    return operations
+  }
+
+  /**
+   * Apply operations from other replicas. Returns true when the state changed.
+   */
+  merge(operations: CrdtOperation[]): boolean {
+    let changed = false
+
+    operations.forEach(operation => {
+      this.counter = Math.max(this.counter, operation.clock.counter)
+      const current = this.registers.get(operation.key)
+      if (!current || compareClocks(operation.clock, current.clock) > 0) {
+        this.registers.set(operation.key, operation)
+        changed = true
+      }
+    })
+
+    return changed
+  }
+
+  /**
+   * Current workflow and parameter values
+   */
+  getState(): EditorState {
+    const nodes: Node[] = []
+    const edges: Edge[] = []
+    const parameterValues: Record<string, Record<string, any>> = {}
+
+    this.registers.forEach((register, key) => {
+      if (register.deleted || !key.startsWith(NODE_PREFIX)) return
+      const node = register.value as Pick<Node, 'id' | 'type' | 'data'>
+      const position = this.registers.get(`${POSITION_PREFIX}${node.id}`)
+      nodes.push({
+        ...node,
+        position: position && !position.deleted ? position.value as Node['position'] : { x: 0, y: 0 }
+      } as Node)
+    })
+
+    const nodeIds = new Set(nodes.map(node => node.id))
+    this.registers.forEach((register, key) => {
+      if (register.deleted) return
+
+      if (key.startsWith(EDGE_PREFIX)) {
+        const edge = register.value as Edge
+        if (nodeIds.has(edge.source) && nodeIds.has(edge.target)) {
+          edges.push(edge)
+        }
+      } else if (key.startsWith(PARAMETER_PREFIX)) {
+        const [nodeId, name] = JSON.parse(key.slice(PARAMETER_PREFIX.length)) as [string, string]
+        if (nodeIds.has(nodeId)) {
+          parameterValues[nodeId] = { ...parameterValues[nodeId], [name]: register.value }
+        }
+      }
+    })
+
+    return { workflow: { nodes, edges }, parameterValues }
+  }
+
+  /**
+   * Every register including tombstones, for syncing a new replica
+   */
+  getOperations(): CrdtOperation[] {
+    return Array.from(this.registers.values())
+  }
+
+  private tick(): CrdtClock {
+    return { counter: ++this.counter, clientId: this.clientId }
+  }
+}
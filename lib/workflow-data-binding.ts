@@ -0,0 +1,109 @@
+import type { ParsedWorkflow, ParsedAction } from './types'
+import { DataFlowAnalyzer } from './data-flow-analyzer'
+import { getOutputVariableName, getResultVariableName, parseOutputReference } from './workflow-control-flow'
+
+/**
+ * Workflow Data Binding
+ *
+ * Passes action outputs to downstream parameters in generated Cadence:
+ * - Collects the outputs that parameters read through `actionId.outputName`
+ * - Binds each of them to a typed local variable after its action runs
+ * - Substitutes those variables into downstream calls, converting between
+ *   types with the rules DataFlowAnalyzer uses for compatibility checks
+ */
+
+/** Output types by action ID and output name, taken from registry metadata */
+export type OutputTypeMap = Record<string, Record<string, string>>
+
+export interface OutputBinding {
+  actionId: string
+  outputName: string
+  variableName: string
+  type?: string
+}
+
+export class DataBindingError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'DataBindingError'
+  }
+}
+
+const analyzer = new DataFlowAnalyzer()
+
+/**
+ * Outputs read by downstream parameters, grouped by the action producing them
+ */
+export function getOutputBindings(
+  workflow: ParsedWorkflow,
+  outputTypes: OutputTypeMap = {}
+): Map<string, OutputBinding[]> {
+  const bindings = new Map<string, OutputBinding[]>()
+
+  for (const action of workflow.actions) {
+    for (const param of action.parameters) {
+      const reference = parseOutputReference(param.value, workflow)
+      if (!reference) continue
+
+      const actionBindings = bindings.get(reference.actionId) || []
+      if (!actionBindings.some(binding => binding.outputName === reference.outputName)) {
+        actionBindings.push({
+          ...reference,
+          variableName: getOutputVariableName(reference.actionId, reference.outputName),
+          type: outputTypes[reference.actionId]?.[reference.outputName]
+        })
+      }
+      bindings.set(reference.actionId, actionBindings)
+    }
+  }
+
+  return bindings
+}
+
+/**
+ * Local variable declarations for an action's bound outputs, read from its
+ * result variable
+ */
+export function renderOutputBindings(bindings: OutputBinding[]): string[] {
+  return bindings.map(binding => {
+    const annotation = binding.type ? `: ${binding.type}` : ''
+    return `    let ${binding.variableName}${annotation} = ${getResultVariableName(binding.actionId)}.${binding.outputName}`
+  })
+}
+
+/**
+ * Copy of an action whose `actionId.outputName` parameter values are bound to
+ * the output's local variable, converted to the parameter type when needed.
+ * Throws DataBindingError when the output type cannot be converted.
+ */
+export function resolveOutputReferences(
+  action: ParsedAction,
+  workflow: ParsedWorkflow,
+  outputTypes: OutputTypeMap = {}
+): ParsedAction {
+  if (!action.parameters.some(param => parseOutputReference(param.value, workflow))) {
+    return action
+  }
+
+  return {
+    ...action,
+    parameters: action.parameters.map(param => {
+      const reference = parseOutputReference(param.value, workflow)
+      if (!reference) return param
+
+      const variableName = getOutputVariableName(reference.actionId, reference.outputName)
+      const sourceType = outputTypes[reference.actionId]?.[reference.outputName]
+      if (!sourceType || !param.type) {
+        return { ...param, expression: variableName }
+      }
+
+      const expression = analyzer.getConversionExpression(variableName, sourceType, param.type)
+      if (expression === null) {
+        throw new DataBindingError(
+          `Cannot pass ${param.value} (${sourceType}) to parameter "${param.name}" of "${action.name}" (${param.type})`
+        )
+      }
+      return { ...param, expression }
+    })
+  }
+}
@@ -0,0 +1,227 @@
+import type { ParsedAction, ParsedWorkflow } from './types'
+import { FlowSecurityManager, RiskLevel, type SecurityManager } from './security-manager'
+import {
+  CONDITION_OPERATORS,
+  buildExecutionPlan,
+  getConditionReferences,
+  isConditionReference,
+  isControlFlowAction,
+  parseLoopItems,
+  parseOutputReference,
+  walkExecutionPlan,
+  type ExecutionStep
+} from './workflow-control-flow'
+
+/**
+ * Workflow Explainer
+ *
+ * Plain-English explanations of workflows for the people who sign or
+ * approve them:
+ * - What each action does, in execution order, with its amounts, tokens
+ *   and recipients, including branches and loops
+ * - Which steps use the results of earlier ones
+ * - Risk notes from the security manager's assessment and values that are
+ *   only known at run time
+ */
+
+export interface ExplainedStep {
+  actionId: string
+  number: number
+  depth: number // Nesting inside conditions and loops
+  text: string
+}
+
+export interface WorkflowExplanation {
+  summary: string
+  steps: ExplainedStep[]
+  dependencies: string[]
+  risk: {
+    level: RiskLevel
+    notes: string[]
+  }
+  text: string // Everything above as one block, for notifications and approvals
+}
+
+const AMOUNT_PARAMETERS = ['amount', 'amountIn', 'value', 'quantity']
+const TOKEN_PARAMETERS = ['token', 'fromToken', 'tokenIn']
+const RECIPIENT_PARAMETERS = ['recipient', 'to', 'receiver', 'destination', 'address']
+
+// Token named by the action type when it has no token parameter
+const TOKEN_IN_ACTION_TYPE: Array<[RegExp, string]> = [
+  [/(^|-)flow($|-)/i, 'FLOW'],
+  [/(^|-)fusd($|-)/i, 'FUSD'],
+  [/(^|-)usdc($|-)/i, 'USDC']
+]
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`
+
+/**
+ * Build the explanation. Risk comes from the security manager's assessment
+ * of the same workflow.
+ */
+export async function explainWorkflow(
+  workflow: ParsedWorkflow,
+  options: { security?: Pick<SecurityManager, 'assessRisk'> } = {}
+): Promise<WorkflowExplanation> {
+  const plan = buildExecutionPlan(workflow)
+
+  // Number steps in the order they run, so references read "step 2"
+  const numbers = new Map<string, number>()
+  walkExecutionPlan(plan, step => { numbers.set(step.action.id, numbers.size + 1) })
+
+  const actionsById = new Map(workflow.actions.map(action => [action.id, action]))
+  const stepName = (actionId: string) => `step ${numbers.get(actionId) ?? '?'} (${actionsById.get(actionId)?.name || actionId})`
+
+  const describeValue = (value: unknown): string => {
+    const text = String(value ?? '').trim()
+    const reference = parseOutputReference(text, workflow)
+    if (reference) return `the ${reference.outputName} from ${stepName(reference.actionId)}`
+
+    const [loopId, item] = text.split('.')
+    if (item === 'item' && actionsById.get(loopId)?.actionType === 'for-each') return 'the current item'
+    return text
+  }
+
+  const parameter = (action: ParsedAction, names: string[]) => {
+    for (const name of names) {
+      const found = action.parameters.find(param => param.name === name)
+      if (found?.expression) return 'a value computed at run time'
+      if (found?.value !== undefined && found.value !== '') return describeValue(found.value)
+    }
+    return undefined
+  }
+
+  const tokenOf = (action: ParsedAction) =>
+    parameter(action, TOKEN_PARAMETERS) || TOKEN_IN_ACTION_TYPE.find(([pattern]) => pattern.test(action.actionType))?.[1]
+
+  const amountWithToken = (action: ParsedAction) => {
+    const amount = parameter(action, AMOUNT_PARAMETERS)
+    const token = tokenOf(action)
+    if (!amount) return token ? `an unspecified amount of ${token}` : 'an unspecified amount'
+    return token ? (/^\d/.test(amount) ? `${amount} ${token}` : `${amount} (${token})`) : amount
+  }
+
+  const describeAction = (action: ParsedAction): string => {
+    const type = action.actionType.toLowerCase()
+    const recipient = parameter(action, RECIPIENT_PARAMETERS)
+
+    if (/swap|exchange|trade/.test(type)) {
+      const toToken = parameter(action, ['toToken', 'tokenOut'])
+      const slippage = parameter(action, ['slippage', 'maxSlippage'])
+      return `Swap ${amountWithToken(action)} for ${toToken || 'another token'}${slippage ? `, accepting at most ${slippage} slippage` : ''}`
+    }
+    if (/transfer|send|pay/.test(type) && !/nft/.test(type)) {
+      return `Send ${amountWithToken(action)} to ${recipient || 'an unspecified recipient'}`
+    }
+    if (/unstake|withdraw|undelegate/.test(type)) {
+      return `Unstake ${amountWithToken(action)}`
+    }
+    if (/stake|delegate/.test(type)) {
+      const node = parameter(action, ['nodeId', 'node'])
+      return `Stake ${amountWithToken(action)}${node ? ` with node ${node}` : ''}`
+    }
+    if (/mint/.test(type)) {
+      return `Mint ${/nft/.test(type) ? 'an NFT' : amountWithToken(action)}${recipient ? ` for ${recipient}` : ''}`
+    }
+
+    const values = action.parameters
+      .filter(param => param.expression || (param.value !== undefined && param.value !== ''))
+      .map(param => `${param.name} ${param.expression ? 'computed at run time' : describeValue(param.value)}`)
+    return `Run ${action.name}${values.length > 0 ? ` with ${values.join(', ')}` : ''}`
+  }
+
+  const describeOperand = (value: string) =>
+    isConditionReference(value) ? describeValue(value) : value
+
+  const steps: ExplainedStep[] = []
+  const describePlan = (plan: ExecutionStep[], depth: number) => {
+    for (const step of plan) {
+      const { action } = step
+      const number = numbers.get(action.id)!
+
+      if (step.type === 'condition') {
+        const predicate = action.condition
+        const test = predicate
+          ? `${describeOperand(predicate.left)} is ${CONDITION_OPERATORS[predicate.operator]?.label || predicate.operator} ${describeOperand(predicate.right)}`
+          : 'its condition holds'
+        steps.push({ actionId: action.id, number, depth, text: `If ${test}:` })
+        describePlan(step.whenTrue, depth + 1)
+        if (step.whenFalse.length > 0) {
+          steps.push({ actionId: action.id, number, depth, text: 'Otherwise:' })
+          describePlan(step.whenFalse, depth + 1)
+        }
+      } else if (step.type === 'loop') {
+        const items = parseLoopItems(action.loop)
+        const bound = action.loop?.maxIterations ? ` (at most ${plural(action.loop.maxIterations, 'time')})` : ''
+        const text = items?.kind === 'count'
+          ? `Repeat ${plural(items.count, 'time')}:`
+          : items?.kind === 'list'
+            ? `For each of ${items.values.join(', ')}:`
+            : items?.kind === 'reference'
+              ? `For each item in the ${items.outputName} from ${stepName(items.actionId)}${bound}:`
+              : `For each item${bound}:`
+        steps.push({ actionId: action.id, number, depth, text })
+        describePlan(step.body, depth + 1)
+      } else {
+        steps.push({ actionId: action.id, number, depth, text: `${describeAction(action)}.` })
+      }
+    }
+  }
+  describePlan(plan, 0)
+
+  // Data flowing between steps
+  const dependencies: string[] = []
+  for (const action of workflow.actions) {
+    if (isControlFlowAction(action)) {
+      for (const reference of action.condition ? getConditionReferences(action.condition) : []) {
+        dependencies.push(`${stepName(action.id)} decides on the ${reference.outputName} from ${stepName(reference.actionId)}.`)
+      }
+      const items = parseLoopItems(action.loop)
+      if (items?.kind === 'reference') {
+        dependencies.push(`${stepName(action.id)} goes through the ${items.outputName} from ${stepName(items.actionId)}.`)
+      }
+      continue
+    }
+    for (const param of action.parameters) {
+      const reference = parseOutputReference(param.value, workflow)
+      if (reference) {
+        dependencies.push(`${stepName(action.id)} uses the ${reference.outputName} from ${stepName(reference.actionId)} as its ${param.name}.`)
+      }
+    }
+  }
+
+  // Risk notes
+  const assessment = await (options.security || new FlowSecurityManager()).assessRisk(workflow)
+  const notes = [
+    ...assessment.riskFactors.map(factor => `${factor.description} (${factor.severity}): ${factor.impact}.`),
+    ...workflow.actions.flatMap(action => action.parameters
+      .filter(param => param.expression)
+      .map(param => `The ${param.name} of ${stepName(action.id)} is computed at run time, so it isn't shown here.`)),
+    ...assessment.mitigationSuggestions
+  ]
+
+  const actionCount = workflow.actions.filter(action => !isControlFlowAction(action)).length
+  const recipients = new Set(workflow.actions
+    .filter(action => !isControlFlowAction(action))
+    .map(action => parameter(action, RECIPIENT_PARAMETERS))
+    .filter((recipient): recipient is string => !!recipient && /^0x/i.test(recipient)))
+  const summary = `This workflow runs ${plural(actionCount, 'action')} in one transaction` +
+    `${recipients.size > 0 ? `, sending to ${plural(recipients.size, 'recipient')}` : ''}. ` +
+    `Overall risk is ${assessment.overallRisk}.`
+
+  const text = [
+    summary,
+    '',
+    ...steps.map(step => `${'  '.repeat(step.depth)}${step.depth === 0 && !step.text.startsWith('Otherwise') ? `${step.number}. ` : '- '}${step.text}`),
+    ...(dependencies.length > 0 ? ['', 'Data between steps:', ...dependencies.map(line => `- ${line}`)] : []),
+    ...(notes.length > 0 ? ['', 'Risk notes:', ...notes.map(line => `- ${line}`)] : [])
+  ].join('\n')
+
+  return {
+    summary,
+    steps,
+    dependencies,
+    risk: { level: assessment.overallRisk, notes },
+    text
+  }
+}
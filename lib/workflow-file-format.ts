@@ -0,0 +1,504 @@
+import type { Node, Edge } from "@xyflow/react"
+import type {
+  Workflow,
+  ParsedWorkflow,
+  ActionMetadata,
+  ActionParameter,
+  AgentConfiguration,
+  ConditionPredicate,
+  LoopConfiguration
+} from './types'
+import { WorkflowParser } from './workflow-parser'
+
+/**
+ * Portable Workflow File Format (.loom.json)
+ *
+ * Canonical serialized form for sharing workflows between users:
+ * - Versioned envelope with a published JSON Schema
+ * - Forward migrations from every earlier format version
+ * - Carries action IDs with registry versions, parameter values,
+ *   edges, canvas positions and optional Agent configuration
+ */
+
+export const LOOM_FILE_EXTENSION = '.loom.json'
+export const LOOM_FORMAT_ID = 'actionloom.workflow'
+export const LOOM_FORMAT_VERSION = 1
+
+export interface LoomWorkflowNode {
+  id: string
+  actionId: string
+  registryVersion?: string
+  label: string
+  category?: string
+  nodeType: string
+  position: { x: number; y: number }
+  parameters: Record<string, any>
+  metadata?: ActionMetadata
+  condition?: ConditionPredicate  // Predicate of if/else control-flow nodes
+  loop?: LoopConfiguration  // Items and bound of for-each control-flow nodes
+}
+
+export interface LoomWorkflowEdge {
+  id: string
+  source: string
+  target: string
+  sourceHandle?: string | null
+  targetHandle?: string | null
+}
+
+export interface LoomWorkflowFile {
+  format: typeof LOOM_FORMAT_ID
+  formatVersion: number
+  exportedAt: string
+  workflow: {
+    name?: string
+    description?: string
+    tags?: string[]
+    nodes: LoomWorkflowNode[]
+    edges: LoomWorkflowEdge[]
+  }
+  agentConfig?: AgentConfiguration
+}
+
+export interface ImportedWorkflow {
+  workflow: Workflow
+  parameterValues: Record<string, Record<string, any>>
+  agentConfig?: AgentConfiguration
+  name?: string
+  description?: string
+  tags?: string[]
+  migratedFrom?: number
+}
+
+/**
+ * JSON Schema (draft-07) for the current format version
+ */
+export const LOOM_WORKFLOW_SCHEMA = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  $id: `https://actionloom.dev/schemas/loom-workflow-v${LOOM_FORMAT_VERSION}.json`,
+  title: 'ActionLoom Workflow',
+  type: 'object',
+  required: ['format', 'formatVersion', 'exportedAt', 'workflow'],
+  properties: {
+    format: { const: LOOM_FORMAT_ID },
+    formatVersion: { type: 'integer', const: LOOM_FORMAT_VERSION },
+    exportedAt: { type: 'string', format: 'date-time' },
+    workflow: {
+      type: 'object',
+      required: ['nodes', 'edges'],
+      properties: {
+        name: { type: 'string', maxLength: 100 },
+        description: { type: 'string' },
+        tags: { type: 'array', items: { type: 'string' } },
+        nodes: {
+          type: 'array',
+          maxItems: 100,
+          items: {
+            type: 'object',
+            required: ['id', 'actionId', 'label', 'nodeType', 'position', 'parameters'],
+            properties: {
+              id: { type: 'string', minLength: 1 },
+              actionId: { type: 'string', minLength: 1 },
+              registryVersion: { type: 'string' },
+              label: { type: 'string' },
+              category: { type: 'string' },
+              nodeType: { type: 'string' },
+              position: {
+                type: 'object',
+                required: ['x', 'y'],
+                properties: { x: { type: 'number' }, y: { type: 'number' } }
+              },
+              parameters: { type: 'object' },
+              metadata: { type: 'object' },
+              condition: {
+                type: 'object',
+                required: ['left', 'operator', 'right'],
+                properties: {
+                  left: { type: 'string' },
+                  operator: { type: 'string', enum: ['gt', 'gte', 'lt', 'lte', 'eq', 'neq'] },
+                  right: { type: 'string' },
+                  type: { type: 'string' }
+                }
+              },
+              loop: {
+                type: 'object',
+                required: ['items'],
+                properties: {
+                  items: { type: 'string' },
+                  maxIterations: { type: 'integer', minimum: 1 },
+                  itemType: { type: 'string' }
+                }
+              }
+            }
+          }
+        },
+        edges: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['id', 'source', 'target'],
+            properties: {
+              id: { type: 'string' },
+              source: { type: 'string' },
+              target: { type: 'string' },
+              sourceHandle: { type: ['string', 'null'] },
+              targetHandle: { type: ['string', 'null'] }
+            }
+          }
+        }
+      }
+    },
+    agentConfig: { type: 'object' }
+  }
+} as const
+
+/**
+ * Error raised when a file cannot be migrated or fails schema validation
+ */
+export class LoomFormatError extends Error {
+  constructor(message: string, public readonly errors: string[] = []) {
+    super(message)
+    this.name = 'LoomFormatError'
+  }
+}
+
+/**
+ * Migrations keyed by the version they upgrade FROM. Each one must return
+ * a document at exactly `fromVersion + 1`.
+ *
+ * Version 0 is the unversioned `{ nodes, edges, parameterValues? }` JSON
+ * that was previously copied out of the browser devtools.
+ */
+const LOOM_MIGRATIONS: Record<number, (file: any) => any> = {
+  0: (legacy: any) => ({
+    format: LOOM_FORMAT_ID,
+    formatVersion: 1,
+    exportedAt: new Date().toISOString(),
+    workflow: {
+      name: legacy.name,
+      nodes: (legacy.nodes || []).map((node: any) => ({
+        id: node.id,
+        actionId: node.data?.actionId,
+        registryVersion: node.data?.metadata?.version,
+        label: node.data?.label ?? node.data?.actionId,
+        category: node.data?.category,
+        nodeType: node.type || 'action',
+        position: node.position || { x: 0, y: 0 },
+        parameters: legacy.parameterValues?.[node.id] || {},
+        metadata: node.data?.metadata
+      })),
+      edges: (legacy.edges || []).map((edge: any) => ({
+        id: edge.id || `${edge.source}-${edge.target}`,
+        source: edge.source,
+        target: edge.target,
+        sourceHandle: edge.sourceHandle,
+        targetHandle: edge.targetHandle
+      }))
+    },
+    agentConfig: legacy.agentConfig
+  })
+}
+
+/**
+ * Determine the format version of an arbitrary parsed document
+ */
+export function detectFormatVersion(document: any): number {
+  if (document && document.format === LOOM_FORMAT_ID && Number.isInteger(document.formatVersion)) {
+    return document.formatVersion
+  }
+  if (document && Array.isArray(document.nodes) && Array.isArray(document.edges)) {
+    return 0
+  }
+  throw new LoomFormatError('Unrecognized workflow file', [
+    `Expected "format": "${LOOM_FORMAT_ID}" or a legacy { nodes, edges } document`
+  ])
+}
+
+/**
+ * Upgrade a document of any known version to the current format version
+ */
+export function migrateLoomFile(document: any): LoomWorkflowFile {
+  let version = detectFormatVersion(document)
+
+  if (version > LOOM_FORMAT_VERSION) {
+    throw new LoomFormatError(
+      `Workflow file format version ${version} is newer than supported version ${LOOM_FORMAT_VERSION}`
+    )
+  }
+
+  let current = document
+  while (version < LOOM_FORMAT_VERSION) {
+    const migrate = LOOM_MIGRATIONS[version]
+    if (!migrate) {
+      throw new LoomFormatError(`No migration available from format version ${version}`)
+    }
+    current = migrate(current)
+    version += 1
+  }
+
+  return current as LoomWorkflowFile
+}
+
+/**
+ * Validate a current-version document against the format's structural rules
+ */
+export function validateLoomFile(file: any): { valid: boolean; errors: string[] } {
+  const errors: string[] = []
+
+  if (!file || typeof file !== 'object') {
+    return { valid: false, errors: ['File must be a JSON object'] }
+  }
+  if (file.format !== LOOM_FORMAT_ID) {
+    errors.push(`format must be "${LOOM_FORMAT_ID}"`)
+  }
+  if (file.formatVersion !== LOOM_FORMAT_VERSION) {
+    errors.push(`formatVersion must be ${LOOM_FORMAT_VERSION}`)
+  }
+  if (typeof file.exportedAt !== 'string') {
+    errors.push('exportedAt must be a string')
+  }
+
+  const workflow = file.workflow
+  if (!workflow || typeof workflow !== 'object') {
+    errors.push('workflow must be an object')
+    return { valid: false, errors }
+  }
+  if (workflow.name !== undefined && (typeof workflow.name !== 'string' || workflow.name.length > 100)) {
+    errors.push('workflow.name must be a string of at most 100 characters')
+  }
+  if (!Array.isArray(workflow.nodes)) {
+    errors.push('workflow.nodes must be an array')
+  }
+  if (!Array.isArray(workflow.edges)) {
+    errors.push('workflow.edges must be an array')
+  }
+  if (errors.length > 0) {
+    return { valid: false, errors }
+  }
+
+  if (workflow.nodes.length > LOOM_WORKFLOW_SCHEMA.properties.workflow.properties.nodes.maxItems) {
+    errors.push('workflow.nodes exceeds the maximum of 100 actions')
+  }
+
+  const nodeIds = new Set<string>()
+  workflow.nodes.forEach((node: any, index: number) => {
+    const at = `workflow.nodes[${index}]`
+    if (!node || typeof node !== 'object') {
+      errors.push(`${at} must be an object`)
+      return
+    }
+    if (typeof node.id !== 'string' || node.id.length === 0) errors.push(`${at}.id must be a non-empty string`)
+    if (typeof node.actionId !== 'string' || node.actionId.length === 0) errors.push(`${at}.actionId must be a non-empty string`)
+    if (typeof node.label !== 'string') errors.push(`${at}.label must be a string`)
+    if (typeof node.nodeType !== 'string') errors.push(`${at}.nodeType must be a string`)
+    if (node.registryVersion !== undefined && typeof node.registryVersion !== 'string') {
+      errors.push(`${at}.registryVersion must be a string`)
+    }
+    if (!node.position || typeof node.position.x !== 'number' || typeof node.position.y !== 'number') {
+      errors.push(`${at}.position must have numeric x and y`)
+    }
+    if (!node.parameters || typeof node.parameters !== 'object' || Array.isArray(node.parameters)) {
+      errors.push(`${at}.parameters must be an object`)
+    }
+    if (node.condition !== undefined) {
+      const condition = node.condition
+      const operators = LOOM_WORKFLOW_SCHEMA.properties.workflow.properties.nodes.items.properties.condition.properties.operator.enum
+      if (!condition || typeof condition.left !== 'string' || typeof condition.right !== 'string') {
+        errors.push(`${at}.condition must have string left and right operands`)
+      } else if (!(operators as readonly string[]).includes(condition.operator)) {
+        errors.push(`${at}.condition.operator must be one of ${operators.join(', ')}`)
+      }
+    }
+    if (node.loop !== undefined) {
+      const loop = node.loop
+      if (!loop || typeof loop.items !== 'string') {
+        errors.push(`${at}.loop.items must be a string`)
+      } else if (loop.maxIterations !== undefined && (!Number.isInteger(loop.maxIterations) || loop.maxIterations < 1)) {
+        errors.push(`${at}.loop.maxIterations must be a positive integer`)
+      }
+    }
+    if (nodeIds.has(node.id)) errors.push(`${at}.id "${node.id}" is duplicated`)
+    nodeIds.add(node.id)
+  })
+
+  workflow.edges.forEach((edge: any, index: number) => {
+    const at = `workflow.edges[${index}]`
+    if (!edge || typeof edge !== 'object') {
+      errors.push(`${at} must be an object`)
+      return
+    }
+    if (typeof edge.id !== 'string') errors.push(`${at}.id must be a string`)
+    if (!nodeIds.has(edge.source)) errors.push(`${at}.source references unknown node "${edge.source}"`)
+    if (!nodeIds.has(edge.target)) errors.push(`${at}.target references unknown node "${edge.target}"`)
+  })
+
+  if (file.agentConfig !== undefined && (typeof file.agentConfig !== 'object' || file.agentConfig === null)) {
+    errors.push('agentConfig must be an object')
+  }
+
+  return { valid: errors.length === 0, errors }
+}
+
+/**
+ * Export the canvas state to the portable file format
+ */
+export function exportWorkflow(
+  workflow: Workflow,
+  parameterValues: Record<string, Record<string, any>> = {},
+  options: { name?: string; description?: string; tags?: string[]; agentConfig?: AgentConfiguration } = {}
+): LoomWorkflowFile {
+  return {
+    format: LOOM_FORMAT_ID,
+    formatVersion: LOOM_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    workflow: {
+      name: options.name,
+      description: options.description,
+      tags: options.tags,
+      nodes: workflow.nodes.map(node => {
+        const data = (node.data || {}) as Record<string, any>
+        const metadata = data.metadata as ActionMetadata | undefined
+        return {
+          id: node.id,
+          actionId: data.actionId,
+          registryVersion: metadata?.version,
+          label: data.label ?? data.actionId,
+          category: data.category,
+          nodeType: node.type || 'action',
+          position: { x: node.position.x, y: node.position.y },
+          parameters: { ...(parameterValues[node.id] || {}) },
+          metadata,
+          ...(data.condition && { condition: { ...data.condition } }),
+          ...(data.loop && { loop: { ...data.loop } })
+        }
+      }),
+      edges: workflow.edges.map(edge => ({
+        id: edge.id,
+        source: edge.source,
+        target: edge.target,
+        sourceHandle: edge.sourceHandle,
+        targetHandle: edge.targetHandle
+      }))
+    },
+    agentConfig: options.agentConfig
+  }
+}
+
+/**
+ * Import a file (any supported version) back into canvas state
+ */
+export function importWorkflow(input: string | unknown): ImportedWorkflow {
+  let document: any = input
+  if (typeof input === 'string') {
+    try {
+      document = JSON.parse(input)
+    } catch (error) {
+      throw new LoomFormatError('Workflow file is not valid JSON', [
+        error instanceof Error ? error.message : String(error)
+      ])
+    }
+  }
+
+  const originalVersion = detectFormatVersion(document)
+  const file = migrateLoomFile(document)
+
+  const validation = validateLoomFile(file)
+  if (!validation.valid) {
+    throw new LoomFormatError('Workflow file failed validation', validation.errors)
+  }
+
+  const nodes: Node[] = file.workflow.nodes.map(node => ({
+    id: node.id,
+    type: node.nodeType,
+    position: { ...node.position },
+    data: {
+      label: node.label,
+      actionId: node.actionId,
+      category: node.category,
+      type: node.metadata?.category || node.category,
+      metadata: node.metadata,
+      ...(node.condition && { condition: { ...node.condition } }),
+      ...(node.loop && { loop: { ...node.loop } })
+    }
+  }))
+
+  const edges: Edge[] = file.workflow.edges.map(edge => ({
+    id: edge.id,
+    source: edge.source,
+    target: edge.target,
+    sourceHandle: edge.sourceHandle,
+    targetHandle: edge.targetHandle
+  }))
+
+  const parameterValues: Record<string, Record<string, any>> = {}
+  file.workflow.nodes.forEach(node => {
+    parameterValues[node.id] = { ...node.parameters }
+  })
+
+  return {
+    workflow: { nodes, edges },
+    parameterValues,
+    agentConfig: file.agentConfig,
+    name: file.workflow.name,
+    description: file.workflow.description,
+    tags: file.workflow.tags,
+    migratedFrom: originalVersion < LOOM_FORMAT_VERSION ? originalVersion : undefined
+  }
+}
+
+/**
+ * Parse an imported workflow and fill in its parameter values
+ */
+export function parseImportedWorkflow(imported: ImportedWorkflow): ParsedWorkflow {
+  const parsed = WorkflowParser.parse(imported.workflow.nodes, imported.workflow.edges)
+
+  return {
+    ...parsed,
+    actions: parsed.actions.map(action => {
+      const values = imported.parameterValues[action.id] || {}
+      const metadata = (imported.workflow.nodes.find(n => n.id === action.id)?.data as any)?.metadata as
+        ActionMetadata | undefined
+
+      const parameters: ActionParameter[] = action.parameters.map(param => ({
+        ...param,
+        value: values[param.name] !== undefined ? values[param.name] : param.value
+      }))
+
+      // Include values for parameters the parser has no defaults for
+      Object.entries(values).forEach(([name, value]) => {
+        if (parameters.some(p => p.name === name)) return
+        const definition = metadata?.parameters?.find(p => p.name === name)
+        parameters.push({
+          name,
+          type: definition?.type || 'String',
+          value,
+          required: definition?.required ?? false
+        })
+      })
+
+      return { ...action, parameters }
+    }),
+    metadata: {
+      ...parsed.metadata,
+      name: imported.name
+    }
+  }
+}
+
+/**
+ * Serialize a workflow file for download
+ */
+export function serializeLoomFile(file: LoomWorkflowFile): string {
+  return JSON.stringify(file, null, 2)
+}
+
+/**
+ * Build a safe download file name from a workflow name
+ */
+export function getLoomFileName(name?: string): string {
+  const base = (name || 'workflow')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+  return `${base || 'workflow'}${LOOM_FILE_EXTENSION}`
+}
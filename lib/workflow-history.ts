@@ -0,0 +1,296 @@
+import type { Node, Edge } from "@xyflow/react"
+import type { Workflow } from './types'
+
+/**
+ * Workflow Edit History
+ *
+ * Command-based undo/redo for the builder:
+ * - Every edit (node add/remove/move, node settings, edges, parameter values)
+ *   is a command that can apply itself to and revert itself from an editor state
+ * - Removing nodes keeps their parameter values and connections, so undo
+ *   restores them exactly
+ * - Consecutive edits of the same field (typing, dragging) merge into one step
+ * - The undo stack is bounded; the oldest steps are dropped first
+ */
+
+export interface EditorState {
+  workflow: Workflow
+  parameterValues: Record<string, Record<string, any>>
+}
+
+export interface WorkflowCommand {
+  label: string
+  mergeKey?: string  // Commands with the same key merge when executed in quick succession
+  apply(state: EditorState): EditorState
+  revert(state: EditorState): EditorState
+}
+
+export interface NodeMove {
+  id: string
+  from: { x: number; y: number }
+  to: { x: number; y: number }
+}
+
+export const DEFAULT_HISTORY_LIMIT = 100
+const DEFAULT_MERGE_WINDOW = 1000
+
+function withoutKeys<T>(record: Record<string, T>, keys: Set<string>): Record<string, T> {
+  return Object.fromEntries(Object.entries(record).filter(([key]) => !keys.has(key)))
+}
+
+function setNodePositions(state: EditorState, positions: Map<string, { x: number; y: number }>): EditorState {
+  return {
+    ...state,
+    workflow: {
+      ...state.workflow,
+      nodes: state.workflow.nodes.map(node =>
+        positions.has(node.id) ? { ...node, position: { ...positions.get(node.id)! } } : node
+      )
+    }
+  }
+}
+
+/**
+ * Add nodes with their parameter values, and edges between or to them
+ */
+export function addNodesCommand(
+  nodes: Node[],
+  edges: Edge[] = [],
+  parameterValues: Record<string, Record<string, any>> = {},
+  label = nodes.length === 1 ? `Add ${nodes[0].data?.label ?? 'node'}` : `Add ${nodes.length} nodes`
+): WorkflowCommand {
+  const nodeIds = new Set(nodes.map(node => node.id))
+  const edgeIds = new Set(edges.map(edge => edge.id))
+
+  return {
+    label,
+    apply: state => ({
+      workflow: {
+        nodes: [...state.workflow.nodes.filter(node => !nodeIds.has(node.id)), ...nodes],
+        edges: [...state.workflow.edges.filter(edge => !edgeIds.has(edge.id)), ...edges]
+      },
+      parameterValues: { ...state.parameterValues, ...parameterValues }
+    }),
+    revert: state => ({
+      workflow: {
+        nodes: state.workflow.nodes.filter(node => !nodeIds.has(node.id)),
+        edges: state.workflow.edges.filter(edge => !edgeIds.has(edge.id))
+      },
+      parameterValues: withoutKeys(state.parameterValues, nodeIds)
+    })
+  }
+}
+
+/**
+ * Remove nodes (with their parameter values and connections) and edges.
+ * The removed elements are captured from `state` so revert restores them in place.
+ */
+export function removeElementsCommand(
+  state: EditorState,
+  nodeIds: string[],
+  edgeIds: string[] = []
+): WorkflowCommand {
+  const removedNodeIds = new Set(nodeIds)
+  const removedNodes = state.workflow.nodes
+    .map((node, index) => ({ node, index }))
+    .filter(({ node }) => removedNodeIds.has(node.id))
+  const removedEdges = state.workflow.edges
+    .map((edge, index) => ({ edge, index }))
+    .filter(({ edge }) =>
+      edgeIds.includes(edge.id) || removedNodeIds.has(edge.source) || removedNodeIds.has(edge.target)
+    )
+  const removedEdgeIds = new Set(removedEdges.map(({ edge }) => edge.id))
+  const removedParameters = Object.fromEntries(
+    Object.entries(state.parameterValues).filter(([nodeId]) => removedNodeIds.has(nodeId))
+  )
+
+  const restore = <T>(items: T[], removed: Array<{ index: number; item: T }>): T[] => {
+    const result = [...items]
+    removed.forEach(({ index, item }) => result.splice(Math.min(index, result.length), 0, item))
+    return result
+  }
+
+  const label = removedNodes.length > 0
+    ? removedNodes.length === 1
+      ? `Delete ${removedNodes[0].node.data?.label ?? 'node'}`
+      : `Delete ${removedNodes.length} nodes`
+    : removedEdges.length === 1 ? 'Delete connection' : `Delete ${removedEdges.length} connections`
+
+  return {
+    label,
+    apply: current => ({
+      workflow: {
+        nodes: current.workflow.nodes.filter(node => !removedNodeIds.has(node.id)),
+        edges: current.workflow.edges.filter(edge => !removedEdgeIds.has(edge.id))
+      },
+      parameterValues: withoutKeys(current.parameterValues, removedNodeIds)
+    }),
+    revert: current => ({
+      workflow: {
+        nodes: restore(current.workflow.nodes, removedNodes.map(({ node, index }) => ({ index, item: node }))),
+        edges: restore(current.workflow.edges, removedEdges.map(({ edge, index }) => ({ index, item: edge })))
+      },
+      parameterValues: { ...current.parameterValues, ...removedParameters }
+    })
+  }
+}
+
+/**
+ * Move nodes, e.g. at the end of a drag
+ */
+export function moveNodesCommand(moves: NodeMove[]): WorkflowCommand {
+  return {
+    label: moves.length === 1 ? 'Move node' : `Move ${moves.length} nodes`,
+    mergeKey: `move:${moves.map(move => move.id).sort().join(',')}`,
+    apply: state => setNodePositions(state, new Map(moves.map(move => [move.id, move.to]))),
+    revert: state => setNodePositions(state, new Map(moves.map(move => [move.id, move.from])))
+  }
+}
+
+/**
+ * Change fields of a node's data, e.g. a condition predicate or loop settings
+ */
+export function updateNodeDataCommand(
+  nodeId: string,
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  label = 'Edit node'
+): WorkflowCommand {
+  const setData = (state: EditorState, data: Record<string, unknown>): EditorState => ({
+    ...state,
+    workflow: {
+      ...state.workflow,
+      nodes: state.workflow.nodes.map(node =>
+        node.id === nodeId ? { ...node, data: { ...node.data, ...data } } : node
+      )
+    }
+  })
+
+  return {
+    label,
+    mergeKey: `node-data:${nodeId}:${Object.keys(after).sort().join(',')}`,
+    apply: state => setData(state, after),
+    revert: state => setData(state, before)
+  }
+}
+
+export function addEdgeCommand(edge: Edge): WorkflowCommand {
+  return addNodesCommand([], [edge], {}, 'Connect nodes')
+}
+
+/**
+ * Set one parameter value of a node
+ */
+export function editParameterCommand(nodeId: string, name: string, before: any, after: any): WorkflowCommand {
+  const setValue = (state: EditorState, value: any): EditorState => {
+    const nodeValues = { ...(state.parameterValues[nodeId] || {}) }
+    if (value === undefined) {
+      delete nodeValues[name]
+    } else {
+      nodeValues[name] = value
+    }
+    return { ...state, parameterValues: { ...state.parameterValues, [nodeId]: nodeValues } }
+  }
+
+  return {
+    label: `Edit ${name}`,
+    mergeKey: `parameter:${nodeId}:${name}`,
+    apply: state => setValue(state, after),
+    revert: state => setValue(state, before)
+  }
+}
+
+/**
+ * Swap the whole editor state, e.g. when importing a file or a template
+ */
+export function replaceStateCommand(before: EditorState, after: EditorState, label = 'Replace workflow'): WorkflowCommand {
+  return {
+    label,
+    apply: () => after,
+    revert: () => before
+  }
+}
+
+interface HistoryEntry {
+  command: WorkflowCommand
+  time: number
+}
+
+export class WorkflowHistory {
+  private undoStack: HistoryEntry[] = []
+  private redoStack: HistoryEntry[] = []
+
+  constructor(
+    private readonly limit: number = DEFAULT_HISTORY_LIMIT,
+    private readonly mergeWindow: number = DEFAULT_MERGE_WINDOW
+  ) {}
+
+  /**
+   * Apply a command and record it. Clears the redo stack.
+   */
+  execute(state: EditorState, command: WorkflowCommand, now: number = Date.now()): EditorState {
+    const next = command.apply(state)
+    const last = this.undoStack[this.undoStack.length - 1]
+
+    if (last && command.mergeKey && last.command.mergeKey === command.mergeKey && now - last.time <= this.mergeWindow) {
+      // Keep the oldest revert so one undo returns to the state before the burst of edits
+      const previous = last.command
+      this.undoStack[this.undoStack.length - 1] = {
+        command: { ...command, revert: previous.revert },
+        time: now
+      }
+    } else {
+      this.undoStack.push({ command, time: now })
+      if (this.undoStack.length > this.limit) {
+        this.undoStack.shift()
+      }
+    }
+
+    this.redoStack = []
+    return next
+  }
+
+  /**
+   * Revert the latest command, or null when there is nothing to undo
+   */
+  undo(state: EditorState): EditorState | null {
+    const entry = this.undoStack.pop()
+    if (!entry) return null
+
+    this.redoStack.push(entry)
+    return entry.command.revert(state)
+  }
+
+  /**
+   * Re-apply the latest undone command, or null when there is nothing to redo
+   */
+  redo(state: EditorState): EditorState | null {
+    const entry = this.redoStack.pop()
+    if (!entry) return null
+
+    // Redone steps never merge with later edits
+    this.undoStack.push({ command: entry.command, time: 0 })
+    return entry.command.apply(state)
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0
+  }
+
+  getUndoLabel(): string | undefined {
+    return this.undoStack[this.undoStack.length - 1]?.command.label
+  }
+
+  getRedoLabel(): string | undefined {
+    return this.redoStack[this.redoStack.length - 1]?.command.label
+  }
+
+  clear(): void {
+    this.undoStack = []
+    this.redoStack = []
+  }
+}
@@ -1,5 +1,14 @@
 import type { Node, Edge } from "@xyflow/react"
-import type { ParsedWorkflow, ParsedAction, ActionParameter } from "./types"
+import type { ParsedWorkflow, ParsedAction, ActionParameter, ConditionPredicate, LoopConfiguration } from "./types"
+import {
+  CONDITION_ACTION_TYPE,
+  CONDITION_OPERATORS,
+  LOOP_ACTION_TYPE,
+  NUMERIC_CONDITION_TYPES,
+  isConditionAction,
+  isLoopAction,
+  parseLoopItems,
+} from "./workflow-control-flow"
 
 export class WorkflowParser {
   /**
@@ -21,15 +30,32 @@ export class WorkflowParser {
     // Parse each node into an action
     const actions: ParsedAction[] = nodes.map((node) => {
       const nextActions = adjacencyMap.get(node.id) || []
+      const actionType = node.type === CONDITION_ACTION_TYPE || node.type === LOOP_ACTION_TYPE
+        ? node.type
+        : (node.data.actionId as string)
 
-      return {
+      const action: ParsedAction = {
         id: node.id,
-        actionType: node.data.actionId,
-        name: node.data.label,
-        parameters: this.getDefaultParameters(node.data.actionId),
+        actionType,
+        name: node.data.label as string,
+        parameters: this.getDefaultParameters(actionType),
         nextActions,
         position: node.position,
       }
+
+      if (actionType === CONDITION_ACTION_TYPE) {
+        action.condition = node.data.condition as ConditionPredicate | undefined
+        action.branches = this.getConditionBranches(node.id, edges)
+      }
+
+      if (actionType === LOOP_ACTION_TYPE) {
+        action.loop = node.data.loop as LoopConfiguration | undefined
+        action.loopBody = edges
+          .filter((edge) => edge.source === node.id && edge.sourceHandle === "body")
+          .map((edge) => edge.target)
+      }
+
+      return action
     })
 
     // Determine execution order using topological sort
@@ -47,6 +73,22 @@ export class WorkflowParser {
     }
   }
 
+  /**
+   * Split a condition node's outgoing edges by the handle they leave from.
+   * Edges without a handle id are treated as the true branch.
+   */
+  private static getConditionBranches(nodeId: string, edges: Edge[]): { true: string[]; false: string[] } {
+    const branches = { true: [] as string[], false: [] as string[] }
+
+    edges
+      .filter((edge) => edge.source === nodeId)
+      .forEach((edge) => {
+        branches[edge.sourceHandle === "false" ? "false" : "true"].push(edge.target)
+      })
+
+    return branches
+  }
+
   /**
    * Topological sort to determine execution order
    */
@@ -161,6 +203,29 @@ export class WorkflowParser {
       }
     })
 
+    // Check condition nodes have a predicate and somewhere to go
+    workflow.actions.filter(isConditionAction).forEach((action) => {
+      const condition = action.condition
+      if (!condition || !condition.left || !condition.operator || !condition.right) {
+        errors.push(`Condition "${action.name}" is missing its predicate`)
+      } else if (CONDITION_OPERATORS[condition.operator]?.numeric && condition.type && !NUMERIC_CONDITION_TYPES.includes(condition.type)) {
+        errors.push(`Condition "${action.name}" compares ${condition.type} values with a numeric operator`)
+      }
+      if (!action.branches || (action.branches.true.length === 0 && action.branches.false.length === 0)) {
+        errors.push(`Condition "${action.name}" must connect at least one branch`)
+      }
+    })
+
+    // Check loop nodes know what to iterate over and what to repeat
+    workflow.actions.filter(isLoopAction).forEach((action) => {
+      if (!parseLoopItems(action.loop)) {
+        errors.push(`Loop "${action.name}" is missing the items to iterate over`)
+      }
+      if (!action.loopBody || action.loopBody.length === 0) {
+        errors.push(`Loop "${action.name}" must connect at least one action to its body`)
+      }
+    })
+
     // Check for at least one root action
     if (workflow.rootActions.length === 0) {
       errors.push("Workflow must have at least one starting action")
@@ -0,0 +1,40 @@
+import { WorkflowStorageError } from './workflow-storage'
+import { APIErrorClass, ErrorCode, throwValidationError } from './api-error-handler'
+
+/**
+ * Workflow Storage API helpers
+ *
+ * Request checks and error mapping shared by the workflow save and version
+ * routes:
+ * - Workflow ID format validation
+ * - Storage errors mapped to 404 (unknown workflow or version), 409 (a
+ *   version conflict that survived the retries) or 500
+ */
+
+export const WORKFLOW_ID_PATTERN = /^wf_\d+_[a-zA-Z0-9]+$/
+
+export function validateWorkflowId(workflowId: string): void {
+  if (!WORKFLOW_ID_PATTERN.test(workflowId)) {
+    throwValidationError('Invalid workflow ID format', 'Workflow ID must be in format: wf_timestamp_randomstring')
+  }
+}
+
+export function rethrowStorageError(error: unknown, workflowId?: string): never {
+  if (error instanceof WorkflowStorageError && error.code === 'NOT_FOUND') {
+    throw new APIErrorClass('Workflow not found', ErrorCode.RESOURCE_NOT_FOUND, 404, error.message)
+  }
+  if (error instanceof WorkflowStorageError && error.code === 'VERSION_EXISTS') {
+    throw new APIErrorClass(
+      'Workflow was updated concurrently',
+      ErrorCode.CONFLICT,
+      409,
+      `${error.message}; reload workflow ${error.workflowId || workflowId || 'unknown'} and save again`
+    )
+  }
+  throw new APIErrorClass(
+    'Workflow storage failure',
+    ErrorCode.DATABASE_ERROR,
+    500,
+    error instanceof Error ? error.message : 'Unknown storage error'
+  )
+}
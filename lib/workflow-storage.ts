@@ -0,0 +1,564 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import type { ParsedWorkflow, ParsedAction } from './types'
+
+/**
+ * Workflow Storage
+ *
+ * Persistent storage for saved workflows with immutable version history:
+ * - Pluggable storage adapters (file-backed by default, in-memory for tests)
+ * - Every save or update appends a new, never-modified version; appends to
+ *   one workflow are serialized, and a version taken by another process is
+ *   retried with the next number
+ * - Structural diffs between any two versions of a workflow
+ */
+
+export interface StoredWorkflowRecord {
+  id: string
+  name: string
+  owner?: string // API key user ID of whoever saved it, when authenticated
+  currentVersion: number
+  createdAt: string
+  updatedAt: string
+}
+
+export interface StoredWorkflowVersion {
+  workflowId: string
+  version: number
+  workflow: ParsedWorkflow
+  savedAt: string
+  comment?: string
+}
+
+export interface WorkflowSummary {
+  id: string
+  name: string
+  totalActions: number
+  createdAt: string
+  savedAt: string
+  version: number
+}
+
+export interface WorkflowFieldChange {
+  field: string
+  before: any
+  after: any
+}
+
+export interface WorkflowActionChange {
+  actionId: string
+  changes: WorkflowFieldChange[]
+}
+
+export interface WorkflowDiff {
+  workflowId: string
+  fromVersion: number
+  toVersion: number
+  addedActions: ParsedAction[]
+  removedActions: ParsedAction[]
+  modifiedActions: WorkflowActionChange[]
+  executionOrderChanged: boolean
+  metadataChanges: WorkflowFieldChange[]
+}
+
+/**
+ * Storage adapter interface for dependency injection and testing
+ */
+export interface WorkflowStorageAdapter {
+  getRecord(workflowId: string): Promise<StoredWorkflowRecord | null>
+  listRecords(): Promise<StoredWorkflowRecord[]>
+  putRecord(record: StoredWorkflowRecord): Promise<void>
+  deleteWorkflow(workflowId: string): Promise<boolean>
+  appendVersion(version: StoredWorkflowVersion): Promise<void>
+  getVersion(workflowId: string, version: number): Promise<StoredWorkflowVersion | null>
+  listVersions(workflowId: string): Promise<StoredWorkflowVersion[]>
+}
+
+/**
+ * Error raised when a storage operation violates version immutability
+ * or references an unknown workflow/version
+ */
+export class WorkflowStorageError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'NOT_FOUND' | 'VERSION_EXISTS' | 'STORAGE_FAILURE',
+    public readonly workflowId?: string
+  ) {
+    super(message)
+    this.name = 'WorkflowStorageError'
+  }
+}
+
+/**
+ * In-memory storage adapter for development/testing
+ */
+export class InMemoryWorkflowStorageAdapter implements WorkflowStorageAdapter {
+  private records: Map<string, StoredWorkflowRecord> = new Map()
+  private versions: Map<string, StoredWorkflowVersion[]> = new Map()
+
+  async getRecord(workflowId: string): Promise<StoredWorkflowRecord | null> {
+    const record = this.records.get(workflowId)
+    return record ? clone(record) : null
+  }
+
+  async listRecords(): Promise<StoredWorkflowRecord[]> {
+    return Array.from(this.records.values()).map(clone)
+  }
+
+  async putRecord(record: StoredWorkflowRecord): Promise<void> {
+    this.records.set(record.id, clone(record))
+  }
+
+  async deleteWorkflow(workflowId: string): Promise<boolean> {
+    this.versions.delete(workflowId)
+    return this.records.delete(workflowId)
+  }
+
+  async appendVersion(version: StoredWorkflowVersion): Promise<void> {
+    const history = this.versions.get(version.workflowId) || []
+    if (history.some(v => v.version === version.version)) {
+      throw new WorkflowStorageError(
+        `Version ${version.version} of workflow ${version.workflowId} already exists`,
+        'VERSION_EXISTS',
+        version.workflowId
+      )
+    }
+    history.push(clone(version))
+    this.versions.set(version.workflowId, history)
+  }
+
+  async getVersion(workflowId: string, version: number): Promise<StoredWorkflowVersion | null> {
+    const found = (this.versions.get(workflowId) || []).find(v => v.version === version)
+    return found ? clone(found) : null
+  }
+
+  async listVersions(workflowId: string): Promise<StoredWorkflowVersion[]> {
+    return (this.versions.get(workflowId) || [])
+      .map(clone)
+      .sort((a, b) => a.version - b.version)
+  }
+}
+
+/**
+ * File-backed storage adapter
+ *
+ * Layout: <baseDir>/<workflowId>/record.json and
+ * <baseDir>/<workflowId>/versions/<version>.json. Version files are created
+ * with the exclusive flag so an existing version can never be overwritten.
+ */
+export class FileWorkflowStorageAdapter implements WorkflowStorageAdapter {
+  constructor(private readonly baseDir: string) {}
+
+  async getRecord(workflowId: string): Promise<StoredWorkflowRecord | null> {
+    return this.readJson<StoredWorkflowRecord>(this.recordPath(workflowId))
+  }
+
+  async listRecords(): Promise<StoredWorkflowRecord[]> {
+    let entries: string[]
+    try {
+      entries = await fs.readdir(this.baseDir)
+    } catch (error) {
+      if (isMissingFileError(error)) return []
+      throw error
+    }
+
+    const records = await Promise.all(entries.map(entry => this.getRecord(entry)))
+    return records.filter((record): record is StoredWorkflowRecord => record !== null)
+  }
+
+  async putRecord(record: StoredWorkflowRecord): Promise<void> {
+    const recordPath = this.recordPath(record.id)
+    await fs.mkdir(path.dirname(recordPath), { recursive: true })
+
+    // Write to a temp file first so a crash never leaves a truncated record
+    const tempPath = `${recordPath}.${process.pid}.tmp`
+    await fs.writeFile(tempPath, JSON.stringify(record, null, 2), 'utf8')
+    await fs.rename(tempPath, recordPath)
+  }
+
+  async deleteWorkflow(workflowId: string): Promise<boolean> {
+    const exists = await this.getRecord(workflowId)
+    await fs.rm(this.workflowDir(workflowId), { recursive: true, force: true })
+    return exists !== null
+  }
+
+  async appendVersion(version: StoredWorkflowVersion): Promise<void> {
+    const versionPath = this.versionPath(version.workflowId, version.version)
+    await fs.mkdir(path.dirname(versionPath), { recursive: true })
+
+    try {
+      await fs.writeFile(versionPath, JSON.stringify(version, null, 2), { encoding: 'utf8', flag: 'wx' })
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+        throw new WorkflowStorageError(
+          `Version ${version.version} of workflow ${version.workflowId} already exists`,
+          'VERSION_EXISTS',
+          version.workflowId
+        )
+      }
+      throw error
+    }
+  }
+
+  async getVersion(workflowId: string, version: number): Promise<StoredWorkflowVersion | null> {
+    return this.readJson<StoredWorkflowVersion>(this.versionPath(workflowId, version))
+  }
+
+  async listVersions(workflowId: string): Promise<StoredWorkflowVersion[]> {
+    let files: string[]
+    try {
+      files = await fs.readdir(path.join(this.workflowDir(workflowId), 'versions'))
+    } catch (error) {
+      if (isMissingFileError(error)) return []
+      throw error
+    }
+
+    const versions = await Promise.all(
+      files
+        .filter(file => /^\d+\.json$/.test(file))
+        .map(file => this.getVersion(workflowId, parseInt(file, 10)))
+    )
+
+    return versions
+      .filter((v): v is StoredWorkflowVersion => v !== null)
+      .sort((a, b) => a.version - b.version)
+  }
+
+  private workflowDir(workflowId: string): string {
+    // Workflow IDs are generated server-side, but never let one escape the base directory
+    return path.join(this.baseDir, path.basename(workflowId))
+  }
+
+  private recordPath(workflowId: string): string {
+    return path.join(this.workflowDir(workflowId), 'record.json')
+  }
+
+  private versionPath(workflowId: string, version: number): string {
+    return path.join(this.workflowDir(workflowId), 'versions', `${version}.json`)
+  }
+
+  private async readJson<T>(filePath: string): Promise<T | null> {
+    try {
+      return JSON.parse(await fs.readFile(filePath, 'utf8')) as T
+    } catch (error) {
+      if (isMissingFileError(error)) return null
+      throw error
+    }
+  }
+}
+
+const MAX_APPEND_ATTEMPTS = 5
+
+/**
+ * Workflow storage service with version history and diffs
+ */
+export class WorkflowStorageService {
+  // Tail of the append chain of each workflow
+  private appendQueues: Map<string, Promise<unknown>> = new Map()
+
+  constructor(private readonly adapter: WorkflowStorageAdapter) {}
+
+  /**
+   * Save a new workflow as version 1
+   */
+  async save(
+    workflow: ParsedWorkflow,
+    options: { name?: string; comment?: string; owner?: string } = {}
+  ): Promise<StoredWorkflowVersion> {
+    const workflowId = this.generateWorkflowId()
+    const now = new Date().toISOString()
+
+    await this.adapter.putRecord({
+      id: workflowId,
+      name: options.name || workflow.metadata?.name || `Workflow ${workflowId}`,
+      ...(options.owner && { owner: options.owner }),
+      currentVersion: 0,
+      createdAt: now,
+      updatedAt: now
+    })
+
+    return this.appendVersion(workflowId, workflow, options)
+  }
+
+  /**
+   * Store a new immutable version of an existing workflow. The append is
+   * queued before anything is awaited, so concurrent updates get versions
+   * in call order; the queued append checks that the workflow exists.
+   */
+  update(
+    workflowId: string,
+    workflow: ParsedWorkflow,
+    options: { name?: string; comment?: string } = {}
+  ): Promise<StoredWorkflowVersion> {
+    return this.appendVersion(workflowId, workflow, options)
+  }
+
+  /**
+   * A workflow's record (name, owner, current version) without its versions
+   */
+  async getRecord(workflowId: string): Promise<StoredWorkflowRecord | null> {
+    return this.adapter.getRecord(workflowId)
+  }
+
+  /**
+   * Get a workflow at its latest version, or at a specific version
+   */
+  async get(workflowId: string, version?: number): Promise<StoredWorkflowVersion | null> {
+    const record = await this.adapter.getRecord(workflowId)
+    if (!record) return null
+
+    return this.adapter.getVersion(workflowId, version ?? record.currentVersion)
+  }
+
+  /**
+   * List summaries of all stored workflows, most recently saved first
+   */
+  async list(): Promise<WorkflowSummary[]> {
+    const records = await this.adapter.listRecords()
+    const summaries = await Promise.all(records.map(async record => {
+      const latest = await this.adapter.getVersion(record.id, record.currentVersion)
+      return {
+        id: record.id,
+        name: record.name,
+        totalActions: latest?.workflow.metadata?.totalActions ?? latest?.workflow.actions.length ?? 0,
+        createdAt: record.createdAt,
+        savedAt: record.updatedAt,
+        version: record.currentVersion
+      }
+    }))
+
+    return summaries.sort((a, b) => b.savedAt.localeCompare(a.savedAt))
+  }
+
+  /**
+   * Delete a workflow and its entire version history
+   */
+  async delete(workflowId: string): Promise<boolean> {
+    return this.adapter.deleteWorkflow(workflowId)
+  }
+
+  /**
+   * List the version history of a workflow, oldest first
+   */
+  async listVersions(workflowId: string): Promise<StoredWorkflowVersion[]> {
+    await this.requireRecord(workflowId)
+    return this.adapter.listVersions(workflowId)
+  }
+
+  /**
+   * Compute a structural diff between two versions of a workflow
+   */
+  async diff(workflowId: string, fromVersion: number, toVersion: number): Promise<WorkflowDiff> {
+    const [from, to] = await Promise.all([
+      this.adapter.getVersion(workflowId, fromVersion),
+      this.adapter.getVersion(workflowId, toVersion)
+    ])
+
+    if (!from || !to) {
+      const missing = !from ? fromVersion : toVersion
+      throw new WorkflowStorageError(
+        `Version ${missing} of workflow ${workflowId} not found`,
+        'NOT_FOUND',
+        workflowId
+      )
+    }
+
+    return {
+      workflowId,
+      fromVersion,
+      toVersion,
+      ...diffWorkflows(from.workflow, to.workflow)
+    }
+  }
+
+  private appendVersion(
+    workflowId: string,
+    workflow: ParsedWorkflow,
+    options: { name?: string; comment?: string }
+  ): Promise<StoredWorkflowVersion> {
+    const previous = this.appendQueues.get(workflowId) || Promise.resolve()
+    const append = previous
+      .catch(() => undefined)
+      .then(() => this.appendWithRetry(workflowId, workflow, options))
+
+    this.appendQueues.set(workflowId, append)
+    append.finally(() => {
+      if (this.appendQueues.get(workflowId) === append) {
+        this.appendQueues.delete(workflowId)
+      }
+    }).catch(() => undefined)
+
+    return append
+  }
+
+  private async appendWithRetry(
+    workflowId: string,
+    workflow: ParsedWorkflow,
+    options: { name?: string; comment?: string }
+  ): Promise<StoredWorkflowVersion> {
+    let taken = 0
+    for (let attempt = 1; ; attempt++) {
+      const record = await this.requireRecord(workflowId)
+      const version = Math.max(record.currentVersion, taken) + 1
+      const savedAt = new Date().toISOString()
+      const name = options.name || record.name
+
+      const stored: StoredWorkflowVersion = {
+        workflowId,
+        version,
+        savedAt,
+        comment: options.comment,
+        workflow: {
+          ...workflow,
+          metadata: {
+            ...workflow.metadata,
+            name,
+            savedAt,
+            version: String(version)
+          }
+        }
+      }
+
+      try {
+        await this.adapter.appendVersion(stored)
+      } catch (error) {
+        // Another process saved this version first
+        if (error instanceof WorkflowStorageError && error.code === 'VERSION_EXISTS' && attempt < MAX_APPEND_ATTEMPTS) {
+          taken = version
+          continue
+        }
+        throw error
+      }
+
+      await this.adapter.putRecord({
+        ...record,
+        name,
+        currentVersion: version,
+        updatedAt: savedAt
+      })
+
+      return stored
+    }
+  }
+
+  private async requireRecord(workflowId: string): Promise<StoredWorkflowRecord> {
+    const record = await this.adapter.getRecord(workflowId)
+    if (!record) {
+      throw new WorkflowStorageError(`Workflow ${workflowId} not found`, 'NOT_FOUND', workflowId)
+    }
+    return record
+  }
+
+  private generateWorkflowId(): string {
+    return `wf_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`
+  }
+}
+
+/**
+ * Compare two workflows action by action
+ */
+export function diffWorkflows(
+  from: ParsedWorkflow,
+  to: ParsedWorkflow
+): Omit<WorkflowDiff, 'workflowId' | 'fromVersion' | 'toVersion'> {
+  const fromActions = new Map(from.actions.map(action => [action.id, action]))
+  const toActions = new Map(to.actions.map(action => [action.id, action]))
+
+  const addedActions = to.actions.filter(action => !fromActions.has(action.id))
+  const removedActions = from.actions.filter(action => !toActions.has(action.id))
+
+  const modifiedActions: WorkflowActionChange[] = []
+  to.actions.forEach(action => {
+    const previous = fromActions.get(action.id)
+    if (!previous) return
+
+    const changes: WorkflowFieldChange[] = []
+    const fields: Array<keyof ParsedAction> = ['actionType', 'name', 'nextActions', 'position']
+    fields.forEach(field => {
+      if (!isEqual(previous[field], action[field])) {
+        changes.push({ field, before: previous[field], after: action[field] })
+      }
+    })
+
+    const previousParams = new Map(previous.parameters.map(p => [p.name, p.value]))
+    const currentParams = new Map(action.parameters.map(p => [p.name, p.value]))
+    const paramNames = new Set([...previousParams.keys(), ...currentParams.keys()])
+    paramNames.forEach(name => {
+      if (!isEqual(previousParams.get(name), currentParams.get(name))) {
+        changes.push({
+          field: `parameters.${name}`,
+          before: previousParams.get(name),
+          after: currentParams.get(name)
+        })
+      }
+    })
+
+    if (changes.length > 0) {
+      modifiedActions.push({ actionId: action.id, changes })
+    }
+  })
+
+  // Save bookkeeping always changes between versions, so it is not reported
+  const ignoredMetadata = new Set(['savedAt', 'version', 'createdAt'])
+  const metadataKeys = new Set([...Object.keys(from.metadata || {}), ...Object.keys(to.metadata || {})])
+  const metadataChanges: WorkflowFieldChange[] = []
+  metadataKeys.forEach(key => {
+    if (ignoredMetadata.has(key)) return
+    const before = (from.metadata as any)?.[key]
+    const after = (to.metadata as any)?.[key]
+    if (!isEqual(before, after)) {
+      metadataChanges.push({ field: key, before, after })
+    }
+  })
+
+  return {
+    addedActions,
+    removedActions,
+    modifiedActions,
+    executionOrderChanged: !isEqual(from.executionOrder, to.executionOrder),
+    metadataChanges
+  }
+}
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value))
+}
+
+function isEqual(a: any, b: any): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+function isMissingFileError(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === 'ENOENT'
+}
+
+/**
+ * Create a storage service using the adapter selected by environment.
+ * WORKFLOW_STORAGE_ADAPTER=memory|file, WORKFLOW_STORAGE_DIR=<path>
+ */
+export function createWorkflowStorageService(adapter?: WorkflowStorageAdapter): WorkflowStorageService {
+  if (adapter) {
+    return new WorkflowStorageService(adapter)
+  }
+
+  const adapterType = process.env.WORKFLOW_STORAGE_ADAPTER ||
+    (process.env.NODE_ENV === 'test' ? 'memory' : 'file')
+
+  if (adapterType === 'memory') {
+    return new WorkflowStorageService(new InMemoryWorkflowStorageAdapter())
+  }
+
+  const baseDir = process.env.WORKFLOW_STORAGE_DIR || path.join(process.cwd(), '.data', 'workflows')
+  return new WorkflowStorageService(new FileWorkflowStorageAdapter(baseDir))
+}
+
+/**
+ * Default workflow storage service instance (lazy-loaded)
+ */
+let _defaultWorkflowStorageService: WorkflowStorageService | null = null
+export const getDefaultWorkflowStorageService = (): WorkflowStorageService => {
+  if (!_defaultWorkflowStorageService) {
+    _defaultWorkflowStorageService = createWorkflowStorageService()
+  }
+  return _defaultWorkflowStorageService
+}
@@ -0,0 +1,460 @@
+import type { AgentConfiguration, ConditionPredicate, LoopConfiguration } from './types'
+import { getRealFlowActions } from './real-flow-actions'
+import { CONDITION_ACTION_TYPE, LOOP_ACTION_TYPE } from './workflow-control-flow'
+import {
+  LOOM_FORMAT_ID,
+  LOOM_FORMAT_VERSION,
+  importWorkflow,
+  type ImportedWorkflow,
+  type LoomWorkflowFile
+} from './workflow-file-format'
+
+/**
+ * Workflow Templates
+ *
+ * Named, categorized starting points for the builder:
+ * - Built from the actions in real-flow-actions plus condition and for-each nodes
+ * - Declare template variables that are prompted for on instantiation and
+ *   substituted into parameters, predicates and loop items as `{{name}}`
+ * - Instantiate through the .loom.json import path, so a template loads into
+ *   the canvas exactly like an imported workflow file
+ */
+
+export type TemplateCategory = 'defi' | 'nft' | 'staking' | 'payments'
+
+export interface TemplateVariable {
+  name: string
+  label: string
+  type: string  // Address, UFix64, UInt64, String, or [Address] for comma-separated lists
+  description: string
+  required: boolean
+  defaultValue?: string
+  options?: string[]  // Allowed values, shown as a select
+}
+
+export interface TemplateNode {
+  id: string
+  actionId: string  // real-flow-actions ID, 'condition' or 'for-each'
+  label?: string
+  parameters?: Record<string, string>
+  condition?: ConditionPredicate
+  loop?: LoopConfiguration
+}
+
+export interface TemplateEdge {
+  source: string
+  target: string
+  sourceHandle?: string  // 'true'/'false' for conditions, 'body'/'done' for loops
+}
+
+export interface WorkflowTemplate {
+  id: string
+  name: string
+  description: string
+  category: TemplateCategory
+  tags: string[]
+  variables: TemplateVariable[]
+  nodes: TemplateNode[]  // listed in execution order; laid out top to bottom
+  edges: TemplateEdge[]
+  scheduleHours?: string  // recurring agent interval, may be a {{variable}}
+}
+
+/** Template as listed in the gallery, without its graph */
+export interface WorkflowTemplateSummary {
+  id: string
+  name: string
+  description: string
+  category: TemplateCategory
+  tags: string[]
+  variables: TemplateVariable[]
+  actionIds: string[]
+}
+
+export class TemplateError extends Error {
+  constructor(message: string, public readonly errors: string[] = []) {
+    super(message)
+    this.name = 'TemplateError'
+  }
+}
+
+export const TEMPLATE_CATEGORIES: Record<TemplateCategory, string> = {
+  defi: 'DeFi',
+  nft: 'NFTs',
+  staking: 'Staking',
+  payments: 'Payments'
+}
+
+const SWAP_TOKENS = ['FLOW', 'USDC', 'FUSD', 'BLT', 'REVV']
+const NODE_SPACING = 160
+
+const WORKFLOW_TEMPLATES: WorkflowTemplate[] = [
+  {
+    id: 'dca-swap',
+    name: 'DCA Swap',
+    description: 'Dollar-cost average into a token by swapping a fixed amount on a recurring schedule',
+    category: 'defi',
+    tags: ['swap', 'dca', 'recurring'],
+    variables: [
+      {
+        name: 'fromToken',
+        label: 'Sell token',
+        type: 'String',
+        description: 'Token spent on every run',
+        required: true,
+        defaultValue: 'FLOW',
+        options: SWAP_TOKENS
+      },
+      {
+        name: 'toToken',
+        label: 'Buy token',
+        type: 'String',
+        description: 'Token accumulated over time',
+        required: true,
+        defaultValue: 'USDC',
+        options: SWAP_TOKENS
+      },
+      {
+        name: 'amountPerRun',
+        label: 'Amount per run',
+        type: 'UFix64',
+        description: 'Amount of the sell token swapped on every run',
+        required: true
+      },
+      {
+        name: 'slippage',
+        label: 'Max slippage',
+        type: 'UFix64',
+        description: 'Maximum accepted slippage as a fraction',
+        required: false,
+        defaultValue: '0.01'
+      },
+      {
+        name: 'intervalHours',
+        label: 'Interval (hours)',
+        type: 'UInt64',
+        description: 'Hours between runs',
+        required: true,
+        defaultValue: '24'
+      }
+    ],
+    nodes: [
+      {
+        id: 'swap',
+        actionId: 'swap-tokens',
+        parameters: {
+          fromToken: '{{fromToken}}',
+          toToken: '{{toToken}}',
+          amount: '{{amountPerRun}}',
+          slippage: '{{slippage}}'
+        }
+      }
+    ],
+    edges: [],
+    scheduleHours: '{{intervalHours}}'
+  },
+  {
+    id: 'nft-drop',
+    name: 'NFT Drop',
+    description: 'Mint an NFT with shared metadata to every address on a recipient list',
+    category: 'nft',
+    tags: ['mint', 'airdrop', 'loop'],
+    variables: [
+      {
+        name: 'recipients',
+        label: 'Recipients',
+        type: '[Address]',
+        description: 'Comma-separated Flow addresses that receive an NFT',
+        required: true
+      },
+      {
+        name: 'metadata',
+        label: 'Metadata',
+        type: 'String',
+        description: 'NFT metadata as a JSON string',
+        required: true
+      }
+    ],
+    nodes: [
+      {
+        id: 'drop',
+        actionId: LOOP_ACTION_TYPE,
+        label: 'For Each Recipient',
+        loop: { items: '{{recipients}}', itemType: 'Address' }
+      },
+      {
+        id: 'mint',
+        actionId: 'mint-nft-basic',
+        parameters: {
+          recipient: 'drop.item',
+          metadata: '{{metadata}}'
+        }
+      }
+    ],
+    edges: [{ source: 'drop', target: 'mint', sourceHandle: 'body' }]
+  },
+  {
+    id: 'staking-compounder',
+    name: 'Staking Compounder',
+    description: 'Restake node rewards once they reach a minimum amount',
+    category: 'staking',
+    tags: ['staking', 'rewards', 'recurring'],
+    variables: [
+      {
+        name: 'nodeId',
+        label: 'Node ID',
+        type: 'String',
+        description: 'ID of the node the account stakes with',
+        required: true
+      },
+      {
+        name: 'minimumRewards',
+        label: 'Minimum rewards',
+        type: 'UFix64',
+        description: 'Rewards are restaked once they reach this amount of FLOW',
+        required: true,
+        defaultValue: '1.0'
+      }
+    ],
+    nodes: [
+      {
+        id: 'rewards',
+        actionId: 'get-staking-rewards',
+        parameters: { nodeId: '{{nodeId}}' }
+      },
+      {
+        id: 'enough',
+        actionId: CONDITION_ACTION_TYPE,
+        label: 'Enough Rewards?',
+        condition: {
+          left: 'rewards.rewardedTokens',
+          operator: 'gte',
+          right: '{{minimumRewards}}',
+          type: 'UFix64'
+        }
+      },
+      {
+        id: 'restake',
+        actionId: 'stake-rewarded-tokens',
+        parameters: {
+          nodeId: '{{nodeId}}',
+          amount: 'rewards.rewardedTokens'
+        }
+      }
+    ],
+    edges: [
+      { source: 'rewards', target: 'enough' },
+      { source: 'enough', target: 'restake', sourceHandle: 'true' }
+    ],
+    scheduleHours: '24'
+  },
+  {
+    id: 'payroll-transfers',
+    name: 'Payroll Transfers',
+    description: 'Pay the same FLOW amount to every employee address',
+    category: 'payments',
+    tags: ['transfer', 'payroll', 'loop'],
+    variables: [
+      {
+        name: 'employees',
+        label: 'Employee addresses',
+        type: '[Address]',
+        description: 'Comma-separated Flow addresses that are paid',
+        required: true
+      },
+      {
+        name: 'salary',
+        label: 'Salary (FLOW)',
+        type: 'UFix64',
+        description: 'Amount of FLOW paid to each employee',
+        required: true
+      }
+    ],
+    nodes: [
+      {
+        id: 'payroll',
+        actionId: LOOP_ACTION_TYPE,
+        label: 'For Each Employee',
+        loop: { items: '{{employees}}', itemType: 'Address' }
+      },
+      {
+        id: 'pay',
+        actionId: 'transfer-flow',
+        label: 'Pay Salary',
+        parameters: {
+          recipient: 'payroll.item',
+          amount: '{{salary}}'
+        }
+      }
+    ],
+    edges: [{ source: 'payroll', target: 'pay', sourceHandle: 'body' }]
+  }
+]
+
+/**
+ * All templates, optionally limited to one category
+ */
+export function getWorkflowTemplates(category?: TemplateCategory): WorkflowTemplate[] {
+  return category
+    ? WORKFLOW_TEMPLATES.filter(template => template.category === category)
+    : [...WORKFLOW_TEMPLATES]
+}
+
+export function getWorkflowTemplate(id: string): WorkflowTemplate | undefined {
+  return WORKFLOW_TEMPLATES.find(template => template.id === id)
+}
+
+export function summarizeTemplate(template: WorkflowTemplate): WorkflowTemplateSummary {
+  return {
+    id: template.id,
+    name: template.name,
+    description: template.description,
+    category: template.category,
+    tags: template.tags,
+    variables: template.variables,
+    actionIds: template.nodes.map(node => node.actionId)
+  }
+}
+
+/**
+ * Check variable values against the template's declarations. Returns one
+ * message per problem; an empty list means the values can be instantiated.
+ */
+export function validateTemplateVariables(
+  template: WorkflowTemplate,
+  values: Record<string, string>
+): string[] {
+  const errors: string[] = []
+
+  for (const variable of template.variables) {
+    const value = String(values[variable.name] ?? variable.defaultValue ?? '').trim()
+    if (!value) {
+      if (variable.required) errors.push(`${variable.label} is required`)
+      continue
+    }
+
+    const error = checkVariableValue(variable, value)
+    if (error) errors.push(`${variable.label} ${error}`)
+  }
+
+  const unknown = Object.keys(values).filter(name => !template.variables.some(v => v.name === name))
+  if (unknown.length > 0) {
+    errors.push(`Unknown template variables: ${unknown.join(', ')}`)
+  }
+
+  return errors
+}
+
+/**
+ * Build the canvas workflow, parameter values and agent schedule of a
+ * template. Throws TemplateError when the variable values are invalid.
+ */
+export function instantiateTemplate(
+  template: WorkflowTemplate,
+  values: Record<string, string> = {}
+): ImportedWorkflow {
+  const errors = validateTemplateVariables(template, values)
+  if (errors.length > 0) {
+    throw new TemplateError(`Template "${template.name}" cannot be instantiated`, errors)
+  }
+
+  const resolved: Record<string, string> = {}
+  for (const variable of template.variables) {
+    resolved[variable.name] = String(values[variable.name] ?? variable.defaultValue ?? '').trim()
+  }
+  const substitute = (text: string) =>
+    text.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) => resolved[name] ?? '')
+
+  const actions = getRealFlowActions()
+  const file: LoomWorkflowFile = {
+    format: LOOM_FORMAT_ID,
+    formatVersion: LOOM_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    workflow: {
+      name: template.name,
+      description: template.description,
+      tags: template.tags,
+      nodes: template.nodes.map((node, index) => {
+        const metadata = actions.find(action => action.id === node.actionId)
+        const isControlFlow = node.actionId === CONDITION_ACTION_TYPE || node.actionId === LOOP_ACTION_TYPE
+        if (!metadata && !isControlFlow) {
+          throw new TemplateError(`Template "${template.name}" uses unknown action "${node.actionId}"`)
+        }
+
+        const parameters: Record<string, string> = {}
+        Object.entries(node.parameters || {}).forEach(([name, value]) => {
+          const substituted = substitute(value)
+          // Optional parameters left blank keep their registry default
+          if (substituted !== '') parameters[name] = substituted
+        })
+
+        return {
+          id: node.id,
+          actionId: node.actionId,
+          registryVersion: metadata?.version,
+          label: node.label || metadata?.name || node.actionId,
+          category: metadata?.category,
+          nodeType: isControlFlow ? node.actionId : 'action',
+          position: { x: 250, y: 50 + index * NODE_SPACING },
+          parameters,
+          metadata,
+          ...(node.condition && {
+            condition: {
+              ...node.condition,
+              left: substitute(node.condition.left),
+              right: substitute(node.condition.right)
+            }
+          }),
+          ...(node.loop && { loop: { ...node.loop, items: substitute(node.loop.items) } })
+        }
+      }),
+      edges: template.edges.map((edge, index) => ({
+        id: `${template.id}-edge-${index + 1}`,
+        source: edge.source,
+        target: edge.target,
+        sourceHandle: edge.sourceHandle
+      }))
+    },
+    agentConfig: template.scheduleHours
+      ? createRecurringAgentConfig(Number(substitute(template.scheduleHours)))
+      : undefined
+  }
+
+  return importWorkflow(file)
+}
+
+function createRecurringAgentConfig(intervalHours: number): AgentConfiguration {
+  return {
+    schedule: { type: 'recurring', interval: intervalHours * 3600 },
+    eventTriggers: [],
+    retryPolicy: { maxRetries: 3, backoffMultiplier: 2, initialDelay: 1000 },
+    notifications: { onSuccess: false, onFailure: true, channels: [] },
+    permissions: []
+  }
+}
+
+function checkVariableValue(variable: TemplateVariable, value: string): string | null {
+  const isAddress = (text: string) => /^0x[a-fA-F0-9]{16}$/.test(text)
+
+  if (variable.options && !variable.options.includes(value)) {
+    return `must be one of: ${variable.options.join(', ')}`
+  }
+
+  switch (variable.type) {
+    case 'Address':
+      return isAddress(value) ? null : 'must be a Flow address (0x followed by 16 hex characters)'
+    case 'UFix64':
+      return /^\d+(\.\d{1,8})?$/.test(value) && Number(value) > 0
+        ? null
+        : 'must be a positive decimal with up to 8 decimal places'
+    case 'UInt64':
+      return /^\d+$/.test(value) && Number(value) > 0 ? null : 'must be a positive whole number'
+    case '[Address]': {
+      const addresses = value.split(',').map(address => address.trim()).filter(Boolean)
+      const invalid = addresses.filter(address => !isAddress(address))
+      if (addresses.length === 0) return 'must list at least one address'
+      return invalid.length > 0 ? `contains invalid addresses: ${invalid.join(', ')}` : null
+    }
+    default:
+      return null
+  }
+}
@@ -11,7 +11,16 @@ import {
   ValidationContext,
   ValidationResult
 } from './parameter-validator'
-import { ValidationErrorType } from './types'
+import { ValidationErrorType, ParameterType } from './types'
+import {
+  MAX_LOOP_ITERATIONS,
+  getLoopBodyActions,
+  getLoopIterationBound,
+  isConditionAction,
+  isControlFlowAction,
+  isLoopAction,
+  parseLoopItems
+} from './workflow-control-flow'
 
 // Workflow-specific validation types
 export interface WorkflowValidationResult {
@@ -87,6 +96,9 @@ export class WorkflowValidator {
 
     // Validate each action individually
     for (const action of workflow.actions) {
+      // Control-flow nodes have no registry metadata; their structure is checked below
+      if (isControlFlowAction(action)) continue
+
       const metadata = actionMetadata[action.actionType]
       if (!metadata) {
         globalErrors.push({
@@ -120,6 +132,7 @@ export class WorkflowValidator {
 
     // Check for global workflow issues
     this.validateWorkflowStructure(workflow, globalErrors, warnings)
+    this.validateLoops(workflow, actionMetadata, globalErrors, warnings)
 
     const isValid = 
       Object.values(actionResults).every(result => result.isValid) &&
@@ -490,6 +503,28 @@ export class WorkflowValidator {
       })
     }
 
+    // Check condition nodes have a predicate and at least one branch
+    for (const action of workflow.actions.filter(isConditionAction)) {
+      const condition = action.condition
+      if (!condition || !condition.left || !condition.operator || !condition.right) {
+        globalErrors.push({
+          type: ValidationErrorType.MISSING_REQUIRED,
+          message: `Condition "${action.name}" is missing its predicate`,
+          field: action.id,
+          severity: 'error'
+        })
+      }
+
+      if (!action.branches || (action.branches.true.length === 0 && action.branches.false.length === 0)) {
+        globalErrors.push({
+          type: ValidationErrorType.MISSING_REQUIRED,
+          message: `Condition "${action.name}" must connect at least one branch`,
+          field: action.id,
+          severity: 'error'
+        })
+      }
+    }
+
     // Check execution order consistency
     if (workflow.executionOrder) {
       const missingFromOrder = actionIds.filter(id => !workflow.executionOrder.includes(id))
@@ -505,6 +540,84 @@ export class WorkflowValidator {
     }
   }
 
+  /**
+   * Validates for-each nodes: every loop must iterate over an Array and be
+   * bounded, either by a literal size or by maxIterations
+   */
+  private validateLoops(
+    workflow: ParsedWorkflow,
+    actionMetadata: Record<string, ActionMetadata>,
+    globalErrors: ValidationError[],
+    warnings: string[]
+  ): void {
+    for (const action of workflow.actions.filter(isLoopAction)) {
+      const items = parseLoopItems(action.loop)
+      if (!items) {
+        globalErrors.push({
+          type: ValidationErrorType.MISSING_REQUIRED,
+          message: `Loop "${action.name}" is missing the items to iterate over`,
+          field: action.id,
+          severity: 'error'
+        })
+        continue
+      }
+
+      if (items.kind === 'reference') {
+        const source = workflow.actions.find(a => a.id === items.actionId)
+        const output = source && actionMetadata[source.actionType]?.outputs.find(o => o.name === items.outputName)
+
+        if (!source) {
+          globalErrors.push({
+            type: ValidationErrorType.UNRESOLVED_REFERENCE,
+            message: `Loop "${action.name}" iterates over unknown action "${items.actionId}"`,
+            field: action.id,
+            severity: 'error'
+          })
+        } else if (output && !this.isArrayType(output.type)) {
+          globalErrors.push({
+            type: ValidationErrorType.TYPE_MISMATCH,
+            message: `Loop "${action.name}" iterates over ${items.actionId}.${items.outputName}, which is ${output.type}, not an Array`,
+            field: action.id,
+            severity: 'error'
+          })
+        }
+      }
+
+      const bound = getLoopIterationBound(action)
+      const maxIterations = action.loop?.maxIterations
+      if (bound === undefined) {
+        globalErrors.push({
+          type: ValidationErrorType.OUT_OF_RANGE,
+          message: `Loop "${action.name}" is unbounded: set maxIterations (1-${MAX_LOOP_ITERATIONS}) for runtime collections`,
+          field: action.id,
+          severity: 'error'
+        })
+      } else if (bound > MAX_LOOP_ITERATIONS) {
+        globalErrors.push({
+          type: ValidationErrorType.OUT_OF_RANGE,
+          message: `Loop "${action.name}" runs up to ${bound} iterations, above the limit of ${MAX_LOOP_ITERATIONS}`,
+          field: action.id,
+          severity: 'error'
+        })
+      } else if (items.kind !== 'reference' && maxIterations !== undefined && bound > maxIterations) {
+        globalErrors.push({
+          type: ValidationErrorType.OUT_OF_RANGE,
+          message: `Loop "${action.name}" has ${bound} items but maxIterations is ${maxIterations}`,
+          field: action.id,
+          severity: 'error'
+        })
+      }
+
+      if (!action.loopBody || action.loopBody.length === 0) {
+        warnings.push(`Loop "${action.name}" has no actions in its body`)
+      }
+    }
+  }
+
+  private isArrayType(type: string): boolean {
+    return type === ParameterType.ARRAY || /^\[.*\]\??$/.test(type.trim())
+  }
+
   /**
    * Builds a map of available outputs for each action
    */
@@ -534,6 +647,19 @@ export class WorkflowValidator {
       availableOutputs[action.id] = outputs
     }
 
+    // Actions inside a for-each body can read the current element as `loopId.item`
+    for (const [loopId, bodyActions] of getLoopBodyActions(workflow)) {
+      const loop = workflow.actions.find(action => action.id === loopId)
+      for (const actionId of bodyActions) {
+        if (!availableOutputs[actionId]) continue
+        availableOutputs[actionId][`${loopId}.item`] = {
+          name: 'item',
+          type: loop?.loop?.itemType || 'AnyStruct',
+          description: `Current element of ${loop?.name || loopId}`
+        }
+      }
+    }
+
     return availableOutputs
   }
 
@@ -0,0 +1,62 @@
+/**
+ * NLP evaluation runner
+ *
+ * `pnpm eval:nlp` scores the offline heuristic parser on the labeled corpus,
+ * writes the report and fails when intent accuracy, entity F1 or parameter
+ * exact-match drops more than NLP_EVAL_MAX_DROP below the baseline.
+ *
+ * NLP_EVAL_REPORT       report path (default .data/nlp-eval/report.json)
+ * NLP_EVAL_MAX_DROP     allowed drop per metric (default 0.02)
+ * NLP_EVAL_UPDATE_BASELINE=1   record the current metrics as the baseline
+ */
+
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest'
+import { mkdir, readFile, writeFile } from 'fs/promises'
+import path from 'path'
+import { NLPService } from '../lib/nlp-service'
+import {
+  DEFAULT_NLP_EVAL_MAX_DROP,
+  evaluateNLP,
+  formatNLPReport,
+  type NLPEvaluationCase,
+  type NLPEvaluationMetrics
+} from '../lib/nlp-evaluation'
+
+const FIXTURES = path.join(__dirname, '..', 'lib', '__tests__', 'fixtures', 'nlp-eval')
+const BASELINE = path.join(FIXTURES, 'baseline.json')
+const REPORT = process.env.NLP_EVAL_REPORT || path.join(process.cwd(), '.data', 'nlp-eval', 'report.json')
+const MAX_DROP = process.env.NLP_EVAL_MAX_DROP ? Number(process.env.NLP_EVAL_MAX_DROP) : DEFAULT_NLP_EVAL_MAX_DROP
+
+const readJson = async <T>(file: string): Promise<T> => JSON.parse(await readFile(file, 'utf8'))
+
+describe('NLP evaluation', () => {
+  beforeAll(() => {
+    // The heuristic parser warns whenever action discovery is unavailable
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterAll(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should not regress from the baseline', async () => {
+    const corpus = await readJson<NLPEvaluationCase[]>(path.join(FIXTURES, 'corpus.json'))
+    const { metrics: baseline } = await readJson<{ metrics: NLPEvaluationMetrics }>(BASELINE)
+
+    // Offline: no Hugging Face key and no LLM provider
+    const nlp = new NLPService({ confidenceThreshold: 0.5, apiKey: undefined }, { llmProvider: null })
+    const report = await evaluateNLP(nlp, corpus, { baseline, maxDrop: MAX_DROP })
+
+    await mkdir(path.dirname(REPORT), { recursive: true })
+    await writeFile(REPORT, JSON.stringify(report, null, 2))
+    console.log(`${formatNLPReport(report)}\n\nReport written to ${REPORT}`)
+
+    if (process.env.NLP_EVAL_UPDATE_BASELINE === '1') {
+      await writeFile(BASELINE, `${JSON.stringify({ generatedAt: report.generatedAt, metrics: report.metrics }, null, 2)}\n`)
+      console.log(`Baseline updated in ${BASELINE}`)
+      return
+    }
+
+    expect(report.regressions).toEqual([])
+  }, 120_000)
+})
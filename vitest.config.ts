@@ -1,4 +1,4 @@
-import { defineConfig } from 'vitest/config'
+import { configDefaults, defineConfig } from 'vitest/config'
 import path from 'path'
 
 export default defineConfig({
@@ -6,6 +6,8 @@ export default defineConfig({
     environment: 'jsdom',
     setupFiles: ['./lib/__tests__/setup.ts'],
     globals: true,
+    // scripts/ holds runners, not tests; pnpm eval:nlp uses vitest.eval.config.ts
+    exclude: [...configDefaults.exclude, 'scripts/**'],
   },
   resolve: {
     alias: {
@@ -0,0 +1,12 @@
+import { configDefaults, defineConfig } from 'vitest/config'
+import baseConfig from './vitest.config'
+
+// pnpm eval:nlp: runs only the NLP evaluation runner, which the main config excludes
+export default defineConfig({
+  ...baseConfig,
+  test: {
+    ...baseConfig.test,
+    include: ['scripts/evaluate-nlp.test.ts'],
+    exclude: configDefaults.exclude,
+  },
+})